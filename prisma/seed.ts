@@ -22,12 +22,6 @@ const prisma = new PrismaClient();
 
 const gameConfigs: Prisma.GameConfigCreateInput[] = [
   // -- General --
-  {
-    key: "tick_interval_ms",
-    value: 300000,
-    category: "general",
-    description: "Production tick interval (5 min)",
-  },
   {
     key: "max_modules_per_player",
     value: 20,
@@ -78,21 +72,15 @@ const gameConfigs: Prisma.GameConfigCreateInput[] = [
     category: "economy",
     description: "Marketplace trade fee (%)",
   },
-  {
-    key: "price_volatility",
-    value: 0.05,
-    category: "economy",
-    description: "Max price swing per tick (5%)",
-  },
   {
     key: "diminishing_returns_start",
-    value: 100,
+    value: 30,
     category: "economy",
     description: "Module age in cycles before efficiency drops",
   },
   {
     key: "diminishing_returns_rate",
-    value: 0.1,
+    value: 1,
     category: "economy",
     description: "Efficiency loss % per cycle after threshold",
   },
@@ -102,6 +90,25 @@ const gameConfigs: Prisma.GameConfigCreateInput[] = [
     category: "economy",
     description: "Floor efficiency % (never lower)",
   },
+  {
+    key: "trade_offer_ttl_hours",
+    value: 48,
+    category: "economy",
+    description: "Hours before an unanswered player trade offer expires",
+  },
+  {
+    key: "trade_offer_max_open",
+    value: 10,
+    category: "economy",
+    description: "Max open trade offers per player",
+  },
+  {
+    key: "gift_daily_limit",
+    value: 2000,
+    category: "economy",
+    description:
+      "Daily $LUNAR value a player may give away (or receive) in gifts and lopsided trades",
+  },
 
   // -- Modules --
   {
@@ -138,9 +145,10 @@ const gameConfigs: Prisma.GameConfigCreateInput[] = [
   },
   {
     key: "crew_specialty_bonus",
-    value: 15,
+    value: 50,
     category: "crew",
-    description: "% bonus when assigned to matching module",
+    description:
+      "% of a crew member's output bonus that only applies on a matching module",
   },
 
   // -- Alliance --
@@ -154,7 +162,7 @@ const gameConfigs: Prisma.GameConfigCreateInput[] = [
     key: "alliance_max_members",
     value: 10,
     category: "alliance",
-    description: "Default max members",
+    description: "Member slots at level 1",
   },
   {
     key: "alliance_dividend_percent",
@@ -162,6 +170,42 @@ const gameConfigs: Prisma.GameConfigCreateInput[] = [
     category: "alliance",
     description: "% of production to alliance treasury",
   },
+  {
+    key: "alliance_dividend_payout_percent",
+    value: 50,
+    category: "alliance",
+    description: "% of skimmed production paid back to members as dividends",
+  },
+  {
+    key: "alliance_officer_withdraw_limit",
+    value: 1000,
+    category: "alliance",
+    description: "Daily treasury withdrawal limit for officers ($LUNAR value)",
+  },
+  {
+    key: "alliance_leader_withdraw_limit",
+    value: 10000,
+    category: "alliance",
+    description: "Daily treasury withdrawal limit for leaders ($LUNAR value)",
+  },
+  {
+    key: "alliance_xp_per_cycle",
+    value: 10,
+    category: "alliance",
+    description: "Alliance XP per member production cycle",
+  },
+  {
+    key: "alliance_xp_per_lunar_spent",
+    value: 0.5,
+    category: "alliance",
+    description: "Alliance XP per $LUNAR the treasury spends on perks",
+  },
+  {
+    key: "alliance_slots_per_level",
+    value: 2,
+    category: "alliance",
+    description: "Extra member slots gained per alliance level",
+  },
 
   // -- XP / Leveling --
   {
@@ -1241,8 +1285,10 @@ async function main() {
         value: config.value,
         description: config.description,
         category: config.category,
+        updatedBy: "seed",
+        version: { increment: 1 },
       },
-      create: config,
+      create: { ...config, updatedBy: "seed" },
     });
   }
   console.log(`  ${gameConfigs.length} config entries\n`);
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+
+/**
+ * GET /.well-known/farcaster.json
+ *
+ * Farcaster Mini App manifest. Clients read it when a user adds the app;
+ * `webhookUrl` is where they send the signed add/remove and notification
+ * events (api/webhooks/farcaster).
+ *
+ * The account association proves domain ownership and is generated once
+ * per domain with the Farcaster manifest tool:
+ *   FARCASTER_ACCOUNT_HEADER, FARCASTER_ACCOUNT_PAYLOAD,
+ *   FARCASTER_ACCOUNT_SIGNATURE
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const appUrl = (
+    process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  ).replace(/\/+$/, "");
+
+  const header = process.env.FARCASTER_ACCOUNT_HEADER;
+  const payload = process.env.FARCASTER_ACCOUNT_PAYLOAD;
+  const signature = process.env.FARCASTER_ACCOUNT_SIGNATURE;
+
+  return NextResponse.json(
+    {
+      ...(header && payload && signature
+        ? { accountAssociation: { header, payload, signature } }
+        : {}),
+      miniapp: {
+        version: "1",
+        name: "Lunar Colony Tycoon",
+        iconUrl: `${appUrl}/icons/icon-512.png`,
+        homeUrl: `${appUrl}/dashboard`,
+        imageUrl: `${appUrl}/api/frames/image`,
+        buttonTitle: "🚀 Play Now",
+        splashImageUrl: `${appUrl}/splash.png`,
+        splashBackgroundColor: "#0a0a1a",
+        webhookUrl: `${appUrl}/api/webhooks/farcaster`,
+        subtitle: "Build a lunar industrial empire",
+        description:
+          "Build modules, run production, trade resources and join alliances to grow your colony on the Moon.",
+        primaryCategory: "games",
+        tags: ["strategy", "idle", "tycoon", "moon"],
+      },
+    },
+    { headers: { "Cache-Control": "public, max-age=300" } },
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import type { ReactNode } from "react";
+import { Providers } from "@/components/providers";
+
+export const metadata: Metadata = {
+  title: "Admin — Lunar Colony Tycoon",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminLayout({ children }: { children: ReactNode }) {
+  return (
+    <Providers>
+      <div className="min-h-screen bg-slate-950 text-slate-100">{children}</div>
+    </Providers>
+  );
+}
@@ -0,0 +1,577 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import Link from "next/link";
+import { useAdminStore } from "@/stores/admin-store";
+import { useSession } from "@/hooks/use-session";
+import {
+  useAdminConfig,
+  useUpdateConfig,
+  useAdminEvents,
+  useScheduleEvent,
+  useCancelEvent,
+  useAdminPlayerSearch,
+  useAdminPlayer,
+  useModeratePlayer,
+  type AdminConfigEntry,
+} from "@/hooks/use-admin";
+
+// ---------------------------------------------------------------------------
+// Shared bits
+// ---------------------------------------------------------------------------
+
+type Tab = "config" | "events" | "players";
+
+const TABS: Array<{ id: Tab; label: string }> = [
+  { id: "config", label: "⚙️ Balance" },
+  { id: "events", label: "📅 Events" },
+  { id: "players", label: "👤 Players" },
+];
+
+const RESOURCES = ["LUNAR", "REGOLITH", "WATER_ICE", "HELIUM3", "RARE_EARTH"];
+
+const inputClass =
+  "rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-cyan-500 focus:outline-none";
+const buttonClass =
+  "rounded-lg bg-cyan-600 px-3 py-2 text-sm font-medium text-white hover:bg-cyan-500 disabled:opacity-50";
+const dangerButtonClass =
+  "rounded-lg bg-red-600/80 px-3 py-2 text-sm font-medium text-white hover:bg-red-500 disabled:opacity-50";
+
+function StatusLine({
+  error,
+  success,
+}: {
+  error?: Error | null;
+  success?: string | null;
+}) {
+  if (error) return <p className="text-sm text-red-400">{error.message}</p>;
+  if (success) return <p className="text-sm text-emerald-400">{success}</p>;
+  return null;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sign-in
+// ---------------------------------------------------------------------------
+
+function SignIn({ fid }: { fid: number }) {
+  const signIn = useAdminStore((s) => s.signIn);
+  const [secret, setSecret] = useState("");
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (secret) signIn(secret);
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="mx-auto mt-24 flex max-w-sm flex-col gap-3 rounded-xl border border-slate-800 bg-slate-900/60 p-6"
+    >
+      <h1 className="text-lg font-bold">🛰️ Colony Admin</h1>
+      <p className="text-xs text-slate-400">Signed in as FID {fid}</p>
+      <input
+        className={inputClass}
+        type="password"
+        placeholder="Admin secret"
+        value={secret}
+        onChange={(e) => setSecret(e.target.value)}
+      />
+      <button className={buttonClass} type="submit">
+        Sign in
+      </button>
+    </form>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Balance tuning
+// ---------------------------------------------------------------------------
+
+function ConfigRow({ entry }: { entry: AdminConfigEntry }) {
+  const update = useUpdateConfig();
+  const [draft, setDraft] = useState(formatValue(entry.value));
+  const dirty = draft !== formatValue(entry.value);
+
+  return (
+    <tr className="border-t border-slate-800 align-top">
+      <td className="py-2 pr-3">
+        <div className="font-mono text-xs text-cyan-300">{entry.key}</div>
+        <div className="text-xs text-slate-500">{entry.description}</div>
+        {!entry.isValid && (
+          <div className="text-xs text-amber-400">
+            Stored value is invalid — default in use
+          </div>
+        )}
+      </td>
+      <td className="py-2 pr-3 text-xs text-slate-400">{entry.constraint}</td>
+      <td className="py-2 pr-3 text-xs text-slate-400">
+        {formatValue(entry.defaultValue)}
+      </td>
+      <td className="py-2 pr-3">
+        <input
+          className={`${inputClass} w-40 font-mono`}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <StatusLine error={update.error} />
+      </td>
+      <td className="py-2 text-xs text-slate-500">
+        v{entry.version}
+        {entry.updatedBy && <div>by {entry.updatedBy}</div>}
+      </td>
+      <td className="py-2 pl-3">
+        <button
+          className={buttonClass}
+          disabled={!dirty || update.isPending}
+          onClick={() =>
+            update.mutate({
+              key: entry.key,
+              value: parseValue(draft),
+              expectedVersion: entry.version,
+            })
+          }
+        >
+          Save
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+function ConfigTab() {
+  const { data, isLoading, error } = useAdminConfig();
+
+  if (isLoading) return <p className="text-slate-400">Loading config…</p>;
+  if (error || !data) return <StatusLine error={error} />;
+
+  return (
+    <div className="space-y-6">
+      <table className="w-full text-left text-sm">
+        <thead className="text-xs uppercase text-slate-500">
+          <tr>
+            <th className="pb-2">Key</th>
+            <th className="pb-2">Allowed</th>
+            <th className="pb-2">Default</th>
+            <th className="pb-2">Value</th>
+            <th className="pb-2">Version</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {data.entries.map((entry) => (
+            <ConfigRow key={`${entry.key}:${entry.version}`} entry={entry} />
+          ))}
+        </tbody>
+      </table>
+
+      <section>
+        <h2 className="mb-2 text-sm font-semibold text-slate-300">
+          Recent changes
+        </h2>
+        <ul className="space-y-1 text-xs text-slate-400">
+          {data.history.map((h) => (
+            <li key={`${h.key}:${h.version}`}>
+              {new Date(h.changedAt).toLocaleString()} —{" "}
+              <span className="font-mono text-cyan-300">{h.key}</span>{" "}
+              {formatValue(h.previous)} → {formatValue(h.value)} (v{h.version},
+              by {h.updatedBy})
+            </li>
+          ))}
+          {data.history.length === 0 && <li>No changes yet.</li>}
+        </ul>
+      </section>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Event control
+// ---------------------------------------------------------------------------
+
+function EventsTab() {
+  const { data, isLoading, error } = useAdminEvents();
+  const schedule = useScheduleEvent();
+  const cancel = useCancelEvent();
+  const [type, setType] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [durationHours, setDurationHours] = useState("");
+  const [targetFids, setTargetFids] = useState("");
+
+  if (isLoading) return <p className="text-slate-400">Loading events…</p>;
+  if (error || !data) return <StatusLine error={error} />;
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    const fids = targetFids
+      .split(",")
+      .map((s) => parseInt(s.trim(), 10))
+      .filter((n) => Number.isInteger(n));
+    const eventType = type || data.definitions[0]?.type;
+    if (!eventType) return;
+    schedule.mutate({
+      type: eventType,
+      startTime: startTime ? new Date(startTime).toISOString() : undefined,
+      durationHours: durationHours ? Number(durationHours) : undefined,
+      targetFids: fids.length > 0 ? fids : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={submit}
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-800 bg-slate-900/60 p-4"
+      >
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Event
+          <select
+            className={inputClass}
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+          >
+            {data.definitions.map((d) => (
+              <option key={d.type} value={d.type}>
+                {d.icon} {d.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Start (blank = now)
+          <input
+            className={inputClass}
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Duration (hours)
+          <input
+            className={`${inputClass} w-28`}
+            type="number"
+            min="0"
+            step="0.5"
+            placeholder="default"
+            value={durationHours}
+            onChange={(e) => setDurationHours(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Target FIDs (blank = everyone)
+          <input
+            className={inputClass}
+            placeholder="123, 456"
+            value={targetFids}
+            onChange={(e) => setTargetFids(e.target.value)}
+          />
+        </label>
+        <button
+          className={buttonClass}
+          type="submit"
+          disabled={schedule.isPending}
+        >
+          Schedule
+        </button>
+        <StatusLine
+          error={schedule.error}
+          success={schedule.isSuccess ? "Event scheduled" : null}
+        />
+      </form>
+
+      <section>
+        <h2 className="mb-2 text-sm font-semibold text-slate-300">
+          Pending &amp; active
+        </h2>
+        <ul className="space-y-2">
+          {data.active.map((ev) => (
+            <li
+              key={ev.id}
+              className="flex items-center justify-between rounded-lg border border-slate-800 px-3 py-2 text-sm"
+            >
+              <span>
+                {ev.icon} {ev.name}{" "}
+                <span className="text-xs text-slate-500">
+                  {ev.status} · {new Date(ev.startTime).toLocaleString()} →{" "}
+                  {new Date(ev.endTime).toLocaleString()} ·{" "}
+                  {ev.participantCount} participants
+                </span>
+              </span>
+              <button
+                className={dangerButtonClass}
+                disabled={cancel.isPending}
+                onClick={() => cancel.mutate(ev.id)}
+              >
+                Cancel
+              </button>
+            </li>
+          ))}
+          {data.active.length === 0 && (
+            <li className="text-xs text-slate-500">No running events.</li>
+          )}
+        </ul>
+        <StatusLine error={cancel.error} />
+      </section>
+
+      <section>
+        <h2 className="mb-2 text-sm font-semibold text-slate-300">Recent</h2>
+        <ul className="space-y-1 text-xs text-slate-400">
+          {data.recent.map((ev) => (
+            <li key={ev.id}>
+              {ev.icon} {ev.name} — {ev.status},{" "}
+              {new Date(ev.endTime).toLocaleString()}
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Player moderation
+// ---------------------------------------------------------------------------
+
+function PlayerPanel({ fid }: { fid: number }) {
+  const { data: player, isLoading, error } = useAdminPlayer(fid);
+  const moderate = useModeratePlayer(fid);
+  const [resource, setResource] = useState("LUNAR");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  if (isLoading) return <p className="text-slate-400">Loading player…</p>;
+  if (error || !player) return <StatusLine error={error} />;
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-semibold">
+            {player.username ?? "anonymous"}{" "}
+            <span className="text-xs text-slate-500">FID {player.fid}</span>
+          </div>
+          <div className="text-xs text-slate-400">
+            Level {player.level} · {player.moduleCount} modules ·{" "}
+            {player.lunarBalance.toFixed(2)} LUNAR
+          </div>
+          {player.suspendedAt && (
+            <div className="text-xs text-red-400">
+              Suspended {new Date(player.suspendedAt).toLocaleString()}
+            </div>
+          )}
+        </div>
+        {player.suspendedAt ? (
+          <button
+            className={buttonClass}
+            disabled={moderate.isPending}
+            onClick={() => moderate.mutate({ action: "restore" })}
+          >
+            Restore
+          </button>
+        ) : (
+          <button
+            className={dangerButtonClass}
+            disabled={moderate.isPending || !reason.trim()}
+            onClick={() => moderate.mutate({ action: "suspend", reason })}
+            title="Enter a reason below first"
+          >
+            Suspend
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs text-slate-400">
+        {player.resources.map((r) => (
+          <span key={r.type} className="rounded bg-slate-800 px-2 py-1">
+            {r.type}: {r.amount}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <select
+          className={inputClass}
+          value={resource}
+          onChange={(e) => setResource(e.target.value)}
+        >
+          {RESOURCES.map((r) => (
+            <option key={r} value={r}>
+              {r}
+            </option>
+          ))}
+        </select>
+        <input
+          className={`${inputClass} w-32`}
+          type="number"
+          placeholder="+/- amount"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+        <input
+          className={`${inputClass} flex-1`}
+          placeholder="Reason (required)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <button
+          className={buttonClass}
+          disabled={moderate.isPending || !amount || !reason.trim()}
+          onClick={() =>
+            moderate.mutate({
+              action: "adjust",
+              resource,
+              amount: Number(amount),
+              reason,
+            })
+          }
+        >
+          Adjust
+        </button>
+      </div>
+      <StatusLine error={moderate.error} />
+
+      <table className="w-full text-left text-xs text-slate-400">
+        <tbody>
+          {player.recentTransactions.map((t) => (
+            <tr key={t.id} className="border-t border-slate-800">
+              <td className="py-1">{new Date(t.createdAt).toLocaleString()}</td>
+              <td>{t.type}</td>
+              <td>
+                {t.amount > 0 ? "+" : ""}
+                {t.amount} {t.resource}
+              </td>
+              <td className="text-slate-500">{t.description}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PlayersTab() {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<number | null>(null);
+  const { data: players, isFetching } = useAdminPlayerSearch(query);
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[280px_1fr]">
+      <div className="space-y-3">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setQuery(input);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder="FID or username"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+          />
+          <button className={buttonClass} type="submit">
+            Search
+          </button>
+        </form>
+        {isFetching && <p className="text-xs text-slate-500">Searching…</p>}
+        <ul className="space-y-1">
+          {players?.map((p) => (
+            <li key={p.id}>
+              <button
+                className={`w-full rounded-lg px-3 py-2 text-left text-sm hover:bg-slate-800 ${
+                  selected === p.fid ? "bg-slate-800" : ""
+                }`}
+                onClick={() => setSelected(p.fid)}
+              >
+                {p.username ?? "anonymous"}{" "}
+                <span className="text-xs text-slate-500">#{p.fid}</span>
+                {p.suspendedAt && (
+                  <span className="ml-2 text-xs text-red-400">suspended</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+      {selected !== null && <PlayerPanel key={selected} fid={selected} />}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Admin Page
+// ---------------------------------------------------------------------------
+
+/** Admins act as their dashboard session's FID, so that comes first. */
+function NeedsSession() {
+  return (
+    <div className="mx-auto mt-24 flex max-w-sm flex-col gap-3 rounded-xl border border-slate-800 bg-slate-900/60 p-6">
+      <h1 className="text-lg font-bold">🛰️ Colony Admin</h1>
+      <p className="text-sm text-slate-400">
+        Sign in to the dashboard with your admin Farcaster account first.
+      </p>
+      <Link className={`${buttonClass} text-center`} href="/dashboard">
+        Go to dashboard
+      </Link>
+    </div>
+  );
+}
+
+export default function AdminPage() {
+  const { data: session, isLoading } = useSession();
+  const secret = useAdminStore((s) => s.secret);
+  const signOut = useAdminStore((s) => s.signOut);
+  const [tab, setTab] = useState<Tab>("config");
+
+  if (isLoading) return null;
+  if (!session) return <NeedsSession />;
+  if (!secret) return <SignIn fid={session.fid} />;
+
+  return (
+    <main className="mx-auto max-w-6xl space-y-6 p-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-xl font-bold">🛰️ Colony Admin</h1>
+        <div className="flex items-center gap-3 text-xs text-slate-400">
+          Signed in as FID {session.fid}
+          <button className="underline" onClick={signOut}>
+            Sign out
+          </button>
+        </div>
+      </header>
+
+      <nav className="flex gap-2">
+        {TABS.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => setTab(t.id)}
+            className={`rounded-lg px-3 py-2 text-sm ${
+              tab === t.id
+                ? "bg-cyan-600 text-white"
+                : "bg-slate-900 text-slate-400 hover:text-white"
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </nav>
+
+      {tab === "config" && <ConfigTab />}
+      {tab === "events" && <EventsTab />}
+      {tab === "players" && <PlayersTab />}
+    </main>
+  );
+}
@@ -0,0 +1,175 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getAllianceProfile } from "@/lib/alliance-rankings";
+import { formatLunar } from "@/lib/utils";
+
+const ROLE_ICON = { LEADER: "👑", OFFICER: "⭐", MEMBER: "👤" } as const;
+
+const JOIN_MODE_LABEL = {
+  OPEN: "Open to all",
+  APPROVAL: "Accepting requests",
+  INVITE_ONLY: "Invite only",
+} as const;
+
+const RANK_LABEL = {
+  TREASURY: "Treasury",
+  PRODUCTION: "Production",
+  TOURNAMENT_WINS: "Tournament wins",
+} as const;
+
+/**
+ * Public alliance profile page: /alliance/[id]
+ * Members, recruitment status, all-time ranks and recent achievements.
+ */
+export default async function AllianceProfilePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const alliance = await getAllianceProfile(id);
+  if (!alliance) {
+    notFound();
+  }
+
+  const ranks = Object.entries(alliance.ranks) as Array<
+    [keyof typeof RANK_LABEL, number]
+  >;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-950 via-indigo-950 to-slate-950 text-white">
+      <div className="mx-auto max-w-2xl px-4 py-12">
+        {/* Header */}
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl font-bold">🏰 {alliance.name}</h1>
+          {alliance.description && (
+            <p className="mt-2 text-lg text-indigo-300">
+              {alliance.description}
+            </p>
+          )}
+          <p
+            className={`mt-3 inline-block rounded-full px-3 py-1 text-sm ${
+              alliance.recruiting
+                ? "bg-emerald-900/40 text-emerald-300"
+                : "bg-slate-800 text-slate-400"
+            }`}
+          >
+            {alliance.recruiting
+              ? `Recruiting · ${JOIN_MODE_LABEL[alliance.joinMode]}`
+              : alliance.memberCount >= alliance.maxMembers
+                ? "Full"
+                : JOIN_MODE_LABEL[alliance.joinMode]}
+          </p>
+        </div>
+
+        {/* Stats Grid */}
+        <div className="mb-8 grid grid-cols-2 gap-4 md:grid-cols-4">
+          <StatCard label="Level" value={`${alliance.level}`} icon="⭐" />
+          <StatCard
+            label="Members"
+            value={`${alliance.memberCount}/${alliance.maxMembers}`}
+            icon="👥"
+          />
+          <StatCard
+            label="Treasury"
+            value={formatLunar(alliance.treasury)}
+            icon="💰"
+          />
+          <StatCard
+            label="Founded"
+            value={alliance.createdAt.toLocaleDateString("en-US", {
+              month: "short",
+              year: "numeric",
+            })}
+            icon="📅"
+          />
+        </div>
+
+        {/* Rankings */}
+        {ranks.length > 0 && (
+          <div className="mb-6 flex flex-wrap justify-center gap-2">
+            {ranks.map(([metric, rank]) => (
+              <span
+                key={metric}
+                className="rounded-full border border-amber-700/40 bg-amber-900/20 px-3 py-1 text-sm text-amber-300"
+              >
+                #{rank} {RANK_LABEL[metric]}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Members */}
+        <div className="mb-6 rounded-xl border border-indigo-800 bg-slate-900/50 p-6">
+          <h2 className="mb-4 text-xl font-semibold">Members</h2>
+          <div className="grid gap-2">
+            {alliance.members.map((m) => (
+              <Link
+                key={m.fid}
+                href={`/${m.fid}`}
+                className="flex items-center justify-between rounded-lg border border-indigo-900 bg-slate-800/50 p-3 transition hover:border-indigo-700"
+              >
+                <span className="font-medium">
+                  {ROLE_ICON[m.role]} {m.username ?? `fid ${m.fid}`}
+                </span>
+                <span className="text-sm text-slate-400">Lv.{m.level}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {/* Achievements */}
+        <div className="rounded-xl border border-indigo-800 bg-slate-900/50 p-6">
+          <h2 className="mb-4 text-xl font-semibold">Recent Achievements</h2>
+          {alliance.achievements.length === 0 ? (
+            <p className="text-slate-400">No achievements yet.</p>
+          ) : (
+            <div className="grid gap-2">
+              {alliance.achievements.map((a, i) => (
+                <div
+                  key={`${a.kind}-${i}`}
+                  className="flex items-center justify-between rounded-lg border border-indigo-900 bg-slate-800/50 p-3"
+                >
+                  <span>
+                    {a.icon} {a.title}
+                  </span>
+                  <span className="text-sm text-slate-400">
+                    {a.at.toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* CTA */}
+        <div className="mt-8 text-center">
+          <p className="text-slate-400">
+            Play Lunar Colony Tycoon on Farcaster to join an alliance!
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StatCard({
+  label,
+  value,
+  icon,
+}: {
+  label: string;
+  value: string;
+  icon: string;
+}) {
+  return (
+    <div className="rounded-xl border border-indigo-800 bg-slate-900/50 p-4 text-center">
+      <div className="text-2xl">{icon}</div>
+      <div className="mt-1 text-lg font-bold">{value}</div>
+      <div className="text-xs text-slate-400">{label}</div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAdmin, adminUnauthorized } from "@/lib/admin-auth";
+import {
+  listGameConfig,
+  getGameConfigHistory,
+  updateGameConfig,
+} from "@/lib/game-config";
+import { GameMetrics } from "@/lib/metrics";
+
+/**
+ * GET /api/admin/config
+ * Every tunable key with its live value, default, constraint and version,
+ * plus the recent change history.
+ *
+ * Query params:
+ *   - key?: string — only return history for this key
+ */
+export async function GET(req: NextRequest) {
+  const admin = await authenticateAdmin(req);
+  if (!admin) return adminUnauthorized();
+
+  try {
+    const key = new URL(req.url).searchParams.get("key") ?? undefined;
+    const [entries, history] = await Promise.all([
+      listGameConfig(),
+      getGameConfigHistory(key),
+    ]);
+
+    return NextResponse.json(
+      { entries, history },
+      { headers: { "Cache-Control": "private, no-store" } },
+    );
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/admin/config",
+      context: "list_config",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/config
+ * Body: { key, value, expectedVersion? }
+ *
+ * The change is live on every instance within the config cache TTL.
+ * Pass the version you edited from to avoid overwriting someone else.
+ */
+export async function PATCH(req: NextRequest) {
+  const admin = await authenticateAdmin(req);
+  if (!admin) return adminUnauthorized();
+
+  try {
+    const body = await req.json();
+    const { key, value, expectedVersion } = body;
+    if (typeof key !== "string" || value === undefined) {
+      return NextResponse.json(
+        { error: "key and value required" },
+        { status: 400 },
+      );
+    }
+    if (expectedVersion !== undefined && !Number.isInteger(expectedVersion)) {
+      return NextResponse.json(
+        { error: "expectedVersion must be an integer" },
+        { status: 400 },
+      );
+    }
+
+    const result = await updateGameConfig(
+      key,
+      value,
+      admin.adminId,
+      expectedVersion,
+    );
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/admin/config",
+      context: "update_config",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
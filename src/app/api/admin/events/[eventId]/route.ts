@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAdmin, adminUnauthorized } from "@/lib/admin-auth";
+import eventEngine from "@/lib/event-engine";
+import { GameMetrics } from "@/lib/metrics";
+
+/**
+ * DELETE /api/admin/events/[eventId]
+ * Cancels a pending or active event. No rewards are paid out.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> },
+) {
+  const admin = await authenticateAdmin(req);
+  if (!admin) return adminUnauthorized();
+
+  try {
+    const { eventId } = await params;
+    const result = await eventEngine.cancelEvent(eventId, admin.adminId);
+    if (!result.success) {
+      const status = result.error === "Event not found" ? 404 : 400;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/admin/events/[eventId]",
+      context: "cancel_event",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import { authenticateAdmin, adminUnauthorized } from "@/lib/admin-auth";
+import eventEngine, { EVENT_DEFINITIONS } from "@/lib/event-engine";
+import { GameMetrics } from "@/lib/metrics";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * GET /api/admin/events
+ * Event definitions that can be scheduled, plus running/pending and
+ * recently completed events.
+ */
+export async function GET(req: NextRequest) {
+  const admin = await authenticateAdmin(req);
+  if (!admin) return adminUnauthorized();
+
+  try {
+    const [active, recent] = await Promise.all([
+      eventEngine.getActiveEvents(),
+      eventEngine.getRecentEvents(10),
+    ]);
+
+    const definitions = Object.values(EVENT_DEFINITIONS).map((def) => ({
+      type: def.type,
+      name: def.name,
+      icon: def.icon,
+      category: def.category,
+      description: def.description,
+      durationMs: def.durationMs,
+      warningMs: def.warningMs,
+      isGlobal: def.isGlobal,
+      modifiers: def.modifiers,
+    }));
+
+    return NextResponse.json(
+      { definitions, active, recent },
+      { headers: { "Cache-Control": "private, no-store" } },
+    );
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/admin/events",
+      context: "list_events",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/events
+ * Body: { type, startTime?, durationHours?, targetFids? }
+ *
+ * Starts an event from EVENT_DEFINITIONS now, or schedules it for
+ * `startTime` (ISO string). `targetFids` limits it to specific players.
+ */
+export async function POST(req: NextRequest) {
+  const admin = await authenticateAdmin(req);
+  if (!admin) return adminUnauthorized();
+
+  try {
+    const body = await req.json();
+    const { type, startTime, durationHours, targetFids } = body;
+    if (typeof type !== "string") {
+      return NextResponse.json({ error: "type required" }, { status: 400 });
+    }
+
+    let start: Date | undefined;
+    if (startTime !== undefined && startTime !== null && startTime !== "") {
+      start = new Date(startTime);
+      if (isNaN(start.getTime())) {
+        return NextResponse.json(
+          { error: "startTime must be an ISO date" },
+          { status: 400 },
+        );
+      }
+    }
+
+    let durationMs: number | undefined;
+    if (durationHours !== undefined && durationHours !== null) {
+      const hours = Number(durationHours);
+      if (!Number.isFinite(hours) || hours <= 0) {
+        return NextResponse.json(
+          { error: "durationHours must be positive" },
+          { status: 400 },
+        );
+      }
+      durationMs = Math.round(hours * HOUR_MS);
+    }
+
+    let targetPlayerIds: string[] | undefined;
+    if (Array.isArray(targetFids) && targetFids.length > 0) {
+      const fids = targetFids.map(Number).filter(Number.isInteger);
+      const players = await prisma.player.findMany({
+        where: { fid: { in: fids }, deletedAt: null },
+        select: { id: true },
+      });
+      if (players.length !== targetFids.length) {
+        return NextResponse.json(
+          { error: "One or more target FIDs not found" },
+          { status: 400 },
+        );
+      }
+      targetPlayerIds = players.map((p) => p.id);
+    }
+
+    const result = await eventEngine.scheduleEvent(type, admin.adminId, {
+      startTime: start,
+      durationMs,
+      targetPlayerIds,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/admin/events",
+      context: "schedule_event",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
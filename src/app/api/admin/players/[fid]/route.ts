@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAdmin, adminUnauthorized } from "@/lib/admin-auth";
+import adminEngine from "@/lib/admin-engine";
+import { GameMetrics } from "@/lib/metrics";
+import { validateFid, isValidResourceType } from "@/lib/validation";
+
+/**
+ * GET /api/admin/players/[fid]
+ * Balances, suspension state and recent transactions for one player.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ fid: string }> },
+) {
+  const admin = await authenticateAdmin(req);
+  if (!admin) return adminUnauthorized();
+
+  try {
+    const { fid: fidStr } = await params;
+    const fid = validateFid(fidStr);
+    if (fid === null) {
+      return NextResponse.json({ error: "Invalid FID" }, { status: 400 });
+    }
+
+    const player = await adminEngine.getPlayerDetail(fid);
+    if (!player) {
+      return NextResponse.json({ error: "Player not found" }, { status: 404 });
+    }
+    return NextResponse.json(
+      { player },
+      { headers: { "Cache-Control": "private, no-store" } },
+    );
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/admin/players/[fid]",
+      context: "player_detail",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/players/[fid]
+ * Moderation actions:
+ *   - { action: "adjust", resource, amount, reason }
+ *   - { action: "suspend", reason }
+ *   - { action: "restore" }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ fid: string }> },
+) {
+  const admin = await authenticateAdmin(req);
+  if (!admin) return adminUnauthorized();
+
+  try {
+    const { fid: fidStr } = await params;
+    const fid = validateFid(fidStr);
+    if (fid === null) {
+      return NextResponse.json({ error: "Invalid FID" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const reason = typeof body.reason === "string" ? body.reason : "";
+
+    switch (body.action) {
+      case "adjust": {
+        const { resource } = body;
+        const amount = Number(body.amount);
+        if (!isValidResourceType(resource)) {
+          return NextResponse.json(
+            { error: "Valid resource required" },
+            { status: 400 },
+          );
+        }
+        const result = await adminEngine.adjustPlayerBalance(
+          fid,
+          resource,
+          amount,
+          reason,
+          admin.adminId,
+        );
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+        return NextResponse.json(result);
+      }
+
+      case "suspend": {
+        const result = await adminEngine.suspendPlayer(
+          fid,
+          reason,
+          admin.adminId,
+        );
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+        return NextResponse.json(result);
+      }
+
+      case "restore": {
+        const result = await adminEngine.restorePlayer(fid, admin.adminId);
+        if (!result.success) {
+          return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+        return NextResponse.json(result);
+      }
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${body.action}` },
+          { status: 400 },
+        );
+    }
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/admin/players/[fid]",
+      context: "moderation_action",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
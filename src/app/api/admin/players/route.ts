@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateAdmin, adminUnauthorized } from "@/lib/admin-auth";
+import { searchPlayers } from "@/lib/admin-engine";
+import { GameMetrics } from "@/lib/metrics";
+
+/**
+ * GET /api/admin/players?q=<fid or username prefix>
+ * Player search for moderation, including suspended players.
+ */
+export async function GET(req: NextRequest) {
+  const admin = await authenticateAdmin(req);
+  if (!admin) return adminUnauthorized();
+
+  try {
+    const query = new URL(req.url).searchParams.get("q") ?? "";
+    const players = await searchPlayers(query);
+    return NextResponse.json(
+      { players },
+      { headers: { "Cache-Control": "private, no-store" } },
+    );
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/admin/players",
+      context: "search_players",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
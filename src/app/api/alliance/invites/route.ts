@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import { validateFid } from "@/lib/validation";
+import { requireSessionFid } from "@/lib/session";
+
+/**
+ * GET /api/alliance/invites?fid=123
+ * The caller's pending alliance invitations and their own outstanding
+ * join requests. Requires a session for `fid`.
+ */
+export async function GET(req: NextRequest) {
+  const fid = validateFid(req.nextUrl.searchParams.get("fid"));
+  if (fid === null) {
+    return NextResponse.json({ error: "fid required" }, { status: 400 });
+  }
+  const denied = await requireSessionFid(req, fid);
+  if (denied) return denied;
+
+  const player = await prisma.player.findUnique({
+    where: { fid },
+    select: { id: true },
+  });
+  if (!player) {
+    return NextResponse.json({ error: "Player not found" }, { status: 404 });
+  }
+
+  const allianceSelect = {
+    select: { id: true, name: true, memberCount: true, maxMembers: true },
+  };
+  const [invites, requests] = await Promise.all([
+    prisma.allianceInvite.findMany({
+      where: { playerId: player.id, alliance: { deletedAt: null } },
+      include: { alliance: allianceSelect },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.allianceJoinRequest.findMany({
+      where: { playerId: player.id, alliance: { deletedAt: null } },
+      include: { alliance: allianceSelect },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  return NextResponse.json({
+    invites: invites.map((i) => ({
+      id: i.id,
+      createdAt: i.createdAt.toISOString(),
+      alliance: i.alliance,
+    })),
+    requests: requests.map((r) => ({
+      id: r.id,
+      message: r.message,
+      createdAt: r.createdAt.toISOString(),
+      alliance: r.alliance,
+    })),
+  });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import {
+  getAllianceLeaderboard,
+  getAllianceRanks,
+  ALLIANCE_RANK_METRICS,
+} from "@/lib/alliance-rankings";
+import { validateFid } from "@/lib/validation";
+import type { AllianceRankMetric } from "@prisma/client";
+
+const PERIODS = ["DAILY", "WEEKLY", "ALLTIME"] as const;
+
+/**
+ * GET /api/alliance/leaderboard
+ * Returns the cached alliance ranking for one period and metric.
+ *
+ * Query params:
+ *   - period: "DAILY" | "WEEKLY" | "ALLTIME" (default: ALLTIME)
+ *   - metric: "TREASURY" | "PRODUCTION" | "TOURNAMENT_WINS"
+ *     (default: TREASURY)
+ *   - limit: number (default: 50, max: 100)
+ *   - fid: number (optional — include the player's alliance rank)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const period = searchParams.get("period") ?? "ALLTIME";
+    const metric = searchParams.get("metric") ?? "TREASURY";
+    if (
+      !PERIODS.includes(period as (typeof PERIODS)[number]) ||
+      !ALLIANCE_RANK_METRICS.includes(metric as AllianceRankMetric)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid period or metric" },
+        { status: 400 },
+      );
+    }
+    const limit = Math.min(Number(searchParams.get("limit") ?? 50) || 50, 100);
+    const fid = validateFid(searchParams.get("fid"));
+
+    const membership =
+      fid === null
+        ? null
+        : await prisma.allianceMember.findFirst({
+            where: { player: { fid }, alliance: { deletedAt: null } },
+            select: { allianceId: true },
+          });
+
+    const [entries, myRanks] = await Promise.all([
+      getAllianceLeaderboard(
+        period as (typeof PERIODS)[number],
+        metric as AllianceRankMetric,
+        limit,
+      ),
+      membership
+        ? getAllianceRanks(
+            membership.allianceId,
+            period as (typeof PERIODS)[number],
+          )
+        : Promise.resolve(null),
+    ]);
+
+    return NextResponse.json(
+      {
+        period,
+        metric,
+        entries,
+        myAllianceId: membership?.allianceId ?? null,
+        myAllianceRank: myRanks?.[metric as AllianceRankMetric] ?? null,
+        count: entries.length,
+      },
+      {
+        headers: {
+          "Cache-Control": "private, max-age=60",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("Alliance leaderboard error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
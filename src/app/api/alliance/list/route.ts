@@ -1,28 +1,37 @@
-import { NextResponse } from "next/server";
-import prisma from "@/lib/database";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  searchAlliances,
+  ALLIANCE_SORTS,
+  type AllianceSort,
+} from "@/lib/alliance-rankings";
 
 /**
  * GET /api/alliance/list
- * Returns all open alliances that players can join.
+ * Returns live alliances with their join mode (open, approval or
+ * invite-only) so the browser can offer Join or Request.
+ *
+ * Query params:
+ *   - q: case-insensitive name search (optional)
+ *   - sort: "members" | "level" | "treasury" | "newest" | "name"
+ *     (default: members)
+ *   - recruiting: "true" to hide invite-only alliances
  */
-export async function GET() {
-  const alliances = await prisma.alliance.findMany({
-    where: { deletedAt: null },
-    orderBy: { memberCount: "desc" },
-    take: 50,
-    select: {
-      id: true,
-      name: true,
-      description: true,
-      level: true,
-      memberCount: true,
-      maxMembers: true,
-    },
-  });
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const query = searchParams.get("q")?.trim().slice(0, 24) || undefined;
+  const sortParam = searchParams.get("sort") ?? "members";
+  if (!ALLIANCE_SORTS.includes(sortParam as AllianceSort)) {
+    return NextResponse.json(
+      { error: `sort must be one of: ${ALLIANCE_SORTS.join(", ")}` },
+      { status: 400 },
+    );
+  }
 
-  return NextResponse.json({
-    alliances: alliances.map((a) => ({
-      ...a,
-    })),
+  const alliances = await searchAlliances({
+    query,
+    sort: sortParam as AllianceSort,
+    recruiting: searchParams.get("recruiting") === "true",
   });
+
+  return NextResponse.json({ alliances });
 }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import { deleteAllianceMessage } from "@/lib/alliance-chat";
+import { validateFid } from "@/lib/validation";
+import { requireSessionFid } from "@/lib/session";
+
+/**
+ * DELETE /api/alliance/messages/[messageId]?fid=123
+ * Removes a chat message. Officers and leaders may delete any message in
+ * their alliance; members only their own. Requires a session for `fid`.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> },
+) {
+  const { messageId } = await params;
+  const fid = validateFid(req.nextUrl.searchParams.get("fid"));
+  if (fid === null) {
+    return NextResponse.json({ error: "fid required" }, { status: 400 });
+  }
+  const denied = await requireSessionFid(req, fid);
+  if (denied) return denied;
+
+  const player = await prisma.player.findUnique({
+    where: { fid },
+    select: { id: true },
+  });
+  if (!player) {
+    return NextResponse.json({ error: "Player not found" }, { status: 404 });
+  }
+
+  const result = await deleteAllianceMessage(player.id, messageId);
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  return NextResponse.json({ success: true });
+}
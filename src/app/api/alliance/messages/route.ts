@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import { getAllianceMessages, postAllianceMessage } from "@/lib/alliance-chat";
+import { validateChatMessage, validateFid } from "@/lib/validation";
+import { requireSessionFid } from "@/lib/session";
+
+async function findPlayerId(fid: number) {
+  const player = await prisma.player.findUnique({
+    where: { fid },
+    select: { id: true },
+  });
+  return player?.id ?? null;
+}
+
+/**
+ * GET /api/alliance/messages?fid=123&before=<messageId>&limit=30
+ * A page of the caller's alliance chat (oldest-first) with a `nextCursor`
+ * for loading older messages and whether the caller may moderate.
+ * Requires a session for `fid`.
+ */
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const fid = validateFid(params.get("fid"));
+  if (fid === null) {
+    return NextResponse.json({ error: "fid required" }, { status: 400 });
+  }
+  const denied = await requireSessionFid(req, fid);
+  if (denied) return denied;
+
+  const playerId = await findPlayerId(fid);
+  if (!playerId) {
+    return NextResponse.json({ error: "Player not found" }, { status: 404 });
+  }
+
+  const limit = params.get("limit");
+  const page = await getAllianceMessages(playerId, {
+    before: params.get("before"),
+    limit: limit ? parseInt(limit, 10) || undefined : undefined,
+  });
+  if (!page) {
+    return NextResponse.json({ error: "Not in an alliance" }, { status: 404 });
+  }
+
+  return NextResponse.json(page);
+}
+
+/**
+ * POST /api/alliance/messages
+ * Body: { fid, body }. Posts to the caller's alliance chat; rate limited
+ * per player (429 with Retry-After when exceeded). Requires a session
+ * for `fid`.
+ */
+export async function POST(req: NextRequest) {
+  const payload = await req.json().catch(() => null);
+  const fid = validateFid(payload?.fid);
+  if (fid === null) {
+    return NextResponse.json({ error: "Invalid FID" }, { status: 400 });
+  }
+  const denied = await requireSessionFid(req, fid);
+  if (denied) return denied;
+
+  const body = validateChatMessage(payload?.body);
+  if (!body) {
+    return NextResponse.json(
+      { error: "Message must be 1-500 characters" },
+      { status: 400 },
+    );
+  }
+
+  const playerId = await findPlayerId(fid);
+  if (!playerId) {
+    return NextResponse.json({ error: "Player not found" }, { status: 404 });
+  }
+
+  const result = await postAllianceMessage(playerId, body);
+  if (!result.success) {
+    if (result.retryAfterMs !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(Math.ceil(result.retryAfterMs / 1000)),
+          },
+        },
+      );
+    }
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  return NextResponse.json(result.message, { status: 201 });
+}
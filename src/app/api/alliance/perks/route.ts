@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import { getAllianceProgression } from "@/lib/alliance-progression";
+import { validateFid } from "@/lib/validation";
+
+/**
+ * GET /api/alliance/perks?fid=123
+ * The caller's alliance level, XP progress and member slots, plus each
+ * perk tree with its owned rank and the next rank's level gate and cost.
+ */
+export async function GET(req: NextRequest) {
+  const fid = validateFid(req.nextUrl.searchParams.get("fid"));
+  if (fid === null) {
+    return NextResponse.json({ error: "fid required" }, { status: 400 });
+  }
+
+  const player = await prisma.player.findUnique({
+    where: { fid },
+    select: { id: true },
+  });
+  if (!player) {
+    return NextResponse.json({ error: "Player not found" }, { status: 404 });
+  }
+
+  const progression = await getAllianceProgression(player.id);
+  if (!progression) {
+    return NextResponse.json({ error: "Not in an alliance" }, { status: 404 });
+  }
+
+  return NextResponse.json(progression);
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import { getAllianceProjects } from "@/lib/alliance-projects";
+import { validateFid } from "@/lib/validation";
+
+/**
+ * GET /api/alliance/projects?fid=123
+ * The caller's alliance projects: the active build with per-resource
+ * progress, completed projects and their merged production bonus, and
+ * the blueprints still available to start.
+ */
+export async function GET(req: NextRequest) {
+  const fid = validateFid(req.nextUrl.searchParams.get("fid"));
+  if (fid === null) {
+    return NextResponse.json({ error: "fid required" }, { status: 400 });
+  }
+
+  const player = await prisma.player.findUnique({
+    where: { fid },
+    select: { id: true },
+  });
+  if (!player) {
+    return NextResponse.json({ error: "Player not found" }, { status: 404 });
+  }
+
+  const projects = await getAllianceProjects(player.id);
+  if (!projects) {
+    return NextResponse.json({ error: "Not in an alliance" }, { status: 404 });
+  }
+
+  return NextResponse.json(projects);
+}
@@ -1,18 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/database";
+import { getTreasury } from "@/lib/alliance-engine";
+import { ALLIANCE_PERMISSIONS, hasAlliancePermission } from "@/lib/game-engine";
+import { validateFid } from "@/lib/validation";
+import { requireSessionFid } from "@/lib/session";
 
 /**
  * GET /api/alliance?fid=123
- * Returns the player's current alliance (if any) with members.
+ * Returns the player's current alliance (if any) with members, each
+ * member's treasury contribution, and the treasury as seen by the caller
+ * (holdings, dividend pool, daily withdrawal allowance). Also returns the
+ * caller's role permissions and, for officers and leaders, the pending
+ * join requests and outstanding invitations. Requires a session for `fid`.
  */
 export async function GET(req: NextRequest) {
-  const fid = req.nextUrl.searchParams.get("fid");
-  if (!fid) {
+  const fid = validateFid(req.nextUrl.searchParams.get("fid"));
+  if (fid === null) {
     return NextResponse.json({ error: "fid required" }, { status: 400 });
   }
+  const denied = await requireSessionFid(req, fid);
+  if (denied) return denied;
 
   const player = await prisma.player.findUnique({
-    where: { fid: parseInt(fid, 10) },
+    where: { fid },
     include: {
       allianceMember: {
         include: {
@@ -42,6 +52,28 @@ export async function GET(req: NextRequest) {
   }
 
   const alliance = player.allianceMember.alliance;
+  const role = player.allianceMember.role;
+  const canReview = hasAlliancePermission(role, "review_requests");
+  const canInvite = hasAlliancePermission(role, "invite");
+  const playerSelect = { select: { fid: true, username: true, level: true } };
+
+  const [treasury, joinRequests, invites] = await Promise.all([
+    getTreasury(player.id),
+    canReview
+      ? prisma.allianceJoinRequest.findMany({
+          where: { allianceId: alliance.id },
+          include: { player: playerSelect },
+          orderBy: { createdAt: "asc" },
+        })
+      : [],
+    canInvite
+      ? prisma.allianceInvite.findMany({
+          where: { allianceId: alliance.id },
+          include: { player: playerSelect },
+          orderBy: { createdAt: "desc" },
+        })
+      : [],
+  ]);
 
   return NextResponse.json({
     id: alliance.id,
@@ -51,10 +83,14 @@ export async function GET(req: NextRequest) {
     totalLunar: Number(alliance.totalLunar),
     memberCount: alliance.memberCount,
     maxMembers: alliance.maxMembers,
+    joinMode: alliance.joinMode,
+    myRole: role,
+    permissions: ALLIANCE_PERMISSIONS[role],
     members: alliance.members.map((m) => ({
       id: m.id,
       playerId: m.playerId,
       role: m.role,
+      contributed: Number(m.contributed),
       joinedAt: m.joinedAt.toISOString(),
       player: {
         username: m.player.username,
@@ -62,5 +98,17 @@ export async function GET(req: NextRequest) {
         totalEarnings: Number(m.player.totalEarnings),
       },
     })),
+    treasury,
+    joinRequests: joinRequests.map((r) => ({
+      id: r.id,
+      message: r.message,
+      createdAt: r.createdAt.toISOString(),
+      player: r.player,
+    })),
+    invites: invites.map((i) => ({
+      id: i.id,
+      createdAt: i.createdAt.toISOString(),
+      player: i.player,
+    })),
   });
 }
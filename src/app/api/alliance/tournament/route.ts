@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import {
+  getTournamentOverview,
+  getTournamentSeason,
+} from "@/lib/tournament-engine";
+import { validateFid } from "@/lib/validation";
+
+/**
+ * GET /api/alliance/tournament?fid=123
+ * The running tournament season (standings, current bracket round) plus
+ * the archive of completed seasons. `fid` is optional and only used to
+ * highlight the caller's alliance.
+ *
+ * GET /api/alliance/tournament?season=4
+ * Full final standings and rewards for one archived season.
+ */
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+
+  const seasonParam = params.get("season");
+  if (seasonParam !== null) {
+    const number = Number(seasonParam);
+    if (!Number.isInteger(number) || number < 1) {
+      return NextResponse.json({ error: "Invalid season" }, { status: 400 });
+    }
+    const season = await getTournamentSeason(number);
+    if (!season) {
+      return NextResponse.json({ error: "Season not found" }, { status: 404 });
+    }
+    return NextResponse.json(season);
+  }
+
+  let playerId: string | undefined;
+  if (params.has("fid")) {
+    const fid = validateFid(params.get("fid"));
+    if (fid === null) {
+      return NextResponse.json({ error: "Invalid fid" }, { status: 400 });
+    }
+    const player = await prisma.player.findUnique({
+      where: { fid },
+      select: { id: true },
+    });
+    playerId = player?.id;
+  }
+
+  return NextResponse.json(await getTournamentOverview(playerId));
+}
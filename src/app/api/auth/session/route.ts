@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthVerifier } from "@/lib/farcaster-auth";
+import {
+  createSessionToken,
+  getSession,
+  setSessionCookie,
+  clearSessionCookie,
+} from "@/lib/session";
+import { GameMetrics } from "@/lib/metrics";
+
+/**
+ * GET /api/auth/session
+ * The signed-in FID, or 401 without a valid session.
+ */
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  return NextResponse.json({ fid: session.fid, expiresAt: session.exp });
+}
+
+/**
+ * POST /api/auth/session
+ * Body: { token } (Quick Auth JWT) or { message, signature } (Sign In
+ * With Farcaster). Verifies the credential and sets the session cookie.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const credentials = {
+    token: typeof body?.token === "string" ? body.token : undefined,
+    message: typeof body?.message === "string" ? body.message : undefined,
+    signature: typeof body?.signature === "string" ? body.signature : undefined,
+  };
+  if (!credentials.token && !(credentials.message && credentials.signature)) {
+    return NextResponse.json(
+      { error: "token or message + signature required" },
+      { status: 400 },
+    );
+  }
+
+  const verifier = getAuthVerifier();
+  const fid = await verifier.verify(credentials);
+  if (fid === null) {
+    return NextResponse.json(
+      { error: "Farcaster sign-in could not be verified" },
+      { status: 401 },
+    );
+  }
+
+  try {
+    const token = await createSessionToken(fid);
+    const res = NextResponse.json({ fid });
+    setSessionCookie(res, token);
+    return res;
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/auth/session",
+      verifier: verifier.name,
+    });
+    return NextResponse.json(
+      { error: "Sessions are not configured" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/session
+ * Signs out by expiring the session cookie.
+ */
+export async function DELETE() {
+  const res = NextResponse.json({ success: true });
+  clearSessionCookie(res);
+  return res;
+}
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { processProductionCycle } from "@/lib/production-engine";
+import { distributeAllianceDividends } from "@/lib/alliance-engine";
+import { refreshAllAllianceLeaderboards } from "@/lib/alliance-rankings";
 import {
   refreshAllPlayerSummaries,
   refreshLeaderboard,
 } from "@/lib/database/queries";
+import { notifyProductionReady } from "@/lib/notifications";
+import { processReferralMilestones } from "@/lib/referrals";
 import { GameMetrics } from "@/lib/metrics";
 
 /**
@@ -13,8 +17,12 @@ import { GameMetrics } from "@/lib/metrics";
  *
  * Jobs:
  *   1. Production cycle — batch-credit all active players
- *   2. Refresh denormalized player summaries
- *   3. Refresh leaderboard
+ *   2. Alliance dividends — pay out production skimmed into treasuries
+ *   3. Refresh denormalized player summaries
+ *   4. Refresh leaderboard
+ *   5. Refresh alliance leaderboards (daily, weekly, all-time)
+ *   6. Notify players that their production has been credited
+ *   7. Referral milestones — verify referees, pay reached reward tiers
  *
  * Protected by CRON_SECRET header validation.
  */
@@ -37,7 +45,15 @@ export async function POST(req: NextRequest) {
       signal: controller.signal,
     });
 
-    // 2. Refresh summaries (sequential to avoid DB contention)
+    // 2. Alliance dividends
+    const dividendResult = await distributeAllianceDividends({
+      signal: controller.signal,
+    }).catch((e) => {
+      GameMetrics.trackError(e, { job: "daily-production", step: "dividends" });
+      return { alliances: 0, totalPaid: 0, failed: 0 };
+    });
+
+    // 3. Refresh summaries (sequential to avoid DB contention)
     const summaryResult = await refreshAllPlayerSummaries({
       batchSize: 200,
       signal: controller.signal,
@@ -46,7 +62,7 @@ export async function POST(req: NextRequest) {
       return { refreshed: 0, durationMs: 0 };
     });
 
-    // 3. Refresh leaderboard
+    // 4. Refresh leaderboard
     const leaderboardResult = await refreshLeaderboard("ALLTIME", 100).catch(
       (e) => {
         GameMetrics.trackError(e, {
@@ -57,13 +73,43 @@ export async function POST(req: NextRequest) {
       },
     );
 
+    // 5. Refresh alliance leaderboards (every period)
+    const allianceLeaderboardResult = await refreshAllAllianceLeaderboards(
+      100,
+    ).catch((e) => {
+      GameMetrics.trackError(e, {
+        job: "daily-production",
+        step: "alliance-leaderboard",
+      });
+      return { entries: 0, durationMs: 0 };
+    });
+
+    // 6. Production-ready notifications
+    const notificationResult = await notifyProductionReady().catch((e) => {
+      GameMetrics.trackError(e, {
+        job: "daily-production",
+        step: "notifications",
+      });
+      return null;
+    });
+
+    // 7. Referral milestones
+    const referralResult = await processReferralMilestones().catch((e) => {
+      GameMetrics.trackError(e, { job: "daily-production", step: "referrals" });
+      return null;
+    });
+
     clearTimeout(safetyTimeout);
 
     const durationMs = Date.now() - startTime;
     GameMetrics.trackCron("daily-production", durationMs, {
       production: productionResult,
+      dividends: dividendResult,
       summaries: summaryResult,
       leaderboard: leaderboardResult,
+      allianceLeaderboard: allianceLeaderboardResult,
+      notifications: notificationResult,
+      referrals: referralResult,
       aborted: controller.signal.aborted,
     });
 
@@ -71,8 +117,12 @@ export async function POST(req: NextRequest) {
       success: true,
       durationMs,
       production: productionResult,
+      dividends: dividendResult,
       summaries: summaryResult,
       leaderboard: leaderboardResult,
+      allianceLeaderboard: allianceLeaderboardResult,
+      notifications: notificationResult,
+      referrals: referralResult,
       aborted: controller.signal.aborted,
     });
   } catch (error) {
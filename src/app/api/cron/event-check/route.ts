@@ -3,6 +3,7 @@ import {
   processScheduledEvents,
   checkTriggeredEvents,
 } from "@/lib/event-engine";
+import { notifyEventsStarted } from "@/lib/notifications";
 import { GameMetrics } from "@/lib/metrics";
 
 /**
@@ -13,6 +14,7 @@ import { GameMetrics } from "@/lib/metrics";
  * Jobs:
  *   1. Process scheduled events  — start/end time-based events
  *   2. Check triggered events    — activate condition-based events
+ *   3. Notify players of events that just started
  *
  * Protected by CRON_SECRET header validation.
  */
@@ -30,17 +32,26 @@ export async function POST(req: NextRequest) {
     // events that were just activated by the scheduled pass)
     const scheduled = await processScheduledEvents();
     const triggered = await checkTriggeredEvents();
+    const notifications = await notifyEventsStarted([
+      ...scheduled.started,
+      ...triggered,
+    ]).catch((e) => {
+      GameMetrics.trackError(e, { job: "event-check", step: "notifications" });
+      return [];
+    });
 
     const durationMs = Date.now() - startTime;
     GameMetrics.trackCron("event-check", durationMs, {
       scheduled,
       triggered,
+      notifications,
     });
 
     return NextResponse.json({
       success: true,
       durationMs,
       events: { scheduled, triggered },
+      notifications,
     });
   } catch (error) {
     const durationMs = Date.now() - startTime;
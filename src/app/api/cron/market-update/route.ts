@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runMarketTick } from "@/lib/market-engine";
+import { expireTradeOffers } from "@/lib/trade-offers";
+import { notifyPriceAlerts } from "@/lib/notifications";
 import { GameMetrics } from "@/lib/metrics";
 
 /**
@@ -9,6 +11,8 @@ import { GameMetrics } from "@/lib/metrics";
  *
  * Jobs:
  *   1. Market tick — update resource prices, record history, create alerts
+ *   2. Trade offers — expire stale player offers, returning escrow
+ *   3. Price-alert notifications for significant moves
  *
  * Protected by CRON_SECRET header validation.
  */
@@ -23,16 +27,30 @@ export async function POST(req: NextRequest) {
 
   try {
     const marketResult = await runMarketTick();
+    const offerResult = await expireTradeOffers();
+    const notificationResult = await notifyPriceAlerts(
+      marketResult.updates,
+    ).catch((e) => {
+      GameMetrics.trackError(e, {
+        job: "market-update",
+        step: "notifications",
+      });
+      return null;
+    });
 
     const durationMs = Date.now() - startTime;
     GameMetrics.trackCron("market-update", durationMs, {
       market: marketResult,
+      tradeOffers: offerResult,
+      notifications: notificationResult,
     });
 
     return NextResponse.json({
       success: true,
       durationMs,
       market: marketResult,
+      tradeOffers: offerResult,
+      notifications: notificationResult,
     });
   } catch (error) {
     const durationMs = Date.now() - startTime;
@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { processProductionCycle } from "@/lib/production-engine";
 import { runMarketTick } from "@/lib/market-engine";
+import { distributeAllianceDividends } from "@/lib/alliance-engine";
+import { refreshAllAllianceLeaderboards } from "@/lib/alliance-rankings";
+import { expireTradeOffers } from "@/lib/trade-offers";
+import { pruneFrameReceipts } from "@/lib/frame-validation";
+import { processReferralMilestones } from "@/lib/referrals";
+import {
+  notifyProductionReady,
+  notifyEventsStarted,
+  notifyPriceAlerts,
+} from "@/lib/notifications";
 import {
   processScheduledEvents,
   checkTriggeredEvents,
@@ -54,8 +64,47 @@ export async function POST(_req: NextRequest) {
 
     clearTimeout(safetyTimeout);
 
-    // Post-production: refresh denormalized summaries + leaderboard
+    // Post-production: pay out alliance dividends skimmed this cycle, then
+    // refresh denormalized summaries + player and alliance leaderboards.
     // These run sequentially after main jobs to avoid contention
+    const dividendResult = await distributeAllianceDividends({
+      signal: controller.signal,
+    }).catch((e) => {
+      console.error("Alliance dividend error:", e);
+      return { alliances: 0, totalPaid: 0, failed: 0 };
+    });
+
+    const offerResult = await expireTradeOffers().catch((e) => {
+      console.error("Trade offer expiry error:", e);
+      return { expired: 0, failed: 0 };
+    });
+
+    const receiptResult = await pruneFrameReceipts().catch((e) => {
+      console.error("Frame receipt pruning error:", e);
+      return { pruned: 0 };
+    });
+
+    // Referral milestones — verify referees via Neynar, pay reached tiers
+    const referralResult = await processReferralMilestones().catch((e) => {
+      console.error("Referral milestone error:", e);
+      return null;
+    });
+
+    // Mini App notifications for the day's production, new events and
+    // significant price moves. Sequential: each send checks the per-token
+    // rate limits the previous one updated
+    const notificationResult = await (async () => ({
+      production: await notifyProductionReady(),
+      events: await notifyEventsStarted([
+        ...eventResult.scheduled.started,
+        ...eventResult.triggered,
+      ]),
+      market: await notifyPriceAlerts(marketResult.updates),
+    }))().catch((e) => {
+      console.error("Notification dispatch error:", e);
+      return null;
+    });
+
     const summaryResult = await refreshAllPlayerSummaries({
       batchSize: 200,
       signal: controller.signal,
@@ -71,13 +120,26 @@ export async function POST(_req: NextRequest) {
       },
     );
 
+    const allianceLeaderboardResult = await refreshAllAllianceLeaderboards(
+      100,
+    ).catch((e) => {
+      console.error("Alliance leaderboard refresh error:", e);
+      return { entries: 0, durationMs: 0 };
+    });
+
     return NextResponse.json({
       success: true,
       production: productionResult,
       market: marketResult,
       events: eventResult,
+      dividends: dividendResult,
+      tradeOffers: offerResult,
+      frameReceipts: receiptResult,
+      referrals: referralResult,
+      notifications: notificationResult,
       summaries: summaryResult,
       leaderboard: leaderboardResult,
+      allianceLeaderboard: allianceLeaderboardResult,
       aborted: controller.signal.aborted,
     });
   } catch (error) {
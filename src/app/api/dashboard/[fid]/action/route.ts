@@ -10,13 +10,40 @@ import {
   repairModule,
   demolishModule,
   claimDailyReward,
+  burnResources,
   createAlliance,
   joinAlliance,
   leaveAlliance,
+  inviteToAlliance,
+  respondToInvite,
+  requestToJoinAlliance,
+  cancelJoinRequest,
+  reviewJoinRequest,
+  kickAllianceMember,
+  promoteAllianceMember,
+  demoteAllianceMember,
+  transferAllianceLeadership,
+  setAllianceJoinMode,
   createPriceAlert,
   getPlayerAlerts,
   markAlertRead,
+  getPlayerAchievements,
+  PlayerSuspendedError,
 } from "@/lib/game-engine";
+import { purchaseEmergencySupply } from "@/lib/event-mechanics";
+import {
+  depositToTreasury,
+  withdrawFromTreasury,
+} from "@/lib/alliance-engine";
+import { startProject, contributeToProject } from "@/lib/alliance-projects";
+import { upgradeAlliancePerk } from "@/lib/alliance-progression";
+import { createShare, SHARE_KINDS, type ShareKind } from "@/lib/share";
+import {
+  createTradeOffer,
+  acceptTradeOffer,
+  declineTradeOffer,
+  cancelTradeOffer,
+} from "@/lib/trade-offers";
 import prisma from "@/lib/database";
 import { GameMetrics } from "@/lib/metrics";
 import {
@@ -25,12 +52,22 @@ import {
   isValidModuleType,
   isValidTier,
   validateTradeInput,
+  validateOrderInput,
+  validateBurnInput,
+  validateTreasuryInput,
+  validateJoinRequestInput,
+  validateTradeOfferInput,
 } from "@/lib/validation";
 import type { ModuleType } from "@/lib/utils";
+import { requireSessionFid } from "@/lib/session";
 
 /**
  * POST /api/dashboard/[fid]/action
- * Handles dashboard actions: collect, build, reposition, trade.
+ * Handles dashboard actions: collect, build, reposition, trade, limit orders,
+ * player trade offers, resource burns, alliance treasury deposits/withdrawals,
+ * alliance projects, alliance perks, alliance invitations, join requests,
+ * member management, achievements and share snapshots. Requires a session
+ * for `fid` (see session.ts).
  */
 export async function POST(
   req: NextRequest,
@@ -42,6 +79,8 @@ export async function POST(
     if (fid === null) {
       return NextResponse.json({ error: "Invalid FID" }, { status: 400 });
     }
+    const denied = await requireSessionFid(req, fid);
+    if (denied) return denied;
 
     const body = await req.json();
     const { action } = body;
@@ -201,6 +240,101 @@ export async function POST(
         return NextResponse.json(result);
       }
 
+      case "place-order": {
+        const validated = validateOrderInput(body);
+        if (!validated) {
+          return NextResponse.json(
+            {
+              error:
+                "Invalid order: side buy/sell, quantity 1-100000, valid resource, positive limitPrice",
+            },
+            { status: 400 },
+          );
+        }
+
+        const marketEngine = (await import("@/lib/market-engine")).default;
+        const orderResult = await marketEngine.placeOrder(
+          player.id,
+          validated.resource,
+          validated.side,
+          validated.quantity,
+          validated.limitPrice,
+        );
+        if (!orderResult.success) {
+          return NextResponse.json(
+            { error: orderResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(orderResult);
+      }
+
+      case "cancel-order": {
+        const { orderId } = body;
+        if (!orderId) {
+          return NextResponse.json(
+            { error: "orderId required" },
+            { status: 400 },
+          );
+        }
+        const marketEngine = (await import("@/lib/market-engine")).default;
+        const cancelResult = await marketEngine.cancelOrder(player.id, orderId);
+        if (!cancelResult.success) {
+          return NextResponse.json(
+            { error: cancelResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(cancelResult);
+      }
+
+      case "trade-offer-create": {
+        const validated = validateTradeOfferInput(body);
+        if (!validated) {
+          return NextResponse.json(
+            {
+              error:
+                "Invalid offer: name a recipientFid or allianceId, a valid offer resource and quantity, and an optional different request",
+            },
+            { status: 400 },
+          );
+        }
+        const offerResult = await createTradeOffer(player.id, validated);
+        if (!offerResult.success) {
+          return NextResponse.json(
+            { error: offerResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(offerResult);
+      }
+
+      case "trade-offer-accept":
+      case "trade-offer-decline":
+      case "trade-offer-cancel": {
+        const { offerId } = body;
+        if (typeof offerId !== "string" || !offerId) {
+          return NextResponse.json(
+            { error: "offerId required" },
+            { status: 400 },
+          );
+        }
+        const settle =
+          action === "trade-offer-accept"
+            ? acceptTradeOffer
+            : action === "trade-offer-decline"
+              ? declineTradeOffer
+              : cancelTradeOffer;
+        const settleResult = await settle(player.id, offerId);
+        if (!settleResult.success) {
+          return NextResponse.json(
+            { error: settleResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(settleResult);
+      }
+
       case "toggle": {
         const { moduleId } = body;
         if (!moduleId) {
@@ -255,6 +389,27 @@ export async function POST(
         return NextResponse.json(demolishResult);
       }
 
+      case "emergency-purchase": {
+        const { eventId } = body;
+        if (!eventId) {
+          return NextResponse.json(
+            { error: "eventId required" },
+            { status: 400 },
+          );
+        }
+        const purchaseResult = await purchaseEmergencySupply(
+          player.id,
+          eventId,
+        );
+        if (!purchaseResult.success) {
+          return NextResponse.json(
+            { error: purchaseResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(purchaseResult);
+      }
+
       case "daily-reward": {
         const dailyResult = await claimDailyReward(player.id);
         if (!dailyResult.success) {
@@ -266,6 +421,109 @@ export async function POST(
         return NextResponse.json(dailyResult);
       }
 
+      case "burn": {
+        const validated = validateBurnInput(body);
+        if (!validated) {
+          return NextResponse.json(
+            { error: "Valid resource and positive quantity required" },
+            { status: 400 },
+          );
+        }
+        const burnResult = await burnResources(
+          player.id,
+          validated.resource,
+          validated.quantity,
+        );
+        if (!burnResult.success) {
+          return NextResponse.json(
+            { error: burnResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(burnResult);
+      }
+
+      case "alliance-deposit":
+      case "alliance-withdraw": {
+        const validated = validateTreasuryInput(body);
+        if (!validated) {
+          return NextResponse.json(
+            { error: "Valid resource and positive quantity required" },
+            { status: 400 },
+          );
+        }
+        const move =
+          action === "alliance-deposit"
+            ? depositToTreasury
+            : withdrawFromTreasury;
+        const treasuryResult = await move(
+          player.id,
+          validated.resource,
+          validated.quantity,
+        );
+        if (!treasuryResult.success) {
+          return NextResponse.json(
+            { error: treasuryResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(treasuryResult);
+      }
+
+      case "alliance-project-start": {
+        if (typeof body.blueprint !== "string") {
+          return NextResponse.json(
+            { error: "blueprint required" },
+            { status: 400 },
+          );
+        }
+        const startResult = await startProject(player.id, body.blueprint);
+        if (!startResult.success) {
+          return NextResponse.json(
+            { error: startResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(startResult);
+      }
+
+      case "alliance-project-contribute": {
+        // Same shape as a burn: one raw material, fractional quantity
+        const validated = validateBurnInput(body);
+        if (!validated) {
+          return NextResponse.json(
+            { error: "Valid resource and positive quantity required" },
+            { status: 400 },
+          );
+        }
+        const contributeResult = await contributeToProject(
+          player.id,
+          validated.resource,
+          validated.quantity,
+        );
+        if (!contributeResult.success) {
+          return NextResponse.json(
+            { error: contributeResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(contributeResult);
+      }
+
+      case "alliance-perk-upgrade": {
+        if (typeof body.perk !== "string") {
+          return NextResponse.json({ error: "perk required" }, { status: 400 });
+        }
+        const perkResult = await upgradeAlliancePerk(player.id, body.perk);
+        if (!perkResult.success) {
+          return NextResponse.json(
+            { error: perkResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(perkResult);
+      }
+
       case "create-alliance": {
         const validated = validateAllianceInput(body);
         if (!validated) {
@@ -320,6 +578,165 @@ export async function POST(
         return NextResponse.json(leaveResult);
       }
 
+      case "alliance-invite": {
+        const targetFid = validateFid(body.targetFid);
+        if (targetFid === null) {
+          return NextResponse.json(
+            { error: "targetFid required" },
+            { status: 400 },
+          );
+        }
+        const target = await prisma.player.findUnique({
+          where: { fid: targetFid },
+          select: { id: true },
+        });
+        if (!target) {
+          return NextResponse.json(
+            { error: "Player not found" },
+            { status: 404 },
+          );
+        }
+        const inviteResult = await inviteToAlliance(player.id, target.id);
+        if (!inviteResult.success) {
+          return NextResponse.json(
+            { error: inviteResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(inviteResult);
+      }
+
+      case "alliance-invite-respond": {
+        const { inviteId, accept } = body;
+        if (typeof inviteId !== "string" || typeof accept !== "boolean") {
+          return NextResponse.json(
+            { error: "inviteId and accept required" },
+            { status: 400 },
+          );
+        }
+        const respondResult = await respondToInvite(
+          player.id,
+          inviteId,
+          accept,
+        );
+        if (!respondResult.success) {
+          return NextResponse.json(
+            { error: respondResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(respondResult);
+      }
+
+      case "alliance-request": {
+        const validated = validateJoinRequestInput(body);
+        if (!validated) {
+          return NextResponse.json(
+            { error: "allianceId required" },
+            { status: 400 },
+          );
+        }
+        const requestResult = await requestToJoinAlliance(
+          player.id,
+          validated.allianceId,
+          validated.message,
+        );
+        if (!requestResult.success) {
+          return NextResponse.json(
+            { error: requestResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(requestResult);
+      }
+
+      case "alliance-request-cancel": {
+        if (typeof body.requestId !== "string") {
+          return NextResponse.json(
+            { error: "requestId required" },
+            { status: 400 },
+          );
+        }
+        const cancelResult = await cancelJoinRequest(player.id, body.requestId);
+        if (!cancelResult.success) {
+          return NextResponse.json(
+            { error: cancelResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(cancelResult);
+      }
+
+      case "alliance-request-review": {
+        const { requestId, approve } = body;
+        if (typeof requestId !== "string" || typeof approve !== "boolean") {
+          return NextResponse.json(
+            { error: "requestId and approve required" },
+            { status: 400 },
+          );
+        }
+        const reviewResult = await reviewJoinRequest(
+          player.id,
+          requestId,
+          approve,
+        );
+        if (!reviewResult.success) {
+          return NextResponse.json(
+            { error: reviewResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(reviewResult);
+      }
+
+      case "alliance-kick":
+      case "alliance-promote":
+      case "alliance-demote":
+      case "alliance-transfer": {
+        if (typeof body.targetPlayerId !== "string") {
+          return NextResponse.json(
+            { error: "targetPlayerId required" },
+            { status: 400 },
+          );
+        }
+        const manage = {
+          "alliance-kick": kickAllianceMember,
+          "alliance-promote": promoteAllianceMember,
+          "alliance-demote": demoteAllianceMember,
+          "alliance-transfer": transferAllianceLeadership,
+        }[action as string]!;
+        const manageResult = await manage(player.id, body.targetPlayerId);
+        if (!manageResult.success) {
+          return NextResponse.json(
+            { error: manageResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(manageResult);
+      }
+
+      case "alliance-join-mode": {
+        const { joinMode } = body;
+        if (
+          joinMode !== "OPEN" &&
+          joinMode !== "APPROVAL" &&
+          joinMode !== "INVITE_ONLY"
+        ) {
+          return NextResponse.json(
+            { error: "joinMode must be OPEN, APPROVAL or INVITE_ONLY" },
+            { status: 400 },
+          );
+        }
+        const modeResult = await setAllianceJoinMode(player.id, joinMode);
+        if (!modeResult.success) {
+          return NextResponse.json(
+            { error: modeResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(modeResult);
+      }
+
       case "create-alert": {
         const { resource, targetPrice, direction } = body;
         if (!resource || !targetPrice || !direction) {
@@ -360,6 +777,38 @@ export async function POST(
         return NextResponse.json(markResult);
       }
 
+      case "get-achievements": {
+        const achievements = await getPlayerAchievements(player.id);
+        return NextResponse.json({ achievements });
+      }
+
+      case "share": {
+        const { kind, subjectId } = body;
+        if (!SHARE_KINDS.includes(kind)) {
+          return NextResponse.json(
+            { error: `kind must be one of: ${SHARE_KINDS.join(", ")}` },
+            { status: 400 },
+          );
+        }
+        if (subjectId !== undefined && typeof subjectId !== "string") {
+          return NextResponse.json(
+            { error: "subjectId must be a string" },
+            { status: 400 },
+          );
+        }
+        const shareResult = await createShare(player, {
+          kind: kind as ShareKind,
+          subjectId,
+        });
+        if (!shareResult.success) {
+          return NextResponse.json(
+            { error: shareResult.error },
+            { status: 400 },
+          );
+        }
+        return NextResponse.json(shareResult);
+      }
+
       default:
         return NextResponse.json(
           { error: `Unknown action: ${action}` },
@@ -367,6 +816,9 @@ export async function POST(
         );
     }
   } catch (error) {
+    if (error instanceof PlayerSuspendedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     GameMetrics.trackError(error, {
       route: "/api/dashboard/[fid]/action",
       context: "dashboard_action",
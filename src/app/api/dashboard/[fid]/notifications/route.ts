@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getNotificationSettings,
+  updateNotificationPreferences,
+  NOTIFICATION_KINDS,
+  type NotificationPreferences,
+} from "@/lib/notifications";
+import { GameMetrics } from "@/lib/metrics";
+import { validateFid } from "@/lib/validation";
+import { requireSessionFid } from "@/lib/session";
+
+async function authorize(
+  req: NextRequest,
+  params: Promise<{ fid: string }>,
+): Promise<{ fid: number } | { denied: NextResponse }> {
+  const { fid: fidStr } = await params;
+  const fid = validateFid(fidStr);
+  if (fid === null) {
+    return {
+      denied: NextResponse.json({ error: "Invalid FID" }, { status: 400 }),
+    };
+  }
+  const denied = await requireSessionFid(req, fid);
+  return denied ? { denied } : { fid };
+}
+
+/**
+ * GET /api/dashboard/[fid]/notifications
+ * The player's notification opt-outs, and whether a Farcaster client has
+ * notifications enabled for them.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ fid: string }> },
+) {
+  try {
+    const auth = await authorize(req, params);
+    if ("denied" in auth) return auth.denied;
+
+    const settings = await getNotificationSettings(auth.fid);
+    return NextResponse.json(settings, {
+      headers: { "Cache-Control": "private, no-store" },
+    });
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/dashboard/[fid]/notifications",
+      context: "get_preferences",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/dashboard/[fid]/notifications
+ * Body: { productionReady?, eventStart?, priceAlert? } — booleans.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ fid: string }> },
+) {
+  try {
+    const auth = await authorize(req, params);
+    if ("denied" in auth) return auth.denied;
+
+    const body = (await req.json().catch(() => null)) as Record<
+      string,
+      unknown
+    > | null;
+    const changes: Partial<NotificationPreferences> = {};
+    for (const kind of NOTIFICATION_KINDS) {
+      const value = body?.[kind];
+      if (value === undefined) continue;
+      if (typeof value !== "boolean") {
+        return NextResponse.json(
+          { error: `${kind} must be true or false` },
+          { status: 400 },
+        );
+      }
+      changes[kind] = value;
+    }
+
+    const preferences = await updateNotificationPreferences(auth.fid, changes);
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/dashboard/[fid]/notifications",
+      context: "update_preferences",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOrCreatePlayer, PlayerSuspendedError } from "@/lib/game-engine";
+import { getPlayerOrders, type OrderStatus } from "@/lib/market-engine";
+import { GameMetrics } from "@/lib/metrics";
+import { validateFid } from "@/lib/validation";
+import { requireSessionFid } from "@/lib/session";
+
+const STATUS_FILTERS: Record<string, OrderStatus[] | undefined> = {
+  open: ["OPEN", "PARTIAL"],
+  filled: ["FILLED"],
+  cancelled: ["CANCELLED"],
+  all: undefined,
+};
+
+/**
+ * GET /api/dashboard/[fid]/orders
+ * Returns the player's limit orders, newest first.
+ *
+ * Query params:
+ *   - status=open|filled|cancelled|all  (default: all)
+ *   - limit=1-100                       (default: 50)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ fid: string }> },
+) {
+  try {
+    const { fid: fidStr } = await params;
+    const fid = validateFid(fidStr);
+    if (fid === null) {
+      return NextResponse.json({ error: "Invalid FID" }, { status: 400 });
+    }
+    const denied = await requireSessionFid(req, fid);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(req.url);
+    const statusParam = searchParams.get("status") ?? "all";
+    if (!(statusParam in STATUS_FILTERS)) {
+      return NextResponse.json(
+        { error: "status must be open, filled, cancelled or all" },
+        { status: 400 },
+      );
+    }
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") ?? "50", 10) || 50, 1),
+      100,
+    );
+
+    const player = await getOrCreatePlayer(fid);
+    const orders = await getPlayerOrders(player.id, {
+      status: STATUS_FILTERS[statusParam],
+      limit,
+    });
+
+    return NextResponse.json(
+      { orders },
+      { headers: { "Cache-Control": "private, no-store" } },
+    );
+  } catch (error) {
+    if (error instanceof PlayerSuspendedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    GameMetrics.trackError(error, {
+      route: "/api/dashboard/[fid]/orders",
+      context: "list_orders",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
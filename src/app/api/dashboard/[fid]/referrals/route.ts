@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOrCreatePlayer, PlayerSuspendedError } from "@/lib/game-engine";
+import { getReferralSummary } from "@/lib/referrals";
+import { GameMetrics } from "@/lib/metrics";
+import { validateFid } from "@/lib/validation";
+import { requireSessionFid } from "@/lib/session";
+
+/**
+ * GET /api/dashboard/[fid]/referrals
+ * The player's referral code and links (issuing a code on first visit),
+ * the reward tiers, and everyone they've referred with their status.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ fid: string }> },
+) {
+  try {
+    const { fid: fidStr } = await params;
+    const fid = validateFid(fidStr);
+    if (fid === null) {
+      return NextResponse.json({ error: "Invalid FID" }, { status: 400 });
+    }
+    const denied = await requireSessionFid(req, fid);
+    if (denied) return denied;
+
+    const player = await getOrCreatePlayer(fid);
+    const summary = await getReferralSummary(player);
+    return NextResponse.json(summary, {
+      headers: { "Cache-Control": "private, no-store" },
+    });
+  } catch (error) {
+    if (error instanceof PlayerSuspendedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    GameMetrics.trackError(error, {
+      route: "/api/dashboard/[fid]/referrals",
+      context: "get_referrals",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
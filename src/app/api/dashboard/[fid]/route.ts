@@ -1,10 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getOrCreatePlayer, calculateColonyState } from "@/lib/game-engine";
+import {
+  getOrCreatePlayer,
+  calculateColonyState,
+  calculateUpgradeCost,
+  getCostModifiers,
+  applyCostModifier,
+  getBurnRates,
+  PlayerSuspendedError,
+} from "@/lib/game-engine";
+import { loadGameConfig } from "@/lib/game-config";
+import { getEmergencyOffers } from "@/lib/event-mechanics";
+import {
+  CREW_MAX_LEVEL,
+  crewXpForLevel,
+  getRolePerk,
+} from "@/lib/crew-progression";
 import prisma from "@/lib/database";
+import { requireSessionFid } from "@/lib/session";
+import {
+  REFERRAL_COOKIE,
+  clearReferralCookie,
+  decodeReferralCookie,
+} from "@/lib/referral-link";
+import { resolveReferral } from "@/lib/referrals";
 
 /**
  * GET /api/dashboard/[fid]
  * Returns the full colony state + optional production history for the web dashboard.
+ * Costs are priced with active event modifiers (`costModifiers`,
+ * per-module `upgradeCost`) so the UI shows what the player will pay.
+ * `emergencyOffers` lists event emergency purchases open to the player;
+ * `burnRates` the current LUNAR payout per burned resource unit.
+ * `maxModules` is the configured build-slot limit.
+ * Each crew member carries level progress and their role perk.
+ * A first visit through a referral link (lc_ref cookie, set by
+ * middleware) attributes the new player to the referrer.
  *
  * Query params:
  *   - include=production  — also returns last 30 days of production logs
@@ -19,8 +49,15 @@ export async function GET(
     if (isNaN(fid) || fid <= 0) {
       return NextResponse.json({ error: "Invalid FID" }, { status: 400 });
     }
+    const denied = await requireSessionFid(req, fid);
+    if (denied) return denied;
 
-    const player = await getOrCreatePlayer(fid);
+    const referral = decodeReferralCookie(
+      req.cookies.get(REFERRAL_COOKIE)?.value,
+    );
+    const arrival =
+      referral && (await resolveReferral(referral, fid, "dashboard"));
+    const player = await getOrCreatePlayer(fid, undefined, arrival);
     const colony = calculateColonyState(player);
 
     // Crew
@@ -31,6 +68,7 @@ export async function GET(
         name: true,
         role: true,
         level: true,
+        xp: true,
         specialty: true,
         efficiencyBonus: true,
         outputBonus: true,
@@ -69,16 +107,41 @@ export async function GET(
           resource: true,
           totalProduced: true,
           totalCollected: true,
+          totalConsumed: true,
           activeModules: true,
           avgEfficiency: true,
         },
       });
     }
 
+    // Event cost modifiers + live upgrade pricing
+    const [config, costModifiers, emergencyOffers, burnRates] =
+      await Promise.all([
+        loadGameConfig(),
+        getCostModifiers(player.id),
+        getEmergencyOffers(player.id),
+        getBurnRates(player.id),
+      ]);
+    const modules = colony.modules.map((m) => {
+      if (m.level >= config.max_module_level) {
+        return { ...m, upgradeCost: null, baseUpgradeCost: null };
+      }
+      const baseUpgradeCost = calculateUpgradeCost(
+        m.type,
+        m.level,
+        config.upgrade_cost_multiplier,
+      );
+      return {
+        ...m,
+        baseUpgradeCost,
+        upgradeCost: applyCostModifier(baseUpgradeCost, costModifiers.upgrade),
+      };
+    });
+
     // XP needed for next level
     const xpForNextLevel = Math.floor(100 * Math.pow(player.level, 1.5));
 
-    return NextResponse.json(
+    const response = NextResponse.json(
       {
         playerId: colony.playerId,
         playerName: colony.playerName,
@@ -86,12 +149,37 @@ export async function GET(
         xp: Number(player.xp),
         xpForNextLevel,
         lunarBalance: colony.lunarBalance,
-        modules: colony.modules,
-        crew: crew.map((c) => ({
-          ...c,
-          efficiencyBonus: Number(c.efficiencyBonus),
-          outputBonus: Number(c.outputBonus),
+        modules,
+        maxModules: config.max_modules_per_player,
+        maxModuleLevel: config.max_module_level,
+        moduleCostMultiplier: config.module_cost_multiplier,
+        crewHireCost: applyCostModifier(
+          config.crew_hire_cost,
+          costModifiers.recruit,
+        ),
+        costModifiers,
+        emergencyOffers: emergencyOffers.map((o) => ({
+          ...o,
+          availableUntil: o.availableUntil.toISOString(),
         })),
+        burnRates,
+        crew: crew.map((c) => {
+          const perk = getRolePerk(c.role);
+          return {
+            ...c,
+            xp: Number(c.xp),
+            xpForNextLevel:
+              c.level >= CREW_MAX_LEVEL ? null : crewXpForLevel(c.level),
+            efficiencyBonus: Number(c.efficiencyBonus),
+            outputBonus: Number(c.outputBonus),
+            perk: perk && {
+              name: perk.name,
+              description: perk.description,
+              unlockLevel: perk.unlockLevel,
+              unlocked: c.level >= perk.unlockLevel,
+            },
+          };
+        }),
         resources: resources.map((r) => ({
           type: r.type,
           amount: Number(r.amount),
@@ -111,7 +199,13 @@ export async function GET(
         },
       },
     );
+    // Used or not, a referral only counts on the first visit
+    if (referral) clearReferralCookie(response);
+    return response;
   } catch (error) {
+    if (error instanceof PlayerSuspendedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Dashboard API error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
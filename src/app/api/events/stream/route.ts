@@ -1,18 +1,30 @@
 import { NextRequest } from "next/server";
 import prisma from "@/lib/database";
+import { getChatUpdates } from "@/lib/alliance-chat";
+import { getSession } from "@/lib/session";
+import { validateFid } from "@/lib/validation";
 
 /**
  * GET /api/events/stream?fid=123
  * Server-Sent Events stream for real-time game updates.
- * Pushes: game events, price changes, achievement notifications.
+ * Pushes: game events, price changes, achievement notifications, and
+ * alliance chat messages / deletions for the player's alliance.
+ * Requires a session cookie for `fid` (401 without one, 403 for another
+ * player's stream).
  */
 export async function GET(req: NextRequest) {
-  const fid = req.nextUrl.searchParams.get("fid");
-  if (!fid) {
+  const fidNum = validateFid(req.nextUrl.searchParams.get("fid"));
+  if (fidNum === null) {
     return new Response("fid required", { status: 400 });
   }
 
-  const fidNum = parseInt(fid, 10);
+  const session = await getSession(req);
+  if (!session) {
+    return new Response("Sign in required", { status: 401 });
+  }
+  if (session.fid !== fidNum) {
+    return new Response("Signed in as a different player", { status: 403 });
+  }
 
   const encoder = new TextEncoder();
   let closed = false;
@@ -37,6 +49,7 @@ export async function GET(req: NextRequest) {
 
       // Poll for new events every 5 seconds
       let lastEventTime = new Date();
+      let lastChatTime = new Date();
 
       const interval = setInterval(async () => {
         if (closed) {
@@ -48,7 +61,10 @@ export async function GET(req: NextRequest) {
           // Fetch player
           const player = await prisma.player.findUnique({
             where: { fid: fidNum },
-            select: { id: true },
+            select: {
+              id: true,
+              allianceMember: { select: { allianceId: true } },
+            },
           });
 
           if (!player) return;
@@ -71,6 +87,22 @@ export async function GET(req: NextRequest) {
             });
           }
 
+          // Alliance chat since last check
+          if (player.allianceMember) {
+            const chatCheck = new Date();
+            const chat = await getChatUpdates(
+              player.allianceMember.allianceId,
+              lastChatTime,
+            );
+            for (const message of chat.messages) {
+              send("alliance-message", message);
+            }
+            if (chat.deletedIds.length > 0) {
+              send("alliance-message-deleted", { ids: chat.deletedIds });
+            }
+            lastChatTime = chatCheck;
+          }
+
           // Get global active events
           const activeEvents = await prisma.activeEvent.findMany({
             where: {
@@ -1,116 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
-import { neynar } from "@/lib/api-clients/neynar";
 import { GameState } from "@/lib/game-state";
-import {
-  buildFrameResponse,
-  frameResponseToHtml,
-  type Screen,
-} from "@/lib/frame-response";
+import { buildFrameResponse, frameResponseToHtml } from "@/lib/frame-response";
 import { GameMetrics } from "@/lib/metrics";
+import { validateFrameRequest } from "@/lib/frame-validation";
 import { absoluteUrl } from "@/lib/utils";
-
-// ---------------------------------------------------------------------------
-// In-memory validation cache (5-minute TTL, ~1 000 entries max)
-// Saves Neynar free-tier quota (1k req/day)
-// ---------------------------------------------------------------------------
-
-interface CachedValidation {
-  fid: number;
-  buttonIndex: number;
-  inputText?: string;
-  expiresAt: number;
-}
-
-const validationCache = new Map<string, CachedValidation>();
-const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
-const MAX_CACHE_SIZE = 1000;
-
-function getCachedValidation(messageBytes: string): CachedValidation | null {
-  const entry = validationCache.get(messageBytes);
-  if (!entry) return null;
-  if (Date.now() > entry.expiresAt) {
-    validationCache.delete(messageBytes);
-    return null;
-  }
-  return entry;
-}
-
-function setCachedValidation(messageBytes: string, data: CachedValidation) {
-  // Evict oldest entries if cache is full
-  if (validationCache.size >= MAX_CACHE_SIZE) {
-    const firstKey = validationCache.keys().next().value;
-    if (firstKey) validationCache.delete(firstKey);
-  }
-  validationCache.set(messageBytes, {
-    ...data,
-    expiresAt: Date.now() + CACHE_TTL_MS,
-  });
-}
-
-// ---------------------------------------------------------------------------
-// Validate incoming frame message
-// ---------------------------------------------------------------------------
-
-async function validateFrameMessage(body: Record<string, unknown>): Promise<{
-  fid: number;
-  buttonIndex: number;
-  inputText?: string;
-}> {
-  const trustedData = body.trustedData as { messageBytes?: string } | undefined;
-  const untrustedData = body.untrustedData as
-    | {
-        fid?: number;
-        buttonIndex?: number;
-        inputText?: string;
-      }
-    | undefined;
-
-  // --- Production: verify with Neynar (cached) ---
-  if (process.env.NODE_ENV === "production" && trustedData?.messageBytes) {
-    const cached = getCachedValidation(trustedData.messageBytes);
-    if (cached) {
-      return {
-        fid: cached.fid,
-        buttonIndex: cached.buttonIndex,
-        inputText: cached.inputText,
-      };
-    }
-
-    const result = await neynar.validateFrameMessage(trustedData.messageBytes);
-    if (!result.valid) {
-      throw new Error("INVALID_SIGNATURE");
-    }
-
-    const validated = {
-      fid: result.action.fid,
-      buttonIndex: result.action.buttonIndex,
-      inputText: result.action.inputText,
-    };
-
-    setCachedValidation(trustedData.messageBytes, {
-      ...validated,
-      expiresAt: 0, // will be set by setCachedValidation
-    });
-
-    return validated;
-  }
-
-  // --- Development: trust untrusted data ---
-  return {
-    fid: untrustedData?.fid ?? 1,
-    buttonIndex: untrustedData?.buttonIndex ?? 1,
-    inputText: untrustedData?.inputText,
-  };
-}
+import { readReferralParams, referralQuery } from "@/lib/referral-link";
+import { resolveReferral } from "@/lib/referrals";
 
 // ---------------------------------------------------------------------------
 // GET /api/frames — initial Frame landing page
+// ?ref=<code or fid>[&share=<id>] carries a referral into the first POST
 // ---------------------------------------------------------------------------
 
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const referral = readReferralParams(new URL(req.url).searchParams);
   const response = buildFrameResponse({
     screen: "home",
     fid: 0,
+    postTarget: referral ? `/api/frames?${referralQuery(referral)}` : undefined,
     imageParams: { screen: "landing" }, // Override to show landing image
     buttons: [
       { label: "⚡ Produce", action: "post" },
@@ -135,38 +42,39 @@ export async function GET() {
 
 export async function POST(req: NextRequest) {
   try {
-    // 1. Parse & validate
+    // 1. Parse & validate (signature, freshness, replay)
     const body = await req.json();
-    let validated: { fid: number; buttonIndex: number; inputText?: string };
+    const validation = await validateFrameRequest(body);
 
-    try {
-      validated = await validateFrameMessage(body);
-    } catch (err) {
-      if (err instanceof Error && err.message === "INVALID_SIGNATURE") {
-        return NextResponse.json(
-          { error: "Invalid Frame message" },
-          { status: 401 },
-        );
+    if (!validation.ok) {
+      if (validation.reason === "unavailable") {
+        // Validator backend down or rate limited — return a friendly Frame
+        return friendlyErrorFrame("Rate limited — try again in a moment");
       }
-      // Rate limited — return a friendly Frame response
-      return friendlyErrorFrame("Rate limited — try again in a moment");
+      return NextResponse.json(
+        { error: "Invalid Frame message", reason: validation.reason },
+        { status: 401 },
+      );
     }
 
-    const { fid, buttonIndex, inputText } = validated;
+    const { fid, buttonIndex, inputText } = validation.action;
 
-    // 2. Determine current screen from postUrl query params
+    // 2. Signed screen state from the postUrl (absent on the landing frame)
     const url = new URL(req.url);
-    const currentScreen = (url.searchParams.get("screen") ?? "home") as Screen;
+    const state = url.searchParams.get("state") ?? undefined;
 
-    // 3. Load or create player state (first interaction = auto-create)
-    const gameState = await GameState.load(fid);
+    // 3. Load or create player state (first interaction = auto-create),
+    //    attributed to the referrer when the landing frame carried one
+    const referral = readReferralParams(url.searchParams);
+    const arrival = referral && (await resolveReferral(referral, fid, "frame"));
+    const gameState = await GameState.load(fid, undefined, arrival);
 
     // 4. Dispatch action through state machine
     const frameResponse = await gameState.handleAction({
       fid,
       buttonIndex,
       inputText,
-      currentScreen,
+      state,
     });
 
     // 5. Serialize and return
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/database";
+import { getTradeOffers } from "@/lib/trade-offers";
+import { validateFid } from "@/lib/validation";
+import { requireSessionFid } from "@/lib/session";
+
+/**
+ * GET /api/market/offers?fid=123
+ * Player-to-player trade offers: open offers the caller can accept, their
+ * own open offers, recent history and today's gift allowance.
+ * Requires a session for `fid`.
+ */
+export async function GET(req: NextRequest) {
+  const fid = validateFid(req.nextUrl.searchParams.get("fid"));
+  if (fid === null) {
+    return NextResponse.json({ error: "fid required" }, { status: 400 });
+  }
+  const denied = await requireSessionFid(req, fid);
+  if (denied) return denied;
+
+  const player = await prisma.player.findUnique({
+    where: { fid },
+    select: { id: true },
+  });
+  if (!player) {
+    return NextResponse.json({ error: "Player not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(await getTradeOffers(player.id));
+}
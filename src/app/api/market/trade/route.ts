@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { neynar } from "@/lib/api-clients/neynar";
 import { GameState } from "@/lib/game-state";
 import { frameResponseToHtml } from "@/lib/frame-response";
 import marketEngine from "@/lib/market-engine";
 import { validateTradeInput } from "@/lib/validation";
 import type { ResourceType } from "@/lib/utils";
 import { GameMetrics } from "@/lib/metrics";
+import { validateFrameRequest } from "@/lib/frame-validation";
 
 /**
  * POST /api/market/trade
@@ -25,28 +25,16 @@ import { GameMetrics } from "@/lib/metrics";
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { trustedData, untrustedData } = body;
 
-    // Validate
-    let fid: number;
-    let buttonIndex: number;
-    let inputText: string | undefined;
-
-    if (process.env.NODE_ENV === "production" && trustedData?.messageBytes) {
-      const validation = await neynar.validateFrameMessage(
-        trustedData.messageBytes,
+    // Validate (signature, freshness, replay)
+    const validation = await validateFrameRequest(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: "Invalid", reason: validation.reason },
+        { status: validation.reason === "unavailable" ? 503 : 401 },
       );
-      if (!validation.valid) {
-        return NextResponse.json({ error: "Invalid" }, { status: 401 });
-      }
-      fid = validation.action.fid;
-      buttonIndex = validation.action.buttonIndex;
-      inputText = validation.action.inputText;
-    } else {
-      fid = untrustedData?.fid || 1;
-      buttonIndex = untrustedData?.buttonIndex || 1;
-      inputText = untrustedData?.inputText;
     }
+    const { fid, buttonIndex, inputText } = validation.action;
 
     const gameState = await GameState.load(fid);
 
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleMiniAppWebhook } from "@/lib/notifications";
+import { GameMetrics } from "@/lib/metrics";
+
+const REJECTION_STATUS = {
+  malformed: 400,
+  invalid: 401,
+  unavailable: 503,
+} as const;
+
+/**
+ * POST /api/webhooks/farcaster
+ * Mini App events from Farcaster clients (the manifest's webhookUrl):
+ * miniapp_added / miniapp_removed / notifications_enabled /
+ * notifications_disabled.
+ *
+ * The body is a JSON Farcaster Signature from the user's app key; it is
+ * verified before any notification token is stored (notifications.ts).
+ * 503 when the signer registry is unreachable, so the client retries.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const result = await handleMiniAppWebhook(body);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: `Webhook event ${result.reason}` },
+        { status: REJECTION_STATUS[result.reason] },
+      );
+    }
+
+    return NextResponse.json({ success: true, event: result.event });
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/api/webhooks/farcaster",
+      context: "miniapp_webhook",
+    });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
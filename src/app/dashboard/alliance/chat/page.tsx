@@ -1,6 +1,31 @@
 "use client";
 
+import { useState, type FormEvent } from "react";
+import { useGameStore } from "@/stores/game-store";
+import { useUIStore } from "@/stores/ui-store";
+import {
+  usePlayerAlliance,
+  useAllianceMessages,
+  usePostAllianceMessage,
+  useDeleteAllianceMessage,
+} from "@/hooks/use-alliance";
+
+const MAX_MESSAGE_LENGTH = 500;
+
+function timeAgo(iso: string): string {
+  const seconds = Math.max(
+    0,
+    Math.floor((Date.now() - new Date(iso).getTime()) / 1000),
+  );
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86_400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86_400)}d ago`;
+}
+
 export default function ChatPage() {
+  const { data: alliance, isLoading } = usePlayerAlliance();
+
   return (
     <div className="flex flex-col gap-6">
       <div>
@@ -10,55 +35,150 @@ export default function ChatPage() {
         </p>
       </div>
 
-      <div className="flex flex-1 flex-col rounded-xl border border-slate-800/60 bg-slate-900/50 p-4">
-        {/* Messages area */}
-        <div className="flex-1 space-y-3 pb-4">
-          {[
-            {
-              user: "Commander_X",
-              msg: "Who needs Helium-3? Got a surplus.",
-              time: "2m ago",
-            },
-            {
-              user: "LunarMiner42",
-              msg: "I'll take 200 units!",
-              time: "1m ago",
-            },
-            {
-              user: "StarBase_Alpha",
-              msg: "Market prices looking good today 📈",
-              time: "30s ago",
-            },
-          ].map((m, i) => (
-            <div key={i} className="flex gap-3">
+      {isLoading ? (
+        <div className="animate-pulse text-sm text-slate-500">
+          Loading chat…
+        </div>
+      ) : alliance ? (
+        <ChatRoom />
+      ) : (
+        <div className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-6 text-center text-sm text-slate-400">
+          Join an alliance to chat with its members.
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChatRoom() {
+  const fid = useGameStore((s) => s.fid);
+  const addToast = useUIStore((s) => s.addToast);
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useAllianceMessages();
+  const postMessage = usePostAllianceMessage();
+  const deleteMessage = useDeleteAllianceMessage();
+  const [draft, setDraft] = useState("");
+
+  // Pages are newest-first; each page is oldest-first within itself
+  const messages = data
+    ? [...data.pages].reverse().flatMap((p) => p.messages)
+    : [];
+  const canModerate = data?.pages[0]?.canModerate ?? false;
+  const text = draft.trim();
+
+  const send = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!text) return;
+    try {
+      await postMessage.mutateAsync(text);
+      setDraft("");
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Message not sent",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  const remove = async (messageId: string) => {
+    try {
+      await deleteMessage.mutateAsync(messageId);
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Delete failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-1 flex-col rounded-xl border border-slate-800/60 bg-slate-900/50 p-4">
+      {/* Messages area */}
+      <div className="flex-1 space-y-3 pb-4">
+        {hasNextPage && (
+          <button
+            onClick={() => void fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="w-full text-center text-xs text-slate-500 hover:text-slate-300 disabled:opacity-50"
+          >
+            {isFetchingNextPage ? "Loading…" : "Load older messages"}
+          </button>
+        )}
+
+        {isLoading && (
+          <div className="animate-pulse text-sm text-slate-500">
+            Loading messages…
+          </div>
+        )}
+
+        {!isLoading && messages.length === 0 && (
+          <p className="text-center text-sm text-slate-500">
+            No messages yet. Say hello!
+          </p>
+        )}
+
+        {messages.map((m) => {
+          const name = m.username ?? `fid:${m.fid}`;
+          const own = m.fid === fid;
+          return (
+            <div key={m.id} className="group flex gap-3">
               <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-slate-800 text-xs text-slate-400">
-                {m.user[0]}
+                {name[0]?.toUpperCase()}
               </div>
-              <div>
+              <div className="min-w-0 flex-1">
                 <div className="flex items-center gap-2">
                   <span className="text-xs font-semibold text-white">
-                    {m.user}
+                    {name}
                   </span>
-                  <span className="text-[10px] text-slate-600">{m.time}</span>
+                  <span className="text-[10px] text-slate-600">
+                    {timeAgo(m.createdAt)}
+                  </span>
+                  {(own || canModerate) && (
+                    <button
+                      onClick={() => void remove(m.id)}
+                      disabled={deleteMessage.isPending}
+                      aria-label="Delete message"
+                      className="ml-auto text-[10px] text-slate-600 opacity-0 transition hover:text-red-400 group-hover:opacity-100"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
-                <p className="text-sm text-slate-300">{m.msg}</p>
+                <p className="whitespace-pre-wrap break-words text-sm text-slate-300">
+                  {m.body}
+                </p>
               </div>
             </div>
-          ))}
-        </div>
-
-        {/* Input */}
-        <div className="flex gap-2 border-t border-slate-800/40 pt-3">
-          <input
-            type="text"
-            placeholder="Type a message..."
-            className="flex-1 rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white placeholder:text-slate-500"
-          />
-          <button className="rounded-lg bg-cyan-500/20 px-4 py-2 text-sm font-medium text-cyan-400 hover:bg-cyan-500/30 transition-colors">
-            Send
-          </button>
-        </div>
+          );
+        })}
       </div>
+
+      {/* Input */}
+      <form
+        onSubmit={send}
+        className="flex gap-2 border-t border-slate-800/40 pt-3"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder="Type a message..."
+          aria-label="Chat message"
+          className="flex-1 rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white placeholder:text-slate-500"
+        />
+        <button
+          type="submit"
+          disabled={postMessage.isPending || !text}
+          className="rounded-lg bg-cyan-500/20 px-4 py-2 text-sm font-medium text-cyan-400 hover:bg-cyan-500/30 transition-colors disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Send
+        </button>
+      </form>
     </div>
   );
 }
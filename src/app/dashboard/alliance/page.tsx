@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useMemo } from "react";
+import Link from "next/link";
 import { motion } from "framer-motion";
 import { useColony } from "@/hooks/use-colony";
 import { useLeaderboard } from "@/hooks/use-events";
@@ -11,7 +12,16 @@ import {
   useCreateAlliance,
   useJoinAlliance,
   useLeaveAlliance,
+  useAllianceMembership,
+  type AllianceSort,
 } from "@/hooks/use-alliance";
+import { AllianceTreasuryPanel } from "@/components/dashboard/alliance-treasury";
+import { AllianceLevelPanel } from "@/components/dashboard/alliance-perks";
+import { AllianceRankingsPanel } from "@/components/dashboard/alliance-rankings";
+import {
+  AllianceMembersPanel,
+  AllianceInvitesPanel,
+} from "@/components/dashboard/alliance-members";
 
 // ---------------------------------------------------------------------------
 // Alliance Dashboard Page
@@ -22,10 +32,13 @@ export default function AlliancePage() {
   const { data: leaderboard } = useLeaderboard("WEEKLY");
   const { data: alliance, isLoading: allianceLoading } = usePlayerAlliance();
   const isLoadingAny = isLoading || allianceLoading;
-  const { data: alliances } = useAllianceList();
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<AllianceSort>("members");
+  const { data: alliances } = useAllianceList({ query: search.trim(), sort });
   const createAlliance = useCreateAlliance();
   const joinAlliance = useJoinAlliance();
   const leaveAlliance = useLeaveAlliance();
+  const membership = useAllianceMembership();
   const addToast = useUIStore((s) => s.addToast);
 
   const [allianceName, setAllianceName] = useState("");
@@ -111,6 +124,12 @@ export default function AlliancePage() {
                 />
               </div>
 
+              <AllianceLevelPanel />
+
+              {alliance.treasury && (
+                <AllianceTreasuryPanel treasury={alliance.treasury} />
+              )}
+
               {/* Leave alliance button */}
               <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
                 <div className="flex items-center justify-between">
@@ -118,6 +137,12 @@ export default function AlliancePage() {
                     <p className="text-sm text-slate-400">
                       {alliance.description ?? "No description set."}
                     </p>
+                    <Link
+                      href={`/alliance/${alliance.id}`}
+                      className="text-xs text-cyan-400 hover:text-cyan-300"
+                    >
+                      Public profile →
+                    </Link>
                   </div>
                   <button
                     onClick={async () => {
@@ -163,6 +188,8 @@ export default function AlliancePage() {
                 </p>
               </div>
 
+              <AllianceInvitesPanel />
+
               {/* Create alliance form */}
               <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-5">
                 <h3 className="mb-3 text-sm font-semibold text-slate-300">
@@ -226,6 +253,27 @@ export default function AlliancePage() {
                 <h3 className="mb-3 text-sm font-semibold text-slate-300">
                   Browse Alliances
                 </h3>
+                <div className="mb-3 flex gap-2">
+                  <input
+                    type="search"
+                    placeholder="Search by name"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    maxLength={24}
+                    className="flex-1 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white placeholder:text-slate-600 focus:border-cyan-500 focus:outline-none"
+                  />
+                  <select
+                    value={sort}
+                    onChange={(e) => setSort(e.target.value as AllianceSort)}
+                    className="rounded-lg border border-slate-700 bg-slate-800 px-2 py-2 text-xs text-slate-300 focus:border-cyan-500 focus:outline-none"
+                  >
+                    <option value="members">Most members</option>
+                    <option value="level">Highest level</option>
+                    <option value="treasury">Richest</option>
+                    <option value="newest">Newest</option>
+                    <option value="name">Name</option>
+                  </select>
+                </div>
                 {alliances && alliances.length > 0 ? (
                   <div className="space-y-2">
                     {alliances
@@ -236,9 +284,12 @@ export default function AlliancePage() {
                           className="flex items-center justify-between rounded-lg border border-slate-800 bg-slate-800/30 px-3 py-2"
                         >
                           <div>
-                            <div className="text-sm font-medium text-white">
+                            <Link
+                              href={`/alliance/${a.id}`}
+                              className="text-sm font-medium text-white hover:text-cyan-300"
+                            >
                               🏰 {a.name}
-                            </div>
+                            </Link>
                             <div className="text-[10px] text-slate-500">
                               Lv.{a.level} · {a.memberCount}/{a.maxMembers}{" "}
                               members
@@ -248,10 +299,20 @@ export default function AlliancePage() {
                           <button
                             onClick={async () => {
                               try {
-                                await joinAlliance.mutateAsync(a.id);
+                                if (a.joinMode === "APPROVAL") {
+                                  await membership.mutateAsync({
+                                    action: "alliance-request",
+                                    allianceId: a.id,
+                                  });
+                                } else {
+                                  await joinAlliance.mutateAsync(a.id);
+                                }
                                 addToast({
                                   type: "success",
-                                  title: `Joined ${a.name}!`,
+                                  title:
+                                    a.joinMode === "APPROVAL"
+                                      ? `Request sent to ${a.name}`
+                                      : `Joined ${a.name}!`,
                                   icon: "🤝",
                                 });
                               } catch (err) {
@@ -266,17 +327,29 @@ export default function AlliancePage() {
                                 });
                               }
                             }}
-                            disabled={joinAlliance.isPending}
+                            disabled={
+                              joinAlliance.isPending ||
+                              membership.isPending ||
+                              a.joinMode === "INVITE_ONLY"
+                            }
                             className="shrink-0 rounded-lg bg-cyan-600/20 px-3 py-1.5 text-xs font-semibold text-cyan-400 transition hover:bg-cyan-600/30 disabled:opacity-40"
                           >
-                            {joinAlliance.isPending ? "Joining…" : "Join"}
+                            {a.joinMode === "INVITE_ONLY"
+                              ? "Invite only"
+                              : a.joinMode === "APPROVAL"
+                                ? "Request"
+                                : joinAlliance.isPending
+                                  ? "Joining…"
+                                  : "Join"}
                           </button>
                         </div>
                       ))}
                   </div>
                 ) : (
                   <div className="py-6 text-center text-sm text-slate-500">
-                    No alliances available yet. Be the first to create one!
+                    {search
+                      ? "No alliances match your search."
+                      : "No alliances available yet. Be the first to create one!"}
                   </div>
                 )}
               </div>
@@ -293,43 +366,7 @@ export default function AlliancePage() {
           className="space-y-4"
         >
           {hasAlliance ? (
-            <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
-              <h3 className="mb-3 text-sm font-semibold text-slate-300">
-                Alliance Members ({alliance.memberCount}/{alliance.maxMembers})
-              </h3>
-              <div className="space-y-1">
-                {alliance.members.map((m) => {
-                  const roleIcon =
-                    m.role === "LEADER"
-                      ? "👑"
-                      : m.role === "OFFICER"
-                        ? "⭐"
-                        : "👤";
-                  return (
-                    <div
-                      key={m.id}
-                      className="flex items-center justify-between rounded-lg bg-slate-800/30 px-3 py-2"
-                    >
-                      <div className="flex items-center gap-2">
-                        <span>{roleIcon}</span>
-                        <div>
-                          <span className="text-sm font-medium text-white">
-                            {m.player.username ?? "Unknown"}
-                          </span>
-                          <span className="ml-2 text-[10px] text-slate-500">
-                            Lv.{m.player.level} · {m.role.toLowerCase()}
-                          </span>
-                        </div>
-                      </div>
-                      <span className="text-xs tabular-nums text-slate-400">
-                        {Number(m.player.totalEarnings).toLocaleString()} $L
-                        earned
-                      </span>
-                    </div>
-                  );
-                })}
-              </div>
-            </div>
+            <AllianceMembersPanel alliance={alliance} />
           ) : (
             <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-6 text-center">
               <span className="mb-2 block text-3xl">👥</span>
@@ -348,6 +385,8 @@ export default function AlliancePage() {
           animate={{ opacity: 1 }}
           className="space-y-4"
         >
+          <AllianceRankingsPanel />
+
           <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
             <h3 className="mb-3 text-sm font-semibold text-slate-300">
               🏆 Weekly Leaderboard
@@ -1,6 +1,58 @@
 "use client";
 
+import { useState } from "react";
+import { useColony } from "@/hooks/use-colony";
+import { useUIStore } from "@/stores/ui-store";
+import {
+  useAllianceProjects,
+  useStartProject,
+  useContributeToProject,
+  type AllianceProject,
+} from "@/hooks/use-alliance";
+
+const RESOURCE_META: Record<string, { name: string; icon: string }> = {
+  REGOLITH: { name: "Regolith", icon: "🪨" },
+  WATER_ICE: { name: "Water Ice", icon: "🧊" },
+  HELIUM3: { name: "Helium-3", icon: "⚛️" },
+  RARE_EARTH: { name: "Rare Earth", icon: "💎" },
+};
+
+/** "SOLAR_PANEL_OUTPUT" × 1.1 → "Solar Panel Output +10%" */
+function formatBonus(key: string, mult: number): string {
+  const label = key
+    .toLowerCase()
+    .split("_")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+  return `${label} +${Math.round((mult - 1) * 100)}%`;
+}
+
 export default function ProjectsPage() {
+  const { data: projects, isLoading } = useAllianceProjects();
+  const startProject = useStartProject();
+  const addToast = useUIStore((s) => s.addToast);
+
+  const start = async (blueprint: string, name: string) => {
+    try {
+      await startProject.mutateAsync(blueprint);
+      addToast({
+        type: "success",
+        title: "Project started",
+        message: name,
+        icon: "🎯",
+      });
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Start failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  const bonuses = Object.entries(projects?.bonuses ?? {});
+
   return (
     <div className="flex flex-col gap-6">
       <div>
@@ -12,40 +64,221 @@ export default function ProjectsPage() {
         </p>
       </div>
 
-      <div className="grid gap-4 sm:grid-cols-2">
-        {[
-          {
-            name: "Mega Solar Array",
-            progress: 68,
-            members: 12,
-            reward: "5,000 🌙",
-          },
-          {
-            name: "Deep Core Mining",
-            progress: 34,
-            members: 8,
-            reward: "3,500 🌙",
-          },
-        ].map((p) => (
-          <div
-            key={p.name}
-            className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-4"
-          >
-            <h3 className="text-sm font-semibold text-white">{p.name}</h3>
-            <p className="mb-3 text-xs text-slate-500">
-              {p.members} contributors · Reward: {p.reward}
+      {isLoading ? (
+        <div className="animate-pulse text-sm text-slate-500">
+          Loading projects…
+        </div>
+      ) : !projects ? (
+        <div className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-6 text-center text-sm text-slate-400">
+          Join an alliance to take part in projects.
+        </div>
+      ) : (
+        <>
+          {projects.active ? (
+            <ActiveProject project={projects.active} />
+          ) : (
+            <p className="text-sm text-slate-500">
+              {projects.canStart
+                ? "No project underway — pick one below."
+                : "No project underway. Your leader can start one."}
             </p>
-            <div className="h-2 rounded-full bg-slate-800">
-              <div
-                className="h-2 rounded-full bg-cyan-500 transition-all"
-                style={{ width: `${p.progress}%` }}
-              />
+          )}
+
+          {bonuses.length > 0 && (
+            <div className="rounded-xl border border-emerald-800/40 bg-emerald-900/10 p-4">
+              <h3 className="mb-2 text-sm font-semibold text-emerald-400">
+                Permanent alliance bonuses
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {bonuses.map(([key, mult]) => (
+                  <span
+                    key={key}
+                    className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-xs text-emerald-300"
+                  >
+                    {formatBonus(key, mult)}
+                  </span>
+                ))}
+              </div>
             </div>
-            <p className="mt-1 text-right text-xs text-slate-500">
-              {p.progress}%
-            </p>
-          </div>
-        ))}
+          )}
+
+          {projects.available.length > 0 && (
+            <div>
+              <h3 className="mb-2 text-sm font-semibold text-slate-300">
+                Blueprints
+              </h3>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {projects.available.map((b) => (
+                  <div
+                    key={b.id}
+                    className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-4"
+                  >
+                    <h4 className="text-sm font-semibold text-white">
+                      {b.icon} {b.name}
+                    </h4>
+                    <p className="mb-2 text-xs text-slate-400">
+                      {b.description}
+                    </p>
+                    <p className="mb-3 text-xs text-slate-500">
+                      Needs{" "}
+                      {Object.entries(b.requirements)
+                        .map(
+                          ([r, qty]) =>
+                            `${qty.toLocaleString()} ${RESOURCE_META[r]?.name ?? r}`,
+                        )
+                        .join(", ")}{" "}
+                      · Reward: {b.rewardLunar.toLocaleString()} 🌙
+                    </p>
+                    {projects.canStart && (
+                      <button
+                        onClick={() => void start(b.id, b.name)}
+                        disabled={startProject.isPending}
+                        className="rounded-lg bg-cyan-500/20 px-3 py-1.5 text-xs font-semibold text-cyan-400 transition hover:bg-cyan-500/30 disabled:cursor-not-allowed disabled:opacity-40"
+                      >
+                        Start project
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {projects.completed.length > 0 && (
+            <div>
+              <h3 className="mb-2 text-sm font-semibold text-slate-300">
+                Completed
+              </h3>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {projects.completed.map((p) => (
+                  <div
+                    key={p.id}
+                    className="rounded-lg border border-slate-800/60 bg-slate-900/30 px-3 py-2 text-xs text-slate-400"
+                  >
+                    ✅ {p.blueprint.icon} {p.blueprint.name} · {p.contributors}{" "}
+                    contributors
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function ActiveProject({ project }: { project: AllianceProject }) {
+  const { data: colony } = useColony();
+  const contribute = useContributeToProject();
+  const addToast = useUIStore((s) => s.addToast);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const submit = async (resource: string) => {
+    const quantity = Number(quantities[resource]);
+    if (!Number.isFinite(quantity) || quantity <= 0) return;
+    const name = RESOURCE_META[resource]?.name ?? resource;
+    try {
+      const result = await contribute.mutateAsync({ resource, quantity });
+      setQuantities((q) => ({ ...q, [resource]: "" }));
+      addToast(
+        result.completed
+          ? {
+              type: "success",
+              title: `${project.blueprint.name} complete!`,
+              message: `${result.rewardsPaid.toLocaleString()} $LUNAR paid to contributors`,
+              icon: "🎉",
+            }
+          : {
+              type: "success",
+              title: "Delivered",
+              message: `${result.delivered} ${name}`,
+              icon: "📦",
+            },
+      );
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Delivery failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-4">
+      <h3 className="text-sm font-semibold text-white">
+        {project.blueprint.icon} {project.blueprint.name}
+      </h3>
+      <p className="mb-3 text-xs text-slate-500">
+        {project.contributors} contributors · Reward:{" "}
+        {project.blueprint.rewardLunar.toLocaleString()} 🌙 · Your share weight:{" "}
+        {Math.floor(project.myContribution).toLocaleString()} $L
+      </p>
+      <div className="h-2 rounded-full bg-slate-800">
+        <div
+          className="h-2 rounded-full bg-cyan-500 transition-all"
+          style={{ width: `${project.percent}%` }}
+        />
+      </div>
+      <p className="mb-4 mt-1 text-right text-xs text-slate-500">
+        {project.percent}%
+      </p>
+
+      <div className="space-y-2">
+        {Object.entries(project.blueprint.requirements).map(
+          ([resource, required]) => {
+            const meta = RESOURCE_META[resource];
+            const delivered = project.progress[resource] ?? 0;
+            const done = delivered >= required;
+            const held =
+              colony?.resources.find((r) => r.type === resource)?.amount ?? 0;
+            return (
+              <div
+                key={resource}
+                className="flex flex-wrap items-center gap-2 text-xs"
+              >
+                <span className="w-28 text-slate-300">
+                  {meta?.icon} {meta?.name ?? resource}
+                </span>
+                <span className="w-32 text-slate-500">
+                  {Math.floor(delivered).toLocaleString()} /{" "}
+                  {required.toLocaleString()}
+                </span>
+                {done ? (
+                  <span className="text-emerald-400">✓ Supplied</span>
+                ) : (
+                  <>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      inputMode="decimal"
+                      value={quantities[resource] ?? ""}
+                      onChange={(e) =>
+                        setQuantities((q) => ({
+                          ...q,
+                          [resource]: e.target.value,
+                        }))
+                      }
+                      placeholder={`Have ${Math.floor(held)}`}
+                      aria-label={`${meta?.name ?? resource} quantity`}
+                      className="w-24 rounded-lg border border-slate-700 bg-slate-800 px-2 py-1 text-white focus:border-cyan-500 focus:outline-none"
+                    />
+                    <button
+                      onClick={() => void submit(resource)}
+                      disabled={contribute.isPending}
+                      className="rounded-lg bg-emerald-600/20 px-3 py-1 font-semibold text-emerald-400 transition hover:bg-emerald-600/30 disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      Deliver
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          },
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+"use client";
+
+import {
+  useReferrals,
+  type ReferralTier,
+  type ReferredPlayer,
+} from "@/hooks/use-colony";
+import { useUIStore } from "@/stores/ui-store";
+import { useFarcaster } from "@/components/farcaster-provider";
+
+const STATUS_STYLES: Record<
+  ReferredPlayer["status"],
+  { label: string; className: string }
+> = {
+  verified: { label: "Verified", className: "text-emerald-400" },
+  pending: { label: "Pending", className: "text-slate-400" },
+  held: { label: "On hold", className: "text-amber-400" },
+};
+
+const INVITE_TEXT =
+  "🌙 Come build a lunar colony with me in Lunar Colony Tycoon!";
+
+function tierReward(tier: ReferralTier): string {
+  return [
+    tier.referrerLunar > 0 && `+${tier.referrerLunar} $L for you`,
+    tier.referrerCrew && "a free crew member for you",
+    tier.refereeLunar > 0 && `+${tier.refereeLunar} $L for them`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export default function ReferralsPage() {
+  const { data, isLoading } = useReferrals();
+  const { composeCast } = useFarcaster();
+  const addToast = useUIStore((s) => s.addToast);
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="animate-pulse text-slate-500">Loading referrals…</div>
+      </div>
+    );
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(data.link);
+      addToast({
+        type: "success",
+        title: "Link copied",
+        message: data.link,
+        icon: "📋",
+      });
+    } catch {
+      addToast({
+        type: "error",
+        title: "Couldn't copy",
+        message: data.link,
+        icon: "❌",
+      });
+    }
+  };
+
+  const invite = async () => {
+    if (!(await composeCast(INVITE_TEXT, data.link))) {
+      const query = new URLSearchParams({ text: INVITE_TEXT });
+      query.append("embeds[]", data.link);
+      window.open(
+        `https://warpcast.com/~/compose?${query}`,
+        "_blank",
+        "noopener,noreferrer",
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h2 className="text-lg font-bold text-white">🎟️ Referrals</h2>
+        <p className="text-sm text-slate-400">
+          Invite friends with your link. You both earn rewards as they level up.
+        </p>
+      </div>
+
+      {/* Code + link */}
+      <div className="rounded-xl border border-indigo-500/30 bg-indigo-500/5 p-4">
+        <p className="text-xs text-slate-500">Your referral code</p>
+        <p className="font-mono text-2xl font-bold tracking-widest text-white">
+          {data.code}
+        </p>
+        <p className="mt-1 truncate text-xs text-slate-400">{data.link}</p>
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={copyLink}
+            className="rounded-lg bg-slate-800 px-3 py-2 text-xs font-semibold text-slate-200 transition hover:bg-slate-700"
+          >
+            📋 Copy link
+          </button>
+          <button
+            onClick={invite}
+            className="rounded-lg bg-indigo-600/20 px-3 py-2 text-xs font-semibold text-indigo-300 transition hover:bg-indigo-600/30"
+          >
+            📣 Cast invite
+          </button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          { label: "Referred", value: data.totals.referred },
+          { label: "Verified", value: data.totals.verified },
+          {
+            label: "$LUNAR earned",
+            value: Math.floor(data.totals.lunarEarned).toLocaleString(),
+          },
+        ].map((stat) => (
+          <div
+            key={stat.label}
+            className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-3 text-center"
+          >
+            <p className="text-lg font-bold text-white">{stat.value}</p>
+            <p className="text-[10px] text-slate-500">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Reward tiers */}
+      <div>
+        <h3 className="mb-2 text-sm font-semibold text-white">Rewards</h3>
+        <div className="flex flex-col gap-2">
+          {data.tiers.map((tier) => (
+            <div
+              key={tier.level}
+              className="flex items-center gap-3 rounded-lg border border-slate-800/60 bg-slate-900/50 px-3 py-2"
+            >
+              <span className="w-20 text-xs font-semibold text-indigo-300">
+                Level {tier.level}
+              </span>
+              <span className="text-xs text-slate-400">{tierReward(tier)}</span>
+            </div>
+          ))}
+        </div>
+        <p className="mt-2 text-[10px] text-slate-600">
+          Rewards are paid once the referred Farcaster account passes follower
+          and account-age checks.
+        </p>
+      </div>
+
+      {/* Referred players */}
+      <div>
+        <h3 className="mb-2 text-sm font-semibold text-white">
+          Your referrals
+        </h3>
+        {data.referrals.length === 0 ? (
+          <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-8 text-center">
+            <p className="text-sm text-slate-400">
+              Nobody yet — share your link to get started.
+            </p>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {data.referrals.map((r) => {
+              const status = STATUS_STYLES[r.status];
+              return (
+                <div
+                  key={r.fid}
+                  className="flex items-center gap-3 rounded-xl border border-slate-800/60 bg-slate-900/50 p-3"
+                >
+                  <div className="flex-1">
+                    <p className="text-sm font-semibold text-white">
+                      {r.username ?? `FID ${r.fid}`}
+                    </p>
+                    <p className="text-[10px] text-slate-500">
+                      Level {r.level} · {r.tier}/{data.tiers.length} rewards ·
+                      joined {new Date(r.joinedAt).toLocaleDateString()}
+                    </p>
+                    {r.holdReason && (
+                      <p className="text-[10px] text-amber-500/80">
+                        {r.holdReason}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`text-xs font-semibold ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,27 @@
 "use client";
 
+import { useState } from "react";
+import {
+  useTournament,
+  useTournamentSeason,
+  type TournamentSeason,
+  type TournamentStanding,
+} from "@/hooks/use-alliance";
+
+const MEDALS: Record<number, string> = { 1: "🥇", 2: "🥈", 3: "🥉" };
+
+function timeLeft(iso: string): string {
+  const ms = new Date(iso).getTime() - Date.now();
+  if (ms <= 0) return "ending soon";
+  const hours = Math.floor(ms / 3_600_000);
+  if (hours >= 24) return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  return `${hours}h ${Math.floor((ms % 3_600_000) / 60_000)}m`;
+}
+
 export default function TournamentPage() {
+  const { data, isLoading } = useTournament();
+  const [openSeason, setOpenSeason] = useState<number | null>(null);
+
   return (
     <div className="flex flex-col gap-6">
       <div>
@@ -10,31 +31,188 @@ export default function TournamentPage() {
         </p>
       </div>
 
-      {/* Current tournament */}
-      <div className="rounded-xl border border-amber-500/20 bg-amber-500/5 p-4">
-        <h3 className="mb-1 text-sm font-semibold text-amber-400">
-          🏆 Season 3 — Lunar Rush
-        </h3>
-        <p className="mb-3 text-xs text-slate-400">Ends in 5 days</p>
-        <div className="space-y-2">
-          {[
-            { rank: 1, name: "Nova Corp", score: "42,500" },
-            { rank: 2, name: "Stellar Industries", score: "38,200" },
-            { rank: 3, name: "Your Corporation", score: "35,800" },
-          ].map((t) => (
-            <div
-              key={t.rank}
-              className={`flex items-center gap-3 rounded-lg px-3 py-2 text-sm ${
-                t.rank === 3 ? "bg-cyan-500/10 text-cyan-400" : "text-slate-300"
-              }`}
-            >
-              <span className="w-6 text-center font-bold">#{t.rank}</span>
-              <span className="flex-1">{t.name}</span>
-              <span className="text-xs text-slate-500">{t.score}</span>
-            </div>
-          ))}
+      {isLoading ? (
+        <div className="animate-pulse text-sm text-slate-500">
+          Loading tournament…
         </div>
-      </div>
+      ) : data?.current ? (
+        <CurrentSeason season={data.current} myAllianceId={data.myAllianceId} />
+      ) : (
+        <div className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-6 text-center text-sm text-slate-400">
+          No season running. A new one starts once enough alliances have grown
+          to five members.
+        </div>
+      )}
+
+      {data && data.archive.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-sm font-semibold text-slate-300">
+            Past seasons
+          </h3>
+          <div className="space-y-2">
+            {data.archive.map((s) => (
+              <div
+                key={s.number}
+                className="rounded-lg border border-slate-800/60 bg-slate-900/30 px-3 py-2"
+              >
+                <button
+                  onClick={() =>
+                    setOpenSeason(openSeason === s.number ? null : s.number)
+                  }
+                  className="flex w-full items-center gap-3 text-left text-xs"
+                >
+                  <span className="flex-1 font-semibold text-slate-300">
+                    {s.name}
+                  </span>
+                  <span className="text-slate-500">
+                    {s.podium
+                      .map((p) => `${MEDALS[p.rank] ?? ""} ${p.allianceName}`)
+                      .join("  ")}
+                  </span>
+                </button>
+                {openSeason === s.number && (
+                  <ArchivedSeason number={s.number} />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CurrentSeason({
+  season,
+  myAllianceId,
+}: {
+  season: TournamentSeason;
+  myAllianceId: string | null;
+}) {
+  const byId = new Map(season.standings.map((s) => [s.allianceId, s]));
+
+  return (
+    <div className="rounded-xl border border-amber-500/20 bg-amber-500/5 p-4">
+      <h3 className="mb-1 text-sm font-semibold text-amber-400">
+        🏆 {season.name}
+      </h3>
+      <p className="mb-3 text-xs text-slate-400">
+        Ends in {timeLeft(season.endTime)} · Prize pool{" "}
+        {season.rewardPool.toLocaleString()} 🌙
+        {season.format === "BRACKET" &&
+          ` · Round ${season.currentRound} of ${season.rounds}`}
+        {season.roundEndsAt &&
+          season.currentRound < season.rounds &&
+          ` (decided in ${timeLeft(season.roundEndsAt)})`}
+      </p>
+
+      {season.matches.length > 0 && (
+        <div className="mb-4 grid gap-2 sm:grid-cols-2">
+          {season.matches.map((m) => {
+            const a = byId.get(m.a);
+            const b = m.b ? byId.get(m.b) : null;
+            return (
+              <div
+                key={m.a}
+                className="rounded-lg border border-slate-800/60 bg-slate-900/50 px-3 py-2 text-xs"
+              >
+                <MatchSide entry={a} myAllianceId={myAllianceId} />
+                {b ? (
+                  <MatchSide entry={b} myAllianceId={myAllianceId} />
+                ) : (
+                  <div className="text-slate-500">— bye —</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <StandingsTable season={season} myAllianceId={myAllianceId} />
+    </div>
+  );
+}
+
+function MatchSide({
+  entry,
+  myAllianceId,
+}: {
+  entry: TournamentStanding | undefined;
+  myAllianceId: string | null;
+}) {
+  if (!entry) return null;
+  return (
+    <div
+      className={`flex justify-between ${
+        entry.allianceId === myAllianceId ? "text-cyan-400" : "text-slate-300"
+      }`}
+    >
+      <span>
+        ({entry.seed}) {entry.allianceName}
+      </span>
+      <span>{Math.floor(entry.roundScore).toLocaleString()}</span>
+    </div>
+  );
+}
+
+function StandingsTable({
+  season,
+  myAllianceId,
+}: {
+  season: TournamentSeason;
+  myAllianceId: string | null;
+}) {
+  return (
+    <div className="space-y-2">
+      {season.standings.map((t, i) => {
+        const position = t.rank ?? i + 1;
+        const out = t.eliminatedRound !== null && season.status === "ACTIVE";
+        return (
+          <div
+            key={t.allianceId}
+            className={`flex items-center gap-3 rounded-lg px-3 py-2 text-sm ${
+              t.allianceId === myAllianceId
+                ? "bg-cyan-500/10 text-cyan-400"
+                : out
+                  ? "text-slate-500"
+                  : "text-slate-300"
+            }`}
+          >
+            <span className="w-6 text-center font-bold">#{position}</span>
+            <span className="flex-1">
+              {t.allianceName}
+              {out && (
+                <span className="ml-2 text-xs">
+                  (out in round {t.eliminatedRound})
+                </span>
+              )}
+            </span>
+            {t.reward > 0 && (
+              <span className="text-xs text-amber-400">
+                +{t.reward.toLocaleString()} 🌙
+              </span>
+            )}
+            <span className="text-xs text-slate-500">
+              {Math.floor(t.score).toLocaleString()}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ArchivedSeason({ number }: { number: number }) {
+  const { data: season, isLoading } = useTournamentSeason(number);
+
+  if (isLoading || !season) {
+    return (
+      <div className="animate-pulse py-2 text-xs text-slate-500">Loading…</div>
+    );
+  }
+  return (
+    <div className="mt-3">
+      <StandingsTable season={season} myAllianceId={null} />
     </div>
   );
 }
@@ -0,0 +1,74 @@
+"use client";
+
+import { useAchievements } from "@/hooks/use-colony";
+import { ShareButton } from "@/components/dashboard/share-button";
+
+export default function AchievementsPage() {
+  const { data: achievements, isLoading } = useAchievements();
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="animate-pulse text-slate-500">
+          Loading achievements…
+        </div>
+      </div>
+    );
+  }
+
+  const list = achievements ?? [];
+  const unlockedCount = list.filter((a) => a.unlockId).length;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h2 className="text-lg font-bold text-white">🏆 Achievements</h2>
+        <p className="text-sm text-slate-400">
+          Milestones for your colony. Share an unlock to show it off on
+          Farcaster.
+        </p>
+        <p className="mt-1 text-xs text-slate-500">
+          Unlocked: {unlockedCount}/{list.length}
+        </p>
+      </div>
+
+      {list.length === 0 ? (
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-8 text-center">
+          <p className="text-sm text-slate-400">No achievements yet.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {list.map((a) => (
+            <div
+              key={a.key}
+              className={`flex items-center gap-4 rounded-xl border p-4 ${
+                a.unlockId
+                  ? "border-amber-500/30 bg-amber-500/5"
+                  : "border-slate-800/60 bg-slate-900/50 opacity-60"
+              }`}
+            >
+              <span className="text-2xl">{a.unlockId ? "🏆" : "🔒"}</span>
+              <div className="flex-1">
+                <h3 className="text-sm font-semibold text-white">{a.name}</h3>
+                <p className="text-xs text-slate-500">{a.description}</p>
+                <p className="text-[10px] text-slate-600">
+                  {a.unlockedAt
+                    ? `Unlocked ${new Date(a.unlockedAt).toLocaleDateString()}`
+                    : [
+                        a.xpReward > 0 && `+${a.xpReward} XP`,
+                        a.lunarReward > 0 && `+${a.lunarReward} $L`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                </p>
+              </div>
+              {a.unlockId && (
+                <ShareButton kind="achievement" subjectId={a.unlockId} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useColony, useRecruitCrew, useAssignCrew } from "@/hooks/use-colony";
 import { useUIStore } from "@/stores/ui-store";
+import { EventCostNote } from "@/components/dashboard/event-price";
 
 export default function CrewPage() {
   const { data: colony, isLoading } = useColony();
@@ -26,8 +27,10 @@ export default function CrewPage() {
         <div>
           <h2 className="text-lg font-bold text-white">👨‍🚀 Crew Roster</h2>
           <p className="text-sm text-slate-400">
-            Assign crew members to modules and manage their specializations.
+            Assign crew to modules — crew on running modules earn XP each cycle,
+            level up and unlock role perks.
           </p>
+          <EventCostNote modifier={colony?.costModifiers?.recruit} />
         </div>
         <button
           onClick={async () => {
@@ -57,7 +60,7 @@ export default function CrewPage() {
             ? "Recruiting…"
             : crew.length >= 5
               ? "Crew Full (5/5)"
-              : `💰 Recruit (200 $L) · ${crew.length}/5`}
+              : `💰 Recruit (${(colony?.crewHireCost ?? 200).toLocaleString()} $L) · ${crew.length}/5`}
         </button>
       </div>
 
@@ -101,6 +104,41 @@ export default function CrewPage() {
                     +{c.efficiencyBonus}% efficiency
                   </span>
                 </div>
+
+                {/* Level progress */}
+                <div className="mt-2">
+                  <div className="mb-1 flex justify-between text-[10px] text-slate-500">
+                    <span>Lv.{c.level}</span>
+                    <span>
+                      {c.xpForNextLevel == null
+                        ? "Max level"
+                        : `${c.xp} / ${c.xpForNextLevel} XP`}
+                    </span>
+                  </div>
+                  <div className="h-1.5 overflow-hidden rounded-full bg-slate-800">
+                    <div
+                      className="h-full rounded-full bg-indigo-500 transition-all"
+                      style={{
+                        width: `${
+                          c.xpForNextLevel == null
+                            ? 100
+                            : Math.min(100, (c.xp / c.xpForNextLevel) * 100)
+                        }%`,
+                      }}
+                    />
+                  </div>
+                </div>
+                {c.perk && (
+                  <p
+                    className={`mt-2 text-[10px] ${c.perk.unlocked ? "text-violet-400" : "text-slate-600"}`}
+                    title={c.perk.description}
+                  >
+                    {c.perk.unlocked ? "★" : "🔒"} {c.perk.name}
+                    {c.perk.unlocked
+                      ? ` · ${c.perk.description}`
+                      : ` · unlocks at Lv.${c.perk.unlockLevel}`}
+                  </p>
+                )}
                 {assignedModule && (
                   <p className="mt-2 text-[10px] text-slate-500">
                     → {assignedModule.type.replace(/_/g, " ").toLowerCase()}
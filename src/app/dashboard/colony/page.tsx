@@ -22,10 +22,14 @@ import {
   useGameStore,
   type DashboardModule,
   type DashboardCrew,
+  type CostModifier,
 } from "@/stores/game-store";
 import { useUIStore } from "@/stores/ui-store";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard";
 import { ModuleCard, EmptyGridCell } from "@/components/dashboard/module-card";
+import { EventPrice, EventCostNote } from "@/components/dashboard/event-price";
+import { EmergencyOffers } from "@/components/dashboard/emergency-offers";
+import { ShareButton } from "@/components/dashboard/share-button";
 import { IsometricColony } from "@/components/illustrations";
 import { GAME_CONSTANTS } from "@/lib/utils";
 import { EfficiencyGauge } from "@/components/visualizations/efficiency-gauge";
@@ -38,7 +42,6 @@ import { StatusDot } from "@/components/visualizations/status-indicators";
 
 const GRID_COLS = 5;
 const GRID_ROWS = 4;
-const MAX_MODULES = GAME_CONSTANTS.MAX_MODULES;
 
 const MODULE_ICONS: Record<string, string> = {
   SOLAR_PANEL: "⚡",
@@ -84,6 +87,7 @@ export default function ColonyMapPage() {
 
   const [dragSource, setDragSource] = useState<string | null>(null);
   const isMobile = useIsMobile();
+  const maxModules = colony?.maxModules ?? GAME_CONSTANTS.MAX_MODULES;
 
   // Build the grid: 5x4 = 20 cells
   const grid = useMemo(() => {
@@ -161,11 +165,17 @@ export default function ColonyMapPage() {
           y={y}
           balance={colony?.lunarBalance ?? 0}
           moduleCount={colony?.modules.length ?? 0}
+          maxModules={maxModules}
           playerLevel={colony?.level ?? 1}
+          costScale={Math.pow(
+            colony?.moduleCostMultiplier ?? 1,
+            colony?.modules.length ?? 0,
+          )}
+          buildModifier={colony?.costModifiers?.build}
         />,
       );
     },
-    [openModal, colony],
+    [openModal, colony, maxModules],
   );
 
   // Context menu items for a module
@@ -299,12 +309,18 @@ export default function ColonyMapPage() {
             >
               {dailyReward.isPending ? "…" : "🎁 Daily"}
             </button>
+            <ShareButton
+              kind="colony"
+              className="min-h-[36px] rounded-lg bg-indigo-600/20 px-3 py-2 text-xs font-semibold text-indigo-300 transition hover:bg-indigo-600/30 disabled:cursor-not-allowed disabled:opacity-40 focus-visible:ring-2 focus-visible:ring-indigo-400 sm:min-h-[44px] sm:rounded-xl sm:px-4 sm:py-2.5 sm:text-sm"
+            />
             <span className="text-[11px] text-slate-500 sm:text-sm">
-              {colony?.modules.length ?? 0}/{MAX_MODULES} modules
+              {colony?.modules.length ?? 0}/{maxModules} modules
             </span>
           </div>
         </div>
 
+        <EmergencyOffers offers={colony?.emergencyOffers ?? []} />
+
         {/* Empty state CTA — compact on mobile */}
         {hasNoModules && (
           <div className="mb-4 flex flex-col items-center rounded-xl border-2 border-dashed border-cyan-500/25 bg-cyan-500/5 p-4 text-center sm:mb-6 sm:rounded-2xl sm:p-8">
@@ -633,13 +649,21 @@ function BuildModuleDialog({
   y,
   balance,
   moduleCount,
+  maxModules,
   playerLevel,
+  costScale,
+  buildModifier,
 }: {
   x: number;
   y: number;
   balance: number;
   moduleCount: number;
+  /** GameConfig max_modules_per_player */
+  maxModules: number;
   playerLevel: number;
+  /** module_cost_multiplier ^ modules owned */
+  costScale: number;
+  buildModifier?: CostModifier;
 }) {
   const build = useBuildModule();
   const closeModal = useUIStore((s) => s.closeModal);
@@ -697,9 +721,13 @@ function BuildModuleDialog({
       <h2 className="mb-1 text-lg font-bold">Build Module</h2>
       <p className="mb-4 text-sm text-slate-400">
         Position ({x}, {y}) · Balance: {Math.floor(balance)} $LUNAR ·{" "}
-        {moduleCount}/{MAX_MODULES} slots
+        {moduleCount}/{maxModules} slots
       </p>
 
+      <div className="mb-3">
+        <EventCostNote modifier={buildModifier} />
+      </div>
+
       {bpLoading && (
         <p className="mb-3 text-xs text-slate-500 animate-pulse">
           Loading blueprints…
@@ -718,7 +746,7 @@ function BuildModuleDialog({
               {/* Module type header — click to expand tiers */}
               <button
                 onClick={() => setExpandedType(isExpanded ? null : type)}
-                disabled={moduleCount >= MAX_MODULES}
+                disabled={moduleCount >= maxModules}
                 className="flex w-full items-center gap-2 rounded-lg border border-slate-700 bg-slate-800/50 p-3 text-left transition hover:border-cyan-500/40 hover:bg-slate-800 disabled:opacity-40"
               >
                 <span className="text-xl">{icon}</span>
@@ -743,12 +771,16 @@ function BuildModuleDialog({
                   {tiers.map((bp) => {
                     const tierColor =
                       TIER_COLORS[bp.tier] ?? "text-slate-300 border-slate-600";
-                    const canAfford = balance >= bp.baseCost;
+                    const listPrice = Math.floor(bp.baseCost * costScale);
+                    const price = buildModifier
+                      ? Math.floor(listPrice * buildModifier.multiplier)
+                      : listPrice;
+                    const canAfford = balance >= price;
                     const disabled =
                       build.isPending ||
                       !bp.unlocked ||
                       !canAfford ||
-                      moduleCount >= MAX_MODULES;
+                      moduleCount >= maxModules;
 
                     return (
                       <button
@@ -770,7 +802,12 @@ function BuildModuleDialog({
                             ⚡ {bp.baseOutput}/cycle
                           </span>
                           <span title="Build cost">
-                            💰 {Math.floor(bp.baseCost)}
+                            💰{" "}
+                            <EventPrice
+                              cost={price}
+                              baseCost={listPrice}
+                              modifier={buildModifier}
+                            />
                           </span>
                           <span title="Max level">📈 Lv{bp.maxLevel}</span>
                         </div>
@@ -785,7 +822,7 @@ function BuildModuleDialog({
                 <div className="ml-4 mt-1">
                   <button
                     onClick={() => handleBuild(type, "COMMON")}
-                    disabled={build.isPending || moduleCount >= MAX_MODULES}
+                    disabled={build.isPending || moduleCount >= maxModules}
                     className="w-full rounded border border-slate-600 bg-slate-900/60 p-2 text-left text-xs text-slate-300 transition hover:bg-slate-800 disabled:opacity-40"
                   >
                     COMMON (default)
@@ -1,31 +1,117 @@
 "use client";
 
+import { useState } from "react";
+import { useColony, useBurnResources } from "@/hooks/use-colony";
+import { useUIStore } from "@/stores/ui-store";
+
+const RESOURCES = [
+  { type: "REGOLITH", name: "Regolith", icon: "🪨" },
+  { type: "WATER_ICE", name: "Water Ice", icon: "🧊" },
+  { type: "HELIUM3", name: "Helium-3", icon: "⚛️" },
+  { type: "RARE_EARTH", name: "Rare Earth", icon: "💎" },
+];
+
 export default function StoragePage() {
+  const { data: colony } = useColony();
+  const burn = useBurnResources();
+  const addToast = useUIStore((s) => s.addToast);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const burnRates = colony?.burnRates;
+  const boosted = (burnRates?.multiplier ?? 1) !== 1;
+
+  const handleBurn = async (type: string, name: string) => {
+    const quantity = Number(quantities[type]);
+    if (!Number.isFinite(quantity) || quantity <= 0) return;
+    try {
+      const result = await burn.mutateAsync({ resource: type, quantity });
+      setQuantities((q) => ({ ...q, [type]: "" }));
+      addToast({
+        type: "success",
+        title: `+${result.lunarEarned} $LUNAR`,
+        message:
+          result.eventScore > 0
+            ? `Burned ${quantity} ${name} · +${result.eventScore} event score`
+            : `Burned ${quantity} ${name}`,
+        icon: "🔥",
+      });
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Burn failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
   return (
     <div className="flex flex-col gap-6">
       <div>
         <h2 className="text-lg font-bold text-white">📦 Storage</h2>
         <p className="text-sm text-slate-400">
-          View and manage your colony&apos;s resource inventory.
+          View your resource inventory and burn surplus for $LUNAR.
         </p>
+        {boosted && burnRates && (
+          <p className="mt-1 text-xs text-orange-400">
+            🔥 {burnRates.events.join(" + ")}: burn payouts ×
+            {burnRates.multiplier}
+          </p>
+        )}
       </div>
 
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        {[
-          { name: "Helium-3", amount: "1,240", icon: "⚡" },
-          { name: "Iron Ore", amount: "890", icon: "🪨" },
-          { name: "Water Ice", amount: "560", icon: "🧊" },
-          { name: "Regolith", amount: "2,100", icon: "🟤" },
-        ].map((r) => (
-          <div
-            key={r.name}
-            className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-4"
-          >
-            <div className="mb-2 text-2xl">{r.icon}</div>
-            <h3 className="text-sm font-semibold text-white">{r.name}</h3>
-            <p className="text-xs text-slate-500">{r.amount} units</p>
-          </div>
-        ))}
+        {RESOURCES.map((r) => {
+          const held =
+            colony?.resources.find((res) => res.type === r.type)?.amount ?? 0;
+          const rate = burnRates?.rates[r.type] ?? 0;
+          const quantity = Number(quantities[r.type] ?? "");
+          const payout =
+            Number.isFinite(quantity) && quantity > 0
+              ? Math.floor(quantity * rate)
+              : 0;
+
+          return (
+            <div
+              key={r.type}
+              className="flex flex-col gap-2 rounded-xl border border-slate-800/60 bg-slate-900/50 p-4"
+            >
+              <div className="text-2xl">{r.icon}</div>
+              <div>
+                <h3 className="text-sm font-semibold text-white">{r.name}</h3>
+                <p className="text-xs text-slate-500">
+                  {held.toLocaleString(undefined, {
+                    maximumFractionDigits: 2,
+                  })}{" "}
+                  units · {rate.toFixed(2)} $LUNAR each
+                </p>
+              </div>
+              <div className="mt-auto flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={held}
+                  step="any"
+                  inputMode="decimal"
+                  value={quantities[r.type] ?? ""}
+                  onChange={(e) =>
+                    setQuantities((q) => ({ ...q, [r.type]: e.target.value }))
+                  }
+                  placeholder="Qty"
+                  aria-label={`${r.name} to burn`}
+                  className="w-full min-w-0 rounded-lg border border-slate-700 bg-slate-800 px-2 py-1.5 text-xs text-white focus:border-orange-500 focus:outline-none"
+                />
+                <button
+                  onClick={() => handleBurn(r.type, r.name)}
+                  disabled={burn.isPending || payout < 1 || quantity > held}
+                  className="whitespace-nowrap rounded-lg bg-orange-600/20 px-3 py-1.5 text-xs font-semibold text-orange-400 transition hover:bg-orange-600/30 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  {payout > 0 ? `🔥 +${payout}` : "🔥 Burn"}
+                </button>
+              </div>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
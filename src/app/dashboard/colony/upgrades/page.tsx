@@ -2,6 +2,7 @@
 
 import { useColony, useUpgradeModule } from "@/hooks/use-colony";
 import { useUIStore } from "@/stores/ui-store";
+import { EventPrice, EventCostNote } from "@/components/dashboard/event-price";
 
 const MODULE_ICONS: Record<string, string> = {
   SOLAR_PANEL: "⚡",
@@ -14,22 +15,6 @@ const MODULE_ICONS: Record<string, string> = {
   LAUNCH_PAD: "🚀",
 };
 
-const UPGRADE_BASE_COSTS: Record<string, number> = {
-  SOLAR_PANEL: 50,
-  MINING_RIG: 125,
-  HABITAT: 100,
-  RESEARCH_LAB: 250,
-  WATER_EXTRACTOR: 150,
-  OXYGEN_GENERATOR: 175,
-  STORAGE_DEPOT: 75,
-  LAUNCH_PAD: 500,
-};
-
-function upgradeCost(type: string, level: number): number {
-  const base = UPGRADE_BASE_COSTS[type] ?? 100;
-  return Math.floor(base * Math.pow(1.5, level - 1));
-}
-
 export default function UpgradesPage() {
   const { data: colony, isLoading } = useColony();
   const upgrade = useUpgradeModule();
@@ -45,17 +30,21 @@ export default function UpgradesPage() {
 
   const modules = colony?.modules ?? [];
   const balance = colony?.lunarBalance ?? 0;
+  const maxLevel = colony?.maxModuleLevel ?? 10;
+  const upgradeModifier = colony?.costModifiers?.upgrade;
 
   return (
     <div className="flex flex-col gap-6">
       <div>
         <h2 className="text-lg font-bold text-white">⬆️ Upgrades</h2>
         <p className="text-sm text-slate-400">
-          Enhance your modules. Each level gives +15% base output. Max Lv.10.
+          Enhance your modules. Each level gives +15% base output. Max Lv.
+          {maxLevel}.
         </p>
         <p className="mt-1 text-xs text-slate-500">
           Balance: {Math.floor(balance).toLocaleString()} $LUNAR
         </p>
+        <EventCostNote modifier={upgradeModifier} />
       </div>
 
       {modules.length === 0 ? (
@@ -69,8 +58,8 @@ export default function UpgradesPage() {
           {modules
             .sort((a, b) => a.type.localeCompare(b.type))
             .map((m) => {
-              const cost = upgradeCost(m.type, m.level);
-              const isMaxLevel = m.level >= 10;
+              const cost = m.upgradeCost ?? 0;
+              const isMaxLevel = m.upgradeCost === null;
               const canAfford = balance >= cost;
 
               return (
@@ -86,8 +75,8 @@ export default function UpgradesPage() {
                       {m.type.replace(/_/g, " ")}
                     </h3>
                     <p className="text-xs text-slate-500">
-                      Lv.{m.level}/10 · Output: {m.baseOutput.toFixed(1)}/tick ·
-                      Eff: {m.efficiency}%
+                      Lv.{m.level}/{maxLevel} · Output:{" "}
+                      {m.baseOutput.toFixed(1)}/tick · Eff: {m.efficiency}%
                     </p>
                     {!isMaxLevel && (
                       <p className="text-[10px] text-slate-600">
@@ -119,11 +108,18 @@ export default function UpgradesPage() {
                     disabled={upgrade.isPending || isMaxLevel || !canAfford}
                     className="shrink-0 rounded-lg bg-cyan-500/20 px-3 py-1.5 text-xs font-medium text-cyan-400 transition hover:bg-cyan-500/30 disabled:opacity-40 disabled:cursor-not-allowed"
                   >
-                    {isMaxLevel
-                      ? "MAX"
-                      : upgrade.isPending
-                        ? "…"
-                        : `${cost.toLocaleString()} $L`}
+                    {isMaxLevel ? (
+                      "MAX"
+                    ) : upgrade.isPending ? (
+                      "…"
+                    ) : (
+                      <EventPrice
+                        cost={cost}
+                        baseCost={m.baseUpgradeCost ?? cost}
+                        modifier={upgradeModifier}
+                        suffix=" $L"
+                      />
+                    )}
                   </button>
                 </div>
               );
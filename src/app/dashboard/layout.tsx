@@ -20,7 +20,8 @@ import { useAccessibilityStore } from "@/stores/accessibility-store";
 import { useGameStore } from "@/stores/game-store";
 import { useNavHistory } from "@/stores/navigation-store";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard";
-import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useSignIn, useSession } from "@/hooks/use-session";
+import { usePathname, useRouter } from "next/navigation";
 import {
   useEffect,
   useState,
@@ -31,13 +32,13 @@ import {
 } from "react";
 
 function DashboardShell({ children }: { children: ReactNode }) {
-  const searchParams = useSearchParams();
   const pathname = usePathname();
   const fid = useGameStore((s) => s.fid);
   const setFid = useGameStore((s) => s.setFid);
+  const clearFid = useGameStore((s) => s.clearFid);
   const pushNav = useNavHistory((s) => s.push);
 
-  // Auto-detect FID from Farcaster SDK context
+  // FID signed in via the Farcaster SDK's Quick Auth (Mini App only)
   const { fid: farcasterFid, loading: farcasterLoading } = useFarcaster();
 
   // Accessibility preferences → data attributes on root element
@@ -132,26 +133,26 @@ function DashboardShell({ children }: { children: ReactNode }) {
     );
   }, [textScale]);
 
-  // Auto-set FID from Farcaster SDK context
+  // The session cookie decides whose colony this is. Re-check once the
+  // Farcaster SDK has signed in inside a Mini App.
+  const { data: session, isLoading: sessionLoading, refetch } = useSession();
+  const sessionFid = session?.fid ?? null;
   useEffect(() => {
-    if (!fid && farcasterFid) {
-      setFid(farcasterFid);
-    }
-  }, [fid, farcasterFid, setFid]);
+    if (farcasterFid) void refetch();
+  }, [farcasterFid, refetch]);
 
-  // Pick up ?fid= from URL and persist (guard to prevent loop: only set when value would change)
+  // Keep the stored FID in step with the session
   useEffect(() => {
-    const urlFid = searchParams.get("fid");
-    if (!urlFid) return;
-    const n = parseInt(urlFid, 10);
-    if (isNaN(n) || n <= 0) return;
-    if (n === fid) return;
-    setFid(n);
-  }, [searchParams, setFid, fid]);
+    if (sessionFid && sessionFid !== fid) {
+      setFid(sessionFid);
+    } else if (!sessionFid && !sessionLoading && fid) {
+      clearFid();
+    }
+  }, [sessionFid, sessionLoading, fid, setFid, clearFid]);
 
-  // While Farcaster SDK is still detecting, show a loading state
-  // instead of flashing the FID entry form
-  if (!fid && farcasterLoading) {
+  // While the Farcaster SDK or the session check is in flight, show a
+  // loading state instead of flashing the sign-in screen
+  if (!sessionFid && (farcasterLoading || sessionLoading)) {
     return (
       <div className="flex min-h-dvh items-center justify-center bg-slate-950 text-white">
         <div className="flex flex-col items-center gap-4">
@@ -164,9 +165,9 @@ function DashboardShell({ children }: { children: ReactNode }) {
     );
   }
 
-  // Show FID entry only as fallback (not in Mini App / no SDK context)
-  if (!fid) {
-    return <FidEntry />;
+  // Not signed in (outside a Mini App, or Quick Auth failed)
+  if (!sessionFid || fid !== sessionFid) {
+    return <SignInScreen />;
   }
 
   return (
@@ -226,14 +227,21 @@ function DashboardShell({ children }: { children: ReactNode }) {
   );
 }
 
-function FidEntry() {
-  const setFid = useGameStore((s) => s.setFid);
+/** Local development signs in through the offline stub verifier. */
+const DEV_SIGN_IN = process.env.NODE_ENV !== "production";
+
+function SignInScreen() {
+  const signIn = useSignIn();
+
+  function signInAs(fid: number) {
+    signIn.mutate({ token: `stub:${fid}` });
+  }
 
   function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     const form = new FormData(e.currentTarget);
     const val = parseInt(form.get("fid") as string, 10);
-    if (!isNaN(val) && val > 0) setFid(val);
+    if (!isNaN(val) && val > 0) signInAs(val);
   }
 
   return (
@@ -245,43 +253,60 @@ function FidEntry() {
             Lunar Colony Dashboard
           </h1>
           <p id="fid-help" className="mt-2 text-sm text-slate-400">
-            Enter your Farcaster FID to access your colony.
+            Open Lunar Colony from a Farcaster client to sign in with your
+            Farcaster account.
           </p>
         </div>
-        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
-          <label htmlFor="fid-input" className="sr-only">
-            Farcaster FID
-          </label>
-          <input
-            id="fid-input"
-            name="fid"
-            type="number"
-            min={1}
-            placeholder="e.g. 12345"
-            autoFocus
-            required
-            aria-describedby="fid-help fid-hint"
-            className="w-full rounded-lg border border-slate-700 bg-slate-800 px-4 py-3 text-center text-lg font-mono text-white placeholder:text-slate-600 focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
-          />
-          <div className="flex flex-col gap-2">
-            <button
-              type="submit"
-              className="rounded-lg bg-cyan-600 px-6 py-3 font-semibold text-white transition hover:bg-cyan-500 active:scale-[0.98] focus-visible:ring-2 focus-visible:ring-cyan-500 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950"
-            >
-              Enter Colony →
-            </button>
-            <button
-              type="button"
-              onClick={() => setFid(DEMO_FID)}
-              className="rounded-lg border border-slate-600 px-6 py-2.5 text-sm font-medium text-slate-400 transition hover:border-slate-500 hover:bg-slate-800/50 hover:text-slate-300"
-            >
-              Use Demo (FID {DEMO_FID}) for testing
-            </button>
-          </div>
-        </form>
-        <p id="fid-hint" className="mt-4 text-center text-xs text-slate-600">
-          Find your FID on your Warpcast profile
-        </p>
+        <a
+          href="https://warpcast.com"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block rounded-lg bg-cyan-600 px-6 py-3 text-center font-semibold text-white transition hover:bg-cyan-500 active:scale-[0.98] focus-visible:ring-2 focus-visible:ring-cyan-500 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950"
+        >
+          Open in Farcaster →
+        </a>
+        {DEV_SIGN_IN && (
+          <form
+            onSubmit={handleSubmit}
+            className="mt-6 flex flex-col gap-4 border-t border-slate-800 pt-6"
+          >
+            <label htmlFor="fid-input" className="text-xs text-slate-500">
+              Development sign-in (requires FARCASTER_AUTH_VERIFIER=stub)
+            </label>
+            <input
+              id="fid-input"
+              name="fid"
+              type="number"
+              min={1}
+              placeholder="e.g. 12345"
+              required
+              aria-describedby="fid-help"
+              className="w-full rounded-lg border border-slate-700 bg-slate-800 px-4 py-3 text-center text-lg font-mono text-white placeholder:text-slate-600 focus:border-cyan-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+            />
+            <div className="flex flex-col gap-2">
+              <button
+                type="submit"
+                disabled={signIn.isPending}
+                className="rounded-lg border border-cyan-700 px-6 py-2.5 font-semibold text-cyan-300 transition hover:bg-cyan-900/30 disabled:opacity-40"
+              >
+                Sign in as FID →
+              </button>
+              <button
+                type="button"
+                onClick={() => signInAs(DEMO_FID)}
+                disabled={signIn.isPending}
+                className="rounded-lg border border-slate-600 px-6 py-2.5 text-sm font-medium text-slate-400 transition hover:border-slate-500 hover:bg-slate-800/50 hover:text-slate-300 disabled:opacity-40"
+              >
+                Use Demo (FID {DEMO_FID}) for testing
+              </button>
+            </div>
+            {signIn.error && (
+              <p role="alert" className="text-center text-xs text-rose-400">
+                {signIn.error.message}
+              </p>
+            )}
+          </form>
+        )}
       </div>
     </div>
   );
@@ -5,6 +5,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useGameStore } from "@/stores/game-store";
 import { useUIStore } from "@/stores/ui-store";
 import { GAME_CONSTANTS } from "@/lib/utils";
+import { NotificationSettings } from "@/components/dashboard/notification-settings";
 
 const TRADEABLE_RESOURCES = GAME_CONSTANTS.RESOURCE_TYPES.filter(
   (r) => r !== "LUNAR",
@@ -164,6 +165,9 @@ export default function AlertsPage() {
         </div>
       </div>
 
+      {/* Farcaster notification opt-ins */}
+      <NotificationSettings />
+
       {/* Alert list */}
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-4">
         <h3 className="mb-3 text-sm font-semibold text-slate-300">
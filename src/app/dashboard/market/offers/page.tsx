@@ -0,0 +1,394 @@
+"use client";
+
+import { useState } from "react";
+import {
+  useTradeOffers,
+  useCreateTradeOffer,
+  useRespondToTradeOffer,
+  type TradeOffer,
+  type TradeOfferResponse,
+} from "@/hooks/use-market";
+import { usePlayerAlliance } from "@/hooks/use-alliance";
+import { useUIStore } from "@/stores/ui-store";
+import { GAME_CONSTANTS } from "@/lib/utils";
+
+const RESOURCES = GAME_CONSTANTS.RESOURCE_TYPES;
+
+const STATUS_STYLES: Record<TradeOffer["status"], string> = {
+  OPEN: "bg-amber-500/10 text-amber-400",
+  ACCEPTED: "bg-emerald-500/10 text-emerald-400",
+  DECLINED: "bg-rose-500/10 text-rose-400",
+  CANCELLED: "bg-slate-500/10 text-slate-400",
+  EXPIRED: "bg-slate-500/10 text-slate-500",
+};
+
+const RESPONSE_LABEL: Record<TradeOfferResponse, string> = {
+  accept: "Offer accepted",
+  decline: "Offer declined",
+  cancel: "Offer cancelled",
+};
+
+function formatSide(resource: string, quantity: number): string {
+  return `${quantity.toLocaleString()} ${resource.replace(/_/g, " ")}`;
+}
+
+function counterparty(offer: TradeOffer): string {
+  if (offer.alliance) return `🏰 ${offer.alliance.name}`;
+  if (offer.recipient) {
+    return offer.recipient.username ?? `fid ${offer.recipient.fid}`;
+  }
+  return "—";
+}
+
+export default function OffersPage() {
+  const { data, isLoading } = useTradeOffers();
+  const { data: alliance } = usePlayerAlliance();
+  const createOffer = useCreateTradeOffer();
+  const respond = useRespondToTradeOffer();
+  const addToast = useUIStore((s) => s.addToast);
+
+  const [target, setTarget] = useState<"player" | "alliance">("player");
+  const [recipientFid, setRecipientFid] = useState("");
+  const [offerResource, setOfferResource] = useState<string>("REGOLITH");
+  const [offerQuantity, setOfferQuantity] = useState("");
+  const [isGift, setIsGift] = useState(false);
+  const [requestResource, setRequestResource] = useState<string>("LUNAR");
+  const [requestQuantity, setRequestQuantity] = useState("");
+  const [message, setMessage] = useState("");
+
+  const handleCreate = async () => {
+    try {
+      await createOffer.mutateAsync({
+        ...(target === "player"
+          ? { recipientFid: Number(recipientFid) }
+          : { allianceId: alliance?.id }),
+        offerResource,
+        offerQuantity: Number(offerQuantity),
+        ...(isGift
+          ? {}
+          : { requestResource, requestQuantity: Number(requestQuantity) }),
+        message: message || undefined,
+      });
+      addToast({
+        type: "success",
+        title: isGift ? "Gift sent" : "Offer sent",
+        message: `${formatSide(offerResource, Number(offerQuantity))} held in escrow until it's settled`,
+        icon: "🤝",
+      });
+      setOfferQuantity("");
+      setRequestQuantity("");
+      setMessage("");
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Offer failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  const handleRespond = async (
+    offerId: string,
+    response: TradeOfferResponse,
+  ) => {
+    try {
+      await respond.mutateAsync({ offerId, response });
+      addToast({
+        type: "success",
+        title: RESPONSE_LABEL[response],
+        message:
+          response === "accept"
+            ? "Resources have been exchanged"
+            : "Escrowed resources returned to the sender",
+        icon: response === "accept" ? "✅" : "↩️",
+      });
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Update failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  const canCreate =
+    !createOffer.isPending &&
+    Number(offerQuantity) > 0 &&
+    (target === "alliance" ? !!alliance : Number(recipientFid) > 0) &&
+    (isGift ||
+      (Number(requestQuantity) > 0 && requestResource !== offerResource));
+
+  const inputClass =
+    "rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white placeholder:text-slate-500";
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h2 className="text-lg font-bold text-white">🤝 Player Offers</h2>
+        <p className="text-sm text-slate-400">
+          Swap resources directly with another player or your alliance. What you
+          offer is held in escrow until the offer is accepted, declined,
+          cancelled or expires. Gifts are limited to alliance mates.
+        </p>
+      </div>
+
+      {/* New offer form */}
+      <div className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value as typeof target)}
+            className={inputClass}
+          >
+            <option value="player">To a player</option>
+            <option value="alliance" disabled={!alliance}>
+              To my alliance
+            </option>
+          </select>
+          {target === "player" ? (
+            <input
+              type="number"
+              placeholder="Recipient FID"
+              value={recipientFid}
+              onChange={(e) => setRecipientFid(e.target.value)}
+              min="1"
+              className={inputClass}
+            />
+          ) : (
+            <div className="flex items-center px-3 text-sm text-slate-300">
+              🏰 {alliance?.name}
+            </div>
+          )}
+          <label className="flex items-center gap-2 px-3 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={isGift}
+              onChange={(e) => setIsGift(e.target.checked)}
+            />
+            Gift (nothing in return)
+          </label>
+
+          <select
+            value={offerResource}
+            onChange={(e) => setOfferResource(e.target.value)}
+            className={inputClass}
+          >
+            {RESOURCES.map((r) => (
+              <option key={r} value={r}>
+                Give {r.replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            placeholder="Quantity"
+            value={offerQuantity}
+            onChange={(e) => setOfferQuantity(e.target.value)}
+            min="0"
+            className={inputClass}
+          />
+          <div />
+
+          {!isGift && (
+            <>
+              <select
+                value={requestResource}
+                onChange={(e) => setRequestResource(e.target.value)}
+                className={inputClass}
+              >
+                {RESOURCES.map((r) => (
+                  <option key={r} value={r}>
+                    Ask for {r.replace(/_/g, " ")}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                placeholder="Quantity"
+                value={requestQuantity}
+                onChange={(e) => setRequestQuantity(e.target.value)}
+                min="0"
+                className={inputClass}
+              />
+              <div />
+            </>
+          )}
+
+          <input
+            type="text"
+            placeholder="Message (optional)"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={200}
+            className={`${inputClass} sm:col-span-2`}
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="rounded-lg bg-cyan-500/20 py-2 text-sm font-medium text-cyan-400 transition hover:bg-cyan-500/30 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            {createOffer.isPending
+              ? "Sending…"
+              : isGift
+                ? "Send Gift"
+                : "Send Offer"}
+          </button>
+        </div>
+        {data && (
+          <p className="mt-2 text-xs text-slate-400">
+            Gift allowance today:{" "}
+            {Math.floor(data.giftedToday).toLocaleString()} /{" "}
+            {data.giftLimit.toLocaleString()} $LUNAR value sent ·{" "}
+            {Math.floor(data.receivedToday).toLocaleString()} /{" "}
+            {data.giftLimit.toLocaleString()} received
+          </p>
+        )}
+      </div>
+
+      <OfferList
+        title="Incoming"
+        empty="No offers waiting for you."
+        offers={data?.incoming}
+        isLoading={isLoading}
+        renderActions={(offer) => (
+          <>
+            <button
+              onClick={() => handleRespond(offer.id, "accept")}
+              disabled={respond.isPending}
+              className="text-xs text-emerald-400 hover:text-emerald-300 disabled:opacity-40"
+            >
+              Accept
+            </button>
+            {offer.recipient && (
+              <button
+                onClick={() => handleRespond(offer.id, "decline")}
+                disabled={respond.isPending}
+                className="text-xs text-slate-400 hover:text-rose-400 disabled:opacity-40"
+              >
+                Decline
+              </button>
+            )}
+          </>
+        )}
+      />
+
+      <OfferList
+        title="Your open offers"
+        empty="You have no open offers."
+        offers={data?.outgoing}
+        isLoading={isLoading}
+        renderActions={(offer) => (
+          <button
+            onClick={() => handleRespond(offer.id, "cancel")}
+            disabled={respond.isPending}
+            className="text-xs text-slate-400 hover:text-rose-400 disabled:opacity-40"
+          >
+            Cancel
+          </button>
+        )}
+      />
+
+      <OfferList
+        title="History"
+        empty="No settled offers yet."
+        offers={data?.history}
+        isLoading={isLoading}
+      />
+    </div>
+  );
+}
+
+function OfferList({
+  title,
+  empty,
+  offers,
+  isLoading,
+  renderActions,
+}: {
+  title: string;
+  empty: string;
+  offers: TradeOffer[] | undefined;
+  isLoading: boolean;
+  renderActions?: (offer: TradeOffer) => React.ReactNode;
+}) {
+  return (
+    <div>
+      <h3 className="mb-2 text-sm font-semibold text-slate-300">{title}</h3>
+      <div className="overflow-hidden rounded-xl border border-slate-800/60 bg-slate-900/50">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-800/40 text-left text-xs text-slate-500">
+              <th className="px-4 py-3">From</th>
+              <th className="px-4 py-3">To</th>
+              <th className="px-4 py-3">Gives</th>
+              <th className="px-4 py-3">Asks</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {isLoading && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-4 py-6 text-center text-slate-500"
+                >
+                  Loading offers…
+                </td>
+              </tr>
+            )}
+            {!isLoading && (offers?.length ?? 0) === 0 && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-4 py-6 text-center text-slate-500"
+                >
+                  {empty}
+                </td>
+              </tr>
+            )}
+            {offers?.map((offer) => (
+              <tr key={offer.id} className="border-b border-slate-800/20">
+                <td className="px-4 py-3">
+                  {offer.sender.username ?? `fid ${offer.sender.fid}`}
+                </td>
+                <td className="px-4 py-3">{counterparty(offer)}</td>
+                <td className="px-4 py-3 tabular-nums">
+                  {formatSide(offer.offerResource, offer.offerQuantity)}
+                  {offer.message && (
+                    <div className="text-xs text-slate-500">
+                      “{offer.message}”
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 tabular-nums">
+                  {offer.requestResource
+                    ? formatSide(offer.requestResource, offer.requestQuantity)
+                    : "🎁 Gift"}
+                </td>
+                <td className="px-4 py-3">
+                  <span
+                    className={`rounded-full px-2 py-0.5 text-xs ${STATUS_STYLES[offer.status]}`}
+                  >
+                    {offer.status.charAt(0) +
+                      offer.status.slice(1).toLowerCase()}
+                  </span>
+                  {offer.status === "OPEN" && (
+                    <div className="mt-1 text-xs text-slate-500">
+                      until {new Date(offer.expiresAt).toLocaleString()}
+                    </div>
+                  )}
+                </td>
+                <td className="space-x-3 px-4 py-3 text-right">
+                  {renderActions?.(offer)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
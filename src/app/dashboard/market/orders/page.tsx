@@ -1,53 +1,267 @@
 "use client";
 
+import { useState } from "react";
+import {
+  useMarketOverview,
+  usePlayerOrders,
+  usePlaceOrder,
+  useCancelOrder,
+  type MarketOrder,
+  type OrderStatusFilter,
+} from "@/hooks/use-market";
+import { useUIStore } from "@/stores/ui-store";
+import { GAME_CONSTANTS } from "@/lib/utils";
+
+const TRADEABLE_RESOURCES = GAME_CONSTANTS.RESOURCE_TYPES.filter(
+  (r) => r !== "LUNAR",
+);
+
+const FILTERS: Array<{ key: OrderStatusFilter; label: string }> = [
+  { key: "open", label: "Open" },
+  { key: "filled", label: "Filled" },
+  { key: "cancelled", label: "Cancelled" },
+  { key: "all", label: "All" },
+];
+
+const STATUS_STYLES: Record<MarketOrder["status"], string> = {
+  OPEN: "bg-amber-500/10 text-amber-400",
+  PARTIAL: "bg-cyan-500/10 text-cyan-400",
+  FILLED: "bg-emerald-500/10 text-emerald-400",
+  CANCELLED: "bg-slate-500/10 text-slate-400",
+};
+
 export default function OrdersPage() {
+  const { data: market } = useMarketOverview();
+  const [filter, setFilter] = useState<OrderStatusFilter>("open");
+  const { data: orders, isLoading } = usePlayerOrders(filter);
+  const placeOrder = usePlaceOrder();
+  const cancelOrder = useCancelOrder();
+  const addToast = useUIStore((s) => s.addToast);
+
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [resource, setResource] = useState(
+    TRADEABLE_RESOURCES[0] ?? "REGOLITH",
+  );
+  const [quantity, setQuantity] = useState("");
+  const [limitPrice, setLimitPrice] = useState("");
+
+  const marketPrice =
+    market?.resources?.find((r: { type: string }) => r.type === resource)
+      ?.currentPrice ?? 0;
+
+  const handlePlace = async () => {
+    try {
+      await placeOrder.mutateAsync({
+        side,
+        resource,
+        quantity: Number(quantity),
+        limitPrice: Number(limitPrice),
+      });
+      addToast({
+        type: "success",
+        title: `${side === "buy" ? "Buy" : "Sell"} order placed`,
+        message: `${quantity} ${resource.replace(/_/g, " ")} @ ${limitPrice} $L — matched on the next market tick`,
+        icon: "📋",
+      });
+      setQuantity("");
+      setLimitPrice("");
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Order failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  const handleCancel = async (orderId: string) => {
+    try {
+      await cancelOrder.mutateAsync(orderId);
+      addToast({
+        type: "success",
+        title: "Order cancelled",
+        message: "Escrowed funds have been returned",
+        icon: "↩️",
+      });
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Cancel failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  const canPlace =
+    !placeOrder.isPending && Number(quantity) > 0 && Number(limitPrice) > 0;
+
   return (
     <div className="flex flex-col gap-6">
       <div>
-        <h2 className="text-lg font-bold text-white">📋 Open Orders</h2>
+        <h2 className="text-lg font-bold text-white">📋 Limit Orders</h2>
         <p className="text-sm text-slate-400">
-          Track and manage your active market orders.
+          Rest orders on the book — they fill against other players or house
+          liquidity each market tick. Funds are held in escrow until filled or
+          cancelled.
         </p>
       </div>
 
+      {/* New order form */}
+      <div className="rounded-xl border border-slate-800/60 bg-slate-900/50 p-4">
+        <div className="grid gap-3 sm:grid-cols-5">
+          <select
+            value={side}
+            onChange={(e) => setSide(e.target.value as "buy" | "sell")}
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white"
+          >
+            <option value="buy">Buy</option>
+            <option value="sell">Sell</option>
+          </select>
+          <select
+            value={resource}
+            onChange={(e) => setResource(e.target.value as typeof resource)}
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white"
+          >
+            {TRADEABLE_RESOURCES.map((r) => (
+              <option key={r} value={r}>
+                {r.replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            placeholder="Quantity"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            min="1"
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white placeholder:text-slate-500"
+          />
+          <input
+            type="number"
+            placeholder={`Limit (mkt ${marketPrice.toFixed(2)})`}
+            value={limitPrice}
+            onChange={(e) => setLimitPrice(e.target.value)}
+            min="0"
+            step="0.0001"
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-white placeholder:text-slate-500"
+          />
+          <button
+            onClick={handlePlace}
+            disabled={!canPlace}
+            className={`rounded-lg py-2 text-sm font-medium transition disabled:opacity-40 disabled:cursor-not-allowed ${
+              side === "buy"
+                ? "bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30"
+                : "bg-rose-500/20 text-rose-400 hover:bg-rose-500/30"
+            }`}
+          >
+            {placeOrder.isPending ? "Placing…" : "Place Order"}
+          </button>
+        </div>
+        {quantity && limitPrice && (
+          <p className="mt-2 text-xs text-slate-400">
+            {side === "buy"
+              ? `Reserves ${(Number(quantity) * Number(limitPrice)).toFixed(2)} $LUNAR`
+              : `Reserves ${quantity} ${resource.replace(/_/g, " ")}`}
+          </p>
+        )}
+      </div>
+
+      {/* Status filter */}
+      <div className="flex gap-2">
+        {FILTERS.map((f) => (
+          <button
+            key={f.key}
+            onClick={() => setFilter(f.key)}
+            className={`rounded-full px-3 py-1 text-xs font-medium transition ${
+              filter === f.key
+                ? "bg-cyan-500/20 text-cyan-400"
+                : "bg-slate-800/50 text-slate-400 hover:text-white"
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
       <div className="rounded-xl border border-slate-800/60 bg-slate-900/50 overflow-hidden">
         <table className="w-full text-sm">
           <thead>
             <tr className="border-b border-slate-800/40 text-left text-xs text-slate-500">
               <th className="px-4 py-3">Type</th>
               <th className="px-4 py-3">Resource</th>
-              <th className="px-4 py-3">Amount</th>
-              <th className="px-4 py-3">Price</th>
+              <th className="px-4 py-3">Filled / Amount</th>
+              <th className="px-4 py-3">Limit</th>
+              <th className="px-4 py-3">Avg. Fill</th>
               <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3" />
             </tr>
           </thead>
           <tbody className="text-slate-300">
-            <tr className="border-b border-slate-800/20">
-              <td className="px-4 py-3">
-                <span className="text-emerald-400">Buy</span>
-              </td>
-              <td className="px-4 py-3">Helium-3</td>
-              <td className="px-4 py-3">100</td>
-              <td className="px-4 py-3">12.5 🌙</td>
-              <td className="px-4 py-3">
-                <span className="rounded-full bg-amber-500/10 px-2 py-0.5 text-xs text-amber-400">
-                  Pending
-                </span>
-              </td>
-            </tr>
-            <tr>
-              <td className="px-4 py-3">
-                <span className="text-rose-400">Sell</span>
-              </td>
-              <td className="px-4 py-3">Iron Ore</td>
-              <td className="px-4 py-3">250</td>
-              <td className="px-4 py-3">8.2 🌙</td>
-              <td className="px-4 py-3">
-                <span className="rounded-full bg-amber-500/10 px-2 py-0.5 text-xs text-amber-400">
-                  Pending
-                </span>
-              </td>
-            </tr>
+            {isLoading && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-slate-500">
+                  Loading orders…
+                </td>
+              </tr>
+            )}
+            {!isLoading && (orders?.length ?? 0) === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-slate-500">
+                  No orders yet.
+                </td>
+              </tr>
+            )}
+            {orders?.map((order) => (
+              <tr key={order.id} className="border-b border-slate-800/20">
+                <td className="px-4 py-3">
+                  <span
+                    className={
+                      order.side === "BUY"
+                        ? "text-emerald-400"
+                        : "text-rose-400"
+                    }
+                  >
+                    {order.side === "BUY" ? "Buy" : "Sell"}
+                  </span>
+                </td>
+                <td className="px-4 py-3">
+                  {order.resource.replace(/_/g, " ")}
+                </td>
+                <td className="px-4 py-3 tabular-nums">
+                  {order.filledQuantity.toLocaleString()} /{" "}
+                  {order.quantity.toLocaleString()}
+                </td>
+                <td className="px-4 py-3 tabular-nums">
+                  {order.limitPrice.toFixed(2)} 🌙
+                </td>
+                <td className="px-4 py-3 tabular-nums">
+                  {order.avgFillPrice != null
+                    ? `${order.avgFillPrice.toFixed(2)} 🌙`
+                    : "—"}
+                </td>
+                <td className="px-4 py-3">
+                  <span
+                    className={`rounded-full px-2 py-0.5 text-xs ${STATUS_STYLES[order.status]}`}
+                  >
+                    {order.status.charAt(0) +
+                      order.status.slice(1).toLowerCase()}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {(order.status === "OPEN" || order.status === "PARTIAL") && (
+                    <button
+                      onClick={() => handleCancel(order.id)}
+                      disabled={cancelOrder.isPending}
+                      className="text-xs text-slate-400 hover:text-rose-400 disabled:opacity-40"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
           </tbody>
         </table>
       </div>
@@ -25,6 +25,7 @@ import { useColony } from "@/hooks/use-colony";
 import { useUIStore } from "@/stores/ui-store";
 import { useGameStore } from "@/stores/game-store";
 import { MarketDepthViz } from "@/components/visualizations/market-depth";
+import { ShareButton } from "@/components/dashboard/share-button";
 
 import { TrendArrow } from "@/components/visualizations/status-indicators";
 import {
@@ -106,6 +107,7 @@ export default function MarketPage() {
   // Trade form state
   const [side, setSide] = useState<"buy" | "sell">("buy");
   const [quantity, setQuantity] = useState("");
+  const [sharedTradeId, setSharedTradeId] = useState<string | null>(null);
 
   const handleSelect = useCallback(
     (res: string) => {
@@ -163,7 +165,12 @@ export default function MarketPage() {
   const handleTrade = async () => {
     if (!qty || qty <= 0) return;
     try {
-      await trade.mutateAsync({ resource: selected, side, quantity: qty });
+      const result = await trade.mutateAsync({
+        resource: selected,
+        side,
+        quantity: qty,
+      });
+      setSharedTradeId(result.success ? (result.transactionId ?? null) : null);
       addToast({
         type: "success",
         title: `${side === "buy" ? "Bought" : "Sold"} ${qty} ${selected}`,
@@ -391,6 +398,15 @@ export default function MarketPage() {
           <div className="mt-3 text-center text-xs text-slate-500">
             Balance: {Math.floor(colony?.lunarBalance ?? 0)} $LUNAR
           </div>
+          {sharedTradeId && (
+            <div className="mt-2 text-center">
+              <ShareButton
+                kind="trade"
+                subjectId={sharedTradeId}
+                label="📣 Share last trade"
+              />
+            </div>
+          )}
         </div>
       </div>
 
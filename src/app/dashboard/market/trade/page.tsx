@@ -1,8 +1,13 @@
 "use client";
 
 import { useState } from "react";
-import { useMarketOverview, useExecuteTrade } from "@/hooks/use-market";
+import {
+  useMarketOverview,
+  useExecuteTrade,
+  type TradeResult,
+} from "@/hooks/use-market";
 import { useUIStore } from "@/stores/ui-store";
+import { ShareButton } from "@/components/dashboard/share-button";
 import { GAME_CONSTANTS } from "@/lib/utils";
 
 const TRADEABLE_RESOURCES = GAME_CONSTANTS.RESOURCE_TYPES.filter(
@@ -22,6 +27,7 @@ export default function TradePage() {
   );
   const [buyAmount, setBuyAmount] = useState("");
   const [sellAmount, setSellAmount] = useState("");
+  const [lastTrade, setLastTrade] = useState<TradeResult | null>(null);
 
   const getPrice = (resource: string) => {
     return (
@@ -37,10 +43,13 @@ export default function TradePage() {
   ) => {
     try {
       const result = await trade.mutateAsync({ side, resource, quantity });
+      if (result.success) setLastTrade(result);
       addToast({
         type: "success",
         title: `${side === "buy" ? "Bought" : "Sold"} ${quantity} ${resource.replace(/_/g, " ")}`,
-        message: `Total: ${result.totalCost?.toLocaleString() ?? "—"} $LUNAR`,
+        message: `Total: ${result.totalCost?.toLocaleString() ?? "—"} $LUNAR${
+          result.fee ? ` · Fee: ${result.fee.toLocaleString()} $LUNAR` : ""
+        }`,
         icon: side === "buy" ? "🛒" : "💰",
       });
       if (side === "buy") setBuyAmount("");
@@ -156,6 +165,30 @@ export default function TradePage() {
           </div>
         </div>
       </div>
+
+      {/* Last trade result */}
+      {lastTrade && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-900/50 p-4">
+          <div>
+            <div className="text-sm font-semibold text-white">
+              {lastTrade.side === "buy" ? "🛒 Bought" : "💰 Sold"}{" "}
+              {lastTrade.filledQuantity} {lastTrade.resource.replace(/_/g, " ")}
+            </div>
+            <div className="text-xs text-slate-400">
+              Avg {lastTrade.avgPrice.toFixed(4)} $L · Total{" "}
+              {Math.abs(lastTrade.totalCost).toLocaleString()} $LUNAR · Slippage{" "}
+              {lastTrade.slippage}%
+            </div>
+          </div>
+          {lastTrade.transactionId && (
+            <ShareButton
+              kind="trade"
+              subjectId={lastTrade.transactionId}
+              label="📣 Share trade"
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -43,6 +43,7 @@ export default function ProductionHistoryPage() {
                 <th className="px-4 py-3 font-medium">Resource</th>
                 <th className="px-4 py-3 font-medium text-right">Produced</th>
                 <th className="px-4 py-3 font-medium text-right">Collected</th>
+                <th className="px-4 py-3 font-medium text-right">Consumed</th>
                 <th className="px-4 py-3 font-medium text-right">
                   Active Modules
                 </th>
@@ -69,6 +70,9 @@ export default function ProductionHistoryPage() {
                   <td className="px-4 py-2 text-right tabular-nums text-cyan-400">
                     {entry.totalCollected.toLocaleString()}
                   </td>
+                  <td className="px-4 py-2 text-right tabular-nums text-amber-400">
+                    {Number(entry.totalConsumed).toLocaleString()}
+                  </td>
                   <td className="px-4 py-2 text-right tabular-nums text-white">
                     {entry.activeModules}
                   </td>
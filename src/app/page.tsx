@@ -74,13 +74,15 @@ export default function Home() {
           >
             🚀 Play on Farcaster
           </a>
-          <Link
-            href={`/dashboard?fid=${DEMO_FID}`}
-            className="rounded-full border border-indigo-600 px-8 py-4 text-lg font-semibold transition active:scale-95 hover:bg-indigo-900/50"
-            style={{ minWidth: 60, minHeight: 60 }}
-          >
-            👀 Play Demo Colony
-          </Link>
+          {process.env.NODE_ENV !== "production" && (
+            <Link
+              href="/dashboard"
+              className="rounded-full border border-indigo-600 px-8 py-4 text-lg font-semibold transition active:scale-95 hover:bg-indigo-900/50"
+              style={{ minWidth: 60, minHeight: 60 }}
+            >
+              👀 Play Demo Colony (FID {DEMO_FID})
+            </Link>
+          )}
         </div>
 
         {/* Stats Preview */}
@@ -0,0 +1,89 @@
+import type { Metadata } from "next";
+import { cache } from "react";
+import { notFound } from "next/navigation";
+import { getReferrerByCode, referralLaunchUrl } from "@/lib/referrals";
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+// generateMetadata and the page both read the referrer for one request
+const loadReferrer = cache(getReferrerByCode);
+
+function referrerName(referrer: { fid: number; username: string | null }) {
+  return referrer.username ?? `FID ${referrer.fid}`;
+}
+
+/**
+ * Referral landing page: /r/[code]
+ * The link players hand out. Its Mini App embed opens the dashboard with
+ * `ref=<code>`, so a new player who signs in is attributed to the referrer.
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}): Promise<Metadata> {
+  const { code } = await params;
+  const referrer = await loadReferrer(code);
+  if (!referrer) return {};
+
+  const title = `${referrerName(referrer)} invited you to Lunar Colony Tycoon`;
+  const description =
+    "Build a colony on the Moon, trade resources and join an alliance.";
+  const imageUrl = `${appUrl}/api/frames/image?screen=landing`;
+  const embed = {
+    version: "1",
+    imageUrl,
+    button: {
+      title: "🚀 Join the colony",
+      action: {
+        type: "launch_miniapp",
+        name: "Lunar Colony Tycoon",
+        url: referralLaunchUrl(code),
+        splashImageUrl: `${appUrl}/splash.png`,
+        splashBackgroundColor: "#0a0a1a",
+      },
+    },
+  };
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, images: [imageUrl] },
+    other: {
+      "fc:miniapp": JSON.stringify(embed),
+      "fc:frame": JSON.stringify(embed),
+    },
+  };
+}
+
+export default async function ReferralPage({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = await params;
+  const referrer = await loadReferrer(code);
+  if (!referrer) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-950 via-indigo-950 to-slate-950 text-white">
+      <div className="mx-auto max-w-2xl px-4 py-12 text-center">
+        <div className="mb-4 text-6xl">🌙</div>
+        <h1 className="text-3xl font-bold">
+          {referrerName(referrer)} invited you to Lunar Colony Tycoon
+        </h1>
+        <p className="mt-2 text-indigo-300">
+          Build a colony on the Moon, trade resources and join an alliance.
+        </p>
+        <a
+          href={referralLaunchUrl(code)}
+          className="mt-8 inline-block rounded-xl bg-indigo-600 px-6 py-3 font-semibold text-white transition hover:bg-indigo-500"
+        >
+          🚀 Join the colony
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * GET /share/[id]/image
+ *
+ * The OG image for a share snapshot, rendered by the design-system
+ * templates from the query frozen when the snapshot was created. The
+ * snapshot never changes, so the image is cached as immutable.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { generateFrameImage } from "@/lib/frame-images";
+import { wrapImageResponse } from "@/lib/design";
+import { getShareSnapshot } from "@/lib/share";
+import { GameMetrics } from "@/lib/metrics";
+
+const IMMUTABLE_CACHE_HEADERS = {
+  "Cache-Control": "public, max-age=31536000, immutable",
+  "CDN-Cache-Control": "public, max-age=31536000, immutable",
+} as const;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const snapshot = await getShareSnapshot(id);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Share not found" }, { status: 404 });
+    }
+
+    const image = generateFrameImage(new URLSearchParams(snapshot.imageParams));
+    const wrapped = await wrapImageResponse(image, req);
+    for (const [k, v] of Object.entries(IMMUTABLE_CACHE_HEADERS)) {
+      wrapped.headers.set(k, v);
+    }
+    return wrapped;
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      route: "/share/[id]/image",
+      context: "share_image",
+    });
+    return NextResponse.json(
+      { error: "Failed to generate image" },
+      { status: 500 },
+    );
+  }
+}
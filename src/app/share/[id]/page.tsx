@@ -0,0 +1,117 @@
+import type { Metadata } from "next";
+import { cache } from "react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+  getShareSnapshot,
+  recordShareView,
+  shareImageUrl,
+  shareLaunchUrl,
+  type ShareKind,
+} from "@/lib/share";
+
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+const BUTTON_TITLES: Record<ShareKind, string> = {
+  colony: "🚀 Build yours",
+  achievement: "🏆 Play Now",
+  trade: "📈 Start Trading",
+};
+
+// generateMetadata and the page both read the snapshot for one request
+const loadSnapshot = cache(getShareSnapshot);
+
+/**
+ * Public share page: /share/[id]
+ * The embed in a shared cast. Its metadata carries the frozen snapshot
+ * image and a Mini App launch button attributed to the sharer.
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}): Promise<Metadata> {
+  const { id } = await params;
+  const snapshot = await loadSnapshot(id);
+  if (!snapshot) return {};
+
+  const imageUrl = shareImageUrl(snapshot.id);
+  const embed = {
+    version: "1",
+    imageUrl,
+    button: {
+      title: BUTTON_TITLES[snapshot.kind],
+      action: {
+        type: "launch_miniapp",
+        name: "Lunar Colony Tycoon",
+        url: shareLaunchUrl(snapshot),
+        splashImageUrl: `${appUrl}/splash.png`,
+        splashBackgroundColor: "#0a0a1a",
+      },
+    },
+  };
+
+  return {
+    title: `${snapshot.title} · Lunar Colony Tycoon`,
+    description: snapshot.description,
+    openGraph: {
+      title: snapshot.title,
+      description: snapshot.description,
+      images: [imageUrl],
+    },
+    other: {
+      "fc:miniapp": JSON.stringify(embed),
+      "fc:frame": JSON.stringify(embed),
+    },
+  };
+}
+
+export default async function SharePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const snapshot = await loadSnapshot(id);
+  if (!snapshot) {
+    notFound();
+  }
+
+  // Visit counter — never blocks the page
+  recordShareView(snapshot.id).catch(() => {});
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-950 via-indigo-950 to-slate-950 text-white">
+      <div className="mx-auto max-w-2xl px-4 py-12">
+        <div className="mb-6 text-center">
+          <h1 className="text-3xl font-bold">{snapshot.title}</h1>
+          <p className="mt-2 text-indigo-300">{snapshot.description}</p>
+        </div>
+
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={shareImageUrl(snapshot.id)}
+          alt={snapshot.title}
+          width={955}
+          height={500}
+          className="w-full rounded-xl border border-indigo-800"
+        />
+
+        <div className="mt-8 flex flex-col items-center gap-3 text-center">
+          <a
+            href={shareLaunchUrl(snapshot)}
+            className="rounded-xl bg-indigo-600 px-6 py-3 font-semibold text-white transition hover:bg-indigo-500"
+          >
+            {BUTTON_TITLES[snapshot.kind]}
+          </a>
+          <Link
+            href={`/${snapshot.fid}`}
+            className="text-sm text-slate-400 hover:text-slate-200"
+          >
+            View {snapshot.username ?? `FID ${snapshot.fid}`}&apos;s colony
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
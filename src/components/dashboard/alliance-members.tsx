@@ -0,0 +1,426 @@
+"use client";
+
+import { useState } from "react";
+import {
+  useAllianceInvites,
+  useAllianceMembership,
+  type AllianceData,
+  type AllianceJoinMode,
+  type AllianceMembershipAction,
+  type AlliancePermission,
+  type AllianceRole,
+} from "@/hooks/use-alliance";
+import { useUIStore } from "@/stores/ui-store";
+
+const ROLE_ICON: Record<AllianceRole, string> = {
+  LEADER: "👑",
+  OFFICER: "⭐",
+  MEMBER: "👤",
+};
+
+const ROLE_RANK: Record<AllianceRole, number> = {
+  LEADER: 3,
+  OFFICER: 2,
+  MEMBER: 1,
+};
+
+const JOIN_MODES: Array<{ mode: AllianceJoinMode; label: string }> = [
+  { mode: "OPEN", label: "Open" },
+  { mode: "APPROVAL", label: "Approval" },
+  { mode: "INVITE_ONLY", label: "Invite only" },
+];
+
+/** Runs a membership action with success / error toasts. */
+function useMembershipRunner() {
+  const membership = useAllianceMembership();
+  const addToast = useUIStore((s) => s.addToast);
+
+  const run = async (input: AllianceMembershipAction, success: string) => {
+    try {
+      await membership.mutateAsync(input);
+      addToast({ type: "success", title: success, icon: "🤝" });
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Action failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  return { run, isPending: membership.isPending };
+}
+
+/**
+ * Member roster with the caller's management actions (mirrors the
+ * game-engine permission matrix), plus join mode, invitations and pending
+ * join requests for officers and leaders.
+ */
+export function AllianceMembersPanel({ alliance }: { alliance: AllianceData }) {
+  const { run, isPending } = useMembershipRunner();
+  const [inviteFid, setInviteFid] = useState("");
+
+  const can = (permission: AlliancePermission) =>
+    alliance.permissions.includes(permission);
+  const outranks = (role: AllianceRole) =>
+    ROLE_RANK[alliance.myRole] > ROLE_RANK[role];
+
+  const invite = async () => {
+    const targetFid = Number(inviteFid);
+    if (!Number.isInteger(targetFid) || targetFid <= 0) return;
+    await run({ action: "alliance-invite", targetFid }, "Invite sent");
+    setInviteFid("");
+  };
+
+  const button =
+    "rounded-md px-2 py-1 text-[10px] font-semibold transition disabled:opacity-40";
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+        <h3 className="mb-3 text-sm font-semibold text-slate-300">
+          Alliance Members ({alliance.memberCount}/{alliance.maxMembers})
+        </h3>
+        <div className="space-y-1">
+          {alliance.members.map((m) => (
+            <div
+              key={m.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-slate-800/30 px-3 py-2"
+            >
+              <div className="flex items-center gap-2">
+                <span>{ROLE_ICON[m.role]}</span>
+                <div>
+                  <span className="text-sm font-medium text-white">
+                    {m.player.username ?? "Unknown"}
+                  </span>
+                  <span className="ml-2 text-[10px] text-slate-500">
+                    Lv.{m.player.level} · {m.role.toLowerCase()}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="text-right">
+                  <span className="block text-xs tabular-nums text-slate-400">
+                    {Number(m.player.totalEarnings).toLocaleString()} $L earned
+                  </span>
+                  <span className="block text-[10px] tabular-nums text-slate-500">
+                    {m.contributed.toLocaleString(undefined, {
+                      maximumFractionDigits: 0,
+                    })}{" "}
+                    $L contributed
+                  </span>
+                </div>
+                <div className="flex gap-1">
+                  {can("promote") && m.role === "MEMBER" && (
+                    <button
+                      onClick={() =>
+                        void run(
+                          {
+                            action: "alliance-promote",
+                            targetPlayerId: m.playerId,
+                          },
+                          "Promoted to officer",
+                        )
+                      }
+                      disabled={isPending}
+                      className={`${button} bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/30`}
+                    >
+                      Promote
+                    </button>
+                  )}
+                  {can("demote") && m.role === "OFFICER" && (
+                    <button
+                      onClick={() =>
+                        void run(
+                          {
+                            action: "alliance-demote",
+                            targetPlayerId: m.playerId,
+                          },
+                          "Demoted to member",
+                        )
+                      }
+                      disabled={isPending}
+                      className={`${button} bg-slate-700/40 text-slate-300 hover:bg-slate-700/60`}
+                    >
+                      Demote
+                    </button>
+                  )}
+                  {can("transfer_leadership") && m.role !== "LEADER" && (
+                    <button
+                      onClick={() => {
+                        if (
+                          !window.confirm(
+                            `Make ${m.player.username ?? "this member"} the leader? You will become an officer.`,
+                          )
+                        ) {
+                          return;
+                        }
+                        void run(
+                          {
+                            action: "alliance-transfer",
+                            targetPlayerId: m.playerId,
+                          },
+                          "Leadership transferred",
+                        );
+                      }}
+                      disabled={isPending}
+                      className={`${button} bg-amber-500/15 text-amber-300 hover:bg-amber-500/25`}
+                    >
+                      Make leader
+                    </button>
+                  )}
+                  {can("kick") && outranks(m.role) && (
+                    <button
+                      onClick={() =>
+                        void run(
+                          {
+                            action: "alliance-kick",
+                            targetPlayerId: m.playerId,
+                          },
+                          "Member removed",
+                        )
+                      }
+                      disabled={isPending}
+                      className={`${button} bg-red-600/10 text-red-400 hover:bg-red-600/20`}
+                    >
+                      Kick
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {(can("set_join_mode") || can("invite")) && (
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+          <h3 className="mb-3 text-sm font-semibold text-slate-300">
+            Recruitment
+          </h3>
+
+          {can("set_join_mode") && (
+            <div className="mb-3 flex gap-1 rounded-lg border border-slate-800 p-0.5">
+              {JOIN_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() =>
+                    void run(
+                      { action: "alliance-join-mode", joinMode: mode },
+                      `Join mode: ${label}`,
+                    )
+                  }
+                  disabled={isPending || alliance.joinMode === mode}
+                  className={`flex-1 rounded-md py-1.5 text-xs font-medium transition ${
+                    alliance.joinMode === mode
+                      ? "bg-slate-800 text-white"
+                      : "text-slate-500 hover:text-slate-300"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {can("invite") && (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="Farcaster ID to invite"
+                  value={inviteFid}
+                  onChange={(e) => setInviteFid(e.target.value)}
+                  className="flex-1 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white placeholder:text-slate-600 focus:border-cyan-500 focus:outline-none"
+                />
+                <button
+                  onClick={() => void invite()}
+                  disabled={!inviteFid || isPending}
+                  className="rounded-lg bg-cyan-600/20 px-3 py-2 text-xs font-semibold text-cyan-400 transition hover:bg-cyan-600/30 disabled:opacity-40"
+                >
+                  Invite
+                </button>
+              </div>
+              {alliance.invites.length > 0 && (
+                <p className="mt-2 text-[10px] text-slate-500">
+                  Invited:{" "}
+                  {alliance.invites
+                    .map((i) => i.player.username ?? `fid ${i.player.fid}`)
+                    .join(", ")}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {can("review_requests") && alliance.joinRequests.length > 0 && (
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+          <h3 className="mb-3 text-sm font-semibold text-slate-300">
+            Join Requests ({alliance.joinRequests.length})
+          </h3>
+          <div className="space-y-1">
+            {alliance.joinRequests.map((r) => (
+              <div
+                key={r.id}
+                className="flex items-center justify-between gap-2 rounded-lg bg-slate-800/30 px-3 py-2"
+              >
+                <div>
+                  <span className="text-sm font-medium text-white">
+                    {r.player.username ?? `fid ${r.player.fid}`}
+                  </span>
+                  <span className="ml-2 text-[10px] text-slate-500">
+                    Lv.{r.player.level}
+                  </span>
+                  {r.message && (
+                    <p className="text-xs text-slate-400">“{r.message}”</p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() =>
+                      void run(
+                        {
+                          action: "alliance-request-review",
+                          requestId: r.id,
+                          approve: true,
+                        },
+                        "Request approved",
+                      )
+                    }
+                    disabled={isPending}
+                    className={`${button} bg-emerald-600/20 text-emerald-400 hover:bg-emerald-600/30`}
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() =>
+                      void run(
+                        {
+                          action: "alliance-request-review",
+                          requestId: r.id,
+                          approve: false,
+                        },
+                        "Request rejected",
+                      )
+                    }
+                    disabled={isPending}
+                    className={`${button} bg-red-600/10 text-red-400 hover:bg-red-600/20`}
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * For players without an alliance: invitations they can accept or decline
+ * and their own pending join requests.
+ */
+export function AllianceInvitesPanel() {
+  const { data } = useAllianceInvites();
+  const { run, isPending } = useMembershipRunner();
+
+  if (!data || (data.invites.length === 0 && data.requests.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-2xl border border-cyan-500/20 bg-cyan-500/5 p-5">
+      {data.invites.length > 0 && (
+        <>
+          <h3 className="mb-3 text-sm font-semibold text-cyan-300">
+            Invitations
+          </h3>
+          <div className="mb-3 space-y-2">
+            {data.invites.map((i) => (
+              <div
+                key={i.id}
+                className="flex items-center justify-between rounded-lg border border-slate-800 bg-slate-800/30 px-3 py-2"
+              >
+                <span className="text-sm text-white">
+                  🏰 {i.alliance.name}
+                  <span className="ml-2 text-[10px] text-slate-500">
+                    {i.alliance.memberCount}/{i.alliance.maxMembers} members
+                  </span>
+                </span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() =>
+                      void run(
+                        {
+                          action: "alliance-invite-respond",
+                          inviteId: i.id,
+                          accept: true,
+                        },
+                        `Joined ${i.alliance.name}!`,
+                      )
+                    }
+                    disabled={isPending}
+                    className="rounded-lg bg-cyan-600/20 px-3 py-1.5 text-xs font-semibold text-cyan-400 transition hover:bg-cyan-600/30 disabled:opacity-40"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() =>
+                      void run(
+                        {
+                          action: "alliance-invite-respond",
+                          inviteId: i.id,
+                          accept: false,
+                        },
+                        "Invite declined",
+                      )
+                    }
+                    disabled={isPending}
+                    className="rounded-lg px-3 py-1.5 text-xs font-semibold text-slate-400 transition hover:text-slate-200 disabled:opacity-40"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {data.requests.length > 0 && (
+        <>
+          <h3 className="mb-2 text-sm font-semibold text-slate-300">
+            Pending requests
+          </h3>
+          <div className="space-y-1">
+            {data.requests.map((r) => (
+              <div
+                key={r.id}
+                className="flex items-center justify-between text-xs text-slate-400"
+              >
+                <span>⏳ {r.alliance.name}</span>
+                <button
+                  onClick={() =>
+                    void run(
+                      { action: "alliance-request-cancel", requestId: r.id },
+                      "Request withdrawn",
+                    )
+                  }
+                  disabled={isPending}
+                  className="text-slate-500 transition hover:text-red-400 disabled:opacity-40"
+                >
+                  Withdraw
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
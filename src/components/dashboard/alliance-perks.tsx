@@ -0,0 +1,127 @@
+"use client";
+
+import {
+  useAllianceProgression,
+  useUpgradeAlliancePerk,
+  type AlliancePerk,
+} from "@/hooks/use-alliance";
+import { useUIStore } from "@/stores/ui-store";
+
+/** "+6%" / "−20%" for a modifier multiplier. */
+function formatModifier(value: number): string {
+  const pct = Math.round((value - 1) * 100);
+  return pct >= 0 ? `+${pct}%` : `−${-pct}%`;
+}
+
+/**
+ * Alliance level with its XP bar, and the perk trees the leader buys from
+ * the treasury. Higher levels add member slots and unlock further ranks.
+ */
+export function AllianceLevelPanel() {
+  const { data } = useAllianceProgression();
+  const upgrade = useUpgradeAlliancePerk();
+  const addToast = useUIStore((s) => s.addToast);
+
+  if (!data) return null;
+
+  const buy = async (perk: AlliancePerk) => {
+    try {
+      const result = await upgrade.mutateAsync(perk.id);
+      addToast({
+        type: "success",
+        title: `${perk.name} rank ${result.rank}`,
+        message: result.levelsGained > 0 ? "Alliance levelled up!" : undefined,
+        icon: perk.icon,
+      });
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Upgrade failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  const percent =
+    data.xpForNextLevel === null
+      ? 100
+      : Math.min(100, (data.xpIntoLevel / data.xpForNextLevel) * 100);
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+      <div className="mb-1 flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">
+          Alliance Level {data.level}
+          {data.level >= data.maxLevel && " (max)"}
+        </h3>
+        <span className="text-[10px] tabular-nums text-slate-500">
+          {data.xpForNextLevel === null
+            ? `${data.xp.toLocaleString()} XP`
+            : `${data.xpIntoLevel.toLocaleString()} / ${data.xpForNextLevel.toLocaleString()} XP`}
+        </span>
+      </div>
+      <div className="mb-1 h-1.5 overflow-hidden rounded-full bg-slate-800">
+        <div
+          className="h-full rounded-full bg-cyan-500 transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="mb-4 text-[10px] text-slate-500">
+        {data.maxMembers} member slots · XP comes from members&apos; production
+        and treasury spending
+      </p>
+
+      <div className="grid gap-2 sm:grid-cols-3">
+        {data.perks.map((perk) => {
+          const locked = perk.next !== null && perk.next.level > data.level;
+          const affordable =
+            perk.next !== null && perk.next.cost <= data.treasury;
+          return (
+            <div
+              key={perk.id}
+              className="rounded-lg border border-slate-800 bg-slate-800/30 p-3"
+            >
+              <div className="mb-1 flex items-center justify-between">
+                <span className="text-sm font-medium text-white">
+                  {perk.icon} {perk.name}
+                </span>
+                <span className="text-[10px] text-slate-500">
+                  {perk.rank}/{perk.maxRank}
+                </span>
+              </div>
+              <p className="text-[10px] text-slate-400">{perk.description}</p>
+              <p className="mt-1 text-xs font-semibold text-emerald-400">
+                {perk.rank > 0 ? formatModifier(perk.current) : "—"}
+                {perk.next && (
+                  <span className="ml-1 font-normal text-slate-500">
+                    → {formatModifier(perk.next.value)}
+                  </span>
+                )}
+              </p>
+              {perk.next &&
+                (locked ? (
+                  <p className="mt-2 text-[10px] text-slate-500">
+                    🔒 Alliance level {perk.next.level}
+                  </p>
+                ) : data.canUpgrade ? (
+                  <button
+                    onClick={() => void buy(perk)}
+                    disabled={!affordable || upgrade.isPending}
+                    className="mt-2 w-full rounded-md bg-cyan-600/20 py-1 text-[10px] font-semibold text-cyan-400 transition hover:bg-cyan-600/30 disabled:opacity-40"
+                  >
+                    Upgrade · {perk.next.cost.toLocaleString()} $L
+                  </button>
+                ) : (
+                  <p className="mt-2 text-[10px] text-slate-500">
+                    Next rank: {perk.next.cost.toLocaleString()} $L from the
+                    treasury
+                  </p>
+                ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  useAllianceLeaderboard,
+  type AllianceRankMetric,
+} from "@/hooks/use-alliance";
+
+type Period = "DAILY" | "WEEKLY" | "ALLTIME";
+
+const METRICS: Array<{ metric: AllianceRankMetric; label: string }> = [
+  { metric: "PRODUCTION", label: "Production" },
+  { metric: "TREASURY", label: "Treasury" },
+  { metric: "TOURNAMENT_WINS", label: "Tournament wins" },
+];
+
+const PERIODS: Array<{ period: Period; label: string }> = [
+  { period: "DAILY", label: "24h" },
+  { period: "WEEKLY", label: "7d" },
+  { period: "ALLTIME", label: "All time" },
+];
+
+const MEDALS: Record<number, string> = { 1: "🥇", 2: "🥈", 3: "🥉" };
+
+/**
+ * Alliance rankings by production, treasury or tournament wins over a
+ * period, from the cron-built snapshot. Each row links to the alliance's
+ * public profile.
+ */
+export function AllianceRankingsPanel() {
+  const [metric, setMetric] = useState<AllianceRankMetric>("PRODUCTION");
+  const [period, setPeriod] = useState<Period>("WEEKLY");
+  const { data, isLoading } = useAllianceLeaderboard(period, metric);
+
+  const tab = (active: boolean) =>
+    `flex-1 rounded-md py-1.5 text-xs font-medium transition ${
+      active ? "bg-slate-800 text-white" : "text-slate-500 hover:text-slate-300"
+    }`;
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+      <h3 className="mb-3 text-sm font-semibold text-slate-300">
+        🏰 Alliance Rankings
+      </h3>
+
+      <div className="mb-2 flex gap-1 rounded-lg border border-slate-800 p-0.5">
+        {METRICS.map((m) => (
+          <button
+            key={m.metric}
+            onClick={() => setMetric(m.metric)}
+            className={tab(metric === m.metric)}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {metric !== "TREASURY" && (
+        <div className="mb-3 flex gap-1 rounded-lg border border-slate-800 p-0.5">
+          {PERIODS.map((p) => (
+            <button
+              key={p.period}
+              onClick={() => setPeriod(p.period)}
+              className={tab(period === p.period)}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse py-6 text-center text-sm text-slate-500">
+          Loading rankings…
+        </div>
+      ) : data && data.entries.length > 0 ? (
+        <div className="space-y-1">
+          {data.entries.map((entry, idx) => {
+            const isMine = entry.allianceId === data.myAllianceId;
+            return (
+              <Link
+                key={entry.allianceId}
+                href={`/alliance/${entry.allianceId}`}
+                className={`flex items-center justify-between rounded-lg px-3 py-2 transition hover:bg-slate-800/40 ${
+                  isMine
+                    ? "border border-cyan-500/20 bg-cyan-500/5"
+                    : idx % 2 === 0
+                      ? "bg-slate-800/20"
+                      : ""
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <span className="w-8 text-center text-sm font-bold tabular-nums text-slate-500">
+                    {MEDALS[entry.rank] ?? `#${entry.rank}`}
+                  </span>
+                  <span
+                    className={`text-sm font-medium ${isMine ? "text-cyan-400" : "text-white"}`}
+                  >
+                    {entry.name}
+                  </span>
+                  <span className="text-[10px] text-slate-500">
+                    Lv.{entry.level} · {entry.memberCount} members
+                  </span>
+                </div>
+                <span className="text-sm font-semibold tabular-nums text-white">
+                  {Math.floor(entry.value).toLocaleString()}
+                  {metric !== "TOURNAMENT_WINS" && " $L"}
+                </span>
+              </Link>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="py-6 text-center text-sm text-slate-500">
+          No alliance rankings yet.
+        </div>
+      )}
+
+      {data?.myAllianceRank && (
+        <div className="mt-3 border-t border-slate-800 pt-3 text-center text-sm text-slate-400">
+          Your alliance:{" "}
+          <span className="font-bold text-cyan-400">
+            #{data.myAllianceRank}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { useTreasuryMove, type AllianceTreasury } from "@/hooks/use-alliance";
+import { useUIStore } from "@/stores/ui-store";
+
+const RESOURCES = [
+  { type: "LUNAR", name: "$LUNAR", icon: "💰" },
+  { type: "REGOLITH", name: "Regolith", icon: "🪨" },
+  { type: "WATER_ICE", name: "Water Ice", icon: "🧊" },
+  { type: "HELIUM3", name: "Helium-3", icon: "⚛️" },
+  { type: "RARE_EARTH", name: "Rare Earth", icon: "💎" },
+];
+
+/**
+ * Alliance treasury holdings with deposit / withdraw controls. Withdrawals
+ * only render for roles with a daily allowance (officers and leaders).
+ */
+export function AllianceTreasuryPanel({
+  treasury,
+}: {
+  treasury: AllianceTreasury;
+}) {
+  const move = useTreasuryMove();
+  const addToast = useUIStore((s) => s.addToast);
+  const [resource, setResource] = useState("LUNAR");
+  const [quantity, setQuantity] = useState("");
+
+  const canWithdraw = treasury.withdrawLimit > 0;
+  const allowance = Math.max(
+    0,
+    Math.floor(treasury.withdrawLimit - treasury.withdrawnToday),
+  );
+  const amount = Number(quantity);
+  const valid = Number.isFinite(amount) && amount > 0;
+
+  const submit = async (direction: "deposit" | "withdraw") => {
+    if (!valid) return;
+    const name = RESOURCES.find((r) => r.type === resource)?.name ?? resource;
+    try {
+      await move.mutateAsync({ direction, resource, quantity: amount });
+      setQuantity("");
+      addToast({
+        type: "success",
+        title: direction === "deposit" ? "Deposited" : "Withdrawn",
+        message: `${amount} ${name}`,
+        icon: "🏦",
+      });
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: direction === "deposit" ? "Deposit failed" : "Withdraw failed",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+      <div className="mb-3 flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">🏦 Treasury</h3>
+        <span className="text-[10px] text-slate-500">
+          Dividend pool: {treasury.dividendPool.toLocaleString()} $L
+        </span>
+      </div>
+
+      <div className="mb-4 grid grid-cols-2 gap-2 sm:grid-cols-5">
+        {RESOURCES.map((r) => {
+          const held =
+            r.type === "LUNAR"
+              ? treasury.lunar
+              : (treasury.resources[r.type] ?? 0);
+          return (
+            <div
+              key={r.type}
+              className="rounded-lg border border-slate-800 bg-slate-800/30 px-2 py-1.5"
+            >
+              <div className="text-[10px] text-slate-500">
+                {r.icon} {r.name}
+              </div>
+              <div className="text-sm font-semibold text-white">
+                {held.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={resource}
+          onChange={(e) => setResource(e.target.value)}
+          aria-label="Treasury resource"
+          className="rounded-lg border border-slate-700 bg-slate-800 px-2 py-1.5 text-xs text-slate-300"
+        >
+          {RESOURCES.map((r) => (
+            <option key={r.type} value={r.type}>
+              {r.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          inputMode="decimal"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          placeholder="Qty"
+          aria-label="Treasury quantity"
+          className="w-24 min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-800 px-2 py-1.5 text-xs text-white focus:border-cyan-500 focus:outline-none"
+        />
+        <button
+          onClick={() => submit("deposit")}
+          disabled={move.isPending || !valid}
+          className="rounded-lg bg-emerald-600/20 px-3 py-1.5 text-xs font-semibold text-emerald-400 transition hover:bg-emerald-600/30 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Deposit
+        </button>
+        {canWithdraw && (
+          <button
+            onClick={() => submit("withdraw")}
+            disabled={move.isPending || !valid || allowance <= 0}
+            className="rounded-lg bg-amber-600/20 px-3 py-1.5 text-xs font-semibold text-amber-400 transition hover:bg-amber-600/30 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Withdraw
+          </button>
+        )}
+      </div>
+
+      <p className="mt-2 text-[10px] text-slate-500">
+        {canWithdraw
+          ? `${allowance.toLocaleString()} of ${treasury.withdrawLimit.toLocaleString()} $L withdrawal value left today.`
+          : "Deposits raise your share of alliance dividends. Officers and leaders manage withdrawals."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useEmergencyPurchase } from "@/hooks/use-colony";
+import { useUIStore } from "@/stores/ui-store";
+import type { EmergencyOffer } from "@/stores/game-store";
+
+const SHIELD_LABELS: Record<string, string> = {
+  SOLAR_PANEL_OUTPUT: "solar output",
+  POWER_DEPENDENT_MODULES: "powered modules",
+};
+
+/**
+ * Banner listing event emergency purchases (e.g. backup power cells during
+ * a Solar Flare). Buying one shields the colony from the listed penalties.
+ */
+export function EmergencyOffers({ offers }: { offers: EmergencyOffer[] }) {
+  const purchase = useEmergencyPurchase();
+  const addToast = useUIStore((s) => s.addToast);
+
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="mb-3 space-y-2 sm:mb-4">
+      {offers.map((offer) => {
+        const shields = offer.shields
+          .map((key) => SHIELD_LABELS[key] ?? key)
+          .join(" & ");
+        return (
+          <div
+            key={offer.eventId}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs sm:text-sm"
+          >
+            <span className="text-amber-200">
+              {offer.icon} {offer.eventName}
+              {shields && (
+                <span className="text-amber-400/80"> · protect {shields}</span>
+              )}
+            </span>
+            {offer.purchased ? (
+              <span className="font-semibold text-emerald-400">✓ Prepared</span>
+            ) : (
+              <button
+                onClick={async () => {
+                  try {
+                    await purchase.mutateAsync(offer.eventId);
+                    addToast({
+                      type: "success",
+                      title: "Colony prepared",
+                      message: `-${offer.cost} $LUNAR`,
+                      icon: offer.icon,
+                    });
+                  } catch (err) {
+                    addToast({
+                      type: "error",
+                      title: "Purchase failed",
+                      message:
+                        err instanceof Error ? err.message : "Unknown error",
+                      icon: "❌",
+                    });
+                  }
+                }}
+                disabled={purchase.isPending}
+                className="rounded-lg bg-amber-600/30 px-3 py-1.5 font-semibold text-amber-300 transition hover:bg-amber-600/40 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                {purchase.isPending
+                  ? "…"
+                  : `Emergency supplies · ${offer.cost} $LUNAR`}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
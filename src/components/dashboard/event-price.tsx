@@ -0,0 +1,62 @@
+"use client";
+
+import type { CostModifier } from "@/stores/game-store";
+
+/**
+ * A $LUNAR price that shows the list price struck through, plus the event
+ * responsible, when an active event changes the cost.
+ */
+export function EventPrice({
+  cost,
+  baseCost,
+  modifier,
+  suffix = "",
+}: {
+  cost: number;
+  baseCost: number;
+  modifier?: CostModifier;
+  suffix?: string;
+}) {
+  if (!modifier || modifier.multiplier === 1 || cost === baseCost) {
+    return (
+      <>
+        {cost.toLocaleString()}
+        {suffix}
+      </>
+    );
+  }
+
+  const discounted = cost < baseCost;
+  const pct = Math.round(Math.abs(1 - modifier.multiplier) * 100);
+
+  return (
+    <span
+      className="inline-flex items-center gap-1"
+      title={`${discounted ? "-" : "+"}${pct}% from ${modifier.events.join(", ")}`}
+    >
+      <span className="text-slate-500 line-through">
+        {baseCost.toLocaleString()}
+      </span>
+      <span className={discounted ? "text-emerald-400" : "text-amber-400"}>
+        {cost.toLocaleString()}
+        {suffix}
+      </span>
+    </span>
+  );
+}
+
+/** One-line note naming the events that change a cost. */
+export function EventCostNote({ modifier }: { modifier?: CostModifier }) {
+  if (!modifier || modifier.multiplier === 1) return null;
+  const discounted = modifier.multiplier < 1;
+  const pct = Math.round(Math.abs(1 - modifier.multiplier) * 100);
+
+  return (
+    <p
+      className={`text-xs ${discounted ? "text-emerald-400" : "text-amber-400"}`}
+    >
+      {discounted ? "🏷️" : "⚠️"} {modifier.events.join(" + ")}:{" "}
+      {discounted ? `${pct}% off` : `+${pct}%`}
+    </p>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useGameStore } from "@/stores/game-store";
+import { useUIStore } from "@/stores/ui-store";
+import { useFarcaster } from "@/components/farcaster-provider";
+
+type NotificationKind = "productionReady" | "eventStart" | "priceAlert";
+
+interface NotificationSettingsData {
+  preferences: Record<NotificationKind, boolean>;
+  enabled: boolean;
+}
+
+const KINDS: Array<{ kind: NotificationKind; label: string; hint: string }> = [
+  {
+    kind: "productionReady",
+    label: "⚡ Production ready",
+    hint: "Daily output credited to your colony",
+  },
+  {
+    kind: "eventStart",
+    label: "🎮 Event start",
+    hint: "A colony-wide event goes live",
+  },
+  {
+    kind: "priceAlert",
+    label: "📈 Price alerts",
+    hint: "A resource moves 10%+ in one market tick",
+  },
+];
+
+function useNotificationSettings() {
+  const fid = useGameStore((s) => s.fid);
+
+  return useQuery<NotificationSettingsData>({
+    queryKey: ["notifications", fid],
+    queryFn: async () => {
+      const res = await fetch(`/api/dashboard/${fid}/notifications`);
+      if (!res.ok) throw new Error("Failed to fetch notification settings");
+      return res.json();
+    },
+    enabled: !!fid,
+    staleTime: 60_000,
+  });
+}
+
+function useUpdateNotificationSettings() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: Partial<Record<NotificationKind, boolean>>) => {
+      const res = await fetch(`/api/dashboard/${fid}/notifications`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Update failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["notifications", fid] });
+    },
+  });
+}
+
+/**
+ * Farcaster notification opt-ins. Inside a Farcaster client, players who
+ * haven't added the Mini App get a prompt to add it (which is how the
+ * client hands us a notification token).
+ */
+export function NotificationSettings() {
+  const { data, isLoading } = useNotificationSettings();
+  const update = useUpdateNotificationSettings();
+  const { isInMiniApp, added, addMiniApp } = useFarcaster();
+  const addToast = useUIStore((s) => s.addToast);
+  const qc = useQueryClient();
+
+  const handleAdd = async () => {
+    if (await addMiniApp()) {
+      addToast({ type: "success", title: "Notifications on", icon: "🔔" });
+      // The webhook stores the token shortly after the client confirms
+      setTimeout(
+        () => void qc.invalidateQueries({ queryKey: ["notifications"] }),
+        2_000,
+      );
+    }
+  };
+
+  const handleToggle = async (kind: NotificationKind, value: boolean) => {
+    try {
+      await update.mutateAsync({ [kind]: value });
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Couldn't update notifications",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-4">
+      <h3 className="mb-1 text-sm font-semibold text-slate-300">
+        Farcaster Notifications
+      </h3>
+      <p className="mb-3 text-xs text-slate-500">
+        {data?.enabled
+          ? "Sent to your Farcaster client. Choose what you hear about."
+          : "Add Lunar Colony in your Farcaster client to get notifications."}
+      </p>
+
+      {isInMiniApp && !added && !data?.enabled && (
+        <button
+          onClick={handleAdd}
+          className="mb-3 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-indigo-500"
+        >
+          🔔 Add app &amp; enable notifications
+        </button>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse text-sm text-slate-500">
+          Loading settings…
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {KINDS.map(({ kind, label, hint }) => (
+            <label
+              key={kind}
+              className="flex cursor-pointer items-center justify-between rounded-lg border border-slate-800 bg-slate-800/20 px-3 py-2"
+            >
+              <div>
+                <div className="text-sm font-medium text-white">{label}</div>
+                <div className="text-[10px] text-slate-500">{hint}</div>
+              </div>
+              <input
+                type="checkbox"
+                checked={data?.preferences[kind] ?? true}
+                disabled={update.isPending}
+                onChange={(e) => handleToggle(kind, e.target.checked)}
+                className="h-4 w-4 accent-indigo-500"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { useGameStore } from "@/stores/game-store";
+import { useUIStore } from "@/stores/ui-store";
+import { useFarcaster } from "@/components/farcaster-provider";
+
+type ShareKind = "colony" | "achievement" | "trade";
+
+interface ShareResponse {
+  shareId: string;
+  url: string;
+  text: string;
+  composeUrl: string;
+}
+
+function useCreateShare() {
+  const fid = useGameStore((s) => s.fid);
+
+  return useMutation({
+    mutationFn: async (input: {
+      kind: ShareKind;
+      subjectId?: string;
+    }): Promise<ShareResponse> => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "share", ...input }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Share failed");
+      }
+      return res.json();
+    },
+  });
+}
+
+/**
+ * Snapshot something and compose a cast embedding its /share/[id] page.
+ * Inside a Farcaster client this opens the native composer; elsewhere it
+ * opens the Warpcast compose intent in a new tab.
+ */
+export function ShareButton({
+  kind,
+  subjectId,
+  label = "📣 Share",
+  className,
+}: {
+  kind: ShareKind;
+  /** PlayerAchievement id or trade transaction id */
+  subjectId?: string;
+  label?: string;
+  className?: string;
+}) {
+  const share = useCreateShare();
+  const { composeCast } = useFarcaster();
+  const addToast = useUIStore((s) => s.addToast);
+
+  const handleShare = async () => {
+    try {
+      const result = await share.mutateAsync({ kind, subjectId });
+      if (!(await composeCast(result.text, result.url))) {
+        window.open(result.composeUrl, "_blank", "noopener,noreferrer");
+      }
+    } catch (err) {
+      addToast({
+        type: "error",
+        title: "Couldn't share",
+        message: err instanceof Error ? err.message : "Unknown error",
+        icon: "❌",
+      });
+    }
+  };
+
+  return (
+    <button
+      onClick={handleShare}
+      disabled={share.isPending}
+      className={
+        className ??
+        "rounded-lg bg-indigo-600/20 px-3 py-2 text-xs font-semibold text-indigo-300 transition hover:bg-indigo-600/30 disabled:cursor-not-allowed disabled:opacity-40"
+      }
+    >
+      {share.isPending ? "…" : label}
+    </button>
+  );
+}
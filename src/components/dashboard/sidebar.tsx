@@ -6,6 +6,7 @@ import { usePathname } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { useUIStore } from "@/stores/ui-store";
 import { useFeedback } from "@/hooks/use-feedback";
+import { useSignOut } from "@/hooks/use-session";
 import { ROUTE_MAP, type RouteNode } from "@/stores/navigation-store";
 
 export function Sidebar({ onOpenA11y }: { onOpenA11y?: () => void }) {
@@ -13,6 +14,7 @@ export function Sidebar({ onOpenA11y }: { onOpenA11y?: () => void }) {
   const collapsed = useUIStore((s) => s.sidebarCollapsed);
   const toggle = useUIStore((s) => s.toggleSidebar);
   const fb = useFeedback();
+  const signOut = useSignOut();
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(),
   );
@@ -207,6 +209,20 @@ export function Sidebar({ onOpenA11y }: { onOpenA11y?: () => void }) {
 
       {/* Bottom actions */}
       <div className="border-t border-slate-800/40">
+        {/* Sign out */}
+        <button
+          onClick={() => {
+            fb.click();
+            signOut.mutate();
+          }}
+          disabled={signOut.isPending}
+          aria-label="Sign out"
+          className="flex h-12 w-full items-center justify-center gap-2 text-slate-500 transition hover:text-slate-300 disabled:opacity-40 focus-visible:ring-2 focus-visible:ring-cyan-500 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-950"
+        >
+          <span aria-hidden="true">🚪</span>
+          {!collapsed && <span className="text-xs">Sign out</span>}
+        </button>
+
         {/* Accessibility settings button */}
         {onOpenA11y && (
           <button
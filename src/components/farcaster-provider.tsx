@@ -11,30 +11,77 @@ import {
 type FarcasterContext = {
   /** True once we know the app is running inside a Farcaster client. */
   isInMiniApp: boolean;
-  /** The user's FID if available from the SDK context. */
+  /**
+   * The user's FID once signed in — the SDK's Quick Auth token has been
+   * exchanged for a dashboard session cookie.
+   */
   fid: number | null;
   /** True while we're still detecting the environment. */
   loading: boolean;
+  /** True once the user has added the Mini App to their client. */
+  added: boolean;
+  /**
+   * Ask the client to add the Mini App, which also offers notifications.
+   * Resolves to whether it was added.
+   */
+  addMiniApp: () => Promise<boolean>;
+  /**
+   * Open the client's cast composer with suggested text and an embed.
+   * Resolves to false outside a Farcaster client, where callers fall back
+   * to a compose intent URL.
+   */
+  composeCast: (text: string, embedUrl: string) => Promise<boolean>;
 };
 
+type DetectedState = Omit<FarcasterContext, "addMiniApp" | "composeCast">;
+
 const FarcasterCtx = createContext<FarcasterContext>({
   isInMiniApp: false,
   fid: null,
   loading: true,
+  added: false,
+  addMiniApp: async () => false,
+  composeCast: async () => false,
 });
 
 export const useFarcaster = () => useContext(FarcasterCtx);
 
+/**
+ * Exchange a Quick Auth token for a session cookie.
+ * Returns the verified FID, or null if sign-in failed.
+ */
+async function signInWithQuickAuth(quickAuth: {
+  getToken: () => Promise<{ token: string }>;
+}): Promise<number | null> {
+  try {
+    const { token } = await quickAuth.getToken();
+    const res = await fetch("/api/auth/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    });
+    if (!res.ok) return null;
+    const { fid } = (await res.json()) as { fid: number };
+    return fid;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Initializes the Farcaster Mini App SDK.
- * Detects the Mini App environment, extracts user context,
- * and calls `sdk.actions.ready()` to hide the splash screen.
+ * Detects the Mini App environment, calls `sdk.actions.ready()` to hide the
+ * splash screen, then signs in with a Quick Auth token so dashboard API
+ * calls carry a session for the user's FID. Adding the app (addMiniApp)
+ * registers a notification token through our webhook; composeCast opens
+ * the client's composer for share casts.
  */
 export function FarcasterProvider({ children }: { children: React.ReactNode }) {
-  const [state, setState] = useState<FarcasterContext>({
+  const [state, setState] = useState<DetectedState>({
     isInMiniApp: false,
     fid: null,
     loading: true,
+    added: false,
   });
 
   const initMiniApp = useCallback(async () => {
@@ -45,27 +92,62 @@ export function FarcasterProvider({ children }: { children: React.ReactNode }) {
       const isMiniApp = await sdk.isInMiniApp();
 
       if (isMiniApp) {
-        const ctx = await sdk.context;
+        await sdk.actions.ready();
+        const context = await sdk.context;
         setState({
           isInMiniApp: true,
-          fid: ctx?.user?.fid ?? null,
+          fid: await signInWithQuickAuth(sdk.quickAuth),
           loading: false,
+          added: context.client.added,
         });
-        await sdk.actions.ready();
       } else {
-        setState({ isInMiniApp: false, fid: null, loading: false });
+        setState({
+          isInMiniApp: false,
+          fid: null,
+          loading: false,
+          added: false,
+        });
       }
     } catch {
       // Not in a Farcaster client
-      setState({ isInMiniApp: false, fid: null, loading: false });
+      setState({ isInMiniApp: false, fid: null, loading: false, added: false });
     }
   }, []);
 
+  const addMiniApp = useCallback(async () => {
+    try {
+      const { sdk } = await import("@farcaster/miniapp-sdk");
+      await sdk.actions.addMiniApp();
+      setState((s) => ({ ...s, added: true }));
+      return true;
+    } catch {
+      // Rejected by the user, or not in a Farcaster client
+      return false;
+    }
+  }, []);
+
+  const { isInMiniApp } = state;
+  const composeCast = useCallback(
+    async (text: string, embedUrl: string) => {
+      if (!isInMiniApp) return false;
+      try {
+        const { sdk } = await import("@farcaster/miniapp-sdk");
+        await sdk.actions.composeCast({ text, embeds: [embedUrl] });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    [isInMiniApp],
+  );
+
   useEffect(() => {
     initMiniApp();
   }, [initMiniApp]);
 
   return (
-    <FarcasterCtx.Provider value={state}>{children}</FarcasterCtx.Provider>
+    <FarcasterCtx.Provider value={{ ...state, addMiniApp, composeCast }}>
+      {children}
+    </FarcasterCtx.Provider>
   );
 }
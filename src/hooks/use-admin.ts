@@ -0,0 +1,258 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAdminStore } from "@/stores/admin-store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AdminConfigEntry {
+  key: string;
+  value: unknown;
+  defaultValue: unknown;
+  category: string;
+  description: string;
+  constraint: string;
+  isValid: boolean;
+  isOverridden: boolean;
+  version: number;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface AdminConfigChange {
+  key: string;
+  previous: unknown;
+  value: unknown;
+  version: number;
+  updatedBy: string;
+  changedAt: string;
+}
+
+export interface AdminEventDefinition {
+  type: string;
+  name: string;
+  icon: string;
+  category: string;
+  description: string;
+  durationMs: number;
+  isGlobal: boolean;
+  modifiers: Record<string, number>;
+}
+
+export interface AdminEvent {
+  id: string;
+  type: string;
+  name: string;
+  icon: string;
+  status: string;
+  startTime: string;
+  endTime: string;
+  participantCount: number;
+}
+
+export interface AdminPlayer {
+  id: string;
+  fid: number;
+  username: string | null;
+  level: number;
+  lunarBalance: number;
+  moduleCount: number;
+  lastActive: string;
+  suspendedAt: string | null;
+}
+
+export interface AdminPlayerDetail extends AdminPlayer {
+  resources: Array<{ type: string; amount: number }>;
+  recentTransactions: Array<{
+    id: string;
+    type: string;
+    resource: string;
+    amount: number;
+    balanceAfter: number;
+    description: string | null;
+    createdAt: string;
+  }>;
+}
+
+export type PlayerModerationRequest =
+  | { action: "adjust"; resource: string; amount: number; reason: string }
+  | { action: "suspend"; reason: string }
+  | { action: "restore" };
+
+// ---------------------------------------------------------------------------
+// Fetch helper — attaches the admin secret (the session cookie names the admin)
+// ---------------------------------------------------------------------------
+
+function useAdminFetch() {
+  const secret = useAdminStore((s) => s.secret);
+  const signOut = useAdminStore((s) => s.signOut);
+
+  return async function adminFetch<T>(
+    path: string,
+    init: RequestInit = {},
+  ): Promise<T> {
+    const res = await fetch(path, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${secret}`,
+        ...init.headers,
+      },
+    });
+    if (res.status === 401) {
+      signOut();
+      throw new Error("Admin credentials rejected");
+    }
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error ?? "Admin request failed");
+    return data;
+  };
+}
+
+function useIsSignedIn() {
+  return useAdminStore((s) => !!s.secret);
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export function useAdminConfig() {
+  const adminFetch = useAdminFetch();
+  return useQuery<{
+    entries: AdminConfigEntry[];
+    history: AdminConfigChange[];
+  }>({
+    queryKey: ["admin", "config"],
+    queryFn: () => adminFetch("/api/admin/config"),
+    enabled: useIsSignedIn(),
+    refetchInterval: false,
+  });
+}
+
+export function useUpdateConfig() {
+  const adminFetch = useAdminFetch();
+  const qc = useQueryClient();
+  return useMutation<
+    { success: boolean; entry: AdminConfigEntry },
+    Error,
+    { key: string; value: unknown; expectedVersion?: number }
+  >({
+    mutationFn: (body) =>
+      adminFetch("/api/admin/config", {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      }),
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: ["admin", "config"] });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+export function useAdminEvents() {
+  const adminFetch = useAdminFetch();
+  return useQuery<{
+    definitions: AdminEventDefinition[];
+    active: AdminEvent[];
+    recent: AdminEvent[];
+  }>({
+    queryKey: ["admin", "events"],
+    queryFn: () => adminFetch("/api/admin/events"),
+    enabled: useIsSignedIn(),
+    refetchInterval: 30_000,
+  });
+}
+
+export function useScheduleEvent() {
+  const adminFetch = useAdminFetch();
+  const qc = useQueryClient();
+  return useMutation<
+    { success: boolean },
+    Error,
+    {
+      type: string;
+      startTime?: string;
+      durationHours?: number;
+      targetFids?: number[];
+    }
+  >({
+    mutationFn: (body) =>
+      adminFetch("/api/admin/events", {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["admin", "events"] });
+    },
+  });
+}
+
+export function useCancelEvent() {
+  const adminFetch = useAdminFetch();
+  const qc = useQueryClient();
+  return useMutation<{ success: boolean }, Error, string>({
+    mutationFn: (eventId) =>
+      adminFetch(`/api/admin/events/${eventId}`, { method: "DELETE" }),
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["admin", "events"] });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Players
+// ---------------------------------------------------------------------------
+
+export function useAdminPlayerSearch(query: string) {
+  const adminFetch = useAdminFetch();
+  const signedIn = useIsSignedIn();
+  return useQuery<AdminPlayer[]>({
+    queryKey: ["admin", "players", query],
+    queryFn: async () => {
+      const data = await adminFetch<{ players: AdminPlayer[] }>(
+        `/api/admin/players?q=${encodeURIComponent(query)}`,
+      );
+      return data.players;
+    },
+    enabled: signedIn && query.trim().length > 0,
+    refetchInterval: false,
+  });
+}
+
+export function useAdminPlayer(fid: number | null) {
+  const adminFetch = useAdminFetch();
+  const signedIn = useIsSignedIn();
+  return useQuery<AdminPlayerDetail>({
+    queryKey: ["admin", "player", fid],
+    queryFn: async () => {
+      const data = await adminFetch<{ player: AdminPlayerDetail }>(
+        `/api/admin/players/${fid}`,
+      );
+      return data.player;
+    },
+    enabled: signedIn && fid !== null,
+    refetchInterval: false,
+  });
+}
+
+export function useModeratePlayer(fid: number | null) {
+  const adminFetch = useAdminFetch();
+  const qc = useQueryClient();
+  return useMutation<{ success: boolean }, Error, PlayerModerationRequest>({
+    mutationFn: (body) =>
+      adminFetch(`/api/admin/players/${fid}`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["admin", "player", fid] });
+      void qc.invalidateQueries({ queryKey: ["admin", "players"] });
+    },
+  });
+}
@@ -1,7 +1,14 @@
 "use client";
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+} from "@tanstack/react-query";
 import { useGameStore } from "@/stores/game-store";
+import { useSSE } from "@/hooks/use-realtime";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -11,6 +18,8 @@ export interface AllianceMemberData {
   id: string;
   playerId: string;
   role: "LEADER" | "OFFICER" | "MEMBER";
+  /** $LUNAR value deposited + skimmed — the member's dividend weight */
+  contributed: number;
   joinedAt: string;
   player: {
     username: string | null;
@@ -19,6 +28,23 @@ export interface AllianceMemberData {
   };
 }
 
+export type AllianceRole = "LEADER" | "OFFICER" | "MEMBER";
+export type AllianceJoinMode = "OPEN" | "APPROVAL" | "INVITE_ONLY";
+export type AlliancePermission =
+  | "invite"
+  | "review_requests"
+  | "kick"
+  | "promote"
+  | "demote"
+  | "transfer_leadership"
+  | "set_join_mode";
+
+interface PendingPlayer {
+  fid: number;
+  username: string | null;
+  level: number;
+}
+
 export interface AllianceData {
   id: string;
   name: string;
@@ -27,7 +53,173 @@ export interface AllianceData {
   totalLunar: number;
   memberCount: number;
   maxMembers: number;
+  joinMode: AllianceJoinMode;
+  myRole: AllianceRole;
+  permissions: AlliancePermission[];
   members: AllianceMemberData[];
+  treasury: AllianceTreasury | null;
+  /** Empty unless the caller may review requests */
+  joinRequests: Array<{
+    id: string;
+    message: string | null;
+    createdAt: string;
+    player: PendingPlayer;
+  }>;
+  /** Empty unless the caller may invite */
+  invites: Array<{ id: string; createdAt: string; player: PendingPlayer }>;
+}
+
+interface PendingAlliance {
+  id: string;
+  name: string;
+  memberCount: number;
+  maxMembers: number;
+}
+
+export interface AllianceInvites {
+  invites: Array<{ id: string; createdAt: string; alliance: PendingAlliance }>;
+  requests: Array<{
+    id: string;
+    message: string | null;
+    createdAt: string;
+    alliance: PendingAlliance;
+  }>;
+}
+
+export interface AllianceTreasury {
+  allianceId: string;
+  lunar: number;
+  dividendPool: number;
+  resources: Record<string, number>;
+  role: "LEADER" | "OFFICER" | "MEMBER";
+  /** Daily withdrawal cap in $LUNAR value (0 = may not withdraw) */
+  withdrawLimit: number;
+  withdrawnToday: number;
+}
+
+export interface AllianceChatMessage {
+  id: string;
+  playerId: string;
+  fid: number;
+  username: string | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface AllianceChatPage {
+  messages: AllianceChatMessage[];
+  /** Cursor for the next (older) page; null when history is exhausted */
+  nextCursor: string | null;
+  role: "LEADER" | "OFFICER" | "MEMBER";
+  canModerate: boolean;
+}
+
+export interface ProjectBlueprint {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  requirements: Record<string, number>;
+  modifiers: Record<string, number>;
+  rewardLunar: number;
+}
+
+export interface AllianceProject {
+  id: string;
+  blueprint: ProjectBlueprint;
+  status: "ACTIVE" | "COMPLETED";
+  progress: Record<string, number>;
+  percent: number;
+  contributors: number;
+  myContribution: number;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface AllianceProjects {
+  active: AllianceProject | null;
+  completed: AllianceProject[];
+  available: ProjectBlueprint[];
+  canStart: boolean;
+  /** Merged permanent production bonuses from completed projects */
+  bonuses: Record<string, number>;
+}
+
+export interface AlliancePerkRank {
+  level: number;
+  cost: number;
+  value: number;
+}
+
+export interface AlliancePerk {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  rank: number;
+  maxRank: number;
+  /** Modifier at the current rank (1 = none yet) */
+  current: number;
+  next: AlliancePerkRank | null;
+}
+
+export interface AllianceProgression {
+  level: number;
+  maxLevel: number;
+  xp: number;
+  xpIntoLevel: number;
+  /** null at max level */
+  xpForNextLevel: number | null;
+  maxMembers: number;
+  treasury: number;
+  canUpgrade: boolean;
+  perks: AlliancePerk[];
+}
+
+export interface TournamentStanding {
+  allianceId: string;
+  allianceName: string;
+  seed: number;
+  score: number;
+  /** Bracket: score gained in the current round */
+  roundScore: number;
+  rank: number | null;
+  eliminatedRound: number | null;
+  reward: number;
+}
+
+export interface TournamentSeason {
+  id: string;
+  number: number;
+  name: string;
+  format: "LEAGUE" | "BRACKET";
+  status: "PENDING" | "ACTIVE" | "COMPLETED" | "CANCELLED";
+  startTime: string;
+  endTime: string;
+  rounds: number;
+  currentRound: number;
+  roundEndsAt: string | null;
+  rewardPool: number;
+  standings: TournamentStanding[];
+  /** Current-round pairings; `b` is null for a bye */
+  matches: Array<{ round: number; a: string; b: string | null }>;
+}
+
+export interface TournamentOverview {
+  current: TournamentSeason | null;
+  myAllianceId: string | null;
+  archive: Array<{
+    number: number;
+    name: string;
+    format: "LEAGUE" | "BRACKET";
+    completedAt: string | null;
+    podium: Array<{
+      rank: number;
+      allianceName: string;
+      score: number;
+      reward: number;
+    }>;
+  }>;
 }
 
 export interface AllianceListItem {
@@ -37,6 +229,29 @@ export interface AllianceListItem {
   level: number;
   memberCount: number;
   maxMembers: number;
+  joinMode: AllianceJoinMode;
+  treasury: number;
+}
+
+export type AllianceSort = "members" | "level" | "treasury" | "newest" | "name";
+
+export type AllianceRankMetric = "TREASURY" | "PRODUCTION" | "TOURNAMENT_WINS";
+
+export interface AllianceLeaderboardEntry {
+  rank: number;
+  allianceId: string;
+  name: string;
+  value: number;
+  memberCount: number;
+  level: number;
+}
+
+export interface AllianceLeaderboard {
+  period: "DAILY" | "WEEKLY" | "ALLTIME";
+  metric: AllianceRankMetric;
+  entries: AllianceLeaderboardEntry[];
+  myAllianceId: string | null;
+  myAllianceRank: number | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -65,11 +280,17 @@ export function usePlayerAlliance() {
 // Browse alliances
 // ---------------------------------------------------------------------------
 
-export function useAllianceList() {
+export function useAllianceList(
+  filters: { query?: string; sort?: AllianceSort } = {},
+) {
+  const { query = "", sort = "members" } = filters;
+
   return useQuery<AllianceListItem[]>({
-    queryKey: ["alliances"],
+    queryKey: ["alliances", query, sort],
     queryFn: async () => {
-      const res = await fetch("/api/alliance/list");
+      const params = new URLSearchParams({ sort });
+      if (query) params.set("q", query);
+      const res = await fetch(`/api/alliance/list?${params}`);
       if (!res.ok) throw new Error("Failed to fetch alliances");
       const data = await res.json();
       return data.alliances ?? [];
@@ -78,6 +299,25 @@ export function useAllianceList() {
   });
 }
 
+export function useAllianceLeaderboard(
+  period: "DAILY" | "WEEKLY" | "ALLTIME" = "WEEKLY",
+  metric: AllianceRankMetric = "PRODUCTION",
+) {
+  const fid = useGameStore((s) => s.fid);
+
+  return useQuery<AllianceLeaderboard>({
+    queryKey: ["alliance-leaderboard", period, metric, fid],
+    queryFn: async () => {
+      const params = new URLSearchParams({ period, metric, limit: "20" });
+      if (fid) params.set("fid", String(fid));
+      const res = await fetch(`/api/alliance/leaderboard?${params}`);
+      if (!res.ok) throw new Error("Alliance leaderboard fetch failed");
+      return res.json();
+    },
+    staleTime: 120_000,
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Create alliance mutation
 // ---------------------------------------------------------------------------
@@ -169,3 +409,395 @@ export function useLeaveAlliance() {
     },
   });
 }
+
+// ---------------------------------------------------------------------------
+// Invitations + join requests
+// ---------------------------------------------------------------------------
+
+export function useAllianceInvites() {
+  const fid = useGameStore((s) => s.fid);
+
+  return useQuery<AllianceInvites>({
+    queryKey: ["alliance-invites", fid],
+    queryFn: async () => {
+      const res = await fetch(`/api/alliance/invites?fid=${fid}`);
+      if (!res.ok) throw new Error("Failed to fetch invites");
+      return res.json();
+    },
+    enabled: !!fid,
+    staleTime: 30_000,
+  });
+}
+
+/**
+ * Membership actions share one mutation: they all post to the action route
+ * and touch the same alliance, list and invite caches.
+ */
+export type AllianceMembershipAction =
+  | { action: "alliance-invite"; targetFid: number }
+  | { action: "alliance-invite-respond"; inviteId: string; accept: boolean }
+  | { action: "alliance-request"; allianceId: string; message?: string }
+  | { action: "alliance-request-cancel"; requestId: string }
+  | { action: "alliance-request-review"; requestId: string; approve: boolean }
+  | {
+      action:
+        | "alliance-kick"
+        | "alliance-promote"
+        | "alliance-demote"
+        | "alliance-transfer";
+      targetPlayerId: string;
+    }
+  | { action: "alliance-join-mode"; joinMode: AllianceJoinMode };
+
+export function useAllianceMembership() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AllianceMembershipAction) => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Action failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["alliance", fid] });
+      void qc.invalidateQueries({ queryKey: ["alliances"] });
+      void qc.invalidateQueries({ queryKey: ["alliance-invites", fid] });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Treasury deposit / withdraw mutation
+// ---------------------------------------------------------------------------
+
+export function useTreasuryMove() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      direction,
+      resource,
+      quantity,
+    }: {
+      direction: "deposit" | "withdraw";
+      resource: string;
+      quantity: number;
+    }): Promise<{ resource: string; quantity: number }> => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: `alliance-${direction}`,
+          resource,
+          quantity,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? `${direction} failed`);
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["alliance", fid] });
+      void qc.invalidateQueries({ queryKey: ["colony", fid] });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Alliance projects
+// ---------------------------------------------------------------------------
+
+export function useAllianceProjects() {
+  const fid = useGameStore((s) => s.fid);
+
+  return useQuery<AllianceProjects | null>({
+    queryKey: ["alliance-projects", fid],
+    queryFn: async () => {
+      const res = await fetch(`/api/alliance/projects?fid=${fid}`);
+      if (!res.ok) {
+        if (res.status === 404) return null;
+        throw new Error("Failed to fetch projects");
+      }
+      return res.json();
+    },
+    enabled: !!fid,
+    staleTime: 30_000,
+  });
+}
+
+export function useStartProject() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (blueprint: string) => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "alliance-project-start", blueprint }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Start failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["alliance-projects", fid] });
+    },
+  });
+}
+
+export function useContributeToProject() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      resource,
+      quantity,
+    }: {
+      resource: string;
+      quantity: number;
+    }): Promise<{
+      delivered: number;
+      completed: boolean;
+      rewardsPaid: number;
+    }> => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "alliance-project-contribute",
+          resource,
+          quantity,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Contribution failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["alliance-projects", fid] });
+      void qc.invalidateQueries({ queryKey: ["colony", fid] });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Alliance level + perks
+// ---------------------------------------------------------------------------
+
+export function useAllianceProgression() {
+  const fid = useGameStore((s) => s.fid);
+
+  return useQuery<AllianceProgression | null>({
+    queryKey: ["alliance-perks", fid],
+    queryFn: async () => {
+      const res = await fetch(`/api/alliance/perks?fid=${fid}`);
+      if (!res.ok) {
+        if (res.status === 404) return null;
+        throw new Error("Failed to fetch alliance perks");
+      }
+      return res.json();
+    },
+    enabled: !!fid,
+    staleTime: 30_000,
+  });
+}
+
+export function useUpgradeAlliancePerk() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      perk: string,
+    ): Promise<{ rank: number; levelsGained: number }> => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "alliance-perk-upgrade", perk }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Upgrade failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["alliance-perks", fid] });
+      void qc.invalidateQueries({ queryKey: ["alliance", fid] });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tournaments
+// ---------------------------------------------------------------------------
+
+export function useTournament() {
+  const fid = useGameStore((s) => s.fid);
+
+  return useQuery<TournamentOverview>({
+    queryKey: ["tournament", fid],
+    queryFn: async () => {
+      const res = await fetch(
+        fid
+          ? `/api/alliance/tournament?fid=${fid}`
+          : "/api/alliance/tournament",
+      );
+      if (!res.ok) throw new Error("Failed to fetch tournament");
+      return res.json();
+    },
+    staleTime: 60_000,
+  });
+}
+
+export function useTournamentSeason(number: number | null) {
+  return useQuery<TournamentSeason>({
+    queryKey: ["tournament-season", number],
+    queryFn: async () => {
+      const res = await fetch(`/api/alliance/tournament?season=${number}`);
+      if (!res.ok) throw new Error("Failed to fetch season");
+      return res.json();
+    },
+    enabled: number !== null,
+    staleTime: Infinity,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Alliance chat
+// ---------------------------------------------------------------------------
+
+type ChatData = InfiniteData<AllianceChatPage, string | null>;
+
+/** Remove messages from every cached chat page. */
+function dropMessages(data: ChatData | undefined, ids: string[]) {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      messages: page.messages.filter((m) => !ids.includes(m.id)),
+    })),
+  };
+}
+
+/** Append a message to the newest cached page (no-op if already present). */
+function appendMessage(data: ChatData | undefined, msg: AllianceChatMessage) {
+  if (!data || data.pages.length === 0) return data;
+  if (data.pages.some((p) => p.messages.some((m) => m.id === msg.id))) {
+    return data;
+  }
+  const [newest, ...older] = data.pages;
+  return {
+    ...data,
+    pages: [{ ...newest!, messages: [...newest!.messages, msg] }, ...older],
+  };
+}
+
+/**
+ * Alliance chat history, newest page first. `fetchNextPage()` loads older
+ * messages. While mounted, new messages and deletions are merged in from
+ * the /api/events/stream SSE feed.
+ */
+export function useAllianceMessages() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+  const queryKey = ["alliance-messages", fid];
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }): Promise<AllianceChatPage> => {
+      const params = new URLSearchParams({ fid: String(fid) });
+      if (pageParam) params.set("before", pageParam);
+      const res = await fetch(`/api/alliance/messages?${params}`);
+      if (!res.ok) throw new Error("Failed to fetch messages");
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (last) => last.nextCursor,
+    enabled: !!fid,
+    staleTime: Infinity,
+  });
+
+  useSSE({
+    url: `/api/events/stream?fid=${fid}`,
+    enabled: !!fid,
+    events: ["alliance-message", "alliance-message-deleted"],
+    onEvent: (event) => {
+      const payload = JSON.parse(event.data);
+      qc.setQueryData<ChatData>(queryKey, (data) =>
+        event.type === "alliance-message"
+          ? appendMessage(data, payload as AllianceChatMessage)
+          : dropMessages(data, (payload as { ids: string[] }).ids),
+      );
+    },
+  });
+
+  return query;
+}
+
+export function usePostAllianceMessage() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (body: string): Promise<AllianceChatMessage> => {
+      const res = await fetch("/api/alliance/messages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fid, body }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Send failed");
+      }
+      return res.json();
+    },
+    onSuccess: (message) => {
+      qc.setQueryData<ChatData>(["alliance-messages", fid], (data) =>
+        appendMessage(data, message),
+      );
+    },
+  });
+}
+
+export function useDeleteAllianceMessage() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (messageId: string) => {
+      const res = await fetch(
+        `/api/alliance/messages/${encodeURIComponent(messageId)}?fid=${fid}`,
+        { method: "DELETE" },
+      );
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Delete failed");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, messageId) => {
+      qc.setQueryData<ChatData>(["alliance-messages", fid], (data) =>
+        dropMessages(data, [messageId]),
+      );
+    },
+  });
+}
@@ -38,6 +38,7 @@ export interface ProductionEntry {
   resource: string;
   totalProduced: number;
   totalCollected: number;
+  totalConsumed: number;
   activeModules: number;
   avgEfficiency: number;
 }
@@ -281,6 +282,60 @@ export function useRepairModule() {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Emergency purchase mutation
+// ---------------------------------------------------------------------------
+
+export function useEmergencyPurchase() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (eventId: string) => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "emergency-purchase", eventId }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Purchase failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["colony", fid] });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Burn resources mutation
+// ---------------------------------------------------------------------------
+
+export function useBurnResources() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: { resource: string; quantity: number }) => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "burn", ...params }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Burn failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["colony", fid] });
+    },
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Demolish module mutation
 // ---------------------------------------------------------------------------
@@ -364,3 +419,88 @@ export function useBlueprints(playerLevel: number) {
     staleTime: 60_000, // blueprints are mostly static
   });
 }
+
+// ---------------------------------------------------------------------------
+// Achievements query
+// ---------------------------------------------------------------------------
+
+export interface PlayerAchievement {
+  key: string;
+  name: string;
+  description: string;
+  category: string;
+  xpReward: number;
+  lunarReward: number;
+  iconUrl: string | null;
+  /** Set once unlocked — the id shared in achievement casts */
+  unlockId: string | null;
+  unlockedAt: string | null;
+}
+
+export function useAchievements() {
+  const fid = useGameStore((s) => s.fid);
+
+  return useQuery<PlayerAchievement[]>({
+    queryKey: ["achievements", fid],
+    queryFn: async () => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "get-achievements" }),
+      });
+      if (!res.ok) throw new Error("Failed to load achievements");
+      const data = await res.json();
+      return data.achievements ?? [];
+    },
+    enabled: !!fid,
+    staleTime: 60_000,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Referrals query
+// ---------------------------------------------------------------------------
+
+export interface ReferralTier {
+  level: number;
+  referrerLunar: number;
+  refereeLunar: number;
+  referrerCrew: boolean;
+}
+
+export interface ReferredPlayer {
+  fid: number;
+  username: string | null;
+  level: number;
+  source: string;
+  channel: string;
+  status: "pending" | "held" | "verified";
+  holdReason: string | null;
+  /** Reward tiers paid so far */
+  tier: number;
+  joinedAt: string;
+}
+
+export interface ReferralSummary {
+  code: string;
+  link: string;
+  frameLink: string;
+  tiers: ReferralTier[];
+  referrals: ReferredPlayer[];
+  totals: { referred: number; verified: number; lunarEarned: number };
+}
+
+export function useReferrals() {
+  const fid = useGameStore((s) => s.fid);
+
+  return useQuery<ReferralSummary>({
+    queryKey: ["referrals", fid],
+    queryFn: async () => {
+      const res = await fetch(`/api/dashboard/${fid}/referrals`);
+      if (!res.ok) throw new Error("Failed to load referrals");
+      return res.json();
+    },
+    enabled: !!fid,
+    staleTime: 60_000,
+  });
+}
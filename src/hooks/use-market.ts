@@ -99,6 +99,10 @@ export interface TradeResult {
   avgPrice: number;
   totalCost: number;
   slippage: number;
+  fee?: number;
+  priceImpact?: number;
+  newPrice?: number;
+  transactionId?: string;
   error?: string;
 }
 
@@ -125,3 +129,211 @@ export function useExecuteTrade() {
     },
   });
 }
+
+// ---------------------------------------------------------------------------
+// Limit orders
+// ---------------------------------------------------------------------------
+
+export type OrderStatusFilter = "open" | "filled" | "cancelled" | "all";
+
+export interface MarketOrder {
+  id: string;
+  resource: string;
+  side: "BUY" | "SELL";
+  status: "OPEN" | "PARTIAL" | "FILLED" | "CANCELLED";
+  limitPrice: number;
+  quantity: number;
+  filledQuantity: number;
+  avgFillPrice: number | null;
+  reserved: number;
+  createdAt: string;
+  closedAt: string | null;
+}
+
+export function usePlayerOrders(status: OrderStatusFilter = "all") {
+  const fid = useGameStore((s) => s.fid);
+  return useQuery<MarketOrder[]>({
+    queryKey: ["orders", fid, status],
+    queryFn: async () => {
+      const res = await fetch(`/api/dashboard/${fid}/orders?status=${status}`);
+      if (!res.ok) throw new Error("Orders fetch failed");
+      const data = await res.json();
+      return data.orders;
+    },
+    enabled: !!fid,
+    refetchInterval: 30_000,
+  });
+}
+
+export interface PlaceOrderRequest {
+  side: "buy" | "sell";
+  resource: string;
+  quantity: number;
+  limitPrice: number;
+}
+
+export function usePlaceOrder() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation<
+    { success: boolean; order: MarketOrder },
+    Error,
+    PlaceOrderRequest
+  >({
+    mutationFn: async (order) => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "place-order", ...order }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Order failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["orders", fid] });
+      void qc.invalidateQueries({ queryKey: ["colony", fid] });
+    },
+  });
+}
+
+export function useCancelOrder() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation<{ success: boolean; order: MarketOrder }, Error, string>({
+    mutationFn: async (orderId) => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "cancel-order", orderId }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Cancel failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["orders", fid] });
+      void qc.invalidateQueries({ queryKey: ["colony", fid] });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Player trade offers
+// ---------------------------------------------------------------------------
+
+export interface TradeOffer {
+  id: string;
+  sender: { fid: number; username: string | null };
+  recipient: { fid: number; username: string | null } | null;
+  alliance: { id: string; name: string } | null;
+  offerResource: string;
+  offerQuantity: number;
+  requestResource: string | null;
+  requestQuantity: number;
+  isGift: boolean;
+  giftValue: number;
+  returnGiftValue: number;
+  message: string | null;
+  status: "OPEN" | "ACCEPTED" | "DECLINED" | "CANCELLED" | "EXPIRED";
+  expiresAt: string;
+  createdAt: string;
+  closedAt: string | null;
+}
+
+export interface TradeOffersOverview {
+  incoming: TradeOffer[];
+  outgoing: TradeOffer[];
+  history: TradeOffer[];
+  giftLimit: number;
+  giftedToday: number;
+  receivedToday: number;
+}
+
+export function useTradeOffers() {
+  const fid = useGameStore((s) => s.fid);
+  return useQuery<TradeOffersOverview>({
+    queryKey: ["trade-offers", fid],
+    queryFn: async () => {
+      const res = await fetch(`/api/market/offers?fid=${fid}`);
+      if (!res.ok) throw new Error("Trade offers fetch failed");
+      return res.json();
+    },
+    enabled: !!fid,
+    refetchInterval: 30_000,
+  });
+}
+
+export interface CreateTradeOfferRequest {
+  recipientFid?: number;
+  allianceId?: string;
+  offerResource: string;
+  offerQuantity: number;
+  requestResource?: string;
+  requestQuantity?: number;
+  message?: string;
+}
+
+export function useCreateTradeOffer() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation<
+    { success: boolean; offer: TradeOffer },
+    Error,
+    CreateTradeOfferRequest
+  >({
+    mutationFn: async (offer) => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "trade-offer-create", ...offer }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Offer failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["trade-offers", fid] });
+      void qc.invalidateQueries({ queryKey: ["colony", fid] });
+    },
+  });
+}
+
+export type TradeOfferResponse = "accept" | "decline" | "cancel";
+
+export function useRespondToTradeOffer() {
+  const fid = useGameStore((s) => s.fid);
+  const qc = useQueryClient();
+
+  return useMutation<
+    { success: boolean; offer: TradeOffer },
+    Error,
+    { offerId: string; response: TradeOfferResponse }
+  >({
+    mutationFn: async ({ offerId, response }) => {
+      const res = await fetch(`/api/dashboard/${fid}/action`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: `trade-offer-${response}`, offerId }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Offer update failed");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      void qc.invalidateQueries({ queryKey: ["trade-offers", fid] });
+      void qc.invalidateQueries({ queryKey: ["colony", fid] });
+    },
+  });
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useGameStore } from "@/stores/game-store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SessionInfo {
+  fid: number;
+  /** Unix seconds */
+  expiresAt: number;
+}
+
+export interface SignInCredentials {
+  /** Quick Auth JWT, or `stub:<fid>` against the offline dev verifier */
+  token?: string;
+  /** Sign In With Farcaster message + signature */
+  message?: string;
+  signature?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Session
+// ---------------------------------------------------------------------------
+
+/** The signed-in player, or null when there's no valid session cookie. */
+export function useSession() {
+  return useQuery<SessionInfo | null>({
+    queryKey: ["session"],
+    queryFn: async () => {
+      const res = await fetch("/api/auth/session");
+      if (res.status === 401) return null;
+      if (!res.ok) throw new Error("Session check failed");
+      return res.json();
+    },
+    staleTime: 5 * 60_000,
+    refetchInterval: false,
+  });
+}
+
+export function useSignIn() {
+  const setFid = useGameStore((s) => s.setFid);
+  const qc = useQueryClient();
+
+  return useMutation<{ fid: number }, Error, SignInCredentials>({
+    mutationFn: async (credentials) => {
+      const res = await fetch("/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(credentials),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error ?? "Sign-in failed");
+      }
+      return res.json();
+    },
+    onSuccess: ({ fid }) => {
+      setFid(fid);
+      void qc.invalidateQueries();
+    },
+  });
+}
+
+export function useSignOut() {
+  const clearFid = useGameStore((s) => s.clearFid);
+  const qc = useQueryClient();
+
+  return useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await fetch("/api/auth/session", { method: "DELETE" });
+    },
+    onSuccess: () => {
+      clearFid();
+      qc.clear();
+    },
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Admin authentication for /api/admin/* routes.
+ *
+ * Admins need both:
+ *   - Authorization: Bearer <ADMIN_SECRET>
+ *   - a signed dashboard session (lc_session, see session.ts) for their
+ *     Farcaster FID
+ *
+ * The session's FID must be listed in ADMIN_FIDS (comma-separated). It is
+ * recorded on every change (GameConfig.updatedBy, Transaction metadata,
+ * GameEvent data) so the audit trail shows who did what.
+ *
+ * middleware.ts rejects requests without the bearer secret early; route
+ * handlers call authenticateAdmin() to resolve the acting admin.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+
+export interface AdminIdentity {
+  fid: number;
+  /** Stored in audit fields (GameConfig.updatedBy etc.) */
+  adminId: string;
+}
+
+/** Parse ADMIN_FIDS into a set of allowed FIDs. */
+export function getAdminFids(): Set<number> {
+  return new Set(
+    (process.env.ADMIN_FIDS ?? "")
+      .split(",")
+      .map((s) => parseInt(s.trim(), 10))
+      .filter((n) => Number.isInteger(n) && n > 0),
+  );
+}
+
+function secretMatches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Resolve the acting admin from the request's secret and session.
+ * Returns null when the secret is missing/wrong, there's no session, or
+ * the signed-in FID isn't an admin.
+ */
+export async function authenticateAdmin(
+  req: Request,
+): Promise<AdminIdentity | null> {
+  const secret = process.env.ADMIN_SECRET;
+  if (!secret) return null;
+
+  const authHeader = req.headers.get("authorization") ?? "";
+  if (!secretMatches(authHeader, `Bearer ${secret}`)) return null;
+
+  const session = await getSession(req);
+  if (!session || !getAdminFids().has(session.fid)) return null;
+
+  return { fid: session.fid, adminId: String(session.fid) };
+}
+
+/** Standard 401 response for admin routes. */
+export function adminUnauthorized(): NextResponse {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
@@ -0,0 +1,337 @@
+/**
+ * Admin Engine
+ *
+ * Player moderation and manual balance corrections for the admin console.
+ *
+ *   1. Lookup       — search players (including suspended ones) and detail
+ *   2. Adjustments  — credit/debit any resource with an audited Transaction
+ *   3. Moderation   — suspend (soft-delete via Player.deletedAt) / restore
+ *
+ * Every write records the acting admin's FID in Transaction metadata and
+ * a WARNING-severity GameEvent so moderation is reviewable after the fact.
+ * Config edits live in game-config.ts; event control in event-engine.ts.
+ */
+
+import prisma from "@/lib/database";
+import type { ResourceType } from "@/lib/utils";
+import { GameMetrics } from "@/lib/metrics";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AdminPlayerSummary {
+  id: string;
+  fid: number;
+  username: string | null;
+  level: number;
+  lunarBalance: number;
+  moduleCount: number;
+  lastActive: Date;
+  suspendedAt: Date | null;
+}
+
+export interface AdminPlayerDetail extends AdminPlayerSummary {
+  resources: Array<{ type: string; amount: number }>;
+  recentTransactions: Array<{
+    id: string;
+    type: string;
+    resource: string;
+    amount: number;
+    balanceAfter: number;
+    description: string | null;
+    createdAt: Date;
+  }>;
+}
+
+export interface AdjustmentResult {
+  success: boolean;
+  balanceAfter?: number;
+  error?: string;
+}
+
+export interface ModerationResult {
+  success: boolean;
+  player?: AdminPlayerSummary;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Largest single adjustment, to catch fat-fingered extra zeros. */
+const MAX_ADJUSTMENT = 10_000_000;
+const SEARCH_LIMIT = 25;
+const RECENT_TRANSACTIONS = 20;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type PlayerRow = {
+  id: string;
+  fid: number;
+  username: string | null;
+  level: number;
+  lunarBalance: unknown;
+  moduleCount: number;
+  lastActive: Date;
+  deletedAt: Date | null;
+};
+
+function toSummary(p: PlayerRow): AdminPlayerSummary {
+  return {
+    id: p.id,
+    fid: p.fid,
+    username: p.username,
+    level: p.level,
+    lunarBalance: Number(p.lunarBalance),
+    moduleCount: p.moduleCount,
+    lastActive: p.lastActive,
+    suspendedAt: p.deletedAt,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 1. Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Find players by exact FID or username prefix. Suspended players are
+ * included so they can be restored.
+ */
+export async function searchPlayers(
+  query: string,
+): Promise<AdminPlayerSummary[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const fid = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : null;
+  const players = await prisma.player.findMany({
+    where: {
+      OR: [
+        ...(fid !== null ? [{ fid }] : []),
+        { username: { startsWith: trimmed, mode: "insensitive" as const } },
+      ],
+    },
+    orderBy: { lastActive: "desc" },
+    take: SEARCH_LIMIT,
+  });
+
+  return players.map(toSummary);
+}
+
+/** Full player view for moderation: balances and recent ledger. */
+export async function getPlayerDetail(
+  fid: number,
+): Promise<AdminPlayerDetail | null> {
+  const player = await prisma.player.findUnique({
+    where: { fid },
+    include: {
+      resources: { select: { type: true, amount: true } },
+      transactions: {
+        orderBy: { createdAt: "desc" },
+        take: RECENT_TRANSACTIONS,
+      },
+    },
+  });
+  if (!player) return null;
+
+  return {
+    ...toSummary(player),
+    resources: player.resources.map((r) => ({
+      type: r.type,
+      amount: Number(r.amount),
+    })),
+    recentTransactions: player.transactions.map((t) => ({
+      id: t.id,
+      type: t.type,
+      resource: t.resource,
+      amount: Number(t.amount),
+      balanceAfter: Number(t.balanceAfter),
+      description: t.description,
+      createdAt: t.createdAt,
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 2. Balance Adjustments
+// ---------------------------------------------------------------------------
+
+/**
+ * Credit (positive) or debit (negative) a player's resource.
+ * LUNAR adjusts Player.lunarBalance; other resources adjust PlayerResource.
+ * Balances never go below zero.
+ */
+export async function adjustPlayerBalance(
+  fid: number,
+  resource: ResourceType,
+  amount: number,
+  reason: string,
+  adminId: string,
+): Promise<AdjustmentResult> {
+  if (!Number.isFinite(amount) || amount === 0) {
+    return { success: false, error: "Amount must be a non-zero number" };
+  }
+  if (Math.abs(amount) > MAX_ADJUSTMENT) {
+    return {
+      success: false,
+      error: `Adjustments are capped at ${MAX_ADJUSTMENT.toLocaleString()}`,
+    };
+  }
+  if (!reason.trim()) {
+    return { success: false, error: "A reason is required" };
+  }
+
+  try {
+    const balanceAfter = await prisma.$transaction(async (tx) => {
+      const player = await tx.player.findUnique({ where: { fid } });
+      if (!player) throw new Error("Player not found");
+
+      let after: number;
+      if (resource === "LUNAR") {
+        after = Number(player.lunarBalance) + amount;
+        if (after < 0) {
+          throw new Error(
+            `Debit exceeds balance (${Number(player.lunarBalance).toFixed(2)} LUNAR)`,
+          );
+        }
+        await tx.player.update({
+          where: { id: player.id, version: player.version },
+          data: {
+            lunarBalance: { increment: amount },
+            version: { increment: 1 },
+          },
+        });
+      } else {
+        const row = await tx.playerResource.findUnique({
+          where: { playerId_type: { playerId: player.id, type: resource } },
+        });
+        const held = Number(row?.amount ?? 0);
+        after = held + amount;
+        if (after < 0) {
+          throw new Error(`Debit exceeds balance (${held} ${resource})`);
+        }
+        await tx.playerResource.upsert({
+          where: { playerId_type: { playerId: player.id, type: resource } },
+          update: { amount: { increment: amount } },
+          create: { playerId: player.id, type: resource, amount },
+        });
+      }
+
+      await tx.transaction.create({
+        data: {
+          playerId: player.id,
+          type: "ADMIN_ADJUSTMENT",
+          resource,
+          amount,
+          balanceAfter: after,
+          description: `Admin adjustment: ${reason}`,
+          metadata: { adminId, reason },
+        },
+      });
+
+      await tx.gameEvent.create({
+        data: {
+          playerId: player.id,
+          type: "admin_adjustment",
+          severity: "WARNING",
+          data: { resource, amount, balanceAfter: after, reason, adminId },
+        },
+      });
+
+      return after;
+    });
+
+    return { success: true, balanceAfter };
+  } catch (error) {
+    GameMetrics.trackError(error, { context: "admin_adjustment", fid });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Adjustment failed",
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 3. Moderation
+// ---------------------------------------------------------------------------
+
+/**
+ * Suspend a player by soft-deleting them. getOrCreatePlayer() refuses
+ * suspended players, and they drop out of production and leaderboards
+ * (which already filter on deletedAt).
+ */
+export async function suspendPlayer(
+  fid: number,
+  reason: string,
+  adminId: string,
+): Promise<ModerationResult> {
+  if (!reason.trim()) {
+    return { success: false, error: "A reason is required" };
+  }
+
+  const player = await prisma.player.findUnique({ where: { fid } });
+  if (!player) return { success: false, error: "Player not found" };
+  if (player.deletedAt) {
+    return { success: false, error: "Player is already suspended" };
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.player.update({
+      where: { id: player.id },
+      data: { deletedAt: new Date() },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId: player.id,
+        type: "player_suspended",
+        severity: "WARNING",
+        data: { fid, reason, adminId },
+      },
+    }),
+  ]);
+
+  return { success: true, player: toSummary(updated) };
+}
+
+/** Lift a suspension. */
+export async function restorePlayer(
+  fid: number,
+  adminId: string,
+): Promise<ModerationResult> {
+  const player = await prisma.player.findUnique({ where: { fid } });
+  if (!player) return { success: false, error: "Player not found" };
+  if (!player.deletedAt) {
+    return { success: false, error: "Player is not suspended" };
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.player.update({
+      where: { id: player.id },
+      data: { deletedAt: null },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId: player.id,
+        type: "player_restored",
+        severity: "WARNING",
+        data: { fid, adminId, suspendedAt: player.deletedAt.toISOString() },
+      },
+    }),
+  ]);
+
+  return { success: true, player: toSummary(updated) };
+}
+
+const adminEngine = {
+  searchPlayers,
+  getPlayerDetail,
+  adjustPlayerBalance,
+  suspendPlayer,
+  restorePlayer,
+};
+
+export default adminEngine;
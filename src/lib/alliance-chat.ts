@@ -0,0 +1,280 @@
+/**
+ * Alliance Chat
+ *
+ * Database-backed message board for alliance members:
+ *   1. Posting     — members post up to 500 chars, rate limited per player
+ *   2. History     — newest-first cursor pagination, returned oldest-first
+ *   3. Moderation  — officers and leaders soft-delete any message; authors
+ *                    may delete their own
+ *   4. Push        — the SSE stream polls getChatUpdates() for new messages
+ *                    and deletions since its last tick
+ *
+ * All reads and writes are scoped to the caller's AllianceMember row.
+ *
+ * Entry points:
+ *   - postAllianceMessage()   — dashboard POST
+ *   - getAllianceMessages()   — dashboard GET (paginated)
+ *   - deleteAllianceMessage() — dashboard DELETE
+ *   - getChatUpdates()        — called by /api/events/stream
+ */
+
+import prisma from "@/lib/database";
+import type { AllianceRole } from "@prisma/client";
+import { GameMetrics } from "@/lib/metrics";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AllianceChatMessage {
+  id: string;
+  playerId: string;
+  fid: number;
+  username: string | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface ChatPage {
+  messages: AllianceChatMessage[];
+  /** Pass as `before` to load the next (older) page; null when exhausted */
+  nextCursor: string | null;
+  role: AllianceRole;
+  canModerate: boolean;
+}
+
+export interface ChatResult {
+  success: boolean;
+  error?: string;
+  message?: AllianceChatMessage;
+  /** Set when rate limited — milliseconds until the window resets */
+  retryAfterMs?: number;
+}
+
+export interface ChatUpdates {
+  messages: AllianceChatMessage[];
+  deletedIds: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Messages per player per window */
+export const CHAT_RATE_LIMIT = 5;
+export const CHAT_RATE_WINDOW_MS = 10_000;
+
+export const CHAT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+const AUTHOR_SELECT = {
+  player: { select: { fid: true, username: true } },
+} as const;
+
+/** Officers and leaders may remove any message in their alliance. */
+export function canModerate(role: AllianceRole): boolean {
+  return role === "LEADER" || role === "OFFICER";
+}
+
+function toView(row: {
+  id: string;
+  playerId: string;
+  body: string;
+  createdAt: Date;
+  player: { fid: number; username: string | null };
+}): AllianceChatMessage {
+  return {
+    id: row.id,
+    playerId: row.playerId,
+    fid: row.player.fid,
+    username: row.player.username,
+    body: row.body,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+async function findMembership(playerId: string) {
+  const member = await prisma.allianceMember.findUnique({
+    where: { playerId },
+    include: { alliance: { select: { deletedAt: true } } },
+  });
+  return member && !member.alliance.deletedAt ? member : null;
+}
+
+// ---------------------------------------------------------------------------
+// 1. Posting
+// ---------------------------------------------------------------------------
+
+/**
+ * Post a message to the caller's alliance. `body` must already be
+ * validated (see validateChatMessage).
+ */
+export async function postAllianceMessage(
+  playerId: string,
+  body: string,
+): Promise<ChatResult> {
+  const member = await findMembership(playerId);
+  if (!member) return { success: false, error: "Not in an alliance" };
+
+  const limit = checkRateLimit(
+    `alliance-chat:${playerId}`,
+    CHAT_RATE_LIMIT,
+    CHAT_RATE_WINDOW_MS,
+  );
+  if (!limit.success) {
+    return {
+      success: false,
+      error: "You're sending messages too quickly",
+      retryAfterMs: limit.resetInMs,
+    };
+  }
+
+  try {
+    const row = await prisma.allianceMessage.create({
+      data: { allianceId: member.allianceId, playerId, body },
+      include: AUTHOR_SELECT,
+    });
+
+    GameMetrics.trackPlayerAction(playerId, "alliance_message", {
+      allianceId: member.allianceId,
+    });
+
+    return { success: true, message: toView(row) };
+  } catch (error) {
+    GameMetrics.trackError(error, { context: "alliance_message", playerId });
+    return { success: false, error: "Failed to post message" };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 2. History
+// ---------------------------------------------------------------------------
+
+/**
+ * A page of the caller's alliance chat, oldest-first. `before` is a
+ * message id; the page holds messages posted before it.
+ */
+export async function getAllianceMessages(
+  playerId: string,
+  options: { before?: string | null; limit?: number } = {},
+): Promise<ChatPage | null> {
+  const member = await findMembership(playerId);
+  if (!member) return null;
+
+  const limit = Math.min(
+    Math.max(1, Math.floor(options.limit ?? CHAT_PAGE_SIZE)),
+    MAX_PAGE_SIZE,
+  );
+
+  const rows = await prisma.allianceMessage.findMany({
+    where: { allianceId: member.allianceId, deletedAt: null },
+    include: AUTHOR_SELECT,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(options.before ? { cursor: { id: options.before }, skip: 1 } : {}),
+  });
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  return {
+    messages: page.reverse().map(toView),
+    nextCursor: hasMore ? (page[0]?.id ?? null) : null,
+    role: member.role,
+    canModerate: canModerate(member.role),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 3. Moderation
+// ---------------------------------------------------------------------------
+
+/**
+ * Soft-delete a message. Officers and leaders may remove any message in
+ * their alliance; members only their own.
+ */
+export async function deleteAllianceMessage(
+  playerId: string,
+  messageId: string,
+): Promise<ChatResult> {
+  const member = await findMembership(playerId);
+  if (!member) return { success: false, error: "Not in an alliance" };
+
+  const message = await prisma.allianceMessage.findUnique({
+    where: { id: messageId },
+  });
+  if (
+    !message ||
+    message.allianceId !== member.allianceId ||
+    message.deletedAt
+  ) {
+    return { success: false, error: "Message not found" };
+  }
+
+  const isAuthor = message.playerId === playerId;
+  if (!isAuthor && !canModerate(member.role)) {
+    return { success: false, error: "Only officers can delete messages" };
+  }
+
+  await prisma.$transaction([
+    prisma.allianceMessage.update({
+      where: { id: messageId },
+      data: { deletedAt: new Date(), deletedById: playerId },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "alliance_message_deleted",
+        data: {
+          allianceId: member.allianceId,
+          messageId,
+          authorId: message.playerId,
+          moderated: !isAuthor,
+        },
+      },
+    }),
+  ]);
+
+  return { success: true };
+}
+
+// ---------------------------------------------------------------------------
+// 4. Push
+// ---------------------------------------------------------------------------
+
+/**
+ * Messages posted and deleted in an alliance since `since`. Polled by the
+ * SSE stream on each tick.
+ */
+export async function getChatUpdates(
+  allianceId: string,
+  since: Date,
+): Promise<ChatUpdates> {
+  const [posted, deleted] = await Promise.all([
+    prisma.allianceMessage.findMany({
+      where: { allianceId, deletedAt: null, createdAt: { gt: since } },
+      include: AUTHOR_SELECT,
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: MAX_PAGE_SIZE,
+    }),
+    prisma.allianceMessage.findMany({
+      where: { allianceId, deletedAt: { gt: since } },
+      select: { id: true },
+    }),
+  ]);
+
+  return {
+    messages: posted.map(toView),
+    deletedIds: deleted.map((m) => m.id),
+  };
+}
+
+const AllianceChat = {
+  postAllianceMessage,
+  getAllianceMessages,
+  deleteAllianceMessage,
+  getChatUpdates,
+};
+
+export default AllianceChat;
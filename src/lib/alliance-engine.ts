@@ -0,0 +1,639 @@
+/**
+ * Alliance Treasury Engine
+ *
+ * Shared alliance funds:
+ *   1. Deposits    — any member moves $LUNAR or raw materials in; the $LUNAR
+ *                    value is added to their `contributed` dividend weight
+ *   2. Withdrawals — officers and leaders draw funds out, capped per UTC day
+ *                    by role (alliance_{officer,leader}_withdraw_limit);
+ *                    the $LUNAR value comes off their `contributed` weight
+ *   3. Tithe       — production skims alliance_dividend_percent of each
+ *                    member's $LUNAR output into the treasury; every cycle
+ *                    also earns the alliance XP (alliance-progression.ts)
+ *   4. Dividends   — cron pays the skimmed pool back out to members in
+ *                    proportion to their contributions
+ *
+ * Every movement is written to the Transaction ledger.
+ *
+ * Entry points:
+ *   - getTreasury()                 — treasury + caller's withdrawal allowance
+ *   - depositToTreasury()           — member deposit
+ *   - withdrawFromTreasury()        — officer / leader withdrawal
+ *   - applyAllianceTithe()          — called inside the production credit tx
+ *   - distributeAllianceDividends() — called by cron after production
+ */
+
+import prisma from "@/lib/database";
+import type { AllianceRole, Prisma } from "@prisma/client";
+import { startOfUtcDay, type ResourceType } from "@/lib/utils";
+import { GameMetrics } from "@/lib/metrics";
+import { loadGameConfig, type GameConfigValues } from "@/lib/game-config";
+import { RESOURCE_CONFIGS } from "@/lib/market-engine";
+import { grantAllianceXp } from "@/lib/alliance-progression";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TreasuryView {
+  allianceId: string;
+  lunar: number;
+  /** Skimmed production awaiting the next dividend payout */
+  dividendPool: number;
+  resources: Partial<Record<ResourceType, number>>;
+  role: AllianceRole;
+  /** Caller's daily withdrawal cap in $LUNAR value (0 = may not withdraw) */
+  withdrawLimit: number;
+  withdrawnToday: number;
+}
+
+export interface TreasuryResult {
+  success: boolean;
+  error?: string;
+  resource?: ResourceType;
+  quantity?: number;
+  /** Treasury holding of `resource` after the move */
+  treasuryBalance?: number;
+}
+
+export interface DividendBatchResult {
+  alliances: number;
+  totalPaid: number;
+  failed: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const BATCH_SIZE = 100;
+
+/** $LUNAR value of a treasury move — raw materials at market base price. */
+export function treasuryValue(resource: ResourceType, quantity: number) {
+  return quantity * RESOURCE_CONFIGS[resource].basePrice;
+}
+
+/** Daily withdrawal cap for a role, in $LUNAR value. */
+export function getWithdrawLimit(
+  role: AllianceRole,
+  config: GameConfigValues,
+): number {
+  if (role === "LEADER") return config.alliance_leader_withdraw_limit;
+  if (role === "OFFICER") return config.alliance_officer_withdraw_limit;
+  return 0;
+}
+
+/** $LUNAR value a player has withdrawn from treasuries since UTC midnight. */
+async function getWithdrawnToday(playerId: string): Promise<number> {
+  const rows = await prisma.transaction.findMany({
+    where: {
+      playerId,
+      type: "ALLIANCE_WITHDRAWAL",
+      createdAt: { gte: startOfUtcDay() },
+    },
+    select: { metadata: true },
+  });
+  return rows.reduce((sum, row) => {
+    const meta = row.metadata as { lunarValue?: number } | null;
+    return sum + Number(meta?.lunarValue ?? 0);
+  }, 0);
+}
+
+/** A player's holding of a resource ($LUNAR balance or stockpile). */
+async function getPlayerHolding(
+  player: { id: string; lunarBalance: Prisma.Decimal | number },
+  resource: ResourceType,
+): Promise<number> {
+  if (resource === "LUNAR") return Number(player.lunarBalance);
+  const stock = await prisma.playerResource.findUnique({
+    where: { playerId_type: { playerId: player.id, type: resource } },
+  });
+  return Number(stock?.amount ?? 0);
+}
+
+/** A treasury's holding of a resource. */
+async function getTreasuryHolding(
+  alliance: { id: string; totalLunar: Prisma.Decimal | number },
+  resource: ResourceType,
+): Promise<number> {
+  if (resource === "LUNAR") return Number(alliance.totalLunar);
+  const stock = await prisma.allianceResource.findUnique({
+    where: { allianceId_type: { allianceId: alliance.id, type: resource } },
+  });
+  return Number(stock?.amount ?? 0);
+}
+
+async function findMembership(playerId: string) {
+  const member = await prisma.allianceMember.findUnique({
+    where: { playerId },
+    include: { alliance: true },
+  });
+  return member && !member.alliance.deletedAt ? member : null;
+}
+
+// ---------------------------------------------------------------------------
+// Treasury view
+// ---------------------------------------------------------------------------
+
+/**
+ * The caller's alliance treasury, or null when not in an alliance.
+ */
+export async function getTreasury(
+  playerId: string,
+): Promise<TreasuryView | null> {
+  const member = await findMembership(playerId);
+  if (!member) return null;
+
+  const [holdings, config, withdrawnToday] = await Promise.all([
+    prisma.allianceResource.findMany({
+      where: { allianceId: member.allianceId },
+      select: { type: true, amount: true },
+    }),
+    loadGameConfig(),
+    getWithdrawnToday(playerId),
+  ]);
+
+  const resources: Partial<Record<ResourceType, number>> = {};
+  for (const h of holdings) {
+    const amount = Number(h.amount);
+    if (amount > 0) resources[h.type as ResourceType] = amount;
+  }
+
+  return {
+    allianceId: member.allianceId,
+    lunar: Number(member.alliance.totalLunar),
+    dividendPool: Number(member.alliance.dividendPool),
+    resources,
+    role: member.role,
+    withdrawLimit: getWithdrawLimit(member.role, config),
+    withdrawnToday,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 1. Deposits
+// ---------------------------------------------------------------------------
+
+/**
+ * Move $LUNAR or raw materials from a member into the treasury.
+ */
+export async function depositToTreasury(
+  playerId: string,
+  resource: ResourceType,
+  quantity: number,
+): Promise<TreasuryResult> {
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return { success: false, error: "Quantity must be positive" };
+  }
+
+  const member = await findMembership(playerId);
+  if (!member) return { success: false, error: "Not in an alliance" };
+  const { alliance } = member;
+
+  const player = await prisma.player.findUnique({ where: { id: playerId } });
+  if (!player) return { success: false, error: "Player not found" };
+
+  const isLunar = resource === "LUNAR";
+  const held = await getPlayerHolding(player, resource);
+  if (held < quantity) {
+    return {
+      success: false,
+      error: `Not enough ${isLunar ? "$LUNAR" : resource}. Have ${Math.floor(held * 100) / 100}.`,
+    };
+  }
+
+  const treasuryHeld = await getTreasuryHolding(alliance, resource);
+  const lunarValue = treasuryValue(resource, quantity);
+  const metadata = { allianceId: alliance.id, lunarValue };
+
+  await prisma.$transaction([
+    // Debit the member (balance guards stop a concurrent spend overdrawing)
+    isLunar
+      ? prisma.player.update({
+          where: { id: playerId, version: player.version },
+          data: {
+            lunarBalance: { decrement: quantity },
+            version: { increment: 1 },
+          },
+        })
+      : prisma.playerResource.update({
+          where: {
+            playerId_type: { playerId, type: resource },
+            amount: { gte: quantity },
+          },
+          data: { amount: { decrement: quantity } },
+        }),
+    // Version lock serialises treasury moves per alliance
+    prisma.alliance.update({
+      where: { id: alliance.id, version: alliance.version },
+      data: {
+        ...(isLunar ? { totalLunar: { increment: quantity } } : {}),
+        version: { increment: 1 },
+      },
+    }),
+    ...(isLunar
+      ? []
+      : [
+          prisma.allianceResource.upsert({
+            where: {
+              allianceId_type: { allianceId: alliance.id, type: resource },
+            },
+            create: {
+              allianceId: alliance.id,
+              type: resource,
+              amount: quantity,
+            },
+            update: { amount: { increment: quantity } },
+          }),
+        ]),
+    prisma.allianceMember.update({
+      where: { id: member.id },
+      data: { contributed: { increment: lunarValue } },
+    }),
+    prisma.transaction.create({
+      data: {
+        playerId,
+        type: "ALLIANCE_DEPOSIT",
+        resource,
+        amount: -quantity,
+        balanceAfter: held - quantity,
+        description: `Deposit to "${alliance.name}" treasury`,
+        metadata,
+      },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "alliance_deposit",
+        data: { ...metadata, resource, quantity },
+      },
+    }),
+  ]);
+
+  GameMetrics.trackPlayerAction(playerId, "alliance_deposit", {
+    allianceId: alliance.id,
+    resource,
+    quantity,
+  });
+
+  return {
+    success: true,
+    resource,
+    quantity,
+    treasuryBalance: treasuryHeld + quantity,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 2. Withdrawals
+// ---------------------------------------------------------------------------
+
+/**
+ * Move funds from the treasury to an officer or leader, within their
+ * role's daily limit.
+ */
+export async function withdrawFromTreasury(
+  playerId: string,
+  resource: ResourceType,
+  quantity: number,
+): Promise<TreasuryResult> {
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return { success: false, error: "Quantity must be positive" };
+  }
+
+  const member = await findMembership(playerId);
+  if (!member) return { success: false, error: "Not in an alliance" };
+  const { alliance } = member;
+
+  const config = await loadGameConfig();
+  const limit = getWithdrawLimit(member.role, config);
+  if (limit <= 0) {
+    return {
+      success: false,
+      error: "Only officers and leaders can withdraw from the treasury",
+    };
+  }
+
+  const lunarValue = treasuryValue(resource, quantity);
+  const withdrawnToday = await getWithdrawnToday(playerId);
+  if (withdrawnToday + lunarValue > limit) {
+    const left = Math.max(0, Math.floor(limit - withdrawnToday));
+    return {
+      success: false,
+      error: `Daily withdrawal limit reached. ${left} $LUNAR of value left today.`,
+    };
+  }
+
+  const isLunar = resource === "LUNAR";
+  const treasuryHeld = await getTreasuryHolding(alliance, resource);
+  if (treasuryHeld < quantity) {
+    return {
+      success: false,
+      error: `Treasury only holds ${Math.floor(treasuryHeld * 100) / 100} ${isLunar ? "$LUNAR" : resource}.`,
+    };
+  }
+
+  const player = await prisma.player.findUnique({ where: { id: playerId } });
+  if (!player) return { success: false, error: "Player not found" };
+
+  const held = await getPlayerHolding(player, resource);
+  const metadata = { allianceId: alliance.id, lunarValue };
+
+  // Treasury → player legs (the $LUNAR debit rides on the alliance update)
+  const credit: Prisma.PrismaPromise<unknown>[] = isLunar
+    ? [
+        prisma.player.update({
+          where: { id: playerId },
+          data: { lunarBalance: { increment: quantity } },
+        }),
+      ]
+    : [
+        prisma.allianceResource.update({
+          where: {
+            allianceId_type: { allianceId: alliance.id, type: resource },
+            amount: { gte: quantity },
+          },
+          data: { amount: { decrement: quantity } },
+        }),
+        prisma.playerResource.upsert({
+          where: { playerId_type: { playerId, type: resource } },
+          create: { playerId, type: resource, amount: quantity },
+          update: { amount: { increment: quantity } },
+        }),
+      ];
+
+  await prisma.$transaction([
+    prisma.alliance.update({
+      where: {
+        id: alliance.id,
+        version: alliance.version,
+        ...(isLunar ? { totalLunar: { gte: quantity } } : {}),
+      },
+      data: {
+        ...(isLunar ? { totalLunar: { decrement: quantity } } : {}),
+        version: { increment: 1 },
+      },
+    }),
+    ...credit,
+    // Deposits hold the version lock and tithes only add, so taking off
+    // at most the current weight keeps it from going negative
+    prisma.allianceMember.update({
+      where: { id: member.id },
+      data: {
+        contributed: {
+          decrement: Math.min(lunarValue, Number(member.contributed)),
+        },
+      },
+    }),
+    prisma.transaction.create({
+      data: {
+        playerId,
+        type: "ALLIANCE_WITHDRAWAL",
+        resource,
+        amount: quantity,
+        balanceAfter: held + quantity,
+        description: `Withdrawal from "${alliance.name}" treasury`,
+        metadata,
+      },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "alliance_withdraw",
+        data: { ...metadata, resource, quantity, role: member.role },
+      },
+    }),
+  ]);
+
+  GameMetrics.trackPlayerAction(playerId, "alliance_withdraw", {
+    allianceId: alliance.id,
+    resource,
+    quantity,
+  });
+
+  return {
+    success: true,
+    resource,
+    quantity,
+    treasuryBalance: treasuryHeld - quantity,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 3. Production tithe
+// ---------------------------------------------------------------------------
+
+/**
+ * Skim alliance_dividend_percent of a member's $LUNAR production into
+ * their alliance. alliance_dividend_payout_percent of the skim joins the
+ * dividend pool; the rest stays in the treasury.
+ *
+ * Runs inside the production credit transaction so it shares its
+ * idempotency. Returns the amount skimmed — the caller credits the player
+ * with the remainder. `balanceAfter` is the player's balance after the
+ * gross production credit.
+ */
+export async function applyAllianceTithe(
+  tx: Prisma.TransactionClient,
+  playerId: string,
+  produced: number,
+  opts: { date: Date; balanceAfter: number },
+): Promise<number> {
+  if (produced <= 0) return 0;
+
+  const member = await tx.allianceMember.findUnique({
+    where: { playerId },
+    include: { alliance: true },
+  });
+  if (!member || member.alliance.deletedAt) return 0;
+
+  const config = await loadGameConfig();
+  await grantAllianceXp(
+    tx,
+    member.alliance,
+    config.alliance_xp_per_cycle,
+    "production",
+  );
+
+  const tithe = Math.floor((produced * config.alliance_dividend_percent) / 100);
+  if (tithe < 1) return 0;
+
+  const toPool = Math.floor(
+    (tithe * config.alliance_dividend_payout_percent) / 100,
+  );
+
+  await tx.alliance.update({
+    where: { id: member.allianceId },
+    data: {
+      totalLunar: { increment: tithe - toPool },
+      dividendPool: { increment: toPool },
+    },
+  });
+  await tx.allianceMember.update({
+    where: { id: member.id },
+    data: { contributed: { increment: tithe } },
+  });
+  await tx.transaction.create({
+    data: {
+      playerId,
+      type: "ALLIANCE_DEPOSIT",
+      resource: "LUNAR",
+      amount: -tithe,
+      balanceAfter: opts.balanceAfter - tithe,
+      description: `Alliance tithe: ${config.alliance_dividend_percent}% of production`,
+      metadata: {
+        allianceId: member.allianceId,
+        lunarValue: tithe,
+        dividendPool: toPool,
+        date: opts.date.toISOString(),
+      },
+    },
+  });
+
+  return tithe;
+}
+
+// ---------------------------------------------------------------------------
+// 4. Dividends
+// ---------------------------------------------------------------------------
+
+/**
+ * Pay every alliance's dividend pool out to its members.
+ * Cursor-paginated like the production cycle; one failing alliance
+ * doesn't stop the batch.
+ */
+export async function distributeAllianceDividends(options?: {
+  signal?: AbortSignal;
+}): Promise<DividendBatchResult> {
+  const result: DividendBatchResult = { alliances: 0, totalPaid: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  while (!options?.signal?.aborted) {
+    const batch = await prisma.alliance.findMany({
+      where: { deletedAt: null, dividendPool: { gte: 1 } },
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1]!.id;
+
+    for (const { id } of batch) {
+      try {
+        const paid = await payAllianceDividend(id);
+        if (paid > 0) {
+          result.alliances++;
+          result.totalPaid += paid;
+        }
+      } catch (error) {
+        result.failed++;
+        GameMetrics.trackError(error, {
+          context: "alliance_dividend",
+          allianceId: id,
+        });
+      }
+    }
+
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  return result;
+}
+
+/**
+ * Split one alliance's pool by member contribution (equal shares when
+ * nobody has contributed). Shares are whole $LUNAR; the rounding
+ * remainder stays in the pool for next time. Returns the amount paid.
+ */
+export async function payAllianceDividend(allianceId: string): Promise<number> {
+  const alliance = await prisma.alliance.findUnique({
+    where: { id: allianceId, deletedAt: null },
+    include: {
+      members: {
+        include: { player: { select: { lunarBalance: true } } },
+      },
+    },
+  });
+  if (!alliance || alliance.members.length === 0) return 0;
+
+  const pool = Number(alliance.dividendPool);
+  const totalWeight = alliance.members.reduce(
+    (sum, m) => sum + Number(m.contributed),
+    0,
+  );
+  const shares = alliance.members
+    .map((m) => ({
+      member: m,
+      amount: Math.floor(
+        totalWeight > 0
+          ? (pool * Number(m.contributed)) / totalWeight
+          : pool / alliance.members.length,
+      ),
+    }))
+    .filter((s) => s.amount > 0);
+
+  const paid = shares.reduce((sum, s) => sum + s.amount, 0);
+  if (paid <= 0) return 0;
+
+  await prisma.$transaction([
+    prisma.alliance.update({
+      where: { id: allianceId, version: alliance.version },
+      data: {
+        dividendPool: { decrement: paid },
+        version: { increment: 1 },
+      },
+    }),
+    ...shares.flatMap(({ member, amount }) => [
+      prisma.player.update({
+        where: { id: member.playerId },
+        data: {
+          lunarBalance: { increment: amount },
+          totalEarnings: { increment: amount },
+        },
+      }),
+      prisma.transaction.create({
+        data: {
+          playerId: member.playerId,
+          type: "ALLIANCE_DIVIDEND",
+          resource: "LUNAR",
+          amount,
+          balanceAfter: Number(member.player.lunarBalance) + amount,
+          description: `"${alliance.name}" dividend`,
+          metadata: {
+            allianceId,
+            pool,
+            share:
+              totalWeight > 0
+                ? Number(member.contributed) / totalWeight
+                : 1 / alliance.members.length,
+          },
+        },
+      }),
+    ]),
+    prisma.gameEvent.create({
+      data: {
+        type: "alliance_dividend",
+        data: {
+          allianceId,
+          pool,
+          paid,
+          recipients: shares.length,
+        },
+      },
+    }),
+  ]);
+
+  return paid;
+}
+
+const allianceEngine = {
+  getTreasury,
+  depositToTreasury,
+  withdrawFromTreasury,
+  applyAllianceTithe,
+  distributeAllianceDividends,
+  payAllianceDividend,
+};
+
+export default allianceEngine;
@@ -0,0 +1,427 @@
+/**
+ * Alliance Progression
+ *
+ * Alliance XP, levels and perk trees:
+ *   1. XP curve   — allianceXpForLevel(): XP needed to advance past a level;
+ *                   Alliance.xp is cumulative and the level derives from it
+ *   2. XP sources — every member production cycle (alliance_xp_per_cycle,
+ *                   granted inside the tithe step) and treasury spending on
+ *                   perks (alliance_xp_per_lunar_spent)
+ *   3. Level-ups  — each level adds alliance_slots_per_level member slots
+ *                   and unlocks further perk ranks
+ *   4. Perks      — three trees bought rank by rank from the treasury by the
+ *                   leader; unlocked ranks feed getPlayerEventModifiers()
+ *
+ * Entry points:
+ *   - grantAllianceXp()          — add XP (inside a caller's transaction)
+ *   - upgradeAlliancePerk()      — leader buys the next rank of a perk
+ *   - getAllianceProgression()   — level, XP bar and perk trees for the UI
+ *   - getAlliancePerkModifiers() — unlocked perk modifiers for a player
+ */
+
+import prisma from "@/lib/database";
+import type { Prisma } from "@prisma/client";
+import { GameMetrics } from "@/lib/metrics";
+import { loadGameConfig } from "@/lib/game-config";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PerkRank {
+  /** Alliance level required to buy this rank */
+  level: number;
+  /** Treasury $LUNAR cost */
+  cost: number;
+  /** Modifier value once this rank is owned */
+  value: number;
+}
+
+export interface AlliancePerk {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  /** Modifier key fed to the event modifier pipeline */
+  modifier: string;
+  ranks: PerkRank[];
+}
+
+export interface PerkBonus {
+  name: string;
+  modifiers: Record<string, number>;
+}
+
+export interface AllianceXpGain {
+  level: number;
+  levelsGained: number;
+  maxMembers: number;
+}
+
+export interface PerkView {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  rank: number;
+  maxRank: number;
+  /** Modifier at the current rank (1 = none yet) */
+  current: number;
+  next: PerkRank | null;
+}
+
+export interface AllianceProgressionView {
+  level: number;
+  maxLevel: number;
+  xp: number;
+  /** XP earned since reaching the current level */
+  xpIntoLevel: number;
+  /** XP to go from this level to the next (null at max level) */
+  xpForNextLevel: number | null;
+  maxMembers: number;
+  treasury: number;
+  canUpgrade: boolean;
+  perks: PerkView[];
+}
+
+export interface PerkUpgradeResult {
+  success: boolean;
+  error?: string;
+  rank?: number;
+  levelsGained?: number;
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ALLIANCE_MAX_LEVEL = 10;
+
+/** XP to advance past level L = XP_BASE × L^XP_EXPONENT */
+const XP_BASE = 500;
+const XP_EXPONENT = 1.5;
+
+export const ALLIANCE_PERKS: Record<string, AlliancePerk> = {
+  production_boost: {
+    id: "production_boost",
+    name: "Shared Logistics",
+    description: "Boosts every member's production",
+    icon: "⚡",
+    modifier: "GLOBAL_PRODUCTION",
+    ranks: [
+      { level: 2, cost: 2000, value: 1.03 },
+      { level: 4, cost: 5000, value: 1.06 },
+      { level: 7, cost: 12000, value: 1.1 },
+    ],
+  },
+  market_discount: {
+    id: "market_discount",
+    name: "Trade Consortium",
+    description: "Cuts members' market trade fees",
+    icon: "📉",
+    modifier: "TRADE_FEE",
+    ranks: [
+      { level: 3, cost: 2500, value: 0.9 },
+      { level: 5, cost: 6000, value: 0.8 },
+      { level: 8, cost: 15000, value: 0.65 },
+    ],
+  },
+  repair_discount: {
+    id: "repair_discount",
+    name: "Maintenance Guild",
+    description: "Cheaper module repairs for members",
+    icon: "🔧",
+    modifier: "GLOBAL_REPAIR_COST",
+    ranks: [
+      { level: 2, cost: 1500, value: 0.9 },
+      { level: 5, cost: 4000, value: 0.8 },
+      { level: 9, cost: 10000, value: 0.7 },
+    ],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// 1. XP curve
+// ---------------------------------------------------------------------------
+
+/** XP needed to go from `level` to `level + 1` (Infinity at max level). */
+export function allianceXpForLevel(level: number): number {
+  if (level >= ALLIANCE_MAX_LEVEL) return Infinity;
+  return Math.floor(XP_BASE * Math.pow(level, XP_EXPONENT));
+}
+
+/** Cumulative XP at which `level` is reached. */
+export function allianceXpToReach(level: number): number {
+  let total = 0;
+  for (let l = 1; l < Math.min(level, ALLIANCE_MAX_LEVEL); l++) {
+    total += allianceXpForLevel(l);
+  }
+  return total;
+}
+
+/** Level for a cumulative XP total. */
+export function allianceLevelForXp(xp: number): number {
+  let level = 1;
+  while (level < ALLIANCE_MAX_LEVEL && xp >= allianceXpToReach(level + 1)) {
+    level++;
+  }
+  return level;
+}
+
+/** Member slots at a level. */
+export function allianceMaxMembers(
+  baseSlots: number,
+  slotsPerLevel: number,
+  level: number,
+): number {
+  return baseSlots + slotsPerLevel * (level - 1);
+}
+
+// ---------------------------------------------------------------------------
+// 2–3. XP sources + level-ups
+// ---------------------------------------------------------------------------
+
+/**
+ * Add XP to an alliance and apply any level-up. `alliance` is the row as
+ * the caller read it; the XP increment is atomic and the level write is
+ * monotonic (only ever raises the level), so concurrent grants are safe.
+ * Runs on the caller's transaction client when given one.
+ */
+export async function grantAllianceXp(
+  db: Db,
+  alliance: { id: string; xp: number; level: number },
+  amount: number,
+  source: "production" | "perk_upgrade",
+): Promise<AllianceXpGain | null> {
+  const gained = Math.floor(amount);
+  if (gained <= 0) return null;
+
+  await db.alliance.update({
+    where: { id: alliance.id },
+    data: { xp: { increment: gained } },
+  });
+
+  const level = allianceLevelForXp(alliance.xp + gained);
+  if (level <= alliance.level) return null;
+
+  const config = await loadGameConfig();
+  const maxMembers = allianceMaxMembers(
+    config.alliance_max_members,
+    config.alliance_slots_per_level,
+    level,
+  );
+  const { count } = await db.alliance.updateMany({
+    where: { id: alliance.id, level: { lt: level } },
+    data: { level, maxMembers },
+  });
+  if (count === 0) return null;
+
+  await db.gameEvent.create({
+    data: {
+      type: "alliance_level_up",
+      data: {
+        allianceId: alliance.id,
+        from: alliance.level,
+        to: level,
+        maxMembers,
+        source,
+      },
+    },
+  });
+
+  return { level, levelsGained: level - alliance.level, maxMembers };
+}
+
+// ---------------------------------------------------------------------------
+// 4. Perks
+// ---------------------------------------------------------------------------
+
+function perkRanks(perks: Prisma.JsonValue): Record<string, number> {
+  const ranks: Record<string, number> = {};
+  if (perks && typeof perks === "object" && !Array.isArray(perks)) {
+    for (const [id, rank] of Object.entries(perks)) {
+      if (typeof rank === "number" && ALLIANCE_PERKS[id]) ranks[id] = rank;
+    }
+  }
+  return ranks;
+}
+
+/** Modifier value of a perk at a rank (1 = no effect). */
+function perkValue(perk: AlliancePerk, rank: number): number {
+  return rank > 0 ? (perk.ranks[rank - 1]?.value ?? 1) : 1;
+}
+
+/**
+ * Leader buys the next rank of a perk with treasury $LUNAR. The spend
+ * earns alliance XP.
+ */
+export async function upgradeAlliancePerk(
+  playerId: string,
+  perkId: string,
+): Promise<PerkUpgradeResult> {
+  const perk = ALLIANCE_PERKS[perkId];
+  if (!perk) return { success: false, error: "Unknown perk" };
+
+  const member = await prisma.allianceMember.findUnique({
+    where: { playerId },
+    include: { alliance: true },
+  });
+  if (!member || member.alliance.deletedAt) {
+    return { success: false, error: "Not in an alliance" };
+  }
+  if (member.role !== "LEADER") {
+    return { success: false, error: "Only the leader can upgrade perks" };
+  }
+
+  const alliance = member.alliance;
+  const ranks = perkRanks(alliance.perks);
+  const current = ranks[perkId] ?? 0;
+  const next = perk.ranks[current];
+  if (!next) return { success: false, error: `${perk.name} is maxed out` };
+  if (alliance.level < next.level) {
+    return {
+      success: false,
+      error: `${perk.name} rank ${current + 1} needs alliance level ${next.level}`,
+    };
+  }
+  if (Number(alliance.totalLunar) < next.cost) {
+    return {
+      success: false,
+      error: `Treasury needs ${next.cost} $LUNAR, has ${Math.floor(Number(alliance.totalLunar))}`,
+    };
+  }
+
+  const config = await loadGameConfig();
+  const rank = current + 1;
+
+  try {
+    const gain = await prisma.$transaction(async (tx) => {
+      // Version + balance guard: a concurrent spend or upgrade aborts this one
+      await tx.alliance.update({
+        where: {
+          id: alliance.id,
+          version: alliance.version,
+          totalLunar: { gte: next.cost },
+        },
+        data: {
+          totalLunar: { decrement: next.cost },
+          perks: { ...ranks, [perkId]: rank },
+          version: { increment: 1 },
+        },
+      });
+      await tx.gameEvent.create({
+        data: {
+          playerId,
+          type: "alliance_perk_upgraded",
+          data: {
+            allianceId: alliance.id,
+            perk: perkId,
+            rank,
+            cost: next.cost,
+          },
+        },
+      });
+      return grantAllianceXp(
+        tx,
+        alliance,
+        next.cost * config.alliance_xp_per_lunar_spent,
+        "perk_upgrade",
+      );
+    });
+
+    GameMetrics.trackPlayerAction(playerId, "alliance_perk_upgrade", {
+      allianceId: alliance.id,
+      perk: perkId,
+      rank,
+      cost: next.cost,
+    });
+
+    return { success: true, rank, levelsGained: gain?.levelsGained ?? 0 };
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      context: "alliance_perk_upgrade",
+      playerId,
+      perk: perkId,
+    });
+    return { success: false, error: "Treasury changed, please retry" };
+  }
+}
+
+/**
+ * Unlocked perk modifiers for the player's alliance, one entry per perk
+ * with a rank, in the shape getPlayerEventModifiers() merges.
+ */
+export async function getAlliancePerkModifiers(
+  playerId: string,
+): Promise<PerkBonus[]> {
+  const alliance = await prisma.alliance.findFirst({
+    where: { deletedAt: null, members: { some: { playerId } } },
+    select: { perks: true },
+  });
+  if (!alliance) return [];
+
+  return Object.entries(perkRanks(alliance.perks)).flatMap(([id, rank]) => {
+    const perk = ALLIANCE_PERKS[id]!;
+    return rank > 0
+      ? [
+          {
+            name: `${perk.name} ${rank}`,
+            modifiers: { [perk.modifier]: perkValue(perk, rank) },
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Level, XP progress, member slots and perk trees for the player's
+ * alliance, or null if they aren't in one.
+ */
+export async function getAllianceProgression(
+  playerId: string,
+): Promise<AllianceProgressionView | null> {
+  const member = await prisma.allianceMember.findUnique({
+    where: { playerId },
+    include: { alliance: true },
+  });
+  if (!member || member.alliance.deletedAt) return null;
+
+  const alliance = member.alliance;
+  const ranks = perkRanks(alliance.perks);
+  const atMax = alliance.level >= ALLIANCE_MAX_LEVEL;
+
+  return {
+    level: alliance.level,
+    maxLevel: ALLIANCE_MAX_LEVEL,
+    xp: alliance.xp,
+    xpIntoLevel: alliance.xp - allianceXpToReach(alliance.level),
+    xpForNextLevel: atMax ? null : allianceXpForLevel(alliance.level),
+    maxMembers: alliance.maxMembers,
+    treasury: Number(alliance.totalLunar),
+    canUpgrade: member.role === "LEADER",
+    perks: Object.values(ALLIANCE_PERKS).map((perk) => {
+      const rank = ranks[perk.id] ?? 0;
+      return {
+        id: perk.id,
+        name: perk.name,
+        description: perk.description,
+        icon: perk.icon,
+        rank,
+        maxRank: perk.ranks.length,
+        current: perkValue(perk, rank),
+        next: perk.ranks[rank] ?? null,
+      };
+    }),
+  };
+}
+
+const allianceProgression = {
+  grantAllianceXp,
+  upgradeAlliancePerk,
+  getAllianceProgression,
+  getAlliancePerkModifiers,
+};
+
+export default allianceProgression;
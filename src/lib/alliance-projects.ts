@@ -0,0 +1,549 @@
+/**
+ * Alliance Project Engine
+ *
+ * Cooperative builds funded by members' raw materials:
+ *   1. Blueprints    — fixed catalogue of projects, each needing quantities
+ *                      of raw materials and granting a permanent bonus
+ *   2. Start         — the alliance leader picks the next blueprint; one
+ *                      project runs at a time and each is built once
+ *   3. Contributions — members deliver from their PlayerResource stockpile,
+ *                      capped at what the project still needs
+ *   4. Completion    — the final delivery pays the blueprint's $LUNAR
+ *                      reward to contributors, weighted by delivered value
+ *   5. Bonuses       — completed projects' modifiers are merged into
+ *                      getPlayerEventModifiers(), so production applies
+ *                      them like any event modifier
+ *
+ * Entry points:
+ *   - getAllianceProjects()         — dashboard view
+ *   - startProject()                — leader action
+ *   - contributeToProject()         — member action
+ *   - getAllianceProjectModifiers() — called by the event modifier pipeline
+ */
+
+import prisma from "@/lib/database";
+import type { AllianceProjectStatus, Prisma } from "@prisma/client";
+import type { ResourceType } from "@/lib/utils";
+import { GameMetrics } from "@/lib/metrics";
+import { RESOURCE_CONFIGS } from "@/lib/market-engine";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ProjectResource = Exclude<ResourceType, "LUNAR">;
+
+export interface ProjectBlueprint {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  requirements: Partial<Record<ProjectResource, number>>;
+  /** Event modifier keys (GLOBAL_PRODUCTION, <MODULE>_OUTPUT, …_BONUS) */
+  modifiers: Record<string, number>;
+  /** $LUNAR split between contributors on completion */
+  rewardLunar: number;
+}
+
+export interface ProjectView {
+  id: string;
+  blueprint: ProjectBlueprint;
+  status: AllianceProjectStatus;
+  progress: Partial<Record<ProjectResource, number>>;
+  /** Completion by delivered value, 0–100 */
+  percent: number;
+  contributors: number;
+  /** Caller's delivered value in $LUNAR */
+  myContribution: number;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface AllianceProjectsView {
+  active: ProjectView | null;
+  completed: ProjectView[];
+  /** Blueprints not yet built */
+  available: ProjectBlueprint[];
+  canStart: boolean;
+  /** Merged permanent bonuses from completed projects */
+  bonuses: Record<string, number>;
+}
+
+export interface ProjectResult {
+  success: boolean;
+  error?: string;
+  projectId?: string;
+  /** Quantity actually taken (capped at what the project still needs) */
+  delivered?: number;
+  completed?: boolean;
+  /** Total $LUNAR paid to contributors when this delivery completed it */
+  rewardsPaid?: number;
+}
+
+export interface ProjectBonus {
+  name: string;
+  modifiers: Record<string, number>;
+}
+
+// ---------------------------------------------------------------------------
+// 1. Blueprints
+// ---------------------------------------------------------------------------
+
+export const PROJECT_BLUEPRINTS: Record<string, ProjectBlueprint> = {
+  solar_array: {
+    id: "solar_array",
+    name: "Mega Solar Array",
+    icon: "☀️",
+    description: "+10% Solar Panel output for every member",
+    requirements: { REGOLITH: 2000, RARE_EARTH: 100 },
+    modifiers: { SOLAR_PANEL_OUTPUT: 1.1 },
+    rewardLunar: 5000,
+  },
+  deep_core: {
+    id: "deep_core",
+    name: "Deep Core Mining",
+    icon: "⛏️",
+    description: "+10% Mining Rig output and +5% Regolith yield",
+    requirements: { REGOLITH: 3000, HELIUM3: 200 },
+    modifiers: { MINING_RIG_OUTPUT: 1.1, REGOLITH_BONUS: 1.05 },
+    rewardLunar: 3500,
+  },
+  cryo_refinery: {
+    id: "cryo_refinery",
+    name: "Cryo Refinery",
+    icon: "🧊",
+    description: "+10% Water Extractor output and +5% Water Ice yield",
+    requirements: { WATER_ICE: 2500, REGOLITH: 1000 },
+    modifiers: { WATER_EXTRACTOR_OUTPUT: 1.1, WATER_ICE_BONUS: 1.05 },
+    rewardLunar: 3000,
+  },
+  fusion_core: {
+    id: "fusion_core",
+    name: "Fusion Core",
+    icon: "⚛️",
+    description: "+5% production across the whole colony",
+    requirements: { HELIUM3: 1000, RARE_EARTH: 300, WATER_ICE: 1500 },
+    modifiers: { GLOBAL_PRODUCTION: 1.05 },
+    rewardLunar: 8000,
+  },
+};
+
+/** $LUNAR value of delivered materials, at market base price. */
+export function projectValue(
+  amounts: Partial<Record<ProjectResource, number>>,
+): number {
+  return Object.entries(amounts).reduce(
+    (sum, [resource, qty]) =>
+      sum + (qty ?? 0) * RESOURCE_CONFIGS[resource as ResourceType].basePrice,
+    0,
+  );
+}
+
+/** Completion % by value, counting each resource up to its requirement. */
+export function projectPercent(
+  blueprint: ProjectBlueprint,
+  progress: Partial<Record<ProjectResource, number>>,
+): number {
+  const capped: Partial<Record<ProjectResource, number>> = {};
+  for (const [resource, required] of Object.entries(blueprint.requirements)) {
+    const r = resource as ProjectResource;
+    capped[r] = Math.min(progress[r] ?? 0, required ?? 0);
+  }
+  const total = projectValue(blueprint.requirements);
+  return total > 0
+    ? Math.floor((projectValue(capped) / total) * 10_000) / 100
+    : 100;
+}
+
+/** Multiply together the modifiers of several bonuses. */
+export function mergeProjectModifiers(
+  bonuses: ProjectBonus[],
+): Record<string, number> {
+  const merged: Record<string, number> = {};
+  for (const bonus of bonuses) {
+    for (const [key, value] of Object.entries(bonus.modifiers)) {
+      merged[key] = (merged[key] ?? 1) * value;
+    }
+  }
+  return merged;
+}
+
+function isComplete(
+  blueprint: ProjectBlueprint,
+  progress: Partial<Record<ProjectResource, number>>,
+): boolean {
+  return Object.entries(blueprint.requirements).every(
+    ([resource, required]) =>
+      (progress[resource as ProjectResource] ?? 0) >= (required ?? 0),
+  );
+}
+
+async function findMembership(playerId: string) {
+  const member = await prisma.allianceMember.findUnique({
+    where: { playerId },
+    include: { alliance: true },
+  });
+  return member && !member.alliance.deletedAt ? member : null;
+}
+
+// ---------------------------------------------------------------------------
+// Dashboard view
+// ---------------------------------------------------------------------------
+
+/**
+ * The caller's alliance projects, or null when not in an alliance.
+ */
+export async function getAllianceProjects(
+  playerId: string,
+): Promise<AllianceProjectsView | null> {
+  const member = await findMembership(playerId);
+  if (!member) return null;
+
+  const projects = await prisma.allianceProject.findMany({
+    where: { allianceId: member.allianceId },
+    include: { contributions: { select: { playerId: true, value: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const views: ProjectView[] = [];
+  for (const p of projects) {
+    const blueprint = PROJECT_BLUEPRINTS[p.blueprint];
+    if (!blueprint) continue;
+    const progress = p.progress as Partial<Record<ProjectResource, number>>;
+    const mine = p.contributions.find((c) => c.playerId === playerId);
+    views.push({
+      id: p.id,
+      blueprint,
+      status: p.status,
+      progress,
+      percent: projectPercent(blueprint, progress),
+      contributors: p.contributions.length,
+      myContribution: Number(mine?.value ?? 0),
+      createdAt: p.createdAt.toISOString(),
+      completedAt: p.completedAt?.toISOString() ?? null,
+    });
+  }
+
+  const completed = views.filter((v) => v.status === "COMPLETED");
+  const built = new Set(completed.map((v) => v.blueprint.id));
+  const active = views.find((v) => v.status === "ACTIVE") ?? null;
+
+  return {
+    active,
+    completed,
+    available: Object.values(PROJECT_BLUEPRINTS).filter(
+      (b) => !built.has(b.id) && b.id !== active?.blueprint.id,
+    ),
+    canStart: member.role === "LEADER" && !active,
+    bonuses: mergeProjectModifiers(
+      completed.map((v) => ({
+        name: v.blueprint.name,
+        modifiers: v.blueprint.modifiers,
+      })),
+    ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 2. Start
+// ---------------------------------------------------------------------------
+
+/**
+ * Leader starts a blueprint. Only one project may be active, and each
+ * blueprint can be built once per alliance.
+ */
+export async function startProject(
+  playerId: string,
+  blueprintId: string,
+): Promise<ProjectResult> {
+  const blueprint = PROJECT_BLUEPRINTS[blueprintId];
+  if (!blueprint) return { success: false, error: "Unknown project" };
+
+  const member = await findMembership(playerId);
+  if (!member) return { success: false, error: "Not in an alliance" };
+  if (member.role !== "LEADER") {
+    return {
+      success: false,
+      error: "Only the alliance leader can start projects",
+    };
+  }
+  const { alliance } = member;
+
+  const existing = await prisma.allianceProject.findMany({
+    where: {
+      allianceId: alliance.id,
+      OR: [{ status: "ACTIVE" }, { blueprint: blueprintId }],
+    },
+    select: { status: true, blueprint: true },
+  });
+  if (existing.some((p) => p.status === "ACTIVE")) {
+    return { success: false, error: "Finish the current project first" };
+  }
+  if (existing.some((p) => p.blueprint === blueprintId)) {
+    return { success: false, error: `${blueprint.name} is already built` };
+  }
+
+  const [, project] = await prisma.$transaction([
+    // Version lock stops two concurrent starts both passing the check above
+    prisma.alliance.update({
+      where: { id: alliance.id, version: alliance.version },
+      data: { version: { increment: 1 } },
+    }),
+    prisma.allianceProject.create({
+      data: {
+        allianceId: alliance.id,
+        blueprint: blueprintId,
+        startedById: playerId,
+      },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "alliance_project_started",
+        data: { allianceId: alliance.id, blueprint: blueprintId },
+      },
+    }),
+  ]);
+
+  GameMetrics.trackPlayerAction(playerId, "alliance_project_start", {
+    allianceId: alliance.id,
+    blueprint: blueprintId,
+  });
+
+  return { success: true, projectId: project.id };
+}
+
+// ---------------------------------------------------------------------------
+// 3. Contributions + 4. Completion
+// ---------------------------------------------------------------------------
+
+/**
+ * Deliver raw materials from the caller's stockpile to the active project.
+ * Anything beyond the remaining requirement is left with the player. The
+ * delivery that completes the project also pays out its reward.
+ */
+export async function contributeToProject(
+  playerId: string,
+  resource: ProjectResource,
+  quantity: number,
+): Promise<ProjectResult> {
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return { success: false, error: "Quantity must be positive" };
+  }
+
+  const member = await findMembership(playerId);
+  if (!member) return { success: false, error: "Not in an alliance" };
+  const { alliance } = member;
+
+  const project = await prisma.allianceProject.findFirst({
+    where: { allianceId: alliance.id, status: "ACTIVE" },
+  });
+  const blueprint = project && PROJECT_BLUEPRINTS[project.blueprint];
+  if (!project || !blueprint) {
+    return { success: false, error: "No active project" };
+  }
+
+  const progress = {
+    ...(project.progress as Partial<Record<ProjectResource, number>>),
+  };
+  const required = blueprint.requirements[resource];
+  if (!required) {
+    return {
+      success: false,
+      error: `${blueprint.name} doesn't need ${resource}`,
+    };
+  }
+  const remaining = required - (progress[resource] ?? 0);
+  if (remaining <= 0) {
+    return { success: false, error: `${resource} requirement already met` };
+  }
+  const delivered = Math.floor(Math.min(quantity, remaining) * 10_000) / 10_000;
+
+  const stock = await prisma.playerResource.findUnique({
+    where: { playerId_type: { playerId, type: resource } },
+  });
+  const held = Number(stock?.amount ?? 0);
+  if (held < delivered) {
+    return {
+      success: false,
+      error: `Not enough ${resource}. Have ${Math.floor(held * 100) / 100}.`,
+    };
+  }
+
+  progress[resource] = (progress[resource] ?? 0) + delivered;
+  const value = projectValue({ [resource]: delivered });
+  const completed = isComplete(blueprint, progress);
+  const metadata = {
+    allianceId: alliance.id,
+    projectId: project.id,
+    blueprint: blueprint.id,
+    lunarValue: value,
+  };
+
+  const rewards = completed
+    ? await buildRewardPayouts(project.id, blueprint, playerId, value)
+    : { ops: [], paid: 0 };
+
+  await prisma.$transaction([
+    // Amount guard: a concurrent spend can't overdraw the stockpile
+    prisma.playerResource.update({
+      where: {
+        playerId_type: { playerId, type: resource },
+        amount: { gte: delivered },
+      },
+      data: { amount: { decrement: delivered } },
+    }),
+    // Version lock serialises deliveries so progress can't overshoot
+    prisma.allianceProject.update({
+      where: { id: project.id, version: project.version },
+      data: {
+        progress,
+        version: { increment: 1 },
+        ...(completed
+          ? { status: "COMPLETED" as const, completedAt: new Date() }
+          : {}),
+      },
+    }),
+    prisma.allianceProjectContribution.upsert({
+      where: { projectId_playerId: { projectId: project.id, playerId } },
+      create: { projectId: project.id, playerId, value },
+      update: { value: { increment: value } },
+    }),
+    prisma.transaction.create({
+      data: {
+        playerId,
+        type: "ALLIANCE_PROJECT",
+        resource,
+        amount: -delivered,
+        balanceAfter: held - delivered,
+        description: `Delivered to "${blueprint.name}"`,
+        metadata,
+      },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: completed
+          ? "alliance_project_completed"
+          : "alliance_project_contribution",
+        data: { ...metadata, resource, quantity: delivered },
+      },
+    }),
+    ...rewards.ops,
+  ]);
+
+  GameMetrics.trackPlayerAction(playerId, "alliance_project_contribute", {
+    allianceId: alliance.id,
+    blueprint: blueprint.id,
+    resource,
+    quantity: delivered,
+    completed,
+  });
+
+  return {
+    success: true,
+    projectId: project.id,
+    delivered,
+    completed,
+    rewardsPaid: rewards.paid,
+  };
+}
+
+/**
+ * Reward ledger writes for a completing project: whole-$LUNAR shares of
+ * the blueprint reward, weighted by each contributor's delivered value
+ * (including the completing delivery, not yet persisted).
+ */
+async function buildRewardPayouts(
+  projectId: string,
+  blueprint: ProjectBlueprint,
+  finisherId: string,
+  finisherValue: number,
+): Promise<{ ops: Prisma.PrismaPromise<unknown>[]; paid: number }> {
+  const contributions = await prisma.allianceProjectContribution.findMany({
+    where: { projectId },
+    select: { playerId: true, value: true },
+  });
+
+  const weights = new Map<string, number>();
+  for (const c of contributions) weights.set(c.playerId, Number(c.value));
+  weights.set(finisherId, (weights.get(finisherId) ?? 0) + finisherValue);
+  const totalWeight = [...weights.values()].reduce((a, b) => a + b, 0);
+  if (totalWeight <= 0) return { ops: [], paid: 0 };
+
+  const players = await prisma.player.findMany({
+    where: { id: { in: [...weights.keys()] } },
+    select: { id: true, lunarBalance: true },
+  });
+
+  const ops: Prisma.PrismaPromise<unknown>[] = [];
+  let paid = 0;
+  for (const player of players) {
+    const weight = weights.get(player.id) ?? 0;
+    const amount = Math.floor((blueprint.rewardLunar * weight) / totalWeight);
+    if (amount <= 0) continue;
+    paid += amount;
+    ops.push(
+      prisma.player.update({
+        where: { id: player.id },
+        data: {
+          lunarBalance: { increment: amount },
+          totalEarnings: { increment: amount },
+        },
+      }),
+      prisma.transaction.create({
+        data: {
+          playerId: player.id,
+          type: "ALLIANCE_PROJECT",
+          resource: "LUNAR",
+          amount,
+          balanceAfter: Number(player.lunarBalance) + amount,
+          description: `"${blueprint.name}" completion reward`,
+          metadata: {
+            projectId,
+            blueprint: blueprint.id,
+            share: weight / totalWeight,
+          },
+        },
+      }),
+    );
+  }
+
+  return { ops, paid };
+}
+
+// ---------------------------------------------------------------------------
+// 5. Bonuses
+// ---------------------------------------------------------------------------
+
+/**
+ * Permanent bonuses from the player's alliance's completed projects.
+ * Merged into event modifiers by getPlayerEventModifiers().
+ */
+export async function getAllianceProjectModifiers(
+  playerId: string,
+): Promise<ProjectBonus[]> {
+  const projects = await prisma.allianceProject.findMany({
+    where: {
+      status: "COMPLETED",
+      alliance: { deletedAt: null, members: { some: { playerId } } },
+    },
+    select: { blueprint: true },
+  });
+
+  return projects.flatMap((p) => {
+    const blueprint = PROJECT_BLUEPRINTS[p.blueprint];
+    return blueprint
+      ? [{ name: blueprint.name, modifiers: blueprint.modifiers }]
+      : [];
+  });
+}
+
+const allianceProjects = {
+  getAllianceProjects,
+  startProject,
+  contributeToProject,
+  getAllianceProjectModifiers,
+};
+
+export default allianceProjects;
@@ -0,0 +1,478 @@
+/**
+ * Alliance Rankings & Profiles
+ *
+ * Alliance-level counterpart of the player leaderboard:
+ *   1. Leaderboard — AllianceLeaderboardSnapshot rows per period and metric
+ *                    (treasury, members' $LUNAR production, tournament
+ *                    wins), rebuilt by cron like LeaderboardSnapshot
+ *   2. Profiles    — public view of one alliance: members, recruitment
+ *                    status, ranks and recent achievements
+ *   3. Directory   — searchable, sortable alliance browser
+ *
+ * Production is attributed to each member's current alliance, so a player
+ * who switches alliances takes their output history with them.
+ *
+ * Entry points:
+ *   - refreshAllAllianceLeaderboards() — cron: rebuild every period
+ *   - refreshAllianceLeaderboard()     — rebuild one period's snapshot
+ *   - getAllianceLeaderboard()         — read a cached ranking
+ *   - getAllianceProfile()             — public profile page
+ *   - searchAlliances()                — /api/alliance/list
+ */
+
+import prisma, { readPrisma } from "@/lib/database";
+import type {
+  AllianceJoinMode,
+  AllianceRankMetric,
+  AllianceRole,
+  LeaderboardPeriod,
+  Prisma,
+} from "@prisma/client";
+import { PROJECT_BLUEPRINTS } from "@/lib/alliance-projects";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AllianceLeaderboardEntry {
+  rank: number;
+  allianceId: string;
+  name: string;
+  value: number;
+  memberCount: number;
+  level: number;
+}
+
+export interface AllianceAchievement {
+  kind: "level" | "project" | "tournament";
+  icon: string;
+  title: string;
+  at: Date;
+}
+
+export interface AllianceProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  level: number;
+  memberCount: number;
+  maxMembers: number;
+  joinMode: AllianceJoinMode;
+  /** Accepting members: not invite-only and has a free slot */
+  recruiting: boolean;
+  treasury: number;
+  createdAt: Date;
+  /** All-time rank per metric (absent = unranked) */
+  ranks: Partial<Record<AllianceRankMetric, number>>;
+  members: Array<{
+    fid: number;
+    username: string | null;
+    level: number;
+    role: AllianceRole;
+    joinedAt: Date;
+  }>;
+  achievements: AllianceAchievement[];
+}
+
+export type AllianceSort = "members" | "level" | "treasury" | "newest" | "name";
+
+export interface AllianceSearchOptions {
+  query?: string;
+  sort?: AllianceSort;
+  /** Hide invite-only alliances */
+  recruiting?: boolean;
+  limit?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const ALLIANCE_RANK_METRICS: AllianceRankMetric[] = [
+  "TREASURY",
+  "PRODUCTION",
+  "TOURNAMENT_WINS",
+];
+
+export const ALLIANCE_SORTS: AllianceSort[] = [
+  "members",
+  "level",
+  "treasury",
+  "newest",
+  "name",
+];
+
+/** Rolling window per period (null = all time). */
+const PERIOD_MS: Record<LeaderboardPeriod, number | null> = {
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000,
+  ALLTIME: null,
+};
+
+const SORT_ORDER: Record<
+  AllianceSort,
+  Prisma.AllianceOrderByWithRelationInput[]
+> = {
+  members: [{ memberCount: "desc" }, { level: "desc" }],
+  level: [{ level: "desc" }, { xp: "desc" }],
+  treasury: [{ totalLunar: "desc" }],
+  newest: [{ createdAt: "desc" }],
+  name: [{ name: "asc" }],
+};
+
+const ROLE_ORDER: Record<AllianceRole, number> = {
+  LEADER: 0,
+  OFFICER: 1,
+  MEMBER: 2,
+};
+
+const MEDALS: Record<number, string> = { 1: "🥇", 2: "🥈", 3: "🥉" };
+
+const MAX_ACHIEVEMENTS = 10;
+
+// ---------------------------------------------------------------------------
+// 1. Leaderboard
+// ---------------------------------------------------------------------------
+
+/**
+ * Rank alliances by a metric: highest value first, ties broken by member
+ * count then name. Alliances scoring zero aren't ranked.
+ */
+export function rankAlliances<T extends { name: string; memberCount: number }>(
+  alliances: T[],
+  value: (alliance: T) => number,
+  limit: number,
+): Array<{ alliance: T; value: number }> {
+  return alliances
+    .map((alliance) => ({ alliance, value: value(alliance) }))
+    .filter((r) => r.value > 0)
+    .sort(
+      (a, b) =>
+        b.value - a.value ||
+        b.alliance.memberCount - a.alliance.memberCount ||
+        a.alliance.name.localeCompare(b.alliance.name),
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Rebuild one period's alliance leaderboard for every metric. Aggregates
+ * run on the read replica; the old rows are replaced atomically.
+ */
+export async function refreshAllianceLeaderboard(
+  period: LeaderboardPeriod = "ALLTIME",
+  limit = 100,
+  now = new Date(),
+): Promise<{ entries: number; durationMs: number }> {
+  const start = Date.now();
+  const windowMs = PERIOD_MS[period];
+  const since = windowMs === null ? null : new Date(now.getTime() - windowMs);
+
+  const [alliances, production, wins] = await Promise.all([
+    readPrisma.alliance.findMany({
+      where: { deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        level: true,
+        memberCount: true,
+        totalLunar: true,
+        members: { select: { playerId: true } },
+      },
+    }),
+    readPrisma.transaction.groupBy({
+      by: ["playerId"],
+      where: {
+        type: "PRODUCTION",
+        resource: "LUNAR",
+        player: { allianceMember: { isNot: null } },
+        ...(since ? { createdAt: { gte: since } } : {}),
+      },
+      _sum: { amount: true },
+    }),
+    readPrisma.tournamentEntry.groupBy({
+      by: ["allianceId"],
+      where: {
+        rank: 1,
+        season: {
+          status: "COMPLETED",
+          ...(since ? { completedAt: { gte: since } } : {}),
+        },
+      },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const producedBy = new Map(
+    production.map((p) => [p.playerId, Number(p._sum.amount ?? 0)]),
+  );
+  const winsBy = new Map(wins.map((w) => [w.allianceId, w._count._all]));
+
+  const values: Record<
+    AllianceRankMetric,
+    (a: (typeof alliances)[number]) => number
+  > = {
+    TREASURY: (a) => Number(a.totalLunar),
+    PRODUCTION: (a) =>
+      a.members.reduce((sum, m) => sum + (producedBy.get(m.playerId) ?? 0), 0),
+    TOURNAMENT_WINS: (a) => winsBy.get(a.id) ?? 0,
+  };
+
+  const rows = ALLIANCE_RANK_METRICS.flatMap((metric) =>
+    rankAlliances(alliances, values[metric], limit).map((r, i) => ({
+      allianceId: r.alliance.id,
+      name: r.alliance.name,
+      period,
+      metric,
+      rank: i + 1,
+      value: r.value,
+      memberCount: r.alliance.memberCount,
+      level: r.alliance.level,
+    })),
+  );
+
+  await prisma.$transaction([
+    prisma.allianceLeaderboardSnapshot.deleteMany({ where: { period } }),
+    prisma.allianceLeaderboardSnapshot.createMany({ data: rows }),
+  ]);
+
+  return { entries: rows.length, durationMs: Date.now() - start };
+}
+
+/**
+ * Rebuild every period's alliance leaderboard, one after another to keep
+ * replica load flat. Called by cron after the player leaderboard.
+ */
+export async function refreshAllAllianceLeaderboards(
+  limit = 100,
+): Promise<{ entries: number; durationMs: number }> {
+  const start = Date.now();
+  const now = new Date();
+  let entries = 0;
+  for (const period of Object.keys(PERIOD_MS) as LeaderboardPeriod[]) {
+    entries += (await refreshAllianceLeaderboard(period, limit, now)).entries;
+  }
+  return { entries, durationMs: Date.now() - start };
+}
+
+/**
+ * Read a cached alliance ranking (single indexed query).
+ */
+export async function getAllianceLeaderboard(
+  period: LeaderboardPeriod = "ALLTIME",
+  metric: AllianceRankMetric = "TREASURY",
+  limit = 50,
+): Promise<AllianceLeaderboardEntry[]> {
+  const rows = await readPrisma.allianceLeaderboardSnapshot.findMany({
+    where: { period, metric },
+    orderBy: { rank: "asc" },
+    take: limit,
+    select: {
+      rank: true,
+      allianceId: true,
+      name: true,
+      value: true,
+      memberCount: true,
+      level: true,
+    },
+  });
+
+  return rows.map((r) => ({ ...r, value: Number(r.value) }));
+}
+
+/**
+ * An alliance's cached rank for each metric in a period.
+ */
+export async function getAllianceRanks(
+  allianceId: string,
+  period: LeaderboardPeriod = "ALLTIME",
+): Promise<Partial<Record<AllianceRankMetric, number>>> {
+  const rows = await readPrisma.allianceLeaderboardSnapshot.findMany({
+    where: { allianceId, period },
+    select: { metric: true, rank: true },
+  });
+  return Object.fromEntries(rows.map((r) => [r.metric, r.rank]));
+}
+
+// ---------------------------------------------------------------------------
+// 2. Profiles
+// ---------------------------------------------------------------------------
+
+/**
+ * Latest milestones: level-ups, completed projects and tournament podiums,
+ * newest first.
+ */
+async function getAllianceAchievements(
+  allianceId: string,
+): Promise<AllianceAchievement[]> {
+  const [levelUps, projects, podiums] = await Promise.all([
+    readPrisma.gameEvent.findMany({
+      where: {
+        type: "alliance_level_up",
+        data: { path: ["allianceId"], equals: allianceId },
+      },
+      orderBy: { createdAt: "desc" },
+      take: MAX_ACHIEVEMENTS,
+      select: { data: true, createdAt: true },
+    }),
+    readPrisma.allianceProject.findMany({
+      where: { allianceId, status: "COMPLETED" },
+      orderBy: { completedAt: "desc" },
+      take: MAX_ACHIEVEMENTS,
+      select: { blueprint: true, completedAt: true },
+    }),
+    readPrisma.tournamentEntry.findMany({
+      where: { allianceId, rank: { lte: 3 }, season: { status: "COMPLETED" } },
+      orderBy: { season: { completedAt: "desc" } },
+      take: MAX_ACHIEVEMENTS,
+      select: {
+        rank: true,
+        season: { select: { name: true, completedAt: true } },
+      },
+    }),
+  ]);
+
+  const achievements: AllianceAchievement[] = [
+    ...levelUps.map((e) => ({
+      kind: "level" as const,
+      icon: "⭐",
+      title: `Reached level ${(e.data as { to?: number } | null)?.to ?? "?"}`,
+      at: e.createdAt,
+    })),
+    ...projects.flatMap((p) => {
+      const blueprint = PROJECT_BLUEPRINTS[p.blueprint];
+      return p.completedAt
+        ? [
+            {
+              kind: "project" as const,
+              icon: blueprint?.icon ?? "🏗️",
+              title: `Completed ${blueprint?.name ?? p.blueprint}`,
+              at: p.completedAt,
+            },
+          ]
+        : [];
+    }),
+    ...podiums.flatMap((e) =>
+      e.rank && e.season.completedAt
+        ? [
+            {
+              kind: "tournament" as const,
+              icon: MEDALS[e.rank] ?? "🏆",
+              title:
+                e.rank === 1
+                  ? `Won ${e.season.name}`
+                  : `#${e.rank} in ${e.season.name}`,
+              at: e.season.completedAt,
+            },
+          ]
+        : [],
+    ),
+  ];
+
+  return achievements
+    .sort((a, b) => b.at.getTime() - a.at.getTime())
+    .slice(0, MAX_ACHIEVEMENTS);
+}
+
+/**
+ * Public profile of a live alliance, or null if it doesn't exist or has
+ * disbanded.
+ */
+export async function getAllianceProfile(
+  allianceId: string,
+): Promise<AllianceProfile | null> {
+  const alliance = await readPrisma.alliance.findFirst({
+    where: { id: allianceId, deletedAt: null },
+    include: {
+      members: {
+        include: {
+          player: { select: { fid: true, username: true, level: true } },
+        },
+      },
+    },
+  });
+  if (!alliance) return null;
+
+  const [ranks, achievements] = await Promise.all([
+    getAllianceRanks(alliance.id),
+    getAllianceAchievements(alliance.id),
+  ]);
+
+  return {
+    id: alliance.id,
+    name: alliance.name,
+    description: alliance.description,
+    level: alliance.level,
+    memberCount: alliance.memberCount,
+    maxMembers: alliance.maxMembers,
+    joinMode: alliance.joinMode,
+    recruiting:
+      alliance.joinMode !== "INVITE_ONLY" &&
+      alliance.memberCount < alliance.maxMembers,
+    treasury: Number(alliance.totalLunar),
+    createdAt: alliance.createdAt,
+    ranks,
+    members: alliance.members
+      .sort(
+        (a, b) =>
+          ROLE_ORDER[a.role] - ROLE_ORDER[b.role] ||
+          a.joinedAt.getTime() - b.joinedAt.getTime(),
+      )
+      .map((m) => ({
+        fid: m.player.fid,
+        username: m.player.username,
+        level: m.player.level,
+        role: m.role,
+        joinedAt: m.joinedAt,
+      })),
+    achievements,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 3. Directory
+// ---------------------------------------------------------------------------
+
+/**
+ * Live alliances matching a case-insensitive name search, in the chosen
+ * order.
+ */
+export async function searchAlliances(options: AllianceSearchOptions = {}) {
+  const { query, sort = "members", recruiting = false, limit = 50 } = options;
+
+  const alliances = await readPrisma.alliance.findMany({
+    where: {
+      deletedAt: null,
+      ...(query ? { name: { contains: query, mode: "insensitive" } } : {}),
+      ...(recruiting ? { joinMode: { not: "INVITE_ONLY" } } : {}),
+    },
+    orderBy: SORT_ORDER[sort],
+    take: limit,
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      level: true,
+      memberCount: true,
+      maxMembers: true,
+      joinMode: true,
+      totalLunar: true,
+    },
+  });
+
+  return alliances.map(({ totalLunar, ...a }) => ({
+    ...a,
+    treasury: Number(totalLunar),
+  }));
+}
+
+const allianceRankings = {
+  refreshAllianceLeaderboard,
+  refreshAllAllianceLeaderboards,
+  getAllianceLeaderboard,
+  getAllianceRanks,
+  getAllianceProfile,
+  searchAlliances,
+};
+
+export default allianceRankings;
@@ -13,6 +13,20 @@ function getApiKey(): string {
   return key;
 }
 
+/**
+ * A response Neynar answered with an error status (404 for an unknown
+ * user). Transport failures surface as the underlying fetch error.
+ */
+export class NeynarError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "NeynarError";
+  }
+}
+
 /** Rate limiter: simple in-memory token bucket */
 const rateLimiter = {
   tokens: 100,
@@ -53,7 +67,10 @@ async function neynarFetch<T>(
 
   if (!res.ok) {
     const error = await res.text();
-    throw new Error(`Neynar API error (${res.status}): ${error}`);
+    throw new NeynarError(
+      `Neynar API error (${res.status}): ${error}`,
+      res.status,
+    );
   }
 
   return res.json() as Promise<T>;
@@ -101,6 +118,8 @@ export interface FarcasterUser {
   pfp_url: string;
   follower_count: number;
   following_count: number;
+  /** ISO timestamp of the account's FID registration */
+  registered_at: string;
 }
 
 /**
@@ -114,7 +133,7 @@ export async function getUserByFid(fid: number): Promise<FarcasterUser> {
   );
 
   const user = result.users[0];
-  if (!user) throw new Error(`User not found: FID ${fid}`);
+  if (!user) throw new NeynarError(`User not found: FID ${fid}`, 404);
   return user;
 }
 
@@ -0,0 +1,159 @@
+/**
+ * Crew Progression
+ *
+ * XP, leveling and role perks for crew members:
+ *   1. XP curve   — crewXpForLevel(): XP needed to advance past a level
+ *   2. Level-ups  — applyCrewXp(): pure; each level raises the member's
+ *                   outputBonus / efficiencyBonus
+ *   3. Role perks — one perk per role, unlocked at PERK_UNLOCK_LEVEL and
+ *                   applied to the assigned module by production-engine
+ *
+ * Crew assigned to a module that runs in a production cycle earn
+ * `crew_xp_per_cycle` XP (see calculatePlayerProduction/creditProduction).
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Multipliers a perk applies to its crew member's assigned module. */
+export interface CrewPerkEffects {
+  /** Scales the aging threshold (cycles before diminishing returns) */
+  agingThresholdMult?: number;
+  /** Scales the per-cycle aging decay */
+  agingDecayMult?: number;
+  /** Scales raw-material (non-LUNAR) output */
+  rawOutputMult?: number;
+  /** Scales total module output */
+  outputMult?: number;
+  /** Scales the crew member's own XP gain */
+  xpMult?: number;
+}
+
+export interface CrewPerk {
+  name: string;
+  description: string;
+  unlockLevel: number;
+  effects: CrewPerkEffects;
+}
+
+export interface CrewStats {
+  xp: number;
+  level: number;
+  outputBonus: number;
+  efficiencyBonus: number;
+}
+
+export interface CrewLevelUp extends CrewStats {
+  levelsGained: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const CREW_MAX_LEVEL = 10;
+
+/** XP to advance past level L = XP_BASE × L^XP_EXPONENT */
+const XP_BASE = 5;
+const XP_EXPONENT = 1.5;
+
+/** Bonus percentage points gained per level-up. */
+export const LEVEL_UP_BONUS = { outputBonus: 1, efficiencyBonus: 0.5 };
+
+const PERK_UNLOCK_LEVEL = 3;
+
+export const CREW_PERKS: Record<string, CrewPerk> = {
+  medic: {
+    name: "Field Medicine",
+    description: "Assigned module starts aging 50% later",
+    unlockLevel: PERK_UNLOCK_LEVEL,
+    effects: { agingThresholdMult: 1.5 },
+  },
+  engineer: {
+    name: "Preventive Maintenance",
+    description: "Assigned module's efficiency decays half as fast with age",
+    unlockLevel: PERK_UNLOCK_LEVEL,
+    effects: { agingDecayMult: 0.5 },
+  },
+  geologist: {
+    name: "Core Sampling",
+    description: "+10% raw materials from the assigned module",
+    unlockLevel: PERK_UNLOCK_LEVEL,
+    effects: { rawOutputMult: 1.1 },
+  },
+  pilot: {
+    name: "Flight Efficiency",
+    description: "+5% total output from the assigned module",
+    unlockLevel: PERK_UNLOCK_LEVEL,
+    effects: { outputMult: 1.05 },
+  },
+  scientist: {
+    name: "Quick Study",
+    description: "Earns 50% more crew XP",
+    unlockLevel: PERK_UNLOCK_LEVEL,
+    effects: { xpMult: 1.5 },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// 1. XP curve
+// ---------------------------------------------------------------------------
+
+/** XP needed to go from `level` to `level + 1` (Infinity at max level). */
+export function crewXpForLevel(level: number): number {
+  if (level >= CREW_MAX_LEVEL) return Infinity;
+  return Math.floor(XP_BASE * Math.pow(level, XP_EXPONENT));
+}
+
+// ---------------------------------------------------------------------------
+// 2. Level-ups
+// ---------------------------------------------------------------------------
+
+/**
+ * Add XP and roll over any level-ups. XP stops accruing at max level.
+ * Bonuses are rounded to 2 dp to match CrewMember's Decimal(5,2) columns.
+ */
+export function applyCrewXp(crew: CrewStats, gained: number): CrewLevelUp {
+  let xp = crew.xp + Math.max(0, gained);
+  let level = crew.level;
+  let levelsGained = 0;
+
+  while (level < CREW_MAX_LEVEL && xp >= crewXpForLevel(level)) {
+    xp -= crewXpForLevel(level);
+    level++;
+    levelsGained++;
+  }
+  if (level >= CREW_MAX_LEVEL) xp = 0;
+
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  return {
+    xp: round2(xp),
+    level,
+    levelsGained,
+    outputBonus: round2(
+      crew.outputBonus + levelsGained * LEVEL_UP_BONUS.outputBonus,
+    ),
+    efficiencyBonus: round2(
+      crew.efficiencyBonus + levelsGained * LEVEL_UP_BONUS.efficiencyBonus,
+    ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 3. Role perks
+// ---------------------------------------------------------------------------
+
+/** The role's perk, whether or not it is unlocked yet. */
+export function getRolePerk(role: string | null): CrewPerk | null {
+  return role ? (CREW_PERKS[role] ?? null) : null;
+}
+
+/** Effects of the perk a crew member has unlocked (empty if none). */
+export function getPerkEffects(
+  role: string | null,
+  level: number,
+): CrewPerkEffects {
+  const perk = getRolePerk(role);
+  return perk && level >= perk.unlockLevel ? perk.effects : {};
+}
@@ -281,6 +281,8 @@ export interface ColonyScreenProps {
   }>;
   /** Index of the selected module in moduleGrid for detail panel */
   selectedModule?: number;
+  /** Overrides the button legend (module menus) */
+  footer?: string;
 }
 
 export function ColonyScreen(p: ColonyScreenProps): ImageResponse {
@@ -474,7 +476,9 @@ export function ColonyScreen(p: ColonyScreenProps): ImageResponse {
         </>
       )}
 
-      <Footer>Btn 1: Build · 2: Upgrade · 3: Stats · 4: Home</Footer>
+      <Footer>
+        {p.footer ?? "Btn 1: Daily Reward · 2: Build · 3: Modules · 4: Home"}
+      </Footer>
     </FrameCanvas>,
   );
 }
@@ -495,6 +499,8 @@ export interface BuildScreenProps {
   moduleCount: string;
   maxModules: number;
   items: BuildItem[];
+  /** Overrides the button legend (paged menus) */
+  footer?: string;
 }
 
 export function BuildScreen(p: BuildScreenProps): ImageResponse {
@@ -569,6 +575,9 @@ export function BuildScreen(p: BuildScreenProps): ImageResponse {
                   >
                     Btn {i + 1}:{" "}
                     {item.moduleType.replace(/_/g, " ").toLowerCase()}
+                    {item.tier && item.tier !== "COMMON"
+                      ? ` · ${item.tier.toLowerCase()}`
+                      : ""}
                   </span>
                   <span
                     style={{
@@ -596,7 +605,7 @@ export function BuildScreen(p: BuildScreenProps): ImageResponse {
         })}
       </Section>
 
-      <Footer>Btn 4: Back to Colony</Footer>
+      <Footer>{p.footer ?? "Btn 4: Back to Colony"}</Footer>
     </FrameCanvas>,
   );
 }
@@ -861,6 +870,10 @@ export interface BuildResultProps {
   balance: number;
   modules: string;
   error?: string;
+  /** Headline for non-build actions (upgrade, repair, daily reward) */
+  title?: string;
+  /** Extra success line under the headline */
+  detail?: string;
 }
 
 export function BuildResultScreen(p: BuildResultProps): ImageResponse {
@@ -885,11 +898,22 @@ export function BuildResultScreen(p: BuildResultProps): ImageResponse {
             marginTop: 8,
           }}
         >
-          {p.success ? `${p.moduleName} Built!` : "Build Failed"}
+          {p.title ?? (p.success ? `${p.moduleName} Built!` : "Build Failed")}
         </span>
 
         {p.success ? (
           <Section direction="column" align="center" gap={6} mt={14}>
+            {p.detail && (
+              <span
+                style={{
+                  display: "flex",
+                  fontSize: 22,
+                  fontWeight: 600,
+                }}
+              >
+                {p.detail}
+              </span>
+            )}
             <span
               style={{
                 display: "flex",
@@ -936,6 +960,7 @@ export interface TradeResultProps {
   avgPrice: string;
   totalCost: string;
   slippage: string;
+  fee?: string;
   balance: number;
   error?: string;
 }
@@ -986,6 +1011,9 @@ export function TradeResultScreen(p: TradeResultProps): ImageResponse {
               }}
             >
               📊 Total: {Number(p.totalCost).toFixed(2)} $L
+              {p.fee && Number(p.fee) > 0
+                ? ` (fee ${Number(p.fee).toFixed(2)})`
+                : ""}
             </span>
             <span
               style={{
@@ -21,11 +21,28 @@
  *   - getPlayerEventModifiers()  — aggregate active modifiers for a player
  *   - recordParticipation()      — log a qualifying action
  *   - distributeRewards()        — end-of-event reward payout
+ *   - scheduleEvent()            — admin: start or schedule an event manually
+ *   - cancelEvent()              — admin: cancel a pending/active event
+ *
+ * ALLIANCE_TOURNAMENT events carry an alliance-vs-alliance season; team
+ * standings, brackets and treasury payouts live in tournament-engine.ts.
+ *
+ * Event `mechanics` (damage rolls, debris drops, emergency purchases) are
+ * executed by event-mechanics.ts on activation and on production ticks.
  */
 
 import prisma from "@/lib/database";
 import { Prisma } from "@prisma/client";
 import { GameMetrics } from "@/lib/metrics";
+import { applyActivationMechanics } from "@/lib/event-mechanics";
+import { getAllianceProjectModifiers } from "@/lib/alliance-projects";
+import { getAlliancePerkModifiers } from "@/lib/alliance-progression";
+import {
+  startTournamentSeason,
+  advanceTournamentBrackets,
+  completeTournamentSeason,
+  cancelTournamentSeason,
+} from "@/lib/tournament-engine";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -84,6 +101,8 @@ export interface ModifierSet {
   modifiers: Record<string, number>;
   /** Active event names for display */
   activeEventNames: string[];
+  /** Modifier key → names of the events contributing to it */
+  sources: Record<string, string[]>;
   /** Count of active events */
   activeCount: number;
 }
@@ -102,6 +121,21 @@ export interface EventTickResult {
   durationMs: number;
 }
 
+export interface ScheduleEventOptions {
+  /** When the event goes live. Defaults to now (no warning period). */
+  startTime?: Date;
+  /** Overrides the definition's duration */
+  durationMs?: number;
+  /** Restrict the event to these players (makes it non-global) */
+  targetPlayerIds?: string[];
+}
+
+export interface EventControlResult {
+  success: boolean;
+  event?: ActiveEventSummary;
+  error?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Event Definitions — all possible events
 // ---------------------------------------------------------------------------
@@ -223,6 +257,8 @@ export const EVENT_DEFINITIONS: Record<string, EventDefinition> = {
       requiresPreparation: true,
       emergencyPurchaseAvailable: true,
       warningPeriod: 30,
+      emergencyCost: 250, // LUNAR for backup power cells
+      preparationShields: ["SOLAR_PANEL_OUTPUT", "POWER_DEPENDENT_MODULES"],
     },
     isGlobal: true,
     probability: 0.01,
@@ -251,6 +287,8 @@ export const EVENT_DEFINITIONS: Record<string, EventDefinition> = {
     mechanics: {
       damageChance: 0.05, // 5% chance of module damage per habitat
       bonusResourceDrop: "RARE_EARTH",
+      dropChance: 0.25, // per mining rig, per production tick
+      dropAmount: 2, // × rig level
     },
     isGlobal: true,
     probability: 0.005,
@@ -312,16 +350,17 @@ export const EVENT_DEFINITIONS: Record<string, EventDefinition> = {
     category: "TRIGGERED",
     name: "Alliance Tournament",
     description:
-      "Your alliance is large enough to host a tournament! Compete for glory and $LUNAR.",
+      "Alliances go head to head! Every member's event score counts for the team — win your bracket or top the league for a treasury prize.",
     icon: "⚔️",
-    durationMs: 48 * 60 * 60 * 1000, // 48 hours
+    durationMs: 7 * 24 * 60 * 60 * 1000, // 7 days (one season)
     warningMs: 0,
     modifiers: {
       ALLIANCE_BONUS: 1.5,
       GLOBAL_PRODUCTION: 1.1,
     },
     mechanics: {
-      minAllianceMembers: 10,
+      minAllianceMembers: 5,
+      minAlliances: 2,
       allianceOnly: true,
     },
     isGlobal: false,
@@ -409,6 +448,7 @@ export async function processScheduledEvents(): Promise<EventTickResult> {
       data: { status: "ACTIVE" },
     });
     started.push(event.type);
+    await runActivationMechanics(event);
 
     await prisma.gameEvent.create({
       data: {
@@ -419,6 +459,9 @@ export async function processScheduledEvents(): Promise<EventTickResult> {
     });
   }
 
+  // --- Refresh tournament standings and decide due bracket rounds ---
+  await advanceTournamentBrackets(now);
+
   // --- Complete ACTIVE events whose endTime has passed ---
   const expiredEvents = await prisma.activeEvent.findMany({
     where: {
@@ -428,7 +471,11 @@ export async function processScheduledEvents(): Promise<EventTickResult> {
   });
 
   for (const event of expiredEvents) {
-    const result = await distributeRewards(event.id);
+    // Tournaments pay alliance treasuries instead of individual players
+    const result =
+      event.type === "ALLIANCE_TOURNAMENT"
+        ? await completeTournament(event.id)
+        : await distributeRewards(event.id);
     rewardsDistributed += result.distributed;
 
     await prisma.activeEvent.update({
@@ -591,34 +638,9 @@ export async function rollRandomEvent(
 export async function checkTriggeredEvents(): Promise<string[]> {
   const triggered: string[] = [];
 
-  // --- Alliance Tournament: alliance with 10+ members ---
-  const largAlliances = await prisma.alliance.findMany({
-    where: { memberCount: { gte: 10 }, deletedAt: null },
-    select: { id: true, name: true, members: { select: { playerId: true } } },
-  });
-
-  for (const alliance of largAlliances) {
-    const existing = await prisma.activeEvent.findFirst({
-      where: {
-        type: "ALLIANCE_TOURNAMENT",
-        status: { in: ["PENDING", "ACTIVE"] },
-        config: { path: ["allianceId"], equals: alliance.id },
-      },
-    });
-
-    if (existing) continue;
-
-    const def = EVENT_DEFINITIONS["ALLIANCE_TOURNAMENT"];
-    if (!def) continue;
-
-    const playerIds = alliance.members.map((m) => m.playerId);
-    await createEvent(def, {
-      isGlobal: false,
-      targetPlayerIds: playerIds,
-      config: { allianceId: alliance.id, allianceName: alliance.name },
-    });
-    triggered.push(`ALLIANCE_TOURNAMENT:${alliance.name}`);
-  }
+  // --- Alliance Tournament: a season between all qualifying alliances ---
+  const tournament = await startTournamentIfEligible();
+  if (tournament) triggered.push(`ALLIANCE_TOURNAMENT:${tournament}`);
 
   // --- Research Breakthrough: 50+ research labs globally ---
   const researchLabCount = await prisma.module.count({
@@ -660,6 +682,58 @@ export async function checkTriggeredEvents(): Promise<string[]> {
   return triggered;
 }
 
+/**
+ * Open a tournament season when none is running, the previous one ended
+ * over a day ago, and enough alliances meet the member threshold. Every
+ * member of an entrant alliance is targeted so their event scores count
+ * toward the team. Returns the season name, or null if none started.
+ */
+async function startTournamentIfEligible(): Promise<string | null> {
+  const def = EVENT_DEFINITIONS["ALLIANCE_TOURNAMENT"];
+  if (!def) return null;
+
+  const existing = await prisma.activeEvent.findFirst({
+    where: {
+      type: "ALLIANCE_TOURNAMENT",
+      status: { in: ["PENDING", "ACTIVE"] },
+    },
+  });
+  if (existing) return null;
+
+  const recent = await prisma.activeEvent.findFirst({
+    where: {
+      type: "ALLIANCE_TOURNAMENT",
+      status: "COMPLETED",
+      endTime: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+    },
+  });
+  if (recent) return null;
+
+  const minMembers = Number(def.mechanics?.minAllianceMembers ?? 5);
+  const minAlliances = Number(def.mechanics?.minAlliances ?? 2);
+  const alliances = await prisma.alliance.findMany({
+    where: { memberCount: { gte: minMembers }, deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      totalLunar: true,
+      members: { select: { playerId: true } },
+    },
+  });
+  if (alliances.length < minAlliances) return null;
+
+  const event = await createEvent(def, {
+    isGlobal: false,
+    targetPlayerIds: alliances.flatMap((a) => a.members.map((m) => m.playerId)),
+  });
+  const season = await startTournamentSeason(
+    event,
+    alliances,
+    def.rewardPool ?? 0,
+  );
+  return season.name;
+}
+
 // ---------------------------------------------------------------------------
 // 4. Modifier System
 // ---------------------------------------------------------------------------
@@ -669,6 +743,9 @@ export async function checkTriggeredEvents(): Promise<string[]> {
  * Modifiers are multiplicative: if two events both have GLOBAL_PRODUCTION,
  * they multiply together (1.5 * 1.2 = 1.8).
  *
+ * Completed alliance projects and unlocked alliance perks contribute their
+ * permanent bonuses here too (listed in `sources`, not `activeEventNames`).
+ *
  * This is the function production-engine and game-engine call to apply effects.
  */
 export async function getPlayerEventModifiers(
@@ -677,28 +754,37 @@ export async function getPlayerEventModifiers(
   const now = new Date();
 
   // Get all active events (global + those targeting this player)
-  const activeEvents = await prisma.activeEvent.findMany({
-    where: {
-      status: "ACTIVE",
-      startTime: { lte: now },
-      endTime: { gte: now },
-    },
+  const [activeEvents, projectBonuses, perkBonuses] = await Promise.all([
+    prisma.activeEvent.findMany({
+      where: {
+        status: "ACTIVE",
+        startTime: { lte: now },
+        endTime: { gte: now },
+      },
+    }),
+    getAllianceProjectModifiers(playerId),
+    getAlliancePerkModifiers(playerId),
+  ]);
+
+  // Check if player is in scope
+  const inScope = activeEvents.filter((event) => {
+    if (event.isGlobal) return true;
+    const targetIds = event.targetPlayerIds as string[] | null;
+    return !targetIds || targetIds.includes(playerId);
   });
+  const shielded = await getShieldedModifiers(playerId, inScope);
 
   const mergedModifiers: Record<string, number> = {};
   const activeEventNames: string[] = [];
+  const sources: Record<string, string[]> = {};
 
-  for (const event of activeEvents) {
-    // Check if player is in scope
-    if (!event.isGlobal) {
-      const targetIds = event.targetPlayerIds as string[] | null;
-      if (targetIds && !targetIds.includes(playerId)) continue;
-    }
-
+  for (const event of inScope) {
     const modifiers = event.modifiers as Record<string, number>;
     activeEventNames.push(event.name);
 
     for (const [key, value] of Object.entries(modifiers)) {
+      if (shielded.get(event.id)?.includes(key)) continue;
+      (sources[key] ??= []).push(event.name);
       if (mergedModifiers[key] == null) {
         mergedModifiers[key] = value;
       } else {
@@ -708,13 +794,54 @@ export async function getPlayerEventModifiers(
     }
   }
 
+  for (const bonus of [...projectBonuses, ...perkBonuses]) {
+    for (const [key, value] of Object.entries(bonus.modifiers)) {
+      (sources[key] ??= []).push(bonus.name);
+      mergedModifiers[key] = (mergedModifiers[key] ?? 1) * value;
+    }
+  }
+
   return {
     modifiers: mergedModifiers,
     activeEventNames,
+    sources,
     activeCount: activeEventNames.length,
   };
 }
 
+/**
+ * Modifier keys each event no longer applies to this player because they
+ * made its emergency purchase (see event-mechanics.ts). Only events whose
+ * mechanics declare `preparationShields` trigger the lookup.
+ */
+async function getShieldedModifiers(
+  playerId: string,
+  events: Array<{ id: string; mechanics: Prisma.JsonValue | null }>,
+): Promise<Map<string, string[]>> {
+  const shieldable = new Map<string, string[]>();
+  for (const event of events) {
+    const mechanics = event.mechanics as { preparationShields?: unknown };
+    if (Array.isArray(mechanics?.preparationShields)) {
+      shieldable.set(event.id, mechanics.preparationShields as string[]);
+    }
+  }
+  if (shieldable.size === 0) return shieldable;
+
+  const prepared = await prisma.eventParticipant.findMany({
+    where: {
+      playerId,
+      eventId: { in: [...shieldable.keys()] },
+      preparedAt: { not: null },
+    },
+    select: { eventId: true },
+  });
+  const preparedIds = new Set(prepared.map((p) => p.eventId));
+
+  return new Map(
+    [...shieldable].filter(([eventId]) => preparedIds.has(eventId)),
+  );
+}
+
 /**
  * Get a specific modifier value, defaulting to 1.0 (no effect).
  * Convenience wrapper for single modifier lookups.
@@ -912,8 +1039,138 @@ export async function distributeRewards(
   };
 }
 
+/**
+ * Close a tournament event's season. `distributed` counts alliances paid,
+ * since the pool goes to treasuries rather than individual players.
+ */
+async function completeTournament(eventId: string): Promise<RewardResult> {
+  const def = EVENT_DEFINITIONS["ALLIANCE_TOURNAMENT"];
+  const result = await completeTournamentSeason(
+    eventId,
+    def?.rewardTiers ?? [],
+  );
+  return {
+    eventId,
+    distributed: result.alliancesPaid,
+    totalAmount: result.totalAmount,
+    topPlayers: [],
+  };
+}
+
 // ---------------------------------------------------------------------------
-// 7. Read-Only Queries
+// 7. Manual Control (admin)
+// ---------------------------------------------------------------------------
+
+/** Longest an admin-scheduled event may run. */
+const MAX_MANUAL_DURATION_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Start or schedule an event from EVENT_DEFINITIONS outside the cron /
+ * random-roll paths. A future startTime creates a PENDING event that
+ * processScheduledEvents() activates on time.
+ */
+export async function scheduleEvent(
+  type: string,
+  scheduledBy: string,
+  options: ScheduleEventOptions = {},
+): Promise<EventControlResult> {
+  const def = EVENT_DEFINITIONS[type];
+  if (!def) return { success: false, error: `Unknown event type: ${type}` };
+
+  const durationMs = options.durationMs ?? def.durationMs;
+  if (durationMs <= 0 || durationMs > MAX_MANUAL_DURATION_MS) {
+    return { success: false, error: "Duration must be between 0 and 14 days" };
+  }
+
+  // Manual events without a start time begin now, skipping the warning window
+  const startTime = options.startTime ?? new Date();
+  if (startTime.getTime() + durationMs <= Date.now()) {
+    return { success: false, error: "Event would end in the past" };
+  }
+
+  const existing = await prisma.activeEvent.findFirst({
+    where: { type, status: { in: ["PENDING", "ACTIVE"] } },
+  });
+  if (existing) {
+    return { success: false, error: `${def.name} is already running` };
+  }
+
+  const targeted = (options.targetPlayerIds?.length ?? 0) > 0;
+  const event = await createEvent(def, {
+    startTime,
+    durationMs,
+    isGlobal: targeted ? false : def.isGlobal,
+    targetPlayerIds: targeted ? options.targetPlayerIds : undefined,
+    config: { scheduledBy },
+  });
+
+  await prisma.gameEvent.create({
+    data: {
+      type: "event_scheduled",
+      severity: "INFO",
+      data: {
+        eventId: event.id,
+        eventType: type,
+        startTime: event.startTime.toISOString(),
+        endTime: event.endTime.toISOString(),
+        scheduledBy,
+      },
+    },
+  });
+  GameMetrics.trackEvent(type, event.id, "scheduled", { scheduledBy });
+
+  return { success: true, event: eventToSummary(event) };
+}
+
+/**
+ * Cancel a pending or active event. No rewards are distributed and its
+ * modifiers stop applying immediately.
+ */
+export async function cancelEvent(
+  eventId: string,
+  cancelledBy: string,
+): Promise<EventControlResult> {
+  const event = await prisma.activeEvent.findUnique({
+    where: { id: eventId },
+  });
+  if (!event) return { success: false, error: "Event not found" };
+
+  const { count } = await prisma.activeEvent.updateMany({
+    where: { id: eventId, status: { in: ["PENDING", "ACTIVE"] } },
+    data: { status: "CANCELLED" },
+  });
+  if (count === 0) {
+    return {
+      success: false,
+      error: `Event is already ${event.status.toLowerCase()}`,
+    };
+  }
+  if (event.type === "ALLIANCE_TOURNAMENT") {
+    await cancelTournamentSeason(eventId);
+  }
+
+  await prisma.gameEvent.create({
+    data: {
+      type: "event_cancelled",
+      severity: "WARNING",
+      data: {
+        eventId,
+        eventType: event.type,
+        previousStatus: event.status,
+        cancelledBy,
+      },
+    },
+  });
+  GameMetrics.trackEvent(event.type, eventId, "cancelled", { cancelledBy });
+
+  return {
+    success: true,
+    event: eventToSummary({ ...event, status: "CANCELLED" }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 8. Read-Only Queries
 // ---------------------------------------------------------------------------
 
 /**
@@ -1043,14 +1300,19 @@ async function createEvent(
     isGlobal?: boolean;
     targetPlayerIds?: string[];
     config?: Record<string, unknown>;
+    startTime?: Date;
+    durationMs?: number;
   },
 ) {
   const now = new Date();
-  const hasWarning = def.warningMs > 0;
-  const startTime = hasWarning ? new Date(now.getTime() + def.warningMs) : now;
-  const endTime = new Date(startTime.getTime() + def.durationMs);
+  const startTime =
+    overrides?.startTime ?? new Date(now.getTime() + def.warningMs);
+  const hasWarning = startTime.getTime() > now.getTime();
+  const endTime = new Date(
+    startTime.getTime() + (overrides?.durationMs ?? def.durationMs),
+  );
 
-  return prisma.activeEvent.create({
+  const event = await prisma.activeEvent.create({
     data: {
       type: def.type,
       category: def.category,
@@ -1070,6 +1332,27 @@ async function createEvent(
         Prisma.JsonNull,
     },
   });
+
+  // Instant events skip PENDING, so run their activation mechanics now
+  if (event.status === "ACTIVE") await runActivationMechanics(event);
+  return event;
+}
+
+/**
+ * Run an event's activation mechanics (damage rolls etc.). Failures are
+ * logged, never thrown — a mechanics error must not block the event.
+ */
+async function runActivationMechanics(
+  event: Parameters<typeof applyActivationMechanics>[0],
+): Promise<void> {
+  try {
+    await applyActivationMechanics(event);
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      context: "event_activation_mechanics",
+      eventId: event.id,
+    });
+  }
 }
 
 /**
@@ -1119,6 +1402,8 @@ const eventEngine = {
   recordParticipation,
   autoParticipateInActiveEvents,
   distributeRewards,
+  scheduleEvent,
+  cancelEvent,
   EVENT_DEFINITIONS,
 };
 
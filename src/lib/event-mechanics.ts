@@ -0,0 +1,671 @@
+/**
+ * Event Mechanics Executor
+ *
+ * Runs the `mechanics` rules declared on event definitions — the parts of
+ * an event that go beyond plain modifiers:
+ *   1. Seeded RNG       — every roll is derived from (event, tick, module)
+ *                         so outcomes are reproducible and testable
+ *   2. Module damage    — `damageChance` rolls per HABITAT; a hit scales
+ *                         Module.efficiency by the event's HABITAT_DAMAGE_RISK
+ *   3. Bonus drops      — `bonusResourceDrop` rolls per MINING_RIG and
+ *                         credits the resource (e.g. meteor RARE_EARTH)
+ *   4. Emergency buys   — `emergencyPurchaseAvailable` lets players pay
+ *                         `emergencyCost` LUNAR during the warning/active
+ *                         window to be shielded from `preparationShields`
+ *
+ * Entry points:
+ *   - applyActivationMechanics()  — event-engine calls when an event goes ACTIVE
+ *   - applyTickMechanics()        — production-engine calls per credited player
+ *   - getEmergencyOffers()        — offers open to a player (dashboard)
+ *   - purchaseEmergencySupply()   — buy an offer
+ *
+ * The shield itself is applied in getPlayerEventModifiers(), which skips
+ * shielded modifier keys for players with EventParticipant.preparedAt set.
+ */
+
+import prisma from "@/lib/database";
+import { Prisma } from "@prisma/client";
+import type { ModuleType, ResourceType } from "@/lib/utils";
+import { GameMetrics } from "@/lib/metrics";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Typed view of ActiveEvent.mechanics — every rule is optional. */
+export interface EventMechanics {
+  /** Chance (0–1) that each damage-prone module is hit per roll */
+  damageChance?: number;
+  /** Resource granted by debris drops */
+  bonusResourceDrop?: ResourceType;
+  /** Chance (0–1) per drop-source module per tick */
+  dropChance?: number;
+  /** Units dropped per module level */
+  dropAmount?: number;
+  requiresPreparation?: boolean;
+  emergencyPurchaseAvailable?: boolean;
+  /** LUNAR price of the emergency purchase */
+  emergencyCost?: number;
+  /** Modifier keys the emergency purchase cancels for the buyer */
+  preparationShields?: string[];
+}
+
+/** Returns a float in [0, 1), like Math.random(). */
+export type Rng = () => number;
+
+/** Builds the RNG for one roll stream; injectable for tests. */
+export type RngFactory = (seed: string) => Rng;
+
+export interface MechanicsModule {
+  id: string;
+  type: ModuleType;
+  level: number;
+  efficiency: number;
+}
+
+export interface ModuleDamage {
+  moduleId: string;
+  moduleType: ModuleType;
+  efficiencyBefore: number;
+  efficiencyAfter: number;
+}
+
+export interface BonusDrop {
+  moduleId: string;
+  resource: ResourceType;
+  amount: number;
+}
+
+export interface MechanicsResult {
+  damaged: ModuleDamage[];
+  drops: BonusDrop[];
+}
+
+export interface ActivationResult extends MechanicsResult {
+  eventId: string;
+  /** True when the event sells an emergency purchase */
+  offersOpen: boolean;
+}
+
+export interface EmergencyOffer {
+  eventId: string;
+  eventType: string;
+  eventName: string;
+  icon: string;
+  cost: number;
+  /** Modifier keys the purchase cancels */
+  shields: string[];
+  purchased: boolean;
+  availableUntil: Date;
+}
+
+export interface EmergencyPurchaseResult {
+  success: boolean;
+  cost?: number;
+  balanceAfter?: number;
+  error?: string;
+}
+
+type EventRow = {
+  id: string;
+  type: string;
+  name: string;
+  icon: string;
+  status: string;
+  endTime: Date;
+  modifiers: Prisma.JsonValue;
+  mechanics: Prisma.JsonValue | null;
+  isGlobal: boolean;
+  targetPlayerIds: Prisma.JsonValue | null;
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Module types that take meteor damage. */
+const DAMAGE_TARGETS: ModuleType[] = ["HABITAT"];
+
+/** Module types that can pull debris drops. */
+const DROP_SOURCES: ModuleType[] = ["MINING_RIG"];
+
+/** Efficiency multiplier when an event doesn't set HABITAT_DAMAGE_RISK. */
+const DEFAULT_DAMAGE_MULTIPLIER = 0.8;
+
+/** Damage never takes a module below this efficiency; repair restores it. */
+const MIN_EFFICIENCY = 10;
+
+const DEFAULT_EMERGENCY_COST = 250;
+
+/** Modules swept per query when an event activates. */
+const ACTIVATION_BATCH_SIZE = 500;
+
+// ---------------------------------------------------------------------------
+// 1. Seeded RNG
+// ---------------------------------------------------------------------------
+
+/**
+ * Deterministic PRNG (FNV-1a hash of the seed → mulberry32).
+ * The same seed always yields the same sequence.
+ */
+export function createSeededRng(seed: string): Rng {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  let state = h >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Parse the stored mechanics JSON, dropping values of the wrong type. */
+export function parseMechanics(raw: Prisma.JsonValue | null): EventMechanics {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const m = raw as Record<string, unknown>;
+  const num = (v: unknown) =>
+    typeof v === "number" && Number.isFinite(v) ? v : undefined;
+
+  return {
+    damageChance: num(m.damageChance),
+    bonusResourceDrop:
+      typeof m.bonusResourceDrop === "string"
+        ? (m.bonusResourceDrop as ResourceType)
+        : undefined,
+    dropChance: num(m.dropChance),
+    dropAmount: num(m.dropAmount),
+    requiresPreparation: m.requiresPreparation === true,
+    emergencyPurchaseAvailable: m.emergencyPurchaseAvailable === true,
+    emergencyCost: num(m.emergencyCost),
+    preparationShields: Array.isArray(m.preparationShields)
+      ? m.preparationShields.filter((k): k is string => typeof k === "string")
+      : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 2–3. Rolls — pure functions, no DB access
+// ---------------------------------------------------------------------------
+
+/**
+ * Roll damage for each damage-prone module. Each module gets its own RNG
+ * stream (`${seed}:${moduleId}`), so results don't depend on query order.
+ */
+export function rollModuleDamage(
+  modules: MechanicsModule[],
+  mechanics: EventMechanics,
+  damageMultiplier: number,
+  seed: string,
+  rngFactory: RngFactory = createSeededRng,
+): ModuleDamage[] {
+  const chance = mechanics.damageChance ?? 0;
+  if (chance <= 0) return [];
+
+  const damaged: ModuleDamage[] = [];
+  for (const mod of modules) {
+    if (!DAMAGE_TARGETS.includes(mod.type)) continue;
+    if (mod.efficiency <= MIN_EFFICIENCY) continue;
+    if (rngFactory(`${seed}:${mod.id}`)() >= chance) continue;
+
+    const after = Math.max(
+      MIN_EFFICIENCY,
+      Math.round(mod.efficiency * damageMultiplier * 100) / 100,
+    );
+    if (after >= mod.efficiency) continue;
+    damaged.push({
+      moduleId: mod.id,
+      moduleType: mod.type,
+      efficiencyBefore: mod.efficiency,
+      efficiencyAfter: after,
+    });
+  }
+  return damaged;
+}
+
+/** Roll debris drops for each drop-source module (amount × module level). */
+export function rollBonusDrops(
+  modules: MechanicsModule[],
+  mechanics: EventMechanics,
+  seed: string,
+  rngFactory: RngFactory = createSeededRng,
+): BonusDrop[] {
+  const resource = mechanics.bonusResourceDrop;
+  const chance = mechanics.dropChance ?? 0;
+  const perLevel = mechanics.dropAmount ?? 0;
+  if (!resource || chance <= 0 || perLevel <= 0) return [];
+
+  const drops: BonusDrop[] = [];
+  for (const mod of modules) {
+    if (!DROP_SOURCES.includes(mod.type)) continue;
+    if (rngFactory(`${seed}:${mod.id}`)() >= chance) continue;
+    drops.push({ moduleId: mod.id, resource, amount: perLevel * mod.level });
+  }
+  return drops;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function damageMultiplierFor(event: EventRow): number {
+  const mods = (event.modifiers ?? {}) as Record<string, number>;
+  return mods.HABITAT_DAMAGE_RISK ?? DEFAULT_DAMAGE_MULTIPLIER;
+}
+
+function targetIdsFor(event: EventRow): string[] | null {
+  if (event.isGlobal) return null;
+  return (event.targetPlayerIds as string[] | null) ?? null;
+}
+
+function inScope(event: EventRow, playerId: string): boolean {
+  const targetIds = targetIdsFor(event);
+  return !targetIds || targetIds.includes(playerId);
+}
+
+function toMechanicsModule(m: {
+  id: string;
+  type: string;
+  level: number;
+  efficiency: unknown;
+}): MechanicsModule {
+  return {
+    id: m.id,
+    type: m.type as ModuleType,
+    level: m.level,
+    efficiency: Number(m.efficiency),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 4. Activation
+// ---------------------------------------------------------------------------
+
+/**
+ * Run an event's activation mechanics: one impact roll over every
+ * damage-prone module in scope. Called once when the event goes ACTIVE.
+ */
+export async function applyActivationMechanics(
+  event: EventRow,
+  rngFactory: RngFactory = createSeededRng,
+): Promise<ActivationResult> {
+  const mechanics = parseMechanics(event.mechanics);
+  const result: ActivationResult = {
+    eventId: event.id,
+    damaged: [],
+    drops: [],
+    offersOpen: mechanics.emergencyPurchaseAvailable === true,
+  };
+  if (!mechanics.damageChance) return result;
+
+  const targetIds = targetIdsFor(event);
+  const multiplier = damageMultiplierFor(event);
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.module.findMany({
+      where: {
+        type: { in: DAMAGE_TARGETS },
+        isActive: true,
+        deletedAt: null,
+        player: { deletedAt: null },
+        ...(targetIds ? { playerId: { in: targetIds } } : {}),
+      },
+      select: {
+        id: true,
+        playerId: true,
+        type: true,
+        level: true,
+        efficiency: true,
+      },
+      orderBy: { id: "asc" },
+      take: ACTIVATION_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (batch.length === 0) break;
+
+    const damaged = rollModuleDamage(
+      batch.map(toMechanicsModule),
+      mechanics,
+      multiplier,
+      `${event.id}:activation`,
+      rngFactory,
+    );
+    if (damaged.length > 0) {
+      const owners = new Map(batch.map((m) => [m.id, m.playerId]));
+      await prisma.$transaction([
+        ...damaged.map((d) =>
+          prisma.module.update({
+            where: { id: d.moduleId },
+            data: {
+              efficiency: d.efficiencyAfter,
+              version: { increment: 1 },
+            },
+          }),
+        ),
+        ...damaged.map((d) =>
+          prisma.gameEvent.create({
+            data: {
+              playerId: owners.get(d.moduleId) ?? null,
+              type: "event_module_damaged",
+              severity: "WARNING",
+              data: { eventId: event.id, eventType: event.type, ...d },
+            },
+          }),
+        ),
+      ]);
+      result.damaged.push(...damaged);
+    }
+
+    if (batch.length < ACTIVATION_BATCH_SIZE) break;
+    cursor = batch[batch.length - 1]!.id;
+  }
+
+  GameMetrics.trackEvent(event.type, event.id, "mechanics_applied", {
+    phase: "activation",
+    damaged: result.damaged.length,
+  });
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// 5. Production tick
+// ---------------------------------------------------------------------------
+
+/**
+ * Run per-tick mechanics for one player: damage and drop rolls for every
+ * active event in scope. Seeded by (event, date, module), so replaying a
+ * tick reproduces the same outcome.
+ */
+export async function applyTickMechanics(
+  playerId: string,
+  date: Date,
+  rngFactory: RngFactory = createSeededRng,
+): Promise<MechanicsResult> {
+  const now = new Date();
+  const result: MechanicsResult = { damaged: [], drops: [] };
+
+  const events = (
+    await prisma.activeEvent.findMany({
+      where: {
+        status: "ACTIVE",
+        startTime: { lte: now },
+        endTime: { gte: now },
+      },
+    })
+  ).filter((e) => {
+    if (!inScope(e, playerId)) return false;
+    const m = parseMechanics(e.mechanics);
+    return !!m.damageChance || !!m.bonusResourceDrop;
+  });
+  if (events.length === 0) return result;
+
+  const modules = (
+    await prisma.module.findMany({
+      where: {
+        playerId,
+        type: { in: [...DAMAGE_TARGETS, ...DROP_SOURCES] },
+        isActive: true,
+        deletedAt: null,
+      },
+      select: { id: true, type: true, level: true, efficiency: true },
+    })
+  ).map(toMechanicsModule);
+  if (modules.length === 0) return result;
+
+  for (const event of events) {
+    const mechanics = parseMechanics(event.mechanics);
+    const seed = `${event.id}:${date.toISOString()}`;
+
+    const damaged = rollModuleDamage(
+      modules,
+      mechanics,
+      damageMultiplierFor(event),
+      `${seed}:damage`,
+      rngFactory,
+    );
+    // Later events roll against the already-damaged efficiency
+    for (const d of damaged) {
+      const mod = modules.find((m) => m.id === d.moduleId);
+      if (mod) mod.efficiency = d.efficiencyAfter;
+    }
+
+    result.damaged.push(...damaged);
+    result.drops.push(
+      ...rollBonusDrops(modules, mechanics, `${seed}:drop`, rngFactory),
+    );
+  }
+
+  if (result.damaged.length === 0 && result.drops.length === 0) {
+    return result;
+  }
+
+  const dropTotals = new Map<ResourceType, number>();
+  for (const drop of result.drops) {
+    dropTotals.set(
+      drop.resource,
+      (dropTotals.get(drop.resource) ?? 0) + drop.amount,
+    );
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const d of result.damaged) {
+      await tx.module.update({
+        where: { id: d.moduleId },
+        data: { efficiency: d.efficiencyAfter, version: { increment: 1 } },
+      });
+    }
+
+    for (const [resource, amount] of dropTotals) {
+      const stock = await tx.playerResource.upsert({
+        where: { playerId_type: { playerId, type: resource } },
+        create: { playerId, type: resource, amount, totalMined: amount },
+        update: {
+          amount: { increment: amount },
+          totalMined: { increment: amount },
+        },
+      });
+      await tx.transaction.create({
+        data: {
+          playerId,
+          type: "PRODUCTION",
+          resource,
+          amount,
+          balanceAfter: Number(stock.amount),
+          description: `Event debris: ${resource}`,
+          metadata: {
+            date: date.toISOString(),
+            drops: result.drops
+              .filter((drop) => drop.resource === resource)
+              .map((drop) => ({ id: drop.moduleId, amount: drop.amount })),
+          },
+        },
+      });
+    }
+
+    if (result.damaged.length > 0) {
+      await tx.gameEvent.create({
+        data: {
+          playerId,
+          type: "event_module_damaged",
+          severity: "WARNING",
+          data: {
+            date: date.toISOString(),
+            eventIds: events.map((e) => e.id),
+            modules: result.damaged.map((d) => ({ ...d })),
+          },
+        },
+      });
+    }
+  });
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// 6. Emergency Purchases
+// ---------------------------------------------------------------------------
+
+function toOffer(event: EventRow, purchased: boolean): EmergencyOffer {
+  const mechanics = parseMechanics(event.mechanics);
+  return {
+    eventId: event.id,
+    eventType: event.type,
+    eventName: event.name,
+    icon: event.icon,
+    cost: mechanics.emergencyCost ?? DEFAULT_EMERGENCY_COST,
+    shields: mechanics.preparationShields ?? [],
+    purchased,
+    availableUntil: event.endTime,
+  };
+}
+
+/**
+ * Emergency purchases open to a player: pending (warning period) or
+ * active events in scope whose mechanics allow one.
+ */
+export async function getEmergencyOffers(
+  playerId: string,
+): Promise<EmergencyOffer[]> {
+  const events = (
+    await prisma.activeEvent.findMany({
+      where: {
+        status: { in: ["PENDING", "ACTIVE"] },
+        endTime: { gte: new Date() },
+      },
+      orderBy: { startTime: "asc" },
+    })
+  ).filter(
+    (e) =>
+      inScope(e, playerId) &&
+      parseMechanics(e.mechanics).emergencyPurchaseAvailable,
+  );
+  if (events.length === 0) return [];
+
+  const prepared = await prisma.eventParticipant.findMany({
+    where: {
+      playerId,
+      eventId: { in: events.map((e) => e.id) },
+      preparedAt: { not: null },
+    },
+    select: { eventId: true },
+  });
+  const preparedIds = new Set(prepared.map((p) => p.eventId));
+
+  return events.map((e) => toOffer(e, preparedIds.has(e.id)));
+}
+
+/**
+ * Buy an event's emergency purchase. Charges LUNAR, marks the player as
+ * prepared (EventParticipant.preparedAt) and records the ledger entry.
+ */
+export async function purchaseEmergencySupply(
+  playerId: string,
+  eventId: string,
+): Promise<EmergencyPurchaseResult> {
+  const event = await prisma.activeEvent.findUnique({
+    where: { id: eventId },
+  });
+  if (
+    !event ||
+    !["PENDING", "ACTIVE"].includes(event.status) ||
+    event.endTime < new Date() ||
+    !inScope(event, playerId) ||
+    !parseMechanics(event.mechanics).emergencyPurchaseAvailable
+  ) {
+    return { success: false, error: "No emergency purchase for this event" };
+  }
+
+  const offer = toOffer(event, false);
+  const existing = await prisma.eventParticipant.findUnique({
+    where: { eventId_playerId: { eventId, playerId } },
+  });
+  if (existing?.preparedAt) {
+    return { success: false, error: "Already prepared for this event" };
+  }
+
+  const player = await prisma.player.findUnique({ where: { id: playerId } });
+  if (!player) return { success: false, error: "Player not found" };
+
+  const balance = Number(player.lunarBalance);
+  if (balance < offer.cost) {
+    return {
+      success: false,
+      error: `Not enough $LUNAR. Need ${offer.cost}, have ${Math.floor(balance)}.`,
+    };
+  }
+  const balanceAfter = balance - offer.cost;
+  const now = new Date();
+
+  try {
+    await prisma.$transaction([
+      prisma.player.update({
+        where: { id: playerId, version: player.version },
+        data: {
+          lunarBalance: { decrement: offer.cost },
+          version: { increment: 1 },
+        },
+      }),
+      prisma.eventParticipant.upsert({
+        where: { eventId_playerId: { eventId, playerId } },
+        update: { preparedAt: now },
+        create: { eventId, playerId, preparedAt: now },
+      }),
+      prisma.transaction.create({
+        data: {
+          playerId,
+          type: "EVENT_PURCHASE",
+          resource: "LUNAR",
+          amount: -offer.cost,
+          balanceAfter,
+          description: `Emergency supplies: ${event.name}`,
+          metadata: {
+            eventId,
+            eventType: event.type,
+            shields: offer.shields,
+          },
+        },
+      }),
+      prisma.gameEvent.create({
+        data: {
+          playerId,
+          type: "emergency_purchase",
+          severity: "INFO",
+          data: { eventId, eventType: event.type, cost: offer.cost },
+        },
+      }),
+    ]);
+  } catch (error) {
+    GameMetrics.trackError(error, {
+      context: "emergency_purchase",
+      playerId,
+      eventId,
+    });
+    return { success: false, error: "Purchase failed, please retry" };
+  }
+
+  GameMetrics.trackPlayerAction(playerId, "emergency_purchase", {
+    eventType: event.type,
+    cost: offer.cost,
+  });
+
+  return { success: true, cost: offer.cost, balanceAfter };
+}
+
+const eventMechanics = {
+  createSeededRng,
+  parseMechanics,
+  rollModuleDamage,
+  rollBonusDrops,
+  applyActivationMechanics,
+  applyTickMechanics,
+  getEmergencyOffers,
+  purchaseEmergencySupply,
+};
+
+export default eventMechanics;
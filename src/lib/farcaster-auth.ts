@@ -0,0 +1,96 @@
+/**
+ * Farcaster identity verification for dashboard sign-in.
+ *
+ * POST /api/auth/session accepts either credential and turns a verified
+ * FID into a session cookie (session.ts):
+ *   - { token }              — a Quick Auth JWT from the mini-app SDK
+ *                              (`sdk.quickAuth.getToken()`)
+ *   - { message, signature } — a Sign In With Farcaster message, exchanged
+ *                              for a Quick Auth JWT first
+ *
+ * Verifiers are pluggable. FARCASTER_AUTH_VERIFIER=stub selects an offline
+ * verifier that accepts `stub:<fid>` tokens so tests and local development
+ * work without the Quick Auth server; it is never used in production.
+ */
+
+export interface SignInCredentials {
+  token?: string;
+  message?: string;
+  signature?: string;
+}
+
+export interface FarcasterAuthVerifier {
+  name: string;
+  /** The proven FID, or null if the credentials don't check out. */
+  verify(credentials: SignInCredentials): Promise<number | null>;
+}
+
+function parseFid(value: unknown): number | null {
+  const fid = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(fid) && fid > 0 ? fid : null;
+}
+
+/** The domain Quick Auth tokens are issued for (this app's host). */
+function getAuthDomain(): string {
+  const url = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return new URL(url).host;
+}
+
+// ---------------------------------------------------------------------------
+// Verifiers
+// ---------------------------------------------------------------------------
+
+/**
+ * Verifies Quick Auth JWTs against Farcaster's public Quick Auth server.
+ */
+export const quickAuthVerifier: FarcasterAuthVerifier = {
+  name: "quick-auth",
+  async verify({ token, message, signature }) {
+    const { createClient } = await import("@farcaster/quick-auth");
+    const client = createClient();
+    const domain = getAuthDomain();
+
+    try {
+      let jwt = token;
+      if (!jwt && message && signature) {
+        ({ token: jwt } = await client.verifySiwf({
+          message,
+          signature,
+          domain,
+        }));
+      }
+      if (!jwt) return null;
+
+      const payload = await client.verifyJwt({ token: jwt, domain });
+      return parseFid(payload.sub);
+    } catch {
+      return null;
+    }
+  },
+};
+
+/**
+ * Offline verifier for tests and local development: `stub:<fid>` signs in
+ * as that FID.
+ */
+export const stubVerifier: FarcasterAuthVerifier = {
+  name: "stub",
+  async verify({ token }) {
+    const match = /^stub:(\d+)$/.exec(token ?? "");
+    return match ? parseFid(match[1]) : null;
+  },
+};
+
+/**
+ * The verifier for this environment. The stub is only honoured outside
+ * production.
+ */
+export function getAuthVerifier(): FarcasterAuthVerifier {
+  if (
+    process.env.FARCASTER_AUTH_VERIFIER === "stub" &&
+    process.env.NODE_ENV !== "production"
+  ) {
+    return stubVerifier;
+  }
+  return quickAuthVerifier;
+}
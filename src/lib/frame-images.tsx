@@ -16,6 +16,7 @@ import {
   AllianceScreen,
   BuildResultScreen,
   TradeResultScreen,
+  type BuildItem,
   type MarketResource,
   type TierKey,
   type ResourceKey,
@@ -123,6 +124,7 @@ export function generateColonyImage(params: URLSearchParams): ImageResponse {
     selectedModule: params.has("selectedModule")
       ? Number(params.get("selectedModule"))
       : undefined,
+    footer: params.get("footer") ?? undefined,
   });
 }
 
@@ -131,19 +133,50 @@ export function generateColonyImage(params: URLSearchParams): ImageResponse {
 // ---------------------------------------------------------------------------
 
 export function generateBuildImage(params: URLSearchParams): ImageResponse {
-  const solarCost = Number(params.get("solarCost") ?? "100");
-  const miningCost = Number(params.get("miningCost") ?? "250");
-  const habitatCost = Number(params.get("habitatCost") ?? "200");
+  // Paged menu items (item_0_type=SOLAR_PANEL&item_0_cost=100&item_0_output=10 …)
+  const items: BuildItem[] = [];
+  for (let i = 0; ; i++) {
+    const moduleType = params.get(`item_${i}_type`);
+    if (!moduleType) break;
+    items.push({
+      moduleType,
+      tier: (params.get(`item_${i}_tier`) as TierKey) ?? undefined,
+      cost: Number(params.get(`item_${i}_cost`) ?? "0"),
+      output: `+${params.get(`item_${i}_output`) ?? "0"}/tick`,
+    });
+  }
 
+  // Legacy fixed three-item menu
+  if (items.length === 0) {
+    items.push(
+      {
+        moduleType: "SOLAR_PANEL",
+        cost: Number(params.get("solarCost") ?? "100"),
+        output: "+10/tick",
+      },
+      {
+        moduleType: "MINING_RIG",
+        cost: Number(params.get("miningCost") ?? "250"),
+        output: "+25/tick",
+      },
+      {
+        moduleType: "HABITAT",
+        cost: Number(params.get("habitatCost") ?? "200"),
+        output: "+5/tick",
+      },
+    );
+  }
+
+  const pages = Number(params.get("pages") ?? "1");
   return BuildScreen({
     balance: Number(params.get("balance") ?? "0"),
     moduleCount: params.get("moduleCount") ?? "0",
     maxModules: 20,
-    items: [
-      { moduleType: "SOLAR_PANEL", cost: solarCost, output: "+10/tick" },
-      { moduleType: "MINING_RIG", cost: miningCost, output: "+25/tick" },
-      { moduleType: "HABITAT", cost: habitatCost, output: "+5/tick" },
-    ],
+    items,
+    footer:
+      pages > 1
+        ? `Page ${params.get("page") ?? "1"}/${pages} · Btn ${items.length + 1}: More · ${items.length + 2}: Back`
+        : undefined,
   });
 }
 
@@ -272,6 +305,7 @@ export function generateResultImage(params: URLSearchParams): ImageResponse {
       avgPrice: params.get("avgPrice") ?? "0",
       totalCost: params.get("totalCost") ?? "0",
       slippage: params.get("slippage") ?? "0",
+      fee: params.get("fee") ?? undefined,
       balance: Number(params.get("balance") ?? "0"),
       error: params.get("error") ?? undefined,
     });
@@ -283,6 +317,8 @@ export function generateResultImage(params: URLSearchParams): ImageResponse {
     balance: Number(params.get("balance") ?? "0"),
     modules: params.get("modules") ?? "0",
     error: params.get("error") ?? undefined,
+    title: params.get("title") ?? undefined,
+    detail: params.get("detail") ?? undefined,
   });
 }
 
@@ -344,8 +380,11 @@ export function generateFrameImage(
     case "home":
       return generateHomeImage(searchParams);
     case "colony":
+    case "modules":
+    case "module":
       return generateColonyImage(searchParams);
     case "build":
+    case "build_tier":
       return generateBuildImage(searchParams);
     case "market":
       return generateMarketImage(searchParams);
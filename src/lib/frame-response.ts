@@ -4,11 +4,12 @@
  * Constructs Farcaster Frame-compliant HTML responses with proper
  * meta tags, button configuration, and image URLs.
  *
- * All Frame state is encoded in the postUrl query params —
- * no cookies or external session store needed.
+ * All Frame state is carried in the postUrl as a signed state token
+ * (frame-state.ts) — no cookies or external session store needed.
  */
 
 import { absoluteUrl, FRAME_IMAGE } from "@/lib/utils";
+import { encodeFrameState } from "@/lib/frame-state";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -20,8 +21,19 @@ export type Screen =
   | "market"
   | "alliance"
   | "build"
+  | "build_tier"
+  | "modules"
+  | "module"
   | "result";
 
+/** Per-screen context carried to the next interaction in the state token */
+export interface FrameState {
+  /** Pagination cursor on menu screens */
+  page?: number;
+  /** Selected entity — module type, module ID or result context */
+  selection?: string;
+}
+
 export interface FrameButton {
   label: string;
   action: "post" | "post_redirect" | "link" | "mint";
@@ -37,7 +49,7 @@ export interface FrameResponse {
   postUrl: string;
   /** Optional text input placeholder */
   inputText?: string;
-  /** Screen identifier (encoded in postUrl for state tracking) */
+  /** Screen identifier (signed into the postUrl state token) */
   screen: Screen;
   /** Alt text describing the image content for accessibility */
   imageAlt?: string;
@@ -63,6 +75,8 @@ export function buildFrameResponse(opts: {
   inputText?: string;
   /** Alt text for the image — auto-generated if not provided */
   imageAlt?: string;
+  /** Context for the next interaction (menu page, selection) */
+  state?: FrameState;
 }): FrameResponse {
   const {
     screen,
@@ -72,6 +86,7 @@ export function buildFrameResponse(opts: {
     postTarget,
     inputText,
     imageAlt,
+    state,
   } = opts;
 
   // Image URL — points at the dynamic OG image endpoint
@@ -85,9 +100,14 @@ export function buildFrameResponse(opts: {
 
   const imageUrl = absoluteUrl(`/api/frames/image?${imgQuery}`);
 
-  // Post URL — encodes current screen so the handler knows context
+  // Post URL — a signed token of the current screen (and menu state) so
+  // the handler knows context. Anonymous frames (fid 0) carry none and
+  // start from home.
   const postUrl = absoluteUrl(
-    postTarget ?? `/api/frames?screen=${screen}&fid=${fid}`,
+    postTarget ??
+      (fid > 0
+        ? `/api/frames?state=${encodeFrameState({ screen, fid, ...state })}`
+        : "/api/frames"),
   );
 
   // Default button layouts per screen
@@ -119,7 +139,7 @@ function getDefaultButtons(screen: Screen): FrameButton[] {
 
     case "colony":
       return [
-        { label: "⚡ Produce", action: "post" },
+        { label: "🎁 Daily Reward", action: "post" },
         { label: "🔨 Build", action: "post" },
         { label: "📋 Modules", action: "post" },
         { label: "🏠 Home", action: "post" },
@@ -129,14 +149,22 @@ function getDefaultButtons(screen: Screen): FrameButton[] {
       return [
         { label: "⚡ Solar Panel", action: "post" },
         { label: "⛏️ Mining Rig", action: "post" },
-        { label: "🏠 Habitat", action: "post" },
+        { label: "▶ More", action: "post" },
         { label: "🔙 Back", action: "post" },
       ];
 
+    case "module":
+      return [
+        { label: "⬆️ Upgrade", action: "post" },
+        { label: "🔧 Repair", action: "post" },
+        { label: "📋 Modules", action: "post" },
+        { label: "🏠 Home", action: "post" },
+      ];
+
     case "market":
       return [
-        { label: "💰 Sell LUNAR", action: "post" },
-        { label: "⛏️ Sell Regolith", action: "post" },
+        { label: "🟢 Buy", action: "post" },
+        { label: "🔴 Sell", action: "post" },
         { label: "📊 Prices", action: "post" },
         { label: "🏠 Home", action: "post" },
       ];
@@ -171,9 +199,15 @@ function getDefaultImageAlt(screen: Screen): string {
     case "colony":
       return "Colony overview showing module grid, active modules, production statistics, and build options.";
     case "build":
-      return "Build menu showing available module types: Solar Panel, Mining Rig, Habitat, with costs and descriptions.";
+      return "Build menu showing a page of module types with their costs and output.";
+    case "build_tier":
+      return "Tier menu for the selected module type showing each tier's cost, output and unlock level.";
+    case "modules":
+      return "Colony module grid with buttons to select a module to upgrade or repair.";
+    case "module":
+      return "Module detail showing the selected module's tier, level, efficiency and status with upgrade and repair options.";
     case "market":
-      return "Market terminal showing current resource prices, trade options for LUNAR and Regolith.";
+      return "Market terminal showing current resource prices. Enter an amount and resource, then buy or sell.";
     case "alliance":
       return "Alliance panel showing member list, contribution totals, and ranking information.";
     case "result":
@@ -0,0 +1,157 @@
+/**
+ * Signed Frame state.
+ *
+ * Each Frame response's postUrl carries a state token instead of plain
+ * screen/fid query params, so clients can't forge a transition to another
+ * screen or another player's selection:
+ *
+ *   state = "1" + "." + base64url(JSON payload) + "." + base64url(HMAC-SHA256)
+ *
+ * The payload is compact — { s: screen, f: fid, p?: page, e?: selection,
+ * n: nonce, x: expiry } — and signed with FRAME_STATE_SECRET.
+ * GameState.handleAction decodes it; a stale, tampered or foreign token
+ * sends the player back to the home screen.
+ *
+ * Signing is synchronous (@noble/hashes) because buildFrameResponse is.
+ */
+
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha2";
+import type { FrameState, Screen } from "@/lib/frame-response";
+import { fromBase64Url, toBase64Url } from "@/lib/utils";
+
+/** Bumped when the payload layout changes; older tokens stop verifying. */
+export const FRAME_STATE_VERSION = 1;
+
+/** How long a Frame stays interactive before falling back to home. */
+export const FRAME_STATE_TTL_SECONDS = 60 * 60;
+
+/** Used outside production when FRAME_STATE_SECRET is unset. */
+const DEV_FRAME_STATE_SECRET = "lunar-colony-dev-frame-state-secret";
+
+export interface DecodedFrameState extends FrameState {
+  screen: Screen;
+  fid: number;
+  nonce: string;
+  /** Expires at, unix seconds */
+  exp: number;
+}
+
+/** Wire format — single-letter keys keep postUrls short. */
+interface FrameStatePayload {
+  s: Screen;
+  f: number;
+  p?: number;
+  e?: string;
+  n: string;
+  x: number;
+}
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+/**
+ * The HMAC secret, or null when state can't be signed (production without
+ * FRAME_STATE_SECRET).
+ */
+function getFrameStateSecret(): string | null {
+  const secret = process.env.FRAME_STATE_SECRET;
+  if (secret) return secret;
+  return process.env.NODE_ENV === "production" ? null : DEV_FRAME_STATE_SECRET;
+}
+
+function sign(secret: string, data: string): string {
+  const encoder = new TextEncoder();
+  return toBase64Url(
+    hmac(sha256, encoder.encode(secret), encoder.encode(data)),
+  );
+}
+
+/** Constant-time comparison of two signatures. */
+function signaturesMatch(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// ---------------------------------------------------------------------------
+// Tokens
+// ---------------------------------------------------------------------------
+
+/**
+ * Sign the state for the next interaction. Throws when no secret is
+ * configured.
+ */
+export function encodeFrameState(
+  state: FrameState & { screen: Screen; fid: number },
+  now = new Date(),
+): string {
+  const secret = getFrameStateSecret();
+  if (!secret) throw new Error("FRAME_STATE_SECRET is not configured");
+
+  const payload: FrameStatePayload = {
+    s: state.screen,
+    f: state.fid,
+    n: toBase64Url(crypto.getRandomValues(new Uint8Array(6))),
+    x: Math.floor(now.getTime() / 1000) + FRAME_STATE_TTL_SECONDS,
+  };
+  if (state.page) payload.p = state.page;
+  if (state.selection) payload.e = state.selection;
+
+  const body = `${FRAME_STATE_VERSION}.${toBase64Url(
+    new TextEncoder().encode(JSON.stringify(payload)),
+  )}`;
+  return `${body}.${sign(secret, body)}`;
+}
+
+/**
+ * Verify a state token's version, signature and expiry.
+ * Returns null for anything malformed, forged or expired.
+ */
+export function decodeFrameState(
+  token: string | null | undefined,
+  now = new Date(),
+): DecodedFrameState | null {
+  const secret = getFrameStateSecret();
+  if (!secret || !token) return null;
+
+  const [version, payload, signature, extra] = token.split(".");
+  if (
+    version !== String(FRAME_STATE_VERSION) ||
+    !payload ||
+    !signature ||
+    extra !== undefined
+  ) {
+    return null;
+  }
+  if (!signaturesMatch(signature, sign(secret, `${version}.${payload}`))) {
+    return null;
+  }
+
+  const json = fromBase64Url(payload);
+  if (!json) return null;
+  try {
+    const data = JSON.parse(
+      new TextDecoder().decode(json),
+    ) as FrameStatePayload;
+    // A signed screen that's since been removed falls through to home in
+    // handleAction
+    if (typeof data.s !== "string") return null;
+    if (!Number.isInteger(data.f) || data.f < 0) return null;
+    if (!(data.x > Math.floor(now.getTime() / 1000))) return null;
+    if (data.p !== undefined && !Number.isInteger(data.p)) return null;
+
+    return {
+      screen: data.s,
+      fid: data.f,
+      page: data.p,
+      selection: typeof data.e === "string" ? data.e : undefined,
+      nonce: data.n,
+      exp: data.x,
+    };
+  } catch {
+    return null;
+  }
+}
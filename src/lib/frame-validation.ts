@@ -0,0 +1,532 @@
+/**
+ * Farcaster Frame message validation.
+ *
+ * Frame POSTs carry a signed Farcaster message in
+ * `trustedData.messageBytes`; `untrustedData` is never trusted. A
+ * FrameValidator turns the message bytes into a verified FrameAction:
+ *   - neynar      — Neynar's hosted validate endpoint (needs NEYNAR_API_KEY)
+ *   - hub         — self-hosted: decodes the protobuf, checks the BLAKE3
+ *                   hash and Ed25519 signature locally, then asks a key
+ *                   registry (a Farcaster hub, or FRAME_SIGNER_KEYS) whether
+ *                   the signer belongs to the FID
+ *   - fixture     — tests / local development: hex-encoded JSON fixtures
+ *                   built with encodeFixtureMessage(); never in production
+ *
+ * validateFrameRequest() adds replay protection on top: messages older than
+ * FRAME_MESSAGE_MAX_AGE_MS (or from the future) are stale, and each message
+ * hash is claimed once in FrameMessageReceipt.
+ *
+ * Entry points:
+ *   - validateFrameRequest()    — routes: body → action or rejection reason
+ *   - getFrameValidator()       — the backend selected by FRAME_VALIDATOR
+ *   - getSignerKeyRegistry()    — the signer registry the hub backend uses
+ *   - pruneFrameReceipts()      — cron: drop receipts past the replay window
+ */
+
+import { ed25519 } from "@noble/curves/ed25519";
+import { blake3 } from "@noble/hashes/blake3";
+import prisma from "@/lib/database";
+import { neynar } from "@/lib/api-clients/neynar";
+import { isPrismaUniqueViolation } from "@/lib/utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FrameAction {
+  fid: number;
+  buttonIndex: number;
+  inputText?: string;
+  /** Serialized frame state echoed back by the client */
+  state?: string;
+  url?: string;
+  castId?: { fid: number; hash: string };
+  /** When the user signed the action */
+  timestamp: Date;
+  /** Message hash, hex with 0x prefix — the replay key */
+  hash: string;
+}
+
+export interface FrameValidator {
+  name: string;
+  /**
+   * The verified action, or null when the message is malformed or its
+   * signature doesn't check out. Throws when the backend is unavailable.
+   */
+  validate(messageBytes: string): Promise<FrameAction | null>;
+}
+
+export interface SignerKeyRegistry {
+  /** Whether `signer` (hex Ed25519 public key) is an active key of `fid`. */
+  isActiveSigner(fid: number, signer: string): Promise<boolean>;
+}
+
+export type FrameRejection =
+  "missing" | "invalid" | "stale" | "replayed" | "unavailable";
+
+export type FrameValidationResult =
+  { ok: true; action: FrameAction } | { ok: false; reason: FrameRejection };
+
+/** Messages older than this are rejected as stale. */
+export const FRAME_MESSAGE_MAX_AGE_MS = 10 * 60 * 1000;
+
+/** Tolerated client clock skew for timestamps in the future. */
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+/** Farcaster timestamps count seconds from 2021-01-01T00:00:00Z. */
+const FARCASTER_EPOCH_MS = 1_609_459_200_000;
+
+const MESSAGE_TYPE_FRAME_ACTION = 13;
+const HASH_SCHEME_BLAKE3 = 1;
+const SIGNATURE_SCHEME_ED25519 = 1;
+
+// ---------------------------------------------------------------------------
+// Protobuf decoding
+// ---------------------------------------------------------------------------
+
+type ProtoFields = Map<number, Array<number | Uint8Array>>;
+
+function hexToBytes(hex: string): Uint8Array | null {
+  const clean = hex.startsWith("0x") ? hex.slice(2) : hex;
+  if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) return null;
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Decode one level of a protobuf message into field number → values.
+ * Varints come back as numbers, length-delimited fields as byte slices.
+ * Returns null on truncated or unsupported input.
+ */
+function decodeProto(bytes: Uint8Array): ProtoFields | null {
+  const fields: ProtoFields = new Map();
+  let pos = 0;
+
+  const readVarint = (): number | null => {
+    let result = 0;
+    let multiplier = 1;
+    while (pos < bytes.length) {
+      const byte = bytes[pos++]!;
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+      if (multiplier > 2 ** 63) return null;
+    }
+    return null;
+  };
+
+  while (pos < bytes.length) {
+    const key = readVarint();
+    if (key === null) return null;
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    let value: number | Uint8Array;
+    if (wireType === 0) {
+      const v = readVarint();
+      if (v === null) return null;
+      value = v;
+    } else if (wireType === 2) {
+      const len = readVarint();
+      if (len === null || pos + len > bytes.length) return null;
+      value = bytes.subarray(pos, pos + len);
+      pos += len;
+    } else if (wireType === 1 || wireType === 5) {
+      // Fixed 64/32-bit fields aren't used by frame messages — skip them
+      pos += wireType === 1 ? 8 : 4;
+      if (pos > bytes.length) return null;
+      continue;
+    } else {
+      return null;
+    }
+
+    const list = fields.get(field) ?? [];
+    list.push(value);
+    fields.set(field, list);
+  }
+
+  return fields;
+}
+
+function numberField(fields: ProtoFields, n: number): number | undefined {
+  const v = fields.get(n)?.[0];
+  return typeof v === "number" ? v : undefined;
+}
+
+function bytesField(fields: ProtoFields, n: number): Uint8Array | undefined {
+  const v = fields.get(n)?.[0];
+  return v instanceof Uint8Array ? v : undefined;
+}
+
+function textField(fields: ProtoFields, n: number): string | undefined {
+  const v = bytesField(fields, n);
+  return v && v.length > 0 ? new TextDecoder().decode(v) : undefined;
+}
+
+interface DecodedFrameMessage {
+  action: FrameAction;
+  /** Serialized MessageData the hash covers */
+  dataBytes: Uint8Array;
+  hashBytes: Uint8Array;
+  hashScheme?: number;
+  signature: Uint8Array;
+  signatureScheme?: number;
+  signer: Uint8Array;
+}
+
+/**
+ * Decode a hex-encoded Farcaster Message holding a FrameAction, without
+ * verifying it.
+ */
+export function decodeFrameMessage(
+  messageBytes: string,
+): DecodedFrameMessage | null {
+  const raw = hexToBytes(messageBytes);
+  if (!raw || raw.length === 0) return null;
+  const message = decodeProto(raw);
+  if (!message) return null;
+
+  // data_bytes (7) takes precedence over the embedded data (1) when set
+  const dataBytes = bytesField(message, 7) ?? bytesField(message, 1);
+  const hashBytes = bytesField(message, 2);
+  const signature = bytesField(message, 4);
+  const signer = bytesField(message, 6);
+  if (!dataBytes || !hashBytes || !signature || !signer) return null;
+
+  const data = decodeProto(dataBytes);
+  if (!data || numberField(data, 1) !== MESSAGE_TYPE_FRAME_ACTION) return null;
+  const fid = numberField(data, 2);
+  const timestamp = numberField(data, 3);
+  const bodyBytes = bytesField(data, 16);
+  if (!fid || timestamp === undefined || !bodyBytes) return null;
+
+  const body = decodeProto(bodyBytes);
+  if (!body) return null;
+  const buttonIndex = numberField(body, 2);
+  if (!buttonIndex) return null;
+
+  const castIdBytes = bytesField(body, 3);
+  const castIdFields = castIdBytes ? decodeProto(castIdBytes) : null;
+  const castFid = castIdFields ? numberField(castIdFields, 1) : undefined;
+  const castHash = castIdFields ? bytesField(castIdFields, 2) : undefined;
+
+  return {
+    action: {
+      fid,
+      buttonIndex,
+      url: textField(body, 1),
+      castId:
+        castFid && castHash
+          ? { fid: castFid, hash: bytesToHex(castHash) }
+          : undefined,
+      inputText: textField(body, 4),
+      state: textField(body, 5),
+      timestamp: new Date(FARCASTER_EPOCH_MS + timestamp * 1000),
+      hash: bytesToHex(hashBytes),
+    },
+    dataBytes,
+    hashBytes,
+    hashScheme: numberField(message, 3),
+    signature,
+    signatureScheme: numberField(message, 5),
+    signer,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Key registries
+// ---------------------------------------------------------------------------
+
+/** How long a hub's "yes, that's their key" answer is reused. */
+const SIGNER_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Ask a Farcaster hub's HTTP API whether a signer is registered to a FID.
+ * Positive answers are cached briefly; revoked keys age out with the TTL.
+ */
+export function createHubKeyRegistry(hubUrl: string): SignerKeyRegistry {
+  const base = hubUrl.replace(/\/+$/, "");
+  const cache = new Map<string, number>();
+
+  return {
+    async isActiveSigner(fid, signer) {
+      const key = `${fid}:${signer}`;
+      const cachedUntil = cache.get(key);
+      if (cachedUntil && cachedUntil > Date.now()) return true;
+
+      const res = await fetch(
+        `${base}/v1/onChainSignersByFid?fid=${fid}&signer=${signer}`,
+      );
+      if (res.status >= 500) {
+        throw new Error(`Hub error (${res.status})`);
+      }
+      if (!res.ok) return false;
+
+      cache.set(key, Date.now() + SIGNER_CACHE_TTL_MS);
+      return true;
+    },
+  };
+}
+
+/**
+ * A fixed allowlist of signer keys, e.g. FRAME_SIGNER_KEYS="123:0xabc…,456:0xdef…".
+ */
+export function createStaticKeyRegistry(entries: string): SignerKeyRegistry {
+  const keys = new Set(
+    entries
+      .split(",")
+      .map((e) => e.trim().toLowerCase())
+      .filter(Boolean),
+  );
+  return {
+    async isActiveSigner(fid, signer) {
+      return keys.has(`${fid}:${signer.toLowerCase()}`);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Validators
+// ---------------------------------------------------------------------------
+
+/**
+ * Hosted validation through Neynar. The message is decoded locally for
+ * its hash and timestamp, which the replay guard needs.
+ */
+export const neynarValidator: FrameValidator = {
+  name: "neynar",
+  async validate(messageBytes) {
+    const decoded = decodeFrameMessage(messageBytes);
+    if (!decoded) return null;
+
+    const result = await neynar.validateFrameMessage(messageBytes);
+    if (!result.valid) return null;
+
+    return {
+      ...decoded.action,
+      fid: result.action.fid,
+      buttonIndex: result.action.buttonIndex,
+      inputText: result.action.inputText,
+    };
+  },
+};
+
+/**
+ * Self-hosted validation: verify the message hash and signature locally
+ * and check the signer against `registry`.
+ */
+export function createHubValidator(
+  registry: SignerKeyRegistry,
+): FrameValidator {
+  return {
+    name: "hub",
+    async validate(messageBytes) {
+      const decoded = decodeFrameMessage(messageBytes);
+      if (!decoded) return null;
+      if (
+        decoded.hashScheme !== HASH_SCHEME_BLAKE3 ||
+        decoded.signatureScheme !== SIGNATURE_SCHEME_ED25519
+      ) {
+        return null;
+      }
+
+      const expected = blake3(decoded.dataBytes, { dkLen: 20 });
+      if (bytesToHex(expected) !== bytesToHex(decoded.hashBytes)) return null;
+
+      let signed = false;
+      try {
+        signed = ed25519.verify(
+          decoded.signature,
+          decoded.hashBytes,
+          decoded.signer,
+        );
+      } catch {
+        return null;
+      }
+      if (!signed) return null;
+
+      const ok = await registry.isActiveSigner(
+        decoded.action.fid,
+        bytesToHex(decoded.signer),
+      );
+      return ok ? decoded.action : null;
+    },
+  };
+}
+
+export interface FrameFixture {
+  fid: number;
+  buttonIndex: number;
+  inputText?: string;
+  state?: string;
+  /** Defaults to now */
+  timestamp?: Date | string;
+  /** Defaults to a hash of the fixture itself */
+  hash?: string;
+}
+
+/**
+ * Encode a fixture as `messageBytes` for the fixture validator.
+ */
+export function encodeFixtureMessage(fixture: FrameFixture): string {
+  const timestamp = new Date(fixture.timestamp ?? Date.now()).toISOString();
+  const json = JSON.stringify({ ...fixture, timestamp });
+  return bytesToHex(new TextEncoder().encode(json));
+}
+
+/**
+ * Test / local validator: accepts hex-encoded JSON fixtures instead of
+ * signed protobufs.
+ */
+export const fixtureValidator: FrameValidator = {
+  name: "fixture",
+  async validate(messageBytes) {
+    const raw = hexToBytes(messageBytes);
+    if (!raw) return null;
+    try {
+      const text = new TextDecoder().decode(raw);
+      const fixture = JSON.parse(text) as FrameFixture;
+      if (!Number.isInteger(fixture.fid) || fixture.fid <= 0) return null;
+      if (!Number.isInteger(fixture.buttonIndex)) return null;
+      const timestamp = new Date(fixture.timestamp ?? NaN);
+      if (isNaN(timestamp.getTime())) return null;
+
+      return {
+        fid: fixture.fid,
+        buttonIndex: fixture.buttonIndex,
+        inputText: fixture.inputText,
+        state: fixture.state,
+        timestamp,
+        hash:
+          fixture.hash ??
+          bytesToHex(blake3(new TextEncoder().encode(text), { dkLen: 20 })),
+      };
+    } catch {
+      return null;
+    }
+  },
+};
+
+/**
+ * The backend for this environment:
+ *   FRAME_VALIDATOR=neynar|hub|fixture, defaulting to Neynar when
+ *   NEYNAR_API_KEY is set and the self-hosted hub validator otherwise.
+ * The hub validator checks signers against FRAME_SIGNER_KEYS when set,
+ * else the hub at FARCASTER_HUB_URL.
+ */
+export function getFrameValidator(): FrameValidator {
+  const choice =
+    process.env.FRAME_VALIDATOR ??
+    (process.env.NEYNAR_API_KEY ? "neynar" : "hub");
+
+  if (choice === "fixture" && process.env.NODE_ENV !== "production") {
+    return fixtureValidator;
+  }
+  if (choice === "neynar") return neynarValidator;
+
+  return createHubValidator(getSignerKeyRegistry());
+}
+
+/**
+ * The signer registry for this environment: FRAME_SIGNER_KEYS when set,
+ * else the hub at FARCASTER_HUB_URL. Without either, lookups throw.
+ * Also checks the app keys that sign Mini App webhook events.
+ */
+export function getSignerKeyRegistry(): SignerKeyRegistry {
+  const staticKeys = process.env.FRAME_SIGNER_KEYS;
+  if (staticKeys) return createStaticKeyRegistry(staticKeys);
+
+  const hubUrl = process.env.FARCASTER_HUB_URL;
+  if (hubUrl) return createHubKeyRegistry(hubUrl);
+
+  return {
+    async isActiveSigner() {
+      throw new Error(
+        "No signer registry: set FARCASTER_HUB_URL or FRAME_SIGNER_KEYS",
+      );
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Replay protection
+// ---------------------------------------------------------------------------
+
+/**
+ * Reject stale messages and claim the message hash; a second claim of
+ * the same hash is a replay.
+ */
+async function claimFrameMessage(
+  action: FrameAction,
+  now: Date,
+): Promise<"ok" | "stale" | "replayed"> {
+  const age = now.getTime() - action.timestamp.getTime();
+  if (age > FRAME_MESSAGE_MAX_AGE_MS || age < -MAX_CLOCK_SKEW_MS) {
+    return "stale";
+  }
+
+  try {
+    await prisma.frameMessageReceipt.create({
+      data: { hash: action.hash, fid: action.fid, timestamp: action.timestamp },
+    });
+    return "ok";
+  } catch (error) {
+    if (isPrismaUniqueViolation(error)) return "replayed";
+    throw error;
+  }
+}
+
+/**
+ * Validate a Frame POST body: verify `trustedData.messageBytes` with the
+ * configured backend, then apply replay protection.
+ */
+export async function validateFrameRequest(
+  body: unknown,
+  options: { validator?: FrameValidator; now?: Date } = {},
+): Promise<FrameValidationResult> {
+  const messageBytes = (body as { trustedData?: { messageBytes?: unknown } })
+    ?.trustedData?.messageBytes;
+  if (typeof messageBytes !== "string" || !messageBytes) {
+    return { ok: false, reason: "missing" };
+  }
+
+  const validator = options.validator ?? getFrameValidator();
+  let action: FrameAction | null;
+  try {
+    action = await validator.validate(messageBytes);
+  } catch {
+    return { ok: false, reason: "unavailable" };
+  }
+  if (!action) return { ok: false, reason: "invalid" };
+
+  const claim = await claimFrameMessage(action, options.now ?? new Date());
+  if (claim !== "ok") return { ok: false, reason: claim };
+
+  return { ok: true, action };
+}
+
+/**
+ * Delete receipts older than the replay window — a replayed message that
+ * old is rejected as stale anyway.
+ */
+export async function pruneFrameReceipts(
+  now = new Date(),
+): Promise<{ pruned: number }> {
+  const { count } = await prisma.frameMessageReceipt.deleteMany({
+    where: {
+      createdAt: {
+        lt: new Date(
+          now.getTime() - FRAME_MESSAGE_MAX_AGE_MS - MAX_CLOCK_SKEW_MS,
+        ),
+      },
+    },
+  });
+  return { pruned: count };
+}
@@ -0,0 +1,649 @@
+/**
+ * Game Config
+ *
+ * Typed, validated access to the live-tunable GameConfig table so the
+ * balance team can adjust the running game without a deploy.
+ *
+ *   1. Registry   — every known key with its type, default and bounds
+ *   2. Reads      — cached snapshot of all keys, refreshed every 30 s
+ *   3. Writes     — validated, version-checked updates with an audit trail
+ *
+ * Design: the registry is the source of truth for types and defaults.
+ * Rows in the DB only override values; a missing or invalid row falls
+ * back to the registry default (and invalid rows are reported), so the
+ * engines never see a value of the wrong shape. Every write bumps
+ * GameConfig.version, stamps updatedBy and logs a `config_updated`
+ * GameEvent with the previous and new value.
+ *
+ * Entry points:
+ *   - getGameConfig(key)        — typed single value
+ *   - loadGameConfig()          — full typed snapshot (one query, cached)
+ *   - updateGameConfig()        — validated write with optimistic locking
+ *   - listGameConfig()          — registry + DB state for admin tooling
+ *   - getGameConfigHistory()    — audit trail of past changes
+ *   - invalidateGameConfig()    — drop the cache (live reload)
+ */
+
+import prisma from "@/lib/database";
+import type { Prisma } from "@prisma/client";
+import { GameMetrics } from "@/lib/metrics";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface XpLevelFormula {
+  base: number;
+  exponent: number;
+}
+
+/** Every live-tunable key and the type of its value. */
+export interface GameConfigValues {
+  // General
+  max_modules_per_player: number;
+  starting_lunar: number;
+  daily_reward_base: number;
+  daily_streak_multiplier: number;
+  max_daily_streak: number;
+  // Economy
+  module_cost_multiplier: number;
+  upgrade_cost_multiplier: number;
+  trade_fee_percent: number;
+  diminishing_returns_start: number;
+  diminishing_returns_rate: number;
+  min_efficiency: number;
+  burn_base_rate: number;
+  trade_offer_ttl_hours: number;
+  trade_offer_max_open: number;
+  gift_daily_limit: number;
+  // Modules
+  module_base_efficiency: number;
+  max_module_level: number;
+  // Crew
+  max_crew_per_player: number;
+  crew_hire_cost: number;
+  crew_xp_per_cycle: number;
+  crew_specialty_bonus: number;
+  // Alliance
+  alliance_create_cost: number;
+  alliance_max_members: number;
+  alliance_dividend_percent: number;
+  alliance_dividend_payout_percent: number;
+  alliance_officer_withdraw_limit: number;
+  alliance_leader_withdraw_limit: number;
+  alliance_xp_per_cycle: number;
+  alliance_xp_per_lunar_spent: number;
+  alliance_slots_per_level: number;
+  // Leveling
+  xp_per_module_build: number;
+  xp_per_upgrade: number;
+  xp_per_collection: number;
+  xp_level_formula: XpLevelFormula;
+  // Referrals
+  referral_min_followers: number;
+  referral_min_account_age_days: number;
+  referral_daily_reward_limit: number;
+}
+
+export type GameConfigKey = keyof GameConfigValues;
+
+export type GameConfigCategory =
+  | "general"
+  | "economy"
+  | "modules"
+  | "crew"
+  | "alliance"
+  | "leveling"
+  | "referral";
+
+export interface ConfigSpec<T> {
+  default: T;
+  category: GameConfigCategory;
+  description: string;
+  /** Human-readable constraint, shown next to validation errors */
+  constraint: string;
+  validate: (value: unknown) => value is T;
+}
+
+export type GameConfigRegistry = {
+  [K in GameConfigKey]: ConfigSpec<GameConfigValues[K]>;
+};
+
+export interface GameConfigEntry {
+  key: GameConfigKey;
+  value: unknown;
+  defaultValue: unknown;
+  category: GameConfigCategory;
+  description: string;
+  constraint: string;
+  /** False when the stored row fails validation and the default is served */
+  isValid: boolean;
+  isOverridden: boolean;
+  version: number;
+  updatedAt: Date | null;
+  updatedBy: string | null;
+}
+
+export interface ConfigUpdateResult {
+  success: boolean;
+  entry?: GameConfigEntry;
+  error?: string;
+}
+
+export interface ConfigChange {
+  key: string;
+  previous: unknown;
+  value: unknown;
+  version: number;
+  updatedBy: string;
+  changedAt: Date;
+}
+
+// ---------------------------------------------------------------------------
+// 1. Registry
+// ---------------------------------------------------------------------------
+
+function numberSpec(
+  defaultValue: number,
+  category: GameConfigCategory,
+  description: string,
+  bounds: { min: number; max: number; integer?: boolean },
+): ConfigSpec<number> {
+  const kind = bounds.integer ? "integer" : "number";
+  return {
+    default: defaultValue,
+    category,
+    description,
+    constraint: `${kind} ${bounds.min}–${bounds.max}`,
+    validate: (value: unknown): value is number =>
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      value >= bounds.min &&
+      value <= bounds.max &&
+      (!bounds.integer || Number.isInteger(value)),
+  };
+}
+
+/**
+ * Defaults mirror the values the engines shipped with, so an empty
+ * GameConfig table behaves exactly like the hardcoded game.
+ */
+export const GAME_CONFIG_REGISTRY: GameConfigRegistry = {
+  // -- General --
+  max_modules_per_player: numberSpec(
+    20,
+    "general",
+    "Max modules a player can build",
+    { min: 1, max: 100, integer: true },
+  ),
+  starting_lunar: numberSpec(
+    500,
+    "general",
+    "Starting $LUNAR for new players",
+    { min: 0, max: 1_000_000 },
+  ),
+  daily_reward_base: numberSpec(50, "general", "Base daily login reward", {
+    min: 0,
+    max: 100_000,
+  }),
+  daily_streak_multiplier: numberSpec(
+    1.1,
+    "general",
+    "Multiplier per streak day",
+    { min: 1, max: 2 },
+  ),
+  max_daily_streak: numberSpec(
+    30,
+    "general",
+    "Max streak days (caps bonus)",
+    { min: 1, max: 365, integer: true },
+  ),
+
+  // -- Economy --
+  module_cost_multiplier: numberSpec(
+    1.15,
+    "economy",
+    "Cost scaling per additional module",
+    { min: 1, max: 3 },
+  ),
+  upgrade_cost_multiplier: numberSpec(
+    1.5,
+    "economy",
+    "Cost scaling per level",
+    { min: 1, max: 5 },
+  ),
+  trade_fee_percent: numberSpec(5, "economy", "Marketplace trade fee (%)", {
+    min: 0,
+    max: 50,
+  }),
+  diminishing_returns_start: numberSpec(
+    30,
+    "economy",
+    "Module age in cycles before efficiency drops",
+    { min: 0, max: 100_000, integer: true },
+  ),
+  diminishing_returns_rate: numberSpec(
+    1,
+    "economy",
+    "Efficiency loss % per cycle after threshold",
+    { min: 0, max: 100 },
+  ),
+  min_efficiency: numberSpec(
+    50,
+    "economy",
+    "Floor efficiency % (never lower)",
+    { min: 0, max: 100 },
+  ),
+
+  burn_base_rate: numberSpec(
+    0.5,
+    "economy",
+    "LUNAR paid per burned unit, as a share of its price (lower of live and base)",
+    { min: 0, max: 1 },
+  ),
+  trade_offer_ttl_hours: numberSpec(
+    48,
+    "economy",
+    "Hours before an unanswered player trade offer expires",
+    { min: 1, max: 720, integer: true },
+  ),
+  trade_offer_max_open: numberSpec(
+    10,
+    "economy",
+    "Max open trade offers per player",
+    { min: 1, max: 100, integer: true },
+  ),
+  gift_daily_limit: numberSpec(
+    2000,
+    "economy",
+    "Daily $LUNAR value a player may give away (or receive) in gifts and lopsided trades",
+    { min: 0, max: 10_000_000 },
+  ),
+
+  // -- Modules --
+  module_base_efficiency: numberSpec(
+    100,
+    "modules",
+    "Starting efficiency for new modules",
+    { min: 1, max: 100 },
+  ),
+  max_module_level: numberSpec(10, "modules", "Max level per module", {
+    min: 1,
+    max: 100,
+    integer: true,
+  }),
+
+  // -- Crew --
+  max_crew_per_player: numberSpec(5, "crew", "Max crew members", {
+    min: 0,
+    max: 50,
+    integer: true,
+  }),
+  crew_hire_cost: numberSpec(200, "crew", "Base cost to hire crew", {
+    min: 0,
+    max: 1_000_000,
+  }),
+  crew_xp_per_cycle: numberSpec(1, "crew", "XP gained per production cycle", {
+    min: 0,
+    max: 1_000,
+  }),
+  crew_specialty_bonus: numberSpec(
+    50,
+    "crew",
+    "% of a crew member's output bonus that only applies on a matching module",
+    { min: 0, max: 100 },
+  ),
+
+  // -- Alliance --
+  alliance_create_cost: numberSpec(
+    1000,
+    "alliance",
+    "Cost to create an alliance",
+    { min: 0, max: 1_000_000 },
+  ),
+  alliance_max_members: numberSpec(10, "alliance", "Member slots at level 1", {
+    min: 2,
+    max: 200,
+    integer: true,
+  }),
+  alliance_dividend_percent: numberSpec(
+    5,
+    "alliance",
+    "% of production to alliance treasury",
+    { min: 0, max: 100 },
+  ),
+  alliance_dividend_payout_percent: numberSpec(
+    50,
+    "alliance",
+    "% of skimmed production paid back to members as dividends",
+    { min: 0, max: 100 },
+  ),
+  alliance_officer_withdraw_limit: numberSpec(
+    1000,
+    "alliance",
+    "Daily treasury withdrawal limit for officers ($LUNAR value)",
+    { min: 0, max: 10_000_000 },
+  ),
+  alliance_leader_withdraw_limit: numberSpec(
+    10000,
+    "alliance",
+    "Daily treasury withdrawal limit for leaders ($LUNAR value)",
+    { min: 0, max: 10_000_000 },
+  ),
+  alliance_xp_per_cycle: numberSpec(
+    10,
+    "alliance",
+    "Alliance XP per member production cycle",
+    { min: 0, max: 10_000 },
+  ),
+  alliance_xp_per_lunar_spent: numberSpec(
+    0.5,
+    "alliance",
+    "Alliance XP per $LUNAR the treasury spends on perks",
+    { min: 0, max: 100 },
+  ),
+  alliance_slots_per_level: numberSpec(
+    2,
+    "alliance",
+    "Extra member slots gained per alliance level",
+    { min: 0, max: 50, integer: true },
+  ),
+
+  // -- XP / Leveling --
+  xp_per_module_build: numberSpec(50, "leveling", "XP for building a module", {
+    min: 0,
+    max: 100_000,
+  }),
+  xp_per_upgrade: numberSpec(25, "leveling", "XP for upgrading a module", {
+    min: 0,
+    max: 100_000,
+  }),
+  xp_per_collection: numberSpec(
+    10,
+    "leveling",
+    "XP for collecting resources",
+    { min: 0, max: 100_000 },
+  ),
+  xp_level_formula: {
+    default: { base: 100, exponent: 1.5 },
+    category: "leveling",
+    description: "XP needed: base * level^exponent",
+    constraint: "{ base: 1–100000, exponent: 1–4 }",
+    validate: (value: unknown): value is XpLevelFormula => {
+      if (typeof value !== "object" || value === null) return false;
+      const { base, exponent } = value as Record<string, unknown>;
+      return (
+        typeof base === "number" &&
+        typeof exponent === "number" &&
+        base >= 1 &&
+        base <= 100_000 &&
+        exponent >= 1 &&
+        exponent <= 4
+      );
+    },
+  },
+
+  // -- Referrals --
+  referral_min_followers: numberSpec(
+    10,
+    "referral",
+    "Farcaster followers a referee needs before their referrer is rewarded",
+    { min: 0, max: 1_000_000, integer: true },
+  ),
+  referral_min_account_age_days: numberSpec(
+    7,
+    "referral",
+    "Days since a referee's FID was registered before their referrer is rewarded",
+    { min: 0, max: 3650, integer: true },
+  ),
+  referral_daily_reward_limit: numberSpec(
+    10,
+    "referral",
+    "Referral milestone rewards a referrer can receive per day",
+    { min: 0, max: 1_000, integer: true },
+  ),
+};
+
+export function isGameConfigKey(key: string): key is GameConfigKey {
+  return Object.prototype.hasOwnProperty.call(GAME_CONFIG_REGISTRY, key);
+}
+
+/** Registry defaults as a plain values object. */
+export function defaultGameConfig(): GameConfigValues {
+  const values = {} as Record<GameConfigKey, unknown>;
+  for (const key of Object.keys(GAME_CONFIG_REGISTRY) as GameConfigKey[]) {
+    values[key] = GAME_CONFIG_REGISTRY[key].default;
+  }
+  return values as GameConfigValues;
+}
+
+// ---------------------------------------------------------------------------
+// 2. Reads — cached snapshot
+// ---------------------------------------------------------------------------
+
+/** Short TTL so every instance picks up admin changes within one tick. */
+const CONFIG_TTL_MS = 30_000;
+
+let snapshot: { values: GameConfigValues; fetchedAt: number } | null = null;
+
+/**
+ * Load every config value in a single query, validated against the
+ * registry. Cached for CONFIG_TTL_MS; a DB failure serves defaults
+ * without caching so the next call retries.
+ */
+export async function loadGameConfig(): Promise<GameConfigValues> {
+  if (snapshot && Date.now() - snapshot.fetchedAt < CONFIG_TTL_MS) {
+    return snapshot.values;
+  }
+
+  const values = defaultGameConfig();
+  try {
+    const rows = await prisma.gameConfig.findMany({
+      select: { key: true, value: true },
+    });
+
+    const invalid: string[] = [];
+    for (const row of rows) {
+      if (!isGameConfigKey(row.key)) continue;
+      const spec = GAME_CONFIG_REGISTRY[row.key];
+      if (spec.validate(row.value)) {
+        (values as Record<GameConfigKey, unknown>)[row.key] = row.value;
+      } else {
+        invalid.push(row.key);
+      }
+    }
+
+    if (invalid.length > 0) {
+      GameMetrics.trackError(
+        new Error(`Invalid GameConfig values: ${invalid.join(", ")}`),
+        { context: "game_config_load", keys: invalid },
+        "warning",
+      );
+    }
+  } catch (error) {
+    GameMetrics.trackError(error, { context: "game_config_load" }, "warning");
+    return values;
+  }
+
+  snapshot = { values, fetchedAt: Date.now() };
+  return values;
+}
+
+/** Typed single-value read (served from the cached snapshot). */
+export async function getGameConfig<K extends GameConfigKey>(
+  key: K,
+): Promise<GameConfigValues[K]> {
+  const values = await loadGameConfig();
+  return values[key];
+}
+
+/** Drop the cached snapshot so the next read hits the DB. */
+export function invalidateGameConfig(): void {
+  snapshot = null;
+}
+
+// ---------------------------------------------------------------------------
+// 3. Writes — validated, versioned, audited
+// ---------------------------------------------------------------------------
+
+type GameConfigRow = Prisma.GameConfigGetPayload<object>;
+
+function toEntry(
+  key: GameConfigKey,
+  row: GameConfigRow | null | undefined,
+): GameConfigEntry {
+  const spec = GAME_CONFIG_REGISTRY[key];
+  const isValid = row ? spec.validate(row.value) : true;
+  return {
+    key,
+    value: row && isValid ? row.value : spec.default,
+    defaultValue: spec.default,
+    category: spec.category,
+    description: spec.description,
+    constraint: spec.constraint,
+    isValid,
+    isOverridden: !!row,
+    version: row?.version ?? 0,
+    updatedAt: row?.updatedAt ?? null,
+    updatedBy: row?.updatedBy ?? null,
+  };
+}
+
+/**
+ * Update a config value.
+ *
+ * @param updatedBy      Who made the change (admin FID or "system")
+ * @param expectedVersion  Version the caller last saw; the write fails if
+ *                         someone else changed the key in the meantime
+ */
+export async function updateGameConfig(
+  key: string,
+  value: unknown,
+  updatedBy: string,
+  expectedVersion?: number,
+): Promise<ConfigUpdateResult> {
+  if (!isGameConfigKey(key)) {
+    return { success: false, error: `Unknown config key: ${key}` };
+  }
+  const spec = GAME_CONFIG_REGISTRY[key];
+  if (!spec.validate(value)) {
+    return {
+      success: false,
+      error: `Invalid value for ${key}: expected ${spec.constraint}`,
+    };
+  }
+
+  try {
+    const updated = await prisma.$transaction(async (tx) => {
+      const current = await tx.gameConfig.findUnique({ where: { key } });
+
+      if (expectedVersion !== undefined) {
+        const currentVersion = current?.version ?? 0;
+        if (currentVersion !== expectedVersion) {
+          throw new Error(
+            `${key} was changed by ${current?.updatedBy ?? "someone else"} (version ${currentVersion}); reload and try again`,
+          );
+        }
+      }
+
+      let row: GameConfigRow;
+      if (current) {
+        const { count } = await tx.gameConfig.updateMany({
+          where: { key, version: current.version },
+          data: {
+            value: value as Prisma.InputJsonValue,
+            updatedBy,
+            version: { increment: 1 },
+          },
+        });
+        if (count === 0) {
+          throw new Error(`${key} was changed concurrently; try again`);
+        }
+        row = await tx.gameConfig.findUniqueOrThrow({ where: { key } });
+      } else {
+        row = await tx.gameConfig.create({
+          data: {
+            key,
+            value: value as Prisma.InputJsonValue,
+            category: spec.category,
+            description: spec.description,
+            updatedBy,
+          },
+        });
+      }
+
+      await tx.gameEvent.create({
+        data: {
+          type: "config_updated",
+          severity: "INFO",
+          data: {
+            key,
+            previous: (current?.value ??
+              spec.default) as Prisma.InputJsonValue,
+            value: value as Prisma.InputJsonValue,
+            version: row.version,
+            updatedBy,
+          },
+        },
+      });
+
+      return row;
+    });
+
+    invalidateGameConfig();
+    return { success: true, entry: toEntry(key, updated) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Config update failed",
+    };
+  }
+}
+
+/** Every registry key with its live DB state, grouped by category order. */
+export async function listGameConfig(): Promise<GameConfigEntry[]> {
+  const rows = await prisma.gameConfig.findMany();
+  const byKey = new Map(rows.map((r) => [r.key, r]));
+  return (Object.keys(GAME_CONFIG_REGISTRY) as GameConfigKey[]).map((key) =>
+    toEntry(key, byKey.get(key)),
+  );
+}
+
+/** Past changes, newest first. Optionally filtered to a single key. */
+export async function getGameConfigHistory(
+  key?: string,
+  limit = 50,
+): Promise<ConfigChange[]> {
+  const events = await prisma.gameEvent.findMany({
+    where: {
+      type: "config_updated",
+      ...(key ? { data: { path: ["key"], equals: key } } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: Math.min(Math.max(limit, 1), 200),
+  });
+
+  return events.map((e) => {
+    const data = (e.data ?? {}) as Record<string, unknown>;
+    return {
+      key: String(data.key ?? ""),
+      previous: data.previous ?? null,
+      value: data.value ?? null,
+      version: Number(data.version ?? 0),
+      updatedBy: String(data.updatedBy ?? "unknown"),
+      changedAt: e.createdAt,
+    };
+  });
+}
+
+const gameConfig = {
+  GAME_CONFIG_REGISTRY,
+  loadGameConfig,
+  getGameConfig,
+  invalidateGameConfig,
+  updateGameConfig,
+  listGameConfig,
+  getGameConfigHistory,
+};
+
+export default gameConfig;
@@ -12,10 +12,33 @@
  */
 
 import prisma from "@/lib/database";
-import { GAME_CONSTANTS, type ModuleType } from "@/lib/utils";
-import type { Prisma } from "@prisma/client";
+import {
+  GAME_CONSTANTS,
+  type ModuleType,
+  type ResourceType,
+  type Tier,
+} from "@/lib/utils";
+import type { AllianceJoinMode, AllianceRole, Prisma } from "@prisma/client";
 import { upsertPlayerSummary } from "@/lib/database/queries";
 import { GameMetrics } from "@/lib/metrics";
+import {
+  getGameConfig,
+  loadGameConfig,
+  type XpLevelFormula,
+} from "@/lib/game-config";
+import {
+  getPlayerEventModifiers,
+  getModifier,
+  recordParticipation,
+  type ModifierSet,
+} from "@/lib/event-engine";
+import { RESOURCE_CONFIGS } from "@/lib/market-engine";
+import {
+  MODULE_UPKEEP,
+  PRODUCTION_CYCLE_MS,
+  planUpkeep,
+  reactivateStarvedModules,
+} from "@/lib/production-engine";
 
 // --- Types ---
 
@@ -71,6 +94,21 @@ const STARTER_BASE_OUTPUT: Record<ModuleType, number> = {
   LAUNCH_PAD: 50,
 };
 
+/** Production cycles of upkeep a new colony's stockpile starts with. */
+const STARTER_UPKEEP_CYCLES = 7;
+
+/** Upkeep inputs to seed so starter HABITATs and OXYGEN_GENERATORs can run. */
+function starterStock(types: ModuleType[]): Map<ResourceType, number> {
+  const stock = new Map<ResourceType, number>();
+  for (const type of types) {
+    for (const [resource, perLevel] of Object.entries(MODULE_UPKEEP[type])) {
+      const key = resource as ResourceType;
+      stock.set(key, (stock.get(key) ?? 0) + perLevel * STARTER_UPKEEP_CYCLES);
+    }
+  }
+  return stock;
+}
+
 /**
  * Pick N distinct random modules from the starter pool.
  * Always includes at least one SOLAR_PANEL for guaranteed energy.
@@ -89,26 +127,55 @@ function pickStarterModules(count: number): ModuleType[] {
 
 // --- Player Management ---
 
+/** Thrown when a suspended (soft-deleted) player tries to play. */
+export class PlayerSuspendedError extends Error {
+  constructor(public readonly fid: number) {
+    super("This colony has been suspended");
+    this.name = "PlayerSuspendedError";
+  }
+}
+
+/**
+ * How a new player arrived, resolved from a referral link or share embed
+ * by referrals.ts (resolveReferral).
+ */
+export interface PlayerArrival {
+  referrerId: string;
+  source: "link" | "share";
+  channel: "frame" | "dashboard";
+  shareId?: string;
+}
+
 /**
  * Get or create a player by their Farcaster FID.
- * New players start with 4 random starter modules and starting $LUNAR.
+ * New players start with 4 random starter modules, starting $LUNAR and
+ * a week of the starters' upkeep inputs;
+ * `arrival` records who referred them. Existing players ignore it.
+ * Throws PlayerSuspendedError for players soft-deleted by an admin.
  */
-export async function getOrCreatePlayer(fid: number, username?: string) {
+export async function getOrCreatePlayer(
+  fid: number,
+  username?: string,
+  arrival?: PlayerArrival | null,
+) {
   let player = await prisma.player.findUnique({
-    where: { fid, deletedAt: null },
+    where: { fid },
     include: {
       modules: { where: { deletedAt: null } },
     },
   });
 
+  if (player?.deletedAt) throw new PlayerSuspendedError(fid);
+
   if (!player) {
     const starters = pickStarterModules(4);
+    const config = await loadGameConfig();
 
     player = await prisma.player.create({
       data: {
         fid,
         username: username || `player_${fid}`,
-        lunarBalance: GAME_CONSTANTS.STARTING_LUNAR,
+        lunarBalance: config.starting_lunar,
         moduleCount: starters.length,
         // 4 random starter modules
         modules: {
@@ -118,22 +185,49 @@ export async function getOrCreatePlayer(fid: number, username?: string) {
             level: 1,
             coordinates: { x: i % 5, y: Math.floor(i / 5) },
             baseOutput: STARTER_BASE_OUTPUT[type],
-            efficiency: 100,
+            efficiency: config.module_base_efficiency,
           })),
         },
-        // Initialize LUNAR resource balance
+        // Initialize LUNAR resource balance plus starter upkeep inputs
         resources: {
-          create: {
-            type: "LUNAR",
-            amount: GAME_CONSTANTS.STARTING_LUNAR,
-            totalMined: GAME_CONSTANTS.STARTING_LUNAR,
-          },
+          create: [
+            {
+              type: "LUNAR",
+              amount: config.starting_lunar,
+              totalMined: config.starting_lunar,
+            },
+            ...[...starterStock(starters)].map(([type, amount]) => ({
+              type,
+              amount,
+              totalMined: 0,
+            })),
+          ],
         },
+        ...(arrival && {
+          referredBy: {
+            create: {
+              referrerId: arrival.referrerId,
+              source: arrival.source,
+              channel: arrival.channel,
+              shareId: arrival.shareId,
+            },
+          },
+        }),
       },
       include: {
         modules: { where: { deletedAt: null } },
       },
     });
+
+    if (arrival) {
+      await prisma.gameEvent.create({
+        data: {
+          playerId: player.id,
+          type: "referral_attributed",
+          data: { ...arrival },
+        },
+      });
+    }
   }
 
   return player;
@@ -161,10 +255,7 @@ export function calculateColonyState(
 
   const totalProductionRate = modules
     .filter((m) => m.isActive)
-    .reduce((sum, m) => {
-      const effective = (m.baseOutput + m.bonusOutput) * (m.efficiency / 100);
-      return sum + effective;
-    }, 0);
+    .reduce((sum, m) => sum + moduleRate(m), 0);
 
   // Find the earliest lastCollectedAt across active modules
   const activeModules = player.modules.filter((m) => m.isActive);
@@ -193,14 +284,84 @@ export function calculateColonyState(
   };
 }
 
+/** $LUNAR a module earns per tick. */
+function moduleRate(m: ModuleState): number {
+  return (m.baseOutput + m.bonusOutput) * (m.efficiency / 100);
+}
+
+// --- Event Cost Modifiers ---
+
+export type CostAction = "build" | "upgrade" | "repair" | "recruit";
+
+/** Event modifier key that scales each $LUNAR cost path. */
+export const COST_MODIFIER_KEYS: Record<CostAction, string> = {
+  build: "GLOBAL_BUILD_COST",
+  upgrade: "GLOBAL_UPGRADE_COST",
+  repair: "GLOBAL_REPAIR_COST",
+  recruit: "GLOBAL_RECRUIT_COST",
+};
+
+export interface CostModifier {
+  /** 1.0 = list price, 0.5 = half price */
+  multiplier: number;
+  /** Names of the active events behind the multiplier */
+  events: string[];
+}
+
+/** Resolve the cost multiplier for one action from a player's event mods. */
+export function getCostModifier(
+  mods: ModifierSet,
+  action: CostAction,
+): CostModifier {
+  const key = COST_MODIFIER_KEYS[action];
+  return {
+    multiplier: getModifier(mods, key),
+    events: mods.sources[key] ?? [],
+  };
+}
+
+/** All cost multipliers for a player, for pricing in the dashboard. */
+export async function getCostModifiers(
+  playerId: string,
+): Promise<Record<CostAction, CostModifier>> {
+  const mods = await getPlayerEventModifiers(playerId);
+  return {
+    build: getCostModifier(mods, "build"),
+    upgrade: getCostModifier(mods, "upgrade"),
+    repair: getCostModifier(mods, "repair"),
+    recruit: getCostModifier(mods, "recruit"),
+  };
+}
+
+/** Apply an event cost multiplier to a list price (whole $LUNAR). */
+export function applyCostModifier(
+  baseCost: number,
+  modifier: CostModifier,
+): number {
+  return Math.max(0, Math.floor(baseCost * modifier.multiplier));
+}
+
+/** Transaction/event metadata describing a discount, if any. */
+function discountMetadata(baseCost: number, modifier: CostModifier) {
+  return modifier.multiplier === 1
+    ? {}
+    : {
+        baseCost,
+        costMultiplier: modifier.multiplier,
+        costEvents: modifier.events,
+      };
+}
+
 // --- Module Management ---
 
 /**
  * Calculate cost for building a new module based on blueprint & player's count.
+ * `costMultiplier` is the live `module_cost_multiplier` config value.
  */
 export function calculateModuleCost(
   moduleType: ModuleType,
   existingModuleCount: number,
+  costMultiplier: number = GAME_CONSTANTS.MODULE_COST_MULTIPLIER,
 ): number {
   const baseCosts: Record<ModuleType, number> = {
     SOLAR_PANEL: 100,
@@ -214,10 +375,69 @@ export function calculateModuleCost(
   };
 
   const baseCost = baseCosts[moduleType];
-  return Math.floor(
-    baseCost *
-      Math.pow(GAME_CONSTANTS.MODULE_COST_MULTIPLIER, existingModuleCount),
-  );
+  return Math.floor(baseCost * Math.pow(costMultiplier, existingModuleCount));
+}
+
+/** Price and output of one buildable type + tier, before event discounts. */
+export interface BuildQuote {
+  type: ModuleType;
+  tier: Tier;
+  cost: number;
+  output: number;
+  unlockLevel: number;
+}
+
+/**
+ * Buildable type + tier combinations at `moduleCount`, priced the way
+ * buildModule charges. COMMON is always offered (falling back to the
+ * hardcoded values); higher tiers only when a blueprint exists.
+ * Pass `moduleType` to list just that type's tiers.
+ */
+export async function getBuildQuotes(
+  moduleCount: number,
+  moduleType?: ModuleType,
+): Promise<BuildQuote[]> {
+  const [config, blueprints] = await Promise.all([
+    loadGameConfig(),
+    prisma.moduleBlueprint.findMany({
+      where: moduleType ? { type: moduleType } : {},
+    }),
+  ]);
+
+  const types = moduleType ? [moduleType] : GAME_CONSTANTS.MODULE_TYPES;
+  const quotes: BuildQuote[] = [];
+  for (const type of types) {
+    for (const tier of GAME_CONSTANTS.TIERS) {
+      const blueprint = blueprints.find(
+        (b) => b.type === type && b.tier === tier,
+      );
+      if (blueprint) {
+        quotes.push({
+          type,
+          tier,
+          cost: Math.floor(
+            d(blueprint.baseCost) *
+              Math.pow(config.module_cost_multiplier, moduleCount),
+          ),
+          output: d(blueprint.baseOutput),
+          unlockLevel: blueprint.unlockLevel,
+        });
+      } else if (tier === "COMMON") {
+        quotes.push({
+          type,
+          tier,
+          cost: calculateModuleCost(
+            type,
+            moduleCount,
+            config.module_cost_multiplier,
+          ),
+          output: STARTER_BASE_OUTPUT[type],
+          unlockLevel: 1,
+        });
+      }
+    }
+  }
+  return quotes;
 }
 
 /**
@@ -227,7 +447,14 @@ export async function buildModule(
   playerId: string,
   moduleType: ModuleType,
   tier: "COMMON" | "UNCOMMON" | "RARE" | "EPIC" | "LEGENDARY" = "COMMON",
-): Promise<{ success: boolean; error?: string; module?: ModuleState }> {
+): Promise<{
+  success: boolean;
+  error?: string;
+  module?: ModuleState;
+  cost?: number;
+  baseCost?: number;
+  costModifier?: CostModifier;
+}> {
   const player = await prisma.player.findUnique({
     where: { id: playerId },
     include: { modules: { where: { deletedAt: null } } },
@@ -238,8 +465,9 @@ export async function buildModule(
   }
 
   const moduleCount = player.modules.length;
+  const config = await loadGameConfig();
 
-  if (moduleCount >= GAME_CONSTANTS.MAX_MODULES) {
+  if (moduleCount >= config.max_modules_per_player) {
     return { success: false, error: "Colony is full! Max modules reached." };
   }
 
@@ -249,7 +477,7 @@ export async function buildModule(
   });
 
   // Determine cost & output from blueprint, falling back to hardcoded COMMON values
-  let cost: number;
+  let baseCost: number;
   let baseOutput: number;
   if (blueprint) {
     if (player.level < blueprint.unlockLevel) {
@@ -258,17 +486,29 @@ export async function buildModule(
         error: `${tier} tier requires level ${blueprint.unlockLevel}. You are level ${player.level}.`,
       };
     }
-    cost = Math.floor(
+    baseCost = Math.floor(
       Number(blueprint.baseCost) *
-        Math.pow(GAME_CONSTANTS.MODULE_COST_MULTIPLIER, moduleCount),
+        Math.pow(config.module_cost_multiplier, moduleCount),
     );
     baseOutput = Number(blueprint.baseOutput);
   } else {
     // Fallback for COMMON or missing blueprint data
-    cost = calculateModuleCost(moduleType, moduleCount);
+    baseCost = calculateModuleCost(
+      moduleType,
+      moduleCount,
+      config.module_cost_multiplier,
+    );
     baseOutput = STARTER_BASE_OUTPUT[moduleType];
   }
 
+  // Active events (Efficiency Challenge, Equipment Surplus) discount builds
+  const costModifier = getCostModifier(
+    await getPlayerEventModifiers(playerId),
+    "build",
+  );
+  const cost = applyCostModifier(baseCost, costModifier);
+  const discount = discountMetadata(baseCost, costModifier);
+
   const balance = d(player.lunarBalance);
 
   if (balance < cost) {
@@ -313,7 +553,7 @@ export async function buildModule(
         level: 1,
         coordinates: coords,
         baseOutput,
-        efficiency: 100,
+        efficiency: config.module_base_efficiency,
       },
     }),
     prisma.transaction.create({
@@ -324,14 +564,14 @@ export async function buildModule(
         amount: -cost,
         balanceAfter: newBalance,
         description: `Built ${moduleType} (${tier})`,
-        metadata: { moduleType, tier, cost, coordinates: coords },
+        metadata: { moduleType, tier, cost, coordinates: coords, ...discount },
       },
     }),
     prisma.gameEvent.create({
       data: {
         playerId,
         type: "build",
-        data: { moduleType, tier, cost, coordinates: coords },
+        data: { moduleType, tier, cost, coordinates: coords, ...discount },
       },
     }),
   ]);
@@ -343,19 +583,25 @@ export async function buildModule(
     moduleCount: moduleCount + 1,
   });
 
-  // Grant XP — higher tiers grant more XP
-  const tierXP: Record<string, number> = {
-    COMMON: 50,
-    UNCOMMON: 75,
-    RARE: 100,
-    EPIC: 150,
-    LEGENDARY: 250,
+  // Grant XP — higher tiers scale the configured base build XP
+  const tierXPMultiplier: Record<string, number> = {
+    COMMON: 1,
+    UNCOMMON: 1.5,
+    RARE: 2,
+    EPIC: 3,
+    LEGENDARY: 5,
   };
-  grantXP(playerId, tierXP[tier] ?? 50, "build_module").catch(() => {});
+  const buildXP = Math.round(
+    config.xp_per_module_build * (tierXPMultiplier[tier] ?? 1),
+  );
+  grantXP(playerId, buildXP, "build_module").catch(() => {});
   checkAchievements(playerId).catch(() => {});
 
   return {
     success: true,
+    cost,
+    baseCost,
+    costModifier,
     module: {
       id: newModule.id,
       type: newModule.type as ModuleType,
@@ -375,12 +621,17 @@ export async function buildModule(
 /**
  * Collect pending earnings and update the player's balance.
  * Called when a player interacts with the frame.
+ * Draws upkeep for the elapsed share of a production cycle first, the way
+ * the daily cron does: modules short on inputs earn only the share they
+ * can cover, and those fully dry shut down until restocked.
  * After crediting, syncs the PlayerSummary for fast future reads.
  */
 export async function collectEarnings(playerId: string): Promise<{
   collected: number;
   newBalance: number;
 }> {
+  await reactivateStarvedModules(playerId);
+
   const player = await prisma.player.findUnique({
     where: { id: playerId },
     include: { modules: { where: { deletedAt: null, isActive: true } } },
@@ -391,29 +642,58 @@ export async function collectEarnings(playerId: string): Promise<{
   }
 
   const state = calculateColonyState(player);
+  const now = new Date();
+  const msElapsed = now.getTime() - state.lastCollectedAt.getTime();
+
+  const hasUpkeep = state.modules.some(
+    (m) => Object.keys(MODULE_UPKEEP[m.type]).length > 0,
+  );
+  const stock = hasUpkeep
+    ? await prisma.playerResource.findMany({
+        where: { playerId },
+        select: { type: true, amount: true },
+      })
+    : [];
+  const upkeep = planUpkeep(
+    state.modules,
+    stock,
+    msElapsed / PRODUCTION_CYCLE_MS,
+  );
+
+  const ticksElapsed = msElapsed / GAME_CONSTANTS.TICK_INTERVAL_MS;
+  const collected = Math.floor(
+    ticksElapsed *
+      state.modules.reduce(
+        (sum, m, i) => sum + moduleRate(m) * upkeep.supplyMults[i]!,
+        0,
+      ),
+  );
 
-  if (state.pendingEarnings <= 0) {
+  if (collected <= 0) {
     return { collected: 0, newBalance: d(player.lunarBalance) };
   }
 
-  const newBalance = d(player.lunarBalance) + state.pendingEarnings;
-  const now = new Date();
+  const newBalance = d(player.lunarBalance) + collected;
+  const starved = state.modules.filter((_, i) => upkeep.supplyMults[i]! <= 0);
 
   const [updatedPlayer] = await prisma.$transaction([
     prisma.player.update({
       where: { id: playerId, version: player.version },
       data: {
-        lunarBalance: { increment: state.pendingEarnings },
-        totalEarnings: { increment: state.pendingEarnings },
+        lunarBalance: { increment: collected },
+        totalEarnings: { increment: collected },
         lastActive: now,
         version: { increment: 1 },
       },
     }),
-    // Reset lastCollectedAt on all active modules
-    ...player.modules.map((m) =>
+    // Reset lastCollectedAt on modules that ran; shut down those run dry
+    ...state.modules.map((m, i) =>
       prisma.module.update({
         where: { id: m.id },
-        data: { lastCollectedAt: now, ageInCycles: { increment: 1 } },
+        data:
+          upkeep.supplyMults[i]! <= 0
+            ? { isActive: false, starvedAt: now }
+            : { lastCollectedAt: now, ageInCycles: { increment: 1 } },
       }),
     ),
     prisma.transaction.create({
@@ -421,25 +701,58 @@ export async function collectEarnings(playerId: string): Promise<{
         playerId,
         type: "PRODUCTION",
         resource: "LUNAR",
-        amount: state.pendingEarnings,
+        amount: collected,
         balanceAfter: newBalance,
         description: "Collected production earnings",
       },
     }),
+    ...Object.entries(upkeep.consumed).flatMap(([resource, amount]) => {
+      const type = resource as ResourceType;
+      const held = d(stock.find((r) => r.type === type)?.amount);
+      return [
+        prisma.playerResource.update({
+          where: { playerId_type: { playerId, type } },
+          data: { amount: { decrement: amount } },
+        }),
+        prisma.transaction.create({
+          data: {
+            playerId,
+            type: "UPKEEP",
+            resource: type,
+            amount: -amount,
+            balanceAfter: held - amount,
+            description: `Module upkeep: ${type}`,
+          },
+        }),
+      ];
+    }),
+    ...(starved.length > 0
+      ? [
+          prisma.gameEvent.create({
+            data: {
+              playerId,
+              type: "modules_starved",
+              severity: "WARNING",
+              data: { moduleIds: starved.map((m) => m.id) },
+            },
+          }),
+        ]
+      : []),
   ]);
 
   GameMetrics.trackPlayerAction(playerId, "collect", {
-    amount: state.pendingEarnings,
+    amount: collected,
     newBalance: d(updatedPlayer.lunarBalance),
     moduleCount: player.modules.length,
   });
 
   // Grant XP and check achievements (fire-and-forget)
-  grantXP(playerId, 10, "collect_earnings").catch(() => {});
+  const collectXP = await getGameConfig("xp_per_collection");
+  grantXP(playerId, collectXP, "collect_earnings").catch(() => {});
   checkAchievements(playerId).catch(() => {});
 
   return {
-    collected: state.pendingEarnings,
+    collected,
     newBalance: d(updatedPlayer.lunarBalance),
   };
 }
@@ -456,10 +769,14 @@ export function syncPlayerSummary(playerId: string): void {
 
 // --- Module Upgrade ---
 
-/** Cost to upgrade a module from its current level. */
+/**
+ * Cost to upgrade a module from its current level.
+ * `costMultiplier` is the live `upgrade_cost_multiplier` config value.
+ */
 export function calculateUpgradeCost(
   moduleType: ModuleType,
   currentLevel: number,
+  costMultiplier = 1.5,
 ): number {
   const baseCosts: Record<ModuleType, number> = {
     SOLAR_PANEL: 50,
@@ -471,11 +788,11 @@ export function calculateUpgradeCost(
     STORAGE_DEPOT: 75,
     LAUNCH_PAD: 500,
   };
-  return Math.floor(baseCosts[moduleType] * Math.pow(1.5, currentLevel - 1));
+  return Math.floor(
+    baseCosts[moduleType] * Math.pow(costMultiplier, currentLevel - 1),
+  );
 }
 
-const MAX_MODULE_LEVEL = 10;
-
 /**
  * Upgrade a module by one level.
  * Increases baseOutput by 15 % per level.
@@ -488,6 +805,8 @@ export async function upgradeModule(
   error?: string;
   module?: ModuleState;
   cost?: number;
+  baseCost?: number;
+  costModifier?: CostModifier;
 }> {
   const player = await prisma.player.findUnique({
     where: { id: playerId },
@@ -499,14 +818,25 @@ export async function upgradeModule(
   const mod = player.modules.find((m) => m.id === moduleId);
   if (!mod) return { success: false, error: "Module not found" };
 
-  if (mod.level >= MAX_MODULE_LEVEL) {
+  const config = await loadGameConfig();
+  if (mod.level >= config.max_module_level) {
     return {
       success: false,
-      error: `Already at max level (${MAX_MODULE_LEVEL})`,
+      error: `Already at max level (${config.max_module_level})`,
     };
   }
 
-  const cost = calculateUpgradeCost(mod.type as ModuleType, mod.level);
+  const baseCost = calculateUpgradeCost(
+    mod.type as ModuleType,
+    mod.level,
+    config.upgrade_cost_multiplier,
+  );
+  const costModifier = getCostModifier(
+    await getPlayerEventModifiers(playerId),
+    "upgrade",
+  );
+  const cost = applyCostModifier(baseCost, costModifier);
+  const discount = discountMetadata(baseCost, costModifier);
   const balance = d(player.lunarBalance);
 
   if (balance < cost) {
@@ -545,14 +875,20 @@ export async function upgradeModule(
         amount: -cost,
         balanceAfter: newBalance,
         description: `Upgraded ${mod.type} to level ${newLevel}`,
-        metadata: { moduleId, moduleType: mod.type, newLevel, cost },
+        metadata: {
+          moduleId,
+          moduleType: mod.type,
+          newLevel,
+          cost,
+          ...discount,
+        },
       },
     }),
     prisma.gameEvent.create({
       data: {
         playerId,
         type: "upgrade",
-        data: { moduleId, moduleType: mod.type, newLevel, cost },
+        data: { moduleId, moduleType: mod.type, newLevel, cost, ...discount },
       },
     }),
   ]);
@@ -564,12 +900,14 @@ export async function upgradeModule(
   });
 
   // Grant XP and check achievements (fire-and-forget)
-  grantXP(playerId, 25, "upgrade_module").catch(() => {});
+  grantXP(playerId, config.xp_per_upgrade, "upgrade_module").catch(() => {});
   checkAchievements(playerId).catch(() => {});
 
   return {
     success: true,
     cost,
+    baseCost,
+    costModifier,
     module: {
       id: updatedModule.id,
       type: updatedModule.type as ModuleType,
@@ -586,9 +924,6 @@ export async function upgradeModule(
 
 // --- Crew Recruitment ---
 
-const CREW_HIRE_COST = 200;
-const MAX_CREW = 5;
-
 const CREW_FIRST_NAMES = [
   "Kai",
   "Yuki",
@@ -660,6 +995,20 @@ export interface RecruitedCrew {
   outputBonus: number;
 }
 
+/** A random crew member: name, role, matching specialty and bonuses. */
+function rollCrewMember() {
+  const role = randomPick(CREW_ROLES);
+  const specialtyCandidates = ROLE_SPECIALTY[role] ?? [];
+  return {
+    name: `${randomPick(CREW_FIRST_NAMES)} ${randomPick(CREW_LAST_NAMES)}`,
+    role,
+    specialty:
+      specialtyCandidates.length > 0 ? randomPick(specialtyCandidates) : null,
+    efficiencyBonus: randomInt(3, 12),
+    outputBonus: randomInt(5, 15),
+  };
+}
+
 /**
  * Recruit a random crew member. Costs $LUNAR, respects the max cap.
  */
@@ -668,75 +1017,71 @@ export async function recruitCrew(playerId: string): Promise<{
   error?: string;
   crew?: RecruitedCrew;
   cost?: number;
+  baseCost?: number;
+  costModifier?: CostModifier;
 }> {
   const player = await prisma.player.findUnique({
     where: { id: playerId },
   });
   if (!player) return { success: false, error: "Player not found" };
 
+  const config = await loadGameConfig();
+  const maxCrew = config.max_crew_per_player;
+  const costModifier = getCostModifier(
+    await getPlayerEventModifiers(playerId),
+    "recruit",
+  );
+  const hireCost = applyCostModifier(config.crew_hire_cost, costModifier);
+  const discount = discountMetadata(config.crew_hire_cost, costModifier);
+
   const existingCount = await prisma.crewMember.count({
     where: { playerId, isActive: true, deletedAt: null },
   });
-  if (existingCount >= MAX_CREW) {
-    return { success: false, error: `Crew full (${MAX_CREW}/${MAX_CREW})` };
+  if (existingCount >= maxCrew) {
+    return { success: false, error: `Crew full (${maxCrew}/${maxCrew})` };
   }
 
   const balance = d(player.lunarBalance);
-  if (balance < CREW_HIRE_COST) {
+  if (balance < hireCost) {
     return {
       success: false,
-      error: `Not enough $LUNAR. Need ${CREW_HIRE_COST}, have ${Math.floor(balance)}.`,
+      error: `Not enough $LUNAR. Need ${hireCost}, have ${Math.floor(balance)}.`,
     };
   }
 
-  // Generate random crew member
-  const firstName = randomPick(CREW_FIRST_NAMES);
-  const lastName = randomPick(CREW_LAST_NAMES);
-  const name = `${firstName} ${lastName}`;
-  const role = randomPick(CREW_ROLES);
-  const specialtyCandidates = ROLE_SPECIALTY[role] ?? [];
-  const specialty =
-    specialtyCandidates.length > 0 ? randomPick(specialtyCandidates) : null;
-  const efficiencyBonus = randomInt(3, 12);
-  const outputBonus = randomInt(5, 15);
+  const recruit = rollCrewMember();
+  const { name, role, specialty } = recruit;
 
-  const newBalance = balance - CREW_HIRE_COST;
+  const newBalance = balance - hireCost;
 
   const [, newCrew] = await prisma.$transaction([
     prisma.player.update({
       where: { id: playerId, version: player.version },
       data: {
-        lunarBalance: { decrement: CREW_HIRE_COST },
+        lunarBalance: { decrement: hireCost },
         crewCount: { increment: 1 },
         version: { increment: 1 },
       },
     }),
     prisma.crewMember.create({
-      data: {
-        playerId,
-        name,
-        role,
-        specialty,
-        efficiencyBonus,
-        outputBonus,
-      },
+      data: { playerId, ...recruit },
     }),
     prisma.transaction.create({
       data: {
         playerId,
         type: "BUILD",
         resource: "LUNAR",
-        amount: -CREW_HIRE_COST,
+        amount: -hireCost,
         balanceAfter: newBalance,
         description: `Recruited ${name} (${role})`,
-        metadata: { crewName: name, role, specialty },
+        metadata: { crewName: name, role, specialty, ...discount },
       },
     }),
     prisma.gameEvent.create({
       data: {
         playerId,
         type: "recruit",
-        data: { crewName: name, role, specialty, cost: CREW_HIRE_COST },
+        data: { crewName: name, role, specialty, cost: hireCost, ...discount },
       },
     }),
   ]);
@@ -745,13 +1090,15 @@ export async function recruitCrew(playerId: string): Promise<{
     crewName: name,
     role,
     specialty,
-    cost: CREW_HIRE_COST,
+    cost: hireCost,
     crewCount: existingCount + 1,
   });
 
   return {
     success: true,
-    cost: CREW_HIRE_COST,
+    cost: hireCost,
+    baseCost: config.crew_hire_cost,
+    costModifier,
     crew: {
       id: newCrew.id,
       name: newCrew.name,
@@ -764,6 +1111,54 @@ export async function recruitCrew(playerId: string): Promise<{
   };
 }
 
+/**
+ * Add a free crew member, e.g. a referral reward. Returns null when the
+ * crew is already full so the caller can substitute another reward.
+ */
+export async function grantCrewMember(
+  playerId: string,
+  reason: string,
+): Promise<RecruitedCrew | null> {
+  const config = await loadGameConfig();
+  const existingCount = await prisma.crewMember.count({
+    where: { playerId, isActive: true, deletedAt: null },
+  });
+  if (existingCount >= config.max_crew_per_player) return null;
+
+  const recruit = rollCrewMember();
+  const [, newCrew] = await prisma.$transaction([
+    prisma.player.update({
+      where: { id: playerId },
+      data: { crewCount: { increment: 1 }, version: { increment: 1 } },
+    }),
+    prisma.crewMember.create({
+      data: { playerId, ...recruit },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "crew_granted",
+        data: {
+          crewName: recruit.name,
+          role: recruit.role,
+          specialty: recruit.specialty,
+          reason,
+        },
+      },
+    }),
+  ]);
+
+  return {
+    id: newCrew.id,
+    name: newCrew.name,
+    role: newCrew.role,
+    specialty: newCrew.specialty as ModuleType | null,
+    level: newCrew.level,
+    efficiencyBonus: d(newCrew.efficiencyBonus),
+    outputBonus: d(newCrew.outputBonus),
+  };
+}
+
 // --- Crew Assignment ---
 
 /**
@@ -885,6 +1280,8 @@ export async function repairModule(
   success: boolean;
   error?: string;
   cost?: number;
+  baseCost?: number;
+  costModifier?: CostModifier;
   newEfficiency?: number;
 }> {
   const player = await prisma.player.findUnique({
@@ -903,7 +1300,12 @@ export async function repairModule(
   }
 
   const damage = 100 - currentEff;
-  const cost = Math.ceil(damage * REPAIR_COST_PER_POINT);
+  const baseCost = Math.ceil(damage * REPAIR_COST_PER_POINT);
+  const costModifier = getCostModifier(
+    await getPlayerEventModifiers(playerId),
+    "repair",
+  );
+  const cost = applyCostModifier(baseCost, costModifier);
   const balance = d(player.lunarBalance);
 
   if (balance < cost) {
@@ -939,7 +1341,13 @@ export async function repairModule(
         amount: -cost,
         balanceAfter: newBalance,
         description: `Repaired ${mod.type} (${Math.round(damage)}% damage)`,
-        metadata: { moduleId, moduleType: mod.type, damage, cost },
+        metadata: {
+          moduleId,
+          moduleType: mod.type,
+          damage,
+          cost,
+          ...discountMetadata(baseCost, costModifier),
+        },
       },
     }),
   ]);
@@ -950,7 +1358,7 @@ export async function repairModule(
     cost,
   });
 
-  return { success: true, cost, newEfficiency: 100 };
+  return { success: true, cost, baseCost, costModifier, newEfficiency: 100 };
 }
 
 // --- Module Demolish ---
@@ -1031,10 +1439,11 @@ export async function demolishModule(
 // --- XP & Leveling ---
 
 /**
- * XP thresholds: XP needed = 100 * level^1.5
+ * XP thresholds: XP needed = base * level^exponent
+ * (live `xp_level_formula` config, default 100 * level^1.5)
  */
-function xpForLevel(level: number): number {
-  return Math.floor(100 * Math.pow(level, 1.5));
+function xpForLevel(level: number, formula: XpLevelFormula): number {
+  return Math.floor(formula.base * Math.pow(level, formula.exponent));
 }
 
 /**
@@ -1051,13 +1460,14 @@ export async function grantXP(
   });
   if (!player) return { newXP: 0, newLevel: 1, leveledUp: false };
 
+  const formula = await getGameConfig("xp_level_formula");
   let currentXP = d(player.xp) + amount;
   let currentLevel = player.level;
   let leveledUp = false;
 
   // Check for multi-level ups
-  while (currentXP >= xpForLevel(currentLevel)) {
-    currentXP -= xpForLevel(currentLevel);
+  while (currentXP >= xpForLevel(currentLevel, formula)) {
+    currentXP -= xpForLevel(currentLevel, formula);
     currentLevel++;
     leveledUp = true;
   }
@@ -1089,10 +1499,6 @@ export async function grantXP(
 
 // --- Daily Rewards ---
 
-const DAILY_REWARD_BASE = 50;
-const DAILY_STREAK_MULTIPLIER = 1.1;
-const MAX_DAILY_STREAK = 30;
-
 /**
  * Claim the daily login reward. Grows with streak.
  */
@@ -1147,12 +1553,14 @@ export async function claimDailyReward(playerId: string): Promise<{
   });
   if (!freshPlayer) return { success: false, error: "Player not found" };
 
-  const newStreak = Math.min(freshPlayer.dailyStreak + 1, MAX_DAILY_STREAK);
+  const config = await loadGameConfig();
+  const maxStreak = config.max_daily_streak;
+  const newStreak = Math.min(freshPlayer.dailyStreak + 1, maxStreak);
   const streakMultiplier = Math.pow(
-    DAILY_STREAK_MULTIPLIER,
-    Math.min(newStreak - 1, MAX_DAILY_STREAK - 1),
+    config.daily_streak_multiplier,
+    Math.min(newStreak - 1, maxStreak - 1),
   );
-  const reward = Math.floor(DAILY_REWARD_BASE * streakMultiplier);
+  const reward = Math.floor(config.daily_reward_base * streakMultiplier);
   const xpGained = 10 + newStreak * 2; // Bonus XP for streak
   const newBalance = d(freshPlayer.lunarBalance) + reward;
 
@@ -1198,6 +1606,220 @@ export async function claimDailyReward(playerId: string): Promise<{
   return { success: true, reward, streak: newStreak, xpGained };
 }
 
+// --- Resource Burn ---
+
+/** Event type whose leaderboard scores burns. */
+const BURN_EVENT_TYPE = "WEEKLY_BURN";
+
+/**
+ * Burn payouts never exceed this share of the burn price, which keeps them
+ * below the market's best bid even at burn_base_rate 1 under a Weekly Burn.
+ */
+const BURN_MAX_PRICE_SHARE = 0.95;
+
+type BurnableResource = Exclude<ResourceType, "LUNAR">;
+
+export interface BurnRates {
+  /** LUNAR paid per unit burned, after event modifiers */
+  rates: Record<BurnableResource, number>;
+  /** Price each burn is valued at: the lower of live and base price */
+  prices: Record<BurnableResource, number>;
+  /** RESOURCE_TO_LUNAR_RATE from active events (1 = base rate) */
+  multiplier: number;
+  /** BURN_RATE_BONUS applied to event score */
+  scoreMultiplier: number;
+  /** Names of the events boosting the rate */
+  events: string[];
+}
+
+export interface BurnResult {
+  success: boolean;
+  error?: string;
+  burned?: number;
+  lunarEarned?: number;
+  rate?: number;
+  /** Score added to the active Weekly Burn event (0 when none is live) */
+  eventScore?: number;
+}
+
+/**
+ * Current burn payouts. Each unit pays `burn_base_rate` × the lower of the
+ * resource's live and base market price, boosted by RESOURCE_TO_LUNAR_RATE
+ * (Weekly Burn) and capped at BURN_MAX_PRICE_SHARE of that price. Pricing
+ * from the live price when it has crashed means buying at market and
+ * burning never pays.
+ */
+export async function getBurnRates(playerId: string): Promise<BurnRates> {
+  const [baseRate, mods, livePrices] = await Promise.all([
+    getGameConfig("burn_base_rate"),
+    getPlayerEventModifiers(playerId),
+    prisma.resourcePrice.findMany({
+      select: { type: true, currentPrice: true },
+    }),
+  ]);
+  const multiplier = getModifier(mods, "RESOURCE_TO_LUNAR_RATE");
+  const share = Math.min(baseRate * multiplier, BURN_MAX_PRICE_SHARE);
+  const live = new Map(livePrices.map((p) => [p.type, d(p.currentPrice)]));
+
+  const rates = {} as Record<BurnableResource, number>;
+  const prices = {} as Record<BurnableResource, number>;
+  for (const config of Object.values(RESOURCE_CONFIGS)) {
+    if (config.type === "LUNAR") continue;
+    const price = Math.min(
+      live.get(config.type) ?? config.basePrice,
+      config.basePrice,
+    );
+    prices[config.type] = price;
+    rates[config.type] = price * share;
+  }
+
+  return {
+    rates,
+    prices,
+    multiplier,
+    scoreMultiplier: getModifier(mods, "BURN_RATE_BONUS"),
+    events: mods.sources["RESOURCE_TO_LUNAR_RATE"] ?? [],
+  };
+}
+
+/**
+ * Burn raw materials for $LUNAR at getBurnRates() prices. While a Weekly
+ * Burn is live, the burned value (burn price × BURN_RATE_BONUS) is also
+ * recorded as the player's event score.
+ */
+export async function burnResources(
+  playerId: string,
+  resource: BurnableResource,
+  quantity: number,
+): Promise<BurnResult> {
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return { success: false, error: "Quantity must be positive" };
+  }
+
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+  });
+  if (!player) return { success: false, error: "Player not found" };
+
+  const burnRates = await getBurnRates(playerId);
+  const rate = burnRates.rates[resource];
+  if (rate == null) {
+    return { success: false, error: "That resource can't be burned" };
+  }
+
+  const stock = await prisma.playerResource.findUnique({
+    where: { playerId_type: { playerId, type: resource } },
+  });
+  const held = d(stock?.amount);
+  if (held < quantity) {
+    return {
+      success: false,
+      error: `Not enough ${resource}. Have ${Math.floor(held * 100) / 100}.`,
+    };
+  }
+
+  const lunarEarned = Math.floor(quantity * rate);
+  if (lunarEarned < 1) {
+    return { success: false, error: "Burn more to earn at least 1 $LUNAR" };
+  }
+
+  const newBalance = d(player.lunarBalance) + lunarEarned;
+  const metadata = { resource, quantity, rate, events: burnRates.events };
+
+  await prisma.$transaction([
+    // Amount guard: a concurrent burn or trade can't overdraw the stockpile
+    prisma.playerResource.update({
+      where: {
+        playerId_type: { playerId, type: resource },
+        amount: { gte: quantity },
+      },
+      data: { amount: { decrement: quantity } },
+    }),
+    prisma.player.update({
+      where: { id: playerId, version: player.version },
+      data: {
+        lunarBalance: { increment: lunarEarned },
+        totalEarnings: { increment: lunarEarned },
+        version: { increment: 1 },
+      },
+    }),
+    prisma.transaction.create({
+      data: {
+        playerId,
+        type: "BURN",
+        resource,
+        amount: -quantity,
+        balanceAfter: held - quantity,
+        description: `Burned ${quantity} ${resource}`,
+        metadata,
+      },
+    }),
+    prisma.transaction.create({
+      data: {
+        playerId,
+        type: "BURN",
+        resource: "LUNAR",
+        amount: lunarEarned,
+        balanceAfter: newBalance,
+        description: `Burn payout: ${quantity} ${resource}`,
+        metadata,
+      },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "resource_burn",
+        data: { ...metadata, lunarEarned },
+      },
+    }),
+  ]);
+
+  const eventScore = await scoreBurn(
+    playerId,
+    quantity * burnRates.prices[resource] * burnRates.scoreMultiplier,
+  );
+
+  GameMetrics.trackPlayerAction(playerId, "burn", {
+    resource,
+    quantity,
+    lunarEarned,
+    eventScore,
+  });
+
+  return { success: true, burned: quantity, lunarEarned, rate, eventScore };
+}
+
+/**
+ * Credit a burn to the live Weekly Burn leaderboard, if any.
+ * Returns the score recorded (0 when no burn event applies).
+ */
+async function scoreBurn(playerId: string, value: number): Promise<number> {
+  const now = new Date();
+  const event = await prisma.activeEvent.findFirst({
+    where: {
+      type: BURN_EVENT_TYPE,
+      status: "ACTIVE",
+      startTime: { lte: now },
+      endTime: { gte: now },
+    },
+  });
+  if (!event) return 0;
+  if (!event.isGlobal) {
+    const targetIds = event.targetPlayerIds as string[] | null;
+    if (targetIds && !targetIds.includes(playerId)) return 0;
+  }
+
+  const score = Math.round(value * 100) / 100;
+  try {
+    await recordParticipation(event.id, playerId, "burn", score);
+  } catch (error) {
+    // The burn itself has settled; a lost score shouldn't surface as failure
+    GameMetrics.trackError(error, { context: "burn_participation", playerId });
+    return 0;
+  }
+  return score;
+}
+
 // --- Achievement System ---
 
 interface AchievementCheck {
@@ -1324,49 +1946,180 @@ export async function checkAchievements(playerId: string): Promise<{
   return { newAchievements: newlyEarned };
 }
 
-// --- Alliance System ---
-
-const ALLIANCE_CREATE_COST = 1000;
-const ALLIANCE_MAX_MEMBERS = 10;
-
 /**
- * Create a new alliance. Player becomes LEADER.
+ * Every achievement with the player's unlock, if any, for the dashboard.
+ * `unlockId` is the PlayerAchievement id (used to share the unlock).
  */
-export async function createAlliance(
-  playerId: string,
-  name: string,
-  description?: string,
-): Promise<{ success: boolean; error?: string; allianceId?: string }> {
-  const player = await prisma.player.findUnique({
-    where: { id: playerId },
-    include: { allianceMember: true },
-  });
-  if (!player) return { success: false, error: "Player not found" };
-  if (player.allianceMember) {
-    return { success: false, error: "Already in an alliance. Leave first." };
-  }
+export async function getPlayerAchievements(playerId: string) {
+  const [definitions, unlocked] = await Promise.all([
+    prisma.achievement.findMany({ orderBy: { sortOrder: "asc" } }),
+    prisma.playerAchievement.findMany({ where: { playerId } }),
+  ]);
+  const unlocks = new Map(unlocked.map((u) => [u.achievementId, u]));
 
-  const balance = d(player.lunarBalance);
-  if (balance < ALLIANCE_CREATE_COST) {
+  return definitions.map((a) => {
+    const unlock = unlocks.get(a.id);
     return {
-      success: false,
-      error: `Not enough $LUNAR. Need ${ALLIANCE_CREATE_COST}, have ${Math.floor(balance)}.`,
+      key: a.key,
+      name: a.name,
+      description: a.description,
+      category: a.category,
+      xpReward: a.xpReward,
+      lunarReward: d(a.lunarReward),
+      iconUrl: a.iconUrl,
+      unlockId: unlock?.id ?? null,
+      unlockedAt: unlock?.unlockedAt ?? null,
     };
-  }
+  });
+}
 
-  // Check name uniqueness
-  const exists = await prisma.alliance.findUnique({ where: { name } });
-  if (exists) {
-    return { success: false, error: "Alliance name already taken" };
+// --- Alliance System ---
+
+export type AlliancePermission =
+  | "invite"
+  | "review_requests"
+  | "kick"
+  | "promote"
+  | "demote"
+  | "transfer_leadership"
+  | "set_join_mode";
+
+/**
+ * What each role may do. Actions that target another member (kick,
+ * promote, demote) additionally require outranking the target.
+ */
+export const ALLIANCE_PERMISSIONS: Record<
+  AllianceRole,
+  readonly AlliancePermission[]
+> = {
+  LEADER: [
+    "invite",
+    "review_requests",
+    "kick",
+    "promote",
+    "demote",
+    "transfer_leadership",
+    "set_join_mode",
+  ],
+  OFFICER: ["invite", "review_requests", "kick"],
+  MEMBER: [],
+};
+
+const ROLE_RANK: Record<AllianceRole, number> = {
+  LEADER: 3,
+  OFFICER: 2,
+  MEMBER: 1,
+};
+
+/** Outstanding join requests a player may have across all alliances */
+const MAX_PENDING_JOIN_REQUESTS = 5;
+
+export function hasAlliancePermission(
+  role: AllianceRole,
+  permission: AlliancePermission,
+): boolean {
+  return ALLIANCE_PERMISSIONS[role].includes(permission);
+}
+
+/** Whether `actorRole` may apply `permission` to a member holding `targetRole`. */
+export function canManageMember(
+  actorRole: AllianceRole,
+  permission: AlliancePermission,
+  targetRole: AllianceRole,
+): boolean {
+  return (
+    hasAlliancePermission(actorRole, permission) &&
+    ROLE_RANK[actorRole] > ROLE_RANK[targetRole]
+  );
+}
+
+/** The actor's membership in a live alliance, or null. */
+async function findAllianceActor(playerId: string) {
+  const member = await prisma.allianceMember.findUnique({
+    where: { playerId },
+    include: { alliance: true },
+  });
+  if (!member || member.alliance.deletedAt) return null;
+  return member;
+}
+
+/**
+ * Writes that add a player to an alliance: the membership, the member count
+ * (under the alliance version lock), clearing the player's other pending
+ * invites and requests, and the audit row.
+ */
+function allianceJoinOps(
+  playerId: string,
+  alliance: { id: string; name: string; version: number },
+  via: "open" | "invite" | "request",
+  approvedBy?: string,
+): Prisma.PrismaPromise<unknown>[] {
+  return [
+    prisma.allianceMember.create({
+      data: { playerId, allianceId: alliance.id, role: "MEMBER" },
+    }),
+    prisma.alliance.update({
+      where: { id: alliance.id, version: alliance.version },
+      data: { memberCount: { increment: 1 }, version: { increment: 1 } },
+    }),
+    prisma.allianceInvite.deleteMany({ where: { playerId } }),
+    prisma.allianceJoinRequest.deleteMany({ where: { playerId } }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "alliance_join",
+        data: {
+          allianceId: alliance.id,
+          allianceName: alliance.name,
+          via,
+          ...(approvedBy ? { approvedBy } : {}),
+        },
+      },
+    }),
+  ];
+}
+
+/**
+ * Create a new alliance. Player becomes LEADER.
+ */
+export async function createAlliance(
+  playerId: string,
+  name: string,
+  description?: string,
+): Promise<{ success: boolean; error?: string; allianceId?: string }> {
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    include: { allianceMember: true },
+  });
+  if (!player) return { success: false, error: "Player not found" };
+  if (player.allianceMember) {
+    return { success: false, error: "Already in an alliance. Leave first." };
   }
 
-  const newBalance = balance - ALLIANCE_CREATE_COST;
+  const config = await loadGameConfig();
+  const createCost = config.alliance_create_cost;
+
+  const balance = d(player.lunarBalance);
+  if (balance < createCost) {
+    return {
+      success: false,
+      error: `Not enough $LUNAR. Need ${createCost}, have ${Math.floor(balance)}.`,
+    };
+  }
+
+  // Check name uniqueness
+  const exists = await prisma.alliance.findUnique({ where: { name } });
+  if (exists) {
+    return { success: false, error: "Alliance name already taken" };
+  }
+
+  const newBalance = balance - createCost;
 
   const [, alliance] = await prisma.$transaction([
     prisma.player.update({
       where: { id: playerId, version: player.version },
       data: {
-        lunarBalance: { decrement: ALLIANCE_CREATE_COST },
+        lunarBalance: { decrement: createCost },
         version: { increment: 1 },
       },
     }),
@@ -1375,7 +2128,7 @@ export async function createAlliance(
         name,
         description: description ?? null,
         memberCount: 1,
-        maxMembers: ALLIANCE_MAX_MEMBERS,
+        maxMembers: config.alliance_max_members,
         members: {
           create: {
             playerId,
@@ -1389,7 +2142,7 @@ export async function createAlliance(
         playerId,
         type: "BUILD",
         resource: "LUNAR",
-        amount: -ALLIANCE_CREATE_COST,
+        amount: -createCost,
         balanceAfter: newBalance,
         description: `Created alliance "${name}"`,
         metadata: { allianceName: name },
@@ -1406,14 +2159,15 @@ export async function createAlliance(
 
   GameMetrics.trackPlayerAction(playerId, "alliance_create", {
     allianceName: name,
-    cost: ALLIANCE_CREATE_COST,
+    cost: createCost,
   });
 
   return { success: true, allianceId: alliance.id };
 }
 
 /**
- * Join an existing alliance.
+ * Join an existing alliance. OPEN alliances admit anyone while there is
+ * room; APPROVAL and INVITE_ONLY alliances need a pending invite.
  */
 export async function joinAlliance(
   playerId: string,
@@ -1436,26 +2190,22 @@ export async function joinAlliance(
     return { success: false, error: "Alliance is full" };
   }
 
-  await prisma.$transaction([
-    prisma.allianceMember.create({
-      data: {
-        playerId,
-        allianceId,
-        role: "MEMBER",
-      },
-    }),
-    prisma.alliance.update({
-      where: { id: allianceId },
-      data: { memberCount: { increment: 1 } },
-    }),
-    prisma.gameEvent.create({
-      data: {
-        playerId,
-        type: "alliance_join",
-        data: { allianceId, allianceName: alliance.name },
-      },
-    }),
-  ]);
+  const invite = await prisma.allianceInvite.findUnique({
+    where: { allianceId_playerId: { allianceId, playerId } },
+  });
+  if (!invite && alliance.joinMode !== "OPEN") {
+    return {
+      success: false,
+      error:
+        alliance.joinMode === "APPROVAL"
+          ? "This alliance reviews new members. Send a join request."
+          : "This alliance is invite-only",
+    };
+  }
+
+  await prisma.$transaction(
+    allianceJoinOps(playerId, alliance, invite ? "invite" : "open"),
+  );
 
   return { success: true };
 }
@@ -1479,13 +2229,461 @@ export async function leaveAlliance(
     };
   }
 
+  const disband = member.alliance.memberCount <= 1;
   await prisma.$transaction([
     prisma.allianceMember.delete({ where: { id: member.id } }),
     prisma.alliance.update({
       where: { id: member.allianceId },
       data: {
         memberCount: { decrement: 1 },
-        ...(member.alliance.memberCount <= 1 ? { deletedAt: new Date() } : {}),
+        ...(disband ? { deletedAt: new Date() } : {}),
+      },
+    }),
+    // A disbanded alliance takes its pending invites and requests with it
+    ...(disband
+      ? [
+          prisma.allianceInvite.deleteMany({
+            where: { allianceId: member.allianceId },
+          }),
+          prisma.allianceJoinRequest.deleteMany({
+            where: { allianceId: member.allianceId },
+          }),
+        ]
+      : []),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: disband ? "alliance_disband" : "alliance_leave",
+        data: { allianceId: member.allianceId, role: member.role },
+      },
+    }),
+  ]);
+
+  return { success: true };
+}
+
+// --- Alliance Invitations + Join Requests ---
+
+/**
+ * Invite a player who isn't in an alliance. Officers and leaders only.
+ */
+export async function inviteToAlliance(
+  actorId: string,
+  targetPlayerId: string,
+): Promise<{ success: boolean; error?: string; inviteId?: string }> {
+  const actor = await findAllianceActor(actorId);
+  if (!actor) return { success: false, error: "Not in an alliance" };
+  if (!hasAlliancePermission(actor.role, "invite")) {
+    return { success: false, error: "Only officers and leaders can invite" };
+  }
+  if (actor.alliance.memberCount >= actor.alliance.maxMembers) {
+    return { success: false, error: "Alliance is full" };
+  }
+
+  const target = await prisma.player.findUnique({
+    where: { id: targetPlayerId },
+    include: { allianceMember: true },
+  });
+  if (!target) return { success: false, error: "Player not found" };
+  if (target.allianceMember) {
+    return { success: false, error: "Player is already in an alliance" };
+  }
+
+  const existing = await prisma.allianceInvite.findUnique({
+    where: {
+      allianceId_playerId: {
+        allianceId: actor.allianceId,
+        playerId: targetPlayerId,
+      },
+    },
+  });
+  if (existing) return { success: false, error: "Player already invited" };
+
+  const [invite] = await prisma.$transaction([
+    prisma.allianceInvite.create({
+      data: {
+        allianceId: actor.allianceId,
+        playerId: targetPlayerId,
+        invitedById: actorId,
+      },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId: actorId,
+        type: "alliance_invite",
+        data: { allianceId: actor.allianceId, targetId: targetPlayerId },
+      },
+    }),
+  ]);
+
+  return { success: true, inviteId: invite.id };
+}
+
+/**
+ * Accept (join) or decline an invitation addressed to the player.
+ */
+export async function respondToInvite(
+  playerId: string,
+  inviteId: string,
+  accept: boolean,
+): Promise<{ success: boolean; error?: string }> {
+  const invite = await prisma.allianceInvite.findUnique({
+    where: { id: inviteId },
+  });
+  if (!invite || invite.playerId !== playerId) {
+    return { success: false, error: "Invite not found" };
+  }
+
+  if (accept) return joinAlliance(playerId, invite.allianceId);
+
+  await prisma.$transaction([
+    prisma.allianceInvite.delete({ where: { id: inviteId } }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "alliance_invite_declined",
+        data: { allianceId: invite.allianceId },
+      },
+    }),
+  ]);
+  return { success: true };
+}
+
+/**
+ * Ask to join an APPROVAL alliance; officers review the request.
+ */
+export async function requestToJoinAlliance(
+  playerId: string,
+  allianceId: string,
+  message?: string,
+): Promise<{ success: boolean; error?: string; requestId?: string }> {
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    include: { allianceMember: true },
+  });
+  if (!player) return { success: false, error: "Player not found" };
+  if (player.allianceMember) {
+    return { success: false, error: "Already in an alliance. Leave first." };
+  }
+
+  const alliance = await prisma.alliance.findUnique({
+    where: { id: allianceId, deletedAt: null },
+  });
+  if (!alliance) return { success: false, error: "Alliance not found" };
+  if (alliance.joinMode === "OPEN") {
+    return { success: false, error: "This alliance is open. Join directly." };
+  }
+  if (alliance.joinMode === "INVITE_ONLY") {
+    return { success: false, error: "This alliance is invite-only" };
+  }
+  if (alliance.memberCount >= alliance.maxMembers) {
+    return { success: false, error: "Alliance is full" };
+  }
+
+  const pending = await prisma.allianceJoinRequest.findMany({
+    where: { playerId },
+    select: { allianceId: true },
+  });
+  if (pending.some((r) => r.allianceId === allianceId)) {
+    return { success: false, error: "Request already pending" };
+  }
+  if (pending.length >= MAX_PENDING_JOIN_REQUESTS) {
+    return {
+      success: false,
+      error: `At most ${MAX_PENDING_JOIN_REQUESTS} pending requests. Withdraw one first.`,
+    };
+  }
+
+  const [request] = await prisma.$transaction([
+    prisma.allianceJoinRequest.create({
+      data: { allianceId, playerId, message: message ?? null },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "alliance_join_request",
+        data: { allianceId },
+      },
+    }),
+  ]);
+
+  return { success: true, requestId: request.id };
+}
+
+/**
+ * Withdraw one of the player's own pending join requests.
+ */
+export async function cancelJoinRequest(
+  playerId: string,
+  requestId: string,
+): Promise<{ success: boolean; error?: string }> {
+  const { count } = await prisma.allianceJoinRequest.deleteMany({
+    where: { id: requestId, playerId },
+  });
+  if (count === 0) return { success: false, error: "Request not found" };
+
+  await prisma.gameEvent.create({
+    data: {
+      playerId,
+      type: "alliance_join_request_withdrawn",
+      data: { requestId },
+    },
+  });
+  return { success: true };
+}
+
+/**
+ * Approve or reject a pending join request. Officers and leaders only.
+ */
+export async function reviewJoinRequest(
+  actorId: string,
+  requestId: string,
+  approve: boolean,
+): Promise<{ success: boolean; error?: string }> {
+  const actor = await findAllianceActor(actorId);
+  if (!actor) return { success: false, error: "Not in an alliance" };
+  if (!hasAlliancePermission(actor.role, "review_requests")) {
+    return {
+      success: false,
+      error: "Only officers and leaders can review requests",
+    };
+  }
+
+  const request = await prisma.allianceJoinRequest.findUnique({
+    where: { id: requestId },
+  });
+  if (!request || request.allianceId !== actor.allianceId) {
+    return { success: false, error: "Request not found" };
+  }
+
+  if (!approve) {
+    await prisma.$transaction([
+      prisma.allianceJoinRequest.delete({ where: { id: requestId } }),
+      prisma.gameEvent.create({
+        data: {
+          playerId: actorId,
+          type: "alliance_join_rejected",
+          data: { allianceId: actor.allianceId, targetId: request.playerId },
+        },
+      }),
+    ]);
+    return { success: true };
+  }
+
+  const alreadyMember = await prisma.allianceMember.findUnique({
+    where: { playerId: request.playerId },
+  });
+  if (alreadyMember) {
+    await prisma.allianceJoinRequest.delete({ where: { id: requestId } });
+    return { success: false, error: "Player has already joined an alliance" };
+  }
+  if (actor.alliance.memberCount >= actor.alliance.maxMembers) {
+    return { success: false, error: "Alliance is full" };
+  }
+
+  await prisma.$transaction(
+    allianceJoinOps(request.playerId, actor.alliance, "request", actorId),
+  );
+  return { success: true };
+}
+
+// --- Alliance Member Management ---
+
+/**
+ * Remove a lower-ranked member. Officers can kick members; the leader can
+ * kick anyone.
+ */
+export async function kickAllianceMember(
+  actorId: string,
+  targetPlayerId: string,
+): Promise<{ success: boolean; error?: string }> {
+  const actor = await findAllianceActor(actorId);
+  if (!actor) return { success: false, error: "Not in an alliance" };
+
+  const target = await prisma.allianceMember.findUnique({
+    where: { playerId: targetPlayerId },
+  });
+  if (!target || target.allianceId !== actor.allianceId) {
+    return { success: false, error: "Member not found" };
+  }
+  if (!canManageMember(actor.role, "kick", target.role)) {
+    return { success: false, error: "You can't remove this member" };
+  }
+
+  await prisma.$transaction([
+    prisma.allianceMember.delete({ where: { id: target.id } }),
+    prisma.alliance.update({
+      where: { id: actor.allianceId, version: actor.alliance.version },
+      data: { memberCount: { decrement: 1 }, version: { increment: 1 } },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId: actorId,
+        type: "alliance_kick",
+        data: {
+          allianceId: actor.allianceId,
+          targetId: targetPlayerId,
+          targetRole: target.role,
+        },
+      },
+    }),
+  ]);
+
+  return { success: true };
+}
+
+async function changeMemberRole(
+  actorId: string,
+  targetPlayerId: string,
+  permission: "promote" | "demote",
+  from: AllianceRole,
+  to: AllianceRole,
+): Promise<{ success: boolean; error?: string }> {
+  const actor = await findAllianceActor(actorId);
+  if (!actor) return { success: false, error: "Not in an alliance" };
+
+  const target = await prisma.allianceMember.findUnique({
+    where: { playerId: targetPlayerId },
+  });
+  if (!target || target.allianceId !== actor.allianceId) {
+    return { success: false, error: "Member not found" };
+  }
+  if (!canManageMember(actor.role, permission, target.role)) {
+    return { success: false, error: `You can't ${permission} this member` };
+  }
+  if (target.role !== from) {
+    return {
+      success: false,
+      error: `Only ${from.toLowerCase()}s can be ${permission}d`,
+    };
+  }
+
+  await prisma.$transaction([
+    // Role guard: a concurrent change to the same member aborts this one
+    prisma.allianceMember.update({
+      where: { id: target.id, role: from },
+      data: { role: to },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId: actorId,
+        type: "alliance_role_change",
+        data: {
+          allianceId: actor.allianceId,
+          targetId: targetPlayerId,
+          from,
+          to,
+        },
+      },
+    }),
+  ]);
+
+  return { success: true };
+}
+
+/** Leader promotes a member to officer. */
+export function promoteAllianceMember(actorId: string, targetPlayerId: string) {
+  return changeMemberRole(
+    actorId,
+    targetPlayerId,
+    "promote",
+    "MEMBER",
+    "OFFICER",
+  );
+}
+
+/** Leader demotes an officer to member. */
+export function demoteAllianceMember(actorId: string, targetPlayerId: string) {
+  return changeMemberRole(
+    actorId,
+    targetPlayerId,
+    "demote",
+    "OFFICER",
+    "MEMBER",
+  );
+}
+
+/**
+ * Hand leadership to another member. The outgoing leader becomes an
+ * officer.
+ */
+export async function transferAllianceLeadership(
+  actorId: string,
+  targetPlayerId: string,
+): Promise<{ success: boolean; error?: string }> {
+  const actor = await findAllianceActor(actorId);
+  if (!actor) return { success: false, error: "Not in an alliance" };
+  if (!hasAlliancePermission(actor.role, "transfer_leadership")) {
+    return { success: false, error: "Only the leader can transfer leadership" };
+  }
+  if (targetPlayerId === actorId) {
+    return { success: false, error: "You are already the leader" };
+  }
+
+  const target = await prisma.allianceMember.findUnique({
+    where: { playerId: targetPlayerId },
+  });
+  if (!target || target.allianceId !== actor.allianceId) {
+    return { success: false, error: "Member not found" };
+  }
+
+  await prisma.$transaction([
+    prisma.alliance.update({
+      where: { id: actor.allianceId, version: actor.alliance.version },
+      data: { version: { increment: 1 } },
+    }),
+    prisma.allianceMember.update({
+      where: { id: actor.id, role: "LEADER" },
+      data: { role: "OFFICER" },
+    }),
+    prisma.allianceMember.update({
+      where: { id: target.id },
+      data: { role: "LEADER" },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId: actorId,
+        type: "alliance_leadership_transfer",
+        data: {
+          allianceId: actor.allianceId,
+          targetId: targetPlayerId,
+          targetPreviousRole: target.role,
+        },
+      },
+    }),
+  ]);
+
+  return { success: true };
+}
+
+/**
+ * Switch how new members get in: OPEN, APPROVAL or INVITE_ONLY. Leader only.
+ */
+export async function setAllianceJoinMode(
+  actorId: string,
+  joinMode: AllianceJoinMode,
+): Promise<{ success: boolean; error?: string }> {
+  const actor = await findAllianceActor(actorId);
+  if (!actor) return { success: false, error: "Not in an alliance" };
+  if (!hasAlliancePermission(actor.role, "set_join_mode")) {
+    return { success: false, error: "Only the leader can change join mode" };
+  }
+  if (actor.alliance.joinMode === joinMode) return { success: true };
+
+  await prisma.$transaction([
+    prisma.alliance.update({
+      where: { id: actor.allianceId, version: actor.alliance.version },
+      data: { joinMode, version: { increment: 1 } },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId: actorId,
+        type: "alliance_join_mode",
+        data: {
+          allianceId: actor.allianceId,
+          from: actor.alliance.joinMode,
+          to: joinMode,
+        },
       },
     }),
   ]);
@@ -1560,42 +2758,18 @@ export async function markAlertRead(
   return { success: true };
 }
 
-// --- GameConfig Runtime Reading ---
-
-const configCache = new Map<string, { value: unknown; fetchedAt: number }>();
-const CONFIG_TTL = 60_000; // 1 minute cache
-
-/**
- * Read a GameConfig value from DB with in-memory caching.
- * Falls back to defaultValue if key not found.
- */
-export async function getGameConfig<T>(
-  key: string,
-  defaultValue: T,
-): Promise<T> {
-  const cached = configCache.get(key);
-  if (cached && Date.now() - cached.fetchedAt < CONFIG_TTL) {
-    return cached.value as T;
-  }
-
-  const config = await prisma.gameConfig.findUnique({
-    where: { key },
-  });
-
-  if (!config) return defaultValue;
-
-  const value = config.value as T;
-  configCache.set(key, { value, fetchedAt: Date.now() });
-  return value;
-}
-
 export const gameEngine = {
   getOrCreatePlayer,
   calculateColonyState,
   calculateModuleCost,
+  calculateUpgradeCost,
+  getBuildQuotes,
+  getCostModifiers,
+  applyCostModifier,
   buildModule,
   upgradeModule,
   recruitCrew,
+  grantCrewMember,
   assignCrew,
   collectEarnings,
   syncPlayerSummary,
@@ -1604,14 +2778,29 @@ export const gameEngine = {
   demolishModule,
   grantXP,
   claimDailyReward,
+  getBurnRates,
+  burnResources,
   checkAchievements,
+  getPlayerAchievements,
   createAlliance,
   joinAlliance,
   leaveAlliance,
+  inviteToAlliance,
+  respondToInvite,
+  requestToJoinAlliance,
+  cancelJoinRequest,
+  reviewJoinRequest,
+  kickAllianceMember,
+  promoteAllianceMember,
+  demoteAllianceMember,
+  transferAllianceLeadership,
+  setAllianceJoinMode,
   createPriceAlert,
   getPlayerAlerts,
   markAlertRead,
   getGameConfig,
 };
 
+export { getGameConfig };
+
 export default gameEngine;
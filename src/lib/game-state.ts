@@ -4,21 +4,38 @@
  * Manages screen transitions and action dispatch for the Frame flow.
  * Each interaction follows:  validate → load state → dispatch action → respond
  *
- * The state machine is stateless between requests — current screen is
- * encoded in the Frame's postUrl query params.
+ * The state machine is stateless between requests — current screen (plus
+ * menu page and selection) travels in the postUrl as a signed state token
+ * (frame-state.ts). Stale, tampered or foreign tokens land on home.
+ *
+ * Flows:
+ *   home → colony → build (types, paged) → build_tier (tiers, paged) → build
+ *   home → colony → modules (paged) → module → upgrade / repair
+ *   home → colony → daily reward
+ *   home → market → buy / sell (amount + resource from the text input)
  */
 
 import gameEngine, {
   type ColonyState,
   type ModuleState,
+  type PlayerArrival,
 } from "@/lib/game-engine";
 import {
   buildFrameResponse,
+  type FrameButton,
   type FrameResponse,
+  type FrameState,
   type Screen,
 } from "@/lib/frame-response";
-import { type ModuleType } from "@/lib/utils";
+import {
+  GAME_CONSTANTS,
+  formatNumber,
+  type ModuleType,
+  type Tier,
+} from "@/lib/utils";
 import marketEngine, { type TradeResult } from "@/lib/market-engine";
+import { validateFrameTradeAmount } from "@/lib/validation";
+import { decodeFrameState } from "@/lib/frame-state";
 import {
   rollRandomEvent,
   getActiveEvents,
@@ -33,8 +50,16 @@ export interface FrameAction {
   fid: number;
   buttonIndex: number;
   inputText?: string;
-  /** The screen the user was on when they pressed the button */
-  currentScreen: Screen;
+  /**
+   * Signed state token from the postUrl — the screen the user was on when
+   * they pressed the button, plus menu page and selection
+   */
+  state?: string;
+  /**
+   * Server-chosen screen for requests without a token (the landing frame,
+   * action sub-routes). Ignored when `state` is present.
+   */
+  currentScreen?: Screen;
 }
 
 export interface PlayerSnapshot {
@@ -44,6 +69,35 @@ export interface PlayerSnapshot {
   state: ColonyState;
 }
 
+/** One button on a menu screen and what pressing it does. */
+interface MenuOption {
+  label: string;
+  select: () => Promise<FrameResponse>;
+}
+
+interface Menu {
+  options: MenuOption[];
+  imageParams: Record<string, string | number>;
+  state: FrameState;
+}
+
+/** Items per menu page — buttons 3 and 4 are More and Back. */
+const MENU_PAGE_SIZE = 2;
+
+/** Placeholder for the market screen's text input. */
+const TRADE_INPUT_HINT = "Amount + resource, e.g. 10 helium";
+
+const MODULE_LABELS: Record<ModuleType, string> = {
+  SOLAR_PANEL: "⚡ Solar Panel",
+  MINING_RIG: "⛏️ Mining Rig",
+  HABITAT: "🏠 Habitat",
+  RESEARCH_LAB: "🔬 Research Lab",
+  WATER_EXTRACTOR: "💧 Water Extractor",
+  OXYGEN_GENERATOR: "🫁 Oxygen Generator",
+  STORAGE_DEPOT: "📦 Storage Depot",
+  LAUNCH_PAD: "🚀 Launch Pad",
+};
+
 // ---------------------------------------------------------------------------
 // State Machine
 // ---------------------------------------------------------------------------
@@ -55,9 +109,16 @@ export class GameState {
     this.player = player;
   }
 
-  /** Load (or create) a player and return an initialised GameState. */
-  static async load(fid: number, username?: string): Promise<GameState> {
-    const raw = await gameEngine.getOrCreatePlayer(fid, username);
+  /**
+   * Load (or create) a player and return an initialised GameState.
+   * `arrival` attributes a newly created player to their referrer.
+   */
+  static async load(
+    fid: number,
+    username?: string,
+    arrival?: PlayerArrival | null,
+  ): Promise<GameState> {
+    const raw = await gameEngine.getOrCreatePlayer(fid, username, arrival);
     const state = gameEngine.calculateColonyState(raw);
 
     return new GameState({
@@ -78,7 +139,18 @@ export class GameState {
   // -----------------------------------------------------------------------
 
   async handleAction(action: FrameAction): Promise<FrameResponse> {
-    const { currentScreen, buttonIndex } = action;
+    const { buttonIndex } = action;
+
+    let currentScreen: Screen = action.currentScreen ?? "home";
+    let page = 0;
+    let selection: string | undefined;
+    if (action.state !== undefined) {
+      const state = decodeFrameState(action.state);
+      if (!state || state.fid !== this.player.fid) return this.homeScreen();
+      currentScreen = state.screen;
+      page = state.page ?? 0;
+      selection = state.selection;
+    }
 
     switch (currentScreen) {
       case "home":
@@ -86,13 +158,23 @@ export class GameState {
       case "colony":
         return this.handleColony(buttonIndex);
       case "build":
-        return this.handleBuild(buttonIndex);
+        return this.selectFromMenu(this.buildMenu(page), buttonIndex, () =>
+          this.buildScreen(page),
+        );
+      case "build_tier":
+        return this.handleBuildTier(buttonIndex, page, selection);
+      case "modules":
+        return this.selectFromMenu(this.modulesMenu(page), buttonIndex, () =>
+          this.modulesScreen(page),
+        );
+      case "module":
+        return this.handleModule(buttonIndex, selection);
       case "market":
-        return this.handleMarket(buttonIndex);
+        return this.handleMarket(buttonIndex, action.inputText);
       case "alliance":
         return this.handleAlliance(buttonIndex);
       case "result":
-        return this.handleResult(buttonIndex);
+        return this.handleResult(buttonIndex, selection);
       default:
         return this.homeScreen();
     }
@@ -118,48 +200,71 @@ export class GameState {
     }
   }
 
-  /** COLONY: Button 1=Produce, 2=Build, 3=Modules, 4=Home */
+  /** COLONY: Button 1=Daily Reward, 2=Build, 3=Modules, 4=Home */
   private async handleColony(buttonIndex: number): Promise<FrameResponse> {
     switch (buttonIndex) {
       case 1:
-        return this.runProductionCycle();
+        return this.claimDailyReward();
       case 2:
         return this.buildScreen();
       case 3:
-        return this.colonyScreen(); // Already showing modules
-      case 4:
-        return this.homeScreen();
+        return this.modulesScreen();
       default:
         return this.homeScreen();
     }
   }
 
-  /** BUILD: Button 1=Solar, 2=Mining, 3=Habitat, 4=Back */
-  private async handleBuild(buttonIndex: number): Promise<FrameResponse> {
-    if (buttonIndex === 4) {
-      return this.colonyScreen();
-    }
-
-    const moduleMap: Record<number, ModuleType> = {
-      1: "SOLAR_PANEL",
-      2: "MINING_RIG",
-      3: "HABITAT",
-    };
-
-    const moduleType = moduleMap[buttonIndex];
+  /** BUILD_TIER: tiers of the selected module type, then More / Back */
+  private async handleBuildTier(
+    buttonIndex: number,
+    page: number,
+    selection: string | undefined,
+  ): Promise<FrameResponse> {
+    const moduleType = parseModuleType(selection);
     if (!moduleType) return this.buildScreen();
 
-    return this.executeBuild(moduleType);
+    return this.selectFromMenu(
+      this.buildTierMenu(moduleType, page),
+      buttonIndex,
+      () => this.buildTierScreen(moduleType, page),
+    );
   }
 
-  /** MARKET: Button 1=Buy, 2=Sell, 3=Prices, 4=Home */
-  private async handleMarket(buttonIndex: number): Promise<FrameResponse> {
-    if (buttonIndex === 4) return this.homeScreen();
+  /** MODULE: Button 1=Upgrade, 2=Repair, 3=Modules, 4=Home */
+  private async handleModule(
+    buttonIndex: number,
+    moduleId: string | undefined,
+  ): Promise<FrameResponse> {
+    const index = this.sortedModules().findIndex((m) => m.id === moduleId);
+    if (!moduleId || index < 0) return this.modulesScreen();
 
-    // All market buttons show the market screen with live prices
-    return this.marketScreen({
-      action: buttonIndex === 1 ? "buy" : buttonIndex === 2 ? "sell" : "prices",
-    });
+    switch (buttonIndex) {
+      case 1:
+        return this.executeUpgrade(moduleId);
+      case 2:
+        return this.executeRepair(moduleId);
+      case 3:
+        return this.modulesScreen(Math.floor(index / MENU_PAGE_SIZE));
+      default:
+        return this.homeScreen();
+    }
+  }
+
+  /** MARKET: Button 1=Buy, 2=Sell (amount from text input), 3=Prices, 4=Home */
+  private async handleMarket(
+    buttonIndex: number,
+    inputText: string | undefined,
+  ): Promise<FrameResponse> {
+    switch (buttonIndex) {
+      case 1:
+        return this.executeTrade("buy", inputText);
+      case 2:
+        return this.executeTrade("sell", inputText);
+      case 4:
+        return this.homeScreen();
+      default:
+        return this.marketScreen({ action: "prices" });
+    }
   }
 
   /** ALLIANCE: Button 1=Members, 2=Contribute, 3=Rankings, 4=Home */
@@ -176,9 +281,32 @@ export class GameState {
     });
   }
 
-  /** RESULT: Button 1=Build More, 2=Home */
-  private async handleResult(buttonIndex: number): Promise<FrameResponse> {
-    return buttonIndex === 1 ? this.buildScreen() : this.homeScreen();
+  /**
+   * RESULT: Button 1=back to where the action started (per `selection`:
+   * "trade", "daily", "module:<id>", else the build menu), 2=Home
+   */
+  private async handleResult(
+    buttonIndex: number,
+    selection: string | undefined,
+  ): Promise<FrameResponse> {
+    if (buttonIndex !== 1) return this.homeScreen();
+
+    if (selection === "trade") return this.marketScreen();
+    if (selection === "daily") return this.colonyScreen();
+    if (selection?.startsWith("module:")) {
+      return this.moduleScreen(selection.slice("module:".length));
+    }
+    return this.buildScreen();
+  }
+
+  /** Run the option behind `buttonIndex`, or re-render via `fallback`. */
+  private async selectFromMenu(
+    menu: Promise<Menu>,
+    buttonIndex: number,
+    fallback: () => Promise<FrameResponse>,
+  ): Promise<FrameResponse> {
+    const option = (await menu).options[buttonIndex - 1];
+    return option ? option.select() : fallback();
   }
 
   // -----------------------------------------------------------------------
@@ -201,9 +329,7 @@ export class GameState {
     ).catch(() => {});
 
     // Refresh state after collection
-    const raw = await gameEngine.getOrCreatePlayer(this.player.fid);
-    const freshState = gameEngine.calculateColonyState(raw);
-    this.player.state = freshState;
+    const freshState = await this.refreshState();
 
     return buildFrameResponse({
       screen: "home",
@@ -219,11 +345,18 @@ export class GameState {
   }
 
   /** Execute a module build and return a result screen. */
-  private async executeBuild(moduleType: ModuleType): Promise<FrameResponse> {
+  private async executeBuild(
+    moduleType: ModuleType,
+    tier: Tier = "COMMON",
+  ): Promise<FrameResponse> {
     // Roll for random events on shop/build action
     await rollRandomEvent("shop_open", this.player.id).catch(() => {});
 
-    const result = await gameEngine.buildModule(this.player.id, moduleType);
+    const result = await gameEngine.buildModule(
+      this.player.id,
+      moduleType,
+      tier,
+    );
 
     if (!result.success) {
       return buildFrameResponse({
@@ -238,12 +371,11 @@ export class GameState {
           { label: "🔨 Try Again", action: "post" },
           { label: "🏠 Home", action: "post" },
         ],
+        state: { selection: "build" },
       });
     }
 
-    // Refresh state
-    const raw = await gameEngine.getOrCreatePlayer(this.player.fid);
-    this.player.state = gameEngine.calculateColonyState(raw);
+    await this.refreshState();
 
     // Sync summary after build (fire-and-forget)
     gameEngine.syncPlayerSummary(this.player.id);
@@ -253,13 +385,109 @@ export class GameState {
       fid: this.player.fid,
       imageParams: {
         success: 1,
-        module: moduleType,
+        module: tier === "COMMON" ? moduleType : `${tier} ${moduleType}`,
         balance: Math.floor(this.player.state.lunarBalance),
         modules: this.player.state.modules.length,
       },
+      state: { selection: "build" },
     });
   }
 
+  /** Upgrade a module by one level and return a result screen. */
+  private async executeUpgrade(moduleId: string): Promise<FrameResponse> {
+    const result = await gameEngine.upgradeModule(this.player.id, moduleId);
+    if (result.success) {
+      await this.refreshState();
+      gameEngine.syncPlayerSummary(this.player.id);
+    }
+
+    const mod = result.module ?? this.findModule(moduleId);
+    return this.actionResultScreen({
+      success: result.success,
+      module: mod?.type ?? "MODULE",
+      title: result.success
+        ? `Upgraded to Level ${result.module?.level ?? ""}`.trim()
+        : "Upgrade Failed",
+      detail: result.success
+        ? `Cost ${formatNumber(result.cost ?? 0)} $LUNAR`
+        : undefined,
+      error: result.error,
+      selection: `module:${moduleId}`,
+      retryLabel: "🔧 Module",
+    });
+  }
+
+  /** Repair a module to full efficiency and return a result screen. */
+  private async executeRepair(moduleId: string): Promise<FrameResponse> {
+    const mod = this.findModule(moduleId);
+    const result = await gameEngine.repairModule(this.player.id, moduleId);
+    if (result.success) await this.refreshState();
+
+    return this.actionResultScreen({
+      success: result.success,
+      module: mod?.type ?? "MODULE",
+      title: result.success ? "Repaired" : "Repair Failed",
+      detail: result.success
+        ? `Efficiency ${result.newEfficiency ?? 100}% · Cost ${formatNumber(result.cost ?? 0)} $LUNAR`
+        : undefined,
+      error: result.error,
+      selection: `module:${moduleId}`,
+      retryLabel: "🔧 Module",
+    });
+  }
+
+  /** Claim the daily login reward and return a result screen. */
+  private async claimDailyReward(): Promise<FrameResponse> {
+    const result = await gameEngine.claimDailyReward(this.player.id);
+    if (result.success) await this.refreshState();
+
+    return this.actionResultScreen({
+      success: result.success,
+      module: "DAILY_REWARD",
+      title: result.success ? "Daily Reward" : "Already Claimed",
+      detail: result.success
+        ? `+${formatNumber(result.reward ?? 0)} $LUNAR · ${result.streak ?? 1}-day streak`
+        : undefined,
+      error: result.error,
+      selection: "daily",
+      retryLabel: "🏗️ Colony",
+    });
+  }
+
+  /**
+   * Buy or sell from the market screen. The amount (and optional
+   * resource, default REGOLITH) comes from the Frame text input.
+   */
+  private async executeTrade(
+    side: "buy" | "sell",
+    inputText: string | undefined,
+  ): Promise<FrameResponse> {
+    const parsed = validateFrameTradeAmount(side, inputText);
+    if (!parsed) {
+      return this.buildTradeResultScreen({
+        success: false,
+        resource: "REGOLITH",
+        side,
+        requestedQuantity: 0,
+        filledQuantity: 0,
+        avgPrice: 0,
+        totalCost: 0,
+        slippage: 0,
+        error: `Enter an amount to ${side}, e.g. "10" or "10 helium"`,
+      });
+    }
+
+    const result = await marketEngine.executeTrade(
+      this.player.id,
+      parsed.resource,
+      parsed.side,
+      parsed.quantity,
+    );
+    if (result.success) await this.refreshState();
+
+    return this.buildTradeResultScreen(result);
+  }
+
   // -----------------------------------------------------------------------
   // Screen builders
   // -----------------------------------------------------------------------
@@ -312,34 +540,57 @@ export class GameState {
     });
   }
 
-  async buildScreen(): Promise<FrameResponse> {
+  async buildScreen(page = 0): Promise<FrameResponse> {
     // Roll for random events on shop view
     await rollRandomEvent("shop_open", this.player.id).catch(() => {});
 
-    const s = this.player.state;
-    const solarCost = gameEngine.calculateModuleCost(
-      "SOLAR_PANEL",
-      s.modules.length,
-    );
-    const miningCost = gameEngine.calculateModuleCost(
-      "MINING_RIG",
-      s.modules.length,
+    return this.menuScreen("build", await this.buildMenu(page));
+  }
+
+  async buildTierScreen(
+    moduleType: ModuleType,
+    page = 0,
+  ): Promise<FrameResponse> {
+    return this.menuScreen(
+      "build_tier",
+      await this.buildTierMenu(moduleType, page),
     );
-    const habitatCost = gameEngine.calculateModuleCost(
-      "HABITAT",
-      s.modules.length,
+  }
+
+  async modulesScreen(page = 0): Promise<FrameResponse> {
+    return this.menuScreen("modules", await this.modulesMenu(page));
+  }
+
+  async moduleScreen(moduleId: string): Promise<FrameResponse> {
+    const modules = this.sortedModules();
+    const index = modules.findIndex((m) => m.id === moduleId);
+    const mod = modules[index];
+    if (!mod) return this.modulesScreen();
+
+    const [upgradeMultiplier, costModifiers] = await Promise.all([
+      gameEngine.getGameConfig("upgrade_cost_multiplier"),
+      gameEngine.getCostModifiers(this.player.id),
+    ]);
+    const upgradeCost = gameEngine.applyCostModifier(
+      gameEngine.calculateUpgradeCost(mod.type, mod.level, upgradeMultiplier),
+      costModifiers.upgrade,
     );
 
     return buildFrameResponse({
-      screen: "build",
+      screen: "module",
       fid: this.player.fid,
       imageParams: {
-        balance: Math.floor(s.lunarBalance),
-        solarCost,
-        miningCost,
-        habitatCost,
-        moduleCount: s.modules.length,
+        ...this.colonyImageParams(modules),
+        selectedModule: index,
+        footer: "Btn 1: Upgrade · 2: Repair · 3: Modules · 4: Home",
       },
+      buttons: [
+        { label: `⬆️ Upgrade · ${formatNumber(upgradeCost)}`, action: "post" },
+        { label: `🔧 Repair · ${Math.round(mod.efficiency)}%`, action: "post" },
+        { label: "📋 Modules", action: "post" },
+        { label: "🏠 Home", action: "post" },
+      ],
+      state: { selection: mod.id },
     });
   }
 
@@ -364,6 +615,7 @@ export class GameState {
       screen: "market",
       fid: this.player.fid,
       imageParams: priceParams,
+      inputText: TRADE_INPUT_HINT,
     });
   }
 
@@ -382,12 +634,14 @@ export class GameState {
           avgPrice: result.avgPrice,
           totalCost: result.totalCost,
           slippage: result.slippage,
+          fee: result.fee ?? 0,
           balance: Math.floor(this.player.state.lunarBalance),
         },
         buttons: [
           { label: "📈 Market", action: "post" },
           { label: "🏠 Home", action: "post" },
         ],
+        state: { selection: "trade" },
       });
     }
 
@@ -405,6 +659,7 @@ export class GameState {
         { label: "📈 Try Again", action: "post" },
         { label: "🏠 Home", action: "post" },
       ],
+      state: { selection: "trade" },
     });
   }
 
@@ -418,12 +673,276 @@ export class GameState {
       },
     });
   }
+
+  /** Result screen for build-style actions (upgrade, repair, daily). */
+  private actionResultScreen(opts: {
+    success: boolean;
+    module: string;
+    title: string;
+    detail?: string;
+    error?: string;
+    selection: string;
+    retryLabel: string;
+  }): FrameResponse {
+    const imageParams: Record<string, string | number> = {
+      success: opts.success ? 1 : 0,
+      module: opts.module,
+      title: opts.title,
+      balance: Math.floor(this.player.state.lunarBalance),
+      modules: this.player.state.modules.length,
+    };
+    if (opts.detail) imageParams.detail = opts.detail;
+    if (!opts.success) imageParams.error = opts.error ?? "Unknown error";
+
+    return buildFrameResponse({
+      screen: "result",
+      fid: this.player.fid,
+      imageParams,
+      buttons: [
+        { label: opts.retryLabel, action: "post" },
+        { label: "🏠 Home", action: "post" },
+      ],
+      state: { selection: opts.selection },
+    });
+  }
+
+  // -----------------------------------------------------------------------
+  // Menus — the same options render the buttons and resolve presses
+  // -----------------------------------------------------------------------
+
+  private menuScreen(screen: Screen, menu: Menu): FrameResponse {
+    const buttons: FrameButton[] = menu.options.map((o) => ({
+      label: o.label,
+      action: "post",
+    }));
+    return buildFrameResponse({
+      screen,
+      fid: this.player.fid,
+      imageParams: menu.imageParams,
+      buttons,
+      state: menu.state,
+    });
+  }
+
+  /** Module types, COMMON price shown; picking one opens its tiers. */
+  private async buildMenu(page: number): Promise<Menu> {
+    const s = this.player.state;
+    const [quotes, costModifiers] = await Promise.all([
+      gameEngine.getBuildQuotes(s.modules.length),
+      gameEngine.getCostModifiers(this.player.id),
+    ]);
+    const view = paginate(
+      quotes.filter((q) => q.tier === "COMMON"),
+      page,
+    );
+
+    const imageParams: Record<string, string | number> = {
+      balance: Math.floor(s.lunarBalance),
+      moduleCount: s.modules.length,
+      page: view.page + 1,
+      pages: view.pages,
+    };
+    view.items.forEach((q, i) => {
+      imageParams[`item_${i}_type`] = q.type;
+      imageParams[`item_${i}_cost`] = gameEngine.applyCostModifier(
+        q.cost,
+        costModifiers.build,
+      );
+      imageParams[`item_${i}_output`] = q.output;
+    });
+
+    return {
+      options: [
+        ...view.items.map((q) => ({
+          label: MODULE_LABELS[q.type],
+          select: () => this.buildTierScreen(q.type),
+        })),
+        ...pagerOptions(
+          view,
+          (p) => this.buildScreen(p),
+          () => this.colonyScreen(),
+        ),
+      ],
+      imageParams,
+      state: { page: view.page },
+    };
+  }
+
+  /** Tiers of one module type; level-locked tiers are marked. */
+  private async buildTierMenu(
+    moduleType: ModuleType,
+    page: number,
+  ): Promise<Menu> {
+    const s = this.player.state;
+    const [quotes, costModifiers] = await Promise.all([
+      gameEngine.getBuildQuotes(s.modules.length, moduleType),
+      gameEngine.getCostModifiers(this.player.id),
+    ]);
+    const view = paginate(quotes, page);
+    const typePage = Math.floor(
+      GAME_CONSTANTS.MODULE_TYPES.indexOf(moduleType) / MENU_PAGE_SIZE,
+    );
+
+    const imageParams: Record<string, string | number> = {
+      balance: Math.floor(s.lunarBalance),
+      moduleCount: s.modules.length,
+      page: view.page + 1,
+      pages: view.pages,
+    };
+    const options: MenuOption[] = view.items.map((q, i) => {
+      const cost = gameEngine.applyCostModifier(q.cost, costModifiers.build);
+      imageParams[`item_${i}_type`] = q.type;
+      imageParams[`item_${i}_tier`] = q.tier;
+      imageParams[`item_${i}_cost`] = cost;
+      imageParams[`item_${i}_output`] = q.output;
+
+      const label =
+        s.level < q.unlockLevel
+          ? `🔒 ${tierName(q.tier)} · Lv ${q.unlockLevel}`
+          : `${tierName(q.tier)} · ${formatNumber(cost)}`;
+      return { label, select: () => this.executeBuild(moduleType, q.tier) };
+    });
+
+    return {
+      options: [
+        ...options,
+        ...pagerOptions(
+          view,
+          (p) => this.buildTierScreen(moduleType, p),
+          () => this.buildScreen(typePage),
+        ),
+      ],
+      imageParams,
+      state: { page: view.page, selection: moduleType },
+    };
+  }
+
+  /** The player's modules; picking one opens its upgrade/repair screen. */
+  private async modulesMenu(page: number): Promise<Menu> {
+    const modules = this.sortedModules();
+    const view = paginate(modules, page);
+
+    return {
+      options: [
+        ...view.items.map((m) => ({
+          label: `${MODULE_LABELS[m.type]} L${m.level}`,
+          select: () => this.moduleScreen(m.id),
+        })),
+        ...pagerOptions(
+          view,
+          (p) => this.modulesScreen(p),
+          () => this.colonyScreen(),
+        ),
+      ],
+      imageParams: {
+        ...this.colonyImageParams(modules),
+        footer:
+          modules.length > 0
+            ? "Pick a module to upgrade or repair"
+            : "No modules yet — build your first one!",
+      },
+      state: { page: view.page },
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // State helpers
+  // -----------------------------------------------------------------------
+
+  /** Reload the player after an action changed their colony. */
+  private async refreshState(): Promise<ColonyState> {
+    const raw = await gameEngine.getOrCreatePlayer(this.player.fid);
+    this.player.state = gameEngine.calculateColonyState(raw);
+    return this.player.state;
+  }
+
+  /** Modules in grid order, so menu pages are stable between requests. */
+  private sortedModules(): ModuleState[] {
+    return [...this.player.state.modules].sort(
+      (a, b) =>
+        a.coordinates.y - b.coordinates.y || a.coordinates.x - b.coordinates.x,
+    );
+  }
+
+  private findModule(moduleId: string): ModuleState | undefined {
+    return this.player.state.modules.find((m) => m.id === moduleId);
+  }
+
+  /** Colony image params with the per-module grid (cgrid_*). */
+  private colonyImageParams(
+    modules: ModuleState[],
+  ): Record<string, string | number> {
+    const s = this.player.state;
+    const params: Record<string, string | number> = {
+      balance: Math.floor(s.lunarBalance),
+      production: s.productionRate,
+      moduleCount: s.modules.length,
+      level: s.level,
+    };
+    modules.forEach((m, i) => {
+      params[`cgrid_${i}_type`] = m.type;
+      params[`cgrid_${i}_tier`] = m.tier;
+      params[`cgrid_${i}_eff`] = Math.round(m.efficiency);
+      params[`cgrid_${i}_active`] = m.isActive ? 1 : 0;
+      params[`cgrid_${i}_lvl`] = m.level;
+    });
+    return params;
+  }
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+interface PageView<T> {
+  items: T[];
+  /** Zero-based, wrapped into range */
+  page: number;
+  pages: number;
+}
+
+/** Slice one menu page; out-of-range pages wrap around. */
+function paginate<T>(items: readonly T[], page: number): PageView<T> {
+  const pages = Math.max(1, Math.ceil(items.length / MENU_PAGE_SIZE));
+  const current = ((Math.floor(page) % pages) + pages) % pages;
+  return {
+    items: items.slice(
+      current * MENU_PAGE_SIZE,
+      (current + 1) * MENU_PAGE_SIZE,
+    ),
+    page: current,
+    pages,
+  };
+}
+
+/** More (when there are several pages) and Back buttons for a menu. */
+function pagerOptions(
+  view: PageView<unknown>,
+  goToPage: (page: number) => Promise<FrameResponse>,
+  back: () => Promise<FrameResponse>,
+): MenuOption[] {
+  const options: MenuOption[] = [];
+  if (view.pages > 1) {
+    options.push({
+      label: `▶ More (${view.page + 1}/${view.pages})`,
+      select: () => goToPage(view.page + 1),
+    });
+  }
+  options.push({ label: "🔙 Back", select: back });
+  return options;
+}
+
+function parseModuleType(value: string | undefined): ModuleType | null {
+  return GAME_CONSTANTS.MODULE_TYPES.includes(value as ModuleType)
+    ? (value as ModuleType)
+    : null;
+}
+
+/** "RARE" → "Rare" */
+function tierName(tier: Tier): string {
+  return tier.charAt(0) + tier.slice(1).toLowerCase();
+}
+
 /** Condense module list into type→count map for image rendering. */
 function summarizeModules(
   modules: ModuleState[],
@@ -3,22 +3,29 @@
  *
  * Simulates a dynamic resource market with:
  *   1. Price updates  — random walk (70%) + player demand (20%) + seasonality (10%)
- *   2. Demand calc    — aggregated module counts that consume each resource
- *   3. Market depth   — synthetic order book around current price
+ *   2. Demand calc    — module upkeep actually consumed (ProductionLog)
+ *   3. Market depth   — synthetic house liquidity around current price
  *   4. Trading        — simulated order matching against depth
  *   5. Price history  — last 100 snapshots per resource, prune older data
  *   6. Price alerts   — notify players of significant movements (±10%)
+ *   7. Limit orders   — persisted player orders with escrow, matched each tick
  *
  * Entry points:
  *   - runMarketTick()         — called by cron every 15 min
  *   - executeTrade()          — called by player trade action
+ *   - placeOrder()            — rest a limit order on the book
+ *   - cancelOrder()           — cancel an open order, releasing escrow
+ *   - getPlayerOrders()       — a player's open / filled / cancelled orders
  *   - getMarketOverview()     — read-only snapshot for Frame display
  *   - getMarketDepth()        — order book for a single resource
  */
 
 import prisma from "@/lib/database";
-import type { ResourceType } from "@/lib/utils";
+import type { MarketOrder, Prisma } from "@prisma/client";
+import { round4, type ResourceType } from "@/lib/utils";
 import { GameMetrics } from "@/lib/metrics";
+import { getGameConfig } from "@/lib/game-config";
+import { getPlayerEventModifiers, getModifier } from "@/lib/event-engine";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -31,7 +38,7 @@ export interface ResourceConfig {
   seasonalFactor: number; // amplitude of the sine wave component
   minPrice: number;
   maxPrice: number;
-  /** Which module types drive demand for this resource */
+  /** Module types whose upkeep consumes this resource (see MODULE_UPKEEP) */
   demandDrivers: string[]; // ModuleType values
 }
 
@@ -68,6 +75,10 @@ export interface TradeResult {
   avgPrice: number;
   totalCost: number; // Positive for buy, negative (revenue) for sell
   slippage: number; // Difference from market price in %
+  fee?: number; // LUNAR charged on top of (buy) or out of (sell) totalCost
+  priceImpact?: number; // % the trade moved ResourcePrice.currentPrice
+  newPrice?: number; // Persisted price after impact
+  transactionId?: string; // Ledger row for the fill (used to share the trade)
   error?: string;
 }
 
@@ -93,9 +104,43 @@ export interface MarketTickResult {
   updates: PriceUpdate[];
   alertsCreated: number;
   historyPruned: number;
+  ordersFilled: number;
   durationMs: number;
 }
 
+export type OrderSide = "BUY" | "SELL";
+export type OrderStatus = "OPEN" | "PARTIAL" | "FILLED" | "CANCELLED";
+
+export interface MarketOrderView {
+  id: string;
+  resource: ResourceType;
+  side: OrderSide;
+  status: OrderStatus;
+  limitPrice: number;
+  quantity: number;
+  filledQuantity: number;
+  avgFillPrice: number | null;
+  reserved: number;
+  createdAt: Date;
+  closedAt: Date | null;
+}
+
+export interface OrderResult {
+  success: boolean;
+  order?: MarketOrderView;
+  error?: string;
+}
+
+export interface OrderMatchResult {
+  resource: ResourceType;
+  /** Player-vs-player fills */
+  matched: number;
+  /** Fills against house liquidity */
+  houseFills: number;
+  volume: number;
+  failed: number;
+}
+
 // ---------------------------------------------------------------------------
 // Resource configurations — defines the character of each market
 // ---------------------------------------------------------------------------
@@ -117,7 +162,7 @@ export const RESOURCE_CONFIGS: Record<ResourceType, ResourceConfig> = {
     seasonalFactor: 0.03,
     minPrice: 0.5,
     maxPrice: 10.0,
-    demandDrivers: ["MINING_RIG", "STORAGE_DEPOT"],
+    demandDrivers: ["RESEARCH_LAB"],
   },
   WATER_ICE: {
     type: "WATER_ICE",
@@ -126,7 +171,7 @@ export const RESOURCE_CONFIGS: Record<ResourceType, ResourceConfig> = {
     seasonalFactor: 0.05,
     minPrice: 2.0,
     maxPrice: 30.0,
-    demandDrivers: ["WATER_EXTRACTOR", "HABITAT", "OXYGEN_GENERATOR"],
+    demandDrivers: ["HABITAT", "OXYGEN_GENERATOR"],
   },
   HELIUM3: {
     type: "HELIUM3",
@@ -135,7 +180,7 @@ export const RESOURCE_CONFIGS: Record<ResourceType, ResourceConfig> = {
     seasonalFactor: 0.08,
     minPrice: 10.0,
     maxPrice: 200.0,
-    demandDrivers: ["RESEARCH_LAB", "LAUNCH_PAD"],
+    demandDrivers: ["LAUNCH_PAD"],
   },
   RARE_EARTH: {
     type: "RARE_EARTH",
@@ -144,7 +189,7 @@ export const RESOURCE_CONFIGS: Record<ResourceType, ResourceConfig> = {
     seasonalFactor: 0.1,
     minPrice: 30.0,
     maxPrice: 500.0,
-    demandDrivers: ["RESEARCH_LAB", "SOLAR_PANEL"],
+    demandDrivers: ["RESEARCH_LAB"],
   },
 };
 
@@ -154,8 +199,11 @@ const DEPTH_SPREAD_PCT = 0.005; // 0.5% base spread
 const DEPTH_QUANTITY_BASE = 100; // Base qty per level
 const DEPTH_PRICE_STEP_PCT = 0.003; // 0.3% between levels
 
+// Trade fee & price impact
+const FULL_BOOK_IMPACT_PCT = 5; // Price move for a trade that eats the whole book
+
 // Price alert threshold
-const ALERT_THRESHOLD_PCT = 10; // Alert if price moves >10% in one tick
+export const ALERT_THRESHOLD_PCT = 10; // Alert if price moves >10% in one tick
 
 // Max history entries per resource before pruning
 const MAX_HISTORY_PER_RESOURCE = 100;
@@ -250,10 +298,10 @@ function calculateNewPrice(
 // ---------------------------------------------------------------------------
 
 /**
- * Calculate aggregate player demand for each resource based on module counts.
+ * Calculate aggregate player demand for each resource from module upkeep.
  * Cached for 15 minutes to avoid hammering the DB.
  *
- * Demand = sum of modules that consume each resource, weighted by tier.
+ * Demand = upkeep actually drawn by demandDrivers modules (last 24 hours).
  * Supply = derived from production logs (recent output).
  */
 async function calculatePlayerDemand(): Promise<Record<string, number>> {
@@ -262,36 +310,26 @@ async function calculatePlayerDemand(): Promise<Record<string, number>> {
     return demandCache.data;
   }
 
-  // Count active modules by type across all players
-  const moduleCounts = await prisma.$queryRaw<
-    Array<{ type: string; tier: string; count: bigint }>
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+  // Consumption is logged per resource alongside production
+  const consumptionRows = await prisma.$queryRaw<
+    Array<{ resource: string; totalConsumed: number }>
   >`
-    SELECT m."type"::text AS "type", m."tier"::text AS "tier", COUNT(*) AS "count"
-    FROM "Module" m
-    WHERE m."isActive" = true AND m."deletedAt" IS NULL
-    GROUP BY m."type", m."tier"
+    SELECT
+      pl."resource"::text AS "resource",
+      COALESCE(SUM(pl."totalConsumed"), 0) AS "totalConsumed"
+    FROM "ProductionLog" pl
+    WHERE pl."date" >= ${yesterday}
+    GROUP BY pl."resource"
   `;
 
-  // Tier multipliers for demand weighting
-  const tierWeight: Record<string, number> = {
-    COMMON: 1,
-    UNCOMMON: 1.5,
-    RARE: 2.5,
-    EPIC: 4,
-    LEGENDARY: 7,
-  };
-
-  // Aggregate demand per resource
+  // Aggregate demand per resource — only resources with upkeep consumers
   const demand: Record<string, number> = {};
   for (const config of Object.values(RESOURCE_CONFIGS)) {
-    let totalDemand = 0;
-    for (const row of moduleCounts) {
-      if (config.demandDrivers.includes(row.type)) {
-        const weight = tierWeight[row.tier] ?? 1;
-        totalDemand += Number(row.count) * weight;
-      }
-    }
-    demand[config.type] = totalDemand;
+    const row = consumptionRows.find((r) => r.resource === config.type);
+    demand[config.type] =
+      config.demandDrivers.length > 0 ? Number(row?.totalConsumed ?? 0) : 0;
   }
 
   // Cache the result
@@ -403,14 +441,64 @@ export function generateMarketDepth(
 // 4. Trade Execution
 // ---------------------------------------------------------------------------
 
+/**
+ * Price impact of a fill against the house book: the share of the book
+ * consumed, pushed in the trade's direction.
+ */
+function bookPriceImpact(
+  side: "buy" | "sell",
+  filledQty: number,
+  levels: MarketDepthOrder[],
+): number {
+  const bookLiquidity = levels[levels.length - 1]?.total ?? filledQty;
+  return (
+    (side === "buy" ? 1 : -1) *
+    (filledQty / Math.max(bookLiquidity, 1)) *
+    FULL_BOOK_IMPACT_PCT
+  );
+}
+
+/**
+ * Persist a fill's price impact inside its transaction so the next tick
+ * starts from the moved price. Returns the new (clamped) price.
+ */
+async function persistPriceImpact(
+  tx: Prisma.TransactionClient,
+  resource: ResourceType,
+  fallbackPrice: number,
+  priceImpact: number,
+): Promise<number> {
+  const config = RESOURCE_CONFIGS[resource];
+  const latest = await tx.resourcePrice.findUnique({
+    where: { type: resource },
+  });
+  const basePrice = Number(latest?.currentPrice ?? fallbackPrice);
+  const newPrice = round4(
+    Math.max(
+      config.minPrice,
+      Math.min(config.maxPrice, basePrice * (1 + priceImpact / 100)),
+    ),
+  );
+  await tx.resourcePrice.update({
+    where: { type: resource },
+    data: { currentPrice: newPrice, lastUpdatedAt: new Date() },
+  });
+  return newPrice;
+}
+
 /**
  * Execute a trade for a player against the synthetic order book.
  *
  * Walks the order book to fill the requested quantity, computing
  * a volume-weighted average price (VWAP) and slippage.
  *
- * For buys:  player pays LUNAR, receives resource
- * For sells: player pays resource, receives LUNAR
+ * For buys:  player pays LUNAR + fee, receives resource
+ * For sells: player pays resource, receives LUNAR − fee
+ *
+ * The fee (GameConfig trade_fee_percent × TRADE_FEE modifier) is logged as
+ * its own FEE transaction, sells are boosted by SELL_PRICE_MULTIPLIER, and
+ * the fill moves ResourcePrice.currentPrice in proportion to the share of
+ * the book consumed.
  */
 export async function executeTrade(
   playerId: string,
@@ -496,8 +584,26 @@ export async function executeTrade(
     };
   }
 
+  // Slippage is measured on the raw book walk, before event multipliers
+  const slippage =
+    ((totalSpent / filledQty - currentPrice) / currentPrice) * 100;
+
+  // Event modifiers: SELL_PRICE_MULTIPLIER boosts sell fills,
+  // TRADE_FEE scales the configured fee (e.g. 0.5 = half fees)
+  const eventMods = await getPlayerEventModifiers(playerId);
+  if (side === "sell") {
+    totalSpent *= getModifier(eventMods, "SELL_PRICE_MULTIPLIER");
+  }
   const avgPrice = totalSpent / filledQty;
-  const slippage = ((avgPrice - currentPrice) / currentPrice) * 100;
+
+  const feePercent =
+    (await getGameConfig("trade_fee_percent")) *
+    getModifier(eventMods, "TRADE_FEE");
+  const fee = Math.round(((totalSpent * feePercent) / 100) * 10000) / 10000;
+
+  const priceImpact = bookPriceImpact(side, filledQty, orders);
+  let newPrice = currentPrice;
+  let transactionId: string | undefined;
 
   // Execute the trade in a transaction
   try {
@@ -508,11 +614,12 @@ export async function executeTrade(
       });
 
       if (side === "buy") {
-        // Check LUNAR balance
+        // Check LUNAR balance (cost + fee)
         const lunarBalance = Number(player.lunarBalance);
-        if (lunarBalance < totalSpent) {
+        const required = totalSpent + fee;
+        if (lunarBalance < required) {
           throw new Error(
-            `Insufficient LUNAR: need ${totalSpent.toFixed(2)}, have ${lunarBalance.toFixed(2)}`,
+            `Insufficient LUNAR: need ${required.toFixed(2)}, have ${lunarBalance.toFixed(2)}`,
           );
         }
 
@@ -520,7 +627,7 @@ export async function executeTrade(
         await tx.player.update({
           where: { id: playerId, version: player.version },
           data: {
-            lunarBalance: { decrement: totalSpent },
+            lunarBalance: { decrement: required },
             version: { increment: 1 },
           },
         });
@@ -550,11 +657,11 @@ export async function executeTrade(
           data: { amount: { decrement: filledQty } },
         });
 
-        // Credit LUNAR
+        // Credit LUNAR (net of fee)
         await tx.player.update({
           where: { id: playerId, version: player.version },
           data: {
-            lunarBalance: { increment: totalSpent },
+            lunarBalance: { increment: totalSpent - fee },
             version: { increment: 1 },
           },
         });
@@ -564,7 +671,7 @@ export async function executeTrade(
       const newBalance =
         Number(player.lunarBalance) +
         (side === "sell" ? totalSpent : -totalSpent);
-      await tx.transaction.create({
+      const ledger = await tx.transaction.create({
         data: {
           playerId,
           type: "TRADE",
@@ -579,9 +686,33 @@ export async function executeTrade(
             totalCost: totalSpent,
             slippage,
             marketPrice: currentPrice,
+            priceImpact,
           },
         },
       });
+      transactionId = ledger.id;
+
+      // Fee is its own ledger entry so it can be audited and summed
+      if (fee > 0) {
+        await tx.transaction.create({
+          data: {
+            playerId,
+            type: "FEE",
+            resource: "LUNAR",
+            amount: -fee,
+            balanceAfter: newBalance - fee,
+            description: `Trade fee ${feePercent.toFixed(2)}% on ${side.toUpperCase()} ${filledQty} ${resource}`,
+            metadata: { side, resource, feePercent, tradeValue: totalSpent },
+          },
+        });
+      }
+
+      newPrice = await persistPriceImpact(
+        tx,
+        resource,
+        currentPrice,
+        priceImpact,
+      );
 
       // Log game event
       await tx.gameEvent.create({
@@ -595,6 +726,8 @@ export async function executeTrade(
             quantity: filledQty,
             avgPrice,
             totalCost: totalSpent,
+            fee,
+            priceImpact,
           },
         },
       });
@@ -620,6 +753,10 @@ export async function executeTrade(
       avgPrice: Math.round(avgPrice * 10000) / 10000,
       totalCost: Math.round(totalSpent * 10000) / 10000,
       slippage: Math.round(slippage * 100) / 100,
+      fee,
+      priceImpact: Math.round(priceImpact * 100) / 100,
+      newPrice,
+      transactionId,
     };
   } catch (error) {
     return {
@@ -707,6 +844,7 @@ export async function runMarketTick(): Promise<MarketTickResult> {
   const updates: PriceUpdate[] = [];
   let alertsCreated = 0;
   let historyPruned = 0;
+  let ordersFilled = 0;
 
   // Fetch demand and supply
   const [demand, supply] = await Promise.all([
@@ -758,6 +896,21 @@ export async function runMarketTick(): Promise<MarketTickResult> {
       },
     });
 
+    // Match resting limit orders at the new price
+    let orderVolume = 0;
+    if (resourceType !== "LUNAR") {
+      try {
+        const matched = await matchOrders(resourceType, newPrice);
+        ordersFilled += matched.matched + matched.houseFills;
+        orderVolume = matched.volume;
+      } catch (error) {
+        GameMetrics.trackError(error, {
+          context: "order_matching",
+          resource: resourceType,
+        });
+      }
+    }
+
     // Record history
     await prisma.priceHistory.create({
       data: {
@@ -766,7 +919,7 @@ export async function runMarketTick(): Promise<MarketTickResult> {
         price: newPrice,
         supply: resourceSupply,
         demand: resourceDemand,
-        volume: 0, // Will be populated as trades happen
+        volume: orderVolume, // Limit-order volume matched this tick
       },
     });
 
@@ -850,6 +1003,7 @@ export async function runMarketTick(): Promise<MarketTickResult> {
         })),
         alertsCreated,
         historyPruned,
+        ordersFilled,
       },
     },
   });
@@ -858,6 +1012,7 @@ export async function runMarketTick(): Promise<MarketTickResult> {
     updates,
     alertsCreated,
     historyPruned,
+    ordersFilled,
     durationMs: Date.now() - startTime,
   };
 }
@@ -889,6 +1044,621 @@ export async function getPriceHistory(
   }));
 }
 
+// ---------------------------------------------------------------------------
+// 8. Limit Orders — persisted order book with escrow
+// ---------------------------------------------------------------------------
+
+/** Max resting orders (OPEN + PARTIAL) per player. */
+const MAX_OPEN_ORDERS = 20;
+/** Orders loaded per side per resource each tick (best-priced first). */
+const MATCH_BATCH_SIZE = 200;
+
+const RESTING_STATUSES: OrderStatus[] = ["OPEN", "PARTIAL"];
+
+/** Working copy of a resting order while the book is matched in memory. */
+interface BookEntry {
+  id: string;
+  playerId: string;
+  resource: ResourceType;
+  side: OrderSide;
+  limitPrice: number;
+  quantity: number;
+  filled: number;
+  avgFillPrice: number;
+  reserved: number;
+  version: number;
+  createdAt: Date;
+}
+
+function toOrderView(row: MarketOrder): MarketOrderView {
+  return {
+    id: row.id,
+    resource: row.resource as ResourceType,
+    side: row.side,
+    status: row.status,
+    limitPrice: Number(row.limitPrice),
+    quantity: Number(row.quantity),
+    filledQuantity: Number(row.filledQuantity),
+    avgFillPrice: row.avgFillPrice != null ? Number(row.avgFillPrice) : null,
+    reserved: Number(row.reserved),
+    createdAt: row.createdAt,
+    closedAt: row.closedAt,
+  };
+}
+
+function toBookEntry(row: MarketOrder): BookEntry {
+  return {
+    id: row.id,
+    playerId: row.playerId,
+    resource: row.resource as ResourceType,
+    side: row.side,
+    limitPrice: Number(row.limitPrice),
+    quantity: Number(row.quantity),
+    filled: Number(row.filledQuantity),
+    avgFillPrice: Number(row.avgFillPrice ?? 0),
+    reserved: Number(row.reserved),
+    version: row.version,
+    createdAt: row.createdAt,
+  };
+}
+
+function remainingOf(entry: BookEntry): number {
+  return round4(entry.quantity - entry.filled);
+}
+
+/**
+ * Credit LUNAR or a resource to a player inside a transaction.
+ * Returns the player's LUNAR balance afterwards (for ledger balanceAfter).
+ */
+async function creditPlayer(
+  tx: Prisma.TransactionClient,
+  playerId: string,
+  resource: ResourceType,
+  amount: number,
+): Promise<number> {
+  const player = await tx.player.findUniqueOrThrow({
+    where: { id: playerId },
+  });
+
+  if (resource === "LUNAR") {
+    if (amount > 0) {
+      await tx.player.update({
+        where: { id: playerId, version: player.version },
+        data: {
+          lunarBalance: { increment: amount },
+          version: { increment: 1 },
+        },
+      });
+    }
+    return Number(player.lunarBalance) + amount;
+  }
+
+  if (amount > 0) {
+    await tx.playerResource.upsert({
+      where: { playerId_type: { playerId, type: resource } },
+      update: { amount: { increment: amount } },
+      create: { playerId, type: resource, amount },
+    });
+  }
+  return Number(player.lunarBalance);
+}
+
+/**
+ * Place a limit order. The full cost (LUNAR for buys, the resource for
+ * sells) is moved into escrow on the order so a fill can never bounce.
+ */
+export async function placeOrder(
+  playerId: string,
+  resource: ResourceType,
+  side: OrderSide,
+  quantity: number,
+  limitPrice: number,
+): Promise<OrderResult> {
+  if (resource === "LUNAR") {
+    return { success: false, error: "Cannot trade LUNAR for LUNAR" };
+  }
+  if (!(quantity > 0)) {
+    return { success: false, error: "Quantity must be positive" };
+  }
+
+  const config = RESOURCE_CONFIGS[resource];
+  if (!(limitPrice >= config.minPrice && limitPrice <= config.maxPrice)) {
+    return {
+      success: false,
+      error: `Limit price must be between ${config.minPrice} and ${config.maxPrice}`,
+    };
+  }
+  const price = round4(limitPrice);
+
+  const openCount = await prisma.marketOrder.count({
+    where: { playerId, status: { in: RESTING_STATUSES } },
+  });
+  if (openCount >= MAX_OPEN_ORDERS) {
+    return {
+      success: false,
+      error: `Maximum ${MAX_OPEN_ORDERS} open orders — cancel one first`,
+    };
+  }
+
+  try {
+    const order = await prisma.$transaction(async (tx) => {
+      const player = await tx.player.findUniqueOrThrow({
+        where: { id: playerId },
+      });
+
+      let reserved: number;
+      let balanceAfter: number;
+
+      if (side === "BUY") {
+        reserved = round4(quantity * price);
+        const lunarBalance = Number(player.lunarBalance);
+        if (lunarBalance < reserved) {
+          throw new Error(
+            `Insufficient LUNAR: need ${reserved.toFixed(2)}, have ${lunarBalance.toFixed(2)}`,
+          );
+        }
+        await tx.player.update({
+          where: { id: playerId, version: player.version },
+          data: {
+            lunarBalance: { decrement: reserved },
+            version: { increment: 1 },
+          },
+        });
+        balanceAfter = lunarBalance - reserved;
+      } else {
+        reserved = quantity;
+        const resourceRow = await tx.playerResource.findUnique({
+          where: { playerId_type: { playerId, type: resource } },
+        });
+        const resourceBalance = resourceRow ? Number(resourceRow.amount) : 0;
+        if (resourceBalance < quantity) {
+          throw new Error(
+            `Insufficient ${resource}: need ${quantity}, have ${resourceBalance}`,
+          );
+        }
+        await tx.playerResource.update({
+          where: { playerId_type: { playerId, type: resource } },
+          data: { amount: { decrement: quantity } },
+        });
+        balanceAfter = resourceBalance - quantity;
+      }
+
+      const created = await tx.marketOrder.create({
+        data: {
+          playerId,
+          resource,
+          side,
+          limitPrice: price,
+          quantity,
+          reserved,
+        },
+      });
+
+      // Escrow leaves the player's balance — record it in the ledger
+      await tx.transaction.create({
+        data: {
+          playerId,
+          type: "TRADE",
+          resource: side === "BUY" ? "LUNAR" : resource,
+          amount: -reserved,
+          balanceAfter,
+          description: `Escrow for ${side} ${quantity} ${resource} @ ${price.toFixed(4)} $L`,
+          metadata: { orderId: created.id, side, quantity, limitPrice: price },
+        },
+      });
+
+      await tx.gameEvent.create({
+        data: {
+          playerId,
+          type: "order_placed",
+          severity: "INFO",
+          data: {
+            orderId: created.id,
+            resource,
+            side,
+            quantity,
+            limitPrice: price,
+          },
+        },
+      });
+
+      return created;
+    });
+
+    return { success: true, order: toOrderView(order) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Order failed",
+    };
+  }
+}
+
+/**
+ * Cancel a resting order and release whatever is left in escrow.
+ */
+export async function cancelOrder(
+  playerId: string,
+  orderId: string,
+): Promise<OrderResult> {
+  const order = await prisma.marketOrder.findFirst({
+    where: { id: orderId, playerId },
+  });
+  if (!order) {
+    return { success: false, error: "Order not found" };
+  }
+  if (!RESTING_STATUSES.includes(order.status)) {
+    return {
+      success: false,
+      error: `Order is already ${order.status.toLowerCase()}`,
+    };
+  }
+
+  const release = Number(order.reserved);
+  const escrowResource: ResourceType =
+    order.side === "BUY" ? "LUNAR" : (order.resource as ResourceType);
+
+  try {
+    const cancelled = await prisma.$transaction(async (tx) => {
+      // Optimistic lock — a concurrent fill bumps the version
+      const { count } = await tx.marketOrder.updateMany({
+        where: { id: order.id, version: order.version },
+        data: {
+          status: "CANCELLED",
+          reserved: 0,
+          closedAt: new Date(),
+          version: { increment: 1 },
+        },
+      });
+      if (count === 0) {
+        throw new Error("Order was just updated — please try again");
+      }
+
+      if (release > 0) {
+        const lunarAfter = await creditPlayer(
+          tx,
+          playerId,
+          escrowResource,
+          release,
+        );
+        await tx.transaction.create({
+          data: {
+            playerId,
+            type: "REFUND",
+            resource: escrowResource,
+            amount: release,
+            balanceAfter: lunarAfter,
+            description: `Released escrow for cancelled ${order.side} order`,
+            metadata: { orderId: order.id },
+          },
+        });
+      }
+
+      await tx.gameEvent.create({
+        data: {
+          playerId,
+          type: "order_cancelled",
+          severity: "INFO",
+          data: { orderId: order.id, released: release },
+        },
+      });
+
+      return tx.marketOrder.findUniqueOrThrow({ where: { id: order.id } });
+    });
+
+    return { success: true, order: toOrderView(cancelled) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Cancel failed",
+    };
+  }
+}
+
+/**
+ * List a player's orders (newest first), optionally filtered by status.
+ */
+export async function getPlayerOrders(
+  playerId: string,
+  options: { status?: OrderStatus[]; limit?: number } = {},
+): Promise<MarketOrderView[]> {
+  const orders = await prisma.marketOrder.findMany({
+    where: {
+      playerId,
+      ...(options.status ? { status: { in: options.status } } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: options.limit ?? 50,
+  });
+  return orders.map(toOrderView);
+}
+
+/**
+ * Apply a fill to one order inside a transaction and settle the player.
+ *
+ * Buys receive the resource and get back the difference between their
+ * limit and the execution price; sells receive LUNAR. Once an order is
+ * fully filled any rounding dust left in escrow is returned too. A
+ * non-zero feePercent (house fills) comes out of the LUNAR leg and is
+ * logged as its own FEE transaction.
+ */
+async function applyFill(
+  tx: Prisma.TransactionClient,
+  entry: BookEntry,
+  qty: number,
+  price: number,
+  counterparty: string,
+  feePercent = 0,
+): Promise<BookEntry> {
+  const filled = round4(entry.filled + qty);
+  const avgFillPrice = round4(
+    (entry.avgFillPrice * entry.filled + price * qty) / filled,
+  );
+  const escrowUsed =
+    entry.side === "BUY" ? round4(qty * entry.limitPrice) : qty;
+  const done = filled >= entry.quantity;
+  const dust = done ? Math.max(0, round4(entry.reserved - escrowUsed)) : 0;
+  const reserved = done ? 0 : Math.max(0, round4(entry.reserved - escrowUsed));
+
+  const { count } = await tx.marketOrder.updateMany({
+    where: { id: entry.id, version: entry.version },
+    data: {
+      filledQuantity: filled,
+      avgFillPrice,
+      reserved,
+      status: done ? "FILLED" : "PARTIAL",
+      closedAt: done ? new Date() : null,
+      version: { increment: 1 },
+    },
+  });
+  if (count === 0) {
+    throw new Error(`Order ${entry.id} changed during matching`);
+  }
+
+  const tradeValue = round4(qty * price);
+  const fee = round4((tradeValue * feePercent) / 100);
+
+  let lunarAfter: number;
+  if (entry.side === "BUY") {
+    // House matching only crosses when price + fee fits under the limit,
+    // so the fee always comes out of the escrow headroom
+    const refund = Math.max(
+      0,
+      round4((entry.limitPrice - price) * qty + dust - fee),
+    );
+    await creditPlayer(tx, entry.playerId, entry.resource, qty);
+    lunarAfter = await creditPlayer(tx, entry.playerId, "LUNAR", refund);
+  } else {
+    if (dust > 0) {
+      await creditPlayer(tx, entry.playerId, entry.resource, dust);
+    }
+    lunarAfter = await creditPlayer(
+      tx,
+      entry.playerId,
+      "LUNAR",
+      round4(tradeValue - fee),
+    );
+  }
+
+  await tx.transaction.create({
+    data: {
+      playerId: entry.playerId,
+      type: "TRADE",
+      resource: entry.resource,
+      amount: entry.side === "BUY" ? qty : -qty,
+      balanceAfter: round4(lunarAfter + fee),
+      description: `${entry.side} ${qty} ${entry.resource} @ ${price.toFixed(4)} $L (limit order)`,
+      metadata: {
+        orderId: entry.id,
+        side: entry.side.toLowerCase(),
+        filledQty: qty,
+        avgPrice: price,
+        totalCost: tradeValue,
+        counterparty,
+      },
+    },
+  });
+
+  if (fee > 0) {
+    await tx.transaction.create({
+      data: {
+        playerId: entry.playerId,
+        type: "FEE",
+        resource: "LUNAR",
+        amount: -fee,
+        balanceAfter: lunarAfter,
+        description: `Trade fee ${feePercent.toFixed(2)}% on ${entry.side} ${qty} ${entry.resource} (limit order)`,
+        metadata: {
+          orderId: entry.id,
+          side: entry.side.toLowerCase(),
+          resource: entry.resource,
+          feePercent,
+          tradeValue,
+        },
+      },
+    });
+  }
+
+  return {
+    ...entry,
+    filled,
+    avgFillPrice,
+    reserved,
+    version: entry.version + 1,
+  };
+}
+
+/**
+ * Match resting orders for one resource. Called from runMarketTick.
+ *
+ *   1. Crossing player orders fill against each other at the maker's
+ *      (older order's) price — price-time priority, no self-trades.
+ *   2. Whatever still crosses the house quote fills against the
+ *      synthetic depth, walking levels up to the order's limit. House
+ *      fills are priced like executeTrade: the player's TRADE_FEE and
+ *      SELL_PRICE_MULTIPLIER modifiers apply, trade_fee_percent is
+ *      charged (the limit is honoured net of it) and the fill moves
+ *      ResourcePrice.currentPrice. Player-vs-player fills pay no fee.
+ *
+ * Every fill is its own transaction; a failed fill (e.g. a concurrent
+ * cancel) is skipped and the order is retried on the next tick.
+ */
+export async function matchOrders(
+  resource: ResourceType,
+  currentPrice: number,
+): Promise<OrderMatchResult> {
+  const result: OrderMatchResult = {
+    resource,
+    matched: 0,
+    houseFills: 0,
+    volume: 0,
+    failed: 0,
+  };
+
+  const [bidRows, askRows] = await Promise.all([
+    prisma.marketOrder.findMany({
+      where: { resource, side: "BUY", status: { in: RESTING_STATUSES } },
+      orderBy: [{ limitPrice: "desc" }, { createdAt: "asc" }],
+      take: MATCH_BATCH_SIZE,
+    }),
+    prisma.marketOrder.findMany({
+      where: { resource, side: "SELL", status: { in: RESTING_STATUSES } },
+      orderBy: [{ limitPrice: "asc" }, { createdAt: "asc" }],
+      take: MATCH_BATCH_SIZE,
+    }),
+  ]);
+  const bids = bidRows.map(toBookEntry);
+  const asks = askRows.map(toBookEntry);
+  const skipped = new Set<string>();
+
+  // --- 1. Player vs player ---
+  // Best bid first, each walking the asks it crosses in price-time order
+  for (let bi = 0; bi < bids.length; bi++) {
+    for (let ai = 0; ai < asks.length; ai++) {
+      const bid = bids[bi]!;
+      const ask = asks[ai]!;
+      if (skipped.has(bid.id) || remainingOf(bid) <= 0) break;
+      if (bid.limitPrice < ask.limitPrice) break;
+      if (skipped.has(ask.id) || remainingOf(ask) <= 0) continue;
+
+      // Self-trade prevention: skip this pairing only — both orders stay
+      // eligible to match everyone else
+      if (bid.playerId === ask.playerId) continue;
+
+      const qty = Math.min(remainingOf(bid), remainingOf(ask));
+      const price =
+        bid.createdAt <= ask.createdAt ? bid.limitPrice : ask.limitPrice;
+
+      try {
+        const [nextBid, nextAsk] = await prisma.$transaction(async (tx) => [
+          await applyFill(tx, bid, qty, price, ask.playerId),
+          await applyFill(tx, ask, qty, price, bid.playerId),
+        ]);
+        bids[bi] = nextBid;
+        asks[ai] = nextAsk;
+        result.matched++;
+        result.volume += qty;
+        const total = round4(qty * price);
+        GameMetrics.trackTrade(
+          bid.playerId,
+          resource,
+          "buy",
+          qty,
+          price,
+          total,
+          0,
+        );
+        GameMetrics.trackTrade(
+          ask.playerId,
+          resource,
+          "sell",
+          qty,
+          price,
+          total,
+          0,
+        );
+      } catch {
+        result.failed++;
+        skipped.add(bid.id);
+        skipped.add(ask.id);
+      }
+    }
+  }
+
+  // --- 2. Remaining crossing orders vs house liquidity ---
+  const depth = generateMarketDepth(resource, currentPrice);
+  const houseAsks = depth.asks.map((l) => ({ ...l }));
+  const houseBids = depth.bids.map((l) => ({ ...l }));
+  const baseFeePercent = await getGameConfig("trade_fee_percent");
+
+  for (const entry of [...bids, ...asks]) {
+    if (skipped.has(entry.id)) continue;
+    let remaining = remainingOf(entry);
+    if (remaining <= 0) continue;
+
+    const eventMods = await getPlayerEventModifiers(entry.playerId);
+    const feePercent = baseFeePercent * getModifier(eventMods, "TRADE_FEE");
+    const sellMultiplier =
+      entry.side === "SELL"
+        ? getModifier(eventMods, "SELL_PRICE_MULTIPLIER")
+        : 1;
+
+    // Walk the house side up to the order's limit, net of the fee
+    const levels = entry.side === "BUY" ? houseAsks : houseBids;
+    const takes: Array<{ level: (typeof levels)[number]; qty: number }> = [];
+    let cost = 0;
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      const crosses =
+        entry.side === "BUY"
+          ? level.price * (1 + feePercent / 100) <= entry.limitPrice
+          : level.price * sellMultiplier * (1 - feePercent / 100) >=
+            entry.limitPrice;
+      if (!crosses) break;
+      const qty = Math.min(remaining, level.quantity);
+      if (qty <= 0) continue;
+      takes.push({ level, qty });
+      cost += qty * level.price;
+      remaining = round4(remaining - qty);
+    }
+    if (takes.length === 0) continue;
+
+    const qty = round4(takes.reduce((sum, t) => sum + t.qty, 0));
+    const vwap = round4(cost / qty);
+    const price = round4(vwap * sellMultiplier);
+    const side = entry.side === "BUY" ? "buy" : "sell";
+    const priceImpact = bookPriceImpact(
+      side,
+      qty,
+      entry.side === "BUY" ? depth.asks : depth.bids,
+    );
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await applyFill(tx, entry, qty, price, "house", feePercent);
+        await persistPriceImpact(tx, resource, currentPrice, priceImpact);
+      });
+      for (const t of takes) t.level.quantity -= t.qty;
+      result.houseFills++;
+      result.volume += qty;
+      GameMetrics.trackTrade(
+        entry.playerId,
+        resource,
+        side,
+        qty,
+        price,
+        round4(qty * price),
+        round4(((vwap - currentPrice) / currentPrice) * 100),
+      );
+    } catch {
+      result.failed++;
+    }
+  }
+
+  result.volume = round4(result.volume);
+  return result;
+}
+
 // ---------------------------------------------------------------------------
 // Default export
 // ---------------------------------------------------------------------------
@@ -899,6 +1669,10 @@ const marketEngine = {
   getMarketOverview,
   getMarketDepth: generateMarketDepth,
   getPriceHistory,
+  placeOrder,
+  cancelOrder,
+  getPlayerOrders,
+  matchOrders,
   RESOURCE_CONFIGS,
 };
 
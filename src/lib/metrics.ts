@@ -73,11 +73,19 @@ interface CronMetric extends BaseMetric {
   result: Record<string, unknown>;
 }
 
+type EventAction =
+  | "started"
+  | "completed"
+  | "reward_distributed"
+  | "scheduled"
+  | "cancelled"
+  | "mechanics_applied";
+
 interface EventMetric extends BaseMetric {
   type: "event";
   eventType: string;
   eventId: string;
-  action: "started" | "completed" | "reward_distributed";
+  action: EventAction;
   metadata?: Record<string, unknown>;
 }
 
@@ -233,7 +241,7 @@ export const GameMetrics = {
   trackEvent(
     eventType: string,
     eventId: string,
-    action: "started" | "completed" | "reward_distributed",
+    action: EventAction,
     metadata?: Record<string, unknown>,
   ): void {
     emit({
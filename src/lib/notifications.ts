@@ -0,0 +1,670 @@
+/**
+ * Farcaster Mini App notifications.
+ *
+ * When a user adds the Mini App, their Farcaster client POSTs a signed
+ * event to our webhook (`webhookUrl` in /.well-known/farcaster.json) with a
+ * notification token and the client's notification endpoint. Events are
+ * JSON Farcaster Signatures: { header, payload, signature }, base64url,
+ * signed by an app key that must be an active signer of the FID (checked
+ * against the same registry as Frame messages). Each client signs with its
+ * own app key, so tokens are stored against it and disable / remove events
+ * only touch that client's tokens. Notification endpoints must be https on
+ * a known client host (NOTIFICATION_URL_ORIGINS adds more, e.g. a local
+ * mock server) so a signed event can't point our dispatcher anywhere else.
+ *
+ * The dispatcher sends three kinds of notification, each of which players
+ * can opt out of (NotificationPreference):
+ *   - productionReady — the daily production cycle credited their colony
+ *   - eventStart      — a global game event went live
+ *   - priceAlert      — a resource moved ±ALERT_THRESHOLD_PCT in one tick
+ *
+ * Protocol limits are enforced locally before sending: at most 100 tokens
+ * per request, one notification per token every 30 seconds and 100 per
+ * token per day. Tokens the client reports invalid are deleted.
+ *
+ * Entry points:
+ *   - handleMiniAppWebhook()           — webhook route: verify + store tokens
+ *   - sendNotification()               — deliver to FIDs or everyone
+ *   - notifyProductionReady()          — cron, after the production cycle
+ *   - notifyEventsStarted()            — cron, after scheduled events start
+ *   - notifyPriceAlerts()              — cron, after the market tick
+ *   - getNotificationSettings()        — dashboard: opt-outs + token status
+ *   - updateNotificationPreferences()  — dashboard: change opt-outs
+ */
+
+import { ed25519 } from "@noble/curves/ed25519";
+import prisma from "@/lib/database";
+import { GameMetrics } from "@/lib/metrics";
+import { ALERT_THRESHOLD_PCT, type PriceUpdate } from "@/lib/market-engine";
+import {
+  getSignerKeyRegistry,
+  type SignerKeyRegistry,
+} from "@/lib/frame-validation";
+import { absoluteUrl, startOfUtcDay } from "@/lib/utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type NotificationKind = "productionReady" | "eventStart" | "priceAlert";
+
+export const NOTIFICATION_KINDS: NotificationKind[] = [
+  "productionReady",
+  "eventStart",
+  "priceAlert",
+];
+
+export type NotificationPreferences = Record<NotificationKind, boolean>;
+
+export interface MiniAppNotification {
+  kind: NotificationKind;
+  /** Clients drop repeats of the same id for a FID within 24 h */
+  notificationId: string;
+  title: string;
+  body: string;
+  /** Must be on the app's domain */
+  targetUrl: string;
+}
+
+/** FIDs to notify, or every FID with an enabled token. */
+export type NotificationAudience = { fids: number[] } | "all";
+
+export interface DispatchResult {
+  sent: number;
+  optedOut: number;
+  /** Held back by our per-token limits or reported by the client */
+  rateLimited: number;
+  invalid: number;
+  failed: number;
+}
+
+export interface NotificationDetails {
+  url: string;
+  token: string;
+}
+
+export type MiniAppWebhookEvent =
+  | { event: "miniapp_added"; notificationDetails?: NotificationDetails }
+  | { event: "miniapp_removed" }
+  | { event: "notifications_enabled"; notificationDetails: NotificationDetails }
+  | { event: "notifications_disabled" };
+
+export type WebhookRejection = "malformed" | "invalid" | "unavailable";
+
+/** A verified event and the app key (client signer) that signed it. */
+export type VerifiedWebhookEvent = {
+  ok: true;
+  fid: number;
+  appKey: string;
+  event: MiniAppWebhookEvent;
+};
+
+export type WebhookResult =
+  | { ok: true; fid: number; event: MiniAppWebhookEvent["event"] }
+  | { ok: false; reason: WebhookRejection };
+
+// ---------------------------------------------------------------------------
+// Constants — Mini App notification protocol limits
+// ---------------------------------------------------------------------------
+
+/** Max tokens per sendNotification request */
+export const NOTIFICATION_BATCH_SIZE = 100;
+
+/** One notification per token per 30 seconds */
+export const NOTIFICATION_MIN_INTERVAL_MS = 30 * 1000;
+
+/** 100 notifications per token per day */
+export const NOTIFICATION_DAILY_LIMIT = 100;
+
+const MAX_TITLE_LENGTH = 32;
+const MAX_BODY_LENGTH = 128;
+const MAX_NOTIFICATION_ID_LENGTH = 128;
+
+/** Tokens loaded per page while dispatching */
+const TOKEN_PAGE_SIZE = 500;
+
+/** Notification endpoints of the known Farcaster clients */
+const CLIENT_NOTIFICATION_ORIGINS = [
+  "https://api.farcaster.xyz",
+  "https://api.warpcast.com",
+];
+
+function clip(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+// ---------------------------------------------------------------------------
+// 1. Webhook
+// ---------------------------------------------------------------------------
+
+function decodeJsonPart(part: unknown): unknown {
+  if (typeof part !== "string" || !part) return null;
+  try {
+    return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Origins a notification endpoint may live on: the known clients plus
+ * NOTIFICATION_URL_ORIGINS (comma-separated origins).
+ */
+function allowedNotificationOrigins(): Set<string> {
+  const extra = (process.env.NOTIFICATION_URL_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+    .flatMap((origin) => {
+      try {
+        return [new URL(origin).origin];
+      } catch {
+        return [];
+      }
+    });
+  return new Set([...CLIENT_NOTIFICATION_ORIGINS, ...extra]);
+}
+
+/**
+ * https endpoints on an allowed origin only. Plain http is accepted for a
+ * configured origin outside production, for the local mock server.
+ */
+function parseNotificationDetails(value: unknown): NotificationDetails | null {
+  const details = value as Partial<NotificationDetails> | undefined;
+  if (typeof details?.url !== "string" || typeof details.token !== "string") {
+    return null;
+  }
+  let url: URL;
+  try {
+    url = new URL(details.url);
+  } catch {
+    return null;
+  }
+  if (!allowedNotificationOrigins().has(url.origin)) return null;
+  if (url.protocol !== "https:" && process.env.NODE_ENV === "production") {
+    return null;
+  }
+  return details.token ? { url: details.url, token: details.token } : null;
+}
+
+/** Accepts the current event names and the older frame_* aliases. */
+function parseWebhookEvent(value: unknown): MiniAppWebhookEvent | null {
+  const raw = value as { event?: unknown; notificationDetails?: unknown };
+  const name =
+    typeof raw?.event === "string"
+      ? raw.event.replace(/^frame_(added|removed)$/, "miniapp_$1")
+      : null;
+  const details = raw?.notificationDetails
+    ? parseNotificationDetails(raw.notificationDetails)
+    : undefined;
+  if (details === null) return null;
+
+  switch (name) {
+    case "miniapp_added":
+      return { event: name, notificationDetails: details };
+    case "notifications_enabled":
+      return details ? { event: name, notificationDetails: details } : null;
+    case "miniapp_removed":
+    case "notifications_disabled":
+      return { event: name };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Verify a webhook body's JSON Farcaster Signature: the Ed25519 signature
+ * over `header.payload`, and that the app key belongs to the FID.
+ */
+export async function verifyWebhookEvent(
+  body: unknown,
+  registry: SignerKeyRegistry = getSignerKeyRegistry(),
+): Promise<VerifiedWebhookEvent | { ok: false; reason: WebhookRejection }> {
+  const { header, payload, signature } = (body ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const headerJson = decodeJsonPart(header) as {
+    fid?: unknown;
+    type?: unknown;
+    key?: unknown;
+  } | null;
+  const event = parseWebhookEvent(decodeJsonPart(payload));
+  if (!headerJson || !event || typeof signature !== "string") {
+    return { ok: false, reason: "malformed" };
+  }
+
+  const { fid, type, key } = headerJson;
+  if (
+    typeof fid !== "number" ||
+    !Number.isInteger(fid) ||
+    fid <= 0 ||
+    type !== "app_key" ||
+    typeof key !== "string" ||
+    !/^0x[0-9a-fA-F]{64}$/.test(key)
+  ) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  let valid = false;
+  try {
+    valid = ed25519.verify(
+      Buffer.from(signature, "base64url"),
+      new TextEncoder().encode(`${header}.${payload}`),
+      Buffer.from(key.slice(2), "hex"),
+    );
+  } catch {
+    valid = false;
+  }
+  if (!valid) return { ok: false, reason: "invalid" };
+
+  try {
+    if (!(await registry.isActiveSigner(fid, key))) {
+      return { ok: false, reason: "invalid" };
+    }
+  } catch {
+    return { ok: false, reason: "unavailable" };
+  }
+
+  return { ok: true, fid, appKey: key.toLowerCase(), event };
+}
+
+/**
+ * Verify a webhook event and apply it: store the token when notifications
+ * are enabled, disable the signing client's tokens for the FID when
+ * they're turned off, and forget them when the app is removed there.
+ */
+export async function handleMiniAppWebhook(
+  body: unknown,
+  options: { registry?: SignerKeyRegistry } = {},
+): Promise<WebhookResult> {
+  const verified = await verifyWebhookEvent(body, options.registry);
+  if (!verified.ok) return verified;
+
+  const { fid, appKey, event } = verified;
+  switch (event.event) {
+    case "miniapp_added":
+    case "notifications_enabled":
+      if (event.notificationDetails) {
+        const { url, token } = event.notificationDetails;
+        await prisma.notificationToken.upsert({
+          where: { fid_url: { fid, url } },
+          create: { fid, url, token, appKey },
+          update: {
+            token,
+            appKey,
+            enabled: true,
+            sentDay: null,
+            sentToday: 0,
+          },
+        });
+      }
+      break;
+    case "notifications_disabled":
+      await prisma.notificationToken.updateMany({
+        where: { fid, appKey },
+        data: { enabled: false },
+      });
+      break;
+    case "miniapp_removed":
+      await prisma.notificationToken.deleteMany({ where: { fid, appKey } });
+      break;
+  }
+
+  await prisma.gameEvent.create({
+    data: {
+      type: event.event,
+      severity: "INFO",
+      data: {
+        fid,
+        notifications:
+          "notificationDetails" in event && !!event.notificationDetails,
+      },
+    },
+  });
+
+  return { ok: true, fid, event: event.event };
+}
+
+// ---------------------------------------------------------------------------
+// 2. Dispatch
+// ---------------------------------------------------------------------------
+
+interface TokenRow {
+  id: string;
+  fid: number;
+  url: string;
+  token: string;
+  lastSentAt: Date | null;
+  sentDay: Date | null;
+  sentToday: number;
+}
+
+interface SendResponse {
+  result?: {
+    successfulTokens?: string[];
+    invalidTokens?: string[];
+    rateLimitedTokens?: string[];
+  };
+}
+
+/** Whether our own per-token limits hold this token back right now. */
+function isThrottled(row: TokenRow, now: Date, today: Date): boolean {
+  if (
+    row.lastSentAt &&
+    now.getTime() - row.lastSentAt.getTime() < NOTIFICATION_MIN_INTERVAL_MS
+  ) {
+    return true;
+  }
+  return (
+    row.sentDay?.getTime() === today.getTime() &&
+    row.sentToday >= NOTIFICATION_DAILY_LIMIT
+  );
+}
+
+/** POST one batch to a client's notification endpoint. */
+async function postBatch(
+  url: string,
+  notification: MiniAppNotification,
+  tokens: string[],
+): Promise<SendResponse["result"] | null> {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        notificationId: clip(
+          notification.notificationId,
+          MAX_NOTIFICATION_ID_LENGTH,
+        ),
+        title: clip(notification.title, MAX_TITLE_LENGTH),
+        body: clip(notification.body, MAX_BODY_LENGTH),
+        targetUrl: notification.targetUrl,
+        tokens,
+      }),
+    });
+    if (!res.ok) throw new Error(`Notification endpoint error (${res.status})`);
+    return ((await res.json()) as SendResponse).result ?? {};
+  } catch (error) {
+    GameMetrics.trackError(
+      error,
+      { context: "send_notification", kind: notification.kind, url },
+      "warning",
+    );
+    return null;
+  }
+}
+
+/** Record successful sends against the per-token limits. */
+async function recordSent(rows: TokenRow[], now: Date, today: Date) {
+  const sameDay = rows.filter((r) => r.sentDay?.getTime() === today.getTime());
+  const newDay = rows.filter((r) => r.sentDay?.getTime() !== today.getTime());
+
+  if (sameDay.length > 0) {
+    await prisma.notificationToken.updateMany({
+      where: { id: { in: sameDay.map((r) => r.id) } },
+      data: { lastSentAt: now, sentToday: { increment: 1 } },
+    });
+  }
+  if (newDay.length > 0) {
+    await prisma.notificationToken.updateMany({
+      where: { id: { in: newDay.map((r) => r.id) } },
+      data: { lastSentAt: now, sentDay: today, sentToday: 1 },
+    });
+  }
+}
+
+/**
+ * Deliver a notification to every enabled token of the audience, skipping
+ * players who opted out of this kind and tokens over the protocol limits.
+ */
+export async function sendNotification(
+  notification: MiniAppNotification,
+  audience: NotificationAudience,
+  options: { now?: Date } = {},
+): Promise<DispatchResult> {
+  const now = options.now ?? new Date();
+  const today = startOfUtcDay(now);
+  const result: DispatchResult = {
+    sent: 0,
+    optedOut: 0,
+    rateLimited: 0,
+    invalid: 0,
+    failed: 0,
+  };
+  if (audience !== "all" && audience.fids.length === 0) return result;
+
+  let cursor: string | undefined;
+  while (true) {
+    const rows: TokenRow[] = await prisma.notificationToken.findMany({
+      where: {
+        enabled: true,
+        ...(audience === "all" ? {} : { fid: { in: audience.fids } }),
+        ...(cursor ? { id: { gt: cursor } } : {}),
+      },
+      select: {
+        id: true,
+        fid: true,
+        url: true,
+        token: true,
+        lastSentAt: true,
+        sentDay: true,
+        sentToday: true,
+      },
+      orderBy: { id: "asc" },
+      take: TOKEN_PAGE_SIZE,
+    });
+    if (rows.length === 0) break;
+
+    const optedOut = new Set(
+      (
+        await prisma.notificationPreference.findMany({
+          where: {
+            fid: { in: [...new Set(rows.map((r) => r.fid))] },
+            [notification.kind]: false,
+          },
+          select: { fid: true },
+        })
+      ).map((p) => p.fid),
+    );
+
+    // Group deliverable tokens by client endpoint
+    const byUrl = new Map<string, TokenRow[]>();
+    for (const row of rows) {
+      if (optedOut.has(row.fid)) {
+        result.optedOut++;
+      } else if (isThrottled(row, now, today)) {
+        result.rateLimited++;
+      } else {
+        byUrl.set(row.url, [...(byUrl.get(row.url) ?? []), row]);
+      }
+    }
+
+    for (const [url, group] of byUrl) {
+      for (let i = 0; i < group.length; i += NOTIFICATION_BATCH_SIZE) {
+        const batch = group.slice(i, i + NOTIFICATION_BATCH_SIZE);
+        const response = await postBatch(
+          url,
+          notification,
+          batch.map((r) => r.token),
+        );
+        if (!response) {
+          result.failed += batch.length;
+          continue;
+        }
+
+        const successful = new Set(response.successfulTokens ?? []);
+        const invalid = new Set(response.invalidTokens ?? []);
+        const sent = batch.filter((r) => successful.has(r.token));
+        await recordSent(sent, now, today);
+        if (invalid.size > 0) {
+          await prisma.notificationToken.deleteMany({
+            where: { token: { in: [...invalid] } },
+          });
+        }
+
+        result.sent += sent.length;
+        result.invalid += invalid.size;
+        result.rateLimited += response.rateLimitedTokens?.length ?? 0;
+      }
+    }
+
+    if (rows.length < TOKEN_PAGE_SIZE) break;
+    cursor = rows[rows.length - 1]!.id;
+  }
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// 3. Game moments
+// ---------------------------------------------------------------------------
+
+/**
+ * Tell players whose colony produced LUNAR in the day's cycle that it has
+ * been credited.
+ */
+export async function notifyProductionReady(
+  date: Date = startOfUtcDay(),
+  options: { now?: Date } = {},
+): Promise<DispatchResult> {
+  const logs = await prisma.productionLog.findMany({
+    where: { date, resource: "LUNAR", totalProduced: { gt: 0 } },
+    select: { player: { select: { fid: true } } },
+  });
+
+  return sendNotification(
+    {
+      kind: "productionReady",
+      notificationId: `production-${date.toISOString().slice(0, 10)}`,
+      title: "⚡ Production is in",
+      body: "Today's output has been credited to your colony. Come reinvest it!",
+      targetUrl: absoluteUrl("/dashboard/production"),
+    },
+    { fids: logs.map((l) => l.player.fid) },
+    options,
+  );
+}
+
+/**
+ * Announce global events that just went live. `eventTypes` are the types
+ * processScheduledEvents() started this run.
+ */
+export async function notifyEventsStarted(
+  eventTypes: string[],
+  options: { now?: Date } = {},
+): Promise<DispatchResult[]> {
+  if (eventTypes.length === 0) return [];
+
+  const events = await prisma.activeEvent.findMany({
+    where: { type: { in: eventTypes }, status: "ACTIVE", isGlobal: true },
+    select: { id: true, name: true, description: true, icon: true },
+  });
+
+  const results: DispatchResult[] = [];
+  for (const event of events) {
+    results.push(
+      await sendNotification(
+        {
+          kind: "eventStart",
+          notificationId: `event-${event.id}`,
+          title: `${event.icon} ${event.name}`,
+          body: event.description,
+          targetUrl: absoluteUrl("/dashboard"),
+        },
+        "all",
+        options,
+      ),
+    );
+  }
+  return results;
+}
+
+/**
+ * Summarize a market tick's significant moves in one notification, or
+ * send nothing when no price crossed the alert threshold.
+ */
+export async function notifyPriceAlerts(
+  updates: PriceUpdate[],
+  options: { now?: Date } = {},
+): Promise<DispatchResult | null> {
+  const moves = updates.filter(
+    (u) => Math.abs(u.changePercent) >= ALERT_THRESHOLD_PCT,
+  );
+  if (moves.length === 0) return null;
+
+  const now = options.now ?? new Date();
+  const rising = moves.filter((u) => u.changePercent > 0).length;
+  const body = moves
+    .map(
+      (u) =>
+        `${u.type} ${u.changePercent > 0 ? "+" : ""}${u.changePercent.toFixed(1)}% → ${u.newPrice.toFixed(2)} $L`,
+    )
+    .join(" · ");
+
+  return sendNotification(
+    {
+      kind: "priceAlert",
+      notificationId: `market-${now.toISOString().slice(0, 16)}`,
+      title:
+        rising >= moves.length - rising ? "📈 Market alert" : "📉 Market alert",
+      body,
+      targetUrl: absoluteUrl("/dashboard/market"),
+    },
+    "all",
+    { now },
+  );
+}
+
+// ---------------------------------------------------------------------------
+// 4. Preferences
+// ---------------------------------------------------------------------------
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  productionReady: true,
+  eventStart: true,
+  priceAlert: true,
+};
+
+/**
+ * A player's opt-outs, and whether any Farcaster client currently has
+ * notifications enabled for them.
+ */
+export async function getNotificationSettings(fid: number): Promise<{
+  preferences: NotificationPreferences;
+  enabled: boolean;
+}> {
+  const [prefs, tokens] = await Promise.all([
+    prisma.notificationPreference.findUnique({ where: { fid } }),
+    prisma.notificationToken.count({ where: { fid, enabled: true } }),
+  ]);
+
+  return {
+    preferences: prefs
+      ? {
+          productionReady: prefs.productionReady,
+          eventStart: prefs.eventStart,
+          priceAlert: prefs.priceAlert,
+        }
+      : { ...DEFAULT_PREFERENCES },
+    enabled: tokens > 0,
+  };
+}
+
+/** Turn notification kinds on or off; unspecified kinds keep their value. */
+export async function updateNotificationPreferences(
+  fid: number,
+  changes: Partial<NotificationPreferences>,
+): Promise<NotificationPreferences> {
+  const prefs = await prisma.notificationPreference.upsert({
+    where: { fid },
+    create: { fid, ...DEFAULT_PREFERENCES, ...changes },
+    update: changes,
+  });
+
+  return {
+    productionReady: prefs.productionReady,
+    eventStart: prefs.eventStart,
+    priceAlert: prefs.priceAlert,
+  };
+}
@@ -7,21 +7,42 @@
  *   1. Cursor-based batching  — never loads all players at once
  *   2. Raw SQL aggregation    — single query per player (modules + crew)
  *   3. Idempotency via ProductionLog — @@unique([playerId, date, resource])
- *   4. Per-player timeout      — one slow player can't stall the batch
- *   5. Structured logging      — every run is auditable via GameEvent
+ *      (one row per resource produced or consumed)
+ *   4. Module upkeep           — inputs drawn from PlayerResource; modules
+ *                                throttle or shut down when inputs run dry
+ *   5. Per-player timeout      — one slow player can't stall the batch
+ *   6. Structured logging      — every run is auditable via GameEvent
+ *   7. Event mechanics         — per-tick damage/drop rolls (event-mechanics.ts)
+ *   8. Crew progression        — assigned crew earn XP per cycle and apply
+ *                                their role perks (crew-progression.ts)
+ *   9. Alliance tithe          — a share of LUNAR output goes to the
+ *                                member's alliance treasury (alliance-engine.ts)
  *
  * Entry point: processProductionCycle()
  */
 
 import prisma from "@/lib/database";
-import type { ModuleType, Tier } from "@/lib/utils";
+import {
+  isPrismaUniqueViolation,
+  type ModuleType,
+  type ResourceType,
+  type Tier,
+} from "@/lib/utils";
 import {
   getPlayerEventModifiers,
   getModifier,
   autoParticipateInActiveEvents,
   type ModifierSet,
 } from "@/lib/event-engine";
+import { applyTickMechanics } from "@/lib/event-mechanics";
+import { applyAllianceTithe } from "@/lib/alliance-engine";
 import { GameMetrics } from "@/lib/metrics";
+import { loadGameConfig, type GameConfigValues } from "@/lib/game-config";
+import {
+  applyCrewXp,
+  getPerkEffects,
+  type CrewLevelUp,
+} from "@/lib/crew-progression";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -37,26 +58,54 @@ export interface ModuleProductionRow {
   bonusOutput: number;
   ageInCycles: number;
   /** Crew fields — null when no crew is assigned */
+  crewId: string | null;
+  crewRole: string | null;
+  crewLevel: number;
+  crewXp: number;
   crewSpecialty: ModuleType | null;
   crewOutputBonus: number; // percentage, e.g. 15 = +15 %
   crewEfficiencyBonus: number;
 }
 
+/** Per-resource amounts; resources with a zero amount are omitted. */
+export type ResourceAmounts = Partial<Record<ResourceType, number>>;
+
 export interface ModuleResult {
   moduleId: string;
+  /** LUNAR output (kept as the headline number for dashboards and events). */
   output: number;
+  /** Every resource this module produced this cycle, LUNAR included. */
+  resources: ResourceAmounts;
+  /** Upkeep inputs actually drawn this cycle. */
+  consumed: ResourceAmounts;
+  /** True when an upkeep input ran dry and the module must shut down. */
+  starved: boolean;
   breakdown: {
     base: number;
     crewBonus: number;
     agingPenalty: number;
     efficiencyMult: number;
+    /** 0–1: share of upkeep inputs available (throttles output). */
+    supplyMult: number;
   };
 }
 
+/** XP earned this cycle by a crew member whose module ran. */
+export interface CrewProgress extends CrewLevelUp {
+  crewId: string;
+  moduleId: string;
+}
+
 export interface ProductionResult {
   playerId: string;
   totalLunar: number;
+  /** Totals per resource — LUNAR floored, raw materials rounded to 4 dp. */
+  totalResources: ResourceAmounts;
+  /** Upkeep drawn from PlayerResource — rounded down to 4 dp. */
+  totalConsumed: ResourceAmounts;
   moduleResults: ModuleResult[];
+  /** Post-cycle crew XP/level/bonuses, applied by creditProduction. */
+  crewProgress: CrewProgress[];
   activeModules: number;
   avgEfficiency: number;
 }
@@ -66,6 +115,7 @@ export interface BatchResult {
   skipped: number;
   failed: number;
   totalLunarProduced: number;
+  totalResourcesProduced: ResourceAmounts;
   durationMs: number;
   errors: Array<{ playerId: string; error: string }>;
 }
@@ -103,12 +153,62 @@ const BASE_OUTPUTS: Record<ModuleType, Record<Tier, number>> = {
   },
 };
 
-/** Cycle threshold after which diminishing returns kick in. */
-const AGING_THRESHOLD_CYCLES = 30;
-/** Min efficiency multiplier from aging (floor at 50 %). */
-const AGING_MIN_MULTIPLIER = 0.5;
-/** Efficiency lost per cycle beyond the threshold. */
-const AGING_DECAY_PER_CYCLE = 0.01;
+/**
+ * Output profile per module type — units of each resource produced per unit
+ * of the module's computed output. LUNAR is always 1 so the headline number
+ * stays comparable; raw materials are a fraction of it and feed the market's
+ * supply side (calculateSupply reads ProductionLog per resource).
+ */
+export const MODULE_RESOURCE_PROFILES: Record<ModuleType, ResourceAmounts> = {
+  SOLAR_PANEL: { LUNAR: 1 },
+  MINING_RIG: { LUNAR: 1, REGOLITH: 0.5, HELIUM3: 0.01, RARE_EARTH: 0.005 },
+  HABITAT: { LUNAR: 1 },
+  RESEARCH_LAB: { LUNAR: 1, RARE_EARTH: 0.01 },
+  WATER_EXTRACTOR: { LUNAR: 1, WATER_ICE: 0.5 },
+  OXYGEN_GENERATOR: { LUNAR: 1 },
+  STORAGE_DEPOT: { LUNAR: 1 },
+  LAUNCH_PAD: { LUNAR: 1, HELIUM3: 0.02 },
+};
+
+/**
+ * Upkeep per module type — units of each input drawn per module level each
+ * cycle. A module short on any input is throttled to the share it can cover;
+ * with none available at all it goes inactive (starvedAt set) until the
+ * stockpile covers a full cycle again — see reactivateStarvedModules.
+ */
+export const MODULE_UPKEEP: Record<ModuleType, ResourceAmounts> = {
+  SOLAR_PANEL: {},
+  MINING_RIG: {},
+  HABITAT: { WATER_ICE: 2 },
+  RESEARCH_LAB: { REGOLITH: 2, RARE_EARTH: 0.02 },
+  WATER_EXTRACTOR: {},
+  OXYGEN_GENERATOR: { WATER_ICE: 3 },
+  STORAGE_DEPOT: {},
+  LAUNCH_PAD: { HELIUM3: 1.5 },
+};
+
+/** The cron credits — and charges upkeep for — one cycle per UTC day. */
+export const PRODUCTION_CYCLE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Diminishing-returns curve, read from live GameConfig:
+ *   diminishing_returns_start — cycle threshold before aging kicks in
+ *   diminishing_returns_rate  — % efficiency lost per cycle beyond it
+ *   min_efficiency            — floor % the decay never goes below
+ */
+interface AgingConfig {
+  thresholdCycles: number;
+  decayPerCycle: number;
+  minMultiplier: number;
+}
+
+function agingFromConfig(config: GameConfigValues): AgingConfig {
+  return {
+    thresholdCycles: config.diminishing_returns_start,
+    decayPerCycle: config.diminishing_returns_rate / 100,
+    minMultiplier: config.min_efficiency / 100,
+  };
+}
 
 // ---------------------------------------------------------------------------
 // 1. Production Calculator — pure function, no DB writes
@@ -136,6 +236,10 @@ export async function calculatePlayerProduction(
       m."baseOutput"          AS "baseOutput",
       m."bonusOutput"         AS "bonusOutput",
       m."ageInCycles"         AS "ageInCycles",
+      c."id"                  AS "crewId",
+      c."role"                AS "crewRole",
+      COALESCE(c."level", 0)  AS "crewLevel",
+      COALESCE(c."xp", 0)     AS "crewXp",
       c."specialty"::text     AS "crewSpecialty",
       COALESCE(c."outputBonus", 0)     AS "crewOutputBonus",
       COALESCE(c."efficiencyBonus", 0) AS "crewEfficiencyBonus"
@@ -149,17 +253,67 @@ export async function calculatePlayerProduction(
       AND m."deletedAt" IS NULL
   `;
 
+  // Current stockpile — upkeep is drawn from here
+  const stock = await prisma.playerResource.findMany({
+    where: { playerId },
+    select: { type: true, amount: true },
+  });
+
+  const config = await loadGameConfig();
+  const aging = agingFromConfig(config);
+  const results = rows.map((row) =>
+    calculateModuleOutput(row, aging, config.crew_specialty_bonus, eventMods),
+  );
+  const supplyRatios = calculateSupplyRatios(rows, results, stock);
+
   let totalLunar = 0;
   let totalEfficiency = 0;
+  const rawTotals: ResourceAmounts = {};
+  const consumedTotals: ResourceAmounts = {};
   const moduleResults: ModuleResult[] = [];
-
-  for (const row of rows) {
-    const result = calculateModuleOutput(row, eventMods);
+  const crewProgress: CrewProgress[] = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i]!;
+    const result = applyUpkeep(row, results[i]!, supplyRatios);
+    if (row.crewId && !result.starved) {
+      crewProgress.push({
+        crewId: row.crewId,
+        moduleId: row.moduleId,
+        ...calculateCrewProgress(row, config.crew_xp_per_cycle),
+      });
+    }
     totalLunar += result.output;
     totalEfficiency += Number(row.efficiency);
+    for (const [resource, amount] of Object.entries(result.resources)) {
+      if (resource === "LUNAR") continue;
+      const key = resource as ResourceType;
+      rawTotals[key] = (rawTotals[key] ?? 0) + amount;
+    }
+    for (const [resource, amount] of Object.entries(result.consumed)) {
+      const key = resource as ResourceType;
+      consumedTotals[key] = (consumedTotals[key] ?? 0) + amount;
+    }
     moduleResults.push(result);
   }
 
+  const totalResources: ResourceAmounts = {};
+  if (Math.floor(totalLunar) > 0) totalResources.LUNAR = Math.floor(totalLunar);
+  for (const [resource, amount] of Object.entries(rawTotals)) {
+    const rounded = Math.round(amount * 10_000) / 10_000;
+    if (rounded > 0) totalResources[resource as ResourceType] = rounded;
+  }
+
+  // Never draw more than the stockpile plus this cycle's output
+  const totalConsumed: ResourceAmounts = {};
+  for (const [resource, amount] of Object.entries(consumedTotals)) {
+    const key = resource as ResourceType;
+    const held = stock.find((r) => r.type === key);
+    const cap = Number(held?.amount ?? 0) + (totalResources[key] ?? 0);
+    const drawn = Math.floor(Math.min(amount, cap) * 10_000) / 10_000;
+    if (drawn > 0) totalConsumed[key] = drawn;
+  }
+
   const activeModules = rows.length;
   const avgEfficiency =
     activeModules > 0
@@ -169,7 +323,10 @@ export async function calculatePlayerProduction(
   return {
     playerId,
     totalLunar: Math.floor(totalLunar),
+    totalResources,
+    totalConsumed,
     moduleResults,
+    crewProgress,
     activeModules,
     avgEfficiency,
   };
@@ -177,14 +334,18 @@ export async function calculatePlayerProduction(
 
 /**
  * Pure calculation for a single module's output.
+ * `specialtyBonusPct` is the live `crew_specialty_bonus` config value.
  * Takes optional event modifiers to apply bonuses/penalties.
  */
 function calculateModuleOutput(
   row: ModuleProductionRow,
+  aging: AgingConfig,
+  specialtyBonusPct: number,
   eventMods?: ModifierSet,
 ): ModuleResult {
   const tier = row.tier as Tier;
   const moduleType = row.moduleType as ModuleType;
+  const perk = getPerkEffects(row.crewRole, Number(row.crewLevel));
 
   // Base output from blueprint (type × tier × level)
   const blueprintBase =
@@ -195,7 +356,8 @@ function calculateModuleOutput(
   const efficiencyMult =
     Math.max(0, Math.min(100, Number(row.efficiency))) / 100;
 
-  // Crew bonus — specialty match gives full bonus, otherwise half
+  // Crew bonus — specialty match gives the full bonus; off-specialty crew
+  // lose the crew_specialty_bonus share of it
   let crewBonus = 0;
   if (row.crewOutputBonus > 0) {
     const specialtyMatch = row.crewSpecialty === moduleType;
@@ -207,18 +369,19 @@ function calculateModuleOutput(
       // Specialty crew also boosts effective efficiency
       base *= 1 + effBoostPct;
     } else {
-      // Non-specialty crew gives half their output bonus
-      crewBonus = base * (bonusPct * 0.5);
+      crewBonus = base * bonusPct * (1 - specialtyBonusPct / 100);
     }
   }
 
   // Aging / diminishing returns
   let agingPenalty = 0;
   const age = row.ageInCycles;
-  if (age > AGING_THRESHOLD_CYCLES) {
+  const threshold = aging.thresholdCycles * (perk.agingThresholdMult ?? 1);
+  const decayPerCycle = aging.decayPerCycle * (perk.agingDecayMult ?? 1);
+  if (age > threshold) {
     const decayFactor = Math.max(
-      AGING_MIN_MULTIPLIER,
-      1 - (age - AGING_THRESHOLD_CYCLES) * AGING_DECAY_PER_CYCLE,
+      aging.minMultiplier,
+      1 - (age - threshold) * decayPerCycle,
     );
     agingPenalty = (base + crewBonus) * (1 - decayFactor);
   }
@@ -234,37 +397,209 @@ function calculateModuleOutput(
     eventMultiplier *= getModifier(eventMods, "GLOBAL_PRODUCTION");
     eventMultiplier *= getModifier(eventMods, `${moduleType}_OUTPUT`);
   }
-  const finalOutput = output * eventMultiplier;
+  const finalOutput = output * eventMultiplier * (perk.outputMult ?? 1);
+
+  // Split into per-resource outputs; raw materials also take their
+  // resource-specific event bonus (e.g. METEOR_SHOWER → RARE_EARTH_BONUS)
+  const resources: ResourceAmounts = {};
+  const profile = MODULE_RESOURCE_PROFILES[moduleType] ?? { LUNAR: 1 };
+  for (const [resource, ratio] of Object.entries(profile)) {
+    let amount = finalOutput * ratio;
+    if (resource !== "LUNAR") {
+      if (eventMods) amount *= getModifier(eventMods, `${resource}_BONUS`);
+      amount *= perk.rawOutputMult ?? 1;
+    }
+    if (amount > 0) resources[resource as ResourceType] = amount;
+  }
 
   return {
     moduleId: row.moduleId,
     output: finalOutput,
+    resources,
+    consumed: {},
+    starved: false,
     breakdown: {
       base,
       crewBonus,
       agingPenalty,
       efficiencyMult,
+      supplyMult: 1,
     },
   };
 }
 
+/**
+ * XP and level-ups for the crew member assigned to a module that ran this
+ * cycle. Perks (e.g. Quick Study) scale the base `crew_xp_per_cycle`.
+ */
+function calculateCrewProgress(
+  row: ModuleProductionRow,
+  xpPerCycle: number,
+): CrewLevelUp {
+  const level = Number(row.crewLevel);
+  const xpMult = getPerkEffects(row.crewRole, level).xpMult ?? 1;
+  return applyCrewXp(
+    {
+      xp: Number(row.crewXp),
+      level,
+      outputBonus: Number(row.crewOutputBonus),
+      efficiencyBonus: Number(row.crewEfficiencyBonus),
+    },
+    xpPerCycle * xpMult,
+  );
+}
+
+/**
+ * Share of each upkeep input's total demand that can be covered (0–1).
+ *
+ * Available = stockpile + this cycle's output from modules that don't
+ * consume the resource themselves, so a module can never bootstrap its
+ * own inputs but a WATER_EXTRACTOR can keep a HABITAT running.
+ */
+function calculateSupplyRatios(
+  rows: ModuleProductionRow[],
+  results: ModuleResult[],
+  stock: Array<{ type: string; amount: unknown }>,
+): ResourceAmounts {
+  const demand: ResourceAmounts = {};
+  for (const row of rows) {
+    const upkeep = MODULE_UPKEEP[row.moduleType] ?? {};
+    for (const [resource, perLevel] of Object.entries(upkeep)) {
+      const key = resource as ResourceType;
+      demand[key] = (demand[key] ?? 0) + perLevel * row.level;
+    }
+  }
+
+  const ratios: ResourceAmounts = {};
+  for (const [resource, needed] of Object.entries(demand)) {
+    const key = resource as ResourceType;
+    let available = Number(stock.find((r) => r.type === key)?.amount ?? 0);
+    for (let i = 0; i < rows.length; i++) {
+      const upkeep = MODULE_UPKEEP[rows[i]!.moduleType] ?? {};
+      if (upkeep[key] != null) continue;
+      available += results[i]!.resources[key] ?? 0;
+    }
+    ratios[key] = needed > 0 ? Math.min(1, available / needed) : 1;
+  }
+  return ratios;
+}
+
+/**
+ * Throttle a module's output by its scarcest upkeep input and record what
+ * it drew. A module whose inputs are fully dry produces nothing and is
+ * flagged as starved.
+ */
+function applyUpkeep(
+  row: ModuleProductionRow,
+  result: ModuleResult,
+  supplyRatios: ResourceAmounts,
+): ModuleResult {
+  const upkeep = MODULE_UPKEEP[row.moduleType] ?? {};
+  const inputs = Object.keys(upkeep) as ResourceType[];
+  if (inputs.length === 0) return result;
+
+  const supplyMult = Math.min(...inputs.map((r) => supplyRatios[r] ?? 1));
+
+  const resources: ResourceAmounts = {};
+  for (const [resource, amount] of Object.entries(result.resources)) {
+    const scaled = amount * supplyMult;
+    if (scaled > 0) resources[resource as ResourceType] = scaled;
+  }
+
+  const consumed: ResourceAmounts = {};
+  for (const resource of inputs) {
+    const drawn = (upkeep[resource] ?? 0) * row.level * supplyMult;
+    if (drawn > 0) consumed[resource] = drawn;
+  }
+
+  return {
+    ...result,
+    output: result.output * supplyMult,
+    resources,
+    consumed,
+    starved: supplyMult <= 0,
+    breakdown: { ...result.breakdown, supplyMult },
+  };
+}
+
+/**
+ * Upkeep for `cycles` worth of production (a fraction of a cycle for a
+ * manual collect), drawn from the stockpile alone. Returns each module's
+ * supply multiplier — same order as `modules`, 0 when its inputs are dry —
+ * and the total drawn per resource.
+ */
+export function planUpkeep(
+  modules: Array<{ type: ModuleType; level: number }>,
+  stock: Array<{ type: string; amount: unknown }>,
+  cycles: number,
+): { supplyMults: number[]; consumed: ResourceAmounts } {
+  const demand: ResourceAmounts = {};
+  for (const m of modules) {
+    const upkeep = MODULE_UPKEEP[m.type] ?? {};
+    for (const [resource, perLevel] of Object.entries(upkeep)) {
+      const key = resource as ResourceType;
+      demand[key] = (demand[key] ?? 0) + perLevel * m.level * cycles;
+    }
+  }
+
+  const ratios: ResourceAmounts = {};
+  for (const [resource, needed] of Object.entries(demand)) {
+    const key = resource as ResourceType;
+    const held = Math.max(
+      0,
+      Number(stock.find((r) => r.type === key)?.amount ?? 0),
+    );
+    ratios[key] = needed > 0 ? Math.min(1, held / needed) : 1;
+  }
+
+  const drawn: ResourceAmounts = {};
+  const supplyMults = modules.map((m) => {
+    const upkeep = MODULE_UPKEEP[m.type] ?? {};
+    const inputs = Object.keys(upkeep) as ResourceType[];
+    if (inputs.length === 0) return 1;
+
+    const supplyMult = Math.min(...inputs.map((r) => ratios[r] ?? 1));
+    for (const resource of inputs) {
+      drawn[resource] =
+        (drawn[resource] ?? 0) +
+        (upkeep[resource] ?? 0) * m.level * cycles * supplyMult;
+    }
+    return supplyMult;
+  });
+
+  const consumed: ResourceAmounts = {};
+  for (const [resource, amount] of Object.entries(drawn)) {
+    const rounded = Math.floor(amount * 10_000) / 10_000;
+    if (rounded > 0) consumed[resource as ResourceType] = rounded;
+  }
+  return { supplyMults, consumed };
+}
+
 // ---------------------------------------------------------------------------
-// 2. Idempotent credit — writes to ProductionLog + Player balance
+// 2. Idempotent credit — writes to ProductionLog + Player balance + resources
 // ---------------------------------------------------------------------------
 
 /**
  * Credit a player's production for a specific date.
  * Returns `true` if credited, `false` if already processed (idempotent).
  *
- * Uses ProductionLog's @@unique([playerId, date, resource]) as the
- * idempotency key — a duplicate insert is caught and safely skipped.
+ * Writes one ProductionLog row per resource produced or consumed. Its
+ * @@unique([playerId, date, resource]) is the idempotency key — a duplicate
+ * insert is caught and the whole credit transaction is rolled back.
  */
 async function creditProduction(
   playerId: string,
   date: Date,
   result: ProductionResult,
 ): Promise<boolean> {
-  if (result.totalLunar <= 0) return false;
+  const touched = [
+    ...new Set([
+      ...Object.keys(result.totalResources),
+      ...Object.keys(result.totalConsumed),
+    ]),
+  ] as ResourceType[];
+  const starved = result.moduleResults.filter((mr) => mr.starved);
+  if (touched.length === 0 && starved.length === 0) return false;
 
   try {
     await prisma.$transaction(async (tx) => {
@@ -273,79 +608,176 @@ async function creditProduction(
         where: { id: playerId },
       });
 
-      // 2. Insert the idempotency record (will throw on duplicate)
-      await tx.productionLog.create({
-        data: {
-          playerId,
-          date,
-          resource: "LUNAR",
-          totalProduced: result.totalLunar,
-          totalCollected: result.totalLunar, // Auto-collected by cron
-          activeModules: result.activeModules,
-          avgEfficiency: result.avgEfficiency,
-        },
-      });
+      // 2. Insert the idempotency records (will throw on duplicate)
+      for (const resource of touched) {
+        const amount = result.totalResources[resource] ?? 0;
+        await tx.productionLog.create({
+          data: {
+            playerId,
+            date,
+            resource,
+            totalProduced: amount,
+            totalCollected: amount, // Auto-collected by cron
+            totalConsumed: result.totalConsumed[resource] ?? 0,
+            activeModules: result.activeModules,
+            avgEfficiency: result.avgEfficiency,
+          },
+        });
+      }
 
-      // 3. Credit the player's balance (optimistic lock prevents race conditions)
+      // 3. Alliance tithe, then credit the player's balance with the rest
+      //    (optimistic lock prevents race conditions)
+      const tithe = await applyAllianceTithe(tx, playerId, result.totalLunar, {
+        date,
+        balanceAfter: Number(player.lunarBalance) + result.totalLunar,
+      });
       await tx.player.update({
         where: { id: playerId, version: player.version },
         data: {
-          lunarBalance: { increment: result.totalLunar },
+          lunarBalance: { increment: result.totalLunar - tithe },
           totalEarnings: { increment: result.totalLunar },
           lastActive: new Date(),
           version: { increment: 1 },
         },
       });
 
-      const balanceAfter =
-        Number(player.lunarBalance) + result.totalLunar;
-
-      // 4. Update LUNAR resource tracker
-      await tx.playerResource.upsert({
-        where: { playerId_type: { playerId, type: "LUNAR" } },
-        create: {
-          playerId,
-          type: "LUNAR",
-          amount: result.totalLunar,
-          totalMined: result.totalLunar,
-        },
-        update: {
-          amount: { increment: result.totalLunar },
-          totalMined: { increment: result.totalLunar },
-        },
-      });
+      const description = `Daily production: ${result.activeModules} modules, avg eff ${result.avgEfficiency}%`;
 
-      // 5. Immutable transaction ledger entry (accurate balanceAfter for auditability)
-      await tx.transaction.create({
-        data: {
-          playerId,
-          type: "PRODUCTION",
-          resource: "LUNAR",
-          amount: result.totalLunar,
-          balanceAfter,
-          description: `Daily production: ${result.activeModules} modules, avg eff ${result.avgEfficiency}%`,
-          metadata: {
-            date: date.toISOString(),
-            moduleResults: result.moduleResults.map((mr) => ({
-              id: mr.moduleId,
-              output: Math.round(mr.output * 100) / 100,
-            })),
+      for (const resource of touched) {
+        const amount = result.totalResources[resource] ?? 0;
+        const upkeep = result.totalConsumed[resource] ?? 0;
+
+        // 4. Update the resource tracker (net of upkeep)
+        const stock = await tx.playerResource.upsert({
+          where: { playerId_type: { playerId, type: resource } },
+          create: {
+            playerId,
+            type: resource,
+            amount: amount - upkeep,
+            totalMined: amount,
           },
-        },
-      });
+          update: {
+            amount: { increment: amount - upkeep },
+            totalMined: { increment: amount },
+          },
+        });
 
-      // 6. Age all active modules
+        // 5. Immutable transaction ledger entries (accurate balanceAfter for auditability)
+        if (amount > 0) {
+          const balanceAfter =
+            resource === "LUNAR"
+              ? Number(player.lunarBalance) + result.totalLunar
+              : Number(stock.amount) + upkeep;
+
+          await tx.transaction.create({
+            data: {
+              playerId,
+              type: "PRODUCTION",
+              resource,
+              amount,
+              balanceAfter,
+              description,
+              metadata: {
+                date: date.toISOString(),
+                moduleResults: result.moduleResults
+                  .filter((mr) => (mr.resources[resource] ?? 0) > 0)
+                  .map((mr) => ({
+                    id: mr.moduleId,
+                    output:
+                      Math.round((mr.resources[resource] ?? 0) * 100) / 100,
+                  })),
+              },
+            },
+          });
+        }
+
+        if (upkeep > 0) {
+          await tx.transaction.create({
+            data: {
+              playerId,
+              type: "UPKEEP",
+              resource,
+              amount: -upkeep,
+              balanceAfter: Number(stock.amount),
+              description: `Module upkeep: ${resource}`,
+              metadata: {
+                date: date.toISOString(),
+                moduleResults: result.moduleResults
+                  .filter((mr) => (mr.consumed[resource] ?? 0) > 0)
+                  .map((mr) => ({
+                    id: mr.moduleId,
+                    consumed:
+                      Math.round((mr.consumed[resource] ?? 0) * 100) / 100,
+                    supplyMult: Math.round(mr.breakdown.supplyMult * 100) / 100,
+                  })),
+              },
+            },
+          });
+        }
+      }
+
+      // 6. Age modules that ran; shut down those whose inputs ran dry
       await Promise.all(
         result.moduleResults.map((mr) =>
           tx.module.update({
             where: { id: mr.moduleId },
+            data: mr.starved
+              ? { isActive: false, starvedAt: new Date() }
+              : {
+                  lastCollectedAt: new Date(),
+                  ageInCycles: { increment: 1 },
+                },
+          }),
+        ),
+      );
+
+      // 7. Crew on modules that ran earn XP (and maybe level up)
+      await Promise.all(
+        result.crewProgress.map((cp) =>
+          tx.crewMember.update({
+            where: { id: cp.crewId },
             data: {
-              lastCollectedAt: new Date(),
-              ageInCycles: { increment: 1 },
+              xp: cp.xp,
+              level: cp.level,
+              outputBonus: cp.outputBonus,
+              efficiencyBonus: cp.efficiencyBonus,
             },
           }),
         ),
       );
+
+      const levelUps = result.crewProgress.filter((cp) => cp.levelsGained > 0);
+      if (levelUps.length > 0) {
+        await tx.gameEvent.create({
+          data: {
+            playerId,
+            type: "crew_level_up",
+            severity: "INFO",
+            data: {
+              date: date.toISOString(),
+              crew: levelUps.map((cp) => ({
+                id: cp.crewId,
+                moduleId: cp.moduleId,
+                level: cp.level,
+              })),
+            },
+          },
+        });
+      }
+
+      if (starved.length > 0) {
+        await tx.gameEvent.create({
+          data: {
+            playerId,
+            type: "modules_starved",
+            severity: "WARNING",
+            data: {
+              date: date.toISOString(),
+              moduleIds: starved.map((mr) => mr.moduleId),
+            },
+          },
+        });
+      }
     });
 
     return true;
@@ -358,16 +790,69 @@ async function creditProduction(
   }
 }
 
-function isPrismaUniqueViolation(error: unknown): boolean {
-  if (
-    typeof error === "object" &&
-    error !== null &&
-    "code" in error &&
-    (error as { code: string }).code === "P2002"
-  ) {
-    return true;
+/**
+ * Bring starved modules back online once the stockpile covers a full cycle
+ * of their upkeep. Longest-starved first, each reserving its share of the
+ * stock, so a partial restock revives what it can pay for.
+ * Returns the number of modules reactivated.
+ */
+export async function reactivateStarvedModules(
+  playerId: string,
+): Promise<number> {
+  const starved = await prisma.module.findMany({
+    where: {
+      playerId,
+      isActive: false,
+      deletedAt: null,
+      starvedAt: { not: null },
+    },
+    select: { id: true, type: true, level: true },
+    orderBy: { starvedAt: "asc" },
+  });
+  if (starved.length === 0) return 0;
+
+  const stock = await prisma.playerResource.findMany({
+    where: { playerId },
+    select: { type: true, amount: true },
+  });
+  const available: ResourceAmounts = {};
+  for (const r of stock) available[r.type as ResourceType] = Number(r.amount);
+
+  const restored: string[] = [];
+  for (const m of starved) {
+    const upkeep = Object.entries(MODULE_UPKEEP[m.type] ?? {}).map(
+      ([resource, perLevel]) =>
+        [resource as ResourceType, perLevel * m.level] as const,
+    );
+    if (
+      upkeep.some(([resource, needed]) => (available[resource] ?? 0) < needed)
+    ) {
+      continue;
+    }
+    for (const [resource, needed] of upkeep) {
+      available[resource] = (available[resource] ?? 0) - needed;
+    }
+    restored.push(m.id);
   }
-  return false;
+  if (restored.length === 0) return 0;
+
+  await prisma.$transaction([
+    // Earnings restart from now — nothing accrues for the starved stretch
+    prisma.module.updateMany({
+      where: { id: { in: restored }, isActive: false },
+      data: { isActive: true, starvedAt: null, lastCollectedAt: new Date() },
+    }),
+    prisma.gameEvent.create({
+      data: {
+        playerId,
+        type: "modules_restored",
+        severity: "INFO",
+        data: { moduleIds: restored },
+      },
+    }),
+  ]);
+
+  return restored.length;
 }
 
 // ---------------------------------------------------------------------------
@@ -404,6 +889,7 @@ export async function processProductionCycle(options?: {
     skipped: 0,
     failed: 0,
     totalLunarProduced: 0,
+    totalResourcesProduced: {},
     durationMs: 0,
     errors: [],
   };
@@ -420,7 +906,13 @@ export async function processProductionCycle(options?: {
       where: {
         deletedAt: null,
         lastActive: { gte: sevenDaysAgo },
-        modules: { some: { isActive: true, deletedAt: null } },
+        // Starved modules too, so a restocked colony comes back online
+        modules: {
+          some: {
+            deletedAt: null,
+            OR: [{ isActive: true }, { starvedAt: { not: null } }],
+          },
+        },
         ...(cursor ? { id: { gt: cursor } } : {}),
       },
       select: { id: true },
@@ -448,7 +940,14 @@ export async function processProductionCycle(options?: {
           result.skipped++;
         } else {
           result.processed++;
-          result.totalLunarProduced += outcome.value;
+          result.totalLunarProduced += outcome.value.LUNAR ?? 0;
+          for (const [resource, amount] of Object.entries(outcome.value)) {
+            const key = resource as ResourceType;
+            result.totalResourcesProduced[key] =
+              Math.round(
+                ((result.totalResourcesProduced[key] ?? 0) + amount) * 10_000,
+              ) / 10_000;
+          }
         }
       } else {
         result.failed++;
@@ -480,6 +979,7 @@ export async function processProductionCycle(options?: {
           skipped: result.skipped,
           failed: result.failed,
           totalLunarProduced: result.totalLunarProduced,
+          totalResourcesProduced: result.totalResourcesProduced,
           durationMs: result.durationMs,
           errorSample: result.errors.slice(0, 10),
         },
@@ -516,16 +1016,20 @@ export async function processProductionCycle(options?: {
 }
 
 /**
- * Process a single player: calculate → credit (idempotent).
- * Returns the amount credited, or null if skipped.
+ * Process a single player: reactivate → calculate → credit (idempotent).
+ * Returns the per-resource amounts credited, or null if skipped.
  */
 async function processSinglePlayer(
   playerId: string,
   date: Date,
-): Promise<number | null> {
+): Promise<ResourceAmounts | null> {
+  await reactivateStarvedModules(playerId);
   const production = await calculatePlayerProduction(playerId);
 
-  if (production.totalLunar <= 0) return null;
+  const starved = production.moduleResults.some((mr) => mr.starved);
+  if (Object.keys(production.totalResources).length === 0 && !starved) {
+    return null;
+  }
 
   const credited = await creditProduction(playerId, date, production);
   if (!credited) return null;
@@ -539,7 +1043,12 @@ async function processSinglePlayer(
     // Non-critical — don't fail production for event tracking
   });
 
-  return production.totalLunar;
+  // Event mechanics (meteor damage, debris drops) roll once per credited tick
+  await applyTickMechanics(playerId, date).catch((error) => {
+    GameMetrics.trackError(error, { context: "tick_mechanics", playerId });
+  });
+
+  return production.totalResources;
 }
 
 // ---------------------------------------------------------------------------
@@ -580,6 +1089,7 @@ function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
 export const productionEngine = {
   calculatePlayerProduction,
   processProductionCycle,
+  reactivateStarvedModules,
 };
 
 export default productionEngine;
@@ -0,0 +1,91 @@
+/**
+ * Referral link parameters.
+ *
+ * Referral links (/r/[code]) and share embeds (/share/[id]) open the
+ * dashboard with `?ref=<code or fid>` and, for shares, `&share=<id>`.
+ * The player isn't signed in yet at that point, so middleware.ts keeps
+ * the parameters in a first-touch cookie:
+ *
+ *   lc_ref = <ref> + ":" + <share>
+ *
+ * and GET /api/dashboard/[fid] attributes the new player from it once
+ * they sign in (see referrals.ts), then clears it. Frame links carry the
+ * same parameters on the /api/frames post target instead.
+ *
+ * No database or Node APIs, so the same code runs in middleware.
+ */
+
+import type { NextResponse } from "next/server";
+
+export const REFERRAL_COOKIE = "lc_ref";
+
+/** Unclaimed referral cookies expire after a week. */
+export const REFERRAL_COOKIE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface ReferralParams {
+  /** Referral code or the referrer's FID */
+  ref: string;
+  /** ShareSnapshot id when the player arrived through a share embed */
+  share?: string;
+}
+
+const REF_PATTERN = /^[A-Za-z0-9]{1,16}$/;
+const SHARE_PATTERN = /^[A-Za-z0-9_-]{1,16}$/;
+
+function validParams(
+  ref: string | null | undefined,
+  share: string | null | undefined,
+): ReferralParams | null {
+  if (!ref || !REF_PATTERN.test(ref)) return null;
+  return share && SHARE_PATTERN.test(share) ? { ref, share } : { ref };
+}
+
+/** Referral params from a URL's query, or null when absent or malformed. */
+export function readReferralParams(
+  searchParams: URLSearchParams,
+): ReferralParams | null {
+  return validParams(searchParams.get("ref"), searchParams.get("share"));
+}
+
+/** Query string carrying `params`, for frame post targets and launch URLs. */
+export function referralQuery(params: ReferralParams): string {
+  const query = new URLSearchParams({ ref: params.ref });
+  if (params.share) query.set("share", params.share);
+  return query.toString();
+}
+
+// ---------------------------------------------------------------------------
+// Cookie
+// ---------------------------------------------------------------------------
+
+export function encodeReferralCookie(params: ReferralParams): string {
+  return params.share ? `${params.ref}:${params.share}` : params.ref;
+}
+
+export function decodeReferralCookie(
+  value: string | null | undefined,
+): ReferralParams | null {
+  if (!value) return null;
+  const [ref, share] = value.split(":");
+  return validParams(ref, share);
+}
+
+/** Remember referral params on a response. */
+export function setReferralCookie(
+  res: NextResponse,
+  params: ReferralParams,
+): void {
+  res.cookies.set(REFERRAL_COOKIE, encodeReferralCookie(params), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    // The dashboard runs inside Farcaster clients' webviews (cross-site)
+    sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
+    path: "/",
+    maxAge: REFERRAL_COOKIE_TTL_SECONDS,
+  });
+}
+
+/** Expire the referral cookie once it has been used. */
+export function clearReferralCookie(res: NextResponse): void {
+  res.cookies.set(REFERRAL_COOKIE, "", { path: "/", maxAge: 0 });
+}
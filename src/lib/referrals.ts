@@ -0,0 +1,576 @@
+/**
+ * Referral program.
+ *
+ * Every player can hand out a referral code (/r/[code]); share embeds
+ * attribute to the sharer too (share.ts). When a new FID first loads the
+ * Frame or the dashboard through one, getOrCreatePlayer records a
+ * Referral row linking them to the referrer. Existing players are never
+ * re-attributed, and nobody can refer themselves.
+ *
+ * Rewards are tiered on the referee's level (REFERRAL_TIERS). The cron
+ * sweep pays each tier once the referee reaches it, after anti-abuse
+ * checks on the referee's Farcaster account via Neynar:
+ *
+ *   - at least referral_min_followers followers
+ *   - an FID registered at least referral_min_account_age_days ago
+ *
+ * A referral that fails is held and rechecked a day later (accounts age
+ * and gain followers). A referrer earns at most referral_daily_reward_limit
+ * tier rewards per UTC day; the rest wait for the next sweep. Each tier is
+ * claimed with a compare-and-set on Referral.tier, so overlapping sweeps
+ * can't pay twice.
+ *
+ * Entry points:
+ *   - resolveReferral()          — Frame / dashboard: arrival for a new FID
+ *   - getReferralCode()          — a player's code, issued on first use
+ *   - getReferralSummary()       — dashboard Referrals section
+ *   - getReferrerByCode()        — /r/[code] landing page
+ *   - processReferralMilestones() — cron: verify referees, pay tiers
+ */
+
+import { randomInt } from "node:crypto";
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/database";
+import { loadGameConfig } from "@/lib/game-config";
+import { grantCrewMember, type PlayerArrival } from "@/lib/game-engine";
+import {
+  getUserByFid,
+  NeynarError,
+  type FarcasterUser,
+} from "@/lib/api-clients/neynar";
+import { GameMetrics } from "@/lib/metrics";
+import { referralQuery, type ReferralParams } from "@/lib/referral-link";
+import {
+  absoluteUrl,
+  isPrismaUniqueViolation,
+  startOfUtcDay,
+} from "@/lib/utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ReferralTier {
+  /** Referee level that unlocks the tier */
+  level: number;
+  /** $LUNAR paid to the referrer */
+  referrerLunar: number;
+  /** $LUNAR paid to the referee */
+  refereeLunar: number;
+  /** The referrer gets a free crew member (crew_hire_cost $LUNAR if full) */
+  referrerCrew: boolean;
+}
+
+export type ReferralStatus = "pending" | "held" | "verified";
+
+export interface ReferralSummary {
+  code: string;
+  /** Shareable Mini App link */
+  link: string;
+  /** Frame URL for casts */
+  frameLink: string;
+  tiers: ReferralTier[];
+  referrals: {
+    fid: number;
+    username: string | null;
+    level: number;
+    source: string;
+    channel: string;
+    status: ReferralStatus;
+    holdReason: string | null;
+    /** Tiers paid so far */
+    tier: number;
+    joinedAt: string;
+  }[];
+  totals: {
+    referred: number;
+    verified: number;
+    /** $LUNAR received from REFERRAL_REWARD transactions */
+    lunarEarned: number;
+  };
+}
+
+export interface ReferralSweepResult {
+  checked: number;
+  verified: number;
+  held: number;
+  rewarded: number;
+  capped: number;
+  lunarPaid: number;
+  crewGranted: number;
+  /** Neynar failed, so the sweep stopped early */
+  neynarUnavailable: boolean;
+}
+
+type PlayerWithCode = { id: string; referralCode: string | null };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const REFERRAL_TIERS: ReferralTier[] = [
+  { level: 3, referrerLunar: 500, refereeLunar: 250, referrerCrew: false },
+  { level: 5, referrerLunar: 0, refereeLunar: 0, referrerCrew: true },
+  { level: 10, referrerLunar: 2000, refereeLunar: 0, referrerCrew: false },
+];
+
+/** Held referrals are rechecked against Neynar after this long */
+export const REFERRAL_RECHECK_MS = 24 * 60 * 60 * 1000;
+
+/** No 0/O or 1/I, so codes survive being read aloud */
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+const CODE_ATTEMPTS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function newReferralCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  // All-digit refs are read as FIDs
+  return /^\d+$/.test(code) ? newReferralCode() : code;
+}
+
+// ---------------------------------------------------------------------------
+// 1. Attribution
+// ---------------------------------------------------------------------------
+
+/**
+ * Who referred `fid`, if they are new. A share embed attributes to the
+ * sharer; otherwise `ref` is a referral code or the referrer's FID.
+ * Returns null for existing players, self-referrals, unknown or
+ * suspended referrers.
+ */
+export async function resolveReferral(
+  params: ReferralParams,
+  fid: number,
+  channel: PlayerArrival["channel"],
+): Promise<PlayerArrival | null> {
+  const existing = await prisma.player.findUnique({
+    where: { fid },
+    select: { id: true },
+  });
+  if (existing) return null;
+
+  const select = { id: true, fid: true, deletedAt: true };
+  let referrer: { id: string; fid: number; deletedAt: Date | null } | null =
+    null;
+  let shareId: string | undefined;
+
+  if (params.share) {
+    const snapshot = await prisma.shareSnapshot.findUnique({
+      where: { id: params.share },
+      select: { id: true, player: { select } },
+    });
+    if (snapshot) {
+      referrer = snapshot.player;
+      shareId = snapshot.id;
+    }
+  }
+  if (!referrer) {
+    referrer = await prisma.player.findUnique({
+      where: /^\d+$/.test(params.ref)
+        ? { fid: Number(params.ref) }
+        : { referralCode: params.ref.toUpperCase() },
+      select,
+    });
+  }
+
+  if (!referrer || referrer.deletedAt || referrer.fid === fid) return null;
+
+  return shareId
+    ? { referrerId: referrer.id, source: "share", channel, shareId }
+    : { referrerId: referrer.id, source: "link", channel };
+}
+
+/** Where a referral link's launch button opens. */
+export function referralLaunchUrl(code: string): string {
+  return absoluteUrl(`/dashboard?${referralQuery({ ref: code })}`);
+}
+
+/** The active player behind a referral code, for the /r/[code] page. */
+export async function getReferrerByCode(
+  code: string,
+): Promise<{ fid: number; username: string | null } | null> {
+  const referrer = await prisma.player.findUnique({
+    where: { referralCode: code.toUpperCase() },
+    select: { fid: true, username: true, deletedAt: true },
+  });
+  if (!referrer || referrer.deletedAt) return null;
+  return { fid: referrer.fid, username: referrer.username };
+}
+
+// ---------------------------------------------------------------------------
+// 2. Codes & summary
+// ---------------------------------------------------------------------------
+
+/** The player's referral code, issuing one on first use. */
+export async function getReferralCode(player: PlayerWithCode): Promise<string> {
+  if (player.referralCode) return player.referralCode;
+
+  for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt++) {
+    try {
+      // Only fills an empty code, so concurrent first visits agree
+      await prisma.player.updateMany({
+        where: { id: player.id, referralCode: null },
+        data: { referralCode: newReferralCode() },
+      });
+    } catch (error) {
+      // Another player already holds this code — roll again
+      if (isPrismaUniqueViolation(error)) continue;
+      throw error;
+    }
+    const issued = await prisma.player.findUnique({
+      where: { id: player.id },
+      select: { referralCode: true },
+    });
+    if (issued?.referralCode) return issued.referralCode;
+  }
+
+  throw new Error("Could not issue a referral code");
+}
+
+function referralStatus(referral: {
+  verifiedAt: Date | null;
+  holdReason: string | null;
+}): ReferralStatus {
+  if (referral.verifiedAt) return "verified";
+  return referral.holdReason ? "held" : "pending";
+}
+
+export async function getReferralSummary(
+  player: PlayerWithCode,
+): Promise<ReferralSummary> {
+  const code = await getReferralCode(player);
+
+  const [referrals, earned] = await Promise.all([
+    prisma.referral.findMany({
+      where: { referrerId: player.id },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+      include: {
+        referee: { select: { fid: true, username: true, level: true } },
+      },
+    }),
+    prisma.transaction.aggregate({
+      where: { playerId: player.id, type: "REFERRAL_REWARD" },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const rows = referrals.map((r) => ({
+    fid: r.referee.fid,
+    username: r.referee.username,
+    level: r.referee.level,
+    source: r.source,
+    channel: r.channel,
+    status: referralStatus(r),
+    holdReason: r.holdReason,
+    tier: r.tier,
+    joinedAt: r.createdAt.toISOString(),
+  }));
+
+  return {
+    code,
+    link: absoluteUrl(`/r/${code}`),
+    frameLink: absoluteUrl(`/api/frames?ref=${code}`),
+    tiers: REFERRAL_TIERS,
+    referrals: rows,
+    totals: {
+      referred: rows.length,
+      verified: rows.filter((r) => r.status === "verified").length,
+      lunarEarned: Number(earned._sum.amount ?? 0),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 3. Anti-abuse checks
+// ---------------------------------------------------------------------------
+
+/**
+ * Why the referee's Farcaster account doesn't qualify yet, or null when
+ * it does. Throws when Neynar is unavailable (transport errors, 429 and
+ * 5xx); any other rejection of the lookup is a hold reason for this
+ * referee alone.
+ */
+async function checkReferee(
+  fid: number,
+  rules: { minFollowers: number; minAgeDays: number },
+  now: Date,
+): Promise<string | null> {
+  let user: FarcasterUser;
+  try {
+    user = await getUserByFid(fid);
+  } catch (error) {
+    if (
+      !(error instanceof NeynarError) ||
+      error.status === 429 ||
+      error.status >= 500
+    ) {
+      throw error;
+    }
+    return error.status === 404
+      ? "Farcaster account not found"
+      : `Farcaster lookup rejected (${error.status})`;
+  }
+
+  if (user.follower_count < rules.minFollowers) {
+    return `Needs ${rules.minFollowers} followers (has ${user.follower_count})`;
+  }
+  const registeredAt = Date.parse(user.registered_at);
+  const ageDays = Number.isNaN(registeredAt)
+    ? 0
+    : (now.getTime() - registeredAt) / DAY_MS;
+  if (ageDays < rules.minAgeDays) {
+    return `Account must be ${rules.minAgeDays} days old`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// 4. Milestone rewards
+// ---------------------------------------------------------------------------
+
+async function creditReferralLunar(
+  tx: Prisma.TransactionClient,
+  playerId: string,
+  amount: number,
+  description: string,
+  metadata: Prisma.InputJsonObject,
+): Promise<void> {
+  const updated = await tx.player.update({
+    where: { id: playerId },
+    data: {
+      lunarBalance: { increment: amount },
+      totalEarnings: { increment: amount },
+      version: { increment: 1 },
+    },
+    select: { lunarBalance: true },
+  });
+  await tx.transaction.create({
+    data: {
+      playerId,
+      type: "REFERRAL_REWARD",
+      resource: "LUNAR",
+      amount,
+      balanceAfter: Number(updated.lunarBalance),
+      description,
+      metadata,
+    },
+  });
+}
+
+/**
+ * Pay tier `index` of a referral. Returns false when another sweep
+ * already claimed it.
+ */
+async function claimTier(
+  referral: {
+    id: string;
+    referrerId: string;
+    refereeId: string;
+    referee: { fid: number };
+  },
+  index: number,
+  crewHireCost: number,
+): Promise<{ claimed: boolean; lunar: number; crew: boolean }> {
+  const tier = REFERRAL_TIERS[index]!;
+  const metadata = {
+    referralId: referral.id,
+    tier: index + 1,
+    level: tier.level,
+    refereeFid: referral.referee.fid,
+  };
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    const claim = await tx.referral.updateMany({
+      where: { id: referral.id, tier: index },
+      data: { tier: index + 1 },
+    });
+    if (claim.count === 0) return false;
+
+    if (tier.referrerLunar > 0) {
+      await creditReferralLunar(
+        tx,
+        referral.referrerId,
+        tier.referrerLunar,
+        `Referral reward: FID ${referral.referee.fid} reached level ${tier.level}`,
+        { ...metadata, role: "referrer" },
+      );
+    }
+    if (tier.refereeLunar > 0) {
+      await creditReferralLunar(
+        tx,
+        referral.refereeId,
+        tier.refereeLunar,
+        `Referral bonus: reached level ${tier.level}`,
+        { ...metadata, role: "referee" },
+      );
+    }
+    await tx.gameEvent.create({
+      data: {
+        playerId: referral.referrerId,
+        type: "referral_reward",
+        data: {
+          ...metadata,
+          referrerLunar: tier.referrerLunar,
+          refereeLunar: tier.refereeLunar,
+          referrerCrew: tier.referrerCrew,
+        },
+      },
+    });
+    return true;
+  });
+  if (!claimed) return { claimed: false, lunar: 0, crew: false };
+
+  let lunar = tier.referrerLunar + tier.refereeLunar;
+  let crew = false;
+  if (tier.referrerCrew) {
+    // After the claim: a crash here loses the crew member, never doubles it
+    crew = (await grantCrewMember(referral.referrerId, "referral")) !== null;
+    if (!crew) {
+      await prisma.$transaction((tx) =>
+        creditReferralLunar(
+          tx,
+          referral.referrerId,
+          crewHireCost,
+          `Referral reward: FID ${referral.referee.fid} reached level ${tier.level} (crew full)`,
+          { ...metadata, role: "referrer", crewFull: true },
+        ),
+      );
+      lunar += crewHireCost;
+    }
+  }
+  return { claimed: true, lunar, crew };
+}
+
+/**
+ * Verify referees that reached an unpaid tier and pay what they've
+ * earned. Verified referrals skip the Neynar checks; held ones are
+ * rechecked every REFERRAL_RECHECK_MS. Stops at the first Neynar outage
+ * so it doesn't put every referral on hold; an unknown referee is held.
+ */
+export async function processReferralMilestones(
+  opts: { batchSize?: number; now?: Date } = {},
+): Promise<ReferralSweepResult> {
+  const { batchSize = 50, now = new Date() } = opts;
+  const result: ReferralSweepResult = {
+    checked: 0,
+    verified: 0,
+    held: 0,
+    rewarded: 0,
+    capped: 0,
+    lunarPaid: 0,
+    crewGranted: 0,
+    neynarUnavailable: false,
+  };
+
+  const config = await loadGameConfig();
+  const rules = {
+    minFollowers: config.referral_min_followers,
+    minAgeDays: config.referral_min_account_age_days,
+  };
+
+  // Rewards each referrer has had today. Those already at the cap are left
+  // out of the batch, so their backlog can't crowd out everyone else's.
+  const today = startOfUtcDay(now);
+  const rewardCounts = await prisma.gameEvent.groupBy({
+    by: ["playerId"],
+    where: {
+      type: "referral_reward",
+      playerId: { not: null },
+      createdAt: { gte: today },
+    },
+    _count: { _all: true },
+  });
+  const paidToday = new Map<string, number>();
+  for (const row of rewardCounts) {
+    if (row.playerId) paidToday.set(row.playerId, row._count._all);
+  }
+  const cappedReferrers = [...paidToday]
+    .filter(([, paid]) => paid >= config.referral_daily_reward_limit)
+    .map(([playerId]) => playerId);
+
+  const due = await prisma.referral.findMany({
+    where: {
+      OR: REFERRAL_TIERS.map((t, i) => ({
+        tier: i,
+        referee: { level: { gte: t.level }, deletedAt: null },
+      })),
+      AND: [
+        {
+          OR: [
+            { verifiedAt: { not: null } },
+            { checkedAt: null },
+            {
+              checkedAt: { lt: new Date(now.getTime() - REFERRAL_RECHECK_MS) },
+            },
+          ],
+        },
+      ],
+      referrer: { deletedAt: null },
+      ...(cappedReferrers.length > 0 && {
+        referrerId: { notIn: cappedReferrers },
+      }),
+    },
+    orderBy: { createdAt: "asc" },
+    take: batchSize,
+    include: { referee: { select: { fid: true, level: true } } },
+  });
+
+  for (const referral of due) {
+    if (!referral.verifiedAt) {
+      result.checked++;
+      let holdReason: string | null;
+      try {
+        holdReason = await checkReferee(referral.referee.fid, rules, now);
+      } catch (error) {
+        GameMetrics.trackError(error, {
+          job: "referrals",
+          referralId: referral.id,
+        });
+        result.neynarUnavailable = true;
+        break;
+      }
+
+      await prisma.referral.update({
+        where: { id: referral.id },
+        data: holdReason
+          ? { holdReason, checkedAt: now }
+          : { holdReason: null, checkedAt: now, verifiedAt: now },
+      });
+      if (holdReason) {
+        result.held++;
+        continue;
+      }
+      result.verified++;
+    }
+
+    let paid = paidToday.get(referral.referrerId) ?? 0;
+
+    // A referee can skip several levels between sweeps
+    for (
+      let index = referral.tier;
+      index < REFERRAL_TIERS.length &&
+      referral.referee.level >= REFERRAL_TIERS[index]!.level;
+      index++
+    ) {
+      if (paid >= config.referral_daily_reward_limit) {
+        result.capped++;
+        break;
+      }
+      const reward = await claimTier(referral, index, config.crew_hire_cost);
+      if (!reward.claimed) break;
+      paid++;
+      result.rewarded++;
+      result.lunarPaid += reward.lunar;
+      if (reward.crew) result.crewGranted++;
+    }
+    paidToday.set(referral.referrerId, paid);
+  }
+
+  return result;
+}
@@ -0,0 +1,231 @@
+/**
+ * Dashboard sessions.
+ *
+ * After a player proves their Farcaster identity (see farcaster-auth.ts),
+ * POST /api/auth/session issues a signed session cookie:
+ *
+ *   lc_session = base64url({ fid, iat, exp }) + "." + base64url(HMAC-SHA256)
+ *
+ * signed with SESSION_SECRET. middleware.ts verifies it on every
+ * /api/dashboard/[fid] request and rejects a missing session (401) or one
+ * for a different FID (403); route handlers call requireSessionFid() so
+ * the check holds even if the matcher changes.
+ *
+ * In production the cookie is SameSite=None (the dashboard runs in
+ * Farcaster clients' cross-site webviews), so the browser attaches it to
+ * requests other sites start too. middleware.ts runs rejectCrossSiteWrite()
+ * on every cookie-authenticated write to stop request forgery.
+ *
+ * Uses Web Crypto only, so the same code runs in middleware and in
+ * Node route handlers.
+ */
+
+import { NextResponse } from "next/server";
+import { fromBase64Url, toBase64Url } from "@/lib/utils";
+
+export const SESSION_COOKIE = "lc_session";
+
+/** Sessions last a week; signing in again issues a fresh cookie. */
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Used outside production when SESSION_SECRET is unset. */
+const DEV_SESSION_SECRET = "lunar-colony-dev-session-secret";
+
+export interface Session {
+  fid: number;
+  /** Issued at, unix seconds */
+  iat: number;
+  /** Expires at, unix seconds */
+  exp: number;
+}
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+/**
+ * The HMAC secret, or null when sessions can't be issued (production
+ * without SESSION_SECRET).
+ */
+function getSessionSecret(): string | null {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  return process.env.NODE_ENV === "production" ? null : DEV_SESSION_SECRET;
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/**
+ * Sign a session for `fid`. Throws when no secret is configured.
+ */
+export async function createSessionToken(
+  fid: number,
+  now = new Date(),
+): Promise<string> {
+  const secret = getSessionSecret();
+  if (!secret) throw new Error("SESSION_SECRET is not configured");
+
+  const iat = Math.floor(now.getTime() / 1000);
+  const session: Session = { fid, iat, exp: iat + SESSION_TTL_SECONDS };
+  const payload = toBase64Url(
+    new TextEncoder().encode(JSON.stringify(session)),
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(secret),
+    new TextEncoder().encode(payload),
+  );
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session token's signature and expiry.
+ * Returns null for anything malformed, forged or expired.
+ */
+export async function verifySessionToken(
+  token: string | undefined | null,
+  now = new Date(),
+): Promise<Session | null> {
+  const secret = getSessionSecret();
+  if (!secret || !token) return null;
+
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const sigBytes = fromBase64Url(signature);
+  if (!sigBytes) return null;
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await hmacKey(secret),
+    sigBytes as Uint8Array<ArrayBuffer>,
+    new TextEncoder().encode(payload),
+  );
+  if (!valid) return null;
+
+  const json = fromBase64Url(payload);
+  if (!json) return null;
+  try {
+    const session = JSON.parse(new TextDecoder().decode(json)) as Session;
+    if (!Number.isInteger(session.fid) || session.fid <= 0) return null;
+    if (!(session.exp > Math.floor(now.getTime() / 1000))) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+/** Read a cookie from a request's Cookie header. */
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.get("cookie");
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return rest.join("=");
+  }
+  return null;
+}
+
+/** The verified session on a request, or null. */
+export async function getSession(req: Request): Promise<Session | null> {
+  return verifySessionToken(readCookie(req, SESSION_COOKIE));
+}
+
+/**
+ * Check that the request is signed in as `fid`. Returns an error response
+ * to send back (401 no session, 403 someone else's colony) or null when
+ * the caller may act for `fid`.
+ */
+export async function requireSessionFid(
+  req: Request,
+  fid: number,
+): Promise<NextResponse | null> {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (session.fid !== fid) {
+    return NextResponse.json(
+      { error: "Signed in as a different player" },
+      { status: 403 },
+    );
+  }
+  return null;
+}
+
+const UNSAFE_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/** Origins the app is served from: the request's own, plus the public URL. */
+function appOrigins(req: Request): Set<string> {
+  const origins = new Set([new URL(req.url).origin]);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (appUrl) {
+    try {
+      origins.add(new URL(appUrl).origin);
+    } catch {
+      // Malformed NEXT_PUBLIC_APP_URL — the request origin still applies
+    }
+  }
+  return origins;
+}
+
+/**
+ * Reject state-changing requests another site could have made with the
+ * player's cookie: the Origin must be the app's own, and bodies must be
+ * JSON (a cross-site form or no-preflight fetch can't send that type).
+ * Returns an error response to send back, or null when the request may
+ * proceed. Reads (GET/HEAD) always pass.
+ */
+export function rejectCrossSiteWrite(req: Request): NextResponse | null {
+  if (!UNSAFE_METHODS.has(req.method)) return null;
+
+  const origin = req.headers.get("origin");
+  if (!origin || !appOrigins(req).has(origin)) {
+    return NextResponse.json(
+      { error: "Cross-origin request rejected" },
+      { status: 403 },
+    );
+  }
+
+  // DELETE carries no body
+  const contentType = req.headers.get("content-type") ?? "";
+  if (req.method !== "DELETE" && !/^application\/json\b/i.test(contentType)) {
+    return NextResponse.json(
+      { error: "Content-Type must be application/json" },
+      { status: 415 },
+    );
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Cookies
+// ---------------------------------------------------------------------------
+
+/** Attach a fresh session cookie for `token` to a response. */
+export function setSessionCookie(res: NextResponse, token: string): void {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    // The dashboard runs inside Farcaster clients' webviews (cross-site)
+    sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+/** Expire the session cookie. */
+export function clearSessionCookie(res: NextResponse): void {
+  res.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+}
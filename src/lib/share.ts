@@ -0,0 +1,369 @@
+/**
+ * Shareable snapshot casts.
+ *
+ * A share freezes one moment — the colony as it is now, an unlocked
+ * achievement, or a filled market trade — into a ShareSnapshot row holding
+ * the image query for the design-system templates. The snapshot is public
+ * at /share/[id]: that page carries the OG image and the Mini App embed,
+ * and its image (/share/[id]/image) never changes, so it is served with
+ * immutable cache headers.
+ *
+ * Everything shown is read server-side from the player's own data; the
+ * client only says what to share. Achievement and trade shares are
+ * deduplicated per subject, and a colony share is reused for
+ * COLONY_SHARE_REUSE_MS so repeated taps don't mint new cards.
+ *
+ * The embed's launch button opens the dashboard with `ref=<sharer fid>`
+ * and `share=<id>`, attributing new players to the sharer.
+ *
+ * Entry points:
+ *   - createShare()         — dashboard action: snapshot + cast text
+ *   - getShareSnapshot()    — /share/[id] page and image
+ *   - recordShareView()     — /share/[id] page visit counter
+ *   - shareLaunchUrl()      — Mini App launch URL with referral params
+ */
+
+import { randomBytes } from "node:crypto";
+import prisma from "@/lib/database";
+import {
+  calculateColonyState,
+  type getOrCreatePlayer,
+} from "@/lib/game-engine";
+import { absoluteUrl, isPrismaUniqueViolation } from "@/lib/utils";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ShareKind = "colony" | "achievement" | "trade";
+
+export const SHARE_KINDS: ShareKind[] = ["colony", "achievement", "trade"];
+
+export interface ShareRequest {
+  kind: ShareKind;
+  /** PlayerAchievement id (achievement) or TRADE Transaction id (trade) */
+  subjectId?: string;
+}
+
+export interface CreateShareResult {
+  success: boolean;
+  shareId?: string;
+  /** Public /share/[id] URL to embed in the cast */
+  url?: string;
+  /** Suggested cast text */
+  text?: string;
+  /** Warpcast compose intent, for clients outside a Mini App */
+  composeUrl?: string;
+  error?: string;
+}
+
+export interface ShareSnapshotView {
+  id: string;
+  fid: number;
+  username: string | null;
+  kind: ShareKind;
+  title: string;
+  description: string;
+  imageParams: Record<string, string>;
+  views: number;
+  createdAt: Date;
+}
+
+type SharingPlayer = Awaited<ReturnType<typeof getOrCreatePlayer>>;
+
+interface SnapshotContent {
+  subjectId: string | null;
+  title: string;
+  description: string;
+  imageParams: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** A colony share newer than this is reused instead of re-snapshotted */
+export const COLONY_SHARE_REUSE_MS = 15 * 60 * 1000;
+
+const COMPOSE_INTENT_URL = "https://warpcast.com/~/compose";
+
+/** 8 url-safe characters — short enough for a cast, 48 bits of entropy */
+function newShareId(): string {
+  return randomBytes(6).toString("base64url");
+}
+
+function round(value: number, places: number): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+// ---------------------------------------------------------------------------
+// 1. URLs
+// ---------------------------------------------------------------------------
+
+export function shareUrl(id: string): string {
+  return absoluteUrl(`/share/${id}`);
+}
+
+export function shareImageUrl(id: string): string {
+  return absoluteUrl(`/share/${id}/image`);
+}
+
+/** Where the embed's launch button opens, attributed to the sharer. */
+export function shareLaunchUrl(snapshot: { id: string; fid: number }): string {
+  const query = new URLSearchParams({
+    ref: String(snapshot.fid),
+    share: snapshot.id,
+  });
+  return absoluteUrl(`/dashboard?${query}`);
+}
+
+export function composeCastUrl(text: string, embedUrl: string): string {
+  const query = new URLSearchParams({ text });
+  query.append("embeds[]", embedUrl);
+  return `${COMPOSE_INTENT_URL}?${query}`;
+}
+
+// ---------------------------------------------------------------------------
+// 2. Snapshot content — read from the player's own data
+// ---------------------------------------------------------------------------
+
+function colonyContent(player: SharingPlayer): SnapshotContent {
+  const state = calculateColonyState(player);
+  const production = round(state.productionRate, 2);
+
+  const imageParams: Record<string, string> = {
+    screen: "colony",
+    level: String(state.level),
+    balance: String(Math.floor(state.lunarBalance)),
+    production: String(production),
+    moduleCount: String(state.modules.length),
+    footer: `Shared by ${state.playerName}`,
+  };
+  state.modules.forEach((m, i) => {
+    imageParams[`cgrid_${i}_type`] = m.type;
+    imageParams[`cgrid_${i}_tier`] = m.tier;
+    imageParams[`cgrid_${i}_eff`] = String(Math.round(m.efficiency));
+    imageParams[`cgrid_${i}_lvl`] = String(m.level);
+    imageParams[`cgrid_${i}_active`] = m.isActive ? "1" : "0";
+  });
+
+  return {
+    subjectId: null,
+    title: `${state.playerName}'s lunar colony`,
+    description: `🌙 My colony is level ${state.level} with ${state.modules.length} modules producing ${production} $LUNAR per tick. Come build next door!`,
+    imageParams,
+  };
+}
+
+async function achievementContent(
+  player: SharingPlayer,
+  playerAchievementId: string,
+): Promise<SnapshotContent | null> {
+  const unlocked = await prisma.playerAchievement.findUnique({
+    where: { id: playerAchievementId },
+    include: { achievement: true },
+  });
+  if (!unlocked || unlocked.playerId !== player.id) return null;
+
+  const { name, description } = unlocked.achievement;
+  return {
+    subjectId: unlocked.id,
+    title: `Achievement unlocked: ${name}`,
+    description: `🏆 Unlocked "${name}" in Lunar Colony Tycoon — ${description}`,
+    imageParams: {
+      screen: "result",
+      success: "1",
+      title: `🏆 ${name}`,
+      detail: description,
+      balance: String(Math.floor(Number(player.lunarBalance))),
+      modules: String(player.modules.length),
+    },
+  };
+}
+
+async function tradeContent(
+  player: SharingPlayer,
+  transactionId: string,
+): Promise<SnapshotContent | null> {
+  const ledger = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+  });
+  if (!ledger || ledger.playerId !== player.id || ledger.type !== "TRADE") {
+    return null;
+  }
+
+  // Market fills only — limit-order escrow rows are TRADE entries too
+  const meta = ledger.metadata as {
+    side?: "buy" | "sell";
+    filledQty?: number;
+    avgPrice?: number;
+    totalCost?: number;
+    slippage?: number;
+  } | null;
+  if (!meta?.side || !meta.filledQty) return null;
+
+  const resource = ledger.resource;
+  const label = resource.replace(/_/g, " ");
+  const verb = meta.side === "buy" ? "Bought" : "Sold";
+  const avgPrice = round(meta.avgPrice ?? 0, 4);
+  return {
+    subjectId: ledger.id,
+    title: `${verb} ${meta.filledQty} ${label}`,
+    description: `📈 ${verb} ${meta.filledQty} ${label} @ ${avgPrice} $LUNAR on the Lunar Market.`,
+    imageParams: {
+      screen: "result",
+      tradeResult: "1",
+      success: "1",
+      side: meta.side,
+      resource,
+      quantity: String(meta.filledQty),
+      avgPrice: String(avgPrice),
+      totalCost: String(round(meta.totalCost ?? 0, 4)),
+      slippage: String(round(meta.slippage ?? 0, 2)),
+      balance: String(Math.floor(Number(ledger.balanceAfter))),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 3. Create
+// ---------------------------------------------------------------------------
+
+function shareResult(snapshot: {
+  id: string;
+  description: string;
+}): CreateShareResult {
+  const url = shareUrl(snapshot.id);
+  return {
+    success: true,
+    shareId: snapshot.id,
+    url,
+    text: snapshot.description,
+    composeUrl: composeCastUrl(snapshot.description, url),
+  };
+}
+
+/**
+ * Snapshot something the player owns and return the cast to compose.
+ * Sharing the same achievement or trade again returns the existing card.
+ */
+export async function createShare(
+  player: SharingPlayer,
+  request: ShareRequest,
+): Promise<CreateShareResult> {
+  const { kind, subjectId } = request;
+  if (!SHARE_KINDS.includes(kind)) {
+    return { success: false, error: "Unknown share kind" };
+  }
+
+  if (kind === "colony") {
+    const recent = await prisma.shareSnapshot.findFirst({
+      where: {
+        playerId: player.id,
+        kind,
+        createdAt: { gte: new Date(Date.now() - COLONY_SHARE_REUSE_MS) },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+    if (recent) return shareResult(recent);
+  } else {
+    if (!subjectId) {
+      return { success: false, error: `${kind} id required` };
+    }
+    const existing = await prisma.shareSnapshot.findUnique({
+      where: {
+        playerId_kind_subjectId: { playerId: player.id, kind, subjectId },
+      },
+    });
+    if (existing) return shareResult(existing);
+  }
+
+  const content =
+    kind === "colony"
+      ? colonyContent(player)
+      : kind === "achievement"
+        ? await achievementContent(player, subjectId!)
+        : await tradeContent(player, subjectId!);
+  if (!content) {
+    return {
+      success: false,
+      error:
+        kind === "achievement" ? "Achievement not found" : "Trade not found",
+    };
+  }
+
+  let snapshot;
+  try {
+    snapshot = await prisma.shareSnapshot.create({
+      data: {
+        id: newShareId(),
+        playerId: player.id,
+        fid: player.fid,
+        kind,
+        subjectId: content.subjectId,
+        imageParams: content.imageParams,
+        title: content.title,
+        description: content.description,
+      },
+    });
+  } catch (error) {
+    // A concurrent share of the same subject won the insert
+    if (!content.subjectId || !isPrismaUniqueViolation(error)) throw error;
+    const winner = await prisma.shareSnapshot.findUnique({
+      where: {
+        playerId_kind_subjectId: {
+          playerId: player.id,
+          kind,
+          subjectId: content.subjectId,
+        },
+      },
+    });
+    if (!winner) throw error;
+    return shareResult(winner);
+  }
+
+  await prisma.gameEvent.create({
+    data: {
+      playerId: player.id,
+      type: "share_created",
+      data: { shareId: snapshot.id, kind, subjectId: content.subjectId },
+    },
+  });
+
+  return shareResult(snapshot);
+}
+
+// ---------------------------------------------------------------------------
+// 4. Read
+// ---------------------------------------------------------------------------
+
+export async function getShareSnapshot(
+  id: string,
+): Promise<ShareSnapshotView | null> {
+  const snapshot = await prisma.shareSnapshot.findUnique({
+    where: { id },
+    include: { player: { select: { username: true } } },
+  });
+  if (!snapshot) return null;
+
+  return {
+    id: snapshot.id,
+    fid: snapshot.fid,
+    username: snapshot.player.username,
+    kind: snapshot.kind as ShareKind,
+    title: snapshot.title,
+    description: snapshot.description,
+    imageParams: snapshot.imageParams as Record<string, string>,
+    views: snapshot.views,
+    createdAt: snapshot.createdAt,
+  };
+}
+
+/** Count a visit to /share/[id]. Missing snapshots are ignored. */
+export async function recordShareView(id: string): Promise<void> {
+  await prisma.shareSnapshot.updateMany({
+    where: { id },
+    data: { views: { increment: 1 } },
+  });
+}
@@ -0,0 +1,624 @@
+/**
+ * Tournament Engine
+ *
+ * Alliance-vs-alliance tournament seasons layered on the ALLIANCE_TOURNAMENT
+ * event. The event supplies modifiers and per-player EventParticipant
+ * scores; this module turns them into team standings:
+ *   1. Seasons    — one season per tournament event, numbered, seeded by
+ *                   alliance treasury size
+ *   2. Scoring    — team score = sum of members' EventParticipant scores
+ *   3. Formats    — LEAGUE ranks the table by score; BRACKET runs
+ *                   single-elimination rounds of equal length, each match
+ *                   won by the higher score gained during that round
+ *   4. Payouts    — the event's rewardTiers split the reward pool between
+ *                   placed alliances, paid into their treasuries
+ *   5. Archive    — completed seasons keep final standings and rewards
+ *
+ * Entry points (event-engine calls 1–4; dashboard reads 5):
+ *   - startTournamentSeason()      — after the tournament event is created
+ *   - advanceTournamentBrackets()  — every event tick: scores + due rounds
+ *   - completeTournamentSeason()   — when the tournament event expires
+ *   - cancelTournamentSeason()     — when the tournament event is cancelled
+ *   - getTournamentOverview()      — current season + archive
+ *   - getTournamentSeason()        — one season's full standings
+ */
+
+import prisma from "@/lib/database";
+import type {
+  EventStatus,
+  Prisma,
+  TournamentEntry,
+  TournamentFormat,
+  TournamentSeason,
+} from "@prisma/client";
+import { GameMetrics } from "@/lib/metrics";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RewardTier {
+  rank: number;
+  multiplier: number;
+  label: string;
+}
+
+export interface TournamentStanding {
+  allianceId: string;
+  allianceName: string;
+  seed: number;
+  score: number;
+  /** Bracket: score gained in the current round */
+  roundScore: number;
+  rank: number | null;
+  eliminatedRound: number | null;
+  reward: number;
+}
+
+export interface BracketMatch {
+  round: number;
+  a: string;
+  /** null = bye */
+  b: string | null;
+}
+
+export interface SeasonView {
+  id: string;
+  number: number;
+  name: string;
+  format: TournamentFormat;
+  status: EventStatus;
+  startTime: string;
+  endTime: string;
+  rounds: number;
+  currentRound: number;
+  /** When the current bracket round is decided (null for leagues) */
+  roundEndsAt: string | null;
+  rewardPool: number;
+  standings: TournamentStanding[];
+  /** Current-round pairings (bracket, active seasons only) */
+  matches: BracketMatch[];
+}
+
+export interface SeasonSummary {
+  number: number;
+  name: string;
+  format: TournamentFormat;
+  completedAt: string | null;
+  podium: Array<{
+    rank: number;
+    allianceName: string;
+    score: number;
+    reward: number;
+  }>;
+}
+
+export interface TournamentOverview {
+  current: SeasonView | null;
+  myAllianceId: string | null;
+  archive: SeasonSummary[];
+}
+
+export interface TournamentPayoutResult {
+  seasonId: string | null;
+  alliancesPaid: number;
+  totalAmount: number;
+}
+
+/** Fields of an entry the pure helpers work on. */
+export interface EntryState {
+  allianceId: string;
+  seed: number;
+  score: number;
+  roundBaseScore: number;
+  eliminatedRound: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers (pure)
+// ---------------------------------------------------------------------------
+
+/** Fields of at least this many alliances play a bracket; fewer play a league. */
+export const BRACKET_MIN_ENTRANTS = 4;
+
+const ARCHIVE_SIZE = 10;
+
+export function chooseFormat(entrants: number): TournamentFormat {
+  return entrants >= BRACKET_MIN_ENTRANTS ? "BRACKET" : "LEAGUE";
+}
+
+/** Single-elimination rounds needed for a field. */
+export function bracketRounds(entrants: number): number {
+  return entrants > 1 ? Math.ceil(Math.log2(entrants)) : 0;
+}
+
+/**
+ * Pair the surviving entries for a round: best seed vs worst seed,
+ * working inwards. An odd field gives the top seed a bye.
+ */
+export function pairBracket<T extends { seed: number }>(
+  alive: T[],
+): Array<[T, T | null]> {
+  const sorted = [...alive].sort((a, b) => a.seed - b.seed);
+  const pairs: Array<[T, T | null]> = [];
+  if (sorted.length % 2 === 1) pairs.push([sorted.shift()!, null]);
+  while (sorted.length > 1) pairs.push([sorted.shift()!, sorted.pop()!]);
+  return pairs;
+}
+
+/**
+ * Decide one bracket round in place: in each match the entry that gained
+ * more score this round advances (ties go to the better seed). Survivors'
+ * round baseline resets to their current score.
+ */
+export function resolveRound<T extends EntryState>(
+  entries: T[],
+  round: number,
+): T[] {
+  const alive = entries.filter((e) => e.eliminatedRound === null);
+  const losers: T[] = [];
+  for (const [a, b] of pairBracket(alive)) {
+    if (!b) continue;
+    const gainA = a.score - a.roundBaseScore;
+    const gainB = b.score - b.roundBaseScore;
+    losers.push(gainB > gainA ? a : b);
+  }
+  for (const loser of losers) loser.eliminatedRound = round;
+  for (const e of alive) {
+    if (e.eliminatedRound === null) e.roundBaseScore = e.score;
+  }
+  return losers;
+}
+
+/**
+ * Final order of a season. League: by score. Bracket: by how far each
+ * alliance got (champion first), then by score.
+ */
+export function rankEntries<T extends EntryState>(
+  format: TournamentFormat,
+  entries: T[],
+): T[] {
+  const reached = (e: T) =>
+    e.eliminatedRound === null ? Infinity : e.eliminatedRound;
+  return [...entries].sort((a, b) => {
+    if (format === "BRACKET" && reached(a) !== reached(b)) {
+      return reached(b) - reached(a);
+    }
+    return b.score - a.score || a.seed - b.seed;
+  });
+}
+
+/**
+ * Split the pool between placed alliances (those within a reward tier) in
+ * proportion to their tier multiplier. Whole $LUNAR only.
+ */
+export function tournamentPayouts(
+  rankedIds: string[],
+  pool: number,
+  tiers: RewardTier[],
+): Map<string, number> {
+  const sortedTiers = [...tiers].sort((a, b) => a.rank - b.rank);
+  const placed = rankedIds.flatMap((id, i) => {
+    const tier = sortedTiers.find((t) => i + 1 <= t.rank);
+    return tier ? [{ id, multiplier: tier.multiplier }] : [];
+  });
+  const totalMult = placed.reduce((sum, p) => sum + p.multiplier, 0);
+
+  const payouts = new Map<string, number>();
+  if (totalMult <= 0) return payouts;
+  for (const p of placed) {
+    const amount = Math.floor((pool * p.multiplier) / totalMult);
+    if (amount > 0) payouts.set(p.id, amount);
+  }
+  return payouts;
+}
+
+type EntryRow = Omit<TournamentEntry, "score" | "roundBaseScore"> & EntryState;
+
+function toState(entry: TournamentEntry): EntryRow {
+  return {
+    ...entry,
+    score: Number(entry.score),
+    roundBaseScore: Number(entry.roundBaseScore),
+  };
+}
+
+type SeasonWithEntries = TournamentSeason & { entries: TournamentEntry[] };
+
+/**
+ * Re-aggregate team scores from the tournament event's participants and
+ * persist any that changed. Returns the entries with fresh scores.
+ */
+async function refreshScores(season: SeasonWithEntries) {
+  const participants = await prisma.eventParticipant.findMany({
+    where: { eventId: season.eventId },
+    select: {
+      score: true,
+      player: { select: { allianceMember: { select: { allianceId: true } } } },
+    },
+  });
+
+  const totals = new Map<string, number>();
+  for (const p of participants) {
+    const allianceId = p.player.allianceMember?.allianceId;
+    if (!allianceId) continue;
+    totals.set(allianceId, (totals.get(allianceId) ?? 0) + Number(p.score));
+  }
+
+  const entries = season.entries.map(toState);
+  const changed = entries.filter((e) => {
+    const score = totals.get(e.allianceId) ?? 0;
+    if (score === e.score) return false;
+    e.score = score;
+    return true;
+  });
+  if (changed.length > 0) {
+    await prisma.$transaction(
+      changed.map((e) =>
+        prisma.tournamentEntry.update({
+          where: { id: e.id },
+          data: { score: e.score },
+        }),
+      ),
+    );
+  }
+  return entries;
+}
+
+function roundEndsAt(season: TournamentSeason, round: number): Date {
+  const start = season.startTime.getTime();
+  const roundMs = (season.endTime.getTime() - start) / season.rounds;
+  return new Date(start + round * roundMs);
+}
+
+// ---------------------------------------------------------------------------
+// 1. Seasons
+// ---------------------------------------------------------------------------
+
+/**
+ * Open a season for a freshly created tournament event. Alliances are
+ * seeded by treasury size (richest = seed 1).
+ */
+export async function startTournamentSeason(
+  event: { id: string; startTime: Date; endTime: Date },
+  alliances: Array<{
+    id: string;
+    name: string;
+    totalLunar: Prisma.Decimal | number;
+  }>,
+  rewardPool: number,
+): Promise<TournamentSeason> {
+  const seeded = [...alliances].sort(
+    (a, b) => Number(b.totalLunar) - Number(a.totalLunar),
+  );
+  const format = chooseFormat(seeded.length);
+  const rounds = format === "BRACKET" ? bracketRounds(seeded.length) : 0;
+
+  const last = await prisma.tournamentSeason.findFirst({
+    orderBy: { number: "desc" },
+    select: { number: true },
+  });
+  const number = (last?.number ?? 0) + 1;
+
+  const season = await prisma.tournamentSeason.create({
+    data: {
+      number,
+      eventId: event.id,
+      name: `Season ${number} — ${format === "BRACKET" ? "Knockout" : "League"}`,
+      format,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      rounds,
+      currentRound: rounds > 0 ? 1 : 0,
+      rewardPool,
+      entries: {
+        create: seeded.map((a, i) => ({
+          allianceId: a.id,
+          allianceName: a.name,
+          seed: i + 1,
+        })),
+      },
+    },
+  });
+
+  await prisma.gameEvent.create({
+    data: {
+      type: "tournament_season_started",
+      severity: "INFO",
+      data: {
+        seasonId: season.id,
+        number,
+        format,
+        eventId: event.id,
+        entrants: seeded.length,
+      },
+    },
+  });
+
+  return season;
+}
+
+// ---------------------------------------------------------------------------
+// 2. Scoring + 3. Bracket rounds
+// ---------------------------------------------------------------------------
+
+/**
+ * Refresh team scores for every active season and decide any bracket
+ * rounds whose time is up. The final round is decided at completion.
+ */
+export async function advanceTournamentBrackets(
+  now = new Date(),
+): Promise<{ seasons: number; roundsResolved: number }> {
+  const seasons = await prisma.tournamentSeason.findMany({
+    where: { status: "ACTIVE" },
+    include: { entries: true },
+  });
+
+  let roundsResolved = 0;
+  for (const season of seasons) {
+    const entries = await refreshScores(season);
+    if (season.format !== "BRACKET") continue;
+
+    let round = season.currentRound;
+    while (round < season.rounds && now >= roundEndsAt(season, round)) {
+      resolveRound(entries, round);
+      round++;
+    }
+    if (round === season.currentRound) continue;
+
+    await prisma.$transaction([
+      // Round guard: a concurrent tick that already advanced aborts this one
+      prisma.tournamentSeason.update({
+        where: { id: season.id, currentRound: season.currentRound },
+        data: { currentRound: round },
+      }),
+      ...entries.map((e) =>
+        prisma.tournamentEntry.update({
+          where: { id: e.id },
+          data: {
+            roundBaseScore: e.roundBaseScore,
+            eliminatedRound: e.eliminatedRound,
+          },
+        }),
+      ),
+    ]);
+    roundsResolved += round - season.currentRound;
+  }
+
+  return { seasons: seasons.length, roundsResolved };
+}
+
+// ---------------------------------------------------------------------------
+// 4. Payouts
+// ---------------------------------------------------------------------------
+
+/**
+ * Close the season attached to an expired tournament event: final scores,
+ * remaining bracket rounds, ranks, and treasury payouts by reward tier.
+ */
+export async function completeTournamentSeason(
+  eventId: string,
+  rewardTiers: RewardTier[],
+): Promise<TournamentPayoutResult> {
+  const season = await prisma.tournamentSeason.findUnique({
+    where: { eventId },
+    include: { entries: true },
+  });
+  if (!season || season.status !== "ACTIVE") {
+    return { seasonId: null, alliancesPaid: 0, totalAmount: 0 };
+  }
+
+  const entries = await refreshScores(season);
+  if (season.format === "BRACKET") {
+    for (let round = season.currentRound; round <= season.rounds; round++) {
+      resolveRound(entries, round);
+    }
+  }
+
+  const ranked = rankEntries(season.format, entries);
+  const live = await prisma.alliance.findMany({
+    where: { id: { in: ranked.map((e) => e.allianceId) }, deletedAt: null },
+    select: { id: true },
+  });
+  const liveIds = new Set(live.map((a) => a.id));
+  const payouts = tournamentPayouts(
+    ranked.map((e) => e.allianceId),
+    Number(season.rewardPool),
+    rewardTiers,
+  );
+
+  const ops: Prisma.PrismaPromise<unknown>[] = [];
+  let totalAmount = 0;
+  let alliancesPaid = 0;
+  ranked.forEach((entry, i) => {
+    // Disbanded alliances keep their placing but forfeit the reward
+    const reward = liveIds.has(entry.allianceId)
+      ? (payouts.get(entry.allianceId) ?? 0)
+      : 0;
+    ops.push(
+      prisma.tournamentEntry.update({
+        where: { id: entry.id },
+        data: {
+          rank: i + 1,
+          reward,
+          eliminatedRound: entry.eliminatedRound,
+        },
+      }),
+    );
+    if (reward > 0) {
+      totalAmount += reward;
+      alliancesPaid++;
+      ops.push(
+        prisma.alliance.update({
+          where: { id: entry.allianceId },
+          data: {
+            totalLunar: { increment: reward },
+            version: { increment: 1 },
+          },
+        }),
+      );
+    }
+  });
+
+  await prisma.$transaction([
+    // Status guard: a season is only ever paid out once
+    prisma.tournamentSeason.update({
+      where: { id: season.id, status: "ACTIVE" },
+      data: {
+        status: "COMPLETED",
+        completedAt: new Date(),
+        currentRound: season.rounds,
+      },
+    }),
+    ...ops,
+    prisma.gameEvent.create({
+      data: {
+        type: "tournament_season_completed",
+        severity: "INFO",
+        data: {
+          seasonId: season.id,
+          number: season.number,
+          champion: ranked[0]?.allianceName ?? null,
+          alliancesPaid,
+          totalAmount,
+        },
+      },
+    }),
+  ]);
+
+  GameMetrics.trackEvent("ALLIANCE_TOURNAMENT", eventId, "reward_distributed", {
+    season: season.number,
+    totalAmount,
+  });
+
+  return { seasonId: season.id, alliancesPaid, totalAmount };
+}
+
+/**
+ * Mark the season of a cancelled tournament event as cancelled. No payouts.
+ */
+export async function cancelTournamentSeason(eventId: string): Promise<void> {
+  await prisma.tournamentSeason.updateMany({
+    where: { eventId, status: "ACTIVE" },
+    data: { status: "CANCELLED", completedAt: new Date() },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// 5. Dashboard + archive
+// ---------------------------------------------------------------------------
+
+function toSeasonView(season: SeasonWithEntries): SeasonView {
+  const entries = season.entries.map(toState);
+  const ordered =
+    season.status === "COMPLETED"
+      ? [...entries].sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))
+      : rankEntries(season.format, entries);
+
+  const bracketLive = season.format === "BRACKET" && season.status === "ACTIVE";
+  const matches: BracketMatch[] = bracketLive
+    ? pairBracket(entries.filter((e) => e.eliminatedRound === null)).map(
+        ([a, b]) => ({
+          round: season.currentRound,
+          a: a.allianceId,
+          b: b?.allianceId ?? null,
+        }),
+      )
+    : [];
+
+  return {
+    id: season.id,
+    number: season.number,
+    name: season.name,
+    format: season.format,
+    status: season.status,
+    startTime: season.startTime.toISOString(),
+    endTime: season.endTime.toISOString(),
+    rounds: season.rounds,
+    currentRound: season.currentRound,
+    roundEndsAt: bracketLive
+      ? roundEndsAt(season, season.currentRound).toISOString()
+      : null,
+    rewardPool: Number(season.rewardPool),
+    standings: ordered.map((e) => ({
+      allianceId: e.allianceId,
+      allianceName: e.allianceName,
+      seed: e.seed,
+      score: e.score,
+      roundScore: e.score - e.roundBaseScore,
+      rank: e.rank,
+      eliminatedRound: e.eliminatedRound,
+      reward: Number(e.reward),
+    })),
+    matches,
+  };
+}
+
+/**
+ * The running season (if any), the caller's alliance, and the most recent
+ * completed seasons with their podiums.
+ */
+export async function getTournamentOverview(
+  playerId?: string,
+): Promise<TournamentOverview> {
+  const [current, archived, member] = await Promise.all([
+    prisma.tournamentSeason.findFirst({
+      where: { status: "ACTIVE" },
+      include: { entries: true },
+      orderBy: { number: "desc" },
+    }),
+    prisma.tournamentSeason.findMany({
+      where: { status: "COMPLETED" },
+      include: {
+        entries: { where: { rank: { lte: 3 } }, orderBy: { rank: "asc" } },
+      },
+      orderBy: { number: "desc" },
+      take: ARCHIVE_SIZE,
+    }),
+    playerId
+      ? prisma.allianceMember.findUnique({
+          where: { playerId },
+          select: { allianceId: true },
+        })
+      : null,
+  ]);
+
+  return {
+    current: current ? toSeasonView(current) : null,
+    myAllianceId: member?.allianceId ?? null,
+    archive: archived.map((s) => ({
+      number: s.number,
+      name: s.name,
+      format: s.format,
+      completedAt: s.completedAt?.toISOString() ?? null,
+      podium: s.entries.map((e) => ({
+        rank: e.rank ?? 0,
+        allianceName: e.allianceName,
+        score: Number(e.score),
+        reward: Number(e.reward),
+      })),
+    })),
+  };
+}
+
+/** Full standings for one season by number, or null if it doesn't exist. */
+export async function getTournamentSeason(
+  number: number,
+): Promise<SeasonView | null> {
+  const season = await prisma.tournamentSeason.findUnique({
+    where: { number },
+    include: { entries: true },
+  });
+  return season ? toSeasonView(season) : null;
+}
+
+const tournamentEngine = {
+  startTournamentSeason,
+  advanceTournamentBrackets,
+  completeTournamentSeason,
+  cancelTournamentSeason,
+  getTournamentOverview,
+  getTournamentSeason,
+};
+
+export default tournamentEngine;
@@ -0,0 +1,873 @@
+/**
+ * Player Trade Offers
+ *
+ * Direct player-to-player exchanges, outside the house market:
+ *   1. Offers  — a sender puts up one resource and asks for another in
+ *                return (or nothing, for a gift), addressed to one player
+ *                by FID or to any member of an alliance. The offered side
+ *                moves into escrow on the offer straight away.
+ *   2. Settle  — the counterparty accepts (both sides swap atomically) or
+ *                declines; the sender may cancel; stale offers expire via
+ *                cron. Every close is guarded by the offer's `version`.
+ *   3. Limits  — gifts only go to alliance mates, and the $LUNAR value a
+ *                player gives away (gift, or the surplus of a lopsided
+ *                trade — in either direction) or receives that way is
+ *                capped per UTC day (gift_daily_limit) to stop alt-account
+ *                funneling.
+ *
+ * Entry points:
+ *   - createTradeOffer()  — sender: escrow + open the offer
+ *   - acceptTradeOffer()  — counterparty: settle both sides
+ *   - declineTradeOffer() — named recipient: refuse, escrow returned
+ *   - cancelTradeOffer()  — sender: withdraw, escrow returned
+ *   - expireTradeOffers() — cron: close offers past expiresAt
+ *   - getTradeOffers()    — dashboard view
+ */
+
+import prisma from "@/lib/database";
+import type { Prisma, TradeOffer, TradeOfferStatus } from "@prisma/client";
+import { round4, startOfUtcDay, type ResourceType } from "@/lib/utils";
+import { GameMetrics } from "@/lib/metrics";
+import { loadGameConfig } from "@/lib/game-config";
+import { RESOURCE_CONFIGS } from "@/lib/market-engine";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TradeOfferInput {
+  /** Exactly one of recipientFid / allianceId */
+  recipientFid?: number;
+  allianceId?: string;
+  offerResource: ResourceType;
+  offerQuantity: number;
+  /** Omit for a gift */
+  requestResource?: ResourceType;
+  requestQuantity?: number;
+  message?: string;
+}
+
+export interface TradeOfferView {
+  id: string;
+  sender: { fid: number; username: string | null };
+  recipient: { fid: number; username: string | null } | null;
+  alliance: { id: string; name: string } | null;
+  offerResource: ResourceType;
+  offerQuantity: number;
+  requestResource: ResourceType | null;
+  requestQuantity: number;
+  isGift: boolean;
+  giftValue: number;
+  returnGiftValue: number;
+  message: string | null;
+  status: TradeOfferStatus;
+  expiresAt: Date;
+  createdAt: Date;
+  closedAt: Date | null;
+}
+
+export interface TradeOfferResult {
+  success: boolean;
+  error?: string;
+  offer?: TradeOfferView;
+}
+
+export interface TradeOffersOverview {
+  /** Open offers this player can accept */
+  incoming: TradeOfferView[];
+  /** This player's own open offers */
+  outgoing: TradeOfferView[];
+  /** Recently closed offers this player sent or settled */
+  history: TradeOfferView[];
+  giftLimit: number;
+  giftedToday: number;
+  receivedToday: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const HISTORY_LIMIT = 20;
+
+const VIEW_INCLUDE = {
+  sender: { select: { fid: true, username: true } },
+  recipient: { select: { fid: true, username: true } },
+  alliance: { select: { id: true, name: true } },
+} satisfies Prisma.TradeOfferInclude;
+
+type OfferRow = Prisma.TradeOfferGetPayload<{ include: typeof VIEW_INCLUDE }>;
+
+type OfferSides = {
+  offerResource: ResourceType;
+  offerQuantity: number;
+  requestResource?: ResourceType | null;
+  requestQuantity?: number;
+};
+
+/** $LUNAR value of both sides of an offer, at base market prices. */
+function offerSideValues(offer: OfferSides): { given: number; asked: number } {
+  const given =
+    offer.offerQuantity * RESOURCE_CONFIGS[offer.offerResource].basePrice;
+  const asked = offer.requestResource
+    ? (offer.requestQuantity ?? 0) *
+      RESOURCE_CONFIGS[offer.requestResource].basePrice
+    : 0;
+  return { given, asked };
+}
+
+/**
+ * $LUNAR value the sender hands over beyond what they ask back, at base
+ * market prices. A gift's whole value counts; a fair swap counts zero.
+ */
+export function offerGiftValue(offer: OfferSides): number {
+  const { given, asked } = offerSideValues(offer);
+  return round4(Math.max(0, given - asked));
+}
+
+/**
+ * The reverse: $LUNAR value the sender asks back beyond what they hand
+ * over. The acceptor is the one giving this away.
+ */
+export function offerReturnGiftValue(offer: OfferSides): number {
+  const { given, asked } = offerSideValues(offer);
+  return round4(Math.max(0, asked - given));
+}
+
+function toView(row: OfferRow): TradeOfferView {
+  return {
+    id: row.id,
+    sender: row.sender,
+    recipient: row.recipient,
+    alliance: row.alliance,
+    offerResource: row.offerResource as ResourceType,
+    offerQuantity: Number(row.offerQuantity),
+    requestResource: row.requestResource as ResourceType | null,
+    requestQuantity: Number(row.requestQuantity),
+    isGift: row.requestResource === null,
+    giftValue: Number(row.giftValue),
+    returnGiftValue: Number(row.returnGiftValue),
+    message: row.message,
+    status: row.status,
+    expiresAt: row.expiresAt,
+    createdAt: row.createdAt,
+    closedAt: row.closedAt,
+  };
+}
+
+/**
+ * Add (positive) or remove (negative) a resource from a player inside a
+ * transaction. Debits fail rather than overdraw. Returns the holding
+ * afterwards, for the ledger's balanceAfter.
+ */
+async function adjustHolding(
+  tx: Prisma.TransactionClient,
+  playerId: string,
+  resource: ResourceType,
+  delta: number,
+): Promise<number> {
+  if (resource === "LUNAR") {
+    const player = await tx.player.findUniqueOrThrow({
+      where: { id: playerId },
+    });
+    const balance = Number(player.lunarBalance);
+    if (balance + delta < 0) {
+      throw new Error(
+        `Insufficient LUNAR: need ${-delta}, have ${Math.floor(balance)}`,
+      );
+    }
+    await tx.player.update({
+      where: { id: playerId, version: player.version },
+      data: {
+        lunarBalance: { increment: delta },
+        version: { increment: 1 },
+      },
+    });
+    return balance + delta;
+  }
+
+  if (delta >= 0) {
+    const row = await tx.playerResource.upsert({
+      where: { playerId_type: { playerId, type: resource } },
+      update: { amount: { increment: delta } },
+      create: { playerId, type: resource, amount: delta },
+    });
+    return Number(row.amount);
+  }
+
+  const { count } = await tx.playerResource.updateMany({
+    where: { playerId, type: resource, amount: { gte: -delta } },
+    data: { amount: { increment: delta } },
+  });
+  if (count === 0) {
+    throw new Error(`Insufficient ${resource}: need ${-delta}`);
+  }
+  const row = await tx.playerResource.findUniqueOrThrow({
+    where: { playerId_type: { playerId, type: resource } },
+  });
+  return Number(row.amount);
+}
+
+/**
+ * Gift value a player has given away since UTC midnight: the surplus of
+ * offers they sent, plus the reverse surplus of offers they accepted.
+ */
+async function getGiftedToday(playerId: string): Promise<number> {
+  const since = startOfUtcDay();
+  const [sent, accepted] = await Promise.all([
+    prisma.tradeOffer.aggregate({
+      where: {
+        senderId: playerId,
+        status: { in: ["OPEN", "ACCEPTED"] },
+        createdAt: { gte: since },
+      },
+      _sum: { giftValue: true },
+    }),
+    prisma.tradeOffer.aggregate({
+      where: {
+        acceptedById: playerId,
+        status: "ACCEPTED",
+        closedAt: { gte: since },
+      },
+      _sum: { returnGiftValue: true },
+    }),
+  ]);
+  return (
+    Number(sent._sum?.giftValue ?? 0) +
+    Number(accepted._sum?.returnGiftValue ?? 0)
+  );
+}
+
+/**
+ * Gift value a player has taken in since UTC midnight: the surplus of
+ * offers they accepted, plus the reverse surplus of their own offers
+ * that someone accepted.
+ */
+async function getReceivedToday(playerId: string): Promise<number> {
+  const since = startOfUtcDay();
+  const [accepted, sent] = await Promise.all([
+    prisma.tradeOffer.aggregate({
+      where: {
+        acceptedById: playerId,
+        status: "ACCEPTED",
+        closedAt: { gte: since },
+      },
+      _sum: { giftValue: true },
+    }),
+    prisma.tradeOffer.aggregate({
+      where: {
+        senderId: playerId,
+        status: "ACCEPTED",
+        closedAt: { gte: since },
+      },
+      _sum: { returnGiftValue: true },
+    }),
+  ]);
+  return (
+    Number(accepted._sum?.giftValue ?? 0) +
+    Number(sent._sum?.returnGiftValue ?? 0)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// 1. Offers
+// ---------------------------------------------------------------------------
+
+/**
+ * Open an offer and move the offered resources into escrow.
+ */
+export async function createTradeOffer(
+  senderId: string,
+  input: TradeOfferInput,
+): Promise<TradeOfferResult> {
+  const isGift = !input.requestResource;
+  const requestQuantity = isGift ? 0 : (input.requestQuantity ?? 0);
+
+  if ((input.recipientFid === undefined) === (input.allianceId === undefined)) {
+    return { success: false, error: "Name either a player or an alliance" };
+  }
+  if (!(input.offerQuantity > 0)) {
+    return { success: false, error: "Offer quantity must be positive" };
+  }
+  if (!isGift) {
+    if (!(requestQuantity > 0)) {
+      return { success: false, error: "Requested quantity must be positive" };
+    }
+    if (input.requestResource === input.offerResource) {
+      return { success: false, error: "Offer and request must differ" };
+    }
+  }
+
+  const senderMember = await prisma.allianceMember.findUnique({
+    where: { playerId: senderId },
+    include: { alliance: true },
+  });
+  const senderAllianceId =
+    senderMember && !senderMember.alliance.deletedAt
+      ? senderMember.allianceId
+      : null;
+
+  let recipientId: string | null = null;
+  let allianceId: string | null = null;
+
+  if (input.recipientFid !== undefined) {
+    const recipient = await prisma.player.findUnique({
+      where: { fid: input.recipientFid },
+      include: { allianceMember: true },
+    });
+    if (!recipient || recipient.deletedAt) {
+      return { success: false, error: "Player not found" };
+    }
+    if (recipient.id === senderId) {
+      return { success: false, error: "You can't trade with yourself" };
+    }
+    if (
+      isGift &&
+      (!senderAllianceId ||
+        recipient.allianceMember?.allianceId !== senderAllianceId)
+    ) {
+      return {
+        success: false,
+        error: "Gifts can only be sent to alliance mates",
+      };
+    }
+    recipientId = recipient.id;
+  } else {
+    const alliance = await prisma.alliance.findFirst({
+      where: { id: input.allianceId, deletedAt: null },
+    });
+    if (!alliance) return { success: false, error: "Alliance not found" };
+    if (isGift && alliance.id !== senderAllianceId) {
+      return {
+        success: false,
+        error: "Gifts can only be sent to your own alliance",
+      };
+    }
+    allianceId = alliance.id;
+  }
+
+  const config = await loadGameConfig();
+
+  const openCount = await prisma.tradeOffer.count({
+    where: { senderId, status: "OPEN" },
+  });
+  if (openCount >= config.trade_offer_max_open) {
+    return {
+      success: false,
+      error: `Maximum ${config.trade_offer_max_open} open offers — cancel one first`,
+    };
+  }
+
+  const sides = {
+    offerResource: input.offerResource,
+    offerQuantity: input.offerQuantity,
+    requestResource: input.requestResource,
+    requestQuantity,
+  };
+  const giftValue = offerGiftValue(sides);
+  const returnGiftValue = offerReturnGiftValue(sides);
+  if (giftValue > 0) {
+    const remaining =
+      config.gift_daily_limit - (await getGiftedToday(senderId));
+    if (giftValue > remaining) {
+      return {
+        success: false,
+        error: `Daily gift limit reached: ${Math.max(0, Math.floor(remaining))} of ${config.gift_daily_limit} $LUNAR value left today`,
+      };
+    }
+  }
+
+  const expiresAt = new Date(
+    Date.now() + config.trade_offer_ttl_hours * 60 * 60 * 1000,
+  );
+
+  try {
+    const offer = await prisma.$transaction(async (tx) => {
+      const balanceAfter = await adjustHolding(
+        tx,
+        senderId,
+        input.offerResource,
+        -input.offerQuantity,
+      );
+
+      const created = await tx.tradeOffer.create({
+        data: {
+          senderId,
+          recipientId,
+          allianceId,
+          offerResource: input.offerResource,
+          offerQuantity: input.offerQuantity,
+          requestResource: input.requestResource ?? null,
+          requestQuantity,
+          giftValue,
+          returnGiftValue,
+          message: input.message,
+          expiresAt,
+        },
+        include: VIEW_INCLUDE,
+      });
+
+      // Escrow leaves the sender's balance — record it in the ledger
+      await tx.transaction.create({
+        data: {
+          playerId: senderId,
+          type: "P2P_TRADE",
+          resource: input.offerResource,
+          amount: -input.offerQuantity,
+          balanceAfter,
+          description: `Escrow for ${isGift ? "gift" : "trade offer"} of ${input.offerQuantity} ${input.offerResource}`,
+          metadata: { offerId: created.id, recipientId, allianceId },
+        },
+      });
+
+      await tx.gameEvent.create({
+        data: {
+          playerId: senderId,
+          type: "trade_offer_created",
+          severity: "INFO",
+          data: {
+            offerId: created.id,
+            recipientId,
+            allianceId,
+            offerResource: input.offerResource,
+            offerQuantity: input.offerQuantity,
+            requestResource: input.requestResource ?? null,
+            requestQuantity,
+            giftValue,
+            returnGiftValue,
+          },
+        },
+      });
+
+      return created;
+    });
+
+    GameMetrics.trackPlayerAction(senderId, "trade_offer_create", {
+      offerId: offer.id,
+      isGift,
+      giftValue,
+    });
+
+    return { success: true, offer: toView(offer) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Offer failed",
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 2. Settle
+// ---------------------------------------------------------------------------
+
+/**
+ * Accept an open offer: the acceptor pays the requested side to the
+ * sender and receives the escrowed side, all in one transaction.
+ */
+export async function acceptTradeOffer(
+  playerId: string,
+  offerId: string,
+): Promise<TradeOfferResult> {
+  const offer = await prisma.tradeOffer.findUnique({ where: { id: offerId } });
+  if (!offer) return { success: false, error: "Offer not found" };
+  if (offer.status !== "OPEN") {
+    return {
+      success: false,
+      error: `Offer is already ${offer.status.toLowerCase()}`,
+    };
+  }
+  if (offer.expiresAt <= new Date()) {
+    return { success: false, error: "Offer has expired" };
+  }
+  if (offer.senderId === playerId) {
+    return { success: false, error: "You can't accept your own offer" };
+  }
+
+  if (offer.recipientId) {
+    if (offer.recipientId !== playerId) {
+      return { success: false, error: "This offer isn't addressed to you" };
+    }
+  } else {
+    const member = await prisma.allianceMember.findUnique({
+      where: { playerId },
+    });
+    if (member?.allianceId !== offer.allianceId) {
+      return {
+        success: false,
+        error: "Only members of the named alliance can accept",
+      };
+    }
+  }
+
+  const giftValue = Number(offer.giftValue);
+  const returnGiftValue = Number(offer.returnGiftValue);
+  if (giftValue > 0) {
+    const config = await loadGameConfig();
+    const remaining =
+      config.gift_daily_limit - (await getReceivedToday(playerId));
+    if (giftValue > remaining) {
+      return {
+        success: false,
+        error: `Daily gift limit reached: you can receive ${Math.max(0, Math.floor(remaining))} more $LUNAR value today`,
+      };
+    }
+  }
+  if (returnGiftValue > 0) {
+    // The requested side is worth more: the acceptor is the one gifting
+    const config = await loadGameConfig();
+    const [giftedToday, senderReceivedToday] = await Promise.all([
+      getGiftedToday(playerId),
+      getReceivedToday(offer.senderId),
+    ]);
+    const remaining = config.gift_daily_limit - giftedToday;
+    if (returnGiftValue > remaining) {
+      return {
+        success: false,
+        error: `Daily gift limit reached: ${Math.max(0, Math.floor(remaining))} of ${config.gift_daily_limit} $LUNAR value left today`,
+      };
+    }
+    const senderRemaining = config.gift_daily_limit - senderReceivedToday;
+    if (returnGiftValue > senderRemaining) {
+      return {
+        success: false,
+        error: `Daily gift limit reached: the sender can receive ${Math.max(0, Math.floor(senderRemaining))} more $LUNAR value today`,
+      };
+    }
+  }
+
+  const offerResource = offer.offerResource as ResourceType;
+  const offerQuantity = Number(offer.offerQuantity);
+  const requestResource = offer.requestResource as ResourceType | null;
+  const requestQuantity = Number(offer.requestQuantity);
+
+  try {
+    const settled = await prisma.$transaction(async (tx) => {
+      // Optimistic lock — a concurrent accept / cancel / expiry bumps it
+      const { count } = await tx.tradeOffer.updateMany({
+        where: { id: offer.id, version: offer.version, status: "OPEN" },
+        data: {
+          status: "ACCEPTED",
+          acceptedById: playerId,
+          closedAt: new Date(),
+          version: { increment: 1 },
+        },
+      });
+      if (count === 0) {
+        throw new Error("Offer was just updated — please try again");
+      }
+
+      const ledger: Prisma.TransactionCreateManyInput[] = [];
+
+      if (requestResource) {
+        const paidAfter = await adjustHolding(
+          tx,
+          playerId,
+          requestResource,
+          -requestQuantity,
+        );
+        const senderAfter = await adjustHolding(
+          tx,
+          offer.senderId,
+          requestResource,
+          requestQuantity,
+        );
+        ledger.push(
+          {
+            playerId,
+            type: "P2P_TRADE",
+            resource: requestResource,
+            amount: -requestQuantity,
+            balanceAfter: paidAfter,
+            description: `Paid ${requestQuantity} ${requestResource} for trade offer`,
+            metadata: { offerId: offer.id, counterpartyId: offer.senderId },
+          },
+          {
+            playerId: offer.senderId,
+            type: "P2P_TRADE",
+            resource: requestResource,
+            amount: requestQuantity,
+            balanceAfter: senderAfter,
+            description: `Received ${requestQuantity} ${requestResource} for trade offer`,
+            metadata: { offerId: offer.id, counterpartyId: playerId },
+          },
+        );
+      }
+
+      const receivedAfter = await adjustHolding(
+        tx,
+        playerId,
+        offerResource,
+        offerQuantity,
+      );
+      ledger.push({
+        playerId,
+        type: "P2P_TRADE",
+        resource: offerResource,
+        amount: offerQuantity,
+        balanceAfter: receivedAfter,
+        description: `Received ${offerQuantity} ${offerResource} from ${requestResource ? "trade offer" : "gift"}`,
+        metadata: { offerId: offer.id, counterpartyId: offer.senderId },
+      });
+
+      await tx.transaction.createMany({ data: ledger });
+
+      await tx.gameEvent.create({
+        data: {
+          playerId,
+          type: "trade_offer_accepted",
+          severity: "INFO",
+          data: {
+            offerId: offer.id,
+            senderId: offer.senderId,
+            giftValue,
+            returnGiftValue,
+          },
+        },
+      });
+
+      return tx.tradeOffer.findUniqueOrThrow({
+        where: { id: offer.id },
+        include: VIEW_INCLUDE,
+      });
+    });
+
+    GameMetrics.trackPlayerAction(playerId, "trade_offer_accept", {
+      offerId: offer.id,
+      giftValue,
+      returnGiftValue,
+    });
+
+    return { success: true, offer: toView(settled) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Accept failed",
+    };
+  }
+}
+
+/**
+ * Close an open offer without settling it and return the escrow to the
+ * sender. Shared by decline, cancel and expiry.
+ */
+async function closeOffer(
+  offer: TradeOffer,
+  status: Extract<TradeOfferStatus, "DECLINED" | "CANCELLED" | "EXPIRED">,
+  actorId: string | null,
+): Promise<OfferRow> {
+  const resource = offer.offerResource as ResourceType;
+  const release = Number(offer.offerQuantity);
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.tradeOffer.updateMany({
+      where: { id: offer.id, version: offer.version, status: "OPEN" },
+      data: { status, closedAt: new Date(), version: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw new Error("Offer was just updated — please try again");
+    }
+
+    const balanceAfter = await adjustHolding(
+      tx,
+      offer.senderId,
+      resource,
+      release,
+    );
+    await tx.transaction.create({
+      data: {
+        playerId: offer.senderId,
+        type: "REFUND",
+        resource,
+        amount: release,
+        balanceAfter,
+        description: `Released escrow for ${status.toLowerCase()} trade offer`,
+        metadata: { offerId: offer.id },
+      },
+    });
+
+    await tx.gameEvent.create({
+      data: {
+        playerId: actorId,
+        type: `trade_offer_${status.toLowerCase()}`,
+        severity: "INFO",
+        data: {
+          offerId: offer.id,
+          senderId: offer.senderId,
+          released: release,
+        },
+      },
+    });
+
+    return tx.tradeOffer.findUniqueOrThrow({
+      where: { id: offer.id },
+      include: VIEW_INCLUDE,
+    });
+  });
+}
+
+/**
+ * The named recipient refuses an offer. Alliance-wide offers can't be
+ * declined by one member — they stay open until cancelled or expired.
+ */
+export async function declineTradeOffer(
+  playerId: string,
+  offerId: string,
+): Promise<TradeOfferResult> {
+  const offer = await prisma.tradeOffer.findFirst({
+    where: { id: offerId, recipientId: playerId },
+  });
+  if (!offer) return { success: false, error: "Offer not found" };
+  if (offer.status !== "OPEN") {
+    return {
+      success: false,
+      error: `Offer is already ${offer.status.toLowerCase()}`,
+    };
+  }
+
+  try {
+    const closed = await closeOffer(offer, "DECLINED", playerId);
+    return { success: true, offer: toView(closed) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Decline failed",
+    };
+  }
+}
+
+/**
+ * The sender withdraws an open offer.
+ */
+export async function cancelTradeOffer(
+  playerId: string,
+  offerId: string,
+): Promise<TradeOfferResult> {
+  const offer = await prisma.tradeOffer.findFirst({
+    where: { id: offerId, senderId: playerId },
+  });
+  if (!offer) return { success: false, error: "Offer not found" };
+  if (offer.status !== "OPEN") {
+    return {
+      success: false,
+      error: `Offer is already ${offer.status.toLowerCase()}`,
+    };
+  }
+
+  try {
+    const closed = await closeOffer(offer, "CANCELLED", playerId);
+    return { success: true, offer: toView(closed) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Cancel failed",
+    };
+  }
+}
+
+/**
+ * Expire open offers past their deadline, returning escrow to senders.
+ * One failing offer (e.g. accepted mid-sweep) doesn't stop the batch.
+ */
+export async function expireTradeOffers(
+  now = new Date(),
+  batchSize = 100,
+): Promise<{ expired: number; failed: number }> {
+  const stale = await prisma.tradeOffer.findMany({
+    where: { status: "OPEN", expiresAt: { lte: now } },
+    orderBy: { expiresAt: "asc" },
+    take: batchSize,
+  });
+
+  let expired = 0;
+  let failed = 0;
+  for (const offer of stale) {
+    try {
+      await closeOffer(offer, "EXPIRED", null);
+      expired++;
+    } catch (error) {
+      failed++;
+      GameMetrics.trackError(error, {
+        context: "trade_offer_expiry",
+        offerId: offer.id,
+      });
+    }
+  }
+
+  return { expired, failed };
+}
+
+// ---------------------------------------------------------------------------
+// Views
+// ---------------------------------------------------------------------------
+
+/**
+ * Offers a player can act on, their own open offers, recent history and
+ * today's gift allowance.
+ */
+export async function getTradeOffers(
+  playerId: string,
+): Promise<TradeOffersOverview> {
+  const member = await prisma.allianceMember.findUnique({
+    where: { playerId },
+  });
+  const now = new Date();
+
+  const [incoming, outgoing, history, config, giftedToday, receivedToday] =
+    await Promise.all([
+      prisma.tradeOffer.findMany({
+        where: {
+          status: "OPEN",
+          expiresAt: { gt: now },
+          senderId: { not: playerId },
+          OR: [
+            { recipientId: playerId },
+            ...(member ? [{ allianceId: member.allianceId }] : []),
+          ],
+        },
+        orderBy: { createdAt: "desc" },
+        include: VIEW_INCLUDE,
+      }),
+      prisma.tradeOffer.findMany({
+        where: { senderId: playerId, status: "OPEN" },
+        orderBy: { createdAt: "desc" },
+        include: VIEW_INCLUDE,
+      }),
+      prisma.tradeOffer.findMany({
+        where: {
+          status: { not: "OPEN" },
+          OR: [
+            { senderId: playerId },
+            { recipientId: playerId },
+            { acceptedById: playerId },
+          ],
+        },
+        orderBy: { closedAt: "desc" },
+        take: HISTORY_LIMIT,
+        include: VIEW_INCLUDE,
+      }),
+      loadGameConfig(),
+      getGiftedToday(playerId),
+      getReceivedToday(playerId),
+    ]);
+
+  return {
+    incoming: incoming.map(toView),
+    outgoing: outgoing.map(toView),
+    history: history.map(toView),
+    giftLimit: config.gift_daily_limit,
+    giftedToday,
+    receivedToday,
+  };
+}
+
+const tradeOffers = {
+  createTradeOffer,
+  acceptTradeOffer,
+  declineTradeOffer,
+  cancelTradeOffer,
+  expireTradeOffers,
+  getTradeOffers,
+};
+
+export default tradeOffers;
@@ -14,10 +14,11 @@ export const FRAME_IMAGE = {
 /** Build a full URL from a relative path */
 export function absoluteUrl(path: string): string {
   const baseUrl =
-    process.env.NEXT_PUBLIC_APP_URL || process.env.VERCEL_URL
+    process.env.NEXT_PUBLIC_APP_URL ||
+    (process.env.VERCEL_URL
       ? `https://${process.env.VERCEL_URL}`
-      : "http://localhost:3000";
-  return `${baseUrl}${path.startsWith("/") ? path : `/${path}`}`;
+      : "http://localhost:3000");
+  return `${baseUrl.replace(/\/+$/, "")}${path.startsWith("/") ? path : `/${path}`}`;
 }
 
 /**
@@ -116,7 +117,7 @@ export const GAME_CONSTANTS = {
   ] as const,
 } as const;
 
-/** FID used for demo/testing when not in Farcaster. Enables /dashboard?fid=1 playable flow. */
+/** FID used for demo/testing when not in Farcaster. Only offered by the development sign-in (stub verifier). */
 export const DEMO_FID = 1;
 
 export type ModuleType = (typeof GAME_CONSTANTS.MODULE_TYPES)[number];
@@ -137,6 +138,11 @@ export function formatLunar(amount: number): string {
   return `${formatNumber(amount)} $LUNAR`;
 }
 
+/** Round to 4 decimal places — the precision of Decimal(20, 4) columns */
+export function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
 // --- Time ---
 
 /** Get seconds until next game tick */
@@ -148,3 +154,44 @@ export function secondsUntilNextTick(): number {
       1000,
   );
 }
+
+/** Midnight UTC at the start of `now`'s day (daily caps reset here) */
+export function startOfUtcDay(now = new Date()): Date {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+}
+
+// --- Encoding ---
+
+/** Unpadded base64url, for signed tokens (edge-safe: no Buffer) */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** Decode base64url, or null when it isn't valid */
+export function fromBase64Url(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+// --- Database ---
+
+/** Whether a Prisma error is a unique-constraint violation (P2002) */
+export function isPrismaUniqueViolation(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code: string }).code === "P2002"
+  );
+}
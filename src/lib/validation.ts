@@ -17,6 +17,7 @@ const MIN_TRADE_QUANTITY = 1;
 const MAX_ALLIANCE_NAME_LENGTH = 30;
 const MIN_ALLIANCE_NAME_LENGTH = 2;
 const ALLIANCE_NAME_PATTERN = /^[a-zA-Z0-9\s\-_]+$/;
+const MAX_CHAT_MESSAGE_LENGTH = 500;
 
 // --- Trade Input ---
 
@@ -78,6 +79,246 @@ export function validateTradeInput(
   };
 }
 
+/**
+ * Parse the Frame market text input for a Buy or Sell button press.
+ * Format: "<quantity> [resource]" e.g. "10 helium" — the resource defaults
+ * to REGOLITH. The full "<side> <quantity> <resource>" form is accepted
+ * too when its side matches the button.
+ *
+ * @returns Validated trade input or null if invalid
+ */
+export function validateFrameTradeAmount(
+  side: "buy" | "sell",
+  input: string | undefined,
+): ValidatedTradeInput | null {
+  if (!input || typeof input !== "string") return null;
+
+  const parts = input.trim().toLowerCase().split(/\s+/);
+  if (parts[0] === "buy" || parts[0] === "sell") {
+    const parsed = validateTradeInput(input);
+    return parsed?.side === side ? parsed : null;
+  }
+
+  if (!/^\d+$/.test(parts[0] ?? "")) return null;
+  const qty = parseInt(parts[0]!, 10);
+  if (qty < MIN_TRADE_QUANTITY || qty > MAX_TRADE_QUANTITY) return null;
+
+  const resource =
+    parts.length > 1 ? RESOURCE_ALIASES[parts.slice(1).join("_")] : "REGOLITH";
+  if (!resource) return null;
+
+  return { side, resource, quantity: qty };
+}
+
+// --- Limit Order Input ---
+
+const MAX_LIMIT_PRICE = 1_000_000;
+
+export interface ValidatedOrderInput {
+  side: "BUY" | "SELL";
+  resource: ResourceType;
+  quantity: number;
+  limitPrice: number;
+}
+
+/**
+ * Validate a limit order from the dashboard.
+ * Accepts side "buy"/"sell" (any case) and resource names or aliases.
+ *
+ * @returns Validated order input or null if invalid
+ */
+export function validateOrderInput(body: {
+  side?: unknown;
+  resource?: unknown;
+  quantity?: unknown;
+  limitPrice?: unknown;
+}): ValidatedOrderInput | null {
+  if (typeof body.side !== "string") return null;
+  const side = body.side.toUpperCase();
+  if (side !== "BUY" && side !== "SELL") return null;
+
+  if (typeof body.resource !== "string") return null;
+  const resource = RESOURCE_ALIASES[body.resource.trim().toLowerCase()];
+  if (!resource) return null;
+
+  const quantity = validatePositiveInt(body.quantity, {
+    min: MIN_TRADE_QUANTITY,
+    max: MAX_TRADE_QUANTITY,
+  });
+  if (quantity === null) return null;
+
+  const limitPrice = Number(body.limitPrice);
+  if (
+    !Number.isFinite(limitPrice) ||
+    limitPrice <= 0 ||
+    limitPrice > MAX_LIMIT_PRICE
+  ) {
+    return null;
+  }
+
+  return { side, resource, quantity, limitPrice };
+}
+
+// --- Burn Input ---
+
+export interface ValidatedBurnInput {
+  resource: Exclude<ResourceType, "LUNAR">;
+  quantity: number;
+}
+
+/**
+ * Validate a resource burn from the dashboard. Quantities may be
+ * fractional (raw materials are stored to 4 dp) and are rounded down.
+ *
+ * @returns Validated burn input or null if invalid
+ */
+export function validateBurnInput(body: {
+  resource?: unknown;
+  quantity?: unknown;
+}): ValidatedBurnInput | null {
+  if (typeof body.resource !== "string") return null;
+  const resource = RESOURCE_ALIASES[body.resource.trim().toLowerCase()];
+  if (!resource) return null;
+
+  const quantity = Math.floor(Number(body.quantity) * 10_000) / 10_000;
+  if (
+    !Number.isFinite(quantity) ||
+    quantity <= 0 ||
+    quantity > MAX_TRADE_QUANTITY
+  ) {
+    return null;
+  }
+
+  return { resource: resource as ValidatedBurnInput["resource"], quantity };
+}
+
+// --- Treasury Input ---
+
+export interface ValidatedTreasuryInput {
+  resource: ResourceType;
+  quantity: number;
+}
+
+/**
+ * Validate an alliance treasury deposit or withdrawal. $LUNAR moves in
+ * whole units; raw materials are rounded down to 4 dp.
+ *
+ * @returns Validated treasury input or null if invalid
+ */
+export function validateTreasuryInput(body: {
+  resource?: unknown;
+  quantity?: unknown;
+}): ValidatedTreasuryInput | null {
+  if (typeof body.resource !== "string") return null;
+  const name = body.resource.trim().toLowerCase();
+  const resource = name === "lunar" ? "LUNAR" : RESOURCE_ALIASES[name];
+  if (!resource) return null;
+
+  const raw = Number(body.quantity);
+  const quantity =
+    resource === "LUNAR"
+      ? Math.floor(raw)
+      : Math.floor(raw * 10_000) / 10_000;
+  if (
+    !Number.isFinite(quantity) ||
+    quantity <= 0 ||
+    quantity > MAX_TRADE_QUANTITY
+  ) {
+    return null;
+  }
+
+  return { resource, quantity };
+}
+
+// --- Trade Offer Input ---
+
+export interface ValidatedTradeOfferInput {
+  recipientFid?: number;
+  allianceId?: string;
+  offerResource: ResourceType;
+  offerQuantity: number;
+  requestResource?: ResourceType;
+  requestQuantity?: number;
+  message?: string;
+}
+
+/**
+ * Validate a player-to-player trade offer. Exactly one of `recipientFid` /
+ * `allianceId` names the counterparty; each side follows the treasury
+ * rules. Omitting `requestResource` makes the offer a gift.
+ *
+ * @returns Validated offer input or null if invalid
+ */
+export function validateTradeOfferInput(body: {
+  recipientFid?: unknown;
+  allianceId?: unknown;
+  offerResource?: unknown;
+  offerQuantity?: unknown;
+  requestResource?: unknown;
+  requestQuantity?: unknown;
+  message?: unknown;
+}): ValidatedTradeOfferInput | null {
+  const hasRecipient = body.recipientFid !== undefined;
+  const hasAlliance = body.allianceId !== undefined;
+  if (hasRecipient === hasAlliance) return null;
+
+  const recipientFid = hasRecipient ? validateFid(body.recipientFid) : null;
+  if (hasRecipient && recipientFid === null) return null;
+  if (
+    hasAlliance &&
+    (typeof body.allianceId !== "string" || !body.allianceId)
+  ) {
+    return null;
+  }
+
+  const offer = validateTreasuryInput({
+    resource: body.offerResource,
+    quantity: body.offerQuantity,
+  });
+  if (!offer) return null;
+
+  let request: ValidatedTreasuryInput | null = null;
+  if (body.requestResource !== undefined && body.requestResource !== null) {
+    request = validateTreasuryInput({
+      resource: body.requestResource,
+      quantity: body.requestQuantity,
+    });
+    if (!request || request.resource === offer.resource) return null;
+  }
+
+  let message: string | undefined;
+  if (body.message !== undefined) {
+    if (typeof body.message !== "string") return null;
+    message = body.message.trim().slice(0, 200) || undefined;
+  }
+
+  return {
+    recipientFid: recipientFid ?? undefined,
+    allianceId: hasAlliance ? (body.allianceId as string) : undefined,
+    offerResource: offer.resource,
+    offerQuantity: offer.quantity,
+    requestResource: request?.resource,
+    requestQuantity: request?.quantity,
+    message,
+  };
+}
+
+// --- Alliance Chat ---
+
+/**
+ * Validate an alliance chat message: trimmed, non-empty, at most 500 chars
+ * (matches AllianceMessage.body). Control characters other than newlines
+ * are stripped.
+ *
+ * @returns Sanitized message body or null if invalid
+ */
+export function validateChatMessage(body: unknown): string | null {
+  if (typeof body !== "string") return null;
+  const text = body.replace(/[\u0000-\u0009\u000B-\u001F\u007F]/g, "").trim();
+  if (!text || text.length > MAX_CHAT_MESSAGE_LENGTH) return null;
+  return text;
+}
+
 // --- Alliance Input ---
 
 export interface ValidatedAllianceInput {
@@ -118,6 +359,32 @@ export function validateAllianceInput(body: {
   return { name: trimmedName, description };
 }
 
+export interface ValidatedJoinRequestInput {
+  allianceId: string;
+  message?: string;
+}
+
+/**
+ * Validate a request to join an approval-only alliance. The optional note
+ * to the officers is trimmed and capped at 200 chars like a description.
+ *
+ * @returns Validated input or null if invalid
+ */
+export function validateJoinRequestInput(body: {
+  allianceId?: unknown;
+  message?: unknown;
+}): ValidatedJoinRequestInput | null {
+  if (typeof body.allianceId !== "string" || !body.allianceId) return null;
+
+  let message: string | undefined;
+  if (body.message !== undefined) {
+    if (typeof body.message !== "string") return null;
+    message = body.message.trim().slice(0, 200) || undefined;
+  }
+
+  return { allianceId: body.allianceId, message };
+}
+
 // --- Module Input ---
 
 /**
@@ -140,6 +407,16 @@ export function isValidTier(value: unknown): value is Tier {
   );
 }
 
+/**
+ * Validate resource type against allowed values (including LUNAR).
+ */
+export function isValidResourceType(value: unknown): value is ResourceType {
+  return (
+    typeof value === "string" &&
+    GAME_CONSTANTS.RESOURCE_TYPES.includes(value as ResourceType)
+  );
+}
+
 // --- Numeric Input ---
 
 /**
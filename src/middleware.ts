@@ -4,6 +4,12 @@ import {
   checkRateLimit,
   getClientIdentifier,
 } from "@/lib/rate-limit";
+import { getSession, rejectCrossSiteWrite } from "@/lib/session";
+import {
+  REFERRAL_COOKIE,
+  readReferralParams,
+  setReferralCookie,
+} from "@/lib/referral-link";
 
 // Mobile UA patterns for server-side detection
 const MOBILE_UA = /iPhone|iPod|Android.*Mobile|Warpcast|Farcaster/i;
@@ -12,6 +18,13 @@ const MOBILE_UA = /iPhone|iPod|Android.*Mobile|Warpcast|Farcaster/i;
 const API_RATE_LIMIT = 60;
 const API_RATE_WINDOW_MS = 60_000;
 
+/** /api/dashboard/[fid] and its sub-routes; captures the FID segment */
+const DASHBOARD_API = /^\/api\/dashboard\/([^/]+)(?:\/|$)/;
+
+/** APIs that act on the session cookie alone */
+const SESSION_API =
+  /^\/api\/(?:dashboard|alliance\/messages|auth\/session)(?:\/|$)/;
+
 /**
  * Middleware for Farcaster Frame request validation, cron protection,
  * rate limiting, and mobile device detection.
@@ -19,7 +32,14 @@ const API_RATE_WINDOW_MS = 60_000;
  * - Sets x-device-type header based on User-Agent
  * - Frame POST requests to /api/frames are validated for Farcaster signatures
  * - Cron endpoints require a secret token
+ * - Admin endpoints require the admin secret (the FID allowlist is
+ *   checked in the route handlers via authenticateAdmin)
+ * - Dashboard API endpoints require a session cookie for the FID in the
+ *   URL (route handlers re-check via requireSessionFid)
+ * - Writes to session-cookie APIs must come from the app's origin with a
+ *   JSON body (CSRF — the cookie is SameSite=None in production)
  * - API routes are rate limited per IP
+ * - Dashboard page visits with ?ref= keep a first-touch referral cookie
  */
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -66,6 +86,38 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // --- Protect admin endpoints ---
+  if (pathname.startsWith("/api/admin")) {
+    const authHeader = request.headers.get("authorization");
+    const adminSecret = process.env.ADMIN_SECRET;
+
+    if (!adminSecret || authHeader !== `Bearer ${adminSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.next();
+  }
+
+  // --- Cross-site request forgery guard for cookie-authenticated writes ---
+  if (SESSION_API.test(pathname)) {
+    const rejected = rejectCrossSiteWrite(request);
+    if (rejected) return rejected;
+  }
+
+  // --- Require a session for the colony in /api/dashboard/[fid] ---
+  const dashboardFid = DASHBOARD_API.exec(pathname)?.[1];
+  if (dashboardFid) {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    if (String(session.fid) !== dashboardFid) {
+      return NextResponse.json(
+        { error: "Signed in as a different player" },
+        { status: 403 },
+      );
+    }
+  }
+
   // --- Validate Farcaster Frame POST requests ---
   if (pathname.startsWith("/api/frames") && request.method === "POST") {
     try {
@@ -80,9 +132,8 @@ export async function middleware(request: NextRequest) {
         );
       }
 
-      // In production, validate the message signature via Neynar
-      // For now, we pass through and validate in the route handler
-      // where we have access to the Neynar client
+      // Signature, freshness and replay checks run in the route handler
+      // (frame-validation.ts), which needs the database for receipts
 
       // Attach the parsed body for downstream handlers
       const frameHeaders = new Headers(request.headers);
@@ -100,18 +151,32 @@ export async function middleware(request: NextRequest) {
     }
   }
 
-  return NextResponse.next({
+  const response = NextResponse.next({
     request: { headers },
   });
+
+  // --- Remember referral links until the new player signs in ---
+  if (
+    pathname.startsWith("/dashboard") &&
+    !request.cookies.has(REFERRAL_COOKIE)
+  ) {
+    const referral = readReferralParams(request.nextUrl.searchParams);
+    if (referral) setReferralCookie(response, referral);
+  }
+
+  return response;
 }
 
 export const config = {
   matcher: [
     "/api/frames/:path*",
     "/api/cron/:path*",
+    "/api/admin/:path*",
     "/api/game/:path*",
     "/api/market/:path*",
     "/api/dashboard/:path*",
+    "/api/alliance/messages/:path*",
+    "/api/auth/session",
     "/dashboard/:path*",
     "/",
   ],
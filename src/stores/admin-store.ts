@@ -0,0 +1,30 @@
+"use client";
+
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+
+// ---------------------------------------------------------------------------
+// Admin credentials for /api/admin/* requests. The acting admin's FID comes
+// from the dashboard session cookie; only the shared secret is kept here,
+// in sessionStorage so it is dropped when the tab closes.
+// ---------------------------------------------------------------------------
+
+interface AdminState {
+  secret: string | null;
+  signIn: (secret: string) => void;
+  signOut: () => void;
+}
+
+export const useAdminStore = create<AdminState>()(
+  persist(
+    (set) => ({
+      secret: null,
+      signIn: (secret) => set({ secret }),
+      signOut: () => set({ secret: null }),
+    }),
+    {
+      name: "lunar-colony-admin",
+      storage: createJSONStorage(() => sessionStorage),
+    },
+  ),
+);
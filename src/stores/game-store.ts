@@ -17,6 +17,49 @@ export interface DashboardModule {
   bonusOutput: number;
   efficiency: number;
   isActive: boolean;
+  /** Next-level price after event discounts (null at max level) */
+  upgradeCost: number | null;
+  /** Next-level list price before event discounts */
+  baseUpgradeCost: number | null;
+}
+
+/** Event-driven cost multiplier for one action (1 = list price) */
+export interface CostModifier {
+  multiplier: number;
+  /** Names of the events causing it */
+  events: string[];
+}
+
+export type CostAction = "build" | "upgrade" | "repair" | "recruit";
+
+/** Emergency purchase offered by an active or imminent event */
+export interface EmergencyOffer {
+  eventId: string;
+  eventType: string;
+  eventName: string;
+  icon: string;
+  cost: number;
+  /** Modifier keys the purchase cancels */
+  shields: string[];
+  purchased: boolean;
+  availableUntil: string;
+}
+
+/** Current burn payouts (LUNAR per unit) and the events boosting them */
+export interface BurnRates {
+  rates: Record<string, number>;
+  /** Price each burn is valued at (lower of live and base) */
+  prices: Record<string, number>;
+  multiplier: number;
+  scoreMultiplier: number;
+  events: string[];
+}
+
+export interface CrewPerkInfo {
+  name: string;
+  description: string;
+  unlockLevel: number;
+  unlocked: boolean;
 }
 
 export interface DashboardCrew {
@@ -24,6 +67,10 @@ export interface DashboardCrew {
   name: string;
   role: string;
   level: number;
+  xp: number;
+  /** XP needed for the next level; null at max level */
+  xpForNextLevel: number | null;
+  perk: CrewPerkInfo | null;
   specialty: string | null;
   efficiencyBonus: number;
   outputBonus: number;
@@ -45,6 +92,15 @@ export interface ColonyData {
   xpForNextLevel: number;
   lunarBalance: number;
   modules: DashboardModule[];
+  /** GameConfig max_modules_per_player */
+  maxModules: number;
+  maxModuleLevel: number;
+  /** Build cost grows by this factor per module already owned */
+  moduleCostMultiplier: number;
+  crewHireCost: number;
+  costModifiers: Record<CostAction, CostModifier>;
+  emergencyOffers: EmergencyOffer[];
+  burnRates: BurnRates;
   crew: DashboardCrew[];
   resources: PlayerResource[];
   productionRate: number;
@@ -60,6 +116,7 @@ export interface ProductionLogEntry {
   resource: string;
   totalProduced: number;
   totalCollected: number;
+  totalConsumed: number;
   activeModules: number;
   avgEfficiency: number;
 }
@@ -66,6 +66,12 @@ export const ROUTE_MAP: RouteNode[] = [
         icon: "⬆️",
         keywords: ["upgrade", "improve", "enhance", "level up"],
       },
+      {
+        path: "/dashboard/colony/achievements",
+        label: "Achievements",
+        icon: "🏆",
+        keywords: ["achievements", "milestones", "badges", "share"],
+      },
     ],
   },
   {
@@ -111,6 +117,12 @@ export const ROUTE_MAP: RouteNode[] = [
         icon: "📋",
         keywords: ["orders", "pending", "active", "queue"],
       },
+      {
+        path: "/dashboard/market/offers",
+        label: "Player Offers",
+        icon: "🤝",
+        keywords: ["offers", "gift", "swap", "player", "p2p", "barter"],
+      },
       {
         path: "/dashboard/market/history",
         label: "Trade History",
@@ -169,6 +181,12 @@ export const ROUTE_MAP: RouteNode[] = [
         icon: "🏆",
         keywords: ["tournament", "competition", "leaderboard", "rank"],
       },
+      {
+        path: "/dashboard/alliance/referrals",
+        label: "Referrals",
+        icon: "🎟️",
+        keywords: ["referrals", "invite", "friends", "rewards", "code"],
+      },
     ],
   },
 ];
@@ -22,6 +22,10 @@ const DEFAULT_MODULE: ModuleProductionRow = {
   baseOutput: 10,
   bonusOutput: 0,
   ageInCycles: 0,
+  crewId: null,
+  crewRole: null,
+  crewLevel: 0,
+  crewXp: 0,
   crewSpecialty: null,
   crewOutputBonus: 0,
   crewEfficiencyBonus: 0,
@@ -234,6 +238,9 @@ export function createEndGameColony(): ModuleProductionRow[] {
 export function createModuleWithCrew(
   moduleOverrides: Partial<ModuleProductionRow> = {},
   crewOverrides: {
+    role?: string;
+    level?: number;
+    xp?: number;
     specialty?: ModuleType | null;
     outputBonus?: number;
     efficiencyBonus?: number;
@@ -242,6 +249,10 @@ export function createModuleWithCrew(
   const moduleType = moduleOverrides.moduleType ?? "SOLAR_PANEL";
   return createModule({
     ...moduleOverrides,
+    crewId: "crew_test_1",
+    crewRole: crewOverrides.role ?? "engineer",
+    crewLevel: crewOverrides.level ?? 1,
+    crewXp: crewOverrides.xp ?? 0,
     crewSpecialty: crewOverrides.specialty ?? moduleType, // Default: specialty match
     crewOutputBonus: crewOverrides.outputBonus ?? 15,
     crewEfficiencyBonus: crewOverrides.efficiencyBonus ?? 10,
@@ -267,6 +278,9 @@ export function createModifierSet(
   return {
     modifiers,
     activeEventNames: eventNames,
+    sources: Object.fromEntries(
+      Object.keys(modifiers).map((key) => [key, eventNames]),
+    ),
     activeCount: eventNames.length,
   };
 }
@@ -274,6 +288,7 @@ export function createModifierSet(
 export const EMPTY_MODIFIERS: ModifierSet = {
   modifiers: {},
   activeEventNames: [],
+  sources: {},
   activeCount: 0,
 };
 
@@ -284,6 +299,11 @@ export const PRODUCTION_RUSH_MODIFIERS: ModifierSet = {
     MINING_RIG_OUTPUT: 1.75,
   },
   activeEventNames: ["Production Rush"],
+  sources: {
+    GLOBAL_PRODUCTION: ["Production Rush"],
+    SOLAR_PANEL_OUTPUT: ["Production Rush"],
+    MINING_RIG_OUTPUT: ["Production Rush"],
+  },
   activeCount: 1,
 };
 
@@ -294,6 +314,11 @@ export const SOLAR_FLARE_MODIFIERS: ModifierSet = {
     STORAGE_DEPOT_OUTPUT: 2.0,
   },
   activeEventNames: ["Solar Flare"],
+  sources: {
+    SOLAR_PANEL_OUTPUT: ["Solar Flare"],
+    POWER_DEPENDENT_MODULES: ["Solar Flare"],
+    STORAGE_DEPOT_OUTPUT: ["Solar Flare"],
+  },
   activeCount: 1,
 };
 
@@ -0,0 +1,120 @@
+/**
+ * Mock Farcaster notification server.
+ *
+ * Stands in for a Farcaster client's notification endpoint (the `url` in
+ * notificationDetails): a local HTTP server that accepts sendNotification
+ * requests and answers like the real endpoint, so the dispatcher can be
+ * tested over real fetch calls.
+ *
+ * Usage in tests:
+ *   const server = await startMockNotificationServer();
+ *   server.invalidTokens.add("tok_gone");
+ *   ...
+ *   await server.close();
+ */
+
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface SendNotificationRequest {
+  notificationId: string;
+  title: string;
+  body: string;
+  targetUrl: string;
+  tokens: string[];
+}
+
+export interface MockNotificationServer {
+  /**
+   * Endpoint to use as notificationDetails.url — add its origin to
+   * NOTIFICATION_URL_ORIGINS for the webhook to accept it
+   */
+  url: string;
+  /** Every request received, in order */
+  requests: SendNotificationRequest[];
+  /** Tokens reported as invalid (e.g. the user removed the app) */
+  invalidTokens: Set<string>;
+  /** Tokens reported as rate limited */
+  rateLimitedTokens: Set<string>;
+  /** HTTP status to answer the next request with instead of 200 */
+  failNext(status: number): void;
+  close(): Promise<void>;
+}
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+export async function startMockNotificationServer(): Promise<MockNotificationServer> {
+  const requests: SendNotificationRequest[] = [];
+  const invalidTokens = new Set<string>();
+  const rateLimitedTokens = new Set<string>();
+  let nextStatus: number | null = null;
+
+  const server = createServer(async (req, res) => {
+    const status = nextStatus;
+    nextStatus = null;
+    if (status) {
+      res.writeHead(status).end();
+      return;
+    }
+
+    const body = (await readJson(req).catch(
+      () => null,
+    )) as SendNotificationRequest | null;
+    if (req.method !== "POST" || !Array.isArray(body?.tokens)) {
+      res.writeHead(400).end();
+      return;
+    }
+    requests.push(body);
+
+    // Same limits the real endpoint validates
+    if (
+      body.tokens.length > 100 ||
+      body.title.length > 32 ||
+      body.body.length > 128 ||
+      body.notificationId.length > 128
+    ) {
+      res.writeHead(400).end();
+      return;
+    }
+
+    const result = {
+      successfulTokens: body.tokens.filter(
+        (t) => !invalidTokens.has(t) && !rateLimitedTokens.has(t),
+      ),
+      invalidTokens: body.tokens.filter((t) => invalidTokens.has(t)),
+      rateLimitedTokens: body.tokens.filter((t) => rateLimitedTokens.has(t)),
+    };
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ result }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1/frame-notifications`,
+    requests,
+    invalidTokens,
+    rateLimitedTokens,
+    failNext(status) {
+      nextStatus = status;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
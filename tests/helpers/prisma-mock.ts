@@ -44,17 +44,33 @@ export const prismaMock = {
   resourcePrice: createMockModel(),
   priceHistory: createMockModel(),
   priceAlert: createMockModel(),
+  marketOrder: createMockModel(),
+  tradeOffer: createMockModel(),
   transaction: createMockModel(),
   achievement: createMockModel(),
   playerAchievement: createMockModel(),
   alliance: createMockModel(),
   allianceMember: createMockModel(),
+  allianceResource: createMockModel(),
+  allianceMessage: createMockModel(),
+  allianceInvite: createMockModel(),
+  allianceJoinRequest: createMockModel(),
+  allianceProject: createMockModel(),
+  allianceProjectContribution: createMockModel(),
+  tournamentSeason: createMockModel(),
+  tournamentEntry: createMockModel(),
   productionLog: createMockModel(),
   activeEvent: createMockModel(),
   eventParticipant: createMockModel(),
   eventReward: createMockModel(),
   gameEvent: createMockModel(),
+  frameMessageReceipt: createMockModel(),
+  notificationToken: createMockModel(),
+  notificationPreference: createMockModel(),
+  shareSnapshot: createMockModel(),
+  referral: createMockModel(),
   leaderboardSnapshot: createMockModel(),
+  allianceLeaderboardSnapshot: createMockModel(),
   gameConfig: createMockModel(),
   moduleBlueprint: createMockModel(),
   playerSummary: createMockModel(),
@@ -29,6 +29,8 @@ const { GAME_CONSTANTS } =
 
 beforeEach(() => {
   resetPrismaMock();
+  prismaMock.activeEvent.findMany.mockResolvedValue([]);
+  prismaMock.allianceProject.findMany.mockResolvedValue([]);
 });
 
 // =========================================================================
@@ -368,6 +370,11 @@ describe("buildModule", () => {
 // =========================================================================
 
 describe("collectEarnings", () => {
+  beforeEach(() => {
+    // No starved modules waiting on a restock
+    prismaMock.module.findMany.mockResolvedValue([]);
+  });
+
   test("Returns zero for non-existent player", async () => {
     prismaMock.player.findUnique.mockResolvedValueOnce(null);
     const result = await collectEarnings("nonexistent");
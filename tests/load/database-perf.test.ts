@@ -29,6 +29,8 @@ const { calculateColonyState } =
 
 beforeEach(() => {
   resetPrismaMock();
+  prismaMock.playerResource.findMany.mockResolvedValue([]);
+  prismaMock.allianceProject.findMany.mockResolvedValue([]);
 });
 
 // =========================================================================
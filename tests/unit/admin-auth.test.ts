@@ -0,0 +1,77 @@
+/**
+ * Admin Authentication — Unit Tests
+ *
+ * Tests that authenticateAdmin takes the acting admin's FID from the signed
+ * session cookie (never a request header) and requires both the shared
+ * secret and an ADMIN_FIDS entry.
+ */
+
+import { authenticateAdmin } from "@/lib/admin-auth";
+import { createSessionToken, SESSION_COOKIE } from "@/lib/session";
+
+const env = process.env as Record<string, string | undefined>;
+const originalEnv = { ...env };
+
+async function adminRequest(options: {
+  secret?: string;
+  sessionFid?: number;
+  headers?: Record<string, string>;
+}): Promise<Request> {
+  const headers: Record<string, string> = { ...options.headers };
+  if (options.secret) headers.authorization = `Bearer ${options.secret}`;
+  if (options.sessionFid) {
+    const token = await createSessionToken(options.sessionFid);
+    headers.cookie = `${SESSION_COOKIE}=${token}`;
+  }
+  return new Request("http://localhost/api/admin/config", { headers });
+}
+
+beforeEach(() => {
+  env.ADMIN_SECRET = "admin-secret";
+  env.ADMIN_FIDS = "7, 42";
+});
+
+afterEach(() => {
+  for (const key of ["ADMIN_SECRET", "ADMIN_FIDS"]) {
+    if (originalEnv[key] === undefined) delete env[key];
+    else env[key] = originalEnv[key];
+  }
+});
+
+describe("authenticateAdmin", () => {
+  test("Resolves the admin from the session FID", async () => {
+    const req = await adminRequest({ secret: "admin-secret", sessionFid: 42 });
+    expect(await authenticateAdmin(req)).toEqual({ fid: 42, adminId: "42" });
+  });
+
+  test("Rejects a signed-in player who isn't in ADMIN_FIDS", async () => {
+    const req = await adminRequest({ secret: "admin-secret", sessionFid: 99 });
+    expect(await authenticateAdmin(req)).toBeNull();
+  });
+
+  test("Ignores a self-declared x-admin-fid header", async () => {
+    const req = await adminRequest({
+      secret: "admin-secret",
+      sessionFid: 99,
+      headers: { "x-admin-fid": "42" },
+    });
+    expect(await authenticateAdmin(req)).toBeNull();
+
+    const anonymous = await adminRequest({
+      secret: "admin-secret",
+      headers: { "x-admin-fid": "42" },
+    });
+    expect(await authenticateAdmin(anonymous)).toBeNull();
+  });
+
+  test("Still requires the admin secret", async () => {
+    expect(
+      await authenticateAdmin(await adminRequest({ sessionFid: 42 })),
+    ).toBeNull();
+    expect(
+      await authenticateAdmin(
+        await adminRequest({ secret: "wrong", sessionFid: 42 }),
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Admin Engine — Unit Tests
+ *
+ * Tests moderation tooling:
+ *   - searchPlayers (FID / username lookup)
+ *   - adjustPlayerBalance (validation, LUNAR vs resources, audit trail)
+ *   - suspendPlayer / restorePlayer
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+jest.mock("@/lib/metrics", () => ({
+  __esModule: true,
+  GameMetrics: {
+    trackError: jest.fn(),
+  },
+}));
+
+// Import engine after mocks are set up
+const adminEngine =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/admin-engine") as typeof import("@/lib/admin-engine");
+
+const { searchPlayers, adjustPlayerBalance, suspendPlayer, restorePlayer } =
+  adminEngine;
+
+function makePlayer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "player_1",
+    fid: 12345,
+    username: "testuser",
+    level: 3,
+    lunarBalance: 500,
+    moduleCount: 4,
+    lastActive: new Date("2026-01-01"),
+    deletedAt: null,
+    version: 7,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+});
+
+// =========================================================================
+// searchPlayers
+// =========================================================================
+
+describe("searchPlayers", () => {
+  test("returns nothing for a blank query", async () => {
+    expect(await searchPlayers("  ")).toEqual([]);
+    expect(prismaMock.player.findMany).not.toHaveBeenCalled();
+  });
+
+  test("matches numeric queries by FID or username prefix", async () => {
+    prismaMock.player.findMany.mockResolvedValue([makePlayer()]);
+
+    const players = await searchPlayers("12345");
+
+    expect(players[0]).toMatchObject({
+      fid: 12345,
+      lunarBalance: 500,
+      suspendedAt: null,
+    });
+    expect(prismaMock.player.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          OR: [
+            { fid: 12345 },
+            { username: { startsWith: "12345", mode: "insensitive" } },
+          ],
+        },
+      }),
+    );
+  });
+});
+
+// =========================================================================
+// adjustPlayerBalance
+// =========================================================================
+
+describe("adjustPlayerBalance", () => {
+  test("requires a reason and a non-zero amount", async () => {
+    expect(
+      (await adjustPlayerBalance(12345, "LUNAR", 0, "oops", "1")).success,
+    ).toBe(false);
+    const noReason = await adjustPlayerBalance(12345, "LUNAR", 10, " ", "1");
+    expect(noReason.error).toBe("A reason is required");
+  });
+
+  test("caps single adjustments", async () => {
+    const result = await adjustPlayerBalance(
+      12345,
+      "LUNAR",
+      50_000_000,
+      "typo",
+      "1",
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("capped");
+  });
+
+  test("credits LUNAR with version lock and audits it", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(makePlayer());
+
+    const result = await adjustPlayerBalance(
+      12345,
+      "LUNAR",
+      250,
+      "Refund for bug #12",
+      "999",
+    );
+
+    expect(result).toEqual({ success: true, balanceAfter: 750 });
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1", version: 7 },
+      data: { lunarBalance: { increment: 250 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "ADMIN_ADJUSTMENT",
+        resource: "LUNAR",
+        amount: 250,
+        balanceAfter: 750,
+        metadata: { adminId: "999", reason: "Refund for bug #12" },
+      }),
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "admin_adjustment",
+        severity: "WARNING",
+      }),
+    });
+  });
+
+  test("debits raw resources via PlayerResource", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(makePlayer());
+    prismaMock.playerResource.findUnique.mockResolvedValue({ amount: 40 });
+
+    const result = await adjustPlayerBalance(
+      12345,
+      "HELIUM3",
+      -15,
+      "Exploit clawback",
+      "999",
+    );
+
+    expect(result).toEqual({ success: true, balanceAfter: 25 });
+    expect(prismaMock.playerResource.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { amount: { increment: -15 } },
+      }),
+    );
+    expect(prismaMock.player.update).not.toHaveBeenCalled();
+  });
+
+  test("never takes a balance below zero", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(makePlayer());
+
+    const result = await adjustPlayerBalance(
+      12345,
+      "LUNAR",
+      -600,
+      "Clawback",
+      "999",
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("exceeds balance");
+    expect(prismaMock.transaction.create).not.toHaveBeenCalled();
+  });
+
+  test("fails for unknown players", async () => {
+    const result = await adjustPlayerBalance(1, "LUNAR", 5, "Gift", "999");
+    expect(result).toEqual({ success: false, error: "Player not found" });
+  });
+});
+
+// =========================================================================
+// suspendPlayer / restorePlayer
+// =========================================================================
+
+describe("suspendPlayer", () => {
+  test("soft-deletes the player and logs who did it", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(makePlayer());
+    prismaMock.player.update.mockResolvedValue(
+      makePlayer({ deletedAt: new Date("2026-03-01") }),
+    );
+
+    const result = await suspendPlayer(12345, "Botting", "999");
+
+    expect(result.success).toBe(true);
+    expect(result.player?.suspendedAt).toEqual(new Date("2026-03-01"));
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1" },
+      data: { deletedAt: expect.any(Date) },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "player_suspended",
+        data: { fid: 12345, reason: "Botting", adminId: "999" },
+      }),
+    });
+  });
+
+  test("rejects already-suspended players", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ deletedAt: new Date() }),
+    );
+    const result = await suspendPlayer(12345, "Botting", "999");
+    expect(result.error).toBe("Player is already suspended");
+  });
+});
+
+describe("restorePlayer", () => {
+  test("clears deletedAt", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ deletedAt: new Date("2026-03-01") }),
+    );
+    prismaMock.player.update.mockResolvedValue(makePlayer());
+
+    const result = await restorePlayer(12345, "999");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1" },
+      data: { deletedAt: null },
+    });
+  });
+
+  test("rejects players that are not suspended", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(makePlayer());
+    const result = await restorePlayer(12345, "999");
+    expect(result.error).toBe("Player is not suspended");
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Alliance Chat — Unit Tests
+ *
+ * Tests membership scoping, rate limiting, cursor pagination, officer
+ * moderation and the SSE update feed.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engines after mocks
+const {
+  postAllianceMessage,
+  getAllianceMessages,
+  deleteAllianceMessage,
+  getChatUpdates,
+  CHAT_RATE_LIMIT,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/alliance-chat") as typeof import("@/lib/alliance-chat");
+
+let playerSeq = 0;
+
+function mockMembership(
+  role: "LEADER" | "OFFICER" | "MEMBER",
+  playerId = "player_1",
+) {
+  prismaMock.allianceMember.findUnique.mockResolvedValue({
+    id: "mem_1",
+    playerId,
+    allianceId: "ally_1",
+    role,
+    alliance: { deletedAt: null },
+  });
+}
+
+function makeRow(id: string, minutesAgo: number, playerId = "player_2") {
+  return {
+    id,
+    allianceId: "ally_1",
+    playerId,
+    body: `message ${id}`,
+    deletedAt: null,
+    createdAt: new Date(Date.now() - minutesAgo * 60_000),
+    player: { fid: 42, username: "moonwalker" },
+  };
+}
+
+/** Arguments of the nth allianceMessage.findMany call */
+function findManyArgs(n = 0) {
+  return prismaMock.allianceMessage.findMany.mock.calls[n]![0] as Record<
+    string,
+    unknown
+  >;
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.allianceMessage.findMany.mockResolvedValue([]);
+});
+
+// ---------------------------------------------------------------------------
+// 1. Posting
+// ---------------------------------------------------------------------------
+
+describe("postAllianceMessage", () => {
+  it("rejects players outside an alliance", async () => {
+    const result = await postAllianceMessage("player_x", "hello");
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Not in an alliance");
+    expect(prismaMock.allianceMessage.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects members of a disbanded alliance", async () => {
+    prismaMock.allianceMember.findUnique.mockResolvedValue({
+      playerId: "player_1",
+      allianceId: "ally_1",
+      role: "LEADER",
+      alliance: { deletedAt: new Date() },
+    });
+    const result = await postAllianceMessage("player_1", "hello");
+    expect(result.success).toBe(false);
+  });
+
+  it("creates the message in the caller's alliance", async () => {
+    const playerId = `poster_${++playerSeq}`;
+    mockMembership("MEMBER", playerId);
+    prismaMock.allianceMessage.create.mockResolvedValue({
+      ...makeRow("msg_1", 0, playerId),
+      body: "hello",
+    });
+
+    const result = await postAllianceMessage(playerId, "hello");
+
+    expect(result.success).toBe(true);
+    expect(result.message).toMatchObject({
+      id: "msg_1",
+      fid: 42,
+      username: "moonwalker",
+      body: "hello",
+    });
+    expect(prismaMock.allianceMessage.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { allianceId: "ally_1", playerId, body: "hello" },
+      }),
+    );
+  });
+
+  it("rate limits bursts of messages per player", async () => {
+    const playerId = `poster_${++playerSeq}`;
+    mockMembership("MEMBER", playerId);
+    prismaMock.allianceMessage.create.mockResolvedValue(
+      makeRow("msg_1", 0, playerId),
+    );
+
+    for (let i = 0; i < CHAT_RATE_LIMIT; i++) {
+      expect((await postAllianceMessage(playerId, "spam")).success).toBe(true);
+    }
+    const blocked = await postAllianceMessage(playerId, "spam");
+
+    expect(blocked.success).toBe(false);
+    expect(blocked.retryAfterMs).toBeGreaterThan(0);
+    expect(prismaMock.allianceMessage.create).toHaveBeenCalledTimes(
+      CHAT_RATE_LIMIT,
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. History
+// ---------------------------------------------------------------------------
+
+describe("getAllianceMessages", () => {
+  it("returns null outside an alliance", async () => {
+    expect(await getAllianceMessages("player_x")).toBeNull();
+  });
+
+  it("returns the page oldest-first with a cursor when more exist", async () => {
+    mockMembership("MEMBER");
+    // Newest first, one more than the limit
+    prismaMock.allianceMessage.findMany.mockResolvedValue([
+      makeRow("msg_3", 1),
+      makeRow("msg_2", 2),
+      makeRow("msg_1", 3),
+    ]);
+
+    const page = await getAllianceMessages("player_1", { limit: 2 });
+
+    expect(page!.messages.map((m) => m.id)).toEqual(["msg_2", "msg_3"]);
+    expect(page!.nextCursor).toBe("msg_2");
+    expect(page!.canModerate).toBe(false);
+
+    const args = findManyArgs();
+    expect(args.where).toEqual({ allianceId: "ally_1", deletedAt: null });
+    expect(args.take).toBe(3);
+  });
+
+  it("pages from the cursor and ends when history is exhausted", async () => {
+    mockMembership("OFFICER");
+    prismaMock.allianceMessage.findMany.mockResolvedValue([
+      makeRow("msg_1", 3),
+    ]);
+
+    const page = await getAllianceMessages("player_1", {
+      before: "msg_2",
+      limit: 2,
+    });
+
+    expect(page!.nextCursor).toBeNull();
+    expect(page!.canModerate).toBe(true);
+    const args = findManyArgs();
+    expect(args.cursor).toEqual({ id: "msg_2" });
+    expect(args.skip).toBe(1);
+  });
+
+  it("clamps the page size", async () => {
+    mockMembership("MEMBER");
+    await getAllianceMessages("player_1", { limit: 10_000 });
+    const args = findManyArgs();
+    expect(args.take).toBe(101);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Moderation
+// ---------------------------------------------------------------------------
+
+describe("deleteAllianceMessage", () => {
+  it("lets officers delete other members' messages", async () => {
+    mockMembership("OFFICER");
+    prismaMock.allianceMessage.findUnique.mockResolvedValue(
+      makeRow("msg_1", 1, "player_2"),
+    );
+
+    const result = await deleteAllianceMessage("player_1", "msg_1");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.allianceMessage.update).toHaveBeenCalledWith({
+      where: { id: "msg_1" },
+      data: { deletedAt: expect.any(Date), deletedById: "player_1" },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "alliance_message_deleted",
+        data: expect.objectContaining({ messageId: "msg_1", moderated: true }),
+      }),
+    });
+  });
+
+  it("lets members delete their own messages", async () => {
+    mockMembership("MEMBER");
+    prismaMock.allianceMessage.findUnique.mockResolvedValue(
+      makeRow("msg_1", 1, "player_1"),
+    );
+
+    const result = await deleteAllianceMessage("player_1", "msg_1");
+    expect(result.success).toBe(true);
+  });
+
+  it("forbids members deleting others' messages", async () => {
+    mockMembership("MEMBER");
+    prismaMock.allianceMessage.findUnique.mockResolvedValue(
+      makeRow("msg_1", 1, "player_2"),
+    );
+
+    const result = await deleteAllianceMessage("player_1", "msg_1");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/officers/);
+    expect(prismaMock.allianceMessage.update).not.toHaveBeenCalled();
+  });
+
+  it("does not reach messages in another alliance", async () => {
+    mockMembership("LEADER");
+    prismaMock.allianceMessage.findUnique.mockResolvedValue({
+      ...makeRow("msg_1", 1),
+      allianceId: "ally_other",
+    });
+
+    const result = await deleteAllianceMessage("player_1", "msg_1");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Message not found");
+  });
+
+  it("rejects already-deleted messages", async () => {
+    mockMembership("LEADER");
+    prismaMock.allianceMessage.findUnique.mockResolvedValue({
+      ...makeRow("msg_1", 1),
+      deletedAt: new Date(),
+    });
+
+    const result = await deleteAllianceMessage("player_1", "msg_1");
+    expect(result.success).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Push
+// ---------------------------------------------------------------------------
+
+describe("getChatUpdates", () => {
+  it("returns new messages and deletions since the last poll", async () => {
+    const since = new Date(Date.now() - 5_000);
+    prismaMock.allianceMessage.findMany
+      .mockResolvedValueOnce([makeRow("msg_9", 0)])
+      .mockResolvedValueOnce([{ id: "msg_4" }]);
+
+    const updates = await getChatUpdates("ally_1", since);
+
+    expect(updates.messages.map((m) => m.id)).toEqual(["msg_9"]);
+    expect(updates.deletedIds).toEqual(["msg_4"]);
+
+    expect(findManyArgs(0).where).toEqual({
+      allianceId: "ally_1",
+      deletedAt: null,
+      createdAt: { gt: since },
+    });
+    expect(findManyArgs(1).where).toEqual({
+      allianceId: "ally_1",
+      deletedAt: { gt: since },
+    });
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Alliance Engine — Unit Tests
+ *
+ * Tests treasury deposits, role-limited withdrawals, the production tithe
+ * and contribution-weighted dividend payouts.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engines after mocks
+const {
+  depositToTreasury,
+  withdrawFromTreasury,
+  getTreasury,
+  applyAllianceTithe,
+  payAllianceDividend,
+  distributeAllianceDividends,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/alliance-engine") as typeof import("@/lib/alliance-engine");
+const { invalidateGameConfig } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/game-config") as typeof import("@/lib/game-config");
+
+function makeAlliance(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "ally_1",
+    name: "Moon Miners",
+    totalLunar: 5000,
+    dividendPool: 0,
+    xp: 0,
+    level: 1,
+    deletedAt: null,
+    version: 4,
+    ...overrides,
+  };
+}
+
+function mockMembership(
+  role: "LEADER" | "OFFICER" | "MEMBER",
+  alliance = makeAlliance(),
+  contributed = 0,
+) {
+  prismaMock.allianceMember.findUnique.mockResolvedValue({
+    id: "mem_1",
+    playerId: "player_1",
+    allianceId: alliance.id,
+    role,
+    contributed,
+    alliance,
+  });
+}
+
+/** Ledger rows written via transaction.create */
+function ledger() {
+  return prismaMock.transaction.create.mock.calls.map(
+    (c) => (c[0] as { data: Record<string, unknown> }).data,
+  );
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+  invalidateGameConfig();
+  prismaMock.gameConfig.findMany.mockResolvedValue([]);
+  prismaMock.transaction.findMany.mockResolvedValue([]);
+  prismaMock.allianceResource.findMany.mockResolvedValue([]);
+  prismaMock.player.findUnique.mockResolvedValue({
+    id: "player_1",
+    lunarBalance: 1000,
+    version: 2,
+  });
+});
+
+// =========================================================================
+// Deposits
+// =========================================================================
+
+describe("depositToTreasury", () => {
+  test("Requires alliance membership", async () => {
+    const result = await depositToTreasury("player_1", "LUNAR", 100);
+    expect(result).toEqual({ success: false, error: "Not in an alliance" });
+  });
+
+  test("Rejects deposits larger than the player's balance", async () => {
+    mockMembership("MEMBER");
+    const result = await depositToTreasury("player_1", "LUNAR", 2000);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Not enough \$LUNAR/);
+  });
+
+  test("LUNAR deposit moves balance into the treasury and ledger", async () => {
+    mockMembership("MEMBER");
+
+    const result = await depositToTreasury("player_1", "LUNAR", 300);
+
+    expect(result).toMatchObject({ success: true, treasuryBalance: 5300 });
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1", version: 2 },
+      data: { lunarBalance: { decrement: 300 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1", version: 4 },
+      data: { totalLunar: { increment: 300 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.allianceMember.update).toHaveBeenCalledWith({
+      where: { id: "mem_1" },
+      data: { contributed: { increment: 300 } },
+    });
+    expect(ledger()).toEqual([
+      expect.objectContaining({
+        type: "ALLIANCE_DEPOSIT",
+        resource: "LUNAR",
+        amount: -300,
+        balanceAfter: 700,
+      }),
+    ]);
+  });
+
+  test("Resource deposit credits contribution at market base price", async () => {
+    mockMembership("MEMBER");
+    prismaMock.playerResource.findUnique.mockResolvedValue({ amount: 50 });
+    prismaMock.allianceResource.findUnique.mockResolvedValue({ amount: 10 });
+
+    const result = await depositToTreasury("player_1", "REGOLITH", 20);
+
+    expect(result).toMatchObject({ success: true, treasuryBalance: 30 });
+    expect(prismaMock.allianceResource.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { amount: { increment: 20 } },
+      }),
+    );
+    // REGOLITH base price 2.5 → 50 $LUNAR of value
+    expect(prismaMock.allianceMember.update).toHaveBeenCalledWith({
+      where: { id: "mem_1" },
+      data: { contributed: { increment: 50 } },
+    });
+    expect(ledger()[0]).toMatchObject({
+      type: "ALLIANCE_DEPOSIT",
+      resource: "REGOLITH",
+      amount: -20,
+      balanceAfter: 30,
+    });
+  });
+});
+
+// =========================================================================
+// Withdrawals
+// =========================================================================
+
+describe("withdrawFromTreasury", () => {
+  test("Members cannot withdraw", async () => {
+    mockMembership("MEMBER");
+    const result = await withdrawFromTreasury("player_1", "LUNAR", 10);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/officers and leaders/);
+    expect(prismaMock.alliance.update).not.toHaveBeenCalled();
+  });
+
+  test("Officers are capped by the daily withdrawal limit", async () => {
+    mockMembership("OFFICER");
+    prismaMock.transaction.findMany.mockResolvedValue([
+      { metadata: { lunarValue: 900 } },
+    ]);
+
+    const result = await withdrawFromTreasury("player_1", "LUNAR", 200);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/100 \$LUNAR of value left today/);
+    expect(prismaMock.alliance.update).not.toHaveBeenCalled();
+  });
+
+  test("Leaders get the higher limit", async () => {
+    mockMembership("LEADER");
+    prismaMock.transaction.findMany.mockResolvedValue([
+      { metadata: { lunarValue: 900 } },
+    ]);
+
+    const result = await withdrawFromTreasury("player_1", "LUNAR", 200);
+    expect(result.success).toBe(true);
+  });
+
+  test("Cannot withdraw more than the treasury holds", async () => {
+    mockMembership("LEADER", makeAlliance({ totalLunar: 50 }));
+    const result = await withdrawFromTreasury("player_1", "LUNAR", 100);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Treasury only holds 50/);
+  });
+
+  test("LUNAR withdrawal debits the treasury with a balance guard", async () => {
+    mockMembership("OFFICER");
+
+    const result = await withdrawFromTreasury("player_1", "LUNAR", 250);
+
+    expect(result).toMatchObject({ success: true, treasuryBalance: 4750 });
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1", version: 4, totalLunar: { gte: 250 } },
+      data: { totalLunar: { decrement: 250 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1" },
+      data: { lunarBalance: { increment: 250 } },
+    });
+    expect(ledger()).toEqual([
+      expect.objectContaining({
+        type: "ALLIANCE_WITHDRAWAL",
+        amount: 250,
+        balanceAfter: 1250,
+        metadata: { allianceId: "ally_1", lunarValue: 250 },
+      }),
+    ]);
+  });
+
+  test("Withdrawals come off the member's contribution weight", async () => {
+    mockMembership("OFFICER", makeAlliance(), 400);
+
+    await withdrawFromTreasury("player_1", "LUNAR", 250);
+    expect(prismaMock.allianceMember.update).toHaveBeenCalledWith({
+      where: { id: "mem_1" },
+      data: { contributed: { decrement: 250 } },
+    });
+
+    // Floored at zero: only the remaining 400 can come off
+    prismaMock.allianceMember.update.mockClear();
+    await withdrawFromTreasury("player_1", "LUNAR", 600);
+    expect(prismaMock.allianceMember.update).toHaveBeenCalledWith({
+      where: { id: "mem_1" },
+      data: { contributed: { decrement: 400 } },
+    });
+  });
+
+  test("Resource withdrawal counts its $LUNAR value against the limit", async () => {
+    mockMembership("OFFICER");
+    prismaMock.allianceResource.findUnique.mockResolvedValue({ amount: 100 });
+
+    // HELIUM3 base price 45 → 30 units = 1350 value > 1000 officer limit
+    const over = await withdrawFromTreasury("player_1", "HELIUM3", 30);
+    expect(over.success).toBe(false);
+
+    const ok = await withdrawFromTreasury("player_1", "HELIUM3", 20);
+    expect(ok).toMatchObject({ success: true, treasuryBalance: 80 });
+    expect(prismaMock.playerResource.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { amount: { increment: 20 } } }),
+    );
+  });
+});
+
+// =========================================================================
+// Treasury view
+// =========================================================================
+
+describe("getTreasury", () => {
+  test("Returns null outside an alliance", async () => {
+    expect(await getTreasury("player_1")).toBeNull();
+  });
+
+  test("Reports holdings and the caller's remaining allowance", async () => {
+    mockMembership("OFFICER", makeAlliance({ dividendPool: 40 }));
+    prismaMock.allianceResource.findMany.mockResolvedValue([
+      { type: "WATER_ICE", amount: 12 },
+      { type: "REGOLITH", amount: 0 },
+    ]);
+    prismaMock.transaction.findMany.mockResolvedValue([
+      { metadata: { lunarValue: 300 } },
+    ]);
+
+    expect(await getTreasury("player_1")).toEqual({
+      allianceId: "ally_1",
+      lunar: 5000,
+      dividendPool: 40,
+      resources: { WATER_ICE: 12 },
+      role: "OFFICER",
+      withdrawLimit: 1000,
+      withdrawnToday: 300,
+    });
+  });
+});
+
+// =========================================================================
+// Production tithe
+// =========================================================================
+
+describe("applyAllianceTithe", () => {
+  const opts = { date: new Date("2026-01-01"), balanceAfter: 1100 };
+
+  test("Players outside an alliance pay nothing", async () => {
+    const tithe = await applyAllianceTithe(
+      prismaMock as never,
+      "player_1",
+      100,
+      opts,
+    );
+    expect(tithe).toBe(0);
+    expect(prismaMock.transaction.create).not.toHaveBeenCalled();
+  });
+
+  test("Skims the dividend percent, splitting it between pool and treasury", async () => {
+    mockMembership("MEMBER");
+
+    const tithe = await applyAllianceTithe(
+      prismaMock as never,
+      "player_1",
+      100,
+      opts,
+    );
+
+    // 5 % of 100 = 5; 50 % of that (floored) → pool
+    expect(tithe).toBe(5);
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1" },
+      data: {
+        totalLunar: { increment: 3 },
+        dividendPool: { increment: 2 },
+      },
+    });
+    expect(prismaMock.allianceMember.update).toHaveBeenCalledWith({
+      where: { id: "mem_1" },
+      data: { contributed: { increment: 5 } },
+    });
+    expect(ledger()[0]).toMatchObject({
+      type: "ALLIANCE_DEPOSIT",
+      amount: -5,
+      balanceAfter: 1095,
+    });
+  });
+
+  test("Skips tithes that round down to zero but still earns alliance XP", async () => {
+    mockMembership("MEMBER");
+    const tithe = await applyAllianceTithe(
+      prismaMock as never,
+      "player_1",
+      10,
+      opts,
+    );
+    expect(tithe).toBe(0);
+    expect(prismaMock.alliance.update).toHaveBeenCalledTimes(1);
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1" },
+      data: { xp: { increment: 10 } },
+    });
+    expect(prismaMock.transaction.create).not.toHaveBeenCalled();
+  });
+});
+
+// =========================================================================
+// Dividends
+// =========================================================================
+
+describe("Dividends", () => {
+  function mockAllianceWithMembers(
+    pool: number,
+    contributions: number[],
+  ): void {
+    prismaMock.alliance.findUnique.mockResolvedValue(
+      makeAlliance({
+        dividendPool: pool,
+        members: contributions.map((contributed, i) => ({
+          id: `mem_${i}`,
+          playerId: `player_${i}`,
+          contributed,
+          player: { lunarBalance: 100 },
+        })),
+      }),
+    );
+  }
+
+  test("Pays the pool out in proportion to contributions", async () => {
+    mockAllianceWithMembers(100, [300, 100]);
+
+    const paid = await payAllianceDividend("ally_1");
+
+    expect(paid).toBe(100);
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1", version: 4 },
+      data: { dividendPool: { decrement: 100 }, version: { increment: 1 } },
+    });
+    expect(ledger().map((row) => [row.playerId, row.type, row.amount])).toEqual(
+      [
+        ["player_0", "ALLIANCE_DIVIDEND", 75],
+        ["player_1", "ALLIANCE_DIVIDEND", 25],
+      ],
+    );
+  });
+
+  test("Splits equally when nobody has contributed and keeps the remainder", async () => {
+    mockAllianceWithMembers(10, [0, 0, 0]);
+
+    const paid = await payAllianceDividend("ally_1");
+
+    expect(paid).toBe(9);
+    expect(ledger().map((row) => row.amount)).toEqual([3, 3, 3]);
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { dividendPool: { decrement: 9 }, version: { increment: 1 } },
+      }),
+    );
+  });
+
+  test("Batch distribution totals payouts and counts failures", async () => {
+    prismaMock.alliance.findMany.mockResolvedValueOnce([
+      { id: "ally_1" },
+      { id: "ally_2" },
+    ]);
+    prismaMock.alliance.findUnique
+      .mockResolvedValueOnce(
+        makeAlliance({
+          dividendPool: 50,
+          members: [
+            {
+              id: "mem_0",
+              playerId: "player_0",
+              contributed: 1,
+              player: { lunarBalance: 0 },
+            },
+          ],
+        }),
+      )
+      .mockRejectedValueOnce(new Error("db down"));
+
+    const result = await distributeAllianceDividends();
+
+    expect(result).toEqual({ alliances: 1, totalPaid: 50, failed: 1 });
+  });
+});
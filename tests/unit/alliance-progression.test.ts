@@ -0,0 +1,297 @@
+/**
+ * Alliance Progression — Unit Tests
+ *
+ * Tests the XP curve, level-ups that add member slots, leader-only perk
+ * upgrades paid from the treasury, and the perk bonuses fed to the
+ * modifier pipeline.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engines after mocks
+const {
+  allianceXpForLevel,
+  allianceXpToReach,
+  allianceLevelForXp,
+  allianceMaxMembers,
+  grantAllianceXp,
+  upgradeAlliancePerk,
+  getAllianceProgression,
+  getAlliancePerkModifiers,
+  ALLIANCE_MAX_LEVEL,
+  ALLIANCE_PERKS,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/alliance-progression") as typeof import("@/lib/alliance-progression");
+const { invalidateGameConfig } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/game-config") as typeof import("@/lib/game-config");
+
+function makeAlliance(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "ally_1",
+    name: "Moon Miners",
+    level: 1,
+    xp: 0,
+    maxMembers: 10,
+    perks: {},
+    totalLunar: 10000,
+    deletedAt: null,
+    version: 6,
+    ...overrides,
+  };
+}
+
+function mockMembership(
+  role: "LEADER" | "OFFICER" | "MEMBER",
+  alliance = makeAlliance(),
+) {
+  prismaMock.allianceMember.findUnique.mockResolvedValue({
+    id: "mem_1",
+    playerId: "player_1",
+    allianceId: alliance.id,
+    role,
+    alliance,
+  });
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+  invalidateGameConfig();
+  prismaMock.gameConfig.findMany.mockResolvedValue([]);
+  prismaMock.alliance.updateMany.mockResolvedValue({ count: 1 });
+});
+
+// ---------------------------------------------------------------------------
+// 1. XP curve
+// ---------------------------------------------------------------------------
+
+describe("XP curve", () => {
+  test("Each level costs more XP than the last", () => {
+    for (let level = 2; level < ALLIANCE_MAX_LEVEL; level++) {
+      expect(allianceXpForLevel(level)).toBeGreaterThan(
+        allianceXpForLevel(level - 1),
+      );
+    }
+    expect(allianceXpForLevel(ALLIANCE_MAX_LEVEL)).toBe(Infinity);
+  });
+
+  test("Level derives from cumulative XP and caps at the max", () => {
+    expect(allianceLevelForXp(0)).toBe(1);
+    expect(allianceLevelForXp(allianceXpToReach(2) - 1)).toBe(1);
+    expect(allianceLevelForXp(allianceXpToReach(2))).toBe(2);
+    expect(allianceLevelForXp(allianceXpToReach(5) + 1)).toBe(5);
+    expect(allianceLevelForXp(Number.MAX_SAFE_INTEGER)).toBe(
+      ALLIANCE_MAX_LEVEL,
+    );
+  });
+
+  test("Every level adds member slots", () => {
+    expect(allianceMaxMembers(20, 2, 1)).toBe(20);
+    expect(allianceMaxMembers(20, 2, 4)).toBe(26);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2–3. XP grants + level-ups
+// ---------------------------------------------------------------------------
+
+describe("grantAllianceXp", () => {
+  test("Adds XP without a level-up below the threshold", async () => {
+    const gain = await grantAllianceXp(
+      prismaMock as never,
+      makeAlliance(),
+      10,
+      "production",
+    );
+
+    expect(gain).toBeNull();
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1" },
+      data: { xp: { increment: 10 } },
+    });
+    expect(prismaMock.alliance.updateMany).not.toHaveBeenCalled();
+  });
+
+  test("Crossing a threshold raises the level and member slots", async () => {
+    const gain = await grantAllianceXp(
+      prismaMock as never,
+      makeAlliance({ xp: allianceXpToReach(2) - 5 }),
+      10,
+      "production",
+    );
+
+    // Default alliance_max_members 10 + 2 slots per level
+    expect(gain).toEqual({ level: 2, levelsGained: 1, maxMembers: 12 });
+    expect(prismaMock.alliance.updateMany).toHaveBeenCalledWith({
+      where: { id: "ally_1", level: { lt: 2 } },
+      data: { level: 2, maxMembers: 12 },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "alliance_level_up",
+        data: expect.objectContaining({ from: 1, to: 2 }),
+      }),
+    });
+  });
+
+  test("A concurrent grant that already levelled up is not re-announced", async () => {
+    prismaMock.alliance.updateMany.mockResolvedValue({ count: 0 });
+
+    const gain = await grantAllianceXp(
+      prismaMock as never,
+      makeAlliance({ xp: allianceXpToReach(2) }),
+      10,
+      "production",
+    );
+
+    expect(gain).toBeNull();
+    expect(prismaMock.gameEvent.create).not.toHaveBeenCalled();
+  });
+
+  test("Ignores non-positive grants", async () => {
+    const gain = await grantAllianceXp(
+      prismaMock as never,
+      makeAlliance(),
+      0.4,
+      "production",
+    );
+    expect(gain).toBeNull();
+    expect(prismaMock.alliance.update).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Perk upgrades
+// ---------------------------------------------------------------------------
+
+describe("upgradeAlliancePerk", () => {
+  const BOOST = ALLIANCE_PERKS["production_boost"]!;
+
+  test("Only the leader can upgrade perks", async () => {
+    mockMembership("OFFICER", makeAlliance({ level: 5 }));
+    const result = await upgradeAlliancePerk("player_1", "production_boost");
+    expect(result).toEqual({
+      success: false,
+      error: "Only the leader can upgrade perks",
+    });
+  });
+
+  test("Ranks are gated by alliance level", async () => {
+    mockMembership("LEADER", makeAlliance({ level: 1 }));
+    const result = await upgradeAlliancePerk("player_1", "production_boost");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`level ${BOOST.ranks[0]!.level}`);
+  });
+
+  test("Treasury must cover the cost", async () => {
+    mockMembership("LEADER", makeAlliance({ level: 5, totalLunar: 100 }));
+    const result = await upgradeAlliancePerk("player_1", "production_boost");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Treasury needs");
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("Buys the next rank from the treasury under a version lock", async () => {
+    mockMembership(
+      "LEADER",
+      makeAlliance({ level: 5, perks: { production_boost: 1 } }),
+    );
+
+    const result = await upgradeAlliancePerk("player_1", "production_boost");
+    const cost = BOOST.ranks[1]!.cost;
+
+    expect(result).toEqual({ success: true, rank: 2, levelsGained: 0 });
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1", version: 6, totalLunar: { gte: cost } },
+      data: {
+        totalLunar: { decrement: cost },
+        perks: { production_boost: 2 },
+        version: { increment: 1 },
+      },
+    });
+    // Spending earns XP (default 0.5 per $LUNAR)
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1" },
+      data: { xp: { increment: cost * 0.5 } },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "alliance_perk_upgraded",
+        data: expect.objectContaining({ perk: "production_boost", rank: 2 }),
+      }),
+    });
+  });
+
+  test("Maxed perks can't be upgraded further", async () => {
+    mockMembership(
+      "LEADER",
+      makeAlliance({ level: 10, perks: { production_boost: 3 } }),
+    );
+    const result = await upgradeAlliancePerk("player_1", "production_boost");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("maxed out");
+  });
+
+  test("A concurrent treasury change aborts the upgrade", async () => {
+    mockMembership("LEADER", makeAlliance({ level: 5 }));
+    prismaMock.alliance.update.mockRejectedValueOnce(new Error("P2025"));
+
+    const result = await upgradeAlliancePerk("player_1", "production_boost");
+    expect(result).toEqual({
+      success: false,
+      error: "Treasury changed, please retry",
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Views + modifier pipeline
+// ---------------------------------------------------------------------------
+
+describe("getAlliancePerkModifiers", () => {
+  test("Players outside an alliance get no bonuses", async () => {
+    expect(await getAlliancePerkModifiers("player_1")).toEqual([]);
+  });
+
+  test("Returns the modifier for each owned rank", async () => {
+    prismaMock.alliance.findFirst.mockResolvedValue({
+      perks: { production_boost: 2, repair_discount: 1, bogus: 3 },
+    });
+
+    expect(await getAlliancePerkModifiers("player_1")).toEqual([
+      {
+        name: "Shared Logistics 2",
+        modifiers: { GLOBAL_PRODUCTION: 1.06 },
+      },
+      {
+        name: "Maintenance Guild 1",
+        modifiers: { GLOBAL_REPAIR_COST: 0.9 },
+      },
+    ]);
+  });
+});
+
+describe("getAllianceProgression", () => {
+  test("Reports XP into the current level and the perk trees", async () => {
+    const xp = allianceXpToReach(3) + 100;
+    mockMembership(
+      "MEMBER",
+      makeAlliance({ level: 3, xp, perks: { market_discount: 1 } }),
+    );
+
+    const view = await getAllianceProgression("player_1");
+
+    expect(view).toMatchObject({
+      level: 3,
+      xpIntoLevel: 100,
+      xpForNextLevel: allianceXpForLevel(3),
+      canUpgrade: false,
+    });
+    expect(view!.perks.find((p) => p.id === "market_discount")).toMatchObject({
+      rank: 1,
+      current: 0.9,
+      next: ALLIANCE_PERKS["market_discount"]!.ranks[1],
+    });
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Alliance Projects — Unit Tests
+ *
+ * Tests blueprint selection, capped contributions, completion rewards
+ * weighted by delivered value, and the bonus fed to the modifier pipeline.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engines after mocks
+const {
+  startProject,
+  contributeToProject,
+  getAllianceProjects,
+  getAllianceProjectModifiers,
+  projectPercent,
+  projectValue,
+  PROJECT_BLUEPRINTS,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/alliance-projects") as typeof import("@/lib/alliance-projects");
+
+const SOLAR = PROJECT_BLUEPRINTS["solar_array"]!;
+
+function mockMembership(role: "LEADER" | "OFFICER" | "MEMBER") {
+  prismaMock.allianceMember.findUnique.mockResolvedValue({
+    id: "mem_1",
+    playerId: "player_1",
+    allianceId: "ally_1",
+    role,
+    alliance: {
+      id: "ally_1",
+      name: "Moon Miners",
+      deletedAt: null,
+      version: 3,
+    },
+  });
+}
+
+function mockActiveProject(progress: Record<string, number> = {}) {
+  prismaMock.allianceProject.findFirst.mockResolvedValue({
+    id: "proj_1",
+    allianceId: "ally_1",
+    blueprint: "solar_array",
+    status: "ACTIVE",
+    progress,
+    version: 7,
+  });
+}
+
+function mockStock(amount: number) {
+  prismaMock.playerResource.findUnique.mockResolvedValue({ amount });
+}
+
+/** Ledger rows written via transaction.create */
+function ledger() {
+  return prismaMock.transaction.create.mock.calls.map(
+    (c) => (c[0] as { data: Record<string, unknown> }).data,
+  );
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.allianceProject.findMany.mockResolvedValue([]);
+  prismaMock.allianceProjectContribution.findMany.mockResolvedValue([]);
+  prismaMock.player.findMany.mockResolvedValue([]);
+});
+
+// ---------------------------------------------------------------------------
+// 1. Blueprints
+// ---------------------------------------------------------------------------
+
+describe("Blueprint helpers", () => {
+  it("values materials at market base price", () => {
+    expect(projectValue({ REGOLITH: 10 })).toBeGreaterThan(0);
+    expect(projectValue({})).toBe(0);
+  });
+
+  it("caps each resource at its requirement when computing progress", () => {
+    expect(projectPercent(SOLAR, {})).toBe(0);
+    expect(projectPercent(SOLAR, { REGOLITH: 1_000_000 })).toBeLessThan(100);
+    expect(projectPercent(SOLAR, { REGOLITH: 2000, RARE_EARTH: 100 })).toBe(
+      100,
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Start
+// ---------------------------------------------------------------------------
+
+describe("startProject", () => {
+  it("lets the leader start a blueprint under a version lock", async () => {
+    mockMembership("LEADER");
+    prismaMock.allianceProject.create.mockResolvedValue({ id: "proj_9" });
+
+    const result = await startProject("player_1", "solar_array");
+
+    expect(result).toEqual({ success: true, projectId: "proj_9" });
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "ally_1", version: 3 },
+      data: { version: { increment: 1 } },
+    });
+    expect(prismaMock.allianceProject.create).toHaveBeenCalledWith({
+      data: {
+        allianceId: "ally_1",
+        blueprint: "solar_array",
+        startedById: "player_1",
+      },
+    });
+  });
+
+  it("rejects non-leaders", async () => {
+    mockMembership("OFFICER");
+    const result = await startProject("player_1", "solar_array");
+    expect(result.success).toBe(false);
+    expect(prismaMock.allianceProject.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown blueprints", async () => {
+    mockMembership("LEADER");
+    const result = await startProject("player_1", "space_elevator");
+    expect(result.error).toBe("Unknown project");
+  });
+
+  it("allows only one active project", async () => {
+    mockMembership("LEADER");
+    prismaMock.allianceProject.findMany.mockResolvedValue([
+      { status: "ACTIVE", blueprint: "deep_core" },
+    ]);
+    const result = await startProject("player_1", "solar_array");
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/current project/);
+  });
+
+  it("builds each blueprint once", async () => {
+    mockMembership("LEADER");
+    prismaMock.allianceProject.findMany.mockResolvedValue([
+      { status: "COMPLETED", blueprint: "solar_array" },
+    ]);
+    const result = await startProject("player_1", "solar_array");
+    expect(result.error).toMatch(/already built/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Contributions
+// ---------------------------------------------------------------------------
+
+describe("contributeToProject", () => {
+  it("rejects players outside an alliance", async () => {
+    const result = await contributeToProject("player_1", "REGOLITH", 10);
+    expect(result.error).toBe("Not in an alliance");
+  });
+
+  it("requires an active project", async () => {
+    mockMembership("MEMBER");
+    const result = await contributeToProject("player_1", "REGOLITH", 10);
+    expect(result.error).toBe("No active project");
+  });
+
+  it("rejects resources the blueprint doesn't need", async () => {
+    mockMembership("MEMBER");
+    mockActiveProject();
+    const result = await contributeToProject("player_1", "HELIUM3", 10);
+    expect(result.success).toBe(false);
+    expect(prismaMock.playerResource.update).not.toHaveBeenCalled();
+  });
+
+  it("rejects deliveries beyond the player's stockpile", async () => {
+    mockMembership("MEMBER");
+    mockActiveProject();
+    mockStock(5);
+    const result = await contributeToProject("player_1", "REGOLITH", 10);
+    expect(result.error).toMatch(/Not enough REGOLITH/);
+  });
+
+  it("debits the stockpile and advances progress", async () => {
+    mockMembership("MEMBER");
+    mockActiveProject({ REGOLITH: 500 });
+    mockStock(1000);
+
+    const result = await contributeToProject("player_1", "REGOLITH", 300);
+
+    expect(result).toMatchObject({
+      success: true,
+      delivered: 300,
+      completed: false,
+      rewardsPaid: 0,
+    });
+    expect(prismaMock.playerResource.update).toHaveBeenCalledWith({
+      where: {
+        playerId_type: { playerId: "player_1", type: "REGOLITH" },
+        amount: { gte: 300 },
+      },
+      data: { amount: { decrement: 300 } },
+    });
+    expect(prismaMock.allianceProject.update).toHaveBeenCalledWith({
+      where: { id: "proj_1", version: 7 },
+      data: { progress: { REGOLITH: 800 }, version: { increment: 1 } },
+    });
+    const value = projectValue({ REGOLITH: 300 });
+    expect(prismaMock.allianceProjectContribution.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { projectId: "proj_1", playerId: "player_1", value },
+        update: { value: { increment: value } },
+      }),
+    );
+    expect(ledger()).toEqual([
+      expect.objectContaining({
+        type: "ALLIANCE_PROJECT",
+        resource: "REGOLITH",
+        amount: -300,
+        balanceAfter: 700,
+      }),
+    ]);
+  });
+
+  it("caps delivery at the remaining requirement", async () => {
+    mockMembership("MEMBER");
+    mockActiveProject({ REGOLITH: 1900 });
+    mockStock(1000);
+
+    const result = await contributeToProject("player_1", "REGOLITH", 500);
+
+    expect(result.delivered).toBe(100);
+    expect(result.completed).toBe(false);
+  });
+
+  it("rejects resources whose requirement is already met", async () => {
+    mockMembership("MEMBER");
+    mockActiveProject({ REGOLITH: 2000 });
+    const result = await contributeToProject("player_1", "REGOLITH", 10);
+    expect(result.error).toMatch(/already met/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Completion
+// ---------------------------------------------------------------------------
+
+describe("Project completion", () => {
+  it("completes the project and pays rewards weighted by value", async () => {
+    mockMembership("MEMBER");
+    mockActiveProject({ REGOLITH: 2000, RARE_EARTH: 50 });
+    mockStock(100);
+
+    // player_2 already delivered the same value player_1 is about to add
+    const finishing = projectValue({ RARE_EARTH: 50 });
+    prismaMock.allianceProjectContribution.findMany.mockResolvedValue([
+      { playerId: "player_2", value: finishing * 3 },
+    ]);
+    prismaMock.player.findMany.mockResolvedValue([
+      { id: "player_1", lunarBalance: 100 },
+      { id: "player_2", lunarBalance: 0 },
+    ]);
+
+    const result = await contributeToProject("player_1", "RARE_EARTH", 50);
+
+    expect(result.completed).toBe(true);
+    expect(prismaMock.allianceProject.update).toHaveBeenCalledWith({
+      where: { id: "proj_1", version: 7 },
+      data: expect.objectContaining({
+        status: "COMPLETED",
+        completedAt: expect.any(Date),
+      }),
+    });
+
+    // 1:3 split of the 5000 reward
+    const rewards = ledger().filter((t) => t.resource === "LUNAR");
+    expect(rewards).toEqual([
+      expect.objectContaining({
+        playerId: "player_1",
+        amount: 1250,
+        balanceAfter: 1350,
+      }),
+      expect.objectContaining({ playerId: "player_2", amount: 3750 }),
+    ]);
+    expect(result.rewardsPaid).toBe(SOLAR.rewardLunar);
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "alliance_project_completed" }),
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 5. Bonuses + view
+// ---------------------------------------------------------------------------
+
+describe("getAllianceProjectModifiers", () => {
+  it("returns completed blueprints' modifiers for the player's alliance", async () => {
+    prismaMock.allianceProject.findMany.mockResolvedValue([
+      { blueprint: "deep_core" },
+      { blueprint: "retired_blueprint" },
+    ]);
+
+    const bonuses = await getAllianceProjectModifiers("player_1");
+
+    expect(bonuses).toEqual([
+      {
+        name: "Deep Core Mining",
+        modifiers: PROJECT_BLUEPRINTS["deep_core"]!.modifiers,
+      },
+    ]);
+    const args = prismaMock.allianceProject.findMany.mock.calls[0]![0] as {
+      where: unknown;
+    };
+    expect(args.where).toEqual({
+      status: "COMPLETED",
+      alliance: {
+        deletedAt: null,
+        members: { some: { playerId: "player_1" } },
+      },
+    });
+  });
+});
+
+describe("getAllianceProjects", () => {
+  it("splits projects into active, completed and available", async () => {
+    mockMembership("LEADER");
+    prismaMock.allianceProject.findMany.mockResolvedValue([
+      {
+        id: "proj_2",
+        blueprint: "deep_core",
+        status: "ACTIVE",
+        progress: { REGOLITH: 1500 },
+        createdAt: new Date(),
+        completedAt: null,
+        contributions: [{ playerId: "player_1", value: 42 }],
+      },
+      {
+        id: "proj_1",
+        blueprint: "solar_array",
+        status: "COMPLETED",
+        progress: { REGOLITH: 2000, RARE_EARTH: 100 },
+        createdAt: new Date(),
+        completedAt: new Date(),
+        contributions: [],
+      },
+    ]);
+
+    const view = await getAllianceProjects("player_1");
+
+    expect(view!.active!.id).toBe("proj_2");
+    expect(view!.active!.myContribution).toBe(42);
+    expect(view!.completed.map((p) => p.id)).toEqual(["proj_1"]);
+    expect(view!.available.map((b) => b.id).sort()).toEqual([
+      "cryo_refinery",
+      "fusion_core",
+    ]);
+    // A project is already underway
+    expect(view!.canStart).toBe(false);
+    expect(view!.bonuses).toEqual(SOLAR.modifiers);
+  });
+});
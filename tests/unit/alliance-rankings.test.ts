@@ -0,0 +1,348 @@
+/**
+ * Alliance Rankings — Unit Tests
+ *
+ * Tests metric ranking, the materialized alliance leaderboard per period,
+ * public profiles and the searchable alliance directory.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engines after mocks
+const {
+  rankAlliances,
+  refreshAllianceLeaderboard,
+  getAllianceLeaderboard,
+  getAllianceProfile,
+  searchAlliances,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/alliance-rankings") as typeof import("@/lib/alliance-rankings");
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+function mockAlliances() {
+  prismaMock.alliance.findMany.mockResolvedValue([
+    {
+      id: "ally_1",
+      name: "Moon Miners",
+      level: 3,
+      memberCount: 2,
+      totalLunar: 5000,
+      members: [{ playerId: "p1" }, { playerId: "p2" }],
+    },
+    {
+      id: "ally_2",
+      name: "Crater Crew",
+      level: 1,
+      memberCount: 1,
+      totalLunar: 9000,
+      members: [{ playerId: "p3" }],
+    },
+    {
+      id: "ally_3",
+      name: "Dust Devils",
+      level: 1,
+      memberCount: 1,
+      totalLunar: 0,
+      members: [{ playerId: "p4" }],
+    },
+  ]);
+}
+
+/** Rows written via allianceLeaderboardSnapshot.createMany */
+function snapshotRows() {
+  const call = prismaMock.allianceLeaderboardSnapshot.createMany.mock
+    .calls[0]![0] as { data: Array<Record<string, unknown>> };
+  return call.data;
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.alliance.findMany.mockResolvedValue([]);
+  prismaMock.transaction.groupBy.mockResolvedValue([]);
+  prismaMock.tournamentEntry.groupBy.mockResolvedValue([]);
+  prismaMock.tournamentEntry.findMany.mockResolvedValue([]);
+  prismaMock.allianceProject.findMany.mockResolvedValue([]);
+  prismaMock.gameEvent.findMany.mockResolvedValue([]);
+  prismaMock.allianceLeaderboardSnapshot.findMany.mockResolvedValue([]);
+});
+
+// ---------------------------------------------------------------------------
+// 1. Ranking
+// ---------------------------------------------------------------------------
+
+describe("rankAlliances", () => {
+  test("Orders by value, breaking ties by member count then name", () => {
+    const ranked = rankAlliances(
+      [
+        { name: "Bravo", memberCount: 3, v: 10 },
+        { name: "Alpha", memberCount: 3, v: 10 },
+        { name: "Charlie", memberCount: 5, v: 10 },
+        { name: "Delta", memberCount: 1, v: 50 },
+      ],
+      (a) => a.v,
+      10,
+    );
+    expect(ranked.map((r) => r.alliance.name)).toEqual([
+      "Delta",
+      "Charlie",
+      "Alpha",
+      "Bravo",
+    ]);
+  });
+
+  test("Zero scores are unranked and the list is capped", () => {
+    const ranked = rankAlliances(
+      [
+        { name: "A", memberCount: 1, v: 0 },
+        { name: "B", memberCount: 1, v: 2 },
+        { name: "C", memberCount: 1, v: 1 },
+      ],
+      (a) => a.v,
+      1,
+    );
+    expect(ranked).toEqual([
+      { alliance: { name: "B", memberCount: 1, v: 2 }, value: 2 },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Materialized leaderboard
+// ---------------------------------------------------------------------------
+
+describe("refreshAllianceLeaderboard", () => {
+  test("Ranks treasury, combined member production and tournament wins", async () => {
+    mockAlliances();
+    prismaMock.transaction.groupBy.mockResolvedValue([
+      { playerId: "p1", _sum: { amount: 400 } },
+      { playerId: "p2", _sum: { amount: 300 } },
+      { playerId: "p3", _sum: { amount: 500 } },
+    ]);
+    prismaMock.tournamentEntry.groupBy.mockResolvedValue([
+      { allianceId: "ally_2", _count: { _all: 2 } },
+    ]);
+
+    const result = await refreshAllianceLeaderboard("WEEKLY", 100, NOW);
+
+    expect(
+      prismaMock.allianceLeaderboardSnapshot.deleteMany,
+    ).toHaveBeenCalledWith({ where: { period: "WEEKLY" } });
+    const rows = snapshotRows();
+    const byMetric = (metric: string) =>
+      rows
+        .filter((r) => r.metric === metric)
+        .map((r) => [r.allianceId, r.rank, r.value]);
+
+    expect(byMetric("TREASURY")).toEqual([
+      ["ally_2", 1, 9000],
+      ["ally_1", 2, 5000],
+    ]);
+    // Moon Miners: 400 + 300 beats Crater Crew's 500
+    expect(byMetric("PRODUCTION")).toEqual([
+      ["ally_1", 1, 700],
+      ["ally_2", 2, 500],
+    ]);
+    expect(byMetric("TOURNAMENT_WINS")).toEqual([["ally_2", 1, 2]]);
+    expect(rows.every((r) => r.period === "WEEKLY")).toBe(true);
+    expect(result.entries).toBe(5);
+  });
+
+  test("Rolling windows bound production and wins; all-time does not", async () => {
+    await refreshAllianceLeaderboard("DAILY", 100, NOW);
+    const since = new Date("2026-03-09T12:00:00Z");
+
+    const production = prismaMock.transaction.groupBy.mock.calls[0]![0] as {
+      where: Record<string, unknown>;
+    };
+    expect(production.where).toMatchObject({
+      type: "PRODUCTION",
+      resource: "LUNAR",
+      createdAt: { gte: since },
+    });
+    const wins = prismaMock.tournamentEntry.groupBy.mock.calls[0]![0] as {
+      where: { season: Record<string, unknown> };
+    };
+    expect(wins.where.season).toEqual({
+      status: "COMPLETED",
+      completedAt: { gte: since },
+    });
+
+    prismaMock.transaction.groupBy.mockClear();
+    await refreshAllianceLeaderboard("ALLTIME", 100, NOW);
+    const allTime = prismaMock.transaction.groupBy.mock.calls[0]![0] as {
+      where: Record<string, unknown>;
+    };
+    expect(allTime.where).not.toHaveProperty("createdAt");
+  });
+});
+
+describe("getAllianceLeaderboard", () => {
+  test("Reads one period and metric in rank order", async () => {
+    prismaMock.allianceLeaderboardSnapshot.findMany.mockResolvedValue([
+      {
+        rank: 1,
+        allianceId: "ally_1",
+        name: "Moon Miners",
+        value: "700.0000",
+        memberCount: 2,
+        level: 3,
+      },
+    ]);
+
+    const entries = await getAllianceLeaderboard("DAILY", "PRODUCTION", 10);
+
+    expect(
+      prismaMock.allianceLeaderboardSnapshot.findMany,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { period: "DAILY", metric: "PRODUCTION" },
+        orderBy: { rank: "asc" },
+        take: 10,
+      }),
+    );
+    expect(entries[0]!.value).toBe(700);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Profiles
+// ---------------------------------------------------------------------------
+
+describe("getAllianceProfile", () => {
+  function mockProfileAlliance(overrides: Record<string, unknown> = {}) {
+    prismaMock.alliance.findFirst.mockResolvedValue({
+      id: "ally_1",
+      name: "Moon Miners",
+      description: "Dig deep",
+      level: 3,
+      memberCount: 3,
+      maxMembers: 14,
+      joinMode: "APPROVAL",
+      totalLunar: 5000,
+      createdAt: new Date("2026-01-01"),
+      members: [
+        {
+          role: "MEMBER",
+          joinedAt: new Date("2026-01-05"),
+          player: { fid: 3, username: "carol", level: 2 },
+        },
+        {
+          role: "LEADER",
+          joinedAt: new Date("2026-01-01"),
+          player: { fid: 1, username: "alice", level: 9 },
+        },
+        {
+          role: "OFFICER",
+          joinedAt: new Date("2026-01-02"),
+          player: { fid: 2, username: "bob", level: 5 },
+        },
+      ],
+      ...overrides,
+    });
+  }
+
+  test("Missing or disbanded alliances have no profile", async () => {
+    expect(await getAllianceProfile("ally_x")).toBeNull();
+    expect(prismaMock.alliance.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: "ally_x", deletedAt: null } }),
+    );
+  });
+
+  test("Lists members by role and reports recruitment status", async () => {
+    mockProfileAlliance();
+    prismaMock.allianceLeaderboardSnapshot.findMany.mockResolvedValue([
+      { metric: "TREASURY", rank: 4 },
+    ]);
+
+    const profile = await getAllianceProfile("ally_1");
+
+    expect(profile!.members.map((m) => m.username)).toEqual([
+      "alice",
+      "bob",
+      "carol",
+    ]);
+    expect(profile!.recruiting).toBe(true);
+    expect(profile!.ranks).toEqual({ TREASURY: 4 });
+  });
+
+  test("Invite-only or full alliances aren't recruiting", async () => {
+    mockProfileAlliance({ joinMode: "INVITE_ONLY" });
+    expect((await getAllianceProfile("ally_1"))!.recruiting).toBe(false);
+
+    mockProfileAlliance({ memberCount: 14 });
+    expect((await getAllianceProfile("ally_1"))!.recruiting).toBe(false);
+  });
+
+  test("Merges level-ups, projects and podiums newest first", async () => {
+    mockProfileAlliance();
+    prismaMock.gameEvent.findMany.mockResolvedValue([
+      {
+        data: { allianceId: "ally_1", to: 3 },
+        createdAt: new Date("2026-02-01"),
+      },
+    ]);
+    prismaMock.allianceProject.findMany.mockResolvedValue([
+      { blueprint: "solar_array", completedAt: new Date("2026-02-10") },
+    ]);
+    prismaMock.tournamentEntry.findMany.mockResolvedValue([
+      {
+        rank: 1,
+        season: {
+          name: "Season 2 — League",
+          completedAt: new Date("2026-01-20"),
+        },
+      },
+    ]);
+
+    const profile = await getAllianceProfile("ally_1");
+
+    expect(profile!.achievements.map((a) => [a.kind, a.title])).toEqual([
+      ["project", "Completed Mega Solar Array"],
+      ["level", "Reached level 3"],
+      ["tournament", "Won Season 2 — League"],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Directory
+// ---------------------------------------------------------------------------
+
+describe("searchAlliances", () => {
+  test("Searches names case-insensitively in the chosen order", async () => {
+    prismaMock.alliance.findMany.mockResolvedValue([
+      { id: "ally_1", name: "Moon Miners", totalLunar: "5000.0000" },
+    ]);
+
+    const results = await searchAlliances({
+      query: "moon",
+      sort: "treasury",
+      recruiting: true,
+    });
+
+    expect(prismaMock.alliance.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          deletedAt: null,
+          name: { contains: "moon", mode: "insensitive" },
+          joinMode: { not: "INVITE_ONLY" },
+        },
+        orderBy: [{ totalLunar: "desc" }],
+      }),
+    );
+    expect(results).toEqual([
+      { id: "ally_1", name: "Moon Miners", treasury: 5000 },
+    ]);
+  });
+
+  test("Defaults to the largest alliances without filters", async () => {
+    await searchAlliances();
+    expect(prismaMock.alliance.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { deletedAt: null },
+        orderBy: [{ memberCount: "desc" }, { level: "desc" }],
+      }),
+    );
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Crew Progression — Unit Tests
+ *
+ * Tests the XP curve, level-up rollover/bonuses and role perk unlocks.
+ */
+
+import {
+  CREW_MAX_LEVEL,
+  CREW_PERKS,
+  LEVEL_UP_BONUS,
+  crewXpForLevel,
+  applyCrewXp,
+  getRolePerk,
+  getPerkEffects,
+} from "@/lib/crew-progression";
+
+const ROOKIE = { xp: 0, level: 1, outputBonus: 10, efficiencyBonus: 5 };
+
+describe("crewXpForLevel", () => {
+  test("Follows the 5 × L^1.5 curve", () => {
+    expect(crewXpForLevel(1)).toBe(5);
+    expect(crewXpForLevel(2)).toBe(14);
+    expect(crewXpForLevel(4)).toBe(40);
+  });
+
+  test("Is strictly increasing up to max level", () => {
+    for (let level = 1; level < CREW_MAX_LEVEL - 1; level++) {
+      expect(crewXpForLevel(level + 1)).toBeGreaterThan(crewXpForLevel(level));
+    }
+  });
+
+  test("Max level needs infinite XP", () => {
+    expect(crewXpForLevel(CREW_MAX_LEVEL)).toBe(Infinity);
+  });
+});
+
+describe("applyCrewXp", () => {
+  test("Accumulates XP below the threshold without leveling", () => {
+    const result = applyCrewXp(ROOKIE, 3);
+    expect(result).toEqual({ ...ROOKIE, xp: 3, levelsGained: 0 });
+  });
+
+  test("Levels up and carries over surplus XP", () => {
+    const result = applyCrewXp({ ...ROOKIE, xp: 4 }, 3);
+    expect(result.level).toBe(2);
+    expect(result.xp).toBe(2);
+    expect(result.levelsGained).toBe(1);
+  });
+
+  test("Each level raises output and efficiency bonuses", () => {
+    const result = applyCrewXp(ROOKIE, 5 + 14);
+    expect(result.level).toBe(3);
+    expect(result.outputBonus).toBe(10 + 2 * LEVEL_UP_BONUS.outputBonus);
+    expect(result.efficiencyBonus).toBe(5 + 2 * LEVEL_UP_BONUS.efficiencyBonus);
+  });
+
+  test("Caps at max level and stops accruing XP", () => {
+    const result = applyCrewXp(ROOKIE, 1_000_000);
+    expect(result.level).toBe(CREW_MAX_LEVEL);
+    expect(result.levelsGained).toBe(CREW_MAX_LEVEL - 1);
+    expect(result.xp).toBe(0);
+
+    const again = applyCrewXp(result, 50);
+    expect(again.level).toBe(CREW_MAX_LEVEL);
+    expect(again.levelsGained).toBe(0);
+    expect(again.outputBonus).toBe(result.outputBonus);
+  });
+
+  test("Ignores negative XP", () => {
+    expect(applyCrewXp({ ...ROOKIE, xp: 2 }, -10).xp).toBe(2);
+  });
+});
+
+describe("Role perks", () => {
+  test("Every recruitable role has a perk", () => {
+    for (const role of [
+      "engineer",
+      "geologist",
+      "pilot",
+      "scientist",
+      "medic",
+    ]) {
+      expect(getRolePerk(role)).toBe(CREW_PERKS[role]);
+    }
+    expect(getRolePerk(null)).toBeNull();
+    expect(getRolePerk("janitor")).toBeNull();
+  });
+
+  test("Perk effects apply only once unlocked", () => {
+    const { unlockLevel } = CREW_PERKS.medic!;
+    expect(getPerkEffects("medic", unlockLevel - 1)).toEqual({});
+    expect(getPerkEffects("medic", unlockLevel)).toEqual({
+      agingThresholdMult: 1.5,
+    });
+  });
+});
@@ -145,6 +145,10 @@ describe("getModifier", () => {
 });
 
 describe("getPlayerEventModifiers", () => {
+  beforeEach(() => {
+    prismaMock.allianceProject.findMany.mockResolvedValue([]);
+  });
+
   test("Returns empty modifiers when no active events", async () => {
     prismaMock.activeEvent.findMany.mockResolvedValue([]);
     const mods = await getPlayerEventModifiers("player_1");
@@ -197,6 +201,7 @@ describe("getPlayerEventModifiers", () => {
     // 1.5 * 1.2 = 1.8
     expect(mods.modifiers["GLOBAL_PRODUCTION"]).toBeCloseTo(1.8, 4);
     expect(mods.activeCount).toBe(2);
+    expect(mods.sources["GLOBAL_PRODUCTION"]).toEqual(["Event A", "Event B"]);
   });
 
   test("Non-global event is skipped if player not in targetPlayerIds", async () => {
@@ -230,6 +235,33 @@ describe("getPlayerEventModifiers", () => {
     expect(mods.modifiers["ALLIANCE_BONUS"]).toBe(2.0);
     expect(mods.activeCount).toBe(1);
   });
+
+  test("Completed alliance projects stack with event modifiers", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([
+      {
+        id: "evt_1",
+        name: "Event A",
+        isGlobal: true,
+        targetPlayerIds: null,
+        modifiers: { GLOBAL_PRODUCTION: 1.5 },
+      } as never,
+    ]);
+    prismaMock.allianceProject.findMany.mockResolvedValue([
+      { blueprint: "fusion_core" },
+      { blueprint: "solar_array" },
+    ]);
+
+    const mods = await getPlayerEventModifiers("player_1");
+    // 1.5 event × 1.05 Fusion Core
+    expect(mods.modifiers["GLOBAL_PRODUCTION"]).toBeCloseTo(1.575, 4);
+    expect(mods.modifiers["SOLAR_PANEL_OUTPUT"]).toBeCloseTo(1.1, 4);
+    expect(mods.sources["GLOBAL_PRODUCTION"]).toEqual([
+      "Event A",
+      "Fusion Core",
+    ]);
+    // Projects are permanent bonuses, not active events
+    expect(mods.activeCount).toBe(1);
+  });
 });
 
 // =========================================================================
@@ -368,3 +400,205 @@ describe("recordParticipation", () => {
     );
   });
 });
+
+// =========================================================================
+// 6. Manual control (admin)
+// =========================================================================
+
+describe("scheduleEvent", () => {
+  const { scheduleEvent } = eventEngine;
+
+  function mockCreate() {
+    prismaMock.activeEvent.create.mockImplementation((async (args: {
+      data: Record<string, unknown>;
+    }) => ({
+      id: "evt_manual",
+      participantCount: 0,
+      ...args.data,
+    })) as never);
+  }
+
+  test("Rejects unknown event types", async () => {
+    const result = await scheduleEvent("NOT_AN_EVENT", "1234");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Unknown event type");
+    expect(prismaMock.activeEvent.create).not.toHaveBeenCalled();
+  });
+
+  test("Rejects durations over 14 days", async () => {
+    const result = await scheduleEvent("PRODUCTION_RUSH", "1234", {
+      durationMs: 15 * 24 * 60 * 60 * 1000,
+    });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Duration");
+  });
+
+  test("Rejects an event type that is already running", async () => {
+    prismaMock.activeEvent.findFirst.mockResolvedValueOnce({
+      id: "evt_1",
+    } as never);
+
+    const result = await scheduleEvent("PRODUCTION_RUSH", "1234");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("already running");
+  });
+
+  test("Starts immediately and records who scheduled it", async () => {
+    mockCreate();
+
+    const result = await scheduleEvent("PRODUCTION_RUSH", "1234", {
+      durationMs: 60 * 60 * 1000,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.event?.status).toBe("ACTIVE");
+    expect(prismaMock.activeEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "PRODUCTION_RUSH",
+        status: "ACTIVE",
+        config: { scheduledBy: "1234" },
+      }),
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "event_scheduled",
+        data: expect.objectContaining({
+          eventId: "evt_manual",
+          scheduledBy: "1234",
+        }),
+      }),
+    });
+  });
+
+  test("Future start is PENDING and targeted events are not global", async () => {
+    mockCreate();
+    const startTime = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    const result = await scheduleEvent("PRODUCTION_RUSH", "1234", {
+      startTime,
+      targetPlayerIds: ["player_1"],
+    });
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.activeEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: "PENDING",
+        startTime,
+        isGlobal: false,
+        targetPlayerIds: ["player_1"],
+      }),
+    });
+  });
+});
+
+describe("cancelEvent", () => {
+  const { cancelEvent } = eventEngine;
+
+  test("Returns not found for unknown events", async () => {
+    const result = await cancelEvent("evt_missing", "1234");
+    expect(result).toEqual({ success: false, error: "Event not found" });
+  });
+
+  test("Cancels a running event and audits it", async () => {
+    prismaMock.activeEvent.findUnique.mockResolvedValueOnce({
+      id: "evt_1",
+      type: "SOLAR_FLARE",
+      name: "Solar Flare",
+      description: "",
+      icon: "☀️",
+      status: "ACTIVE",
+      startTime: new Date(),
+      endTime: new Date(Date.now() + 60_000),
+      modifiers: {},
+      participantCount: 0,
+    } as never);
+    prismaMock.activeEvent.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    const result = await cancelEvent("evt_1", "1234");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.activeEvent.updateMany).toHaveBeenCalledWith({
+      where: { id: "evt_1", status: { in: ["PENDING", "ACTIVE"] } },
+      data: { status: "CANCELLED" },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "event_cancelled",
+        severity: "WARNING",
+        data: expect.objectContaining({ cancelledBy: "1234" }),
+      }),
+    });
+  });
+
+  test("Refuses to cancel a completed event", async () => {
+    prismaMock.activeEvent.findUnique.mockResolvedValueOnce({
+      id: "evt_1",
+      type: "SOLAR_FLARE",
+      status: "COMPLETED",
+    } as never);
+    prismaMock.activeEvent.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const result = await cancelEvent("evt_1", "1234");
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Event is already completed");
+    expect(prismaMock.gameEvent.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("checkTriggeredEvents — alliance tournament", () => {
+  const { checkTriggeredEvents } = eventEngine;
+
+  test("Opens one season targeting every member of qualifying alliances", async () => {
+    prismaMock.alliance.findMany.mockResolvedValueOnce([
+      {
+        id: "ally_1",
+        name: "Moon Miners",
+        totalLunar: 500,
+        members: [{ playerId: "p1" }, { playerId: "p2" }],
+      },
+      {
+        id: "ally_2",
+        name: "Crater Co",
+        totalLunar: 900,
+        members: [{ playerId: "p3" }],
+      },
+    ]);
+    prismaMock.activeEvent.create.mockResolvedValueOnce({
+      id: "evt_t",
+      type: "ALLIANCE_TOURNAMENT",
+      status: "ACTIVE",
+      mechanics: {},
+      startTime: new Date(),
+      endTime: new Date(Date.now() + 60_000),
+    } as never);
+    prismaMock.tournamentSeason.create.mockResolvedValueOnce({
+      id: "season_1",
+      name: "Season 1 — League",
+    } as never);
+
+    const triggered = await checkTriggeredEvents();
+
+    expect(triggered).toContain("ALLIANCE_TOURNAMENT:Season 1 — League");
+    expect(prismaMock.activeEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "ALLIANCE_TOURNAMENT",
+        isGlobal: false,
+        targetPlayerIds: ["p1", "p2", "p3"],
+      }),
+    });
+    expect(prismaMock.tournamentSeason.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventId: "evt_t", format: "LEAGUE" }),
+    });
+  });
+
+  test("Needs at least two qualifying alliances", async () => {
+    prismaMock.alliance.findMany.mockResolvedValueOnce([
+      { id: "ally_1", name: "Moon Miners", totalLunar: 500, members: [] },
+    ]);
+
+    const triggered = await checkTriggeredEvents();
+
+    expect(triggered).toEqual([]);
+    expect(prismaMock.activeEvent.create).not.toHaveBeenCalled();
+  });
+});
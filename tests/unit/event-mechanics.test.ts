@@ -0,0 +1,399 @@
+/**
+ * Event Mechanics — Unit Tests
+ *
+ * Tests the seeded RNG, damage/drop rolls, activation + tick execution,
+ * emergency purchases and the preparation shield on event modifiers.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engines after mocks
+const mechanicsEngine =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/event-mechanics") as typeof import("@/lib/event-mechanics");
+const eventEngine =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/event-engine") as typeof import("@/lib/event-engine");
+const {
+  createSeededRng,
+  parseMechanics,
+  rollModuleDamage,
+  rollBonusDrops,
+  applyActivationMechanics,
+  applyTickMechanics,
+  getEmergencyOffers,
+  purchaseEmergencySupply,
+} = mechanicsEngine;
+const { EVENT_DEFINITIONS, getPlayerEventModifiers } = eventEngine;
+
+/** RNG factories that force every roll to hit / miss. */
+const alwaysHit = () => () => 0;
+const alwaysMiss = () => () => 0.999;
+
+const METEOR = EVENT_DEFINITIONS.METEOR_SHOWER!;
+const FLARE = EVENT_DEFINITIONS.SOLAR_FLARE!;
+
+function eventRow(def: typeof METEOR, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `evt_${def.type.toLowerCase()}`,
+    type: def.type,
+    name: def.name,
+    icon: def.icon,
+    status: "ACTIVE",
+    startTime: new Date(Date.now() - 60_000),
+    endTime: new Date(Date.now() + 3_600_000),
+    modifiers: def.modifiers,
+    mechanics: def.mechanics ?? {},
+    isGlobal: true,
+    targetPlayerIds: null,
+    ...overrides,
+  };
+}
+
+const HABITAT = { id: "mod_hab", type: "HABITAT", level: 1, efficiency: 100 };
+const RIG = { id: "mod_rig", type: "MINING_RIG", level: 3, efficiency: 100 };
+const SOLAR = { id: "mod_sol", type: "SOLAR_PANEL", level: 1, efficiency: 100 };
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.activeEvent.findMany.mockResolvedValue([]);
+  prismaMock.allianceProject.findMany.mockResolvedValue([]);
+  prismaMock.module.findMany.mockResolvedValue([]);
+  prismaMock.eventParticipant.findMany.mockResolvedValue([]);
+});
+
+// =========================================================================
+// 1. Seeded RNG
+// =========================================================================
+
+describe("createSeededRng", () => {
+  test("Same seed yields the same sequence", () => {
+    const a = createSeededRng("evt_1:2026-01-01");
+    const b = createSeededRng("evt_1:2026-01-01");
+    const seqA = Array.from({ length: 5 }, () => a());
+    const seqB = Array.from({ length: 5 }, () => b());
+    expect(seqA).toEqual(seqB);
+  });
+
+  test("Different seeds diverge", () => {
+    expect(createSeededRng("a")()).not.toBe(createSeededRng("b")());
+  });
+
+  test("Values are in [0, 1) and roughly uniform", () => {
+    const rng = createSeededRng("uniform");
+    let sum = 0;
+    for (let i = 0; i < 10_000; i++) {
+      const v = rng();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+      sum += v;
+    }
+    expect(sum / 10_000).toBeCloseTo(0.5, 1);
+  });
+});
+
+// =========================================================================
+// 2. Parsing + pure rolls
+// =========================================================================
+
+describe("parseMechanics", () => {
+  test("Reads meteor shower mechanics", () => {
+    const m = parseMechanics(METEOR.mechanics as never);
+    expect(m.damageChance).toBe(0.05);
+    expect(m.bonusResourceDrop).toBe("RARE_EARTH");
+    expect(m.dropChance).toBeGreaterThan(0);
+  });
+
+  test("Ignores malformed values", () => {
+    expect(parseMechanics(null)).toEqual({});
+    const m = parseMechanics({ damageChance: "high", preparationShields: [1] });
+    expect(m.damageChance).toBeUndefined();
+    expect(m.preparationShields).toEqual([]);
+  });
+});
+
+describe("rollModuleDamage", () => {
+  const mechanics = { damageChance: 0.05 };
+
+  test("Damages habitats by the damage multiplier on a hit", () => {
+    const damaged = rollModuleDamage(
+      [HABITAT, RIG, SOLAR] as never,
+      mechanics,
+      0.8,
+      "seed",
+      alwaysHit,
+    );
+    expect(damaged).toEqual([
+      {
+        moduleId: "mod_hab",
+        moduleType: "HABITAT",
+        efficiencyBefore: 100,
+        efficiencyAfter: 80,
+      },
+    ]);
+  });
+
+  test("Never drops efficiency below the floor", () => {
+    const damaged = rollModuleDamage(
+      [{ ...HABITAT, efficiency: 11 }] as never,
+      mechanics,
+      0.5,
+      "seed",
+      alwaysHit,
+    );
+    expect(damaged[0]!.efficiencyAfter).toBe(10);
+  });
+
+  test("Misses leave modules untouched", () => {
+    expect(
+      rollModuleDamage([HABITAT] as never, mechanics, 0.8, "s", alwaysMiss),
+    ).toEqual([]);
+  });
+
+  test("Seeded rolls are deterministic and near the damage chance", () => {
+    const habitats = Array.from({ length: 2000 }, (_, i) => ({
+      ...HABITAT,
+      id: `hab_${i}`,
+    }));
+    const first = rollModuleDamage(habitats as never, mechanics, 0.8, "evt");
+    const second = rollModuleDamage(habitats as never, mechanics, 0.8, "evt");
+    expect(first).toEqual(second);
+    expect(first.length / habitats.length).toBeGreaterThan(0.03);
+    expect(first.length / habitats.length).toBeLessThan(0.07);
+  });
+});
+
+describe("rollBonusDrops", () => {
+  test("Mining rigs drop the bonus resource scaled by level", () => {
+    const drops = rollBonusDrops(
+      [HABITAT, RIG] as never,
+      parseMechanics(METEOR.mechanics as never),
+      "seed",
+      alwaysHit,
+    );
+    expect(drops).toEqual([
+      { moduleId: "mod_rig", resource: "RARE_EARTH", amount: 6 },
+    ]);
+  });
+
+  test("No drops without a bonus resource", () => {
+    expect(
+      rollBonusDrops([RIG] as never, { dropChance: 1 }, "s", alwaysHit),
+    ).toEqual([]);
+  });
+});
+
+// =========================================================================
+// 3. Activation + tick execution
+// =========================================================================
+
+describe("applyActivationMechanics", () => {
+  test("Damages habitats in scope and logs each hit", async () => {
+    prismaMock.module.findMany.mockResolvedValueOnce([
+      { ...HABITAT, playerId: "player_1" },
+    ]);
+
+    const result = await applyActivationMechanics(
+      eventRow(METEOR) as never,
+      alwaysHit,
+    );
+
+    expect(result.damaged).toHaveLength(1);
+    expect(prismaMock.module.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "mod_hab" },
+        data: expect.objectContaining({ efficiency: 80 }),
+      }),
+    );
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          playerId: "player_1",
+          type: "event_module_damaged",
+        }),
+      }),
+    );
+  });
+
+  test("Events without damage mechanics skip the sweep", async () => {
+    const result = await applyActivationMechanics(
+      eventRow(FLARE) as never,
+      alwaysHit,
+    );
+    expect(result.offersOpen).toBe(true);
+    expect(prismaMock.module.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("applyTickMechanics", () => {
+  const date = new Date("2026-01-01T00:00:00Z");
+
+  test("No-op when no event declares tick mechanics", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([eventRow(FLARE)]);
+    const result = await applyTickMechanics("player_1", date, alwaysHit);
+    expect(result).toEqual({ damaged: [], drops: [] });
+    expect(prismaMock.module.findMany).not.toHaveBeenCalled();
+  });
+
+  test("Applies damage and credits debris drops", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([eventRow(METEOR)]);
+    prismaMock.module.findMany.mockResolvedValue([HABITAT, RIG]);
+    prismaMock.playerResource.upsert.mockResolvedValue({ amount: 16 });
+
+    const result = await applyTickMechanics("player_1", date, alwaysHit);
+
+    expect(result.damaged).toHaveLength(1);
+    expect(result.drops).toEqual([
+      { moduleId: "mod_rig", resource: "RARE_EARTH", amount: 6 },
+    ]);
+    expect(prismaMock.playerResource.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          amount: { increment: 6 },
+          totalMined: { increment: 6 },
+        },
+      }),
+    );
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          type: "PRODUCTION",
+          resource: "RARE_EARTH",
+          amount: 6,
+          balanceAfter: 16,
+        }),
+      }),
+    );
+  });
+
+  test("Skips events targeting other players", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([
+      eventRow(METEOR, { isGlobal: false, targetPlayerIds: ["player_2"] }),
+    ]);
+    const result = await applyTickMechanics("player_1", date, alwaysHit);
+    expect(result.damaged).toEqual([]);
+    expect(prismaMock.module.findMany).not.toHaveBeenCalled();
+  });
+
+  test("Replaying a tick reproduces the same rolls", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([eventRow(METEOR)]);
+    const habitats = Array.from({ length: 200 }, (_, i) => ({
+      ...HABITAT,
+      id: `hab_${i}`,
+    }));
+    prismaMock.module.findMany.mockImplementation(async () =>
+      habitats.map((h) => ({ ...h })),
+    );
+
+    const first = await applyTickMechanics("player_1", date);
+    const second = await applyTickMechanics("player_1", date);
+    expect(first).toEqual(second);
+  });
+});
+
+// =========================================================================
+// 4. Emergency purchases
+// =========================================================================
+
+describe("Emergency purchases", () => {
+  const flare = eventRow(FLARE, { status: "PENDING" });
+
+  test("Lists offers with purchase state", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([
+      flare,
+      eventRow(METEOR),
+    ]);
+    prismaMock.eventParticipant.findMany.mockResolvedValue([
+      { eventId: flare.id },
+    ]);
+
+    const offers = await getEmergencyOffers("player_1");
+    expect(offers).toHaveLength(1);
+    expect(offers[0]).toMatchObject({
+      eventId: flare.id,
+      cost: 250,
+      purchased: true,
+      shields: ["SOLAR_PANEL_OUTPUT", "POWER_DEPENDENT_MODULES"],
+    });
+  });
+
+  test("Purchase charges LUNAR and marks the player prepared", async () => {
+    prismaMock.activeEvent.findUnique.mockResolvedValue(flare);
+    prismaMock.player.findUnique.mockResolvedValue({
+      id: "player_1",
+      lunarBalance: 1000,
+      version: 3,
+    });
+
+    const result = await purchaseEmergencySupply("player_1", flare.id);
+
+    expect(result).toEqual({ success: true, cost: 250, balanceAfter: 750 });
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1", version: 3 },
+      data: {
+        lunarBalance: { decrement: 250 },
+        version: { increment: 1 },
+      },
+    });
+    expect(prismaMock.eventParticipant.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { preparedAt: expect.any(Date) },
+      }),
+    );
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          type: "EVENT_PURCHASE",
+          amount: -250,
+        }),
+      }),
+    );
+  });
+
+  test("Rejects a second purchase", async () => {
+    prismaMock.activeEvent.findUnique.mockResolvedValue(flare);
+    prismaMock.eventParticipant.findUnique.mockResolvedValue({
+      preparedAt: new Date(),
+    });
+    const result = await purchaseEmergencySupply("player_1", flare.id);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Already prepared/);
+  });
+
+  test("Rejects events without an emergency purchase", async () => {
+    prismaMock.activeEvent.findUnique.mockResolvedValue(eventRow(METEOR));
+    const result = await purchaseEmergencySupply("player_1", "evt_x");
+    expect(result.success).toBe(false);
+    expect(prismaMock.player.update).not.toHaveBeenCalled();
+  });
+
+  test("Rejects when the player can't afford it", async () => {
+    prismaMock.activeEvent.findUnique.mockResolvedValue(flare);
+    prismaMock.player.findUnique.mockResolvedValue({
+      id: "player_1",
+      lunarBalance: 100,
+      version: 1,
+    });
+    const result = await purchaseEmergencySupply("player_1", flare.id);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Not enough/);
+  });
+
+  test("Prepared players are shielded from the flare's penalties", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([eventRow(FLARE)]);
+    prismaMock.eventParticipant.findMany.mockResolvedValue([
+      { eventId: "evt_solar_flare" },
+    ]);
+
+    const mods = await getPlayerEventModifiers("player_1");
+    expect(mods.modifiers.SOLAR_PANEL_OUTPUT).toBeUndefined();
+    expect(mods.modifiers.POWER_DEPENDENT_MODULES).toBeUndefined();
+    expect(mods.modifiers.STORAGE_DEPOT_OUTPUT).toBe(2.0);
+  });
+
+  test("Unprepared players still take the penalties", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([eventRow(FLARE)]);
+    const mods = await getPlayerEventModifiers("player_1");
+    expect(mods.modifiers.SOLAR_PANEL_OUTPUT).toBe(0.3);
+  });
+});
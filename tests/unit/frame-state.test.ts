@@ -0,0 +1,134 @@
+/**
+ * Signed Frame State — Unit Tests
+ *
+ * Tests the state token carried in Frame postUrls: round trip, compact
+ * encoding, tampering, expiry, version and secret changes.
+ */
+
+import {
+  encodeFrameState,
+  decodeFrameState,
+  FRAME_STATE_TTL_SECONDS,
+  FRAME_STATE_VERSION,
+} from "@/lib/frame-state";
+import { buildFrameResponse } from "@/lib/frame-response";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const env = process.env as Record<string, string | undefined>;
+const originalEnv = { ...env };
+
+afterEach(() => {
+  for (const key of ["FRAME_STATE_SECRET", "NODE_ENV"]) {
+    if (originalEnv[key] === undefined) delete env[key];
+    else env[key] = originalEnv[key];
+  }
+});
+
+function payloadOf(token: string): Record<string, unknown> {
+  const [, payload] = token.split(".");
+  return JSON.parse(Buffer.from(payload!, "base64url").toString());
+}
+
+// ---------------------------------------------------------------------------
+// 1. Encoding
+// ---------------------------------------------------------------------------
+
+describe("encodeFrameState", () => {
+  test("Round-trips screen, fid, page and selection until expiry", () => {
+    const token = encodeFrameState(
+      { screen: "build_tier", fid: 42, page: 1, selection: "HABITAT" },
+      NOW,
+    );
+
+    expect(decodeFrameState(token, NOW)).toMatchObject({
+      screen: "build_tier",
+      fid: 42,
+      page: 1,
+      selection: "HABITAT",
+      exp: NOW.getTime() / 1000 + FRAME_STATE_TTL_SECONDS,
+    });
+
+    const expired = new Date(NOW.getTime() + FRAME_STATE_TTL_SECONDS * 1000);
+    expect(decodeFrameState(token, expired)).toBeNull();
+  });
+
+  test("Is versioned, compact and URL-safe with a fresh nonce", () => {
+    const a = encodeFrameState({ screen: "home", fid: 42 }, NOW);
+    const b = encodeFrameState({ screen: "home", fid: 42 }, NOW);
+
+    expect(a.startsWith(`${FRAME_STATE_VERSION}.`)).toBe(true);
+    expect(a).toMatch(/^[A-Za-z0-9_.-]+$/);
+    expect(a.length).toBeLessThan(160);
+    // Default page and empty selection are omitted from the payload
+    expect(Object.keys(payloadOf(a)).sort()).toEqual(["f", "n", "s", "x"]);
+    expect(payloadOf(a).n).not.toBe(payloadOf(b).n);
+  });
+
+  test("buildFrameResponse signs the state into the postUrl", () => {
+    const response = buildFrameResponse({
+      screen: "module",
+      fid: 42,
+      state: { selection: "mod_1" },
+    });
+    const url = new URL(response.postUrl);
+
+    expect(url.searchParams.has("screen")).toBe(false);
+    expect(decodeFrameState(url.searchParams.get("state"))).toMatchObject({
+      screen: "module",
+      fid: 42,
+      selection: "mod_1",
+    });
+
+    // Anonymous landing frames carry no state
+    const landing = buildFrameResponse({ screen: "home", fid: 0 });
+    expect(new URL(landing.postUrl).search).toBe("");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Verification
+// ---------------------------------------------------------------------------
+
+describe("decodeFrameState", () => {
+  test("Rejects tampered payloads and malformed tokens", () => {
+    const token = encodeFrameState({ screen: "modules", fid: 42 }, NOW);
+    const [version, , signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...payloadOf(token), f: 7 }),
+    ).toString("base64url");
+
+    expect(decodeFrameState(`${version}.${forged}.${signature}`, NOW)).toBe(
+      null,
+    );
+    expect(decodeFrameState(`${token}x`, NOW)).toBeNull();
+    expect(decodeFrameState(`${token}.extra`, NOW)).toBeNull();
+    expect(decodeFrameState("garbage", NOW)).toBeNull();
+    expect(decodeFrameState(undefined, NOW)).toBeNull();
+  });
+
+  test("Rejects tokens from another version", () => {
+    const token = encodeFrameState({ screen: "home", fid: 42 }, NOW);
+    const [, payload, signature] = token.split(".");
+    expect(
+      decodeFrameState(
+        `${FRAME_STATE_VERSION + 1}.${payload}.${signature}`,
+        NOW,
+      ),
+    ).toBeNull();
+  });
+
+  test("A different secret invalidates outstanding frames", () => {
+    env.FRAME_STATE_SECRET = "secret-a";
+    const token = encodeFrameState({ screen: "home", fid: 42 }, NOW);
+    env.FRAME_STATE_SECRET = "secret-b";
+    expect(decodeFrameState(token, NOW)).toBeNull();
+  });
+
+  test("Production refuses to sign without a secret", () => {
+    delete env.FRAME_STATE_SECRET;
+    env.NODE_ENV = "production";
+    expect(() => encodeFrameState({ screen: "home", fid: 42 })).toThrow(
+      "FRAME_STATE_SECRET",
+    );
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Frame Message Validation — Unit Tests
+ *
+ * Tests the self-hosted validator against real Ed25519-signed Farcaster
+ * messages (hash, signature and signer-registry checks), the fixture
+ * backend, backend selection, and replay protection for stale and
+ * already-seen messages.
+ */
+
+import { ed25519 } from "@noble/curves/ed25519";
+import { blake3 } from "@noble/hashes/blake3";
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engines after mocks
+const {
+  decodeFrameMessage,
+  createHubValidator,
+  createStaticKeyRegistry,
+  fixtureValidator,
+  encodeFixtureMessage,
+  neynarValidator,
+  getFrameValidator,
+  validateFrameRequest,
+  pruneFrameReceipts,
+  FRAME_MESSAGE_MAX_AGE_MS,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/frame-validation") as typeof import("@/lib/frame-validation");
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const FARCASTER_EPOCH_MS = 1_609_459_200_000;
+const env = process.env as Record<string, string | undefined>;
+const originalEnv = { ...env };
+
+// ---------------------------------------------------------------------------
+// Minimal protobuf encoder for building signed messages
+// ---------------------------------------------------------------------------
+
+function varint(n: number): number[] {
+  const out: number[] = [];
+  while (n >= 0x80) {
+    out.push((n % 0x80) | 0x80);
+    n = Math.floor(n / 0x80);
+  }
+  out.push(n);
+  return out;
+}
+
+function numField(field: number, value: number): number[] {
+  return [...varint(field * 8), ...varint(value)];
+}
+
+function lenField(field: number, bytes: Uint8Array | number[]): number[] {
+  return [...varint(field * 8 + 2), ...varint(bytes.length), ...bytes];
+}
+
+function text(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function hex(bytes: Uint8Array): string {
+  return `0x${Buffer.from(bytes).toString("hex")}`;
+}
+
+const privateKey = ed25519.utils.randomPrivateKey();
+const signerKey = hex(ed25519.getPublicKey(privateKey));
+
+/** A signed FRAME_ACTION message, hex-encoded like trustedData.messageBytes. */
+function signedMessage(
+  opts: {
+    fid?: number;
+    buttonIndex?: number;
+    inputText?: string;
+    at?: Date;
+    key?: Uint8Array;
+    tamper?: boolean;
+  } = {},
+): string {
+  const at = opts.at ?? NOW;
+  const body = [
+    ...lenField(1, text("https://lunar.example/api/frames")),
+    ...numField(2, opts.buttonIndex ?? 2),
+    ...(opts.inputText ? lenField(4, text(opts.inputText)) : []),
+  ];
+  const data = new Uint8Array([
+    ...numField(1, 13),
+    ...numField(2, opts.fid ?? 42),
+    ...numField(3, Math.floor((at.getTime() - FARCASTER_EPOCH_MS) / 1000)),
+    ...numField(4, 1),
+    ...lenField(16, body),
+  ]);
+  const hash = blake3(data, { dkLen: 20 });
+  const key = opts.key ?? privateKey;
+  const signature = ed25519.sign(hash, key);
+  const signedData = opts.tamper
+    ? data.map((b, i) => (i === data.length - 1 ? b ^ 1 : b))
+    : data;
+
+  return hex(
+    new Uint8Array([
+      ...lenField(1, signedData),
+      ...lenField(2, hash),
+      ...numField(3, 1),
+      ...lenField(4, signature),
+      ...numField(5, 1),
+      ...lenField(6, ed25519.getPublicKey(key)),
+    ]),
+  );
+}
+
+const hubValidator = createHubValidator(
+  createStaticKeyRegistry(`42:${signerKey}`),
+);
+
+beforeEach(() => {
+  resetPrismaMock();
+});
+
+afterEach(() => {
+  for (const key of [
+    "NODE_ENV",
+    "FRAME_VALIDATOR",
+    "NEYNAR_API_KEY",
+    "FRAME_SIGNER_KEYS",
+  ]) {
+    if (originalEnv[key] === undefined) delete env[key];
+    else env[key] = originalEnv[key];
+  }
+});
+
+// ---------------------------------------------------------------------------
+// 1. Self-hosted validation
+// ---------------------------------------------------------------------------
+
+describe("self-hosted validator", () => {
+  test("Decodes the frame action from the protobuf message", () => {
+    const decoded = decodeFrameMessage(
+      signedMessage({ buttonIndex: 3, inputText: "buy 10 REGOLITH" }),
+    );
+
+    expect(decoded?.action).toMatchObject({
+      fid: 42,
+      buttonIndex: 3,
+      inputText: "buy 10 REGOLITH",
+      url: "https://lunar.example/api/frames",
+      timestamp: NOW,
+    });
+    expect(decodeFrameMessage("0xzz")).toBeNull();
+    expect(decodeFrameMessage("0x0a05")).toBeNull();
+  });
+
+  test("Accepts a message signed by a registered key", async () => {
+    const action = await hubValidator.validate(signedMessage());
+    expect(action).toMatchObject({ fid: 42, buttonIndex: 2 });
+    expect(action?.hash).toMatch(/^0x[0-9a-f]{40}$/);
+  });
+
+  test("Rejects tampered data, foreign signatures and unknown signers", async () => {
+    expect(await hubValidator.validate(signedMessage({ tamper: true }))).toBe(
+      null,
+    );
+
+    const otherKey = ed25519.utils.randomPrivateKey();
+    expect(
+      await hubValidator.validate(signedMessage({ key: otherKey })),
+    ).toBeNull();
+
+    // A valid signature, but the key belongs to someone else
+    expect(await hubValidator.validate(signedMessage({ fid: 7 }))).toBeNull();
+  });
+
+  test("Registry outages propagate so routes can report unavailable", async () => {
+    const validator = createHubValidator({
+      isActiveSigner: jest.fn().mockRejectedValue(new Error("hub down")),
+    });
+    await expect(validator.validate(signedMessage())).rejects.toThrow(
+      "hub down",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Fixtures & backend selection
+// ---------------------------------------------------------------------------
+
+describe("fixture validator", () => {
+  test("Round-trips fixtures with a stable hash", async () => {
+    const bytes = encodeFixtureMessage({
+      fid: 9,
+      buttonIndex: 1,
+      timestamp: NOW,
+    });
+    const first = await fixtureValidator.validate(bytes);
+    const second = await fixtureValidator.validate(bytes);
+
+    expect(first).toMatchObject({ fid: 9, buttonIndex: 1, timestamp: NOW });
+    expect(first?.hash).toBe(second?.hash);
+    expect(await fixtureValidator.validate("0xdeadbeef")).toBeNull();
+  });
+
+  test("Selects backends from the environment", () => {
+    env.FRAME_VALIDATOR = "fixture";
+    expect(getFrameValidator()).toBe(fixtureValidator);
+
+    env.NODE_ENV = "production";
+    expect(getFrameValidator().name).toBe("hub");
+
+    delete env.FRAME_VALIDATOR;
+    env.NEYNAR_API_KEY = "key";
+    expect(getFrameValidator()).toBe(neynarValidator);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Replay protection
+// ---------------------------------------------------------------------------
+
+describe("validateFrameRequest", () => {
+  const request = (messageBytes?: string) => ({
+    trustedData: { messageBytes },
+    untrustedData: { fid: 1, buttonIndex: 1 },
+  });
+
+  test("Accepts a fresh message and records its hash", async () => {
+    const result = await validateFrameRequest(request(signedMessage()), {
+      validator: hubValidator,
+      now: NOW,
+    });
+
+    expect(result).toMatchObject({ ok: true, action: { fid: 42 } });
+    expect(prismaMock.frameMessageReceipt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fid: 42, timestamp: NOW }),
+    });
+  });
+
+  test("Never falls back to untrustedData", async () => {
+    const result = await validateFrameRequest(request(), {
+      validator: hubValidator,
+      now: NOW,
+    });
+    expect(result).toEqual({ ok: false, reason: "missing" });
+
+    const forged = await validateFrameRequest(request("0x1234"), {
+      validator: hubValidator,
+      now: NOW,
+    });
+    expect(forged).toEqual({ ok: false, reason: "invalid" });
+  });
+
+  test("Rejects stale and far-future messages", async () => {
+    const old = new Date(NOW.getTime() - FRAME_MESSAGE_MAX_AGE_MS - 1000);
+    const future = new Date(NOW.getTime() + 5 * 60 * 1000);
+
+    for (const at of [old, future]) {
+      const result = await validateFrameRequest(
+        request(signedMessage({ at })),
+        { validator: hubValidator, now: NOW },
+      );
+      expect(result).toEqual({ ok: false, reason: "stale" });
+    }
+    expect(prismaMock.frameMessageReceipt.create).not.toHaveBeenCalled();
+  });
+
+  test("Rejects a message whose hash was already seen", async () => {
+    prismaMock.frameMessageReceipt.create.mockRejectedValueOnce(
+      Object.assign(new Error("Unique constraint failed"), { code: "P2002" }),
+    );
+
+    const result = await validateFrameRequest(request(signedMessage()), {
+      validator: hubValidator,
+      now: NOW,
+    });
+    expect(result).toEqual({ ok: false, reason: "replayed" });
+  });
+
+  test("Reports backend outages as unavailable", async () => {
+    const result = await validateFrameRequest(request(signedMessage()), {
+      validator: {
+        name: "down",
+        validate: jest.fn().mockRejectedValue(new Error("429")),
+      },
+      now: NOW,
+    });
+    expect(result).toEqual({ ok: false, reason: "unavailable" });
+  });
+
+  test("Prunes receipts past the replay window", async () => {
+    prismaMock.frameMessageReceipt.deleteMany.mockResolvedValueOnce({
+      count: 12,
+    });
+
+    expect(await pruneFrameReceipts(NOW)).toEqual({ pruned: 12 });
+    const { where } = prismaMock.frameMessageReceipt.deleteMany.mock
+      .calls[0]![0] as { where: { createdAt: { lt: Date } } };
+    expect(where.createdAt.lt.getTime()).toBeLessThan(
+      NOW.getTime() - FRAME_MESSAGE_MAX_AGE_MS,
+    );
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Game Config — Unit Tests
+ *
+ * Tests the typed GameConfig layer:
+ *   - Registry defaults match the seeded / shipped values
+ *   - Invalid stored values fall back to defaults
+ *   - updateGameConfig validation, optimistic locking and audit trail
+ *   - Live reload: writes invalidate the cached snapshot
+ *   - getGameConfigHistory reads the audit log
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+jest.mock("@/lib/metrics", () => ({
+  __esModule: true,
+  GameMetrics: {
+    trackError: jest.fn(),
+  },
+}));
+
+// Import module after mocks are set up
+const gameConfig =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/game-config") as typeof import("@/lib/game-config");
+
+const {
+  GAME_CONFIG_REGISTRY,
+  defaultGameConfig,
+  loadGameConfig,
+  getGameConfig,
+  invalidateGameConfig,
+  updateGameConfig,
+  listGameConfig,
+  getGameConfigHistory,
+} = gameConfig;
+
+function makeRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "cfg_1",
+    key: "crew_hire_cost",
+    value: 200,
+    description: "Base cost to hire crew",
+    category: "crew",
+    version: 3,
+    updatedAt: new Date("2026-01-01"),
+    updatedBy: "1234",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+  invalidateGameConfig();
+});
+
+// =========================================================================
+// Registry & reads
+// =========================================================================
+
+describe("Registry", () => {
+  test("every default passes its own validator", () => {
+    for (const [key, spec] of Object.entries(GAME_CONFIG_REGISTRY)) {
+      expect({ key, valid: spec.validate(spec.default) }).toEqual({
+        key,
+        valid: true,
+      });
+    }
+  });
+
+  test("defaults match the engine constants they replace", () => {
+    const defaults = defaultGameConfig();
+    expect(defaults.crew_hire_cost).toBe(200);
+    expect(defaults.alliance_create_cost).toBe(1000);
+    expect(defaults.max_modules_per_player).toBe(20);
+    expect(defaults.trade_fee_percent).toBe(5);
+    expect(defaults.xp_level_formula).toEqual({ base: 100, exponent: 1.5 });
+  });
+});
+
+describe("loadGameConfig", () => {
+  test("overrides defaults with valid DB rows", async () => {
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_hire_cost", value: 300 },
+      { key: "xp_level_formula", value: { base: 80, exponent: 1.2 } },
+    ]);
+
+    const config = await loadGameConfig();
+    expect(config.crew_hire_cost).toBe(300);
+    expect(config.xp_level_formula).toEqual({ base: 80, exponent: 1.2 });
+    expect(config.alliance_create_cost).toBe(1000);
+  });
+
+  test("falls back to the default for invalid or unknown rows", async () => {
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_hire_cost", value: "cheap" },
+      { key: "max_module_level", value: 2.5 },
+      { key: "not_a_real_key", value: 1 },
+    ]);
+
+    const config = await loadGameConfig();
+    expect(config.crew_hire_cost).toBe(200);
+    expect(config.max_module_level).toBe(10);
+    expect(config).not.toHaveProperty("not_a_real_key");
+  });
+
+  test("serves defaults without caching when the DB read fails", async () => {
+    prismaMock.gameConfig.findMany.mockRejectedValueOnce(new Error("down"));
+    expect(await getGameConfig("crew_hire_cost")).toBe(200);
+
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_hire_cost", value: 250 },
+    ]);
+    expect(await getGameConfig("crew_hire_cost")).toBe(250);
+  });
+});
+
+// =========================================================================
+// updateGameConfig
+// =========================================================================
+
+describe("updateGameConfig", () => {
+  test("rejects unknown keys", async () => {
+    const result = await updateGameConfig("made_up", 1, "1234");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Unknown config key");
+  });
+
+  test("rejects values that fail validation", async () => {
+    const result = await updateGameConfig("trade_fee_percent", 90, "1234");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("number 0–50");
+    expect(prismaMock.gameConfig.updateMany).not.toHaveBeenCalled();
+  });
+
+  test("bumps version, stamps updatedBy and logs an audit event", async () => {
+    prismaMock.gameConfig.findUnique.mockResolvedValue(makeRow());
+    prismaMock.gameConfig.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.gameConfig.findUniqueOrThrow.mockResolvedValue(
+      makeRow({ value: 250, version: 4, updatedBy: "5678" }),
+    );
+
+    const result = await updateGameConfig("crew_hire_cost", 250, "5678", 3);
+
+    expect(result.success).toBe(true);
+    expect(result.entry).toMatchObject({
+      key: "crew_hire_cost",
+      value: 250,
+      version: 4,
+      updatedBy: "5678",
+    });
+    expect(prismaMock.gameConfig.updateMany).toHaveBeenCalledWith({
+      where: { key: "crew_hire_cost", version: 3 },
+      data: { value: 250, updatedBy: "5678", version: { increment: 1 } },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "config_updated",
+        data: {
+          key: "crew_hire_cost",
+          previous: 200,
+          value: 250,
+          version: 4,
+          updatedBy: "5678",
+        },
+      }),
+    });
+  });
+
+  test("fails when the caller's version is stale", async () => {
+    prismaMock.gameConfig.findUnique.mockResolvedValue(makeRow());
+
+    const result = await updateGameConfig("crew_hire_cost", 250, "5678", 2);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("version 3");
+    expect(prismaMock.gameConfig.updateMany).not.toHaveBeenCalled();
+  });
+
+  test("fails when a concurrent write wins the version check", async () => {
+    prismaMock.gameConfig.findUnique.mockResolvedValue(makeRow());
+    prismaMock.gameConfig.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await updateGameConfig("crew_hire_cost", 250, "5678");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("concurrently");
+    expect(prismaMock.gameEvent.create).not.toHaveBeenCalled();
+  });
+
+  test("creates the row from registry metadata when missing", async () => {
+    prismaMock.gameConfig.findUnique.mockResolvedValue(null);
+    prismaMock.gameConfig.create.mockResolvedValue(
+      makeRow({ value: 400, version: 1, updatedBy: "5678" }),
+    );
+
+    const result = await updateGameConfig("crew_hire_cost", 400, "5678", 0);
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.gameConfig.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        key: "crew_hire_cost",
+        value: 400,
+        category: "crew",
+        updatedBy: "5678",
+      }),
+    });
+  });
+
+  test("invalidates the cache so the new value is read immediately", async () => {
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_hire_cost", value: 200 },
+    ]);
+    expect(await getGameConfig("crew_hire_cost")).toBe(200);
+
+    prismaMock.gameConfig.findUnique.mockResolvedValue(makeRow());
+    prismaMock.gameConfig.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.gameConfig.findUniqueOrThrow.mockResolvedValue(
+      makeRow({ value: 275, version: 4 }),
+    );
+    await updateGameConfig("crew_hire_cost", 275, "5678");
+
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_hire_cost", value: 275 },
+    ]);
+    expect(await getGameConfig("crew_hire_cost")).toBe(275);
+    expect(prismaMock.gameConfig.findMany).toHaveBeenCalledTimes(2);
+  });
+});
+
+// =========================================================================
+// listGameConfig / history
+// =========================================================================
+
+describe("listGameConfig", () => {
+  test("lists every registry key with its DB state", async () => {
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      makeRow({ value: 300 }),
+      makeRow({ key: "max_module_level", value: -1, version: 2 }),
+    ]);
+
+    const entries = await listGameConfig();
+    expect(entries).toHaveLength(Object.keys(GAME_CONFIG_REGISTRY).length);
+
+    const crew = entries.find((e) => e.key === "crew_hire_cost")!;
+    expect(crew).toMatchObject({
+      value: 300,
+      defaultValue: 200,
+      isOverridden: true,
+      isValid: true,
+      version: 3,
+    });
+
+    const level = entries.find((e) => e.key === "max_module_level")!;
+    expect(level).toMatchObject({ value: 10, isValid: false });
+
+    const fee = entries.find((e) => e.key === "trade_fee_percent")!;
+    expect(fee).toMatchObject({ isOverridden: false, version: 0 });
+  });
+});
+
+describe("getGameConfigHistory", () => {
+  test("maps audit events and filters by key", async () => {
+    const changedAt = new Date("2026-02-01");
+    prismaMock.gameEvent.findMany.mockResolvedValue([
+      {
+        id: "ev_1",
+        type: "config_updated",
+        createdAt: changedAt,
+        data: {
+          key: "crew_hire_cost",
+          previous: 200,
+          value: 250,
+          version: 4,
+          updatedBy: "5678",
+        },
+      },
+    ]);
+
+    const history = await getGameConfigHistory("crew_hire_cost");
+
+    expect(history).toEqual([
+      {
+        key: "crew_hire_cost",
+        previous: 200,
+        value: 250,
+        version: 4,
+        updatedBy: "5678",
+        changedAt,
+      },
+    ]);
+    expect(prismaMock.gameEvent.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          type: "config_updated",
+          data: { path: ["key"], equals: "crew_hire_cost" },
+        },
+      }),
+    );
+  });
+});
@@ -7,13 +7,18 @@
  *   - claimDailyReward (with streak logic)
  *   - checkAchievements
  *   - createAlliance, joinAlliance, leaveAlliance
+ *   - Alliance join modes, invitations, join requests, role management
  *   - createPriceAlert, getPlayerAlerts, markAlertRead
  *   - getGameConfig (with caching)
  *   - calculateUpgradeCost, upgradeModule
- *   - recruitCrew, assignCrew
- *   - buildModule with blueprint tiers
+ *   - recruitCrew, grantCrewMember, assignCrew
+ *   - buildModule with blueprint tiers, getBuildQuotes
  *   - syncPlayerSummary
  *   - calculateColonyState
+ *   - collectEarnings (prorated module upkeep)
+ *   - getOrCreatePlayer (suspended players, referral attribution, starter stock)
+ *   - Event cost modifiers on build / upgrade / repair / recruit
+ *   - getBurnRates, burnResources (Weekly Burn scoring)
  */
 
 import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
@@ -55,9 +60,20 @@ const {
   grantXP,
   claimDailyReward,
   checkAchievements,
+  getPlayerAchievements,
   createAlliance,
   joinAlliance,
   leaveAlliance,
+  inviteToAlliance,
+  respondToInvite,
+  requestToJoinAlliance,
+  reviewJoinRequest,
+  kickAllianceMember,
+  promoteAllianceMember,
+  demoteAllianceMember,
+  transferAllianceLeadership,
+  setAllianceJoinMode,
+  canManageMember,
   createPriceAlert,
   getPlayerAlerts,
   markAlertRead,
@@ -65,13 +81,30 @@ const {
   calculateUpgradeCost,
   upgradeModule,
   recruitCrew,
+  grantCrewMember,
   assignCrew,
   buildModule,
+  calculateModuleCost,
+  getBuildQuotes,
   syncPlayerSummary,
   calculateColonyState,
   collectEarnings,
+  getOrCreatePlayer,
+  PlayerSuspendedError,
+  getCostModifiers,
+  applyCostModifier,
+  getBurnRates,
+  burnResources,
 } = gameEngine;
 
+const { invalidateGameConfig } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/game-config") as typeof import("@/lib/game-config");
+
+const { generateMarketDepth } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/market-engine") as typeof import("@/lib/market-engine");
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -120,6 +153,10 @@ function makeModule(overrides: Record<string, unknown> = {}) {
 
 beforeEach(() => {
   resetPrismaMock();
+  invalidateGameConfig();
+  // No active events unless a test sets some up
+  prismaMock.activeEvent.findMany.mockResolvedValue([]);
+  prismaMock.allianceProject.findMany.mockResolvedValue([]);
 });
 
 // =========================================================================
@@ -442,6 +479,56 @@ describe("checkAchievements", () => {
   });
 });
 
+describe("getPlayerAchievements", () => {
+  test("lists every achievement with the player's unlock id", async () => {
+    const unlockedAt = new Date("2026-03-01T00:00:00Z");
+    prismaMock.achievement.findMany.mockResolvedValue([
+      {
+        id: "ach_1",
+        key: "first_module",
+        name: "First Module",
+        description: "Build a module",
+        category: "BUILDING",
+        xpReward: 50,
+        lunarReward: 100,
+        iconUrl: null,
+      },
+      {
+        id: "ach_2",
+        key: "level_5",
+        name: "Level 5",
+        description: "Reach level 5",
+        category: "MILESTONE",
+        xpReward: 0,
+        lunarReward: 0,
+        iconUrl: null,
+      },
+    ]);
+    prismaMock.playerAchievement.findMany.mockResolvedValue([
+      { id: "pa_1", achievementId: "ach_1", unlockedAt },
+    ]);
+
+    const result = await getPlayerAchievements("player_1");
+
+    expect(prismaMock.playerAchievement.findMany).toHaveBeenCalledWith({
+      where: { playerId: "player_1" },
+    });
+    expect(result).toEqual([
+      expect.objectContaining({
+        key: "first_module",
+        lunarReward: 100,
+        unlockId: "pa_1",
+        unlockedAt,
+      }),
+      expect.objectContaining({
+        key: "level_5",
+        unlockId: null,
+        unlockedAt: null,
+      }),
+    ]);
+  });
+});
+
 // =========================================================================
 // Alliance system
 // =========================================================================
@@ -518,6 +605,7 @@ describe("joinAlliance", () => {
       name: "TestAlliance",
       memberCount: 3,
       maxMembers: 10,
+      joinMode: "OPEN",
       deletedAt: null,
     });
 
@@ -616,6 +704,330 @@ describe("leaveAlliance", () => {
   });
 });
 
+// =========================================================================
+// Alliance join modes, invitations + join requests
+// =========================================================================
+
+function mockAlliance(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "alliance_1",
+    name: "TestAlliance",
+    memberCount: 3,
+    maxMembers: 10,
+    joinMode: "OPEN",
+    version: 4,
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+/** Actor membership (findAllianceActor) followed by the target's. */
+function mockActorAndTarget(
+  actorRole: string,
+  target?: { role: string; allianceId?: string },
+) {
+  prismaMock.allianceMember.findUnique.mockResolvedValueOnce({
+    id: "member_actor",
+    playerId: "player_1",
+    allianceId: "alliance_1",
+    role: actorRole,
+    alliance: mockAlliance(),
+  });
+  if (target) {
+    prismaMock.allianceMember.findUnique.mockResolvedValueOnce({
+      id: "member_target",
+      playerId: "player_2",
+      allianceId: target.allianceId ?? "alliance_1",
+      role: target.role,
+    });
+  }
+}
+
+function auditTypes(): string[] {
+  return prismaMock.gameEvent.create.mock.calls.map(
+    (c) => (c[0] as { data: { type: string } }).data.type,
+  );
+}
+
+describe("Alliance permission matrix", () => {
+  test("leaders outrank officers, officers outrank members", () => {
+    expect(canManageMember("LEADER", "kick", "OFFICER")).toBe(true);
+    expect(canManageMember("OFFICER", "kick", "MEMBER")).toBe(true);
+    expect(canManageMember("OFFICER", "kick", "OFFICER")).toBe(false);
+    expect(canManageMember("OFFICER", "promote", "MEMBER")).toBe(false);
+    expect(canManageMember("MEMBER", "kick", "MEMBER")).toBe(false);
+  });
+});
+
+describe("joinAlliance — join modes", () => {
+  beforeEach(() => {
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ allianceMember: null }),
+    );
+  });
+
+  test("approval alliances point players to a join request", async () => {
+    prismaMock.alliance.findUnique.mockResolvedValue(
+      mockAlliance({ joinMode: "APPROVAL" }),
+    );
+    const result = await joinAlliance("player_1", "alliance_1");
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/join request/);
+  });
+
+  test("invite-only alliances admit invited players and consume invites", async () => {
+    prismaMock.alliance.findUnique.mockResolvedValue(
+      mockAlliance({ joinMode: "INVITE_ONLY" }),
+    );
+    prismaMock.allianceInvite.findUnique.mockResolvedValue({ id: "inv_1" });
+
+    const result = await joinAlliance("player_1", "alliance_1");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "alliance_1", version: 4 },
+      data: { memberCount: { increment: 1 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.allianceInvite.deleteMany).toHaveBeenCalledWith({
+      where: { playerId: "player_1" },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "alliance_join",
+        data: expect.objectContaining({ via: "invite" }),
+      }),
+    });
+  });
+
+  test("invite-only alliances reject uninvited players", async () => {
+    prismaMock.alliance.findUnique.mockResolvedValue(
+      mockAlliance({ joinMode: "INVITE_ONLY" }),
+    );
+    const result = await joinAlliance("player_1", "alliance_1");
+    expect(result.error).toMatch(/invite-only/);
+  });
+});
+
+describe("inviteToAlliance", () => {
+  test("officers invite unaffiliated players", async () => {
+    mockActorAndTarget("OFFICER");
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ id: "player_2", allianceMember: null }),
+    );
+    prismaMock.allianceInvite.create.mockResolvedValue({ id: "inv_9" });
+
+    const result = await inviteToAlliance("player_1", "player_2");
+
+    expect(result).toEqual({ success: true, inviteId: "inv_9" });
+    expect(auditTypes()).toEqual(["alliance_invite"]);
+  });
+
+  test("members cannot invite", async () => {
+    mockActorAndTarget("MEMBER");
+    const result = await inviteToAlliance("player_1", "player_2");
+    expect(result.success).toBe(false);
+    expect(prismaMock.allianceInvite.create).not.toHaveBeenCalled();
+  });
+
+  test("declining deletes the invite and audits it", async () => {
+    prismaMock.allianceInvite.findUnique.mockResolvedValue({
+      id: "inv_1",
+      playerId: "player_1",
+      allianceId: "alliance_1",
+    });
+    const result = await respondToInvite("player_1", "inv_1", false);
+    expect(result.success).toBe(true);
+    expect(prismaMock.allianceInvite.delete).toHaveBeenCalledWith({
+      where: { id: "inv_1" },
+    });
+    expect(auditTypes()).toEqual(["alliance_invite_declined"]);
+  });
+
+  test("players cannot answer someone else's invite", async () => {
+    prismaMock.allianceInvite.findUnique.mockResolvedValue({
+      id: "inv_1",
+      playerId: "player_2",
+      allianceId: "alliance_1",
+    });
+    const result = await respondToInvite("player_1", "inv_1", true);
+    expect(result.error).toBe("Invite not found");
+  });
+});
+
+describe("join requests", () => {
+  test("players request to join approval alliances", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ allianceMember: null }),
+    );
+    prismaMock.alliance.findUnique.mockResolvedValue(
+      mockAlliance({ joinMode: "APPROVAL" }),
+    );
+    prismaMock.allianceJoinRequest.findMany.mockResolvedValue([]);
+    prismaMock.allianceJoinRequest.create.mockResolvedValue({ id: "req_1" });
+
+    const result = await requestToJoinAlliance("player_1", "alliance_1", "Hi!");
+
+    expect(result).toEqual({ success: true, requestId: "req_1" });
+    expect(prismaMock.allianceJoinRequest.create).toHaveBeenCalledWith({
+      data: { allianceId: "alliance_1", playerId: "player_1", message: "Hi!" },
+    });
+  });
+
+  test("caps outstanding requests per player", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ allianceMember: null }),
+    );
+    prismaMock.alliance.findUnique.mockResolvedValue(
+      mockAlliance({ joinMode: "APPROVAL" }),
+    );
+    prismaMock.allianceJoinRequest.findMany.mockResolvedValue(
+      Array.from({ length: 5 }, (_, i) => ({ allianceId: `other_${i}` })),
+    );
+
+    const result = await requestToJoinAlliance("player_1", "alliance_1");
+    expect(result.error).toMatch(/At most 5/);
+  });
+
+  test("officers approve requests into the alliance", async () => {
+    mockActorAndTarget("OFFICER");
+    prismaMock.allianceJoinRequest.findUnique.mockResolvedValue({
+      id: "req_1",
+      allianceId: "alliance_1",
+      playerId: "player_3",
+    });
+    // Requester is still unaffiliated
+    prismaMock.allianceMember.findUnique.mockResolvedValueOnce(null);
+
+    const result = await reviewJoinRequest("player_1", "req_1", true);
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.allianceMember.create).toHaveBeenCalledWith({
+      data: { playerId: "player_3", allianceId: "alliance_1", role: "MEMBER" },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        playerId: "player_3",
+        type: "alliance_join",
+        data: expect.objectContaining({
+          via: "request",
+          approvedBy: "player_1",
+        }),
+      }),
+    });
+  });
+
+  test("requests from other alliances are not visible to reviewers", async () => {
+    mockActorAndTarget("LEADER");
+    prismaMock.allianceJoinRequest.findUnique.mockResolvedValue({
+      id: "req_1",
+      allianceId: "alliance_2",
+      playerId: "player_3",
+    });
+    const result = await reviewJoinRequest("player_1", "req_1", false);
+    expect(result.error).toBe("Request not found");
+    expect(prismaMock.allianceJoinRequest.delete).not.toHaveBeenCalled();
+  });
+});
+
+// =========================================================================
+// Alliance member management
+// =========================================================================
+
+describe("kickAllianceMember", () => {
+  test("officers kick members and the count drops under the version lock", async () => {
+    mockActorAndTarget("OFFICER", { role: "MEMBER" });
+
+    const result = await kickAllianceMember("player_1", "player_2");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.allianceMember.delete).toHaveBeenCalledWith({
+      where: { id: "member_target" },
+    });
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "alliance_1", version: 4 },
+      data: { memberCount: { decrement: 1 }, version: { increment: 1 } },
+    });
+    expect(auditTypes()).toEqual(["alliance_kick"]);
+  });
+
+  test("officers cannot kick other officers", async () => {
+    mockActorAndTarget("OFFICER", { role: "OFFICER" });
+    const result = await kickAllianceMember("player_1", "player_2");
+    expect(result.success).toBe(false);
+    expect(prismaMock.allianceMember.delete).not.toHaveBeenCalled();
+  });
+
+  test("targets must be in the actor's alliance", async () => {
+    mockActorAndTarget("LEADER", { role: "MEMBER", allianceId: "alliance_2" });
+    const result = await kickAllianceMember("player_1", "player_2");
+    expect(result.error).toBe("Member not found");
+  });
+});
+
+describe("promote / demote / transfer", () => {
+  test("the leader promotes a member to officer", async () => {
+    mockActorAndTarget("LEADER", { role: "MEMBER" });
+
+    const result = await promoteAllianceMember("player_1", "player_2");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.allianceMember.update).toHaveBeenCalledWith({
+      where: { id: "member_target", role: "MEMBER" },
+      data: { role: "OFFICER" },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "alliance_role_change",
+        data: expect.objectContaining({ from: "MEMBER", to: "OFFICER" }),
+      }),
+    });
+  });
+
+  test("officers cannot promote", async () => {
+    mockActorAndTarget("OFFICER", { role: "MEMBER" });
+    const result = await promoteAllianceMember("player_1", "player_2");
+    expect(result.success).toBe(false);
+  });
+
+  test("demoting requires an officer", async () => {
+    mockActorAndTarget("LEADER", { role: "MEMBER" });
+    const result = await demoteAllianceMember("player_1", "player_2");
+    expect(result.error).toMatch(/Only officers/);
+  });
+
+  test("transferring leadership swaps roles", async () => {
+    mockActorAndTarget("LEADER", { role: "OFFICER" });
+
+    const result = await transferAllianceLeadership("player_1", "player_2");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.allianceMember.update).toHaveBeenCalledWith({
+      where: { id: "member_actor", role: "LEADER" },
+      data: { role: "OFFICER" },
+    });
+    expect(prismaMock.allianceMember.update).toHaveBeenCalledWith({
+      where: { id: "member_target" },
+      data: { role: "LEADER" },
+    });
+    expect(auditTypes()).toEqual(["alliance_leadership_transfer"]);
+  });
+
+  test("only the leader changes the join mode", async () => {
+    mockActorAndTarget("OFFICER");
+    const denied = await setAllianceJoinMode("player_1", "INVITE_ONLY");
+    expect(denied.success).toBe(false);
+
+    mockActorAndTarget("LEADER");
+    const result = await setAllianceJoinMode("player_1", "INVITE_ONLY");
+    expect(result.success).toBe(true);
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "alliance_1", version: 4 },
+      data: { joinMode: "INVITE_ONLY", version: { increment: 1 } },
+    });
+    expect(auditTypes()).toEqual(["alliance_join_mode"]);
+  });
+});
+
 // =========================================================================
 // Price Alerts
 // =========================================================================
@@ -689,33 +1101,31 @@ describe("markAlertRead", () => {
 
 describe("getGameConfig", () => {
   test("returns value from DB", async () => {
-    prismaMock.gameConfig.findUnique.mockResolvedValue({
-      key: "test_key",
-      value: 42,
-    });
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_hire_cost", value: 42 },
+    ]);
 
-    const result = await getGameConfig("test_key", 0);
+    const result = await getGameConfig("crew_hire_cost");
     expect(result).toBe(42);
   });
 
   test("returns default when key not found", async () => {
-    prismaMock.gameConfig.findUnique.mockResolvedValue(null);
+    prismaMock.gameConfig.findMany.mockResolvedValue([]);
 
-    const result = await getGameConfig("missing_key", "default_val");
-    expect(result).toBe("default_val");
+    const result = await getGameConfig("crew_hire_cost");
+    expect(result).toBe(200);
   });
 
   test("caches value on repeated calls", async () => {
-    prismaMock.gameConfig.findUnique.mockResolvedValue({
-      key: "cached_key",
-      value: 99,
-    });
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_hire_cost", value: 99 },
+    ]);
 
-    await getGameConfig("cached_key", 0);
-    await getGameConfig("cached_key", 0);
+    await getGameConfig("crew_hire_cost");
+    await getGameConfig("alliance_create_cost");
 
     // Should only query DB once (cached after first call)
-    expect(prismaMock.gameConfig.findUnique).toHaveBeenCalledTimes(1);
+    expect(prismaMock.gameConfig.findMany).toHaveBeenCalledTimes(1);
   });
 });
 
@@ -842,6 +1252,26 @@ describe("recruitCrew", () => {
     expect(result.crew!.name).toBeDefined();
   });
 
+  test("uses live crew_hire_cost and max_crew_per_player", async () => {
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_hire_cost", value: 350 },
+      { key: "max_crew_per_player", value: 2 },
+    ]);
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ lunarBalance: 300 }),
+    );
+    prismaMock.crewMember.count.mockResolvedValue(1);
+
+    const result = await recruitCrew("player_1");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Need 350");
+
+    invalidateGameConfig();
+    prismaMock.crewMember.count.mockResolvedValue(2);
+    const full = await recruitCrew("player_1");
+    expect(full.error).toBe("Crew full (2/2)");
+  });
+
   test("fails when crew is full", async () => {
     prismaMock.player.findUnique.mockResolvedValue(makePlayer());
     prismaMock.crewMember.count.mockResolvedValue(5);
@@ -869,6 +1299,46 @@ describe("recruitCrew", () => {
   });
 });
 
+// =========================================================================
+// grantCrewMember
+// =========================================================================
+
+describe("grantCrewMember", () => {
+  test("adds a free crew member without charging $LUNAR", async () => {
+    prismaMock.crewMember.count.mockResolvedValue(1);
+    prismaMock.crewMember.create.mockImplementation(
+      async (...args: unknown[]) => ({
+        id: "crew_2",
+        level: 1,
+        ...(args[0] as { data: Record<string, unknown> }).data,
+      }),
+    );
+
+    const crew = await grantCrewMember("player_1", "referral");
+
+    expect(crew).toMatchObject({ id: "crew_2", level: 1 });
+    expect(crew!.efficiencyBonus).toBeGreaterThanOrEqual(3);
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1" },
+      data: { crewCount: { increment: 1 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.transaction.create).not.toHaveBeenCalled();
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "crew_granted",
+        data: expect.objectContaining({ reason: "referral" }),
+      }),
+    });
+  });
+
+  test("returns null when the crew is full", async () => {
+    prismaMock.crewMember.count.mockResolvedValue(5);
+
+    expect(await grantCrewMember("player_1", "referral")).toBeNull();
+    expect(prismaMock.crewMember.create).not.toHaveBeenCalled();
+  });
+});
+
 // =========================================================================
 // assignCrew
 // =========================================================================
@@ -1046,6 +1516,365 @@ describe("buildModule with tiers", () => {
   });
 });
 
+describe("getBuildQuotes", () => {
+  test("offers COMMON for every type and higher tiers with blueprints", async () => {
+    prismaMock.moduleBlueprint.findMany.mockResolvedValue([
+      {
+        type: "SOLAR_PANEL",
+        tier: "RARE",
+        baseCost: 500,
+        baseOutput: 22,
+        unlockLevel: 3,
+      },
+    ]);
+
+    const all = await getBuildQuotes(0);
+    expect(all.filter((q) => q.tier === "COMMON")).toHaveLength(8);
+    expect(all).toContainEqual({
+      type: "SOLAR_PANEL",
+      tier: "RARE",
+      cost: 500,
+      output: 22,
+      unlockLevel: 3,
+    });
+
+    const solar = await getBuildQuotes(2, "SOLAR_PANEL");
+    expect(solar.map((q) => q.tier)).toEqual(["COMMON", "RARE"]);
+    // Same price buildModule charges at this module count
+    expect(solar[0]!.cost).toBe(calculateModuleCost("SOLAR_PANEL", 2));
+  });
+});
+
+// =========================================================================
+// Event cost modifiers
+// =========================================================================
+
+function mockActiveEvents(
+  events: Array<{ name: string; modifiers: Record<string, number> }>,
+) {
+  prismaMock.activeEvent.findMany.mockResolvedValue(
+    events.map((e, i) => ({
+      id: `evt_${i}`,
+      isGlobal: true,
+      targetPlayerIds: null,
+      ...e,
+    })),
+  );
+}
+
+describe("Event cost modifiers", () => {
+  test("getCostModifiers attributes each multiplier to its events", async () => {
+    mockActiveEvents([
+      {
+        name: "Efficiency Challenge",
+        modifiers: { GLOBAL_BUILD_COST: 0.5, GLOBAL_UPGRADE_COST: 0.5 },
+      },
+      { name: "Equipment Surplus", modifiers: { GLOBAL_BUILD_COST: 0.6 } },
+    ]);
+
+    const mods = await getCostModifiers("player_1");
+
+    expect(mods.build.multiplier).toBeCloseTo(0.3, 6);
+    expect(mods.build.events).toEqual([
+      "Efficiency Challenge",
+      "Equipment Surplus",
+    ]);
+    expect(mods.upgrade).toEqual({
+      multiplier: 0.5,
+      events: ["Efficiency Challenge"],
+    });
+    expect(mods.repair).toEqual({ multiplier: 1, events: [] });
+    expect(mods.recruit).toEqual({ multiplier: 1, events: [] });
+  });
+
+  test("applyCostModifier floors to whole $LUNAR", () => {
+    expect(applyCostModifier(125, { multiplier: 0.6, events: [] })).toBe(75);
+    expect(applyCostModifier(99, { multiplier: 0.5, events: [] })).toBe(49);
+  });
+
+  test("buildModule charges the discounted price and records it", async () => {
+    mockActiveEvents([
+      { name: "Equipment Surplus", modifiers: { GLOBAL_BUILD_COST: 0.6 } },
+    ]);
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ lunarBalance: 5000, modules: [] }),
+    );
+    prismaMock.moduleBlueprint.findUnique.mockResolvedValue(null);
+    prismaMock.module.create.mockResolvedValue(makeModule());
+
+    const result = await buildModule("player_1", "MINING_RIG");
+
+    // MINING_RIG list price 250 → 150 at 60%
+    expect(result.success).toBe(true);
+    expect(result.cost).toBe(150);
+    expect(result.baseCost).toBe(250);
+    expect(result.costModifier?.events).toEqual(["Equipment Surplus"]);
+    expect(prismaMock.player.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ lunarBalance: { decrement: 150 } }),
+      }),
+    );
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: -150,
+        metadata: expect.objectContaining({
+          baseCost: 250,
+          costMultiplier: 0.6,
+          costEvents: ["Equipment Surplus"],
+        }),
+      }),
+    });
+  });
+
+  test("buildModule affordability uses the discounted price", async () => {
+    mockActiveEvents([
+      { name: "Efficiency Challenge", modifiers: { GLOBAL_BUILD_COST: 0.5 } },
+    ]);
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ lunarBalance: 130, modules: [] }),
+    );
+    prismaMock.moduleBlueprint.findUnique.mockResolvedValue(null);
+    prismaMock.module.create.mockResolvedValue(makeModule());
+
+    // MINING_RIG 250 → 125, affordable with 130
+    const result = await buildModule("player_1", "MINING_RIG");
+    expect(result.success).toBe(true);
+    expect(result.cost).toBe(125);
+  });
+
+  test("upgradeModule applies GLOBAL_UPGRADE_COST", async () => {
+    mockActiveEvents([
+      {
+        name: "Efficiency Challenge",
+        modifiers: { GLOBAL_UPGRADE_COST: 0.5 },
+      },
+    ]);
+    const mod = makeModule({ level: 1, type: "MINING_RIG", baseOutput: 25 });
+    prismaMock.player.findUnique.mockResolvedValue({
+      ...makePlayer({ lunarBalance: 5000 }),
+      modules: [mod],
+    });
+    prismaMock.module.update.mockResolvedValue({ ...mod, level: 2 });
+
+    const result = await upgradeModule("player_1", "mod_1");
+
+    expect(result.success).toBe(true);
+    expect(result.cost).toBe(62); // floor(125 * 0.5)
+    expect(result.baseCost).toBe(125);
+  });
+
+  test("repairModule applies GLOBAL_REPAIR_COST", async () => {
+    mockActiveEvents([
+      { name: "Maintenance Drive", modifiers: { GLOBAL_REPAIR_COST: 0.5 } },
+    ]);
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ lunarBalance: 500 }),
+    );
+    prismaMock.module.findFirst.mockResolvedValue(
+      makeModule({ efficiency: 60 }),
+    );
+
+    const result = await repairModule("player_1", "mod_1");
+
+    expect(result.success).toBe(true);
+    expect(result.cost).toBe(100); // 40% damage × 5 = 200, halved
+    expect(result.baseCost).toBe(200);
+  });
+
+  test("recruitCrew applies GLOBAL_RECRUIT_COST", async () => {
+    mockActiveEvents([
+      { name: "Hiring Fair", modifiers: { GLOBAL_RECRUIT_COST: 0.75 } },
+    ]);
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ lunarBalance: 1000 }),
+    );
+    prismaMock.crewMember.count.mockResolvedValue(0);
+    prismaMock.crewMember.create.mockResolvedValue({
+      id: "crew_1",
+      name: "Kai Voss",
+      role: "engineer",
+      specialty: "SOLAR_PANEL",
+      level: 1,
+      efficiencyBonus: 5,
+      outputBonus: 10,
+    });
+
+    const result = await recruitCrew("player_1");
+
+    expect(result.success).toBe(true);
+    expect(result.cost).toBe(150);
+    expect(result.baseCost).toBe(200);
+  });
+});
+
+// =========================================================================
+// Resource burn
+// =========================================================================
+
+const WEEKLY_BURN = {
+  name: "Weekly Burn Event",
+  modifiers: { BURN_RATE_BONUS: 2.0, RESOURCE_TO_LUNAR_RATE: 1.5 },
+};
+
+describe("Resource burn", () => {
+  beforeEach(() => {
+    // Live prices at base unless a test moves them
+    prismaMock.resourcePrice.findMany.mockResolvedValue([]);
+    prismaMock.player.findUnique.mockResolvedValue(makePlayer());
+    prismaMock.playerResource.findUnique.mockResolvedValue({
+      type: "HELIUM3",
+      amount: 20,
+    });
+  });
+
+  test("getBurnRates pays half the base price outside events", async () => {
+    const rates = await getBurnRates("player_1");
+    expect(rates.rates.REGOLITH).toBe(1.25);
+    expect(rates.rates.RARE_EARTH).toBe(60);
+    expect(rates.rates).not.toHaveProperty("LUNAR");
+    expect(rates.multiplier).toBe(1);
+    expect(rates.events).toEqual([]);
+  });
+
+  test("getBurnRates applies RESOURCE_TO_LUNAR_RATE", async () => {
+    mockActiveEvents([WEEKLY_BURN]);
+    const rates = await getBurnRates("player_1");
+    expect(rates.rates.HELIUM3).toBeCloseTo(33.75, 6); // 45 × 0.5 × 1.5
+    expect(rates.scoreMultiplier).toBe(2);
+    expect(rates.events).toEqual(["Weekly Burn Event"]);
+  });
+
+  test("getBurnRates prices from the live price when it is below base", async () => {
+    prismaMock.resourcePrice.findMany.mockResolvedValue([
+      { type: "REGOLITH", currentPrice: 0.5 },
+      { type: "HELIUM3", currentPrice: 90 },
+    ]);
+    const rates = await getBurnRates("player_1");
+    expect(rates.prices.REGOLITH).toBe(0.5);
+    expect(rates.rates.REGOLITH).toBe(0.25);
+    // A price spike never raises the payout above the base price
+    expect(rates.prices.HELIUM3).toBe(45);
+    expect(rates.rates.HELIUM3).toBe(22.5);
+  });
+
+  test("buying at market and burning never pays", async () => {
+    // Worst case: a crashed price, the maximum base rate and a Weekly Burn
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "burn_base_rate", value: 1 },
+    ]);
+    mockActiveEvents([WEEKLY_BURN]);
+    prismaMock.activeEvent.findFirst.mockResolvedValue({
+      id: "evt_burn",
+      type: "WEEKLY_BURN",
+      isGlobal: true,
+      targetPlayerIds: null,
+    });
+    prismaMock.resourcePrice.findMany.mockResolvedValue([
+      { type: "REGOLITH", currentPrice: 0.5 },
+    ]);
+    prismaMock.playerResource.findUnique.mockResolvedValue({
+      type: "REGOLITH",
+      amount: 1000,
+    });
+
+    // Cheapest possible buy: everything at the best ask, before fees
+    const bestAsk = generateMarketDepth("REGOLITH", 0.5).asks[0]!.price;
+    const result = await burnResources("player_1", "REGOLITH", 1000);
+
+    expect(result.success).toBe(true);
+    expect(result.lunarEarned!).toBeLessThan(1000 * bestAsk);
+    expect(result.eventScore).toBe(1000); // 1000 × 0.5 × 2.0, not base price
+  });
+
+  test("burnResources debits the resource and credits LUNAR", async () => {
+    const result = await burnResources("player_1", "HELIUM3", 10);
+
+    expect(result).toEqual({
+      success: true,
+      burned: 10,
+      lunarEarned: 225, // 10 × 45 × 0.5
+      rate: 22.5,
+      eventScore: 0,
+    });
+    expect(prismaMock.playerResource.update).toHaveBeenCalledWith({
+      where: {
+        playerId_type: { playerId: "player_1", type: "HELIUM3" },
+        amount: { gte: 10 },
+      },
+      data: { amount: { decrement: 10 } },
+    });
+    expect(prismaMock.player.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "player_1", version: 1 },
+        data: expect.objectContaining({ lunarBalance: { increment: 225 } }),
+      }),
+    );
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "BURN",
+        resource: "HELIUM3",
+        amount: -10,
+        balanceAfter: 10,
+      }),
+    });
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "BURN",
+        resource: "LUNAR",
+        amount: 225,
+        balanceAfter: 1225,
+      }),
+    });
+    expect(prismaMock.eventParticipant.upsert).not.toHaveBeenCalled();
+  });
+
+  test("burnResources scores the burn during a Weekly Burn", async () => {
+    mockActiveEvents([WEEKLY_BURN]);
+    prismaMock.activeEvent.findFirst.mockResolvedValue({
+      id: "evt_burn",
+      type: "WEEKLY_BURN",
+      isGlobal: true,
+      targetPlayerIds: null,
+    });
+
+    const result = await burnResources("player_1", "HELIUM3", 10);
+
+    expect(result.lunarEarned).toBe(337); // floor(10 × 33.75)
+    expect(result.eventScore).toBe(900); // 10 × 45 × 2.0
+    expect(prismaMock.eventParticipant.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          eventId_playerId: { eventId: "evt_burn", playerId: "player_1" },
+        },
+        create: expect.objectContaining({ score: 900 }),
+        update: expect.objectContaining({ score: { increment: 900 } }),
+      }),
+    );
+  });
+
+  test("burnResources rejects burning more than held", async () => {
+    const result = await burnResources("player_1", "HELIUM3", 25);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Not enough HELIUM3/);
+    expect(prismaMock.player.update).not.toHaveBeenCalled();
+  });
+
+  test("burnResources rejects burns worth under 1 $LUNAR", async () => {
+    prismaMock.playerResource.findUnique.mockResolvedValue({
+      type: "REGOLITH",
+      amount: 5,
+    });
+    const result = await burnResources("player_1", "REGOLITH", 0.5);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/at least 1/);
+  });
+
+  test("burnResources rejects non-positive quantities", async () => {
+    const result = await burnResources("player_1", "HELIUM3", 0);
+    expect(result.success).toBe(false);
+  });
+});
+
 // =========================================================================
 // syncPlayerSummary
 // =========================================================================
@@ -1123,10 +1952,175 @@ describe("calculateColonyState", () => {
 // =========================================================================
 
 describe("collectEarnings", () => {
+  const HALF_CYCLE_AGO = () => new Date(Date.now() - 12 * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    // No starved modules waiting on a restock
+    prismaMock.module.findMany.mockResolvedValue([]);
+    prismaMock.player.update.mockResolvedValue(makePlayer());
+  });
+
   test("returns zero when player not found", async () => {
     prismaMock.player.findUnique.mockResolvedValue(null);
     const result = await collectEarnings("nonexistent");
     expect(result.collected).toBe(0);
     expect(result.newBalance).toBe(0);
   });
+
+  test("draws prorated upkeep and throttles short modules", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({
+        modules: [
+          makeModule({ id: "solar", lastCollectedAt: HALF_CYCLE_AGO() }),
+          makeModule({
+            id: "hab",
+            type: "HABITAT",
+            baseOutput: 5,
+            lastCollectedAt: HALF_CYCLE_AGO(),
+          }),
+        ],
+      }),
+    );
+    prismaMock.playerResource.findMany.mockResolvedValue([
+      { type: "WATER_ICE", amount: 0.5 },
+    ]);
+
+    const result = await collectEarnings("player_1");
+
+    // 144 ticks; half a cycle of habitat upkeep is 1 WATER_ICE, 0.5 on hand
+    expect(result.collected).toBe(144 * (10 + 5 * 0.5));
+    expect(prismaMock.playerResource.update).toHaveBeenCalledWith({
+      where: { playerId_type: { playerId: "player_1", type: "WATER_ICE" } },
+      data: { amount: { decrement: 0.5 } },
+    });
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "UPKEEP",
+        resource: "WATER_ICE",
+        amount: -0.5,
+        balanceAfter: 0,
+      }),
+    });
+  });
+
+  test("shuts down modules whose inputs are dry", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({
+        modules: [
+          makeModule({ id: "solar", lastCollectedAt: HALF_CYCLE_AGO() }),
+          makeModule({
+            id: "oxy",
+            type: "OXYGEN_GENERATOR",
+            baseOutput: 18,
+            lastCollectedAt: HALF_CYCLE_AGO(),
+          }),
+        ],
+      }),
+    );
+    prismaMock.playerResource.findMany.mockResolvedValue([]);
+
+    const result = await collectEarnings("player_1");
+
+    expect(result.collected).toBe(144 * 10);
+    expect(prismaMock.module.update).toHaveBeenCalledWith({
+      where: { id: "oxy" },
+      data: { isActive: false, starvedAt: expect.any(Date) },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "modules_starved",
+        data: { moduleIds: ["oxy"] },
+      }),
+    });
+  });
+
+  test("brings restocked modules back online first", async () => {
+    prismaMock.module.findMany.mockResolvedValue([
+      { id: "hab", type: "HABITAT", level: 1 },
+    ]);
+    prismaMock.playerResource.findMany.mockResolvedValue([
+      { type: "WATER_ICE", amount: 10 },
+    ]);
+    prismaMock.player.findUnique.mockResolvedValue(makePlayer());
+
+    await collectEarnings("player_1");
+
+    expect(prismaMock.module.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: { in: ["hab"] }, isActive: false },
+      }),
+    );
+  });
+});
+
+describe("getOrCreatePlayer", () => {
+  test("refuses players suspended by an admin", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(
+      makePlayer({ deletedAt: new Date("2026-01-01"), modules: [] }),
+    );
+
+    await expect(getOrCreatePlayer(12345)).rejects.toBeInstanceOf(
+      PlayerSuspendedError,
+    );
+    expect(prismaMock.player.create).not.toHaveBeenCalled();
+  });
+
+  test("records the referral for a new player", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(null);
+    prismaMock.player.create.mockResolvedValue(
+      makePlayer({ id: "player_new", fid: 777 }),
+    );
+    const arrival = {
+      referrerId: "player_ref",
+      source: "share" as const,
+      channel: "dashboard" as const,
+      shareId: "abc123",
+    };
+
+    await getOrCreatePlayer(777, undefined, arrival);
+
+    const { data } = prismaMock.player.create.mock.calls[0]![0] as {
+      data: Record<string, unknown>;
+    };
+    expect(data.referredBy).toEqual({ create: arrival });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: {
+        playerId: "player_new",
+        type: "referral_attributed",
+        data: arrival,
+      },
+    });
+  });
+
+  test("seeds a week of upkeep inputs for starter modules", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(null);
+    prismaMock.player.create.mockResolvedValue(makePlayer());
+    const random = jest.spyOn(Math, "random").mockReturnValue(0);
+
+    await getOrCreatePlayer(777);
+
+    // Math.random 0 → SOLAR_PANEL, MINING_RIG, HABITAT, WATER_EXTRACTOR
+    const { data } = prismaMock.player.create.mock.calls[0]![0] as {
+      data: { resources: { create: Array<Record<string, unknown>> } };
+    };
+    expect(data.resources.create).toContainEqual({
+      type: "WATER_ICE",
+      amount: 2 * 7,
+      totalMined: 0,
+    });
+    random.mockRestore();
+  });
+
+  test("ignores referrals for existing players", async () => {
+    prismaMock.player.findUnique.mockResolvedValue(makePlayer());
+
+    await getOrCreatePlayer(12345, undefined, {
+      referrerId: "player_ref",
+      source: "link",
+      channel: "frame",
+    });
+
+    expect(prismaMock.player.create).not.toHaveBeenCalled();
+    expect(prismaMock.gameEvent.create).not.toHaveBeenCalled();
+  });
 });
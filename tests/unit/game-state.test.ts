@@ -0,0 +1,369 @@
+/**
+ * Frame State Machine — Unit Tests
+ *
+ * Drives GameState through the Frame flows the way a client would —
+ * pressing buttons and following the postUrl — with the engines mocked:
+ * paged build menus over every module type and tier, market buy/sell from
+ * the text input, module upgrade/repair and the daily reward.
+ */
+
+import type { FrameResponse } from "@/lib/frame-response";
+
+const mockEngine = {
+  getOrCreatePlayer: jest.fn(),
+  calculateColonyState: jest.fn(),
+  getBuildQuotes: jest.fn(),
+  getCostModifiers: jest.fn(),
+  applyCostModifier: jest.fn((cost: number) => cost),
+  calculateUpgradeCost: jest.fn(() => 75),
+  getGameConfig: jest.fn(async () => 1.5),
+  buildModule: jest.fn(),
+  upgradeModule: jest.fn(),
+  repairModule: jest.fn(),
+  claimDailyReward: jest.fn(),
+  collectEarnings: jest.fn(),
+  syncPlayerSummary: jest.fn(),
+};
+const mockMarket = {
+  executeTrade: jest.fn(),
+  getMarketOverview: jest.fn(),
+};
+
+jest.mock("@/lib/game-engine", () => ({
+  __esModule: true,
+  default: mockEngine,
+}));
+jest.mock("@/lib/market-engine", () => ({
+  __esModule: true,
+  default: mockMarket,
+}));
+jest.mock("@/lib/event-engine", () => ({
+  rollRandomEvent: jest.fn(async () => null),
+  getActiveEvents: jest.fn(async () => []),
+  autoParticipateInActiveEvents: jest.fn(async () => undefined),
+}));
+
+// Import after mocks
+const { GameState } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/game-state") as typeof import("@/lib/game-state");
+const { encodeFrameState, decodeFrameState } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/frame-state") as typeof import("@/lib/frame-state");
+const { GAME_CONSTANTS } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/utils") as typeof import("@/lib/utils");
+
+const MODULES = [
+  {
+    id: "mod_b",
+    type: "MINING_RIG",
+    tier: "COMMON",
+    level: 2,
+    coordinates: { x: 1, y: 0 },
+    baseOutput: 25,
+    bonusOutput: 0,
+    efficiency: 80,
+    isActive: true,
+  },
+  {
+    id: "mod_a",
+    type: "SOLAR_PANEL",
+    tier: "COMMON",
+    level: 1,
+    coordinates: { x: 0, y: 0 },
+    baseOutput: 10,
+    bonusOutput: 0,
+    efficiency: 100,
+    isActive: true,
+  },
+];
+
+type Game = Awaited<ReturnType<typeof GameState.load>>;
+
+function colonyState() {
+  return {
+    playerId: "p1",
+    playerName: "alice",
+    level: 3,
+    lunarBalance: 5000,
+    modules: MODULES,
+    productionRate: 35,
+    lastCollectedAt: new Date(),
+    pendingEarnings: 0,
+  };
+}
+
+/** Press a button on the screen `response` rendered. */
+function press(
+  game: Game,
+  response: FrameResponse,
+  buttonIndex: number,
+  inputText?: string,
+): Promise<FrameResponse> {
+  return game.handleAction({
+    fid: 42,
+    buttonIndex,
+    inputText,
+    state: stateOf(response),
+  });
+}
+
+function stateOf(response: FrameResponse): string {
+  return new URL(response.postUrl).searchParams.get("state")!;
+}
+
+function labels(response: FrameResponse): string[] {
+  return response.buttons.map((b) => b.label);
+}
+
+let game: Game;
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  mockEngine.getOrCreatePlayer.mockResolvedValue({
+    id: "p1",
+    fid: 42,
+    username: "alice",
+  });
+  mockEngine.calculateColonyState.mockImplementation(colonyState);
+  mockEngine.getCostModifiers.mockResolvedValue({});
+  mockEngine.getBuildQuotes.mockImplementation(
+    async (_count: number, type?: string) =>
+      type
+        ? [
+            { type, tier: "COMMON", cost: 100, output: 10, unlockLevel: 1 },
+            { type, tier: "UNCOMMON", cost: 300, output: 18, unlockLevel: 3 },
+            { type, tier: "RARE", cost: 900, output: 30, unlockLevel: 5 },
+          ]
+        : GAME_CONSTANTS.MODULE_TYPES.map((t) => ({
+            type: t,
+            tier: "COMMON",
+            cost: 100,
+            output: 10,
+            unlockLevel: 1,
+          })),
+  );
+  mockMarket.getMarketOverview.mockResolvedValue({
+    resources: [],
+    alerts: [],
+  });
+
+  game = await GameState.load(42);
+});
+
+// ---------------------------------------------------------------------------
+// 1. Build menus
+// ---------------------------------------------------------------------------
+
+describe("build menus", () => {
+  test("Pages through all eight module types", async () => {
+    let screen = await game.buildScreen();
+    const seen: string[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      expect(screen.buttons).toHaveLength(4);
+      seen.push(...labels(screen).slice(0, 2));
+      expect(labels(screen)[2]).toBe(`▶ More (${i + 1}/4)`);
+      expect(labels(screen)[3]).toBe("🔙 Back");
+      screen = await press(game, screen, 3);
+    }
+
+    expect(seen).toHaveLength(GAME_CONSTANTS.MODULE_TYPES.length);
+    expect(seen).toContain("🚀 Launch Pad");
+    // Wrapped back to the first page
+    expect(labels(screen)[0]).toBe("⚡ Solar Panel");
+  });
+
+  test("Picking a type lists its tiers and builds the chosen one", async () => {
+    const buildMenu = await game.buildScreen(1);
+    const tiers = await press(game, buildMenu, 1);
+
+    expect(tiers.screen).toBe("build_tier");
+    expect(decodeFrameState(stateOf(tiers))?.selection).toBe("HABITAT");
+    expect(labels(tiers)).toEqual([
+      "Common · 100",
+      "Uncommon · 300",
+      "▶ More (1/2)",
+      "🔙 Back",
+    ]);
+
+    const page2 = await press(game, tiers, 3);
+    expect(labels(page2)[0]).toBe("🔒 Rare · Lv 5");
+
+    mockEngine.buildModule.mockResolvedValueOnce({ success: true });
+    const result = await press(game, tiers, 2);
+    expect(mockEngine.buildModule).toHaveBeenCalledWith(
+      "p1",
+      "HABITAT",
+      "UNCOMMON",
+    );
+    expect(result.screen).toBe("result");
+
+    // Back returns to the build page the type was on
+    const back = await press(game, tiers, 4);
+    expect(labels(back)[0]).toBe("🏠 Habitat");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Market
+// ---------------------------------------------------------------------------
+
+describe("market trades", () => {
+  test("Buy parses the amount and resource from the text input", async () => {
+    mockMarket.executeTrade.mockResolvedValueOnce({
+      success: true,
+      resource: "HELIUM3",
+      side: "buy",
+      requestedQuantity: 25,
+      filledQuantity: 25,
+      avgPrice: 2,
+      totalCost: 50,
+      slippage: 0.1,
+    });
+
+    const market = await game.marketScreen();
+    expect(market.inputText).toBeDefined();
+
+    const result = await press(game, market, 1, "25 helium");
+    expect(mockMarket.executeTrade).toHaveBeenCalledWith(
+      "p1",
+      "HELIUM3",
+      "buy",
+      25,
+    );
+
+    // "Market" on the result screen goes back to the market
+    const back = await press(game, result, 1);
+    expect(back.screen).toBe("market");
+  });
+
+  test("Sell defaults to Regolith; bad input doesn't trade", async () => {
+    mockMarket.executeTrade.mockResolvedValueOnce({ success: true });
+    const market = await game.marketScreen();
+
+    await press(game, market, 2, "10");
+    expect(mockMarket.executeTrade).toHaveBeenCalledWith(
+      "p1",
+      "REGOLITH",
+      "sell",
+      10,
+    );
+
+    mockMarket.executeTrade.mockClear();
+    const failed = await press(game, market, 2, "lots please");
+    expect(mockMarket.executeTrade).not.toHaveBeenCalled();
+    expect(failed.imageUrl).toContain("success=0");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Modules & daily reward
+// ---------------------------------------------------------------------------
+
+describe("module management", () => {
+  test("Selects a module and upgrades or repairs it", async () => {
+    const colony = await game.colonyScreen();
+    const modules = await press(game, colony, 3);
+    // Grid order: (0,0) before (1,0)
+    expect(labels(modules)).toEqual([
+      "⚡ Solar Panel L1",
+      "⛏️ Mining Rig L2",
+      "🔙 Back",
+    ]);
+
+    const detail = await press(game, modules, 2);
+    expect(detail.screen).toBe("module");
+    expect(labels(detail)[0]).toBe("⬆️ Upgrade · 75");
+
+    mockEngine.upgradeModule.mockResolvedValueOnce({
+      success: true,
+      cost: 75,
+      module: { ...MODULES[0], level: 3 },
+    });
+    const upgraded = await press(game, detail, 1);
+    expect(mockEngine.upgradeModule).toHaveBeenCalledWith("p1", "mod_b");
+
+    // "Module" on the result returns to the same module
+    const again = await press(game, upgraded, 1);
+    expect(decodeFrameState(stateOf(again))?.selection).toBe("mod_b");
+
+    mockEngine.repairModule.mockResolvedValueOnce({
+      success: true,
+      cost: 40,
+      newEfficiency: 100,
+    });
+    await press(game, again, 2);
+    expect(mockEngine.repairModule).toHaveBeenCalledWith("p1", "mod_b");
+  });
+
+  test("A stale module selection falls back to the module list", async () => {
+    const response = await game.handleAction({
+      fid: 42,
+      buttonIndex: 1,
+      state: encodeFrameState({
+        screen: "module",
+        fid: 42,
+        selection: "mod_gone",
+      }),
+    });
+    expect(response.screen).toBe("modules");
+    expect(mockEngine.upgradeModule).not.toHaveBeenCalled();
+  });
+
+  test("Claims the daily reward from the colony screen", async () => {
+    mockEngine.claimDailyReward.mockResolvedValueOnce({
+      success: true,
+      reward: 150,
+      streak: 4,
+    });
+
+    const colony = await game.colonyScreen();
+    const result = await press(game, colony, 1);
+
+    expect(mockEngine.claimDailyReward).toHaveBeenCalledWith("p1");
+    expect(new URL(result.imageUrl).searchParams.get("detail")).toContain(
+      "4-day streak",
+    );
+    expect((await press(game, result, 1)).screen).toBe("colony");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Signed state
+// ---------------------------------------------------------------------------
+
+describe("frame state tokens", () => {
+  test("Tampered or foreign tokens land on the home screen", async () => {
+    const modules = await game.modulesScreen();
+    const token = stateOf(modules);
+    const [version, payload, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ s: "module", f: 42, e: "mod_b", n: "x", x: 9e9 }),
+    ).toString("base64url");
+
+    for (const state of [
+      `${version}.${forged}.${signature}`,
+      encodeFrameState({ screen: "modules", fid: 7 }),
+      `${version}.${payload}`,
+    ]) {
+      const response = await game.handleAction({
+        fid: 42,
+        buttonIndex: 1,
+        state,
+      });
+      expect(response.screen).toBe("home");
+    }
+    expect(mockEngine.upgradeModule).not.toHaveBeenCalled();
+  });
+
+  test("Requests without a token use the server-chosen screen", async () => {
+    const response = await game.handleAction({
+      fid: 42,
+      buttonIndex: 3,
+      currentScreen: "home",
+    });
+    expect(response.screen).toBe("market");
+  });
+});
@@ -7,6 +7,9 @@
  *   - Market depth structure (bids descending, asks ascending)
  *   - Trade execution against order book
  *   - Statistical price behavior over many ticks
+ *   - Trade fees, event modifiers and persisted price impact
+ *   - Limit orders: escrow on placement, cancel refunds, matching and
+ *     house-fill fees
  */
 
 import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
@@ -17,9 +20,16 @@ const marketEngine =
   // eslint-disable-next-line @typescript-eslint/no-require-imports
   require("@/lib/market-engine") as typeof import("@/lib/market-engine");
 const { generateMarketDepth, RESOURCE_CONFIGS } = marketEngine;
+const { invalidateGameConfig } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/game-config") as typeof import("@/lib/game-config");
 
 beforeEach(() => {
   resetPrismaMock();
+  invalidateGameConfig();
+  prismaMock.activeEvent.findMany.mockResolvedValue([]);
+  prismaMock.allianceProject.findMany.mockResolvedValue([]);
+  prismaMock.transaction.create.mockResolvedValue({ id: "tx_1" });
 });
 
 // =========================================================================
@@ -314,6 +324,154 @@ describe("executeTrade", () => {
   });
 });
 
+describe("executeTrade fees and price impact", () => {
+  const { executeTrade } = marketEngine;
+
+  // Depth jitter uses Math.random — pin it so books compare across calls
+  beforeEach(() => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function mockTradeSetup(lunarBalance = 10000, resourceAmount = 0) {
+    prismaMock.resourcePrice.findUnique.mockResolvedValue({
+      id: "rp_1",
+      type: "REGOLITH",
+      currentPrice: 2.5,
+      basePrice: 2.5,
+      priceChange24h: 0,
+      supply: 1000,
+      demand: 1000,
+      volatility: 0.08,
+      seasonalPhase: 0,
+      lastUpdatedAt: new Date(),
+    } as never);
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      lunarBalance,
+      version: 1,
+    } as never);
+    prismaMock.playerResource.findUnique.mockResolvedValue({
+      amount: resourceAmount,
+    } as never);
+  }
+
+  function feeCall() {
+    return prismaMock.transaction.create.mock.calls.find(
+      (c) => (c[0] as { data: { type: string } }).data.type === "FEE",
+    )?.[0] as { data: { amount: number; resource: string } } | undefined;
+  }
+
+  function mockEvent(modifiers: Record<string, number>) {
+    prismaMock.activeEvent.findMany.mockResolvedValue([
+      { name: "Test Event", isGlobal: true, modifiers },
+    ] as never);
+  }
+
+  test("Charges the default 5% fee as a separate FEE transaction", async () => {
+    mockTradeSetup();
+    const result = await executeTrade("player_1", "REGOLITH", "buy", 50);
+
+    expect(result.success).toBe(true);
+    expect(result.fee).toBeCloseTo(result.totalCost * 0.05, 3);
+    const fee = feeCall();
+    expect(fee).toBeDefined();
+    expect(fee!.data.resource).toBe("LUNAR");
+    expect(fee!.data.amount).toBeCloseTo(-result.fee!, 4);
+
+    const debit = prismaMock.player.update.mock.calls[0]![0] as {
+      data: { lunarBalance: { decrement: number } };
+    };
+    expect(debit.data.lunarBalance.decrement).toBeCloseTo(
+      result.totalCost + result.fee!,
+      3,
+    );
+  });
+
+  test("Returns the TRADE ledger row id", async () => {
+    mockTradeSetup();
+    prismaMock.transaction.create.mockResolvedValueOnce({ id: "tx_trade" });
+    const result = await executeTrade("player_1", "REGOLITH", "buy", 50);
+
+    expect(result.success).toBe(true);
+    expect(result.transactionId).toBe("tx_trade");
+  });
+
+  test("Uses trade_fee_percent from GameConfig", async () => {
+    mockTradeSetup();
+    prismaMock.gameConfig.findMany.mockResolvedValueOnce([
+      { key: "trade_fee_percent", value: 0 },
+    ] as never);
+    const result = await executeTrade("player_1", "REGOLITH", "buy", 50);
+
+    expect(result.success).toBe(true);
+    expect(result.fee).toBe(0);
+    expect(feeCall()).toBeUndefined();
+  });
+
+  test("TRADE_FEE modifier halves the fee", async () => {
+    mockTradeSetup();
+    const base = await executeTrade("player_1", "REGOLITH", "buy", 50);
+
+    mockEvent({ TRADE_FEE: 0.5 });
+    const discounted = await executeTrade("player_1", "REGOLITH", "buy", 50);
+
+    expect(discounted.fee! / discounted.totalCost).toBeCloseTo(
+      base.fee! / base.totalCost / 2,
+      4,
+    );
+  });
+
+  test("SELL_PRICE_MULTIPLIER boosts sell proceeds", async () => {
+    mockTradeSetup(10000, 500);
+    const base = await executeTrade("player_1", "REGOLITH", "sell", 50);
+
+    mockEvent({ SELL_PRICE_MULTIPLIER: 3.0 });
+    const boosted = await executeTrade("player_1", "REGOLITH", "sell", 50);
+
+    expect(boosted.success).toBe(true);
+    expect(boosted.totalCost).toBeCloseTo(base.totalCost * 3, 2);
+    // Slippage reflects the book, not the event bonus
+    expect(boosted.slippage).toBeCloseTo(base.slippage, 2);
+  });
+
+  test("Buying pushes the persisted price up, selling pushes it down", async () => {
+    mockTradeSetup(100000, 5000);
+    const buy = await executeTrade("player_1", "REGOLITH", "buy", 500);
+    expect(buy.priceImpact).toBeGreaterThan(0);
+    expect(buy.newPrice).toBeGreaterThan(2.5);
+
+    const sell = await executeTrade("player_1", "REGOLITH", "sell", 500);
+    expect(sell.priceImpact).toBeLessThan(0);
+    expect(sell.newPrice).toBeLessThan(2.5);
+
+    const updates = prismaMock.resourcePrice.update.mock.calls.map(
+      (c) => (c[0] as { data: { currentPrice: number } }).data.currentPrice,
+    );
+    expect(updates).toEqual([buy.newPrice, sell.newPrice]);
+  });
+
+  test("Larger trades move the price further", async () => {
+    mockTradeSetup(1000000);
+    const small = await executeTrade("player_1", "REGOLITH", "buy", 10);
+    const large = await executeTrade("player_1", "REGOLITH", "buy", 1000);
+    expect(large.priceImpact!).toBeGreaterThan(small.priceImpact!);
+  });
+
+  test("Rejects a buy that only fails once the fee is included", async () => {
+    mockTradeSetup(1000000);
+    const probe = await executeTrade("player_1", "REGOLITH", "buy", 50);
+
+    mockTradeSetup(probe.totalCost + probe.fee! / 2);
+    const result = await executeTrade("player_1", "REGOLITH", "buy", 50);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Insufficient LUNAR");
+  });
+});
+
 // =========================================================================
 // 5. Market depth pricing consistency
 // =========================================================================
@@ -355,3 +513,385 @@ describe("Market depth pricing consistency", () => {
     }
   });
 });
+
+// =========================================================================
+// 6. Limit orders — escrow, cancel, matching
+// =========================================================================
+
+function makeOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "order_1",
+    playerId: "player_1",
+    resource: "REGOLITH",
+    side: "BUY",
+    status: "OPEN",
+    limitPrice: 2.5,
+    quantity: 10,
+    filledQuantity: 0,
+    avgFillPrice: null,
+    reserved: 25,
+    version: 1,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+describe("placeOrder", () => {
+  const { placeOrder } = marketEngine;
+
+  beforeEach(() => {
+    prismaMock.marketOrder.count.mockResolvedValue(0);
+  });
+
+  test("Rejects limit price outside the resource's bounds", async () => {
+    const result = await placeOrder("player_1", "REGOLITH", "BUY", 10, 50);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Limit price must be between");
+  });
+
+  test("Rejects when the player has too many open orders", async () => {
+    prismaMock.marketOrder.count.mockResolvedValue(20);
+    const result = await placeOrder("player_1", "REGOLITH", "BUY", 10, 2.5);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("open orders");
+  });
+
+  test("Buy order escrows LUNAR at the limit price", async () => {
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      lunarBalance: 100,
+      version: 4,
+    });
+    prismaMock.marketOrder.create.mockResolvedValue(makeOrder());
+
+    const result = await placeOrder("player_1", "REGOLITH", "BUY", 10, 2.5);
+
+    expect(result.success).toBe(true);
+    expect(result.order?.reserved).toBe(25);
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1", version: 4 },
+      data: { lunarBalance: { decrement: 25 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "TRADE",
+        resource: "LUNAR",
+        amount: -25,
+        balanceAfter: 75,
+      }),
+    });
+  });
+
+  test("Buy order fails without enough LUNAR", async () => {
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      lunarBalance: 10,
+      version: 1,
+    });
+    const result = await placeOrder("player_1", "REGOLITH", "BUY", 10, 2.5);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Insufficient LUNAR");
+    expect(prismaMock.marketOrder.create).not.toHaveBeenCalled();
+  });
+
+  test("Sell order escrows the resource", async () => {
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      lunarBalance: 0,
+      version: 1,
+    });
+    prismaMock.playerResource.findUnique.mockResolvedValue({ amount: 40 });
+    prismaMock.marketOrder.create.mockResolvedValue(
+      makeOrder({ side: "SELL", reserved: 10 }),
+    );
+
+    const result = await placeOrder("player_1", "REGOLITH", "SELL", 10, 3);
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.playerResource.update).toHaveBeenCalledWith({
+      where: { playerId_type: { playerId: "player_1", type: "REGOLITH" } },
+      data: { amount: { decrement: 10 } },
+    });
+  });
+});
+
+describe("cancelOrder", () => {
+  const { cancelOrder } = marketEngine;
+
+  test("Returns error for unknown order", async () => {
+    prismaMock.marketOrder.findFirst.mockResolvedValue(null);
+    const result = await cancelOrder("player_1", "missing");
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Order not found");
+  });
+
+  test("Cannot cancel a filled order", async () => {
+    prismaMock.marketOrder.findFirst.mockResolvedValue(
+      makeOrder({ status: "FILLED", reserved: 0 }),
+    );
+    const result = await cancelOrder("player_1", "order_1");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("already filled");
+  });
+
+  test("Releases remaining escrow with a REFUND ledger entry", async () => {
+    prismaMock.marketOrder.findFirst.mockResolvedValue(
+      makeOrder({ status: "PARTIAL", filledQuantity: 4, reserved: 15 }),
+    );
+    prismaMock.marketOrder.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.marketOrder.findUniqueOrThrow.mockResolvedValue(
+      makeOrder({ status: "CANCELLED", filledQuantity: 4, reserved: 0 }),
+    );
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      lunarBalance: 50,
+      version: 2,
+    });
+
+    const result = await cancelOrder("player_1", "order_1");
+
+    expect(result.success).toBe(true);
+    expect(result.order?.status).toBe("CANCELLED");
+    expect(prismaMock.player.update).toHaveBeenCalledWith({
+      where: { id: "player_1", version: 2 },
+      data: { lunarBalance: { increment: 15 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "REFUND",
+        resource: "LUNAR",
+        amount: 15,
+        balanceAfter: 65,
+      }),
+    });
+  });
+
+  test("Concurrent fill makes cancel fail safely", async () => {
+    prismaMock.marketOrder.findFirst.mockResolvedValue(makeOrder());
+    prismaMock.marketOrder.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await cancelOrder("player_1", "order_1");
+    expect(result.success).toBe(false);
+    expect(prismaMock.player.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("matchOrders", () => {
+  const { matchOrders } = marketEngine;
+
+  beforeEach(() => {
+    prismaMock.marketOrder.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_x",
+      lunarBalance: 0,
+      version: 1,
+    });
+  });
+
+  test("Crossing player orders fill at the maker's price", async () => {
+    const bid = makeOrder({
+      id: "bid_1",
+      playerId: "buyer",
+      limitPrice: 3,
+      reserved: 30,
+      createdAt: new Date("2026-01-02T00:00:00Z"),
+    });
+    const ask = makeOrder({
+      id: "ask_1",
+      playerId: "seller",
+      side: "SELL",
+      limitPrice: 2.8,
+      reserved: 10,
+      createdAt: new Date("2026-01-01T00:00:00Z"),
+    });
+    prismaMock.marketOrder.findMany
+      .mockResolvedValueOnce([bid])
+      .mockResolvedValueOnce([ask]);
+
+    // Current price far above both limits so the house never takes the rest
+    const result = await matchOrders("REGOLITH", 0.5);
+
+    expect(result.matched).toBe(1);
+    expect(result.volume).toBe(10);
+
+    // Ask is older → it's the maker, so execution is at 2.8
+    const fills = prismaMock.marketOrder.updateMany.mock.calls.map(
+      (c) => (c[0] as { data: { avgFillPrice: number; status: string } }).data,
+    );
+    expect(fills).toEqual([
+      expect.objectContaining({ avgFillPrice: 2.8, status: "FILLED" }),
+      expect.objectContaining({ avgFillPrice: 2.8, status: "FILLED" }),
+    ]);
+
+    // Buyer gets back (3 - 2.8) × 10 = 2 LUNAR of the escrow
+    expect(prismaMock.player.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { lunarBalance: { increment: 2 }, version: { increment: 1 } },
+      }),
+    );
+  });
+
+  test("Orders from the same player never trade with each other", async () => {
+    prismaMock.marketOrder.findMany
+      .mockResolvedValueOnce([makeOrder({ id: "bid_1", limitPrice: 3 })])
+      .mockResolvedValueOnce([
+        makeOrder({ id: "ask_1", side: "SELL", limitPrice: 2.8 }),
+      ]);
+
+    const result = await matchOrders("REGOLITH", 0.5);
+    expect(result.matched).toBe(0);
+  });
+
+  test("A self-trade pairing doesn't keep either order from other matches", async () => {
+    // The buyer's own ask is cheapest; a stranger's ask sits behind it
+    prismaMock.marketOrder.findMany
+      .mockResolvedValueOnce([
+        makeOrder({ id: "bid_1", playerId: "trader", limitPrice: 3 }),
+        makeOrder({ id: "bid_2", playerId: "buyer", limitPrice: 2.9 }),
+      ])
+      .mockResolvedValueOnce([
+        makeOrder({
+          id: "ask_1",
+          playerId: "trader",
+          side: "SELL",
+          limitPrice: 2.7,
+        }),
+        makeOrder({
+          id: "ask_2",
+          playerId: "seller",
+          side: "SELL",
+          limitPrice: 2.8,
+        }),
+      ]);
+
+    const result = await matchOrders("REGOLITH", 0.5);
+
+    // bid_1 × ask_2, then bid_2 × ask_1
+    expect(result.matched).toBe(2);
+    const filled = prismaMock.marketOrder.updateMany.mock.calls.map(
+      (c) => (c[0] as { where: { id: string } }).where.id,
+    );
+    expect(filled).toEqual(["bid_1", "ask_2", "bid_2", "ask_1"]);
+  });
+
+  test("Buy order above the house ask fills against house liquidity", async () => {
+    prismaMock.marketOrder.findMany
+      .mockResolvedValueOnce([makeOrder({ limitPrice: 5, reserved: 50 })])
+      .mockResolvedValueOnce([]);
+
+    const result = await matchOrders("REGOLITH", 2.5);
+
+    expect(result.houseFills).toBe(1);
+    expect(result.volume).toBe(10);
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "TRADE",
+        resource: "REGOLITH",
+        amount: 10,
+        metadata: expect.objectContaining({ counterparty: "house" }),
+      }),
+    });
+  });
+
+  test("Buy order below the house ask keeps resting", async () => {
+    prismaMock.marketOrder.findMany
+      .mockResolvedValueOnce([makeOrder({ limitPrice: 2 })])
+      .mockResolvedValueOnce([]);
+
+    const result = await matchOrders("REGOLITH", 2.5);
+    expect(result.houseFills).toBe(0);
+    expect(prismaMock.marketOrder.updateMany).not.toHaveBeenCalled();
+  });
+
+  describe("house fills", () => {
+    // Depth jitter uses Math.random — pin it so the book is predictable
+    beforeEach(() => {
+      jest.spyOn(Math, "random").mockReturnValue(0.5);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    function ledgerOf(type: string) {
+      return prismaMock.transaction.create.mock.calls
+        .map((c) => (c[0] as { data: Record<string, unknown> }).data)
+        .filter((d) => d.type === type);
+    }
+
+    test("Charges the trade fee as a FEE transaction and moves the price", async () => {
+      const bestAsk = generateMarketDepth("REGOLITH", 2.5).asks[0]!.price;
+      prismaMock.marketOrder.findMany
+        .mockResolvedValueOnce([makeOrder({ limitPrice: 5, reserved: 50 })])
+        .mockResolvedValueOnce([]);
+
+      const result = await matchOrders("REGOLITH", 2.5);
+
+      expect(result.houseFills).toBe(1);
+      // Default 5% of 10 × bestAsk
+      const fee = Math.round(10 * bestAsk * 0.05 * 10000) / 10000;
+      expect(ledgerOf("FEE")).toEqual([
+        expect.objectContaining({ resource: "LUNAR", amount: -fee }),
+      ]);
+      // Refund is the escrow headroom less the fee
+      const refund = Math.round(((5 - bestAsk) * 10 - fee) * 10000) / 10000;
+      expect(prismaMock.player.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            lunarBalance: { increment: refund },
+            version: { increment: 1 },
+          },
+        }),
+      );
+      const [update] = prismaMock.resourcePrice.update.mock.calls[0]!;
+      expect(
+        (update as { data: { currentPrice: number } }).data.currentPrice,
+      ).toBeGreaterThan(2.5);
+    });
+
+    test("Honours the limit net of the fee", async () => {
+      // Crosses the raw ask, but not once the 5% fee is added
+      const bestAsk = generateMarketDepth("REGOLITH", 2.5).asks[0]!.price;
+      prismaMock.marketOrder.findMany
+        .mockResolvedValueOnce([makeOrder({ limitPrice: bestAsk * 1.02 })])
+        .mockResolvedValueOnce([]);
+
+      const result = await matchOrders("REGOLITH", 2.5);
+
+      expect(result.houseFills).toBe(0);
+      expect(prismaMock.marketOrder.updateMany).not.toHaveBeenCalled();
+    });
+
+    test("Applies the seller's SELL_PRICE_MULTIPLIER and TRADE_FEE modifiers", async () => {
+      prismaMock.activeEvent.findMany.mockResolvedValue([
+        {
+          name: "Test Event",
+          isGlobal: true,
+          modifiers: { SELL_PRICE_MULTIPLIER: 1.5, TRADE_FEE: 0 },
+        },
+      ] as never);
+      const bestBid = generateMarketDepth("REGOLITH", 2.5).bids[0]!.price;
+      prismaMock.marketOrder.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          makeOrder({ side: "SELL", limitPrice: 3, reserved: 10 }),
+        ]);
+
+      const result = await matchOrders("REGOLITH", 2.5);
+
+      expect(result.houseFills).toBe(1);
+      expect(ledgerOf("FEE")).toEqual([]);
+      const [trade] = ledgerOf("TRADE");
+      expect(trade!.metadata).toMatchObject({
+        avgPrice: Math.round(bestBid * 1.5 * 10000) / 10000,
+        counterparty: "house",
+      });
+      const [update] = prismaMock.resourcePrice.update.mock.calls[0]!;
+      expect(
+        (update as { data: { currentPrice: number } }).data.currentPrice,
+      ).toBeLessThan(2.5);
+    });
+  });
+});
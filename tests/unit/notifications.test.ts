@@ -0,0 +1,446 @@
+/**
+ * Mini App Notifications — Unit Tests
+ *
+ * Tests webhook signature verification, the notification URL allowlist and
+ * per-client token storage, and the
+ * dispatcher against a local mock notification server: opt-outs, the
+ * protocol's batch and per-token rate limits, invalid tokens, and the
+ * production / event / price-alert moments.
+ */
+
+import { ed25519 } from "@noble/curves/ed25519";
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+import {
+  startMockNotificationServer,
+  type MockNotificationServer,
+} from "../helpers/mock-notification-server";
+
+// Import engines after mocks
+const {
+  handleMiniAppWebhook,
+  sendNotification,
+  notifyProductionReady,
+  notifyEventsStarted,
+  notifyPriceAlerts,
+  getNotificationSettings,
+  updateNotificationPreferences,
+  NOTIFICATION_BATCH_SIZE,
+  NOTIFICATION_DAILY_LIMIT,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/notifications") as typeof import("@/lib/notifications");
+const { createStaticKeyRegistry } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/frame-validation") as typeof import("@/lib/frame-validation");
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const TODAY = new Date("2026-03-10T00:00:00Z");
+
+const privateKey = ed25519.utils.randomPrivateKey();
+const appKey = `0x${Buffer.from(ed25519.getPublicKey(privateKey)).toString("hex")}`;
+const registry = createStaticKeyRegistry(`42:${appKey}`);
+
+function b64(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/** A JSON Farcaster Signature webhook body, signed by the app key. */
+function signedEvent(
+  event: Record<string, unknown>,
+  opts: { fid?: number; key?: Uint8Array } = {},
+) {
+  const key = opts.key ?? privateKey;
+  const header = b64({
+    fid: opts.fid ?? 42,
+    type: "app_key",
+    key: `0x${Buffer.from(ed25519.getPublicKey(key)).toString("hex")}`,
+  });
+  const payload = b64(event);
+  const signature = Buffer.from(
+    ed25519.sign(new TextEncoder().encode(`${header}.${payload}`), key),
+  ).toString("base64url");
+  return { header, payload, signature };
+}
+
+function tokenRow(
+  n: number,
+  url: string,
+  overrides: Record<string, unknown> = {},
+) {
+  return {
+    id: `nt_${String(n).padStart(3, "0")}`,
+    fid: 100 + n,
+    url,
+    token: `tok_${n}`,
+    lastSentAt: null,
+    sentDay: null,
+    sentToday: 0,
+    ...overrides,
+  };
+}
+
+const notification = {
+  kind: "eventStart" as const,
+  notificationId: "event-evt_1",
+  title: "☀️ Solar Flare",
+  body: "Solar output doubled for 24 hours",
+  targetUrl: "https://lunar.example/dashboard",
+};
+
+let server: MockNotificationServer;
+
+beforeAll(async () => {
+  server = await startMockNotificationServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.notificationToken.findMany.mockResolvedValue([]);
+  prismaMock.notificationPreference.findMany.mockResolvedValue([]);
+  server.requests.length = 0;
+  server.invalidTokens.clear();
+  server.rateLimitedTokens.clear();
+});
+
+// ---------------------------------------------------------------------------
+// 1. Webhook
+// ---------------------------------------------------------------------------
+
+describe("handleMiniAppWebhook", () => {
+  const details = {
+    url: "https://api.farcaster.xyz/v1/frame-notifications",
+    token: "tok_abc",
+  };
+
+  afterEach(() => {
+    delete process.env.NOTIFICATION_URL_ORIGINS;
+  });
+
+  test("Stores the notification token when the app is added", async () => {
+    const result = await handleMiniAppWebhook(
+      signedEvent({ event: "miniapp_added", notificationDetails: details }),
+      { registry },
+    );
+
+    expect(result).toEqual({ ok: true, fid: 42, event: "miniapp_added" });
+    expect(prismaMock.notificationToken.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { fid_url: { fid: 42, url: details.url } },
+        create: { fid: 42, url: details.url, token: "tok_abc", appKey },
+      }),
+    );
+  });
+
+  test("Only accepts https endpoints on known client hosts", async () => {
+    for (const url of [
+      "http://api.farcaster.xyz/v1/frame-notifications",
+      "https://169.254.169.254/latest/meta-data",
+      "https://api.farcaster.xyz.evil.example/notify",
+      server.url,
+    ]) {
+      const result = await handleMiniAppWebhook(
+        signedEvent({
+          event: "notifications_enabled",
+          notificationDetails: { url, token: "tok_abc" },
+        }),
+        { registry },
+      );
+      expect(result).toEqual({ ok: false, reason: "malformed" });
+    }
+    expect(prismaMock.notificationToken.upsert).not.toHaveBeenCalled();
+  });
+
+  test("NOTIFICATION_URL_ORIGINS admits the local mock server", async () => {
+    process.env.NOTIFICATION_URL_ORIGINS = new URL(server.url).origin;
+
+    const result = await handleMiniAppWebhook(
+      signedEvent({
+        event: "notifications_enabled",
+        notificationDetails: { url: server.url, token: "tok_abc" },
+      }),
+      { registry },
+    );
+
+    expect(result).toMatchObject({ ok: true, fid: 42 });
+    expect(prismaMock.notificationToken.upsert).toHaveBeenCalled();
+  });
+
+  test("Disables and removes only the signing client's tokens; accepts legacy event names", async () => {
+    await handleMiniAppWebhook(
+      signedEvent({ event: "notifications_disabled" }),
+      { registry },
+    );
+    expect(prismaMock.notificationToken.updateMany).toHaveBeenCalledWith({
+      where: { fid: 42, appKey },
+      data: { enabled: false },
+    });
+
+    const removed = await handleMiniAppWebhook(
+      signedEvent({ event: "frame_removed" }),
+      { registry },
+    );
+    expect(removed).toMatchObject({ ok: true, event: "miniapp_removed" });
+    expect(prismaMock.notificationToken.deleteMany).toHaveBeenCalledWith({
+      where: { fid: 42, appKey },
+    });
+  });
+
+  test("Rejects forged, foreign and malformed events", async () => {
+    const event = {
+      event: "notifications_enabled",
+      notificationDetails: details,
+    };
+    const valid = signedEvent(event);
+
+    // Payload swapped after signing
+    const tampered = {
+      ...valid,
+      payload: b64({
+        ...event,
+        notificationDetails: { ...details, token: "x" },
+      }),
+    };
+    // Validly signed, but not by a key registered to the FID
+    const foreign = signedEvent(event, {
+      key: ed25519.utils.randomPrivateKey(),
+    });
+    const otherFid = signedEvent(event, { fid: 7 });
+
+    for (const body of [tampered, foreign, otherFid]) {
+      expect(await handleMiniAppWebhook(body, { registry })).toEqual({
+        ok: false,
+        reason: "invalid",
+      });
+    }
+    expect(
+      await handleMiniAppWebhook({ header: "x", payload: "y" }, { registry }),
+    ).toEqual({ ok: false, reason: "malformed" });
+    expect(
+      await handleMiniAppWebhook(signedEvent({ event: "unknown" }), {
+        registry,
+      }),
+    ).toEqual({ ok: false, reason: "malformed" });
+    expect(prismaMock.notificationToken.upsert).not.toHaveBeenCalled();
+  });
+
+  test("Reports an unreachable signer registry as unavailable", async () => {
+    const result = await handleMiniAppWebhook(
+      signedEvent({ event: "miniapp_removed" }),
+      {
+        registry: {
+          isActiveSigner: jest.fn().mockRejectedValue(new Error("hub down")),
+        },
+      },
+    );
+    expect(result).toEqual({ ok: false, reason: "unavailable" });
+    expect(prismaMock.notificationToken.deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Dispatch
+// ---------------------------------------------------------------------------
+
+describe("sendNotification", () => {
+  test("Skips opt-outs and throttled tokens, prunes invalid ones", async () => {
+    prismaMock.notificationToken.findMany.mockResolvedValueOnce([
+      tokenRow(1, server.url),
+      tokenRow(2, server.url),
+      // Opted out of event notifications
+      tokenRow(3, server.url),
+      // Sent 10 s ago — inside the 30 s window
+      tokenRow(4, server.url, {
+        lastSentAt: new Date(NOW.getTime() - 10_000),
+      }),
+      // Daily cap reached
+      tokenRow(5, server.url, {
+        sentDay: TODAY,
+        sentToday: NOTIFICATION_DAILY_LIMIT,
+      }),
+      // Sent yesterday; the daily count starts over
+      tokenRow(6, server.url, {
+        sentDay: new Date("2026-03-09T00:00:00Z"),
+        sentToday: NOTIFICATION_DAILY_LIMIT,
+      }),
+    ]);
+    prismaMock.notificationPreference.findMany.mockResolvedValueOnce([
+      { fid: 103 },
+    ]);
+    server.invalidTokens.add("tok_2");
+
+    const result = await sendNotification(notification, "all", { now: NOW });
+
+    expect(result).toEqual({
+      sent: 2,
+      optedOut: 1,
+      rateLimited: 2,
+      invalid: 1,
+      failed: 0,
+    });
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]).toMatchObject({
+      notificationId: "event-evt_1",
+      tokens: ["tok_1", "tok_2", "tok_6"],
+    });
+    expect(prismaMock.notificationPreference.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ eventStart: false }),
+      }),
+    );
+    expect(prismaMock.notificationToken.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["nt_001", "nt_006"] } },
+      data: { lastSentAt: NOW, sentDay: TODAY, sentToday: 1 },
+    });
+    expect(prismaMock.notificationToken.deleteMany).toHaveBeenCalledWith({
+      where: { token: { in: ["tok_2"] } },
+    });
+  });
+
+  test("Batches 100 tokens per request and clips long text", async () => {
+    const rows = Array.from({ length: 150 }, (_, i) => tokenRow(i, server.url));
+    prismaMock.notificationToken.findMany.mockResolvedValueOnce(rows);
+    server.rateLimitedTokens.add("tok_149");
+
+    const result = await sendNotification(
+      { ...notification, title: "x".repeat(40), body: "y".repeat(200) },
+      { fids: rows.map((r) => r.fid) },
+      { now: NOW },
+    );
+
+    expect(server.requests.map((r) => r.tokens.length)).toEqual([
+      NOTIFICATION_BATCH_SIZE,
+      50,
+    ]);
+    expect(server.requests[0]!.title).toHaveLength(32);
+    expect(server.requests[0]!.body).toHaveLength(128);
+    expect(result).toMatchObject({ sent: 149, rateLimited: 1 });
+  });
+
+  test("Counts endpoint failures without recording sends", async () => {
+    prismaMock.notificationToken.findMany.mockResolvedValueOnce([
+      tokenRow(1, server.url),
+    ]);
+    server.failNext(500);
+
+    const result = await sendNotification(notification, "all", { now: NOW });
+    expect(result).toMatchObject({ sent: 0, failed: 1 });
+    expect(prismaMock.notificationToken.updateMany).not.toHaveBeenCalled();
+
+    // Nobody to notify — no queries at all
+    await sendNotification(notification, { fids: [] });
+    expect(prismaMock.notificationToken.findMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Game moments & preferences
+// ---------------------------------------------------------------------------
+
+describe("notification moments", () => {
+  test("Production-ready goes to players credited that day", async () => {
+    prismaMock.productionLog.findMany.mockResolvedValueOnce([
+      { player: { fid: 101 } },
+      { player: { fid: 102 } },
+    ]);
+    prismaMock.notificationToken.findMany.mockResolvedValueOnce([
+      tokenRow(1, server.url),
+    ]);
+
+    await notifyProductionReady(TODAY, { now: NOW });
+
+    expect(prismaMock.notificationToken.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { enabled: true, fid: { in: [101, 102] } },
+      }),
+    );
+    expect(server.requests[0]).toMatchObject({
+      notificationId: "production-2026-03-10",
+      targetUrl: expect.stringMatching(/\/dashboard\/production$/),
+    });
+  });
+
+  test("Announces each started global event", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValueOnce([
+      {
+        id: "evt_1",
+        name: "Solar Flare",
+        description: "Solar output doubled",
+        icon: "☀️",
+      },
+    ]);
+    prismaMock.notificationToken.findMany.mockResolvedValueOnce([
+      tokenRow(1, server.url),
+    ]);
+
+    const results = await notifyEventsStarted(["SOLAR_FLARE"], { now: NOW });
+
+    expect(results).toHaveLength(1);
+    expect(server.requests[0]).toMatchObject({
+      notificationId: "event-evt_1",
+      title: "☀️ Solar Flare",
+    });
+    expect(await notifyEventsStarted([])).toEqual([]);
+  });
+
+  test("Summarizes significant price moves in one alert", async () => {
+    const update = (type: string, changePercent: number, newPrice: number) => ({
+      type: type as "REGOLITH",
+      previousPrice: 1,
+      newPrice,
+      changePercent,
+      supply: 0,
+      demand: 0,
+    });
+
+    expect(
+      await notifyPriceAlerts([update("REGOLITH", 4, 1.04)], { now: NOW }),
+    ).toBeNull();
+    expect(server.requests).toHaveLength(0);
+
+    prismaMock.notificationToken.findMany.mockResolvedValueOnce([
+      tokenRow(1, server.url),
+    ]);
+    await notifyPriceAlerts(
+      [
+        update("HELIUM3", 25, 2.5),
+        update("REGOLITH", 4, 1.04),
+        update("WATER_ICE", -12.3, 0.88),
+      ],
+      { now: NOW },
+    );
+
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]!.body).toBe(
+      "HELIUM3 +25.0% → 2.50 $L · WATER_ICE -12.3% → 0.88 $L",
+    );
+  });
+
+  test("Preferences default to on and update per kind", async () => {
+    prismaMock.notificationToken.count.mockResolvedValueOnce(1);
+    expect(await getNotificationSettings(42)).toEqual({
+      preferences: {
+        productionReady: true,
+        eventStart: true,
+        priceAlert: true,
+      },
+      enabled: true,
+    });
+
+    prismaMock.notificationPreference.upsert.mockResolvedValueOnce({
+      fid: 42,
+      productionReady: true,
+      eventStart: true,
+      priceAlert: false,
+    });
+    expect(
+      await updateNotificationPreferences(42, { priceAlert: false }),
+    ).toEqual({ productionReady: true, eventStart: true, priceAlert: false });
+    expect(prismaMock.notificationPreference.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { priceAlert: false } }),
+    );
+  });
+});
@@ -8,6 +8,8 @@
  *   - Crew bonuses (specialty match vs. non-match)
  *   - Aging / diminishing returns
  *   - Event modifier stacking
+ *   - Multi-resource output profiles + per-resource crediting
+ *   - Module upkeep: throttling, starvation, consumption ledger, restocking
  *   - Starter / mid-game / endgame colony totals
  */
 
@@ -25,6 +27,7 @@ import {
   createModifierSet,
 } from "../helpers/factories";
 import type { ModuleProductionRow } from "@/lib/production-engine";
+import { invalidateGameConfig } from "@/lib/game-config";
 import type { ModifierSet } from "@/lib/event-engine";
 
 // We need to access the internal calculateModuleOutput which is not exported.
@@ -137,7 +140,12 @@ function referenceModuleOutput(
 }
 
 // ---- Import the actual engine (after mocks are set up) ----
-const { calculatePlayerProduction } =
+const {
+  calculatePlayerProduction,
+  processProductionCycle,
+  planUpkeep,
+  reactivateStarvedModules,
+} =
   // eslint-disable-next-line @typescript-eslint/no-require-imports
   require("@/lib/production-engine") as typeof import("@/lib/production-engine");
 
@@ -145,6 +153,11 @@ beforeEach(() => {
   resetPrismaMock();
   // Default: getPlayerEventModifiers returns empty modifiers
   prismaMock.activeEvent.findMany.mockResolvedValue([]);
+  prismaMock.allianceProject.findMany.mockResolvedValue([]);
+  // Default: empty stockpile (upkeep can only be met from this cycle's output)
+  prismaMock.playerResource.findMany.mockResolvedValue([]);
+  // Default: no starved modules waiting on a restock
+  prismaMock.module.findMany.mockResolvedValue([]);
 });
 
 // =========================================================================
@@ -278,6 +291,25 @@ describe("Crew bonuses", () => {
     expect(result.crewBonus).toBeCloseTo(1.875, 2);
   });
 
+  test("crew_specialty_bonus sets the share off-specialty crew lose", async () => {
+    prismaMock.gameConfig.findMany.mockResolvedValue([
+      { key: "crew_specialty_bonus", value: 20 },
+    ]);
+    invalidateGameConfig();
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModuleWithCrew(
+        { moduleType: "SOLAR_PANEL", tier: "COMMON", level: 1, baseOutput: 10 },
+        { specialty: "MINING_RIG", outputBonus: 50 },
+      ),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    invalidateGameConfig();
+
+    // 10 × 0.50 × (1 − 0.20) = 4
+    expect(result.moduleResults[0]!.breakdown.crewBonus).toBeCloseTo(4, 4);
+  });
+
   test("No crew = no bonus", () => {
     const mod = createModule({
       moduleType: "MINING_RIG",
@@ -465,7 +497,278 @@ describe("calculatePlayerProduction (DB-backed)", () => {
 });
 
 // =========================================================================
-// 8. Combined effects: crew + aging + events
+// 8. Multi-resource output (MODULE_RESOURCE_PROFILES)
+// =========================================================================
+
+describe("Multi-resource output", () => {
+  test("Starter colony produces raw materials alongside LUNAR", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce(createStarterColony());
+
+    const result = await calculatePlayerProduction("player_1");
+
+    // MINING_RIG(25) → REGOLITH ×0.5, HELIUM3 ×0.01, RARE_EARTH ×0.005
+    // WATER_EXTRACTOR(20) → WATER_ICE ×0.5
+    expect(result.totalResources).toEqual({
+      LUNAR: 60,
+      REGOLITH: 12.5,
+      HELIUM3: 0.25,
+      RARE_EARTH: 0.125,
+      WATER_ICE: 10,
+    });
+  });
+
+  test("Modules without raw-material profile only produce LUNAR", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "SOLAR_PANEL" }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    expect(result.totalResources).toEqual({ LUNAR: 10 });
+    expect(result.moduleResults[0]!.resources).toEqual({ LUNAR: 10 });
+  });
+
+  test("Resource bonus modifier scales only that resource", async () => {
+    prismaMock.activeEvent.findMany.mockResolvedValue([
+      {
+        name: "Meteor Shower",
+        isGlobal: true,
+        targetPlayerIds: null,
+        modifiers: { RARE_EARTH_BONUS: 3.0 },
+      },
+    ]);
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "MINING_RIG", baseOutput: 25 }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    expect(result.totalResources.LUNAR).toBe(25);
+    expect(result.totalResources.REGOLITH).toBe(12.5);
+    expect(result.totalResources.RARE_EARTH).toBeCloseTo(0.375, 4);
+  });
+
+  test("Credits one ProductionLog row and PlayerResource per resource", async () => {
+    prismaMock.player.findMany.mockResolvedValueOnce([{ id: "player_1" }]);
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      version: 3,
+      lunarBalance: 100,
+    });
+    prismaMock.playerResource.upsert.mockResolvedValue({ amount: 42 });
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "WATER_EXTRACTOR", baseOutput: 20 }),
+    ]);
+
+    const batch = await processProductionCycle();
+
+    expect(batch.processed).toBe(1);
+    expect(batch.totalLunarProduced).toBe(20);
+    expect(batch.totalResourcesProduced).toEqual({ LUNAR: 20, WATER_ICE: 10 });
+
+    const logged = prismaMock.productionLog.create.mock.calls.map(
+      (c) => (c[0] as { data: { resource: string } }).data.resource,
+    );
+    expect(logged).toEqual(["LUNAR", "WATER_ICE"]);
+    expect(prismaMock.playerResource.upsert).toHaveBeenCalledTimes(2);
+
+    const ledger = prismaMock.transaction.create.mock.calls.map(
+      (c) =>
+        (c[0] as { data: { resource: string; balanceAfter: number } }).data,
+    );
+    expect(ledger).toEqual([
+      expect.objectContaining({ resource: "LUNAR", balanceAfter: 120 }),
+      expect.objectContaining({ resource: "WATER_ICE", balanceAfter: 42 }),
+    ]);
+  });
+});
+
+// =========================================================================
+// 9. Module upkeep (MODULE_UPKEEP)
+// =========================================================================
+
+describe("Module upkeep", () => {
+  test("Habitat runs at full output when an extractor covers its water", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "HABITAT", baseOutput: 5 }),
+      createModule({ moduleType: "WATER_EXTRACTOR", baseOutput: 20 }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    const habitat = result.moduleResults[0]!;
+
+    expect(habitat.breakdown.supplyMult).toBe(1);
+    expect(habitat.consumed).toEqual({ WATER_ICE: 2 });
+    expect(result.totalConsumed).toEqual({ WATER_ICE: 2 });
+    expect(result.totalLunar).toBe(25);
+  });
+
+  test("Partial stock throttles output proportionally", async () => {
+    prismaMock.playerResource.findMany.mockResolvedValue([
+      { type: "WATER_ICE", amount: 1.5 },
+    ]);
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "OXYGEN_GENERATOR", baseOutput: 18 }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    const oxygen = result.moduleResults[0]!;
+
+    // Needs 3 WATER_ICE, only 1.5 on hand → 50 % output
+    expect(oxygen.breakdown.supplyMult).toBeCloseTo(0.5, 4);
+    expect(oxygen.output).toBeCloseTo(9, 4);
+    expect(result.totalConsumed).toEqual({ WATER_ICE: 1.5 });
+    expect(oxygen.starved).toBe(false);
+  });
+
+  test("Upkeep scales with module level", async () => {
+    prismaMock.playerResource.findMany.mockResolvedValue([
+      { type: "HELIUM3", amount: 100 },
+    ]);
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "LAUNCH_PAD", baseOutput: 50, level: 4 }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    expect(result.totalConsumed).toEqual({ HELIUM3: 6 });
+  });
+
+  test("A module can't bootstrap its own inputs", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "LAUNCH_PAD", baseOutput: 50 }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    const pad = result.moduleResults[0]!;
+
+    expect(pad.starved).toBe(true);
+    expect(pad.output).toBe(0);
+    expect(result.totalLunar).toBe(0);
+    expect(result.totalResources).toEqual({});
+  });
+
+  test("Credit draws upkeep from stock and writes an UPKEEP ledger entry", async () => {
+    prismaMock.player.findMany.mockResolvedValueOnce([{ id: "player_1" }]);
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      version: 1,
+      lunarBalance: 0,
+    });
+    prismaMock.playerResource.findMany.mockResolvedValue([
+      { type: "WATER_ICE", amount: 10 },
+    ]);
+    prismaMock.playerResource.upsert.mockResolvedValue({ amount: 8 });
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "HABITAT", baseOutput: 5 }),
+    ]);
+
+    await processProductionCycle();
+
+    const logs = prismaMock.productionLog.create.mock.calls.map(
+      (c) => (c[0] as { data: Record<string, unknown> }).data,
+    );
+    expect(logs).toContainEqual(
+      expect.objectContaining({
+        resource: "WATER_ICE",
+        totalProduced: 0,
+        totalConsumed: 2,
+      }),
+    );
+    expect(prismaMock.playerResource.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { playerId_type: { playerId: "player_1", type: "WATER_ICE" } },
+        update: { amount: { increment: -2 }, totalMined: { increment: 0 } },
+      }),
+    );
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "UPKEEP",
+        resource: "WATER_ICE",
+        amount: -2,
+        balanceAfter: 8,
+      }),
+    });
+  });
+
+  test("Starved modules are shut down instead of aged", async () => {
+    prismaMock.player.findMany.mockResolvedValueOnce([{ id: "player_1" }]);
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      version: 1,
+      lunarBalance: 0,
+    });
+    const pad = createModule({ moduleType: "LAUNCH_PAD", baseOutput: 50 });
+    prismaMock.$queryRaw.mockResolvedValueOnce([pad]);
+
+    const batch = await processProductionCycle();
+
+    expect(batch.processed).toBe(1);
+    expect(prismaMock.module.update).toHaveBeenCalledWith({
+      where: { id: pad.moduleId },
+      data: { isActive: false, starvedAt: expect.any(Date) },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "modules_starved" }),
+    });
+  });
+
+  test("Restocked modules come back online before production", async () => {
+    prismaMock.module.findMany.mockResolvedValue([
+      { id: "hab_1", type: "HABITAT", level: 1 },
+      { id: "oxy_1", type: "OXYGEN_GENERATOR", level: 1 },
+    ]);
+    prismaMock.playerResource.findMany.mockResolvedValue([
+      { type: "WATER_ICE", amount: 4 },
+    ]);
+
+    const restored = await reactivateStarvedModules("player_1");
+
+    // 4 WATER_ICE covers the habitat's 2, leaving too little for oxygen's 3
+    expect(restored).toBe(1);
+    expect(prismaMock.module.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["hab_1"] }, isActive: false },
+      data: {
+        isActive: true,
+        starvedAt: null,
+        lastCollectedAt: expect.any(Date),
+      },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "modules_restored" }),
+    });
+  });
+
+  test("Starved modules stay down while the stockpile is still dry", async () => {
+    prismaMock.module.findMany.mockResolvedValue([
+      { id: "pad_1", type: "LAUNCH_PAD", level: 2 },
+    ]);
+    prismaMock.playerResource.findMany.mockResolvedValue([
+      { type: "HELIUM3", amount: 2 },
+    ]);
+
+    expect(await reactivateStarvedModules("player_1")).toBe(0);
+    expect(prismaMock.module.updateMany).not.toHaveBeenCalled();
+  });
+
+  test("planUpkeep prorates draws and throttles by stock", () => {
+    const plan = planUpkeep(
+      [
+        { type: "SOLAR_PANEL", level: 1 },
+        { type: "HABITAT", level: 1 },
+        { type: "OXYGEN_GENERATOR", level: 1 },
+      ],
+      [{ type: "WATER_ICE", amount: 1 }],
+      0.5,
+    );
+
+    // Half a cycle needs 2.5 WATER_ICE; 1 on hand covers 40 %
+    expect(plan.supplyMults[0]).toBe(1);
+    expect(plan.supplyMults[1]).toBeCloseTo(0.4, 4);
+    expect(plan.supplyMults[2]).toBeCloseTo(0.4, 4);
+    expect(plan.consumed).toEqual({ WATER_ICE: 1 });
+  });
+});
+
+// =========================================================================
+// 10. Combined effects: crew + aging + events
 // =========================================================================
 
 describe("Combined effects", () => {
@@ -501,3 +804,158 @@ describe("Combined effects", () => {
     expect(result.output).toBe(0);
   });
 });
+
+// =========================================================================
+// 11. Crew progression: XP per cycle + role perks
+// =========================================================================
+
+describe("Crew progression", () => {
+  const bareCrew = { outputBonus: 0, efficiencyBonus: 0, specialty: null };
+
+  test("Assigned crew earn crew_xp_per_cycle and level up", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModuleWithCrew({}, { xp: 4, outputBonus: 15, efficiencyBonus: 10 }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+
+    expect(result.crewProgress).toEqual([
+      expect.objectContaining({
+        crewId: "crew_test_1",
+        xp: 0,
+        level: 2,
+        levelsGained: 1,
+        outputBonus: 16,
+        efficiencyBonus: 10.5,
+      }),
+    ]);
+  });
+
+  test("Crew on starved modules earn no XP", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModuleWithCrew({ moduleType: "LAUNCH_PAD", baseOutput: 50 }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    expect(result.moduleResults[0]!.starved).toBe(true);
+    expect(result.crewProgress).toEqual([]);
+  });
+
+  test("Scientist perk boosts XP gain once unlocked", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModuleWithCrew({}, { role: "scientist", level: 3 }),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    expect(result.crewProgress[0]!.xp).toBe(1.5);
+  });
+
+  test("Medic perk delays aging on the assigned module", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModuleWithCrew({ ageInCycles: 40 }, { ...bareCrew, role: "medic" }),
+      createModuleWithCrew(
+        { ageInCycles: 40 },
+        { ...bareCrew, role: "medic", level: 3 },
+      ),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    // Threshold 30 → 45 cycles: the level-3 medic's module isn't aging yet
+    expect(result.moduleResults[0]!.output).toBeCloseTo(9, 4);
+    expect(result.moduleResults[1]!.output).toBe(10);
+  });
+
+  test("Engineer perk halves aging decay", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModuleWithCrew(
+        { ageInCycles: 40 },
+        { ...bareCrew, role: "engineer", level: 3 },
+      ),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    // 10 cycles past threshold × 0.5 % = 5 % decay
+    expect(result.moduleResults[0]!.output).toBeCloseTo(9.5, 4);
+  });
+
+  test("Geologist perk boosts raw materials only", async () => {
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModuleWithCrew(
+        { moduleType: "MINING_RIG", baseOutput: 25 },
+        { ...bareCrew, role: "geologist", level: 3 },
+      ),
+    ]);
+
+    const result = await calculatePlayerProduction("player_1");
+    expect(result.totalResources.LUNAR).toBe(25);
+    expect(result.totalResources.REGOLITH).toBeCloseTo(12.5 * 1.1, 4);
+  });
+
+  test("Credit persists crew XP and logs level-ups", async () => {
+    prismaMock.player.findMany.mockResolvedValueOnce([{ id: "player_1" }]);
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      version: 1,
+      lunarBalance: 0,
+    });
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModuleWithCrew({}, { xp: 4, outputBonus: 15, efficiencyBonus: 10 }),
+    ]);
+
+    const batch = await processProductionCycle();
+
+    expect(batch.processed).toBe(1);
+    expect(prismaMock.crewMember.update).toHaveBeenCalledWith({
+      where: { id: "crew_test_1" },
+      data: { xp: 0, level: 2, outputBonus: 16, efficiencyBonus: 10.5 },
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "crew_level_up" }),
+    });
+  });
+});
+
+// =========================================================================
+// 12. Alliance tithe
+// =========================================================================
+
+describe("Alliance tithe", () => {
+  test("Members are credited production net of the alliance tithe", async () => {
+    prismaMock.player.findMany.mockResolvedValueOnce([{ id: "player_1" }]);
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "player_1",
+      version: 1,
+      lunarBalance: 0,
+    });
+    prismaMock.allianceMember.findUnique.mockResolvedValue({
+      id: "mem_1",
+      allianceId: "ally_1",
+      alliance: { id: "ally_1", xp: 0, level: 1, deletedAt: null },
+    });
+    prismaMock.$queryRaw.mockResolvedValueOnce([
+      createModule({ moduleType: "LAUNCH_PAD", level: 2, baseOutput: 50 }),
+    ]);
+    prismaMock.playerResource.findMany.mockResolvedValue([
+      { type: "HELIUM3", amount: 100 },
+    ]);
+
+    await processProductionCycle();
+
+    // LAUNCH_PAD L2 = 100 $LUNAR; default 5 % tithe = 5
+    expect(prismaMock.player.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          lunarBalance: { increment: 95 },
+          totalEarnings: { increment: 100 },
+        }),
+      }),
+    );
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "ALLIANCE_DEPOSIT",
+        amount: -5,
+        balanceAfter: 95,
+      }),
+    });
+  });
+});
@@ -0,0 +1,593 @@
+/**
+ * Referrals — Unit Tests
+ *
+ * Tests referral attribution (codes, FIDs, share embeds, self-referral and
+ * existing-player guards), lazy code issuing, the dashboard summary, the
+ * referral link / cookie helpers, and the milestone sweep: Neynar
+ * anti-abuse checks, tier claims, crew rewards, the daily cap and
+ * stopping on a Neynar outage.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+jest.mock("@/lib/api-clients/neynar", () => ({
+  __esModule: true,
+  NeynarError: jest.requireActual("@/lib/api-clients/neynar").NeynarError,
+  getUserByFid: jest.fn(),
+}));
+
+jest.mock("@/lib/game-engine", () => ({
+  __esModule: true,
+  grantCrewMember: jest.fn(),
+}));
+
+// Mock metrics (GameMetrics is fire-and-forget logging)
+jest.mock("@/lib/metrics", () => ({
+  __esModule: true,
+  GameMetrics: { trackError: jest.fn() },
+}));
+
+// Import engine after mocks
+const {
+  resolveReferral,
+  getReferralCode,
+  getReferralSummary,
+  processReferralMilestones,
+  referralLaunchUrl,
+  REFERRAL_TIERS,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/referrals") as typeof import("@/lib/referrals");
+
+const {
+  readReferralParams,
+  referralQuery,
+  encodeReferralCookie,
+  decodeReferralCookie,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/referral-link") as typeof import("@/lib/referral-link");
+
+const { invalidateGameConfig } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/game-config") as typeof import("@/lib/game-config");
+
+const { getUserByFid, NeynarError } = jest.requireMock(
+  "@/lib/api-clients/neynar",
+) as {
+  getUserByFid: jest.Mock;
+  NeynarError: typeof import("@/lib/api-clients/neynar").NeynarError;
+};
+const { grantCrewMember } = jest.requireMock("@/lib/game-engine") as {
+  grantCrewMember: jest.Mock;
+};
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function farcasterUser(overrides: Record<string, unknown> = {}) {
+  return {
+    fid: 777,
+    username: "newbie",
+    follower_count: 50,
+    registered_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function makeReferral(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "ref_1",
+    referrerId: "player_ref",
+    refereeId: "player_new",
+    tier: 0,
+    verifiedAt: null,
+    checkedAt: null,
+    holdReason: null,
+    createdAt: new Date("2026-10-01"),
+    referee: { fid: 777, level: 3 },
+    ...overrides,
+  };
+}
+
+const ORIGINAL_APP_URL = process.env.NEXT_PUBLIC_APP_URL;
+
+beforeEach(() => {
+  resetPrismaMock();
+  invalidateGameConfig();
+  getUserByFid.mockReset().mockResolvedValue(farcasterUser());
+  grantCrewMember.mockReset().mockResolvedValue({ id: "crew_1" });
+  process.env.NEXT_PUBLIC_APP_URL = "https://colony.example";
+
+  prismaMock.gameEvent.groupBy.mockResolvedValue([]);
+  prismaMock.referral.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.player.update.mockResolvedValue({ lunarBalance: 1000 });
+});
+
+afterAll(() => {
+  if (ORIGINAL_APP_URL === undefined) {
+    delete process.env.NEXT_PUBLIC_APP_URL;
+  } else {
+    process.env.NEXT_PUBLIC_APP_URL = ORIGINAL_APP_URL;
+  }
+});
+
+// =========================================================================
+// Referral link params & cookie
+// =========================================================================
+
+describe("referral link params", () => {
+  test("reads ref and share from a query", () => {
+    expect(
+      readReferralParams(new URLSearchParams("ref=ABCD2345&share=x_Y-1")),
+    ).toEqual({ ref: "ABCD2345", share: "x_Y-1" });
+    expect(readReferralParams(new URLSearchParams("ref=12345"))).toEqual({
+      ref: "12345",
+    });
+  });
+
+  test("rejects missing or malformed refs and drops bad share ids", () => {
+    expect(readReferralParams(new URLSearchParams("share=abc"))).toBeNull();
+    expect(readReferralParams(new URLSearchParams("ref=a;b"))).toBeNull();
+    expect(
+      readReferralParams(new URLSearchParams(`ref=${"A".repeat(17)}`)),
+    ).toBeNull();
+    expect(
+      readReferralParams(new URLSearchParams("ref=ABC&share=<script>")),
+    ).toEqual({ ref: "ABC" });
+  });
+
+  test("round-trips through the cookie and query string", () => {
+    const params = { ref: "12345", share: "abc_DEF1" };
+    expect(decodeReferralCookie(encodeReferralCookie(params))).toEqual(params);
+    expect(decodeReferralCookie("ABC")).toEqual({ ref: "ABC" });
+    expect(decodeReferralCookie("")).toBeNull();
+    expect(decodeReferralCookie("bad value")).toBeNull();
+    expect(referralQuery(params)).toBe("ref=12345&share=abc_DEF1");
+  });
+
+  test("launch URL opens the dashboard with the code", () => {
+    expect(referralLaunchUrl("ABCD2345")).toBe(
+      "https://colony.example/dashboard?ref=ABCD2345",
+    );
+  });
+});
+
+// =========================================================================
+// resolveReferral
+// =========================================================================
+
+describe("resolveReferral", () => {
+  const referrer = { id: "player_ref", fid: 100, deletedAt: null };
+
+  test("attributes a new player through a referral code", async () => {
+    prismaMock.player.findUnique
+      .mockResolvedValueOnce(null) // the new FID
+      .mockResolvedValueOnce(referrer);
+
+    const arrival = await resolveReferral({ ref: "abcd2345" }, 777, "frame");
+
+    expect(arrival).toEqual({
+      referrerId: "player_ref",
+      source: "link",
+      channel: "frame",
+    });
+    expect(prismaMock.player.findUnique).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { referralCode: "ABCD2345" } }),
+    );
+  });
+
+  test("reads an all-digit ref as the referrer's FID", async () => {
+    prismaMock.player.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(referrer);
+
+    await resolveReferral({ ref: "100" }, 777, "dashboard");
+
+    expect(prismaMock.player.findUnique).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { fid: 100 } }),
+    );
+  });
+
+  test("a share embed attributes to the sharer", async () => {
+    prismaMock.player.findUnique.mockResolvedValueOnce(null);
+    prismaMock.shareSnapshot.findUnique.mockResolvedValue({
+      id: "abc123",
+      player: referrer,
+    });
+
+    const arrival = await resolveReferral(
+      { ref: "999", share: "abc123" },
+      777,
+      "dashboard",
+    );
+
+    expect(arrival).toEqual({
+      referrerId: "player_ref",
+      source: "share",
+      channel: "dashboard",
+      shareId: "abc123",
+    });
+    expect(prismaMock.player.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  test("falls back to ref when the share is unknown", async () => {
+    prismaMock.player.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(referrer);
+    prismaMock.shareSnapshot.findUnique.mockResolvedValue(null);
+
+    const arrival = await resolveReferral(
+      { ref: "100", share: "gone" },
+      777,
+      "dashboard",
+    );
+
+    expect(arrival?.source).toBe("link");
+  });
+
+  test("never re-attributes an existing player", async () => {
+    prismaMock.player.findUnique.mockResolvedValueOnce({ id: "player_old" });
+
+    expect(await resolveReferral({ ref: "100" }, 777, "frame")).toBeNull();
+    expect(prismaMock.player.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  test("ignores self-referrals, unknown and suspended referrers", async () => {
+    prismaMock.player.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...referrer, fid: 777 });
+    expect(await resolveReferral({ ref: "777" }, 777, "frame")).toBeNull();
+
+    prismaMock.player.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(null);
+    expect(await resolveReferral({ ref: "NOPE" }, 777, "frame")).toBeNull();
+
+    prismaMock.player.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...referrer, deletedAt: new Date() });
+    expect(await resolveReferral({ ref: "100" }, 777, "frame")).toBeNull();
+  });
+});
+
+// =========================================================================
+// Codes & summary
+// =========================================================================
+
+describe("getReferralCode", () => {
+  test("returns an existing code without writing", async () => {
+    expect(
+      await getReferralCode({ id: "player_1", referralCode: "ABCD2345" }),
+    ).toBe("ABCD2345");
+    expect(prismaMock.player.updateMany).not.toHaveBeenCalled();
+  });
+
+  test("issues a code only when the player has none", async () => {
+    prismaMock.player.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.player.findUnique.mockResolvedValue({
+      referralCode: "WXYZ6789",
+    });
+
+    const code = await getReferralCode({ id: "player_1", referralCode: null });
+
+    expect(code).toBe("WXYZ6789");
+    const { where, data } = prismaMock.player.updateMany.mock.calls[0]![0] as {
+      where: unknown;
+      data: { referralCode: string };
+    };
+    expect(where).toEqual({ id: "player_1", referralCode: null });
+    expect(data.referralCode).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+  });
+
+  test("rolls a new code when one is taken", async () => {
+    prismaMock.player.updateMany
+      .mockRejectedValueOnce(Object.assign(new Error("dup"), { code: "P2002" }))
+      .mockResolvedValueOnce({ count: 1 });
+    prismaMock.player.findUnique.mockResolvedValue({
+      referralCode: "WXYZ6789",
+    });
+
+    expect(await getReferralCode({ id: "player_1", referralCode: null })).toBe(
+      "WXYZ6789",
+    );
+    expect(prismaMock.player.updateMany).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("getReferralSummary", () => {
+  test("lists referrals with status, links and earnings", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([
+      makeReferral({
+        verifiedAt: NOW,
+        tier: 1,
+        source: "link",
+        channel: "frame",
+        referee: { fid: 777, username: "newbie", level: 4 },
+      }),
+      makeReferral({
+        id: "ref_2",
+        holdReason: "Needs 10 followers (has 2)",
+        source: "share",
+        channel: "dashboard",
+        referee: { fid: 778, username: null, level: 3 },
+      }),
+      makeReferral({
+        id: "ref_3",
+        source: "link",
+        channel: "dashboard",
+        referee: { fid: 779, username: null, level: 1 },
+      }),
+    ]);
+    prismaMock.transaction.aggregate.mockResolvedValue({
+      _sum: { amount: 500 },
+    });
+
+    const summary = await getReferralSummary({
+      id: "player_ref",
+      referralCode: "ABCD2345",
+    });
+
+    expect(summary.link).toBe("https://colony.example/r/ABCD2345");
+    expect(summary.frameLink).toBe(
+      "https://colony.example/api/frames?ref=ABCD2345",
+    );
+    expect(summary.referrals.map((r) => r.status)).toEqual([
+      "verified",
+      "held",
+      "pending",
+    ]);
+    expect(summary.totals).toEqual({
+      referred: 3,
+      verified: 1,
+      lunarEarned: 500,
+    });
+    expect(summary.tiers).toBe(REFERRAL_TIERS);
+  });
+});
+
+// =========================================================================
+// processReferralMilestones
+// =========================================================================
+
+describe("processReferralMilestones", () => {
+  test("only sweeps reached tiers that are verified or due a check", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([]);
+
+    await processReferralMilestones({ now: NOW });
+
+    const { where } = prismaMock.referral.findMany.mock.calls[0]![0] as {
+      where: {
+        OR: unknown[];
+        AND: { OR: unknown[] }[];
+        referrer: unknown;
+      };
+    };
+    expect(where.OR).toEqual(
+      REFERRAL_TIERS.map((t, i) => ({
+        tier: i,
+        referee: { level: { gte: t.level }, deletedAt: null },
+      })),
+    );
+    expect(where.AND[0]!.OR).toEqual([
+      { verifiedAt: { not: null } },
+      { checkedAt: null },
+      { checkedAt: { lt: new Date("2026-10-18T12:00:00Z") } },
+    ]);
+    expect(where.referrer).toEqual({ deletedAt: null });
+    expect(where).not.toHaveProperty("referrerId");
+  });
+
+  test("verifies the referee and pays the first tier to both players", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([makeReferral()]);
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(getUserByFid).toHaveBeenCalledWith(777);
+    expect(prismaMock.referral.update).toHaveBeenCalledWith({
+      where: { id: "ref_1" },
+      data: { holdReason: null, checkedAt: NOW, verifiedAt: NOW },
+    });
+    expect(prismaMock.referral.updateMany).toHaveBeenCalledWith({
+      where: { id: "ref_1", tier: 0 },
+      data: { tier: 1 },
+    });
+
+    const credits = prismaMock.transaction.create.mock.calls.map(
+      (c) => (c[0] as { data: Record<string, unknown> }).data,
+    );
+    expect(credits).toEqual([
+      expect.objectContaining({
+        playerId: "player_ref",
+        type: "REFERRAL_REWARD",
+        amount: 500,
+        balanceAfter: 1000,
+      }),
+      expect.objectContaining({
+        playerId: "player_new",
+        type: "REFERRAL_REWARD",
+        amount: 250,
+      }),
+    ]);
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        playerId: "player_ref",
+        type: "referral_reward",
+      }),
+    });
+    expect(result).toMatchObject({
+      checked: 1,
+      verified: 1,
+      rewarded: 1,
+      lunarPaid: 750,
+      neynarUnavailable: false,
+    });
+  });
+
+  test("holds referees with too few followers or a new account", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([
+      makeReferral(),
+      makeReferral({ id: "ref_2", referee: { fid: 778, level: 3 } }),
+    ]);
+    getUserByFid
+      .mockResolvedValueOnce(farcasterUser({ follower_count: 2 }))
+      .mockResolvedValueOnce(
+        farcasterUser({ registered_at: "2026-10-17T00:00:00Z" }),
+      );
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(prismaMock.referral.update).toHaveBeenNthCalledWith(1, {
+      where: { id: "ref_1" },
+      data: { holdReason: "Needs 10 followers (has 2)", checkedAt: NOW },
+    });
+    expect(prismaMock.referral.update).toHaveBeenNthCalledWith(2, {
+      where: { id: "ref_2" },
+      data: { holdReason: "Account must be 7 days old", checkedAt: NOW },
+    });
+    expect(prismaMock.referral.updateMany).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ checked: 2, held: 2, rewarded: 0 });
+  });
+
+  test("verified referrals skip Neynar and catch up on skipped tiers", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([
+      makeReferral({ verifiedAt: NOW, referee: { fid: 777, level: 10 } }),
+    ]);
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(getUserByFid).not.toHaveBeenCalled();
+    expect(prismaMock.referral.updateMany).toHaveBeenCalledTimes(3);
+    expect(grantCrewMember).toHaveBeenCalledWith("player_ref", "referral");
+    expect(result).toMatchObject({
+      rewarded: 3,
+      crewGranted: 1,
+      lunarPaid: 500 + 250 + 2000,
+    });
+  });
+
+  test("pays crew_hire_cost $LUNAR when the referrer's crew is full", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([
+      makeReferral({
+        tier: 1,
+        verifiedAt: NOW,
+        referee: { fid: 777, level: 5 },
+      }),
+    ]);
+    grantCrewMember.mockResolvedValue(null);
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        playerId: "player_ref",
+        type: "REFERRAL_REWARD",
+        amount: 200,
+        metadata: expect.objectContaining({ crewFull: true }),
+      }),
+    });
+    expect(result).toMatchObject({
+      rewarded: 1,
+      crewGranted: 0,
+      lunarPaid: 200,
+    });
+  });
+
+  test("caps a referrer's rewards per day", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([
+      makeReferral({ verifiedAt: NOW, referee: { fid: 777, level: 10 } }),
+    ]);
+    prismaMock.gameEvent.groupBy.mockResolvedValue([
+      { playerId: "player_ref", _count: { _all: 9 } },
+    ]);
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(prismaMock.gameEvent.groupBy).toHaveBeenCalledWith({
+      by: ["playerId"],
+      where: {
+        type: "referral_reward",
+        playerId: { not: null },
+        createdAt: { gte: new Date("2026-10-19T00:00:00Z") },
+      },
+      _count: { _all: true },
+    });
+    expect(prismaMock.referral.updateMany).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ rewarded: 1, capped: 1 });
+  });
+
+  test("leaves referrers already at today's cap out of the batch", async () => {
+    prismaMock.gameEvent.groupBy.mockResolvedValue([
+      { playerId: "player_capped", _count: { _all: 10 } },
+      { playerId: "player_ref", _count: { _all: 3 } },
+    ]);
+    prismaMock.referral.findMany.mockResolvedValue([]);
+
+    await processReferralMilestones({ now: NOW });
+
+    const { where } = prismaMock.referral.findMany.mock.calls[0]![0] as {
+      where: { referrerId: unknown };
+    };
+    expect(where.referrerId).toEqual({ notIn: ["player_capped"] });
+  });
+
+  test("skips a tier another sweep already claimed", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([
+      makeReferral({ verifiedAt: NOW }),
+    ]);
+    prismaMock.referral.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(prismaMock.transaction.create).not.toHaveBeenCalled();
+    expect(result.rewarded).toBe(0);
+  });
+
+  test("stops the sweep when Neynar is unavailable", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([
+      makeReferral(),
+      makeReferral({ id: "ref_2", verifiedAt: NOW }),
+    ]);
+    getUserByFid.mockRejectedValue(
+      new NeynarError("Neynar API error (503): unavailable", 503),
+    );
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(prismaMock.referral.update).not.toHaveBeenCalled();
+    expect(prismaMock.referral.updateMany).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ checked: 1, neynarUnavailable: true });
+  });
+
+  test("holds a referee Neynar can't find and keeps sweeping", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([
+      makeReferral(),
+      makeReferral({ id: "ref_2", referee: { fid: 778, level: 3 } }),
+    ]);
+    getUserByFid
+      .mockRejectedValueOnce(new NeynarError("User not found: FID 777", 404))
+      .mockResolvedValueOnce(farcasterUser());
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(prismaMock.referral.update).toHaveBeenNthCalledWith(1, {
+      where: { id: "ref_1" },
+      data: { holdReason: "Farcaster account not found", checkedAt: NOW },
+    });
+    expect(result).toMatchObject({
+      checked: 2,
+      held: 1,
+      verified: 1,
+      neynarUnavailable: false,
+    });
+  });
+
+  test("stops the sweep on a transport error", async () => {
+    prismaMock.referral.findMany.mockResolvedValue([makeReferral()]);
+    getUserByFid.mockRejectedValue(new TypeError("fetch failed"));
+
+    const result = await processReferralMilestones({ now: NOW });
+
+    expect(prismaMock.referral.update).not.toHaveBeenCalled();
+    expect(result.neynarUnavailable).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Dashboard Sessions — Unit Tests
+ *
+ * Tests signed session tokens (round trip, tampering, expiry), the
+ * session-FID check used by dashboard routes, the cross-site write guard,
+ * and the pluggable Farcaster sign-in verifiers.
+ */
+
+import {
+  createSessionToken,
+  verifySessionToken,
+  requireSessionFid,
+  rejectCrossSiteWrite,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from "@/lib/session";
+import {
+  stubVerifier,
+  quickAuthVerifier,
+  getAuthVerifier,
+} from "@/lib/farcaster-auth";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const env = process.env as Record<string, string | undefined>;
+const originalEnv = { ...env };
+
+function requestWithCookie(token?: string): Request {
+  return new Request("http://localhost/api/dashboard/42/action", {
+    headers: token ? { cookie: `other=1; ${SESSION_COOKIE}=${token}` } : {},
+  });
+}
+
+afterEach(() => {
+  for (const key of [
+    "SESSION_SECRET",
+    "NODE_ENV",
+    "FARCASTER_AUTH_VERIFIER",
+    "NEXT_PUBLIC_APP_URL",
+  ]) {
+    if (originalEnv[key] === undefined) delete env[key];
+    else env[key] = originalEnv[key];
+  }
+});
+
+// ---------------------------------------------------------------------------
+// 1. Tokens
+// ---------------------------------------------------------------------------
+
+describe("session tokens", () => {
+  test("Round-trips the FID until the session expires", async () => {
+    const token = await createSessionToken(42, NOW);
+
+    expect(await verifySessionToken(token, NOW)).toMatchObject({ fid: 42 });
+
+    const expired = new Date(NOW.getTime() + SESSION_TTL_SECONDS * 1000);
+    expect(await verifySessionToken(token, expired)).toBeNull();
+  });
+
+  test("Rejects tampered payloads and malformed tokens", async () => {
+    const token = await createSessionToken(42, NOW);
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ fid: 1, iat: 0, exp: 9999999999 }),
+    ).toString("base64url");
+
+    expect(await verifySessionToken(`${forged}.${signature}`, NOW)).toBeNull();
+    expect(await verifySessionToken("garbage", NOW)).toBeNull();
+    expect(await verifySessionToken(`${token}.extra`, NOW)).toBeNull();
+    expect(await verifySessionToken(undefined, NOW)).toBeNull();
+  });
+
+  test("A different secret invalidates existing sessions", async () => {
+    env.SESSION_SECRET = "secret-a";
+    const token = await createSessionToken(42, NOW);
+    env.SESSION_SECRET = "secret-b";
+    expect(await verifySessionToken(token, NOW)).toBeNull();
+  });
+
+  test("Production refuses to issue sessions without a secret", async () => {
+    delete env.SESSION_SECRET;
+    env.NODE_ENV = "production";
+    await expect(createSessionToken(42, NOW)).rejects.toThrow("SESSION_SECRET");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Route checks
+// ---------------------------------------------------------------------------
+
+describe("requireSessionFid", () => {
+  test("401 without a session", async () => {
+    const denied = await requireSessionFid(requestWithCookie(), 42);
+    expect(denied?.status).toBe(401);
+  });
+
+  test("403 when signed in as someone else", async () => {
+    const token = await createSessionToken(7);
+    const denied = await requireSessionFid(requestWithCookie(token), 42);
+    expect(denied?.status).toBe(403);
+  });
+
+  test("Allows the session's own FID", async () => {
+    const token = await createSessionToken(42);
+    expect(await requireSessionFid(requestWithCookie(token), 42)).toBeNull();
+  });
+});
+
+describe("rejectCrossSiteWrite", () => {
+  function write(
+    method: string,
+    headers: Record<string, string> = {},
+    url = "http://localhost/api/dashboard/42/action",
+  ): Request {
+    return new Request(url, { method, headers });
+  }
+  const JSON_TYPE = { "content-type": "application/json" };
+
+  test("Lets same-origin JSON writes and all reads through", () => {
+    expect(
+      rejectCrossSiteWrite(
+        write("POST", { origin: "http://localhost", ...JSON_TYPE }),
+      ),
+    ).toBeNull();
+    expect(rejectCrossSiteWrite(write("GET"))).toBeNull();
+    expect(
+      rejectCrossSiteWrite(write("DELETE", { origin: "http://localhost" })),
+    ).toBeNull();
+  });
+
+  test("Accepts the public app URL as an origin", () => {
+    env.NEXT_PUBLIC_APP_URL = "https://colony.example/";
+    const req = write(
+      "POST",
+      { origin: "https://colony.example", ...JSON_TYPE },
+      "http://10.0.0.5:3000/api/auth/session",
+    );
+    expect(rejectCrossSiteWrite(req)).toBeNull();
+  });
+
+  test("Rejects writes from other or missing origins", () => {
+    expect(
+      rejectCrossSiteWrite(
+        write("POST", { origin: "https://evil.example", ...JSON_TYPE }),
+      )?.status,
+    ).toBe(403);
+    expect(rejectCrossSiteWrite(write("POST", JSON_TYPE))?.status).toBe(403);
+    expect(
+      rejectCrossSiteWrite(write("DELETE", { origin: "https://evil.example" }))
+        ?.status,
+    ).toBe(403);
+  });
+
+  test("Rejects no-preflight bodies such as text/plain", () => {
+    const req = write("POST", {
+      origin: "http://localhost",
+      "content-type": "text/plain;charset=UTF-8",
+    });
+    expect(rejectCrossSiteWrite(req)?.status).toBe(415);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Verifiers
+// ---------------------------------------------------------------------------
+
+describe("Farcaster sign-in verifiers", () => {
+  test("The stub verifier accepts stub:<fid> tokens only", async () => {
+    expect(await stubVerifier.verify({ token: "stub:1234" })).toBe(1234);
+    expect(await stubVerifier.verify({ token: "stub:0" })).toBeNull();
+    expect(await stubVerifier.verify({ token: "eyJhbGciOi..." })).toBeNull();
+    expect(await stubVerifier.verify({})).toBeNull();
+  });
+
+  test("The stub is selectable outside production only", () => {
+    env.FARCASTER_AUTH_VERIFIER = "stub";
+    expect(getAuthVerifier()).toBe(stubVerifier);
+
+    env.NODE_ENV = "production";
+    expect(getAuthVerifier()).toBe(quickAuthVerifier);
+  });
+
+  test("Quick Auth is the default", () => {
+    delete env.FARCASTER_AUTH_VERIFIER;
+    expect(getAuthVerifier()).toBe(quickAuthVerifier);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Share Snapshots — Unit Tests
+ *
+ * Tests snapshot creation for colony, achievement and trade shares
+ * (ownership checks, frozen image params, deduplication and the
+ * concurrent-insert race), the cast / compose URLs with referral
+ * attribution, and snapshot reads and view counting.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engine after mocks
+const {
+  createShare,
+  getShareSnapshot,
+  recordShareView,
+  shareLaunchUrl,
+  composeCastUrl,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/share") as typeof import("@/lib/share");
+
+type SharingPlayer = Parameters<typeof createShare>[0];
+
+function makePlayer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "player_1",
+    fid: 12345,
+    username: "moonbase",
+    level: 4,
+    lunarBalance: 2500.7,
+    modules: [
+      {
+        id: "mod_1",
+        type: "SOLAR_PANEL",
+        tier: "COMMON",
+        level: 2,
+        coordinates: { x: 0, y: 0 },
+        baseOutput: 10,
+        bonusOutput: 0,
+        efficiency: 95.4,
+        isActive: true,
+        lastCollectedAt: new Date(),
+      },
+      {
+        id: "mod_2",
+        type: "MINING_RIG",
+        tier: "RARE",
+        level: 1,
+        coordinates: { x: 1, y: 0 },
+        baseOutput: 20,
+        bonusOutput: 0,
+        efficiency: 100,
+        isActive: false,
+        lastCollectedAt: new Date(),
+      },
+    ],
+    ...overrides,
+  } as unknown as SharingPlayer;
+}
+
+/** The data passed to shareSnapshot.create */
+function createdSnapshot() {
+  return (
+    prismaMock.shareSnapshot.create.mock.calls[0]![0] as {
+      data: Record<string, unknown> & { imageParams: Record<string, string> };
+    }
+  ).data;
+}
+
+const ORIGINAL_APP_URL = process.env.NEXT_PUBLIC_APP_URL;
+
+beforeEach(() => {
+  resetPrismaMock();
+  process.env.NEXT_PUBLIC_APP_URL = "https://colony.example";
+  prismaMock.shareSnapshot.create.mockImplementation(
+    async (...args: unknown[]) =>
+      (args[0] as { data: Record<string, unknown> }).data,
+  );
+});
+
+afterAll(() => {
+  if (ORIGINAL_APP_URL === undefined) delete process.env.NEXT_PUBLIC_APP_URL;
+  else process.env.NEXT_PUBLIC_APP_URL = ORIGINAL_APP_URL;
+});
+
+// =========================================================================
+// Colony shares
+// =========================================================================
+
+describe("createShare — colony", () => {
+  test("freezes the colony grid into the image params", async () => {
+    const result = await createShare(makePlayer(), { kind: "colony" });
+
+    expect(result.success).toBe(true);
+    const data = createdSnapshot();
+    expect(data).toMatchObject({
+      playerId: "player_1",
+      fid: 12345,
+      kind: "colony",
+      subjectId: null,
+    });
+    expect(data.id).toMatch(/^[A-Za-z0-9_-]{8}$/);
+    expect(data.imageParams).toMatchObject({
+      screen: "colony",
+      level: "4",
+      balance: "2500",
+      moduleCount: "2",
+      footer: "Shared by moonbase",
+      cgrid_0_type: "SOLAR_PANEL",
+      cgrid_0_eff: "95",
+      cgrid_0_lvl: "2",
+      cgrid_0_active: "1",
+      cgrid_1_tier: "RARE",
+      cgrid_1_active: "0",
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "share_created" }),
+    });
+  });
+
+  test("returns the share URL, cast text and a compose intent", async () => {
+    const result = await createShare(makePlayer(), { kind: "colony" });
+    const id = createdSnapshot().id as string;
+
+    expect(result.shareId).toBe(id);
+    expect(result.url).toBe(`https://colony.example/share/${id}`);
+    expect(result.text).toContain("level 4 with 2 modules");
+
+    const compose = new URL(result.composeUrl!);
+    expect(compose.origin + compose.pathname).toBe(
+      "https://warpcast.com/~/compose",
+    );
+    expect(compose.searchParams.get("text")).toBe(result.text);
+    expect(compose.searchParams.getAll("embeds[]")).toEqual([result.url]);
+  });
+
+  test("reuses a recent colony snapshot", async () => {
+    prismaMock.shareSnapshot.findFirst.mockResolvedValue({
+      id: "recent01",
+      description: "🌙 My colony…",
+    });
+
+    const result = await createShare(makePlayer(), { kind: "colony" });
+
+    expect(result.shareId).toBe("recent01");
+    expect(prismaMock.shareSnapshot.create).not.toHaveBeenCalled();
+  });
+});
+
+// =========================================================================
+// Achievement shares
+// =========================================================================
+
+describe("createShare — achievement", () => {
+  test("requires a subject id", async () => {
+    const result = await createShare(makePlayer(), { kind: "achievement" });
+    expect(result).toEqual({
+      success: false,
+      error: "achievement id required",
+    });
+  });
+
+  test("rejects another player's unlock", async () => {
+    prismaMock.playerAchievement.findUnique.mockResolvedValue({
+      id: "pa_1",
+      playerId: "player_2",
+      achievement: { name: "First Module", description: "Build a module" },
+    });
+
+    const result = await createShare(makePlayer(), {
+      kind: "achievement",
+      subjectId: "pa_1",
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Achievement not found",
+    });
+    expect(prismaMock.shareSnapshot.create).not.toHaveBeenCalled();
+  });
+
+  test("renders the unlock on the result screen", async () => {
+    prismaMock.playerAchievement.findUnique.mockResolvedValue({
+      id: "pa_1",
+      playerId: "player_1",
+      achievement: { name: "First Module", description: "Build a module" },
+    });
+
+    const result = await createShare(makePlayer(), {
+      kind: "achievement",
+      subjectId: "pa_1",
+    });
+
+    expect(result.success).toBe(true);
+    const data = createdSnapshot();
+    expect(data.subjectId).toBe("pa_1");
+    expect(data.imageParams).toEqual({
+      screen: "result",
+      success: "1",
+      title: "🏆 First Module",
+      detail: "Build a module",
+      balance: "2500",
+      modules: "2",
+    });
+  });
+
+  test("returns the existing card for an already shared unlock", async () => {
+    prismaMock.shareSnapshot.findUnique.mockResolvedValue({
+      id: "shared01",
+      description: "🏆 Unlocked…",
+    });
+
+    const result = await createShare(makePlayer(), {
+      kind: "achievement",
+      subjectId: "pa_1",
+    });
+
+    expect(prismaMock.shareSnapshot.findUnique).toHaveBeenCalledWith({
+      where: {
+        playerId_kind_subjectId: {
+          playerId: "player_1",
+          kind: "achievement",
+          subjectId: "pa_1",
+        },
+      },
+    });
+    expect(result.shareId).toBe("shared01");
+    expect(prismaMock.playerAchievement.findUnique).not.toHaveBeenCalled();
+  });
+
+  test("returns the winner when a concurrent share inserts first", async () => {
+    prismaMock.playerAchievement.findUnique.mockResolvedValue({
+      id: "pa_1",
+      playerId: "player_1",
+      achievement: { name: "First Module", description: "Build a module" },
+    });
+    prismaMock.shareSnapshot.create.mockRejectedValue(
+      Object.assign(new Error("Unique constraint failed"), { code: "P2002" }),
+    );
+    prismaMock.shareSnapshot.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: "winner01", description: "🏆 Unlocked…" });
+
+    const result = await createShare(makePlayer(), {
+      kind: "achievement",
+      subjectId: "pa_1",
+    });
+
+    expect(result.shareId).toBe("winner01");
+  });
+});
+
+// =========================================================================
+// Trade shares
+// =========================================================================
+
+describe("createShare — trade", () => {
+  function mockLedger(overrides: Record<string, unknown> = {}) {
+    prismaMock.transaction.findUnique.mockResolvedValue({
+      id: "tx_1",
+      playerId: "player_1",
+      type: "TRADE",
+      resource: "HELIUM3",
+      balanceAfter: 1800.5,
+      metadata: {
+        side: "buy",
+        filledQty: 40,
+        avgPrice: 12.34567,
+        totalCost: 493.8268,
+        slippage: 0.456,
+      },
+      ...overrides,
+    });
+  }
+
+  test("freezes the fill into trade result params", async () => {
+    mockLedger();
+
+    const result = await createShare(makePlayer(), {
+      kind: "trade",
+      subjectId: "tx_1",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe(
+      "📈 Bought 40 HELIUM3 @ 12.3457 $LUNAR on the Lunar Market.",
+    );
+    expect(createdSnapshot().imageParams).toEqual({
+      screen: "result",
+      tradeResult: "1",
+      success: "1",
+      side: "buy",
+      resource: "HELIUM3",
+      quantity: "40",
+      avgPrice: "12.3457",
+      totalCost: "493.8268",
+      slippage: "0.46",
+      balance: "1800",
+    });
+  });
+
+  test("rejects limit-order escrow rows", async () => {
+    mockLedger({
+      metadata: { orderId: "ord_1", side: "BUY", quantity: 10 },
+    });
+
+    const result = await createShare(makePlayer(), {
+      kind: "trade",
+      subjectId: "tx_1",
+    });
+
+    expect(result).toEqual({ success: false, error: "Trade not found" });
+  });
+
+  test("rejects another player's trade", async () => {
+    mockLedger({ playerId: "player_2" });
+
+    const result = await createShare(makePlayer(), {
+      kind: "trade",
+      subjectId: "tx_1",
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  test("rejects an unknown kind", async () => {
+    const result = await createShare(makePlayer(), {
+      kind: "alliance" as never,
+    });
+    expect(result).toEqual({ success: false, error: "Unknown share kind" });
+  });
+});
+
+// =========================================================================
+// URLs, reads and views
+// =========================================================================
+
+describe("share URLs", () => {
+  test("launch URL attributes the sharer", () => {
+    const url = new URL(shareLaunchUrl({ id: "abc12345", fid: 12345 }));
+    expect(url.pathname).toBe("/dashboard");
+    expect(url.searchParams.get("ref")).toBe("12345");
+    expect(url.searchParams.get("share")).toBe("abc12345");
+  });
+
+  test("compose URL encodes text and embed", () => {
+    const url = new URL(composeCastUrl("gm & hi", "https://x.test/share/1"));
+    expect(url.searchParams.get("text")).toBe("gm & hi");
+    expect(url.searchParams.get("embeds[]")).toBe("https://x.test/share/1");
+  });
+});
+
+describe("getShareSnapshot / recordShareView", () => {
+  test("returns null for an unknown id", async () => {
+    expect(await getShareSnapshot("missing")).toBeNull();
+  });
+
+  test("maps the stored snapshot", async () => {
+    const createdAt = new Date("2026-03-10T12:00:00Z");
+    prismaMock.shareSnapshot.findUnique.mockResolvedValue({
+      id: "abc12345",
+      fid: 12345,
+      kind: "colony",
+      title: "moonbase's lunar colony",
+      description: "🌙 My colony…",
+      imageParams: { screen: "colony", level: "4" },
+      views: 3,
+      createdAt,
+      player: { username: "moonbase" },
+    });
+
+    expect(await getShareSnapshot("abc12345")).toEqual({
+      id: "abc12345",
+      fid: 12345,
+      username: "moonbase",
+      kind: "colony",
+      title: "moonbase's lunar colony",
+      description: "🌙 My colony…",
+      imageParams: { screen: "colony", level: "4" },
+      views: 3,
+      createdAt,
+    });
+  });
+
+  test("increments the view counter", async () => {
+    await recordShareView("abc12345");
+    expect(prismaMock.shareSnapshot.updateMany).toHaveBeenCalledWith({
+      where: { id: "abc12345" },
+      data: { views: { increment: 1 } },
+    });
+  });
+});
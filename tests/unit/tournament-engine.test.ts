@@ -0,0 +1,458 @@
+/**
+ * Tournament Engine — Unit Tests
+ *
+ * Tests season seeding, team score aggregation, bracket pairing and round
+ * resolution, league/bracket ranking, and treasury payouts by reward tier.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engine after mocks
+const {
+  startTournamentSeason,
+  advanceTournamentBrackets,
+  completeTournamentSeason,
+  getTournamentOverview,
+  pairBracket,
+  resolveRound,
+  rankEntries,
+  tournamentPayouts,
+  bracketRounds,
+  chooseFormat,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/tournament-engine") as typeof import("@/lib/tournament-engine");
+
+const TIERS = [
+  { rank: 1, multiplier: 5, label: "Tournament Champion" },
+  { rank: 2, multiplier: 3, label: "Runner-Up" },
+  { rank: 3, multiplier: 2, label: "Third Place" },
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(
+  allianceId: string,
+  seed: number,
+  overrides: Record<string, unknown> = {},
+) {
+  return {
+    id: `entry_${allianceId}`,
+    seasonId: "season_1",
+    allianceId,
+    allianceName: `Alliance ${allianceId}`,
+    seed,
+    score: 0,
+    roundBaseScore: 0,
+    eliminatedRound: null,
+    rank: null,
+    reward: 0,
+    ...overrides,
+  };
+}
+
+function season(overrides: Record<string, unknown> = {}) {
+  const start = new Date(Date.now() - DAY);
+  return {
+    id: "season_1",
+    number: 2,
+    eventId: "evt_1",
+    name: "Season 2 — Knockout",
+    format: "BRACKET",
+    status: "ACTIVE",
+    startTime: start,
+    endTime: new Date(start.getTime() + 2 * DAY),
+    rounds: 2,
+    currentRound: 1,
+    rewardPool: 10000,
+    completedAt: null,
+    createdAt: start,
+    entries: [entry("a", 1), entry("b", 2), entry("c", 3), entry("d", 4)],
+    ...overrides,
+  };
+}
+
+/** One EventParticipant row per alliance with the given score */
+function mockScores(scores: Record<string, number>) {
+  prismaMock.eventParticipant.findMany.mockResolvedValue(
+    Object.entries(scores).map(([allianceId, score]) => ({
+      score,
+      player: { allianceMember: { allianceId } },
+    })),
+  );
+}
+
+function entryUpdates() {
+  return prismaMock.tournamentEntry.update.mock.calls.map(
+    (c) => c[0] as { where: { id: string }; data: Record<string, unknown> },
+  );
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.eventParticipant.findMany.mockResolvedValue([]);
+  prismaMock.tournamentSeason.findMany.mockResolvedValue([]);
+  prismaMock.alliance.findMany.mockResolvedValue([]);
+});
+
+// ---------------------------------------------------------------------------
+// 1. Pure helpers
+// ---------------------------------------------------------------------------
+
+describe("Format + bracket helpers", () => {
+  it("plays a bracket from four entrants and a league below that", () => {
+    expect(chooseFormat(3)).toBe("LEAGUE");
+    expect(chooseFormat(4)).toBe("BRACKET");
+    expect(bracketRounds(4)).toBe(2);
+    expect(bracketRounds(5)).toBe(3);
+  });
+
+  it("pairs best seed against worst and gives an odd top seed a bye", () => {
+    const pairs = pairBracket([
+      { seed: 3 },
+      { seed: 1 },
+      { seed: 5 },
+      { seed: 2 },
+      { seed: 4 },
+    ]);
+    expect(pairs.map(([a, b]) => [a.seed, b?.seed ?? null])).toEqual([
+      [1, null],
+      [2, 5],
+      [3, 4],
+    ]);
+  });
+
+  it("decides matches on score gained this round, ties to the better seed", () => {
+    const entries = [
+      {
+        allianceId: "a",
+        seed: 1,
+        score: 500,
+        roundBaseScore: 400,
+        eliminatedRound: null,
+      },
+      {
+        allianceId: "b",
+        seed: 2,
+        score: 300,
+        roundBaseScore: 0,
+        eliminatedRound: null,
+      },
+      {
+        allianceId: "c",
+        seed: 3,
+        score: 300,
+        roundBaseScore: 0,
+        eliminatedRound: null,
+      },
+      {
+        allianceId: "d",
+        seed: 4,
+        score: 150,
+        roundBaseScore: 0,
+        eliminatedRound: null,
+      },
+    ];
+
+    const losers = resolveRound(entries, 1);
+
+    // a (+100) loses to d (+150) despite a higher total; b and c tie → b
+    expect(losers.map((e) => e.allianceId).sort()).toEqual(["a", "c"]);
+    expect(entries.find((e) => e.allianceId === "d")!.roundBaseScore).toBe(150);
+    expect(entries.find((e) => e.allianceId === "a")!.eliminatedRound).toBe(1);
+  });
+
+  it("ranks brackets by progress and leagues by score", () => {
+    const entries = [
+      {
+        allianceId: "a",
+        seed: 1,
+        score: 900,
+        roundBaseScore: 0,
+        eliminatedRound: 1,
+      },
+      {
+        allianceId: "b",
+        seed: 2,
+        score: 100,
+        roundBaseScore: 0,
+        eliminatedRound: null,
+      },
+      {
+        allianceId: "c",
+        seed: 3,
+        score: 400,
+        roundBaseScore: 0,
+        eliminatedRound: 2,
+      },
+    ];
+    expect(rankEntries("BRACKET", entries).map((e) => e.allianceId)).toEqual([
+      "b",
+      "c",
+      "a",
+    ]);
+    expect(rankEntries("LEAGUE", entries).map((e) => e.allianceId)).toEqual([
+      "a",
+      "c",
+      "b",
+    ]);
+  });
+
+  it("splits the pool by tier multiplier among placed alliances", () => {
+    const payouts = tournamentPayouts(["a", "b", "c", "d"], 10000, TIERS);
+    expect(Object.fromEntries(payouts)).toEqual({ a: 5000, b: 3000, c: 2000 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Seasons
+// ---------------------------------------------------------------------------
+
+describe("startTournamentSeason", () => {
+  it("numbers the season and seeds alliances by treasury", async () => {
+    prismaMock.tournamentSeason.findFirst.mockResolvedValue({ number: 4 });
+    prismaMock.tournamentSeason.create.mockResolvedValue({ id: "season_5" });
+    const start = new Date();
+    const end = new Date(start.getTime() + 7 * DAY);
+
+    await startTournamentSeason(
+      { id: "evt_9", startTime: start, endTime: end },
+      [
+        { id: "x", name: "Small", totalLunar: 100 },
+        { id: "y", name: "Rich", totalLunar: 9000 },
+      ],
+      10000,
+    );
+
+    const { data } = prismaMock.tournamentSeason.create.mock.calls[0]![0] as {
+      data: Record<string, unknown>;
+    };
+    expect(data).toMatchObject({
+      number: 5,
+      eventId: "evt_9",
+      name: "Season 5 — League",
+      format: "LEAGUE",
+      rounds: 0,
+      currentRound: 0,
+      entries: {
+        create: [
+          { allianceId: "y", allianceName: "Rich", seed: 1 },
+          { allianceId: "x", allianceName: "Small", seed: 2 },
+        ],
+      },
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 3. Scoring + rounds
+// ---------------------------------------------------------------------------
+
+describe("advanceTournamentBrackets", () => {
+  it("sums member scores per alliance and stores changed totals", async () => {
+    prismaMock.tournamentSeason.findMany.mockResolvedValue([
+      season({ format: "LEAGUE", rounds: 0, currentRound: 0 }),
+    ]);
+    prismaMock.eventParticipant.findMany.mockResolvedValue([
+      { score: 40, player: { allianceMember: { allianceId: "a" } } },
+      { score: 60, player: { allianceMember: { allianceId: "a" } } },
+      { score: 25, player: { allianceMember: { allianceId: "c" } } },
+      // Left their alliance mid-season: counts for nobody
+      { score: 999, player: { allianceMember: null } },
+    ]);
+
+    const result = await advanceTournamentBrackets();
+
+    expect(result).toEqual({ seasons: 1, roundsResolved: 0 });
+    expect(entryUpdates()).toEqual([
+      { where: { id: "entry_a" }, data: { score: 100 } },
+      { where: { id: "entry_c" }, data: { score: 25 } },
+    ]);
+  });
+
+  it("resolves a bracket round once its time is up", async () => {
+    // Round 1 of 2 ended an hour ago
+    const start = new Date(Date.now() - DAY - 60 * 60 * 1000);
+    prismaMock.tournamentSeason.findMany.mockResolvedValue([
+      season({
+        startTime: start,
+        endTime: new Date(start.getTime() + 2 * DAY),
+      }),
+    ]);
+    mockScores({ a: 100, b: 300, c: 200, d: 50 });
+
+    const result = await advanceTournamentBrackets();
+
+    expect(result.roundsResolved).toBe(1);
+    expect(prismaMock.tournamentSeason.update).toHaveBeenCalledWith({
+      where: { id: "season_1", currentRound: 1 },
+      data: { currentRound: 2 },
+    });
+    // a beats d, b beats c
+    const eliminated = entryUpdates()
+      .filter((u) => u.data.eliminatedRound === 1)
+      .map((u) => u.where.id);
+    expect(eliminated.sort()).toEqual(["entry_c", "entry_d"]);
+  });
+
+  it("leaves a round open until its end time", async () => {
+    prismaMock.tournamentSeason.findMany.mockResolvedValue([
+      season({
+        startTime: new Date(),
+        endTime: new Date(Date.now() + 2 * DAY),
+      }),
+    ]);
+
+    const result = await advanceTournamentBrackets();
+
+    expect(result.roundsResolved).toBe(0);
+    expect(prismaMock.tournamentSeason.update).not.toHaveBeenCalled();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 4. Payouts
+// ---------------------------------------------------------------------------
+
+describe("completeTournamentSeason", () => {
+  it("skips events without an active season", async () => {
+    const result = await completeTournamentSeason("evt_x", TIERS);
+    expect(result).toEqual({
+      seasonId: null,
+      alliancesPaid: 0,
+      totalAmount: 0,
+    });
+    expect(prismaMock.alliance.update).not.toHaveBeenCalled();
+  });
+
+  it("decides the final and pays treasuries by placing", async () => {
+    // Round 1 done: c and d are out; a and b meet in the final
+    prismaMock.tournamentSeason.findUnique.mockResolvedValue(
+      season({
+        currentRound: 2,
+        entries: [
+          entry("a", 1, { score: 300, roundBaseScore: 300 }),
+          entry("b", 2, { score: 250, roundBaseScore: 200 }),
+          entry("c", 3, { score: 900, eliminatedRound: 1 }),
+          entry("d", 4, { score: 10, eliminatedRound: 1 }),
+        ],
+      }),
+    );
+    // b gains 150 in the final, a only 20
+    mockScores({ a: 320, b: 400, c: 900, d: 10 });
+    prismaMock.alliance.findMany.mockResolvedValue([
+      { id: "a" },
+      { id: "b" },
+      { id: "c" },
+    ]);
+
+    const result = await completeTournamentSeason("evt_1", TIERS);
+
+    expect(result).toEqual({
+      seasonId: "season_1",
+      alliancesPaid: 3,
+      totalAmount: 10000,
+    });
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "b" },
+      data: { totalLunar: { increment: 5000 }, version: { increment: 1 } },
+    });
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "a" },
+      data: { totalLunar: { increment: 3000 }, version: { increment: 1 } },
+    });
+    // c and d both went out in round 1; c places third on total score
+    expect(prismaMock.alliance.update).toHaveBeenCalledWith({
+      where: { id: "c" },
+      data: { totalLunar: { increment: 2000 }, version: { increment: 1 } },
+    });
+    expect(entryUpdates()).toContainEqual({
+      where: { id: "entry_b" },
+      data: { rank: 1, reward: 5000, eliminatedRound: null },
+    });
+    expect(prismaMock.tournamentSeason.update).toHaveBeenCalledWith({
+      where: { id: "season_1", status: "ACTIVE" },
+      data: expect.objectContaining({ status: "COMPLETED" }),
+    });
+  });
+
+  it("ranks a disbanded alliance but forfeits its reward", async () => {
+    prismaMock.tournamentSeason.findUnique.mockResolvedValue(
+      season({
+        format: "LEAGUE",
+        rounds: 0,
+        currentRound: 0,
+        entries: [entry("a", 1), entry("b", 2)],
+      }),
+    );
+    mockScores({ a: 500, b: 100 });
+    prismaMock.alliance.findMany.mockResolvedValue([{ id: "b" }]);
+
+    const result = await completeTournamentSeason("evt_1", TIERS);
+
+    expect(result.alliancesPaid).toBe(1);
+    expect(entryUpdates()).toContainEqual({
+      where: { id: "entry_a" },
+      data: { rank: 1, reward: 0, eliminatedRound: null },
+    });
+    expect(prismaMock.alliance.update).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 5. Overview + archive
+// ---------------------------------------------------------------------------
+
+describe("getTournamentOverview", () => {
+  it("returns live standings, current pairings and the archive", async () => {
+    prismaMock.tournamentSeason.findFirst.mockResolvedValue(
+      season({
+        entries: [
+          entry("a", 1, { score: 50 }),
+          entry("b", 2, { score: 80 }),
+          entry("c", 3, { score: 20 }),
+          entry("d", 4, { score: 10 }),
+        ],
+      }),
+    );
+    prismaMock.tournamentSeason.findMany.mockResolvedValue([
+      {
+        number: 1,
+        name: "Season 1 — League",
+        format: "LEAGUE",
+        completedAt: new Date(),
+        entries: [entry("z", 1, { rank: 1, score: 700, reward: 5000 })],
+      },
+    ]);
+    prismaMock.allianceMember.findUnique.mockResolvedValue({
+      allianceId: "c",
+    });
+
+    const view = await getTournamentOverview("player_1");
+
+    expect(view.myAllianceId).toBe("c");
+    expect(view.current!.standings.map((s) => s.allianceId)).toEqual([
+      "b",
+      "a",
+      "c",
+      "d",
+    ]);
+    expect(view.current!.matches).toEqual([
+      { round: 1, a: "a", b: "d" },
+      { round: 1, a: "b", b: "c" },
+    ]);
+    expect(view.archive).toEqual([
+      expect.objectContaining({
+        number: 1,
+        podium: [
+          {
+            rank: 1,
+            allianceName: "Alliance z",
+            score: 700,
+            reward: 5000,
+          },
+        ],
+      }),
+    ]);
+  });
+});
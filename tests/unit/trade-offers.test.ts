@@ -0,0 +1,452 @@
+/**
+ * Player Trade Offers — Unit Tests
+ *
+ * Tests offer creation with escrow and gift rules, atomic settlement under
+ * the optimistic lock, escrow release on decline/cancel/expiry and the
+ * daily gift caps on both sides.
+ */
+
+import { prismaMock, resetPrismaMock } from "../helpers/prisma-mock";
+
+// Import engines after mocks
+const {
+  offerGiftValue,
+  offerReturnGiftValue,
+  createTradeOffer,
+  acceptTradeOffer,
+  declineTradeOffer,
+  cancelTradeOffer,
+  expireTradeOffers,
+} =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/trade-offers") as typeof import("@/lib/trade-offers");
+const { invalidateGameConfig } =
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  require("@/lib/game-config") as typeof import("@/lib/game-config");
+
+function makeOffer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "offer_1",
+    senderId: "p1",
+    recipientId: "p2",
+    allianceId: null,
+    offerResource: "REGOLITH",
+    offerQuantity: 100,
+    requestResource: "LUNAR",
+    requestQuantity: 250,
+    giftValue: 0,
+    returnGiftValue: 0,
+    message: null,
+    status: "OPEN",
+    acceptedById: null,
+    version: 3,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date(),
+    closedAt: null,
+    sender: { fid: 1, username: "alice" },
+    recipient: { fid: 2, username: "bob" },
+    alliance: null,
+    ...overrides,
+  };
+}
+
+/** Ledger rows written in one call to transaction.createMany */
+function ledgerRows() {
+  const call = prismaMock.transaction.createMany.mock.calls[0]![0] as {
+    data: Array<Record<string, unknown>>;
+  };
+  return call.data.map((r) => [r.playerId, r.resource, r.amount]);
+}
+
+beforeEach(() => {
+  resetPrismaMock();
+  invalidateGameConfig();
+  prismaMock.gameConfig.findMany.mockResolvedValue([]);
+  prismaMock.tradeOffer.count.mockResolvedValue(0);
+  prismaMock.tradeOffer.aggregate.mockResolvedValue({ _sum: {} });
+  prismaMock.tradeOffer.findUniqueOrThrow.mockResolvedValue(makeOffer());
+  prismaMock.tradeOffer.create.mockResolvedValue(makeOffer());
+  prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+    id: "p1",
+    lunarBalance: 1000,
+    version: 7,
+  });
+  prismaMock.playerResource.upsert.mockResolvedValue({ amount: 100 });
+  prismaMock.playerResource.findUniqueOrThrow.mockResolvedValue({
+    amount: 400,
+  });
+  prismaMock.playerResource.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.tradeOffer.updateMany.mockResolvedValue({ count: 1 });
+});
+
+// ---------------------------------------------------------------------------
+// 1. Offers
+// ---------------------------------------------------------------------------
+
+describe("offerGiftValue", () => {
+  test("Counts only the value given beyond what is asked back", () => {
+    // 100 REGOLITH @ 2.5 = 250 given
+    expect(
+      offerGiftValue({ offerResource: "REGOLITH", offerQuantity: 100 }),
+    ).toBe(250);
+    expect(
+      offerGiftValue({
+        offerResource: "REGOLITH",
+        offerQuantity: 100,
+        requestResource: "LUNAR",
+        requestQuantity: 200,
+      }),
+    ).toBe(50);
+    expect(
+      offerGiftValue({
+        offerResource: "REGOLITH",
+        offerQuantity: 100,
+        requestResource: "LUNAR",
+        requestQuantity: 400,
+      }),
+    ).toBe(0);
+  });
+
+  test("Counts the reverse surplus when more is asked than given", () => {
+    const lopsided = {
+      offerResource: "REGOLITH" as const,
+      offerQuantity: 1,
+      requestResource: "LUNAR" as const,
+      requestQuantity: 1000,
+    };
+    expect(offerGiftValue(lopsided)).toBe(0);
+    expect(offerReturnGiftValue(lopsided)).toBe(997.5);
+  });
+});
+
+describe("createTradeOffer", () => {
+  const trade = {
+    recipientFid: 2,
+    offerResource: "REGOLITH" as const,
+    offerQuantity: 100,
+    requestResource: "LUNAR" as const,
+    requestQuantity: 250,
+  };
+
+  beforeEach(() => {
+    prismaMock.player.findUnique.mockResolvedValue({
+      id: "p2",
+      deletedAt: null,
+      allianceMember: null,
+    });
+  });
+
+  test("Escrows the offered resource and opens the offer", async () => {
+    const result = await createTradeOffer("p1", trade);
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.playerResource.updateMany).toHaveBeenCalledWith({
+      where: {
+        playerId: "p1",
+        type: "REGOLITH",
+        amount: { gte: 100 },
+      },
+      data: { amount: { increment: -100 } },
+    });
+    expect(prismaMock.tradeOffer.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          senderId: "p1",
+          recipientId: "p2",
+          allianceId: null,
+          giftValue: 0,
+        }),
+      }),
+    );
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "P2P_TRADE",
+        resource: "REGOLITH",
+        amount: -100,
+        balanceAfter: 400,
+      }),
+    });
+  });
+
+  test("Fails without enough of the offered resource", async () => {
+    prismaMock.playerResource.updateMany.mockResolvedValue({ count: 0 });
+    const result = await createTradeOffer("p1", trade);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Insufficient REGOLITH");
+  });
+
+  test("Rejects trading with yourself", async () => {
+    prismaMock.player.findUnique.mockResolvedValue({
+      id: "p1",
+      deletedAt: null,
+      allianceMember: null,
+    });
+    const result = await createTradeOffer("p1", trade);
+    expect(result.error).toContain("yourself");
+  });
+
+  test("Gifts only go to alliance mates", async () => {
+    prismaMock.allianceMember.findUnique.mockResolvedValue({
+      allianceId: "ally_1",
+      alliance: { deletedAt: null },
+    });
+    prismaMock.player.findUnique.mockResolvedValue({
+      id: "p2",
+      deletedAt: null,
+      allianceMember: { allianceId: "ally_2" },
+    });
+
+    const result = await createTradeOffer("p1", {
+      recipientFid: 2,
+      offerResource: "LUNAR",
+      offerQuantity: 100,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("alliance mates");
+  });
+
+  test("Caps the value a sender can give away per day", async () => {
+    prismaMock.allianceMember.findUnique.mockResolvedValue({
+      allianceId: "ally_1",
+      alliance: { deletedAt: null },
+    });
+    prismaMock.player.findUnique.mockResolvedValue({
+      id: "p2",
+      deletedAt: null,
+      allianceMember: { allianceId: "ally_1" },
+    });
+    prismaMock.tradeOffer.aggregate.mockResolvedValue({
+      _sum: { giftValue: 1900 },
+    });
+
+    const result = await createTradeOffer("p1", {
+      recipientFid: 2,
+      offerResource: "LUNAR",
+      offerQuantity: 150,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Daily gift limit");
+    expect(prismaMock.tradeOffer.create).not.toHaveBeenCalled();
+  });
+
+  test("Enforces the open offer cap", async () => {
+    prismaMock.tradeOffer.count.mockResolvedValue(10);
+    const result = await createTradeOffer("p1", trade);
+    expect(result.error).toContain("open offers");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// 2. Settle
+// ---------------------------------------------------------------------------
+
+describe("acceptTradeOffer", () => {
+  test("Swaps both sides and closes the offer atomically", async () => {
+    prismaMock.tradeOffer.findUnique.mockResolvedValue(makeOffer());
+    prismaMock.player.findUniqueOrThrow.mockResolvedValue({
+      id: "p2",
+      lunarBalance: 500,
+      version: 2,
+    });
+
+    const result = await acceptTradeOffer("p2", "offer_1");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.tradeOffer.updateMany).toHaveBeenCalledWith({
+      where: { id: "offer_1", version: 3, status: "OPEN" },
+      data: expect.objectContaining({
+        status: "ACCEPTED",
+        acceptedById: "p2",
+        version: { increment: 1 },
+      }),
+    });
+    expect(ledgerRows()).toEqual([
+      ["p2", "LUNAR", -250],
+      ["p1", "LUNAR", 250],
+      ["p2", "REGOLITH", 100],
+    ]);
+  });
+
+  test("Loses the race when the offer version moved", async () => {
+    prismaMock.tradeOffer.findUnique.mockResolvedValue(makeOffer());
+    prismaMock.tradeOffer.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await acceptTradeOffer("p2", "offer_1");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("just updated");
+    expect(prismaMock.transaction.createMany).not.toHaveBeenCalled();
+  });
+
+  test("Only the named recipient may accept", async () => {
+    prismaMock.tradeOffer.findUnique.mockResolvedValue(makeOffer());
+    const result = await acceptTradeOffer("p3", "offer_1");
+    expect(result.error).toContain("isn't addressed to you");
+  });
+
+  test("Alliance offers are open to any member", async () => {
+    prismaMock.tradeOffer.findUnique.mockResolvedValue(
+      makeOffer({ recipientId: null, allianceId: "ally_1" }),
+    );
+    prismaMock.allianceMember.findUnique.mockResolvedValue({
+      allianceId: "ally_2",
+    });
+    expect((await acceptTradeOffer("p3", "offer_1")).success).toBe(false);
+
+    prismaMock.allianceMember.findUnique.mockResolvedValue({
+      allianceId: "ally_1",
+    });
+    expect((await acceptTradeOffer("p3", "offer_1")).success).toBe(true);
+  });
+
+  test("Caps the gift value a player can receive per day", async () => {
+    prismaMock.tradeOffer.findUnique.mockResolvedValue(
+      makeOffer({ requestResource: null, requestQuantity: 0, giftValue: 250 }),
+    );
+    prismaMock.tradeOffer.aggregate.mockResolvedValue({
+      _sum: { giftValue: 1800 },
+    });
+
+    const result = await acceptTradeOffer("p2", "offer_1");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Daily gift limit");
+    expect(prismaMock.tradeOffer.updateMany).not.toHaveBeenCalled();
+  });
+
+  test("Counts a reverse-lopsided trade against the acceptor's gifts", async () => {
+    // 1 REGOLITH for 1000 LUNAR — the acceptor gives away 997.5
+    prismaMock.tradeOffer.findUnique.mockResolvedValue(
+      makeOffer({
+        offerQuantity: 1,
+        requestQuantity: 1000,
+        returnGiftValue: 997.5,
+      }),
+    );
+    prismaMock.tradeOffer.aggregate.mockImplementation(((args: {
+      where: { acceptedById?: string };
+      _sum: { returnGiftValue?: boolean };
+    }) =>
+      Promise.resolve({
+        _sum:
+          args.where.acceptedById === "p2" && args._sum.returnGiftValue
+            ? { returnGiftValue: 1500 }
+            : {},
+      })) as never);
+
+    const result = await acceptTradeOffer("p2", "offer_1");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Daily gift limit");
+    expect(prismaMock.tradeOffer.updateMany).not.toHaveBeenCalled();
+  });
+
+  test("Counts a reverse-lopsided trade against the sender's receipts", async () => {
+    prismaMock.tradeOffer.findUnique.mockResolvedValue(
+      makeOffer({
+        offerQuantity: 1,
+        requestQuantity: 1000,
+        returnGiftValue: 997.5,
+      }),
+    );
+    prismaMock.tradeOffer.aggregate.mockImplementation(((args: {
+      where: { senderId?: string };
+      _sum: { returnGiftValue?: boolean };
+    }) =>
+      Promise.resolve({
+        _sum:
+          args.where.senderId === "p1" && args._sum.returnGiftValue
+            ? { returnGiftValue: 1500 }
+            : {},
+      })) as never);
+
+    const result = await acceptTradeOffer("p2", "offer_1");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("the sender can receive");
+    expect(prismaMock.tradeOffer.updateMany).not.toHaveBeenCalled();
+  });
+
+  test("Rejects expired offers", async () => {
+    prismaMock.tradeOffer.findUnique.mockResolvedValue(
+      makeOffer({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+    const result = await acceptTradeOffer("p2", "offer_1");
+    expect(result.error).toContain("expired");
+  });
+});
+
+describe("declineTradeOffer / cancelTradeOffer", () => {
+  test("Declining returns the escrow to the sender", async () => {
+    prismaMock.tradeOffer.findFirst.mockResolvedValue(makeOffer());
+
+    const result = await declineTradeOffer("p2", "offer_1");
+
+    expect(result.success).toBe(true);
+    expect(prismaMock.tradeOffer.findFirst).toHaveBeenCalledWith({
+      where: { id: "offer_1", recipientId: "p2" },
+    });
+    expect(prismaMock.playerResource.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { playerId_type: { playerId: "p1", type: "REGOLITH" } },
+        update: { amount: { increment: 100 } },
+      }),
+    );
+    expect(prismaMock.transaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        playerId: "p1",
+        type: "REFUND",
+        amount: 100,
+      }),
+    });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "trade_offer_declined" }),
+    });
+  });
+
+  test("Only the sender can cancel", async () => {
+    const result = await cancelTradeOffer("p2", "offer_1");
+    expect(result.success).toBe(false);
+    expect(prismaMock.tradeOffer.findFirst).toHaveBeenCalledWith({
+      where: { id: "offer_1", senderId: "p2" },
+    });
+  });
+
+  test("Closed offers can't be cancelled", async () => {
+    prismaMock.tradeOffer.findFirst.mockResolvedValue(
+      makeOffer({ status: "ACCEPTED" }),
+    );
+    const result = await cancelTradeOffer("p1", "offer_1");
+    expect(result.error).toContain("already accepted");
+  });
+});
+
+describe("expireTradeOffers", () => {
+  test("Expires stale offers and keeps going past a failure", async () => {
+    prismaMock.tradeOffer.findMany.mockResolvedValue([
+      makeOffer({ id: "offer_1" }),
+      makeOffer({ id: "offer_2" }),
+    ]);
+    prismaMock.tradeOffer.updateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+
+    const now = new Date("2026-03-10T12:00:00Z");
+    const result = await expireTradeOffers(now);
+
+    expect(prismaMock.tradeOffer.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: "OPEN", expiresAt: { lte: now } },
+      }),
+    );
+    expect(result).toEqual({ expired: 1, failed: 1 });
+    expect(prismaMock.gameEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        playerId: null,
+        type: "trade_offer_expired",
+      }),
+    });
+  });
+});
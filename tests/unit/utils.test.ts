@@ -1,7 +1,8 @@
 /**
  * Utils — Unit Tests
  *
- * Tests for formatting helpers, URL builders, and time utilities.
+ * Tests for formatting helpers, URL builders, time utilities and the
+ * shared encoding / database helpers.
  */
 
 const {
@@ -11,6 +12,11 @@ const {
   formatNumber,
   formatLunar,
   secondsUntilNextTick,
+  round4,
+  startOfUtcDay,
+  toBase64Url,
+  fromBase64Url,
+  isPrismaUniqueViolation,
   GAME_CONSTANTS,
 } =
   // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -52,6 +58,14 @@ describe("absoluteUrl", () => {
     expect(url).toMatch(/\/test$/);
   });
 
+  test("prefers NEXT_PUBLIC_APP_URL over VERCEL_URL", () => {
+    process.env.NEXT_PUBLIC_APP_URL = "https://lunar.example.com/";
+    process.env.VERCEL_URL = "my-app.vercel.app";
+    expect(absoluteUrl("/share/abc")).toBe(
+      "https://lunar.example.com/share/abc",
+    );
+  });
+
   test("falls back to localhost", () => {
     delete process.env.NEXT_PUBLIC_APP_URL;
     delete process.env.VERCEL_URL;
@@ -179,3 +193,44 @@ describe("frameHtmlResponse", () => {
     expect(html).toContain("Lunar Colony Tycoon");
   });
 });
+
+// =========================================================================
+// Shared helpers
+// =========================================================================
+
+describe("round4", () => {
+  test("rounds to 4 decimal places", () => {
+    expect(round4(1.23456)).toBe(1.2346);
+    expect(round4(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+describe("startOfUtcDay", () => {
+  test("returns UTC midnight of the given day", () => {
+    expect(startOfUtcDay(new Date("2026-03-10T23:59:59Z"))).toEqual(
+      new Date("2026-03-10T00:00:00Z"),
+    );
+  });
+});
+
+describe("base64url", () => {
+  test("round-trips bytes without padding or url-unsafe characters", () => {
+    const bytes = Uint8Array.from([251, 255, 191, 0, 1]);
+    const encoded = toBase64Url(bytes);
+    expect(encoded).toBe(Buffer.from(bytes).toString("base64url"));
+    expect(fromBase64Url(encoded)).toEqual(bytes);
+  });
+
+  test("returns null for invalid input", () => {
+    expect(fromBase64Url("not*base64")).toBeNull();
+  });
+});
+
+describe("isPrismaUniqueViolation", () => {
+  test("matches only P2002 errors", () => {
+    expect(isPrismaUniqueViolation({ code: "P2002" })).toBe(true);
+    expect(isPrismaUniqueViolation({ code: "P2025" })).toBe(false);
+    expect(isPrismaUniqueViolation(new Error("boom"))).toBe(false);
+    expect(isPrismaUniqueViolation(null)).toBe(false);
+  });
+});